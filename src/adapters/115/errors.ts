@@ -0,0 +1,137 @@
+import type { ErrorCategory, ErrorClassification } from '../../types/error';
+import { classifyAs, classifyGenericError } from '../../core/error-taxonomy';
+import type { PageScriptHTTPFailure } from '../base/page-script-injector';
+
+/**
+ * 115 API Error Class
+ */
+export class Pan115APIError extends Error {
+  constructor(
+    public errno: number,
+    message: string,
+    public response?: unknown,
+    public status?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'Pan115APIError';
+  }
+}
+
+/**
+ * 115 API Error Code Mapping
+ * Based on observed webapi.115.com responses
+ */
+export const ERROR_CODES: Record<string, string> = {
+  '0': '成功',
+  '911': '需要验证账号，请在网页中完成验证',
+  '990001': '登录超时，请重新登录',
+  '990002': '参数错误',
+  '990009': '操作过于频繁，请稍后再试',
+  '20004': '该目录名称已存在',
+  '20009': '父目录不存在',
+  '20018': '文件或目录不存在',
+  '20022': '文件名包含非法字符',
+  '70004': '文件名已存在',
+  '70005': '文件名过长',
+};
+
+/**
+ * Errno values worth retrying: rate limiting only; login and validation errors need the user
+ */
+const RETRYABLE_ERRNOS = new Set([990009]);
+
+/**
+ * 115 responses carry the code as `errno`, `errNo` or `code`, sometimes as a string
+ */
+export interface Pan115ErrorFields {
+  errno?: number | string;
+  errNo?: number | string;
+  code?: number | string;
+  error?: string;
+  msg?: string;
+}
+
+/**
+ * Read the numeric error code from a response (0 when absent)
+ */
+export function getResponseErrno(response: Pan115ErrorFields): number {
+  const raw = response.errno ?? response.errNo ?? response.code;
+  const errno = typeof raw === 'string' ? parseInt(raw, 10) : raw;
+  return typeof errno === 'number' && Number.isFinite(errno) ? errno : 0;
+}
+
+/**
+ * Get user-friendly error message
+ */
+export function getErrorMessage(errno: number, defaultMessage?: string): string {
+  const key = errno.toString();
+  return ERROR_CODES[key] || defaultMessage || `未知错误 (errno: ${errno})`;
+}
+
+/**
+ * Build an error from a failed (`state: false`) response
+ */
+export function toAPIError(response: Pan115ErrorFields): Pan115APIError {
+  const errno = getResponseErrno(response);
+  return new Pan115APIError(errno, getErrorMessage(errno, response.error || response.msg), response);
+}
+
+/**
+ * Build an error from a non-2xx response reported by the page script,
+ * keeping the HTTP status and Retry-After for classification
+ */
+export function fromHTTPFailure(failure: PageScriptHTTPFailure): Pan115APIError {
+  const body = (failure.body && typeof failure.body === 'object' ? failure.body : {}) as Pan115ErrorFields;
+  const errno = getResponseErrno(body);
+  const message = errno ? getErrorMessage(errno, body.error || body.msg) : failure.message;
+  return new Pan115APIError(errno, message, failure.body, failure.status, failure.retryAfterMs);
+}
+
+/**
+ * Check if error is retryable
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof Pan115APIError) {
+    return RETRYABLE_ERRNOS.has(error.errno);
+  }
+
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  // Timeout errors are retryable
+  if (error.name === 'AbortError' || error.message.includes('timeout')) {
+    return true;
+  }
+
+  // Network errors from the page script are retryable
+  return error.message === 'Network error';
+}
+
+/**
+ * Error category for each errno; unknown errnos fall back to the generic classifier
+ */
+const ERROR_CATEGORIES: Record<number, ErrorCategory> = {
+  911: 'auth_expired',
+  990001: 'auth_expired',
+  990002: 'fatal',
+  990009: 'throttled',
+  20004: 'name_conflict',
+  20009: 'not_found',
+  20018: 'not_found',
+  20022: 'invalid_name',
+  70004: 'name_conflict',
+  70005: 'invalid_name',
+};
+
+/**
+ * Map an error into the shared error taxonomy
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof Pan115APIError && ERROR_CATEGORIES[error.errno]) {
+    return classifyAs(ERROR_CATEGORIES[error.errno], error);
+  }
+
+  return classifyGenericError(error);
+}
@@ -0,0 +1,25 @@
+/**
+ * Page Script Injector for 115 Drive
+ * Communicates with MAIN world page-script.ts (cookies are attached in MAIN world)
+ */
+
+import { PageScriptInjector } from '../base/page-script-injector';
+import { fromHTTPFailure } from './errors';
+
+/**
+ * Form fields sent as application/x-www-form-urlencoded
+ */
+export type Pan115RequestBody = Record<string, string | number>;
+
+let instance: PageScriptInjector<Pan115RequestBody> | null = null;
+
+export function getPageScriptInjector(): PageScriptInjector<Pan115RequestBody> {
+  if (!instance) {
+    instance = new PageScriptInjector<Pan115RequestBody>({
+      prefix: 'PAN115',
+      datasetKey: 'pan115',
+      createHTTPError: fromHTTPFailure,
+    });
+  }
+  return instance;
+}
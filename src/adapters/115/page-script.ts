@@ -0,0 +1,170 @@
+/**
+ * Page Script for 115 Drive - Runs in MAIN world
+ * Used to call webapi.115.com with cookie authentication
+ *
+ * Communication Protocol:
+ * Content Script -> Page Script: { type: 'PAN115_API_REQUEST', requestId, method, url, body }
+ * Page Script -> Content Script: { type: 'PAN115_API_RESPONSE', requestId, success, data/error }
+ *   Non-2xx responses also carry status, retryAfter (Retry-After header) and the parsed body
+ */
+
+export {};
+
+interface APIRequest {
+  type: 'PAN115_API_REQUEST';
+  requestId: string;
+  method: string;
+  url: string;
+  body?: Record<string, string | number>;
+}
+
+interface APIResponse {
+  type: 'PAN115_API_RESPONSE';
+  requestId: string;
+  success: boolean;
+  data?: unknown;
+  error?: string;
+  /** Set for non-2xx responses */
+  status?: number;
+  retryAfter?: string | null;
+  body?: unknown;
+}
+
+function postResponse(response: APIResponse): void {
+  window.postMessage(response, '*');
+}
+
+/**
+ * Parse a response body as JSON (undefined when it is not JSON)
+ */
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+// Listen for messages from content script
+window.addEventListener('message', (event) => {
+  // Only process messages from same window
+  if (event.source !== window) return;
+
+  const message = event.data as APIRequest;
+
+  // Only handle 115 API requests
+  if (message?.type !== 'PAN115_API_REQUEST') return;
+
+  try {
+    // Use XMLHttpRequest so the 115 session cookies are sent to webapi.115.com
+    const xhr = new XMLHttpRequest();
+    xhr.open(message.method, message.url, true);
+    xhr.setRequestHeader('Accept', 'application/json, text/plain, */*');
+    xhr.setRequestHeader('Content-Type', 'application/x-www-form-urlencoded');
+    xhr.withCredentials = true;  // Critical: include cookies
+
+    xhr.onload = function() {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        postResponse({
+          type: 'PAN115_API_RESPONSE',
+          requestId: message.requestId,
+          success: false,
+          error: `HTTP ${xhr.status}`,
+          status: xhr.status,
+          retryAfter: xhr.getResponseHeader('Retry-After'),
+          body: parseBody(xhr.responseText),
+        });
+        return;
+      }
+
+      try {
+        postResponse({
+          type: 'PAN115_API_RESPONSE',
+          requestId: message.requestId,
+          success: true,
+          data: JSON.parse(xhr.responseText),
+        });
+      } catch (parseError) {
+        console.error('[CDR] [Pan115PageScript] JSON parse error:', message.requestId, parseError);
+        postResponse({
+          type: 'PAN115_API_RESPONSE',
+          requestId: message.requestId,
+          success: false,
+          error: 'Failed to parse response JSON',
+        });
+      }
+    };
+
+    xhr.onerror = function() {
+      console.error('[CDR] [Pan115PageScript] Network error:', message.requestId);
+      postResponse({
+        type: 'PAN115_API_RESPONSE',
+        requestId: message.requestId,
+        success: false,
+        error: 'Network error',
+      });
+    };
+
+    // webapi.115.com expects form fields such as files_new_name[<id>]
+    if (message.body) {
+      const formData = new URLSearchParams();
+      for (const [key, value] of Object.entries(message.body)) {
+        formData.append(key, String(value));
+      }
+      xhr.send(formData.toString());
+    } else {
+      xhr.send();
+    }
+  } catch (error) {
+    console.error('[CDR] [Pan115PageScript] API request failed:', message.requestId, error);
+    postResponse({
+      type: 'PAN115_API_RESPONSE',
+      requestId: message.requestId,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * Type-safe flag structure
+ */
+interface PageScriptReadyFlag {
+  ready: boolean;
+  timestamp: number;
+}
+
+declare global {
+  interface Window {
+    __PAN115_PAGE_SCRIPT_READY__?: PageScriptReadyFlag;
+    __PAN115_PAGE_SCRIPT_LOADED__?: boolean;
+  }
+}
+
+/**
+ * Mark page script as loaded and ready
+ * Uses DOM dataset for cross-world communication
+ */
+window.__PAN115_PAGE_SCRIPT_LOADED__ = true;
+const flagTimestamp = Date.now();
+window.__PAN115_PAGE_SCRIPT_READY__ = {
+  ready: true,
+  timestamp: flagTimestamp
+};
+
+// Set DOM-based flag (PRIMARY method for cross-world communication)
+if (document.body) {
+  document.body.dataset.pan115PageScriptReady = 'true';
+  document.body.dataset.pan115PageScriptTimestamp = flagTimestamp.toString();
+} else {
+  // Timing issue - wait for DOMContentLoaded
+  console.warn('[CDR] [Pan115PageScript] document.body not available, using DOMContentLoaded');
+  document.addEventListener('DOMContentLoaded', () => {
+    const deferredTimestamp = Date.now();
+    document.body.dataset.pan115PageScriptReady = 'true';
+    document.body.dataset.pan115PageScriptTimestamp = deferredTimestamp.toString();
+  }, { once: true });
+}
+
+// Send postMessage event for real-time notification
+window.postMessage({ type: 'PAN115_PAGE_SCRIPT_READY' }, '*');
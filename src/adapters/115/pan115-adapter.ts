@@ -0,0 +1,455 @@
+import { BasePlatformAdapter } from '../base/adapter.interface';
+import { PlatformName, FileItem, RenameResult, PlatformConfig, PageSyncResult } from '../../types/platform';
+import { parseFileName } from '../../utils/helpers';
+import { Pan115ErrorFields, classifyError as classifyPlatformError, isRetryableError, toAPIError } from './errors';
+import type { ErrorClassification } from '../../types/error';
+import { getPageScriptInjector, Pan115RequestBody } from './page-script-injector';
+import { logger } from '../../utils/logger';
+import { wrapError } from '../../core/error-taxonomy';
+
+/**
+ * 115 API Response Format
+ */
+interface Pan115APIResponse<T = unknown> extends Pan115ErrorFields {
+  state: boolean;
+  data?: T;
+}
+
+/**
+ * 115 File List Item
+ * Files carry `fid` and use `cid` for their parent folder;
+ * folders have no `fid`, their own id is `cid` and the parent is `pid`.
+ */
+interface Pan115ListItem {
+  fid?: string;
+  cid: string;
+  pid?: string;
+  n: string;              // Name
+  s?: number;             // Size in bytes (files only)
+  te?: string | number;   // Last modified time (unix seconds)
+  tp?: string | number;   // Upload time (unix seconds)
+}
+
+/**
+ * /files list response (pagination info sits next to `data`)
+ */
+interface Pan115ListResponse extends Pan115APIResponse<Pan115ListItem[]> {
+  count?: number;
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * 115 Drive Platform Adapter
+ *
+ * API Documentation:
+ * - Base URL: https://webapi.115.com
+ * - Auth: Cookie (UID, CID, SEID), sent by the MAIN world page script
+ * - Responses: `{ state: boolean, error?, errno? }`; `state: false` means failure
+ * - Root folder id is "0"; the current folder is the `cid` URL parameter
+ */
+export class Pan115Adapter extends BasePlatformAdapter {
+  readonly platform: PlatformName = '115';
+
+  private baseURL = 'https://webapi.115.com';
+  private pageSize = 115;
+  // Items seen in listings, so renames and lookups do not depend on the page DOM
+  private knownFiles = new Map<string, FileItem>();
+
+  constructor(config?: Partial<PlatformConfig>) {
+    super({
+      platform: '115',
+      requestInterval: 500,     // webapi answers 990009 when called too often
+      maxRetries: 3,
+      timeout: 30000,
+      caseSensitive: false,     // Names differing only in case collide
+      maxNameLength: 255,       // Longer names are rejected by batch_rename
+      ...config,
+    });
+  }
+
+  getCurrentDirectoryKey(): string {
+    return this.getCurrentFolderId();
+  }
+
+  /**
+   * Get currently selected files from the 115 file list DOM
+   */
+  async getSelectedFiles(): Promise<FileItem[]> {
+    try {
+      const root = this.getFileListRoot();
+      const rows = Array.from(root.querySelectorAll('li[rel="item"].selected, li[rel="item"][checked="checked"]'));
+      const parentId = this.getCurrentFolderId();
+      const files: FileItem[] = [];
+
+      for (const row of rows) {
+        const file = this.toFileItemFromRow(row, parentId);
+        if (!file) {
+          logger.warn('Row without id or name detected, skipping');
+          continue;
+        }
+        files.push(this.knownFiles.get(file.id) ?? file);
+      }
+
+      return files;
+    } catch (error) {
+      logger.error('Failed to get selected files:', error instanceof Error ? error : new Error(String(error)));
+      throw new Error(`获取选中文件失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Get all files and folders of a folder via API
+   *
+   * @param parentId Folder id (optional, defaults to current folder)
+   * @returns Complete file list (folders are flagged with isFolder)
+   */
+  async getAllFiles(parentId?: string): Promise<FileItem[]> {
+    try {
+      logger.info('[Pan115Adapter] Fetching all files from API');
+
+      const targetId = parentId || this.getCurrentFolderId();
+      const files = (await this.fetchDirectoryItems(targetId)).map(item => this.toFileItem(item, targetId));
+      for (const file of files) {
+        this.knownFiles.set(file.id, file);
+      }
+
+      logger.info(`[Pan115Adapter] Successfully fetched ${files.length} files`);
+      return files;
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      logger.error('Failed to get all files:', errorObj);
+      throw wrapError(`获取文件列表失败: ${errorObj.message}`, error);
+    }
+  }
+
+  /**
+   * Rename a file or folder via /files/batch_rename
+   *
+   * @param fileId - fid for files, cid for folders
+   * @param newName - New name
+   * @returns Rename result
+   */
+  async renameFile(fileId: string, newName: string): Promise<RenameResult> {
+    return this.retryableRequest(async () => {
+      await this.rateLimit();
+
+      await this.request<Pan115APIResponse>('POST', `${this.baseURL}/files/batch_rename`, {
+        [`files_new_name[${fileId}]`]: newName,
+      });
+
+      const known = this.knownFiles.get(fileId);
+      if (known) {
+        this.knownFiles.set(fileId, { ...known, name: newName, ext: parseFileName(newName, known.isFolder).ext });
+      }
+
+      return {
+        success: true,
+        newName,
+      };
+    }, `重命名文件 ${fileId}`);
+  }
+
+  /**
+   * Check if a name is already used in a folder
+   *
+   * @param fileName - Name to check
+   * @param parentId - Folder id
+   * @returns True if conflict exists (also true when the check itself fails)
+   */
+  async checkNameConflict(fileName: string, parentId: string): Promise<boolean> {
+    try {
+      const items = await this.fetchDirectoryItems(parentId || this.getCurrentFolderId());
+      return items.some(item => this.isSameName(item.n, fileName));
+    } catch (error) {
+      logger.error('Failed to check name conflict:', error instanceof Error ? error : new Error(String(error)));
+      return true; // Conservative on error
+    }
+  }
+
+  /**
+   * Get file information via /files/get_info
+   *
+   * @param fileId - fid for files, cid for folders
+   * @returns File information
+   */
+  async getFileInfo(fileId: string): Promise<FileItem> {
+    try {
+      await this.rateLimit();
+
+      const url = new URL(`${this.baseURL}/files/get_info`);
+      url.searchParams.set('file_id', fileId);
+      const result = await this.request<Pan115APIResponse<Pan115ListItem[]>>('GET', url.toString());
+
+      const item = result.data?.[0];
+      if (!item) {
+        throw new Error(`文件 ${fileId} 不存在`);
+      }
+
+      const file = this.toFileItem(item, this.getItemParentId(item));
+      this.knownFiles.set(file.id, file);
+      return file;
+    } catch (error) {
+      logger.error(`Failed to get file info for ${fileId}:`, error instanceof Error ? error : new Error(String(error)));
+      throw wrapError(`获取文件信息失败: ${error instanceof Error ? error.message : String(error)}`, error);
+    }
+  }
+
+  /**
+   * Sync the page file list after rename by patching the visible rows.
+   * The list does not reload by itself, so the DOM is the only thing to update.
+   */
+  async syncAfterRename(
+    renames: Array<{ fileId: string; oldName?: string; newName: string }>
+  ): Promise<PageSyncResult> {
+    const root = this.getFileListRoot();
+    let requested = 0;
+    let patched = 0;
+
+    for (const item of renames) {
+      if (!item?.fileId || !item?.newName) continue;
+      requested++;
+
+      const row = root.querySelector(
+        `li[rel="item"][file_id="${item.fileId}"], li[rel="item"][cate_id="${item.fileId}"]`
+      );
+      if (row && this.patchRow(row, item.oldName, item.newName)) {
+        patched++;
+      }
+    }
+
+    if (requested === 0) {
+      return { success: true, method: 'none' };
+    }
+
+    if (patched > 0) {
+      return { success: true, method: 'dom-patch', message: `patched ${patched} rows` };
+    }
+
+    return {
+      success: false,
+      method: 'none',
+      message: 'failed to locate filename nodes on page',
+    };
+  }
+
+  /**
+   * Fetch every entry (files and folders) of a folder with offset pagination
+   * @private
+   */
+  private async fetchDirectoryItems(folderId: string): Promise<Pan115ListItem[]> {
+    const items: Pan115ListItem[] = [];
+    let offset = 0;
+    let hasMore = true;
+
+    while (hasMore) {
+      await this.rateLimit();
+
+      const url = new URL(`${this.baseURL}/files`);
+      url.searchParams.set('aid', '1');
+      url.searchParams.set('cid', folderId);
+      url.searchParams.set('offset', offset.toString());
+      url.searchParams.set('limit', this.pageSize.toString());
+      url.searchParams.set('show_dir', '1');
+      url.searchParams.set('o', 'file_name');
+      url.searchParams.set('asc', '1');
+      url.searchParams.set('format', 'json');
+
+      const result = await this.request<Pan115ListResponse>('GET', url.toString());
+      if (!Array.isArray(result.data)) {
+        throw new Error('无法解析文件列表响应');
+      }
+
+      items.push(...result.data);
+      offset += result.data.length;
+
+      const total = result.count ?? 0;
+      hasMore = result.data.length > 0 && offset < total;
+
+      logger.debug(`[Pan115Adapter] Fetched ${offset}/${total} items`);
+    }
+
+    return items;
+  }
+
+  /**
+   * Call the API through the page script and reject `state: false` responses
+   * @private
+   */
+  private async request<T extends Pan115APIResponse>(
+    method: string,
+    url: string,
+    body?: Pan115RequestBody
+  ): Promise<T> {
+    const result = await getPageScriptInjector().callAPI<T>(method, url, body, this.config.timeout);
+    if (!result || typeof result !== 'object') {
+      throw new Error('无法解析接口响应');
+    }
+    if (!result.state) {
+      const apiError = toAPIError(result);
+      logger.error(`API returned error - errno: ${apiError.errno}`, apiError);
+      throw apiError;
+    }
+    return result;
+  }
+
+  /**
+   * Convert a list item to FileItem
+   * @private
+   */
+  private toFileItem(item: Pan115ListItem, parentId: string): FileItem {
+    const isFolder = !item.fid;
+    const { ext } = parseFileName(item.n, isFolder);
+    const mtime = Number(item.te ?? item.tp);
+    return {
+      id: item.fid ?? item.cid,
+      name: item.n,
+      ext,
+      parentId,
+      size: item.s ?? 0,
+      mtime: Number.isFinite(mtime) && mtime > 0 ? mtime * 1000 : Date.now(),
+      isFolder,
+    };
+  }
+
+  /**
+   * Parent folder id of a list item
+   * @private
+   */
+  private getItemParentId(item: Pan115ListItem): string {
+    return item.fid ? item.cid : item.pid ?? '0';
+  }
+
+  /**
+   * Read a FileItem from a list row (`file_type` is "0" for folders)
+   * @private
+   */
+  private toFileItemFromRow(row: Element, parentId: string): FileItem | null {
+    const isFolder = row.getAttribute('file_type') === '0';
+    const id = (isFolder ? row.getAttribute('cate_id') : row.getAttribute('file_id')) || '';
+    const name = row.getAttribute('title')?.trim() || '';
+    if (!id || !name) {
+      return null;
+    }
+
+    const sizeAttr = row.getAttribute('file_size');
+    return {
+      id,
+      name,
+      ext: parseFileName(name, isFolder).ext,
+      parentId,
+      size: sizeAttr ? parseInt(sizeAttr, 10) || 0 : 0,
+      mtime: Date.now(),
+      isFolder,
+    };
+  }
+
+  /**
+   * Update the row title and the visible name of a renamed item
+   * @private
+   */
+  private patchRow(row: Element, oldName: string | undefined, newName: string): boolean {
+    row.setAttribute('title', newName);
+
+    let patched = false;
+    for (const el of Array.from(row.querySelectorAll<HTMLElement>('.file-name [title], .file-name .name'))) {
+      const current = el.getAttribute('title') ?? el.textContent?.trim();
+      if (oldName && current !== oldName) continue;
+      if (el.hasAttribute('title')) {
+        el.setAttribute('title', newName);
+      }
+      if (el.children.length === 0) {
+        el.textContent = newName;
+      }
+      patched = true;
+    }
+    return patched;
+  }
+
+  /**
+   * The file list lives in the same-origin "wangpan" iframe on 115.com
+   * @private
+   */
+  private getFileListRoot(): Document {
+    const frame = document.querySelector<HTMLIFrameElement>('iframe[name="wangpan"]');
+    try {
+      return frame?.contentDocument ?? document;
+    } catch {
+      return document;
+    }
+  }
+
+  /**
+   * Extract current folder id (cid) from the page URL
+   * @private
+   */
+  private getCurrentFolderId(): string {
+    const cid = new URLSearchParams(window.location.search).get('cid');
+    if (cid) {
+      return cid;
+    }
+
+    // The top-level URL may lag behind the iframe after in-frame navigation
+    const frame = document.querySelector<HTMLIFrameElement>('iframe[name="wangpan"]');
+    try {
+      const frameCid = frame?.contentWindow
+        ? new URLSearchParams(frame.contentWindow.location.search).get('cid')
+        : null;
+      return frameCid || '0';
+    } catch {
+      return '0';
+    }
+  }
+
+  /**
+   * Map an error into the shared error taxonomy using platform error codes
+   * @param error - Error object
+   */
+  classifyError(error: unknown): ErrorClassification {
+    return classifyPlatformError(error);
+  }
+
+  /**
+   * Retryable request wrapper with exponential backoff
+   * @private
+   */
+  private async retryableRequest<T extends RenameResult>(
+    requestFn: () => Promise<T>,
+    operation: string
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+      try {
+        return await requestFn();
+      } catch (error) {
+        lastError = error;
+
+        if (!isRetryableError(error)) {
+          logger.error(`${operation} 失败（不可重试）:`, error instanceof Error ? error : new Error(String(error)));
+          break;
+        }
+
+        if (attempt === this.config.maxRetries) {
+          logger.error(`${operation} 失败（已达最大重试次数 ${this.config.maxRetries}）:`, error instanceof Error ? error : new Error(String(error)));
+          break;
+        }
+
+        // Exponential backoff
+        const backoffDelay = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
+        logger.warn(
+          `${operation} 失败（第 ${attempt}/${this.config.maxRetries} 次尝试），` +
+          `${backoffDelay}ms 后重试:`,
+          error instanceof Error ? error : new Error(String(error))
+        );
+        await this.sleep(backoffDelay);
+      }
+    }
+
+    // All retries failed
+    return {
+      success: false,
+      error: lastError instanceof Error ? lastError : new Error(String(lastError)),
+    } as T;
+  }
+}
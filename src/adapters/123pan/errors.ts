@@ -0,0 +1,102 @@
+import type { ErrorCategory, ErrorClassification } from '../../types/error';
+import { classifyAs, classifyGenericError } from '../../core/error-taxonomy';
+import type { PageScriptHTTPFailure } from '../base/page-script-injector';
+
+/**
+ * 123云盘 API 错误类
+ */
+export class Pan123APIError extends Error {
+  constructor(
+    public code: number,
+    message: string,
+    public response?: unknown,
+    public status?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'Pan123APIError';
+  }
+}
+
+/**
+ * 123云盘 API 错误码映射
+ * 根据 /b/api 接口的实际响应整理
+ */
+export const ERROR_CODES: Record<number, string> = {
+  0: '成功',
+  1: '参数错误',
+  401: '登录已过期，请重新登录',
+  403: '无权限访问',
+  404: '文件不存在',
+  429: '请求过于频繁',
+  500: '服务器内部错误',
+  5002: '文件名包含非法字符',
+  5060: '同名文件已存在',
+  5113: '文件名过长',
+};
+
+/**
+ * 获取友好的错误消息
+ */
+export function getErrorMessage(code: number, defaultMessage?: string): string {
+  return ERROR_CODES[code] || defaultMessage || '未知错误';
+}
+
+/**
+ * 由页面脚本报告的非 2xx 响应构造错误（保留 HTTP 状态与 Retry-After 供错误分类使用）
+ * 响应体没有业务错误码时以 HTTP 状态码作为错误码
+ */
+export function fromHTTPFailure(failure: PageScriptHTTPFailure): Pan123APIError {
+  const body = failure.body as { code?: unknown; message?: string } | undefined;
+  const code = typeof body?.code === 'number' && body.code !== 0 ? body.code : failure.status;
+  const message = getErrorMessage(code, body?.message || failure.message);
+  return new Pan123APIError(code, message, failure.body, failure.status, failure.retryAfterMs);
+}
+
+/**
+ * 判断错误是否可以重试
+ */
+export function isRetryableError(error: unknown): boolean {
+  // API 错误中，429 (限流)、500 (服务器错误) 可以重试
+  if (error instanceof Pan123APIError) {
+    return error.code === 429 || error.code === 500;
+  }
+
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  // 超时错误可以重试
+  if (error.name === 'AbortError' || error.message.includes('timeout')) {
+    return true;
+  }
+
+  // 页面脚本报告的网络错误可以重试
+  return error.message === 'Network error';
+}
+
+/**
+ * 错误码对应的错误分类
+ */
+const ERROR_CATEGORIES: Record<number, ErrorCategory> = {
+  1: 'fatal',
+  401: 'auth_expired',
+  403: 'fatal',
+  404: 'not_found',
+  429: 'throttled',
+  500: 'transient',
+  5002: 'invalid_name',
+  5060: 'name_conflict',
+  5113: 'invalid_name',
+};
+
+/**
+ * 将错误归类（未知错误码按错误消息通用分类）
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof Pan123APIError && ERROR_CATEGORIES[error.code]) {
+    return classifyAs(ERROR_CATEGORIES[error.code], error);
+  }
+
+  return classifyGenericError(error);
+}
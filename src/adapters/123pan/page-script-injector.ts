@@ -0,0 +1,25 @@
+/**
+ * Page Script Injector for 123pan
+ * Communicates with MAIN world page-script.ts (the login token is attached in MAIN world)
+ */
+
+import { PageScriptInjector } from '../base/page-script-injector';
+import { fromHTTPFailure } from './errors';
+
+/**
+ * JSON request body
+ */
+export type Pan123RequestBody = Record<string, unknown>;
+
+let instance: PageScriptInjector<Pan123RequestBody> | null = null;
+
+export function getPageScriptInjector(): PageScriptInjector<Pan123RequestBody> {
+  if (!instance) {
+    instance = new PageScriptInjector<Pan123RequestBody>({
+      prefix: 'PAN123',
+      datasetKey: 'pan123',
+      createHTTPError: fromHTTPFailure,
+    });
+  }
+  return instance;
+}
@@ -0,0 +1,189 @@
+/**
+ * Page Script for 123pan - Runs in MAIN world
+ * Used to call the /b/api endpoints with the web app's login token
+ *
+ * Communication Protocol:
+ * Content Script -> Page Script: { type: 'PAN123_API_REQUEST', requestId, method, url, body }
+ * Page Script -> Content Script: { type: 'PAN123_API_RESPONSE', requestId, success, data/error }
+ *   Non-2xx responses also carry status, retryAfter (Retry-After header) and the parsed body
+ */
+
+export {};
+
+interface APIRequest {
+  type: 'PAN123_API_REQUEST';
+  requestId: string;
+  method: string;
+  url: string;
+  body?: Record<string, unknown>;
+}
+
+interface APIResponse {
+  type: 'PAN123_API_RESPONSE';
+  requestId: string;
+  success: boolean;
+  data?: unknown;
+  error?: string;
+  /** Set for non-2xx responses */
+  status?: number;
+  retryAfter?: string | null;
+  body?: unknown;
+}
+
+function postResponse(response: APIResponse): void {
+  window.postMessage(response, '*');
+}
+
+/**
+ * Parse a response body as JSON (undefined when it is not JSON)
+ */
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The web app keeps its bearer token in localStorage (sometimes JSON-encoded)
+ */
+function readAuthToken(): string | null {
+  const raw = window.localStorage.getItem('authorToken');
+  if (!raw) {
+    return null;
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return typeof parsed === 'string' ? parsed : raw;
+  } catch {
+    return raw;
+  }
+}
+
+// Listen for messages from content script
+window.addEventListener('message', (event) => {
+  // Only process messages from same window
+  if (event.source !== window) return;
+
+  const message = event.data as APIRequest;
+
+  // Only handle 123pan API requests
+  if (message?.type !== 'PAN123_API_REQUEST') return;
+
+  try {
+    const xhr = new XMLHttpRequest();
+    xhr.open(message.method, message.url, true);
+    xhr.setRequestHeader('Accept', 'application/json, text/plain, */*');
+    xhr.setRequestHeader('Content-Type', 'application/json;charset=UTF-8');
+    // The API rejects requests that do not identify as the web client
+    xhr.setRequestHeader('platform', 'web');
+    xhr.setRequestHeader('App-Version', '3');
+
+    const token = readAuthToken();
+    if (token) {
+      xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+    }
+
+    xhr.withCredentials = true;
+
+    xhr.onload = function() {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        postResponse({
+          type: 'PAN123_API_RESPONSE',
+          requestId: message.requestId,
+          success: false,
+          error: `HTTP ${xhr.status}`,
+          status: xhr.status,
+          retryAfter: xhr.getResponseHeader('Retry-After'),
+          body: parseBody(xhr.responseText),
+        });
+        return;
+      }
+
+      try {
+        postResponse({
+          type: 'PAN123_API_RESPONSE',
+          requestId: message.requestId,
+          success: true,
+          data: JSON.parse(xhr.responseText),
+        });
+      } catch (parseError) {
+        console.error('[CDR] [Pan123PageScript] JSON parse error:', message.requestId, parseError);
+        postResponse({
+          type: 'PAN123_API_RESPONSE',
+          requestId: message.requestId,
+          success: false,
+          error: 'Failed to parse response JSON',
+        });
+      }
+    };
+
+    xhr.onerror = function() {
+      console.error('[CDR] [Pan123PageScript] Network error:', message.requestId);
+      postResponse({
+        type: 'PAN123_API_RESPONSE',
+        requestId: message.requestId,
+        success: false,
+        error: 'Network error',
+      });
+    };
+
+    if (message.body) {
+      xhr.send(JSON.stringify(message.body));
+    } else {
+      xhr.send();
+    }
+  } catch (error) {
+    console.error('[CDR] [Pan123PageScript] API request failed:', message.requestId, error);
+    postResponse({
+      type: 'PAN123_API_RESPONSE',
+      requestId: message.requestId,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * Type-safe flag structure
+ */
+interface PageScriptReadyFlag {
+  ready: boolean;
+  timestamp: number;
+}
+
+declare global {
+  interface Window {
+    __PAN123_PAGE_SCRIPT_READY__?: PageScriptReadyFlag;
+    __PAN123_PAGE_SCRIPT_LOADED__?: boolean;
+  }
+}
+
+/**
+ * Mark page script as loaded and ready
+ * Uses DOM dataset for cross-world communication
+ */
+window.__PAN123_PAGE_SCRIPT_LOADED__ = true;
+const flagTimestamp = Date.now();
+window.__PAN123_PAGE_SCRIPT_READY__ = {
+  ready: true,
+  timestamp: flagTimestamp
+};
+
+// Set DOM-based flag (PRIMARY method for cross-world communication)
+if (document.body) {
+  document.body.dataset.pan123PageScriptReady = 'true';
+  document.body.dataset.pan123PageScriptTimestamp = flagTimestamp.toString();
+} else {
+  // Timing issue - wait for DOMContentLoaded
+  console.warn('[CDR] [Pan123PageScript] document.body not available, using DOMContentLoaded');
+  document.addEventListener('DOMContentLoaded', () => {
+    const deferredTimestamp = Date.now();
+    document.body.dataset.pan123PageScriptReady = 'true';
+    document.body.dataset.pan123PageScriptTimestamp = deferredTimestamp.toString();
+  }, { once: true });
+}
+
+// Send postMessage event for real-time notification
+window.postMessage({ type: 'PAN123_PAGE_SCRIPT_READY' }, '*');
@@ -0,0 +1,347 @@
+import { BasePlatformAdapter } from '../base/adapter.interface';
+import { PlatformName, FileItem, RenameResult, PlatformConfig } from '../../types/platform';
+import { parseFileName } from '../../utils/helpers';
+import { Pan123APIError, classifyError as classifyPlatformError, getErrorMessage, isRetryableError } from './errors';
+import type { ErrorClassification } from '../../types/error';
+import { getPageScriptInjector, Pan123RequestBody } from './page-script-injector';
+import { logger } from '../../utils/logger';
+import { wrapError } from '../../core/error-taxonomy';
+
+/**
+ * 123云盘 API 响应格式
+ */
+interface Pan123APIResponse<T = unknown> {
+  code: number;
+  message: string;
+  data?: T;
+}
+
+/**
+ * 123云盘文件列表数据
+ */
+interface Pan123FileData {
+  FileId: number;
+  FileName: string;
+  /** 0 = 文件, 1 = 文件夹 */
+  Type: number;
+  Size: number;
+  ParentFileId: number;
+  UpdateAt: string;
+}
+
+/**
+ * 文件列表分页数据（Next 为 "-1" 表示没有下一页）
+ */
+interface Pan123ListData {
+  Next: string;
+  Len: number;
+  InfoList: Pan123FileData[];
+}
+
+/**
+ * 123云盘平台适配器
+ *
+ * API 文档参考:
+ * - Base URL: {当前站点}/b/api（123pan.com 及其镜像域名共用同一套接口）
+ * - 认证方式: localStorage 中的 authorToken，由 MAIN world 页面脚本附加 Bearer 头
+ * - 响应格式: { code, message, data }，code 为 0 表示成功
+ */
+export class Pan123Adapter extends BasePlatformAdapter {
+  readonly platform: PlatformName = '123pan';
+
+  private pageSize = 100;
+  /** 列表接口返回过的条目：FileId -> FileItem（选中文件和文件信息优先从这里读取） */
+  private knownFiles = new Map<string, FileItem>();
+
+  constructor(config?: Partial<PlatformConfig>) {
+    super({
+      platform: '123pan',
+      requestInterval: 500,
+      maxRetries: 3,
+      timeout: 30000,
+      caseSensitive: false, // 同目录下仅大小写不同视为重名
+      maxNameLength: 255, // 文件名不能超过 255 个字符
+      ...config,
+    });
+  }
+
+  getCurrentDirectoryKey(): string {
+    return this.getCurrentFolderId();
+  }
+
+  /**
+   * 获取当前选中的文件列表
+   * 页面表格行的 data-row-key 即 FileId，名称等信息以列表接口为准
+   */
+  async getSelectedFiles(): Promise<FileItem[]> {
+    try {
+      const rows = Array.from(document.querySelectorAll('tr.ant-table-row-selected[data-row-key]'));
+      const ids = rows.map((row) => row.getAttribute('data-row-key') || '').filter(Boolean);
+
+      if (ids.some((id) => !this.knownFiles.has(id))) {
+        await this.getAllFiles();
+      }
+
+      return ids.flatMap((id) => {
+        const file = this.knownFiles.get(id);
+        if (!file) {
+          logger.warn(`Selected row ${id} not found in file list, skipping`);
+        }
+        return file ? [file] : [];
+      });
+    } catch (error) {
+      logger.error('Failed to get selected files:', error instanceof Error ? error : new Error(String(error)));
+      throw new Error(`获取选中文件失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 通过 API 获取目录下的全部文件和文件夹
+   *
+   * @param parentId 父目录 ID（可选，默认当前目录）
+   * @returns 完整文件列表（文件夹带 isFolder 标记）
+   */
+  async getAllFiles(parentId?: string): Promise<FileItem[]> {
+    try {
+      logger.info('[Pan123Adapter] Fetching all files from API');
+
+      const files = (await this.fetchDirectoryItems(parentId || this.getCurrentFolderId())).map((item) =>
+        this.toFileItem(item)
+      );
+      for (const file of files) {
+        this.knownFiles.set(file.id, file);
+      }
+
+      logger.info(`[Pan123Adapter] Successfully fetched ${files.length} files`);
+      return files;
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      logger.error('Failed to get all files:', errorObj);
+      throw wrapError(`获取文件列表失败: ${errorObj.message}`, error);
+    }
+  }
+
+  /**
+   * 重命名文件
+   * 调用 /file/rename 接口，支持自动重试
+   *
+   * @param fileId 文件 ID (FileId)
+   * @param newName 新文件名
+   * @returns 重命名结果
+   */
+  async renameFile(fileId: string, newName: string): Promise<RenameResult> {
+    return this.retryableRequest(async () => {
+      await this.rateLimit();
+
+      await this.request('POST', `${this.getBaseURL()}/file/rename`, {
+        driveId: 0,
+        fileId: Number(fileId),
+        fileName: newName,
+      });
+
+      const known = this.knownFiles.get(fileId);
+      if (known) {
+        this.knownFiles.set(fileId, { ...known, name: newName, ext: parseFileName(newName, known.isFolder).ext });
+      }
+
+      return {
+        success: true,
+        newName: newName,
+      };
+    }, `重命名文件 ${fileId}`);
+  }
+
+  /**
+   * 检查文件名是否冲突
+   *
+   * @param fileName 文件名
+   * @param parentId 父目录 ID
+   * @returns 是否存在同名文件（查询失败时保守返回 true）
+   */
+  async checkNameConflict(fileName: string, parentId: string): Promise<boolean> {
+    try {
+      const items = await this.fetchDirectoryItems(parentId || this.getCurrentFolderId());
+      return items.some((item) => this.isSameName(item.FileName, fileName));
+    } catch (error) {
+      logger.error('Failed to check name conflict:', error instanceof Error ? error : new Error(String(error)));
+      // 出错时保守处理，返回可能存在冲突
+      return true;
+    }
+  }
+
+  /**
+   * 获取文件详细信息
+   *
+   * @param fileId 文件 ID
+   * @returns 文件详细信息
+   */
+  async getFileInfo(fileId: string): Promise<FileItem> {
+    try {
+      await this.rateLimit();
+
+      const data = await this.request<{ infoList?: Pan123FileData[] }>('POST', `${this.getBaseURL()}/file/info`, {
+        fileIdList: [{ fileId: Number(fileId) }],
+      });
+
+      const item = data?.infoList?.[0];
+      if (!item) {
+        throw new Error(`找不到文件 ID: ${fileId}`);
+      }
+
+      const file = this.toFileItem(item);
+      this.knownFiles.set(file.id, file);
+      return file;
+    } catch (error) {
+      logger.error(`Failed to get file info for ${fileId}:`, error instanceof Error ? error : new Error(String(error)));
+      throw wrapError(`获取文件信息失败: ${error instanceof Error ? error.message : String(error)}`, error);
+    }
+  }
+
+  /**
+   * 分页获取目录下的全部条目（文件和文件夹）
+   * @private
+   */
+  private async fetchDirectoryItems(parentId: string): Promise<Pan123FileData[]> {
+    const items: Pan123FileData[] = [];
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore) {
+      await this.rateLimit();
+
+      const url = new URL(`${this.getBaseURL()}/file/list/new`);
+      url.searchParams.set('driveId', '0');
+      url.searchParams.set('limit', this.pageSize.toString());
+      url.searchParams.set('next', '0');
+      url.searchParams.set('orderBy', 'file_name');
+      url.searchParams.set('orderDirection', 'asc');
+      url.searchParams.set('parentFileId', parentId);
+      url.searchParams.set('trashed', 'false');
+      url.searchParams.set('Page', page.toString());
+
+      const data = await this.request<Pan123ListData>('GET', url.toString());
+      if (!Array.isArray(data?.InfoList)) {
+        throw new Error('无法解析文件列表响应');
+      }
+
+      items.push(...data.InfoList);
+      hasMore = data.Next !== '-1' && data.InfoList.length > 0;
+      page++;
+
+      logger.debug(`[Pan123Adapter] Fetched page ${page - 1} with ${data.InfoList.length} files`);
+    }
+
+    return items;
+  }
+
+  /**
+   * 通过页面脚本调用 API，code 非 0 时抛出 Pan123APIError
+   * @private
+   */
+  private async request<T = unknown>(method: string, url: string, body?: Pan123RequestBody): Promise<T | undefined> {
+    const injector = getPageScriptInjector();
+    const result = await injector.callAPI<Pan123APIResponse<T>>(method, url, body, this.config.timeout);
+
+    if (!result || typeof result.code !== 'number') {
+      throw new Error('无法解析接口响应');
+    }
+    if (result.code !== 0) {
+      throw new Pan123APIError(result.code, getErrorMessage(result.code, result.message), result);
+    }
+    return result.data;
+  }
+
+  /**
+   * 转换为 FileItem（文件夹扩展名为空）
+   * @private
+   */
+  private toFileItem(item: Pan123FileData): FileItem {
+    const isFolder = item.Type === 1;
+    const mtime = Date.parse(item.UpdateAt);
+    return {
+      id: String(item.FileId),
+      name: item.FileName,
+      ext: parseFileName(item.FileName, isFolder).ext,
+      parentId: String(item.ParentFileId),
+      size: item.Size,
+      mtime: Number.isNaN(mtime) ? Date.now() : mtime,
+      isFolder,
+    };
+  }
+
+  /**
+   * 接口与页面同源（镜像域名各自提供 /b/api）
+   * @private
+   */
+  private getBaseURL(): string {
+    return `${window.location.origin}/b/api`;
+  }
+
+  /**
+   * 从页面 URL 中提取当前文件夹 ID
+   * homeFilePath 为逗号分隔的目录 ID 路径，最后一段是当前目录
+   * @private
+   */
+  private getCurrentFolderId(): string {
+    const homeFilePath = new URLSearchParams(window.location.search).get('homeFilePath') || '';
+    const segments = homeFilePath.split(',').map((segment) => segment.trim()).filter(Boolean);
+    return segments[segments.length - 1] || '0';
+  }
+
+  /**
+   * 将错误归类（按平台错误码映射）
+   * @param error 错误对象
+   */
+  classifyError(error: unknown): ErrorClassification {
+    return classifyPlatformError(error);
+  }
+
+  /**
+   * 带重试机制的请求包装器
+   * @param requestFn 请求函数
+   * @param operation 操作描述（用于日志）
+   * @returns 请求结果
+   * @private
+   */
+  private async retryableRequest<T extends RenameResult>(
+    requestFn: () => Promise<T>,
+    operation: string
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+      try {
+        return await requestFn();
+      } catch (error) {
+        lastError = error;
+
+        // 判断是否可以重试
+        if (!isRetryableError(error)) {
+          logger.error(`${operation} 失败（不可重试）:`, error instanceof Error ? error : new Error(String(error)));
+          break;
+        }
+
+        // 最后一次尝试失败，不再重试
+        if (attempt === this.config.maxRetries) {
+          logger.error(`${operation} 失败（已达最大重试次数 ${this.config.maxRetries}）:`, error instanceof Error ? error : new Error(String(error)));
+          break;
+        }
+
+        // 计算指数退避延迟
+        const backoffDelay = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
+        logger.warn(
+          `${operation} 失败（第 ${attempt}/${this.config.maxRetries} 次尝试），` +
+          `${backoffDelay}ms 后重试:`,
+          error instanceof Error ? error : new Error(String(error))
+        );
+        await this.sleep(backoffDelay);
+      }
+    }
+
+    // 所有重试都失败，返回失败结果
+    return {
+      success: false,
+      error: lastError instanceof Error ? lastError : new Error(String(lastError)),
+    } as T;
+  }
+}
@@ -5,11 +5,17 @@ import {
   RenameResult,
   PlatformConfig,
   PageSyncResult,
+  RecursiveListOptions,
+  MoveResult,
+  RenameBatchItem,
+  RenameBatchResult,
 } from '../../types/platform';
 import { parseFileName } from '../../utils/helpers';
-import { AliyunAPIError, getErrorMessage, isRetryableError } from './errors';
+import { AliyunAPIError, classifyError as classifyPlatformError, getErrorMessage, isRetryableError } from './errors';
+import type { ErrorClassification } from '../../types/error';
 import { getPageScriptInjector } from './page-script-injector';
 import { logger } from '../../utils/logger';
+import { wrapError } from '../../core/error-taxonomy';
 
 /**
  * Aliyun Drive API Response Format
@@ -66,7 +72,6 @@ export class AliyunAdapter extends BasePlatformAdapter {
 
   private baseURL = 'https://api.aliyundrive.com';
   private userBaseURL = 'https://user.aliyundrive.com';
-  private lastRequestTime = 0;
 
   // Cache for drive_id (persistent during session)
   private driveIdCache: string | null = null;
@@ -77,6 +82,10 @@ export class AliyunAdapter extends BasePlatformAdapter {
       requestInterval: 800,     // Conservative rate limit
       maxRetries: 3,
       timeout: 30000,
+      caseSensitive: false,     // Names differing only in case collide
+      caseOnlyRename: true,     // Case-only renames are accepted directly
+      renameBatchSize: 100,     // Sub-requests per /adrive/v2/batch call
+      maxNameLength: 1024,      // Names may be up to 1024 characters
       ...config,
     });
 
@@ -120,7 +129,7 @@ export class AliyunAdapter extends BasePlatformAdapter {
       return driveId;
     } catch (error) {
       logger.error('Failed to fetch drive_id:', error instanceof Error ? error : new Error(String(error)));
-      throw new Error(`获取 drive_id 失败: ${error instanceof Error ? error.message : String(error)}`);
+      throw wrapError(`获取 drive_id 失败: ${error instanceof Error ? error.message : String(error)}`, error);
     }
   }
 
@@ -184,19 +193,7 @@ export class AliyunAdapter extends BasePlatformAdapter {
         }
 
         // Support both files and folders
-        // Folders have empty extension
-        const ext = matchedFile.type === 'folder'
-          ? ''
-          : parseFileName(filename).ext;
-
-        selectedFiles.push({
-          id: matchedFile.file_id,
-          name: matchedFile.name,
-          ext: ext,
-          parentId: matchedFile.parent_file_id,
-          size: matchedFile.size,
-          mtime: new Date(matchedFile.updated_at).getTime(),
-        });
+        selectedFiles.push(this.toFileItem(matchedFile));
       }
 
       logger.info(`[AliyunAdapter] Matched ${selectedFiles.length} files with API data`);
@@ -228,30 +225,68 @@ export class AliyunAdapter extends BasePlatformAdapter {
       const allFiles = await this.fetchFileListFromAPI(targetParentId, driveId);
 
       // Convert to FileItem format
-      const fileItems: FileItem[] = allFiles.map((file) => {
-        const ext = file.type === 'folder'
-          ? ''
-          : parseFileName(file.name).ext;
+      const fileItems: FileItem[] = allFiles.map((file) => this.toFileItem(file));
 
+      logger.info(`[AliyunAdapter] Successfully fetched ${fileItems.length} files`);
+      return fileItems;
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      logger.error('Failed to get all files:', errorObj);
+      throw wrapError(`获取文件列表失败: ${errorObj.message}`, error);
+    }
+  }
+
+  /**
+   * Get files in a directory and its subfolders (walks parent_file_id)
+   *
+   * @param parentId Start directory ID (optional, defaults to current directory)
+   * @param options Depth, folder filters, cancellation and progress options
+   * @returns File list (folders excluded)
+   */
+  async getAllFilesRecursive(parentId?: string, options: RecursiveListOptions = {}): Promise<FileItem[]> {
+    try {
+      logger.info('[AliyunAdapter] Fetching files recursively from API');
+
+      const driveId = await this.getDriveId();
+      const files = await this.walkDirectories(parentId || this.getParentIdFromUrl(), options, async (directoryId) => {
+        const items = await this.fetchFileListFromAPI(directoryId, driveId);
         return {
-          id: file.file_id,
-          name: file.name,
-          ext: ext,
-          parentId: file.parent_file_id,
-          size: file.size,
-          mtime: new Date(file.updated_at).getTime(),
+          files: items.filter((item) => item.type !== 'folder').map((item) => this.toFileItem(item)),
+          folders: items.filter((item) => item.type === 'folder').map((item) => ({ id: item.file_id, name: item.name })),
         };
       });
 
-      logger.info(`[AliyunAdapter] Successfully fetched ${fileItems.length} files`);
-      return fileItems;
+      logger.info(`[AliyunAdapter] Successfully fetched ${files.length} files recursively`);
+      return files;
     } catch (error) {
       const errorObj = error instanceof Error ? error : new Error(String(error));
-      logger.error('Failed to get all files:', errorObj);
-      throw new Error(`获取文件列表失败: ${errorObj.message}`);
+      if (errorObj.name === 'AbortError') {
+        throw errorObj;
+      }
+      logger.error('Failed to get files recursively:', errorObj);
+      throw wrapError(`获取文件列表失败: ${errorObj.message}`, error);
     }
   }
 
+  /**
+   * Convert an API item to FileItem (folders have empty extension)
+   * The file list API has no child count for folders, so childCount stays unset
+   * @private
+   */
+  private toFileItem(file: AliyunFileItem): FileItem {
+    const isFolder = file.type === 'folder';
+
+    return {
+      id: file.file_id,
+      name: file.name,
+      ext: parseFileName(file.name, isFolder).ext,
+      parentId: file.parent_file_id,
+      size: file.size ?? 0,
+      mtime: new Date(file.updated_at).getTime(),
+      isFolder,
+    };
+  }
+
   /**
    * Extract selected filenames from DOM (simple, reliable approach)
    * Uses data-is-selected attribute to find selected rows
@@ -394,6 +429,158 @@ export class AliyunAdapter extends BasePlatformAdapter {
     }, `重命名文件 ${fileId}`);
   }
 
+  /**
+   * Rename several files with one /adrive/v2/batch request
+   * Each sub-request reports its own status, so results are per file.
+   *
+   * @param batch - Files and their new names
+   * @returns One result per file, in batch order
+   */
+  async renameFiles(batch: RenameBatchItem[]): Promise<RenameBatchResult[]> {
+    const result = await this.retryableRequest(async (): Promise<RenameResult & { items?: RenameBatchResult[] }> => {
+      await this.rateLimit();
+
+      const driveId = await this.getDriveId();
+      const injector = getPageScriptInjector();
+
+      logger.info(`[AliyunAdapter] Renaming ${batch.length} files in one batch`);
+
+      const response: AliyunAPIResponse = await injector.callAPI(
+        'POST',
+        `${this.baseURL}/adrive/v2/batch`,
+        {
+          resource: 'file',
+          requests: batch.map((item) => ({
+            id: item.fileId,
+            method: 'POST',
+            url: '/file/update',
+            headers: { 'Content-Type': 'application/json' },
+            body: {
+              drive_id: driveId,
+              file_id: item.fileId,
+              name: item.newName,
+              check_name_mode: 'refuse',
+            },
+          })),
+        },
+        this.config.timeout
+      );
+
+      if (response.code) {
+        const errorMsg = getErrorMessage(response.code, response.message);
+        throw new AliyunAPIError(response.code, errorMsg, response);
+      }
+
+      const responses: Array<{ id: string; status: number; body?: { code?: string; message?: string } }> =
+        Array.isArray(response.responses) ? response.responses : [];
+      const responseById = new Map(responses.map((item) => [item.id, item]));
+
+      const items = batch.map((item): RenameBatchResult => {
+        const itemResponse = responseById.get(item.fileId);
+        if (itemResponse && itemResponse.status >= 200 && itemResponse.status < 300) {
+          return { fileId: item.fileId, success: true, newName: item.newName };
+        }
+
+        const code = itemResponse?.body?.code ?? 'UnknownError';
+        const errorMsg = getErrorMessage(code, itemResponse?.body?.message);
+        return { fileId: item.fileId, success: false, error: new AliyunAPIError(code, errorMsg, itemResponse) };
+      });
+
+      return { success: true, items };
+    }, `批量重命名 ${batch.length} 个文件`);
+
+    return result.items ?? batch.map((item) => ({ fileId: item.fileId, success: false, error: result.error }));
+  }
+
+  /**
+   * Create a folder, or reuse the existing folder with the same name
+   * (check_name_mode "refuse" returns the existing folder instead of failing)
+   *
+   * @param name - Folder name
+   * @param parentId - Parent folder file_id
+   * @returns Folder file_id
+   */
+  async createFolder(name: string, parentId: string): Promise<string> {
+    await this.rateLimit();
+
+    const driveId = await this.getDriveId();
+    const injector = getPageScriptInjector();
+
+    const result: AliyunAPIResponse = await injector.callAPI(
+      'POST',
+      `${this.baseURL}/adrive/v2/file/createWithFolders`,
+      {
+        drive_id: driveId,
+        parent_file_id: parentId,
+        name,
+        type: 'folder',
+        check_name_mode: 'refuse',
+      },
+      this.config.timeout
+    );
+
+    if (result.code || typeof result.file_id !== 'string') {
+      const errorMsg = getErrorMessage(result.code ?? '', result.message);
+      throw new AliyunAPIError(result.code ?? '', errorMsg, result);
+    }
+
+    return result.file_id;
+  }
+
+  /**
+   * Move files into a folder with one /adrive/v2/batch request
+   *
+   * @param fileIds - file_id list
+   * @param targetParentId - Target folder file_id
+   * @returns Move result (failedIds lists the entries the batch rejected)
+   */
+  async moveFiles(fileIds: string[], targetParentId: string): Promise<MoveResult> {
+    return this.retryableRequest(async () => {
+      await this.rateLimit();
+
+      const driveId = await this.getDriveId();
+      const injector = getPageScriptInjector();
+
+      const result: AliyunAPIResponse = await injector.callAPI(
+        'POST',
+        `${this.baseURL}/adrive/v2/batch`,
+        {
+          resource: 'file',
+          requests: fileIds.map((fileId) => ({
+            id: fileId,
+            method: 'POST',
+            url: '/file/move',
+            headers: { 'Content-Type': 'application/json' },
+            body: {
+              drive_id: driveId,
+              file_id: fileId,
+              to_drive_id: driveId,
+              to_parent_file_id: targetParentId,
+            },
+          })),
+        },
+        this.config.timeout
+      );
+
+      if (result.code) {
+        const errorMsg = getErrorMessage(result.code, result.message);
+        throw new AliyunAPIError(result.code, errorMsg, result);
+      }
+
+      const responses: Array<{ id: string; status: number }> = Array.isArray(result.responses)
+        ? result.responses
+        : [];
+      const movedIds = new Set(
+        responses.filter((item) => item.status >= 200 && item.status < 300).map((item) => item.id)
+      );
+      const failedIds = fileIds.filter((fileId) => !movedIds.has(fileId));
+
+      return failedIds.length === 0
+        ? { success: true }
+        : { success: false, failedIds, error: new Error(`移动失败: ${failedIds.length} 个文件`) };
+    }, `移动文件到 ${targetParentId}`);
+  }
+
   /**
    * Sync page file list after rename so users can see updated names without manual refresh.
    *
@@ -745,7 +932,7 @@ export class AliyunAdapter extends BasePlatformAdapter {
       const driveId = await this.getDriveId();
       const allFiles = await this.fetchFileListFromAPI(parentId, driveId);
 
-      return allFiles.some(file => file.name === fileName);
+      return allFiles.some(file => this.isSameName(file.name, fileName));
     } catch (error) {
       logger.error('Failed to check name conflict:', error instanceof Error ? error : new Error(String(error)));
       return true; // Conservative on error
@@ -775,35 +962,19 @@ export class AliyunAdapter extends BasePlatformAdapter {
         this.config.timeout
       );
 
-      const { ext } = parseFileName(result.name);
-      return {
-        id: result.file_id,
-        name: result.name,
-        ext: ext,
-        parentId: result.parent_file_id,
-        size: result.size,
-        mtime: new Date(result.updated_at).getTime(),
-      };
+      return this.toFileItem(result);
     } catch (error) {
       logger.error(`Failed to get file info for ${fileId}:`, error instanceof Error ? error : new Error(String(error)));
-      throw new Error(`获取文件信息失败: ${error instanceof Error ? error.message : String(error)}`);
+      throw wrapError(`获取文件信息失败: ${error instanceof Error ? error.message : String(error)}`, error);
     }
   }
 
   /**
-   * Rate limiting implementation
-   * @private
+   * Map an error into the shared error taxonomy using platform error codes
+   * @param error - Error object
    */
-  private async rateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-
-    if (timeSinceLastRequest < this.config.requestInterval) {
-      const delay = this.config.requestInterval - timeSinceLastRequest;
-      await this.sleep(delay);
-    }
-
-    this.lastRequestTime = Date.now();
+  classifyError(error: unknown): ErrorClassification {
+    return classifyPlatformError(error);
   }
 
   /**
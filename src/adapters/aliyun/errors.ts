@@ -1,3 +1,7 @@
+import type { ErrorCategory, ErrorClassification } from '../../types/error';
+import { classifyAs, classifyGenericError } from '../../core/error-taxonomy';
+import type { PageScriptHTTPFailure } from '../base/page-script-injector';
+
 /**
  * Aliyun Drive API Error Handling
  * Based on OpenAPI documentation and error exploration
@@ -7,7 +11,9 @@ export class AliyunAPIError extends Error {
   constructor(
     public code: string,
     message: string,
-    public response?: any
+    public response?: any,
+    public status?: number,
+    public retryAfterMs?: number
   ) {
     super(message);
     this.name = 'AliyunAPIError';
@@ -43,6 +49,17 @@ export function getErrorMessage(code: string, originalMessage?: string): string
   return errorMap[code] || originalMessage || `未知错误: ${code}`;
 }
 
+/**
+ * Build an error from a non-2xx response reported by the page script,
+ * keeping the HTTP status and Retry-After for classification
+ */
+export function fromHTTPFailure(failure: PageScriptHTTPFailure): AliyunAPIError {
+  const body = failure.body as { code?: unknown; message?: string } | undefined;
+  const code = typeof body?.code === 'string' ? body.code : '';
+  const message = code ? getErrorMessage(code, body?.message) : failure.message;
+  return new AliyunAPIError(code, message, failure.body, failure.status, failure.retryAfterMs);
+}
+
 /**
  * Determine if an error is retryable
  *
@@ -80,3 +97,32 @@ export function isRetryableError(error: any): boolean {
 
   return false;
 }
+
+/**
+ * Error category for each error code; unknown codes fall back to the generic classifier
+ */
+const ERROR_CATEGORIES: Record<string, ErrorCategory> = {
+  'NotFound.File': 'not_found',
+  'AlreadyExist.File': 'name_conflict',
+  'InvalidParameter.Name': 'invalid_name',
+  'Forbidden.FileNameLimit': 'invalid_name',
+  'QuotaExhausted.Storage': 'fatal',
+  'InvalidParameter.RefreshToken': 'auth_expired',
+  'AccessTokenInvalid': 'auth_expired',
+  'AccessTokenExpired': 'auth_expired',
+  'Forbidden.NoPermission': 'fatal',
+  'TooManyRequests': 'throttled',
+  'InternalError.Timeout': 'transient',
+  'ServiceUnavailable': 'transient',
+};
+
+/**
+ * Map an error into the shared error taxonomy
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof AliyunAPIError && ERROR_CATEGORIES[error.code]) {
+    return classifyAs(ERROR_CATEGORIES[error.code], error);
+  }
+
+  return classifyGenericError(error);
+}
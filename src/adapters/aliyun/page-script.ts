@@ -24,6 +24,10 @@ interface APIResponse {
   success: boolean;
   data?: any;
   error?: string;
+  /** Set for non-2xx responses: status, Retry-After header and parsed body */
+  status?: number;
+  retryAfter?: string | null;
+  body?: unknown;
 }
 
 interface ExtractFiberRequest {
@@ -319,7 +323,19 @@ window.addEventListener('message', async (event) => {
     });
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      // Keep the status, Retry-After and error body (e.g. AccessTokenExpired) for classification
+      const failureResponse: APIResponse = {
+        type: 'ALIYUN_API_RESPONSE',
+        requestId: apiRequest.requestId,
+        success: false,
+        error: `HTTP ${response.status}: ${response.statusText}`,
+        status: response.status,
+        retryAfter: response.headers.get('Retry-After'),
+        body: await response.json().catch(() => undefined),
+      };
+
+      window.postMessage(failureResponse, '*');
+      return;
     }
 
     const result = await response.json();
@@ -1,9 +1,21 @@
 import { BasePlatformAdapter } from '../base/adapter.interface';
-import { PlatformName, FileItem, RenameResult, PlatformConfig, PageSyncResult } from '../../types/platform';
+import {
+  PlatformName,
+  FileItem,
+  RenameResult,
+  PlatformConfig,
+  PageSyncResult,
+  RecursiveListOptions,
+  MoveResult,
+  RenameBatchItem,
+  RenameBatchResult,
+} from '../../types/platform';
 import { parseFileName } from '../../utils/helpers';
-import { BaiduAPIError, getErrorMessage, isRetryableError } from './errors';
+import { BaiduAPIError, classifyError as classifyPlatformError, getErrorMessage, isRetryableError } from './errors';
+import type { ErrorClassification } from '../../types/error';
 import { getPageScriptInjector } from './page-script-injector';
 import { logger } from '../../utils/logger';
+import { wrapError } from '../../core/error-taxonomy';
 
 /**
  * Baidu API Response Format
@@ -25,6 +37,18 @@ interface BaiduTaskResponse {
   errno: number;
   status: 'running' | 'pending' | 'success' | 'failed';
   taskid: number;
+  task_errno?: number;
+  // Per-file outcome of a filemanager task (not returned by every task type)
+  list?: BaiduTaskFileItem[];
+}
+
+/**
+ * Baidu Task Query Per-File Item
+ */
+interface BaiduTaskFileItem {
+  from?: string;
+  to?: string;
+  errno?: number;
 }
 
 /**
@@ -54,9 +78,11 @@ export class BaiduAdapter extends BasePlatformAdapter {
   readonly platform: PlatformName = 'baidu';
 
   private baseURL = 'https://pan.baidu.com/api';
-  private lastRequestTime = 0;
   private maxTaskPollAttempts = 30;      // Max 30 attempts
   private taskPollInterval = 1000;        // 1 second polling interval
+  // Files seen in listings or renamed here. Renames address files by path, and the page DOM
+  // keeps showing pre-rename names (and lacks subfolder files), so current paths are tracked per fs_id
+  private knownFiles = new Map<string, FileItem>();
 
   constructor(config?: Partial<PlatformConfig>) {
     super({
@@ -64,6 +90,10 @@ export class BaiduAdapter extends BasePlatformAdapter {
       requestInterval: 800,     // Baidu API rate limit
       maxRetries: 3,
       timeout: 30000,
+      caseSensitive: false,     // Names differing only in case collide
+      caseOnlyRename: false,    // Case-only renames are rejected as duplicates
+      renameBatchSize: 100,     // filemanager accepts a filelist array
+      maxNameLength: 255,       // Longer names are rejected by filemanager
       ...config,
     });
   }
@@ -108,13 +138,8 @@ export class BaiduAdapter extends BasePlatformAdapter {
         const filenameEl = row.querySelector('.wp-s-pan-list__file-name-title-text, .list-name-text, a[title]');
         const fileName = filenameEl?.getAttribute('title')?.trim() || filenameEl?.textContent?.trim() || '';
 
-        // Check if directory (skip folders)
-        const isDir = row.getAttribute('data-isdir') === '1' ||
-                      row.classList.contains('is-directory');
-
-        if (isDir) {
-          continue;
-        }
+        // Folders are renamable too (their names get no extension handling)
+        const isFolder = this.isFolderRow(row);
 
         // Skip files with empty names
         if (!fileName) {
@@ -127,7 +152,7 @@ export class BaiduAdapter extends BasePlatformAdapter {
         const parentPath = this.getCurrentPath();
 
         // Parse extension
-        const { ext } = parseFileName(fileName);
+        const { ext } = parseFileName(fileName, isFolder);
 
         // Extract size and mtime
         const sizeAttr = row.getAttribute('data-size');
@@ -140,6 +165,7 @@ export class BaiduAdapter extends BasePlatformAdapter {
           parentId: parentPath,
           size: sizeAttr ? parseInt(sizeAttr, 10) : 0,
           mtime: mtimeAttr ? parseInt(mtimeAttr, 10) : Date.now(),
+          isFolder,
         });
       }
 
@@ -163,77 +189,145 @@ export class BaiduAdapter extends BasePlatformAdapter {
       logger.info('[BaiduAdapter] Fetching all files from API');
 
       const targetPath = parentPath || this.getCurrentPath();
-      const bdstoken = await this.extractBdstoken();
+      const bdstoken = await this.requireBdstoken();
 
-      if (!bdstoken) {
-        throw new Error('无法获取 bdstoken，请确保已登录百度网盘');
-      }
+      // Files and folders (folders are flagged with isFolder)
+      const allFiles = (await this.fetchDirectoryItems(targetPath, bdstoken))
+        .map(file => this.toFileItem(file, targetPath));
+      allFiles.forEach(file => this.knownFiles.set(file.id, file));
 
-      const allFiles: FileItem[] = [];
-      let page = 1;
-      const pageSize = 100;
-      let hasMore = true;
-
-      // Paginate through all files
-      while (hasMore) {
-        await this.rateLimit();
-
-        const url = new URL(`${this.baseURL}/list`);
-        url.searchParams.set('order', 'name');
-        url.searchParams.set('desc', '0');
-        url.searchParams.set('page', page.toString());
-        url.searchParams.set('num', pageSize.toString());
-        url.searchParams.set('dir', targetPath);
-        url.searchParams.set('bdstoken', bdstoken);
-
-        const response = await this.fetchWithTimeout(url.toString(), {
-          method: 'GET',
-          credentials: 'include',
-        });
+      logger.info(`[BaiduAdapter] Successfully fetched ${allFiles.length} files`);
+      return allFiles;
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      logger.error('Failed to get all files:', errorObj);
+      throw wrapError(`获取文件列表失败: ${errorObj.message}`, error);
+    }
+  }
 
-        const result: BaiduAPIResponse<{ list: BaiduFileListItem[] }> = await response.json();
+  /**
+   * Get files in a directory and its subfolders via path listing
+   *
+   * @param parentPath Start directory path (optional, defaults to current directory)
+   * @param options Depth, folder filters, cancellation and progress options
+   * @returns File list (folders excluded)
+   */
+  async getAllFilesRecursive(parentPath?: string, options: RecursiveListOptions = {}): Promise<FileItem[]> {
+    try {
+      logger.info('[BaiduAdapter] Fetching files recursively from API');
 
-        if (result.errno !== 0) {
-          const errorMsg = getErrorMessage(result.errno);
-          throw new BaiduAPIError(result.errno, errorMsg, result);
-        }
+      const bdstoken = await this.requireBdstoken();
+      const files = await this.walkDirectories(parentPath || this.getCurrentPath(), options, async (directoryPath) => {
+        const items = await this.fetchDirectoryItems(directoryPath, bdstoken);
+        return {
+          files: items.filter(item => item.isdir === 0).map(item => this.toFileItem(item, directoryPath)),
+          // Folder "id" is its full path, which /api/list takes as `dir`
+          folders: items.filter(item => item.isdir === 1).map(item => ({ id: item.path, name: item.server_filename })),
+        };
+      });
 
-        const pageFiles = (result.data?.list ?? result.list) as BaiduFileListItem[] | undefined;
-        if (!Array.isArray(pageFiles)) {
-          throw new Error('无法解析文件列表响应');
-        }
+      files.forEach(file => this.knownFiles.set(file.id, file));
 
-        // Filter out folders (only return files, isdir === 0)
-        const files = pageFiles
-          .filter(f => f.isdir === 0)
-          .map((file): FileItem => {
-            const { ext } = parseFileName(file.server_filename);
-            return {
-              id: String(file.fs_id),
-              name: file.server_filename,
-              ext: ext,
-              parentId: targetPath,
-              size: file.size,
-              mtime: file.server_mtime ? file.server_mtime * 1000 : Date.now(),
-            };
-          });
+      logger.info(`[BaiduAdapter] Successfully fetched ${files.length} files recursively`);
+      return files;
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      if (errorObj.name === 'AbortError') {
+        throw errorObj;
+      }
+      logger.error('Failed to get files recursively:', errorObj);
+      throw wrapError(`获取文件列表失败: ${errorObj.message}`, error);
+    }
+  }
 
-        allFiles.push(...files);
+  /**
+   * Get bdstoken or throw when the user is not logged in
+   * @private
+   */
+  private async requireBdstoken(): Promise<string> {
+    const bdstoken = await this.extractBdstoken();
+    if (!bdstoken) {
+      throw new Error('无法获取 bdstoken，请确保已登录百度网盘');
+    }
+    return bdstoken;
+  }
 
-        // Check if there are more pages
-        hasMore = pageFiles.length === pageSize;
-        page++;
+  /**
+   * Fetch every entry (files and folders) of a directory with pagination
+   * @private
+   */
+  private async fetchDirectoryItems(targetPath: string, bdstoken: string): Promise<BaiduFileListItem[]> {
+    const items: BaiduFileListItem[] = [];
+    let page = 1;
+    const pageSize = 100;
+    let hasMore = true;
+
+    // Paginate through all files
+    while (hasMore) {
+      await this.rateLimit();
 
-        logger.debug(`[BaiduAdapter] Fetched page ${page - 1} with ${files.length} files`);
+      const url = new URL(`${this.baseURL}/list`);
+      url.searchParams.set('order', 'name');
+      url.searchParams.set('desc', '0');
+      url.searchParams.set('page', page.toString());
+      url.searchParams.set('num', pageSize.toString());
+      url.searchParams.set('dir', targetPath);
+      url.searchParams.set('bdstoken', bdstoken);
+
+      const response = await this.fetchWithTimeout(url.toString(), {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      const result: BaiduAPIResponse<{ list: BaiduFileListItem[] }> = await response.json();
+
+      if (result.errno !== 0) {
+        const errorMsg = getErrorMessage(result.errno);
+        throw new BaiduAPIError(result.errno, errorMsg, result);
       }
 
-      logger.info(`[BaiduAdapter] Successfully fetched ${allFiles.length} files`);
-      return allFiles;
-    } catch (error) {
-      const errorObj = error instanceof Error ? error : new Error(String(error));
-      logger.error('Failed to get all files:', errorObj);
-      throw new Error(`获取文件列表失败: ${errorObj.message}`);
+      const pageFiles = (result.data?.list ?? result.list) as BaiduFileListItem[] | undefined;
+      if (!Array.isArray(pageFiles)) {
+        throw new Error('无法解析文件列表响应');
+      }
+
+      items.push(...pageFiles);
+
+      // Check if there are more pages
+      hasMore = pageFiles.length === pageSize;
+      page++;
+
+      logger.debug(`[BaiduAdapter] Fetched page ${page - 1} with ${pageFiles.length} files`);
     }
+
+    return items;
+  }
+
+  /**
+   * Convert a list item to FileItem (parentId is the directory path)
+   * /api/list has no child count for folders, so childCount stays unset
+   * @private
+   */
+  private toFileItem(file: BaiduFileListItem, parentPath: string): FileItem {
+    const isFolder = file.isdir === 1;
+    const { ext } = parseFileName(file.server_filename, isFolder);
+    return {
+      id: String(file.fs_id),
+      name: file.server_filename,
+      ext: ext,
+      parentId: parentPath,
+      size: file.size,
+      mtime: file.server_mtime ? file.server_mtime * 1000 : Date.now(),
+      isFolder,
+    };
+  }
+
+  /**
+   * Whether a list row in the page DOM is a folder
+   * @private
+   */
+  private isFolderRow(row: Element): boolean {
+    return row.getAttribute('data-isdir') === '1' || row.classList.contains('is-directory');
   }
 
   /**
@@ -256,8 +350,8 @@ export class BaiduAdapter extends BasePlatformAdapter {
       }
 
       // Get file info to construct full path
-      const fileInfo = await this.getFileInfoFromDOM(fileId);
-      const filePath = fileInfo.parentId ? `${fileInfo.parentId}/${fileInfo.name}` : `/${fileInfo.name}`;
+      const fileInfo = await this.resolveFile(fileId);
+      const filePath = this.joinPath(fileInfo.parentId, fileInfo.name);
 
       // Construct rename request
       const url = `${this.baseURL}/filemanager?async=2&onnest=fail&opera=rename&bdstoken=${bdstoken}&clienttype=0&app_id=250528&web=1`;
@@ -297,6 +391,7 @@ export class BaiduAdapter extends BasePlatformAdapter {
       const taskResult = await this.pollTaskStatus(taskid);
 
       if (taskResult.status === 'success') {
+        this.rememberRename(fileInfo, newName);
         return {
           success: true,
           newName: newName,
@@ -308,6 +403,238 @@ export class BaiduAdapter extends BasePlatformAdapter {
     }, `重命名文件 ${fileId}`);
   }
 
+  /**
+   * Rename several files with one filemanager request
+   * A task may fail part-way, so each file's outcome is taken from the task's per-file list,
+   * or, when that list is missing, from the file's actual name after re-listing its folder.
+   * Only the submit step is retried: a submitted task is never sent again, even when polling
+   * gives up while it is still running (its outcome is then read from the re-listed folder).
+   *
+   * @param batch - Files and their new names
+   * @returns One result per file, in batch order
+   */
+  async renameFiles(batch: RenameBatchItem[]): Promise<RenameBatchResult[]> {
+    const files: FileItem[] = [];
+    let taskid: number | null = null;
+    const result = await this.retryableRequest(async (): Promise<RenameResult> => {
+      await this.rateLimit();
+
+      const bdstoken = await this.requireBdstoken();
+      files.length = 0;
+      for (const item of batch) {
+        files.push(await this.resolveFile(item.fileId));
+      }
+
+      const url = `${this.baseURL}/filemanager?async=2&onnest=fail&opera=rename&bdstoken=${bdstoken}&clienttype=0&app_id=250528&web=1`;
+      const requestBody = {
+        filelist: JSON.stringify(batch.map((item, index) => ({
+          id: parseInt(item.fileId, 10),
+          path: this.joinPath(files[index].parentId, files[index].name),
+          newname: item.newName,
+        }))),
+      };
+
+      const injector = getPageScriptInjector();
+      const response: BaiduAPIResponse = await injector.callAPI('POST', url, requestBody, this.config.timeout);
+
+      if (response.errno !== 0) {
+        const errorMsg = getErrorMessage(response.errno);
+        throw new BaiduAPIError(response.errno, errorMsg, response);
+      }
+
+      if (!response.taskid) {
+        throw new Error('重命名请求成功但未返回 taskid');
+      }
+
+      taskid = response.taskid;
+      return { success: true };
+    }, `批量重命名 ${batch.length} 个文件`);
+
+    if (!result.success || taskid === null) {
+      return batch.map((item) => ({ fileId: item.fileId, success: false, error: result.error }));
+    }
+
+    let task: BaiduTaskResponse | Error;
+    try {
+      task = await this.pollTaskStatus(taskid);
+    } catch (error) {
+      // The task may still be running (or already done); resubmitting would rename the files twice
+      task = error instanceof Error ? error : new Error(String(error));
+      logger.warn(`[BaiduAdapter] Lost track of rename task ${taskid}, checking names in its folders:`, task.message);
+    }
+
+    const results = await this.resolveBatchOutcomes(batch, files, task);
+    results.forEach((item, index) => {
+      if (item.success && item.newName) {
+        this.rememberRename(files[index], item.newName);
+      }
+    });
+
+    return results;
+  }
+
+  /**
+   * Work out each file's outcome of a filemanager task
+   * - Files listed in the task's per-file list take that entry's errno
+   * - Other files succeed with a successful task; after a failed task, or when polling failed
+   *   (`task` is then the polling error), their folder is re-listed and a file counts as
+   *   renamed only if it already has the new name
+   * @private
+   */
+  private async resolveBatchOutcomes(
+    batch: RenameBatchItem[],
+    files: FileItem[],
+    task: BaiduTaskResponse | Error
+  ): Promise<RenameBatchResult[]> {
+    const taskError = task instanceof Error
+      ? task
+      : task.task_errno
+        ? new BaiduAPIError(task.task_errno, getErrorMessage(task.task_errno), task)
+        : new Error(`任务执行失败: ${task.status}`);
+    const entries = task instanceof Error ? [] : task.list ?? [];
+    const taskSucceeded = !(task instanceof Error) && task.status === 'success';
+    const entriesByPath = new Map(entries.map((entry) => [entry.from, entry]));
+    const succeeded = (item: RenameBatchItem): RenameBatchResult => ({ fileId: item.fileId, success: true, newName: item.newName });
+    const failed = (item: RenameBatchItem, error: Error): RenameBatchResult => ({ fileId: item.fileId, success: false, error });
+
+    const results: Array<RenameBatchResult | null> = batch.map((item, index) => {
+      const entry = entriesByPath.get(this.joinPath(files[index].parentId, files[index].name));
+      if (entry) {
+        return entry.errno
+          ? failed(item, new BaiduAPIError(entry.errno, getErrorMessage(entry.errno), entry))
+          : succeeded(item);
+      }
+      return taskSucceeded ? succeeded(item) : null;
+    });
+
+    const unresolved = batch.flatMap((_item, index) => (results[index] ? [] : [index]));
+    const actualNames = new Map<string, string>();
+    for (const parentPath of new Set(unresolved.map((index) => files[index].parentId))) {
+      try {
+        (await this.getAllFiles(parentPath)).forEach((file) => actualNames.set(file.id, file.name));
+      } catch (error) {
+        logger.warn(`[BaiduAdapter] Failed to re-list ${parentPath} after a rename task:`, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return batch.map((item, index) =>
+      results[index] ?? (actualNames.get(item.fileId) === item.newName ? succeeded(item) : failed(item, taskError))
+    );
+  }
+
+  /**
+   * Create a folder, or reuse the existing folder with the same name
+   *
+   * @param name - Folder name
+   * @param parentPath - Parent directory path
+   * @returns Folder path (used as the parent "id" of its children)
+   */
+  async createFolder(name: string, parentPath: string): Promise<string> {
+    const bdstoken = await this.requireBdstoken();
+    const existing = (await this.fetchDirectoryItems(parentPath, bdstoken)).find(
+      item => item.isdir === 1 && this.isSameName(item.server_filename, name)
+    );
+    if (existing) {
+      return existing.path;
+    }
+
+    await this.rateLimit();
+
+    const folderPath = this.joinPath(parentPath, name);
+    const url = `${this.baseURL}/create?a=commit&bdstoken=${bdstoken}&clienttype=0&app_id=250528&web=1`;
+    const injector = getPageScriptInjector();
+    const result: BaiduAPIResponse & { path?: string } = await injector.callAPI(
+      'POST',
+      url,
+      {
+        path: folderPath,
+        isdir: 1,
+        block_list: '[]',
+      },
+      this.config.timeout
+    );
+
+    if (result.errno !== 0) {
+      const errorMsg = getErrorMessage(result.errno);
+      throw new BaiduAPIError(result.errno, errorMsg, result);
+    }
+
+    return result.path || folderPath;
+  }
+
+  /**
+   * Move files into a folder via filemanager (opera=move) with async task tracking
+   *
+   * @param fileIds - fs_id list
+   * @param targetPath - Target directory path
+   * @returns Move result (the whole batch succeeds or fails)
+   */
+  async moveFiles(fileIds: string[], targetPath: string): Promise<MoveResult> {
+    return this.retryableRequest(async () => {
+      await this.rateLimit();
+
+      const bdstoken = await this.requireBdstoken();
+      const files: FileItem[] = [];
+      for (const fileId of fileIds) {
+        files.push(await this.resolveFile(fileId));
+      }
+
+      const url = `${this.baseURL}/filemanager?async=2&onnest=fail&opera=move&bdstoken=${bdstoken}&clienttype=0&app_id=250528&web=1`;
+      const requestBody = {
+        filelist: JSON.stringify(files.map(file => ({
+          path: this.joinPath(file.parentId, file.name),
+          dest: targetPath,
+          newname: file.name,
+        }))),
+      };
+
+      const injector = getPageScriptInjector();
+      const result: BaiduAPIResponse = await injector.callAPI('POST', url, requestBody, this.config.timeout);
+
+      if (result.errno !== 0) {
+        const errorMsg = getErrorMessage(result.errno);
+        throw new BaiduAPIError(result.errno, errorMsg, result);
+      }
+
+      if (!result.taskid) {
+        throw new Error('移动请求成功但未返回 taskid');
+      }
+
+      const taskResult = await this.pollTaskStatus(result.taskid);
+      if (taskResult.status !== 'success') {
+        throw new Error(`任务执行失败: ${taskResult.status}`);
+      }
+
+      // Moved files leave the page DOM; keep their new paths for later renames and moves
+      files.forEach(file => this.knownFiles.set(file.id, { ...file, parentId: targetPath }));
+      return { success: true };
+    }, `移动文件到 ${targetPath}`);
+  }
+
+  /**
+   * Current info of a file: tracked path first, the page DOM otherwise
+   * @private
+   */
+  private async resolveFile(fileId: string): Promise<FileItem> {
+    return this.knownFiles.get(fileId) ?? await this.getFileInfoFromDOM(fileId);
+  }
+
+  /**
+   * Track a file's new name so later renames (second phase, temp-name restore) use its current path
+   * @private
+   */
+  private rememberRename(file: FileItem, newName: string): void {
+    this.knownFiles.set(file.id, { ...file, name: newName, ext: parseFileName(newName, file.isFolder).ext });
+  }
+
+  /**
+   * Join a directory path and a name
+   * @private
+   */
+  private joinPath(parentPath: string, name: string): string {
+    return parentPath && parentPath !== '/' ? `${parentPath}/${name}` : `/${name}`;
+  }
+
   /**
    * Sync page file list after rename so users can see updated names without manual refresh.
    *
@@ -398,7 +725,7 @@ export class BaiduAdapter extends BasePlatformAdapter {
         return false;
       }
 
-      return list.some(file => file.server_filename === fileName);
+      return list.some(file => this.isSameName(file.server_filename, fileName));
     } catch (error) {
       logger.error('Failed to check name conflict:', error instanceof Error ? error : new Error(String(error)));
       return true; // Conservative on error
@@ -406,18 +733,17 @@ export class BaiduAdapter extends BasePlatformAdapter {
   }
 
   /**
-   * Get file information (fallback to DOM extraction)
+   * Get file information (tracked info first, fallback to DOM extraction)
    *
    * @param fileId - fs_id
    * @returns File information
    */
   async getFileInfo(fileId: string): Promise<FileItem> {
     try {
-      // Try DOM extraction first (more reliable)
-      return await this.getFileInfoFromDOM(fileId);
+      return await this.resolveFile(fileId);
     } catch (error) {
       logger.error(`Failed to get file info for ${fileId}:`, error instanceof Error ? error : new Error(String(error)));
-      throw new Error(`获取文件信息失败: ${error instanceof Error ? error.message : String(error)}`);
+      throw wrapError(`获取文件信息失败: ${error instanceof Error ? error.message : String(error)}`, error);
     }
   }
 
@@ -469,7 +795,8 @@ export class BaiduAdapter extends BasePlatformAdapter {
 
     const sizeAttr = row.getAttribute('data-size');
     const mtimeAttr = row.getAttribute('data-mtime');
-    const { ext } = parseFileName(fileName);
+    const isFolder = this.isFolderRow(row);
+    const { ext } = parseFileName(fileName, isFolder);
 
     return {
       id: fileId,
@@ -478,6 +805,7 @@ export class BaiduAdapter extends BasePlatformAdapter {
       parentId: parentPath,
       size: sizeAttr ? parseInt(sizeAttr, 10) : 0,
       mtime: mtimeAttr ? parseInt(mtimeAttr, 10) : Date.now(),
+      isFolder,
     };
   }
 
@@ -1035,19 +1363,11 @@ export class BaiduAdapter extends BasePlatformAdapter {
   }
 
   /**
-   * Rate limiting implementation
-   * @private
+   * Map an error into the shared error taxonomy using platform error codes
+   * @param error - Error object
    */
-  private async rateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-
-    if (timeSinceLastRequest < this.config.requestInterval) {
-      const delay = this.config.requestInterval - timeSinceLastRequest;
-      await this.sleep(delay);
-    }
-
-    this.lastRequestTime = Date.now();
+  classifyError(error: unknown): ErrorClassification {
+    return classifyPlatformError(error);
   }
 
   /**
@@ -1,3 +1,7 @@
+import type { ErrorCategory, ErrorClassification } from '../../types/error';
+import { classifyAs, classifyGenericError } from '../../core/error-taxonomy';
+import type { PageScriptHTTPFailure } from '../base/page-script-injector';
+
 /**
  * Baidu API Error Class
  */
@@ -5,7 +9,9 @@ export class BaiduAPIError extends Error {
   constructor(
     public errno: number,
     message: string,
-    public response?: any
+    public response?: any,
+    public status?: number,
+    public retryAfterMs?: number
   ) {
     super(message);
     this.name = 'BaiduAPIError';
@@ -24,6 +30,7 @@ export const ERROR_CODES: Record<string, string> = {
   '110': '会话已过期',
   '111': '访问令牌无效',
   '112': 'Session已失效',
+  '31034': '请求过于频繁，请稍后再试',
   '-1': '文件或目录不存在',
   '-2': '用户未登录或登录失败',
   '-3': '文件已存在',
@@ -67,3 +74,47 @@ export function isRetryableError(error: any): boolean {
 
   return false;
 }
+
+/**
+ * Build an error from a non-2xx response reported by the page script,
+ * keeping the HTTP status and Retry-After for classification
+ */
+export function fromHTTPFailure(failure: PageScriptHTTPFailure): BaiduAPIError {
+  const body = failure.body as { errno?: unknown; errmsg?: string } | undefined;
+  const errno = typeof body?.errno === 'number' ? body.errno : 0;
+  const message = errno ? getErrorMessage(errno, body?.errmsg) : failure.message;
+  return new BaiduAPIError(errno, message, failure.body, failure.status, failure.retryAfterMs);
+}
+
+/**
+ * Error category for each errno; unknown errnos fall back to the generic classifier
+ */
+const ERROR_CATEGORIES: Record<number, ErrorCategory> = {
+  2: 'fatal',
+  3: 'fatal',
+  4: 'transient',
+  110: 'auth_expired',
+  111: 'auth_expired',
+  112: 'auth_expired',
+  31034: 'throttled',
+  [-1]: 'not_found',
+  [-2]: 'auth_expired',
+  [-3]: 'name_conflict',
+  [-4]: 'name_conflict',
+  [-7]: 'invalid_name',
+  [-8]: 'invalid_name',
+  [-9]: 'not_found',
+  [-10]: 'fatal',
+  [-11]: 'not_found',
+};
+
+/**
+ * Map an error into the shared error taxonomy
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof BaiduAPIError && ERROR_CATEGORIES[error.errno]) {
+    return classifyAs(ERROR_CATEGORIES[error.errno], error);
+  }
+
+  return classifyGenericError(error);
+}
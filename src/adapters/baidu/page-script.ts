@@ -5,6 +5,7 @@
  * Communication Protocol:
  * Content Script -> Page Script: { type: 'BAIDU_API_REQUEST', requestId, method, url, body }
  * Page Script -> Content Script: { type: 'BAIDU_API_RESPONSE', requestId, success, data/error }
+ *   Non-2xx responses also carry status, retryAfter (Retry-After header) and the parsed body
  */
 
 export {};
@@ -23,6 +24,21 @@ interface APIResponse {
   success: boolean;
   data?: any;
   error?: string;
+  /** Set for non-2xx responses */
+  status?: number;
+  retryAfter?: string | null;
+  body?: unknown;
+}
+
+/**
+ * Parse a response body as JSON (undefined when it is not JSON)
+ */
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
 }
 
 // Listen for GET_BDSTOKEN requests
@@ -91,6 +107,21 @@ window.addEventListener('message', async (event) => {
     xhr.withCredentials = true;  // Critical: include cookies
 
     xhr.onload = function() {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        const errorResponse: APIResponse = {
+          type: 'BAIDU_API_RESPONSE',
+          requestId: message.requestId,
+          success: false,
+          error: `HTTP ${xhr.status}`,
+          status: xhr.status,
+          retryAfter: xhr.getResponseHeader('Retry-After'),
+          body: parseBody(xhr.responseText),
+        };
+
+        window.postMessage(errorResponse, '*');
+        return;
+      }
+
       try {
         const result = JSON.parse(xhr.responseText);
 
@@ -4,7 +4,17 @@ import {
   FileItem,
   RenameResult,
   PlatformConfig,
+  PlatformCapabilities,
+  DirectoryListing,
+  RecursiveListOptions,
+  DEFAULT_RECURSIVE_MAX_DEPTH,
 } from '../../types/platform';
+import type { ErrorClassification } from '../../types/error';
+import { classifyGenericError } from '../../core/error-taxonomy';
+import { matchesAnyFolderPattern } from '../../utils/folders';
+import { inferPlatformCapabilities } from '../../utils/platform-capabilities';
+import { rateLimitClient } from '../../core/rate-limit-client';
+import { toRateLimitConfig } from '../../core/rate-limiter';
 
 /**
  * 平台适配器抽象基类
@@ -74,6 +84,23 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
     return this.config;
   }
 
+  /**
+   * 平台能力描述
+   * 默认按配置和已实现的可选方法推断，子类可覆盖以声明平台特有的能力
+   */
+  get capabilities(): PlatformCapabilities {
+    return inferPlatformCapabilities(this);
+  }
+
+  /**
+   * 将错误归类
+   * 默认按错误类型和消息通用分类，子类应覆盖以映射平台错误码
+   * @param error 错误对象
+   */
+  classifyError(error: unknown): ErrorClassification {
+    return classifyGenericError(error);
+  }
+
   /**
    * 解析文件扩展名
    * @param fileName 文件名
@@ -88,6 +115,105 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
     return fileName.substring(lastDot);
   }
 
+  /**
+   * 按平台的大小写规则判断两个文件名是否相同
+   * @param a 文件名
+   * @param b 文件名
+   */
+  protected isSameName(a: string, b: string): boolean {
+    return this.config.caseSensitive === false ? a.toLowerCase() === b.toLowerCase() : a === b;
+  }
+
+  /**
+   * 按层级遍历目录树，汇总各目录下的文件（供 getAllFilesRecursive 使用）
+   * - 匹配排除模式的目录不进入
+   * - 设置了包含模式时只收集匹配目录（及其子目录）中的文件，
+   *   不匹配的目录仍会进入，以便找到更深层的匹配目录
+   * @param rootId 起点目录ID
+   * @param options 递归加载选项
+   * @param listDirectory 列出单个目录下的文件和子目录
+   * @returns 文件列表（已填充 relativePath）
+   */
+  protected async walkDirectories(
+    rootId: string,
+    options: RecursiveListOptions,
+    listDirectory: (directoryId: string) => Promise<DirectoryListing>
+  ): Promise<FileItem[]> {
+    const {
+      maxDepth = DEFAULT_RECURSIVE_MAX_DEPTH,
+      includeFolders = [],
+      excludeFolders = [],
+      signal,
+      onProgress,
+    } = options;
+    const queue = [{ id: rootId, name: '', path: '', depth: 0, included: true }];
+    const files: FileItem[] = [];
+    let foldersScanned = 0;
+
+    for (let folder = queue.shift(); folder; folder = queue.shift()) {
+      this.throwIfAborted(signal);
+      const listing = await listDirectory(folder.id);
+      this.throwIfAborted(signal);
+
+      if (folder.included) {
+        const { path, name } = folder;
+        files.push(
+          ...listing.files.map((file) =>
+            path ? { ...file, relativePath: path, parentName: name } : { ...file, relativePath: '' }
+          )
+        );
+      }
+
+      foldersScanned++;
+      onProgress?.({ foldersScanned, filesFound: files.length, currentPath: folder.path });
+
+      if (folder.depth >= maxDepth) {
+        continue;
+      }
+
+      for (const child of listing.folders) {
+        const path = folder.path ? `${folder.path}/${child.name}` : child.name;
+        if (matchesAnyFolderPattern(excludeFolders, child.name, path)) {
+          continue;
+        }
+
+        queue.push({
+          id: child.id,
+          name: child.name,
+          path,
+          depth: folder.depth + 1,
+          // 起点目录总是收集；子目录继承上级的匹配结果
+          included:
+            (folder.depth > 0 && folder.included) ||
+            includeFolders.length === 0 ||
+            matchesAnyFolderPattern(includeFolders, child.name, path),
+        });
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * 已取消时抛出 AbortError
+   * @param signal 取消信号
+   */
+  protected throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      const error = new Error('Recursive listing cancelled');
+      error.name = 'AbortError';
+      throw error;
+    }
+  }
+
+  /**
+   * 速率限制
+   * 从按平台共享的令牌桶租用令牌（多个标签页共用同一速率）
+   */
+  protected async rateLimit(): Promise<void> {
+    await rateLimitClient.acquire(this.platform, toRateLimitConfig(this.config));
+  }
+
   /**
    * 延迟执行
    * @param ms 延迟毫秒数
@@ -0,0 +1,251 @@
+/**
+ * 页面脚本注入器基类
+ * 负责 ISOLATED world（content script）与 MAIN world（page-script.ts）之间的通信
+ *
+ * 各平台的 page-script.ts 通过 manifest.json 中的 world: "MAIN" 自动加载，
+ * 并按统一约定收发消息：
+ * - `<PREFIX>_PAGE_SCRIPT_READY`：页面脚本就绪信号
+ * - `<PREFIX>_API_REQUEST` / `<PREFIX>_API_RESPONSE`：API 请求与响应
+ * - `document.body.dataset.<datasetKey>PageScriptReady/Timestamp`：跨 world 的持久就绪标记
+ *
+ * 非 2xx 响应由页面脚本附带 status、Retry-After 头和解析后的响应体返回，
+ * 再交给平台的 createHTTPError 构造带错误码的平台错误
+ */
+
+import { parseRetryAfter } from '../../core/error-taxonomy';
+import { logger } from '../../utils/logger';
+
+/**
+ * 页面脚本报告的 HTTP 失败（非 2xx 响应）
+ */
+export interface PageScriptHTTPFailure {
+  /** 页面脚本给出的错误消息 */
+  message: string;
+  /** HTTP 状态码 */
+  status: number;
+  /** 由 Retry-After 头解析出的等待时间（毫秒） */
+  retryAfterMs?: number;
+  /** 解析后的响应体（非 JSON 时为 undefined） */
+  body?: unknown;
+}
+
+/**
+ * 注入器配置
+ */
+export interface PageScriptInjectorOptions {
+  /** 消息类型前缀，如 'PAN115' */
+  prefix: string;
+  /** dataset 键前缀，如 'pan115' */
+  datasetKey: string;
+  /** 请求消息中携带请求体的字段名，默认 'body' */
+  payloadKey?: 'body' | 'params';
+  /** 由 HTTP 失败构造平台错误（保留 status / 错误码 / retryAfterMs 供错误分类使用） */
+  createHTTPError: (failure: PageScriptHTTPFailure) => Error;
+}
+
+interface PageAPIResponse {
+  type: string;
+  requestId: string;
+  success: boolean;
+  data?: unknown;
+  error?: string;
+  /** 以下字段仅在 HTTP 非 2xx 时出现 */
+  status?: number;
+  retryAfter?: string | null;
+  body?: unknown;
+}
+
+/** 就绪标记的最长有效期，防止导航后读到上一个页面留下的标记 */
+const MAX_FLAG_AGE_MS = 60000;
+
+/** 未收到就绪信号时，超过该时长即视为已就绪 */
+const READY_SIGNAL_TIMEOUT_MS = 2000;
+
+/**
+ * 页面脚本通信类
+ * TPayload 为请求体类型，TResult 为未指定泛型时 callAPI 的返回类型
+ */
+export class PageScriptInjector<TPayload = unknown, TResult = unknown> {
+  protected readonly prefix: string;
+  protected isReady = false;
+  private readonly datasetKey: string;
+  private readonly payloadKey: 'body' | 'params';
+  private readonly createHTTPError: (failure: PageScriptHTTPFailure) => Error;
+  private pendingRequests = new Map<
+    string,
+    {
+      resolve: (data: unknown) => void;
+      reject: (error: Error) => void;
+      timeout: number;
+    }
+  >();
+
+  constructor(options: PageScriptInjectorOptions) {
+    this.prefix = options.prefix;
+    this.datasetKey = options.datasetKey;
+    this.payloadKey = options.payloadKey ?? 'body';
+    this.createHTTPError = options.createHTTPError;
+    this.setupMessageListener();
+    this.waitForPageScriptReady();
+  }
+
+  /**
+   * 等待页面脚本就绪
+   * Chrome 的 world 隔离使 ISOLATED world 读不到 MAIN world 设置的 window 属性，
+   * 因此通过双方都能访问的 DOM dataset 传递就绪标记，并用时间戳排除过期标记
+   */
+  private waitForPageScriptReady(): void {
+    const readyKey = `${this.datasetKey}PageScriptReady`;
+    const timestampKey = `${this.datasetKey}PageScriptTimestamp`;
+    const dataset = document.body.dataset;
+    const domTimestamp = dataset[timestampKey] ? parseInt(dataset[timestampKey] as string, 10) : null;
+
+    if (dataset[readyKey] === 'true' && domTimestamp) {
+      const flagAge = Date.now() - domTimestamp;
+
+      if (flagAge < MAX_FLAG_AGE_MS) {
+        this.isReady = true;
+        return;
+      }
+
+      // 过期标记：清除后等待新的就绪信号
+      logger.warn(`Stale DOM flag detected (age: ${flagAge}ms), waiting for fresh signal`);
+      delete dataset[readyKey];
+      delete dataset[timestampKey];
+    }
+
+    const handler = (event: MessageEvent) => {
+      if (event.data?.type === `${this.prefix}_PAGE_SCRIPT_READY`) {
+        this.isReady = true;
+        window.removeEventListener('message', handler);
+      }
+    };
+
+    window.addEventListener('message', handler);
+
+    // 超时兜底：错过就绪信号时也不阻塞请求
+    setTimeout(() => {
+      if (!this.isReady) {
+        this.isReady = true;
+        window.removeEventListener('message', handler);
+      }
+    }, READY_SIGNAL_TIMEOUT_MS);
+  }
+
+  /**
+   * 设置消息监听器
+   */
+  private setupMessageListener(): void {
+    window.addEventListener('message', (event: MessageEvent) => {
+      const message = event.data;
+      if (!message) return;
+
+      if (message.type === `${this.prefix}_API_RESPONSE`) {
+        this.handleAPIResponse(message as PageAPIResponse);
+        return;
+      }
+
+      this.handleMessage(message);
+    });
+  }
+
+  private handleAPIResponse(message: PageAPIResponse): void {
+    const pending = this.pendingRequests.get(message.requestId);
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timeout);
+    this.pendingRequests.delete(message.requestId);
+
+    if (message.success) {
+      pending.resolve(message.data);
+    } else {
+      const errorObj = this.toError(message);
+      logger.error(`API response failed - requestId: ${message.requestId}`, errorObj);
+      pending.reject(errorObj);
+    }
+  }
+
+  /**
+   * 将失败响应转换为错误：带 HTTP 状态的交给平台构造，其余（网络错误、超时等）保持普通错误
+   */
+  private toError(message: PageAPIResponse): Error {
+    const errorMessage = message.error || 'Unknown error';
+    if (typeof message.status !== 'number') {
+      return new Error(errorMessage);
+    }
+
+    return this.createHTTPError({
+      message: errorMessage,
+      status: message.status,
+      retryAfterMs: parseRetryAfter(message.retryAfter),
+      body: message.body,
+    });
+  }
+
+  /**
+   * 处理 API 响应以外的页面消息
+   * 子类可覆盖以处理平台特有的消息
+   */
+  protected handleMessage(_message: { type?: string }): void {}
+
+  /**
+   * 等待页面脚本就绪
+   */
+  protected async ensureReady(): Promise<void> {
+    if (this.isReady) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const checkReady = () => {
+        if (this.isReady) {
+          resolve();
+        } else {
+          setTimeout(checkReady, 100);
+        }
+      };
+      checkReady();
+    });
+  }
+
+  /**
+   * 通过页面脚本调用 API（Cookie 等登录态由 MAIN world 附带）
+   * @param method HTTP方法
+   * @param url API URL
+   * @param payload 请求体或请求参数
+   * @param timeout 超时时间（毫秒）
+   */
+  async callAPI<T = TResult>(method: string, url: string, payload?: TPayload, timeout = 30000): Promise<T> {
+    await this.ensureReady();
+
+    const requestId = `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+
+    return new Promise<T>((resolve, reject) => {
+      const timeoutHandle = window.setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        const timeoutError = new Error(`API request timeout: ${url}`);
+        logger.error(`API request timeout - requestId: ${requestId}`, timeoutError);
+        reject(timeoutError);
+      }, timeout);
+
+      this.pendingRequests.set(requestId, {
+        resolve: (data) => resolve(data as T),
+        reject,
+        timeout: timeoutHandle,
+      });
+
+      window.postMessage(
+        {
+          type: `${this.prefix}_API_REQUEST`,
+          requestId,
+          method,
+          url,
+          [this.payloadKey]: payload,
+        },
+        '*'
+      );
+    });
+  }
+}
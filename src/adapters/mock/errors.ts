@@ -0,0 +1,76 @@
+import type { ErrorCategory, ErrorClassification } from '../../types/error';
+import { classifyAs, classifyGenericError } from '../../core/error-taxonomy';
+
+/**
+ * 模拟网盘 API 错误类
+ * 错误码沿用 HTTP 状态码，便于在沙盒中复现真实平台的限流、冲突和服务器错误
+ */
+export class MockAPIError extends Error {
+  constructor(
+    public code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MockAPIError';
+  }
+}
+
+/**
+ * 模拟网盘错误码映射
+ */
+export const ERROR_CODES: Record<number, string> = {
+  404: '文件不存在',
+  409: '同名文件已存在',
+  429: '请求过于频繁',
+  500: '服务器内部错误',
+};
+
+/**
+ * 可以重试的错误码（限流和服务器错误）
+ */
+const RETRYABLE_CODES = new Set([429, 500]);
+
+/**
+ * 按错误码创建错误
+ * @param code 错误码
+ */
+export function createMockError(code: number): MockAPIError {
+  return new MockAPIError(code, ERROR_CODES[code] || `未知错误 (${code})`);
+}
+
+/**
+ * 判断错误是否可以重试
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof MockAPIError) {
+    return RETRYABLE_CODES.has(error.code);
+  }
+
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  // 超时错误可以重试
+  return error.name === 'AbortError' || error.message.includes('timeout');
+}
+
+/**
+ * 错误码对应的错误分类
+ */
+const ERROR_CATEGORIES: Record<number, ErrorCategory> = {
+  404: 'not_found',
+  409: 'name_conflict',
+  429: 'throttled',
+  500: 'transient',
+};
+
+/**
+ * 将错误归类（未知错误码按错误消息通用分类）
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof MockAPIError && ERROR_CATEGORIES[error.code]) {
+    return classifyAs(ERROR_CATEGORIES[error.code], error);
+  }
+
+  return classifyGenericError(error);
+}
@@ -0,0 +1,449 @@
+import { BasePlatformAdapter } from '../base/adapter.interface';
+import {
+  PlatformName,
+  FileItem,
+  RenameResult,
+  PlatformConfig,
+  RecursiveListOptions,
+  MoveResult,
+} from '../../types/platform';
+import type { MockAdapterOptions, MockFaultOptions, MockTreeNode } from '../../types/mock';
+import { parseFileName } from '../../utils/helpers';
+import { classifyError as classifyPlatformError, createMockError, isRetryableError } from './errors';
+import type { ErrorClassification } from '../../types/error';
+import { DEFAULT_MOCK_TREE } from './sample-tree';
+import { logger } from '../../utils/logger';
+
+/**
+ * 内存中的文件条目
+ */
+interface MockEntry {
+  id: string;
+  name: string;
+  parentId: string;
+  isFolder: boolean;
+  size: number;
+  mtime: number;
+  selected: boolean;
+}
+
+/**
+ * 内存模拟网盘适配器
+ *
+ * 用于在沙盒扩展页中调试规则和 UI，以及离线运行 E2E 测试：
+ * - 文件树完全保存在内存中，可随时重置
+ * - 可注入请求延迟、服务器错误、限流和同名冲突
+ * - 行为与真实平台一致：重名时拒绝、可重试错误按指数退避重试
+ */
+export class MockAdapter extends BasePlatformAdapter {
+  readonly platform: PlatformName = 'mock';
+
+  static readonly ROOT_ID = 'root';
+
+  private entries = new Map<string, MockEntry>();
+  private nextId = 1;
+  private currentDirectoryId = MockAdapter.ROOT_ID;
+  private faults: MockFaultOptions = {};
+  private random: () => number;
+  private listeners = new Set<() => void>();
+
+  constructor(options: MockAdapterOptions = {}, config?: Partial<PlatformConfig>) {
+    super({
+      platform: 'mock',
+      requestInterval: 0, // 没有真实的限流，故障由 rateLimitRate 注入
+      maxRetries: 3,
+      timeout: 30000,
+      ...config,
+    });
+
+    const { tree, random, ...faults } = options;
+    this.random = random ?? Math.random;
+    this.setFaults(faults);
+    this.reset(tree ?? DEFAULT_MOCK_TREE);
+  }
+
+  /**
+   * 更新故障注入配置（未传入的字段保持不变）
+   * @param faults 故障配置
+   */
+  setFaults(faults: MockFaultOptions): void {
+    this.faults = { ...this.faults, ...faults };
+  }
+
+  /**
+   * 获取当前的故障注入配置
+   */
+  getFaults(): MockFaultOptions {
+    return { ...this.faults };
+  }
+
+  /**
+   * 用新的文件树替换全部文件，并回到根目录
+   * @param tree 文件树
+   */
+  reset(tree: MockTreeNode[]): void {
+    this.entries.clear();
+    this.nextId = 1;
+    this.currentDirectoryId = MockAdapter.ROOT_ID;
+    this.addNodes(tree, MockAdapter.ROOT_ID, Date.now());
+    this.notifyChange();
+  }
+
+  /**
+   * 导出当前文件树（按名称排序，文件夹在前）
+   * @param parentId 起点目录 ID（默认根目录）
+   */
+  getTree(parentId = MockAdapter.ROOT_ID): MockTreeNode[] {
+    return this.childrenOf(parentId).map((entry) =>
+      entry.isFolder
+        ? { name: entry.name, mtime: entry.mtime, children: this.getTree(entry.id) }
+        : { name: entry.name, size: entry.size, mtime: entry.mtime }
+    );
+  }
+
+  /**
+   * 订阅文件变化（重命名、移动、创建文件夹、重置）
+   * @param listener 回调
+   * @returns 取消订阅函数
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getCurrentDirectoryKey(): string {
+    return this.currentDirectoryId;
+  }
+
+  /**
+   * 切换当前目录
+   * @param directoryId 目录 ID
+   */
+  setCurrentDirectory(directoryId: string): void {
+    this.currentDirectoryId = directoryId || MockAdapter.ROOT_ID;
+  }
+
+  /**
+   * 获取当前目录中标记为 selected 的文件
+   */
+  async getSelectedFiles(): Promise<FileItem[]> {
+    await this.simulateLatency();
+    return this.childrenOf(this.currentDirectoryId)
+      .filter((entry) => entry.selected)
+      .map((entry) => this.toFileItem(entry));
+  }
+
+  /**
+   * 获取目录下的全部文件和文件夹
+   *
+   * @param parentId 父目录 ID（可选，默认当前目录）
+   * @returns 完整文件列表（文件夹在前，按名称排序）
+   */
+  async getAllFiles(parentId?: string): Promise<FileItem[]> {
+    await this.simulateLatency();
+
+    const directoryId = parentId || this.currentDirectoryId;
+    this.requireFolder(directoryId);
+    return this.childrenOf(directoryId).map((entry) => this.toFileItem(entry));
+  }
+
+  /**
+   * 递归获取目录及其子目录下的所有文件
+   *
+   * @param parentId 起点目录 ID（可选，默认当前目录）
+   * @param options 深度、目录过滤、取消与进度选项
+   * @returns 完整的文件列表
+   */
+  async getAllFilesRecursive(parentId?: string, options: RecursiveListOptions = {}): Promise<FileItem[]> {
+    return this.walkDirectories(parentId || this.currentDirectoryId, options, async (directoryId) => {
+      const items = await this.getAllFiles(directoryId);
+      return {
+        files: items.filter((item) => !item.isFolder),
+        folders: items.filter((item) => item.isFolder).map((item) => ({ id: item.id, name: item.name })),
+      };
+    });
+  }
+
+  /**
+   * 重命名文件或文件夹，支持自动重试
+   *
+   * @param fileId 文件 ID
+   * @param newName 新名称
+   * @returns 重命名结果
+   */
+  async renameFile(fileId: string, newName: string): Promise<RenameResult> {
+    return this.retryableRequest(async () => {
+      await this.simulateWrite();
+
+      const entry = this.requireEntry(fileId);
+      this.assertNameAvailable(newName, entry.parentId, entry.id);
+
+      entry.name = newName;
+      entry.mtime = Date.now();
+      this.notifyChange();
+
+      return {
+        success: true,
+        newName: newName,
+      };
+    }, `重命名文件 ${fileId}`);
+  }
+
+  /**
+   * 在指定目录下创建文件夹（已存在同名文件夹时直接复用）
+   *
+   * @param name 文件夹名称
+   * @param parentId 父目录 ID
+   * @returns 文件夹 ID
+   */
+  async createFolder(name: string, parentId: string): Promise<string> {
+    this.requireFolder(parentId);
+    const existing = this.childrenOf(parentId).find((entry) => entry.isFolder && this.isSameName(entry.name, name));
+    if (existing) {
+      return existing.id;
+    }
+
+    await this.simulateWrite();
+    this.assertNameAvailable(name, parentId);
+
+    const [id] = this.addNodes([{ name, children: [] }], parentId, Date.now());
+    this.notifyChange();
+    return id;
+  }
+
+  /**
+   * 移动文件到指定目录（目标目录中有同名文件时该文件移动失败）
+   *
+   * @param fileIds 文件 ID 列表
+   * @param targetParentId 目标目录 ID
+   * @returns 移动结果（部分失败时列出失败的文件 ID）
+   */
+  async moveFiles(fileIds: string[], targetParentId: string): Promise<MoveResult> {
+    const result = await this.retryableRequest(async (): Promise<RenameResult> => {
+      await this.simulateWrite();
+      this.requireFolder(targetParentId);
+      return { success: true };
+    }, `移动文件到 ${targetParentId}`);
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    const failedIds: string[] = [];
+    let lastError: Error | undefined;
+    for (const fileId of fileIds) {
+      try {
+        const entry = this.requireEntry(fileId);
+        this.assertNameAvailable(entry.name, targetParentId, entry.id);
+        entry.parentId = targetParentId;
+      } catch (error) {
+        failedIds.push(fileId);
+        lastError = error instanceof Error ? error : new Error(String(error));
+      }
+    }
+    this.notifyChange();
+
+    if (failedIds.length === 0) {
+      return { success: true };
+    }
+    return { success: false, failedIds, error: lastError };
+  }
+
+  /**
+   * 检查文件名是否冲突（包括 conflictNames 中注入的名称）
+   *
+   * @param fileName 文件名
+   * @param parentId 父目录 ID
+   * @returns 是否存在同名文件或文件夹
+   */
+  async checkNameConflict(fileName: string, parentId: string): Promise<boolean> {
+    await this.simulateLatency();
+    return this.isNameTaken(fileName, parentId || this.currentDirectoryId);
+  }
+
+  /**
+   * 获取文件详细信息
+   *
+   * @param fileId 文件 ID
+   * @returns 文件详细信息
+   */
+  async getFileInfo(fileId: string): Promise<FileItem> {
+    await this.simulateLatency();
+    return this.toFileItem(this.requireEntry(fileId));
+  }
+
+  /**
+   * 将错误归类（按平台错误码映射）
+   * @param error 错误对象
+   */
+  classifyError(error: unknown): ErrorClassification {
+    return classifyPlatformError(error);
+  }
+
+  /**
+   * 把节点加入内存文件树
+   * @returns 新增的顶层节点 ID
+   * @private
+   */
+  private addNodes(nodes: MockTreeNode[], parentId: string, now: number): string[] {
+    return nodes.map((node) => {
+      const id = `mock-${this.nextId++}`;
+      this.entries.set(id, {
+        id,
+        name: node.name,
+        parentId,
+        isFolder: Array.isArray(node.children),
+        size: node.children ? 0 : node.size ?? 0,
+        mtime: node.mtime ?? now,
+        selected: node.selected === true,
+      });
+      if (node.children) {
+        this.addNodes(node.children, id, now);
+      }
+      return id;
+    });
+  }
+
+  /**
+   * 目录的直接子项（文件夹在前，按名称排序）
+   * @private
+   */
+  private childrenOf(parentId: string): MockEntry[] {
+    return Array.from(this.entries.values())
+      .filter((entry) => entry.parentId === parentId)
+      .sort((a, b) => Number(b.isFolder) - Number(a.isFolder) || a.name.localeCompare(b.name, undefined, { numeric: true }));
+  }
+
+  private requireEntry(fileId: string): MockEntry {
+    const entry = this.entries.get(fileId);
+    if (!entry) {
+      throw createMockError(404);
+    }
+    return entry;
+  }
+
+  private requireFolder(folderId: string): void {
+    if (folderId !== MockAdapter.ROOT_ID && !this.requireEntry(folderId).isFolder) {
+      throw createMockError(404);
+    }
+  }
+
+  private isNameTaken(name: string, parentId: string, exceptId?: string): boolean {
+    const injected = this.faults.conflictNames ?? [];
+    return (
+      injected.some((taken) => this.isSameName(taken, name)) ||
+      this.childrenOf(parentId).some((entry) => entry.id !== exceptId && this.isSameName(entry.name, name))
+    );
+  }
+
+  private assertNameAvailable(name: string, parentId: string, exceptId?: string): void {
+    if (this.isNameTaken(name, parentId, exceptId)) {
+      throw createMockError(409);
+    }
+  }
+
+  private toFileItem(entry: MockEntry): FileItem {
+    const fileItem: FileItem = {
+      id: entry.id,
+      name: entry.name,
+      ext: parseFileName(entry.name, entry.isFolder).ext,
+      parentId: entry.parentId,
+      size: entry.size,
+      mtime: entry.mtime,
+      isFolder: entry.isFolder,
+    };
+
+    if (entry.isFolder) {
+      fileItem.childCount = this.childrenOf(entry.id).length;
+    }
+
+    return fileItem;
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        logger.warn('[MockAdapter] Change listener failed:', error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+
+  /**
+   * 模拟请求延迟
+   * @private
+   */
+  private async simulateLatency(): Promise<void> {
+    const { latency = 0 } = this.faults;
+    const delay = Array.isArray(latency) ? latency[0] + this.random() * (latency[1] - latency[0]) : latency;
+    if (delay > 0) {
+      await this.sleep(delay);
+    }
+  }
+
+  /**
+   * 模拟写操作：延迟后按配置的概率返回限流或服务器错误
+   * @private
+   */
+  private async simulateWrite(): Promise<void> {
+    await this.simulateLatency();
+
+    const { rateLimitRate = 0, errorRate = 0 } = this.faults;
+    if (rateLimitRate > 0 && this.random() < rateLimitRate) {
+      throw createMockError(429);
+    }
+    if (errorRate > 0 && this.random() < errorRate) {
+      throw createMockError(500);
+    }
+  }
+
+  /**
+   * 带重试机制的请求包装器
+   * @param requestFn 请求函数
+   * @param operation 操作描述（用于日志）
+   * @returns 请求结果
+   * @private
+   */
+  private async retryableRequest<T extends RenameResult>(
+    requestFn: () => Promise<T>,
+    operation: string
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+      try {
+        return await requestFn();
+      } catch (error) {
+        lastError = error;
+
+        // 判断是否可以重试
+        if (!isRetryableError(error)) {
+          logger.error(`${operation} 失败（不可重试）:`, error instanceof Error ? error : new Error(String(error)));
+          break;
+        }
+
+        // 最后一次尝试失败，不再重试
+        if (attempt === this.config.maxRetries) {
+          logger.error(`${operation} 失败（已达最大重试次数 ${this.config.maxRetries}）:`, error instanceof Error ? error : new Error(String(error)));
+          break;
+        }
+
+        // 计算指数退避延迟
+        const backoffDelay = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
+        logger.warn(
+          `${operation} 失败（第 ${attempt}/${this.config.maxRetries} 次尝试），` +
+          `${backoffDelay}ms 后重试:`,
+          error instanceof Error ? error : new Error(String(error))
+        );
+        await this.sleep(backoffDelay);
+      }
+    }
+
+    // 所有重试都失败，返回失败结果
+    return {
+      success: false,
+      error: lastError instanceof Error ? lastError : new Error(String(lastError)),
+    } as T;
+  }
+}
@@ -0,0 +1,24 @@
+import type { MockTreeNode } from '../../types/mock';
+
+/**
+ * 沙盒默认文件树
+ * 覆盖剧集编号、大小写扩展名、中文文件名、子目录和空文件夹等常见场景
+ */
+export const DEFAULT_MOCK_TREE: MockTreeNode[] = [
+  { name: 'Show.Name.S01E01.1080p.WEB-DL.mkv', size: 1_524_000_000 },
+  { name: 'Show.Name.S01E02.1080p.WEB-DL.mkv', size: 1_498_000_000 },
+  { name: 'Show.Name.S01E03.1080p.WEB-DL.mkv', size: 1_511_000_000 },
+  { name: 'Show.Name.S01E01.1080p.WEB-DL.chs.srt', size: 48_000 },
+  { name: 'IMG_0001.JPG', size: 3_200_000 },
+  { name: 'IMG_0002.jpg', size: 2_900_000 },
+  { name: '会议纪要 2024-03-01.docx', size: 24_000 },
+  {
+    name: 'Season 2',
+    children: [
+      { name: 'Show.Name.S02E01.720p.mkv', size: 812_000_000 },
+      { name: 'Show.Name.S02E02.720p.mkv', size: 798_000_000 },
+      { name: 'Extras', children: [{ name: 'Behind the Scenes.mp4', size: 256_000_000 }] },
+    ],
+  },
+  { name: 'Empty Folder', children: [] },
+];
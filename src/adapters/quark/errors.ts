@@ -1,3 +1,7 @@
+import type { ErrorCategory, ErrorClassification } from '../../types/error';
+import { classifyAs, classifyGenericError } from '../../core/error-taxonomy';
+import type { PageScriptHTTPFailure } from '../base/page-script-injector';
+
 /**
  * 夸克 API 错误类
  */
@@ -5,7 +9,9 @@ export class QuarkAPIError extends Error {
   constructor(
     public code: number,
     message: string,
-    public response?: any
+    public response?: any,
+    public status?: number,
+    public retryAfterMs?: number
   ) {
     super(message);
     this.name = 'QuarkAPIError';
@@ -35,6 +41,17 @@ export function getErrorMessage(code: number, defaultMessage?: string): string {
   return ERROR_CODES[code] || defaultMessage || '未知错误';
 }
 
+/**
+ * 由页面脚本报告的非 2xx 响应构造错误（保留 HTTP 状态与 Retry-After 供错误分类使用）
+ * 响应体没有业务错误码时以 HTTP 状态码作为错误码
+ */
+export function fromHTTPFailure(failure: PageScriptHTTPFailure): QuarkAPIError {
+  const body = failure.body as { code?: unknown; message?: string } | undefined;
+  const code = typeof body?.code === 'number' && body.code !== 0 ? body.code : failure.status;
+  const message = getErrorMessage(code, body?.message || failure.message);
+  return new QuarkAPIError(code, message, failure.body, failure.status, failure.retryAfterMs);
+}
+
 /**
  * 判断错误是否可以重试
  */
@@ -56,3 +73,29 @@ export function isRetryableError(error: any): boolean {
 
   return false;
 }
+
+/**
+ * 错误码对应的错误分类
+ */
+const ERROR_CATEGORIES: Record<number, ErrorCategory> = {
+  401: 'auth_expired',
+  403: 'fatal',
+  404: 'not_found',
+  409: 'name_conflict',
+  429: 'throttled',
+  500: 'transient',
+  1001: 'fatal',
+  1002: 'invalid_name',
+  1003: 'name_conflict',
+};
+
+/**
+ * 将错误归类（未知错误码按错误消息通用分类）
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof QuarkAPIError && ERROR_CATEGORIES[error.code]) {
+    return classifyAs(ERROR_CATEGORIES[error.code], error);
+  }
+
+  return classifyGenericError(error);
+}
@@ -5,6 +5,7 @@
  * 通信协议:
  * Content Script -> Page Script: { type: 'QUARK_API_REQUEST', requestId, method, url, body }
  * Page Script -> Content Script: { type: 'QUARK_API_RESPONSE', requestId, success, data/error }
+ *   非 2xx 响应额外携带 status、retryAfter（Retry-After 头）和解析后的响应体
  */
 
 // Make this file a module to allow global augmentation
@@ -24,6 +25,21 @@ interface APIResponse {
   success: boolean;
   data?: any;
   error?: string;
+  /** 仅非 2xx 响应时携带 */
+  status?: number;
+  retryAfter?: string | null;
+  body?: unknown;
+}
+
+/**
+ * 将响应体解析为 JSON（非 JSON 时返回 undefined）
+ */
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
 }
 
 // 监听来自 content script 的消息
@@ -84,6 +100,22 @@ window.addEventListener('message', async (event) => {
     xhr.withCredentials = true;  // 重要：携带 cookies
 
     xhr.onload = function() {
+      // HTTP 错误：带上状态码、Retry-After 和响应体，供适配器分类
+      if (xhr.status < 200 || xhr.status >= 300) {
+        const errorResponse: APIResponse = {
+          type: 'QUARK_API_RESPONSE',
+          requestId: message.requestId,
+          success: false,
+          error: `HTTP ${xhr.status}`,
+          status: xhr.status,
+          retryAfter: xhr.getResponseHeader('Retry-After'),
+          body: parseBody(xhr.responseText),
+        };
+
+        window.postMessage(errorResponse, '*');
+        return;
+      }
+
       try {
         const result = JSON.parse(xhr.responseText);
 
@@ -5,11 +5,15 @@ import {
   RenameResult,
   PlatformConfig,
   PageSyncResult,
+  RecursiveListOptions,
+  MoveResult,
 } from '../../types/platform';
 import { parseFileName } from '../../utils/helpers';
-import { QuarkAPIError, getErrorMessage, isRetryableError } from './errors';
+import { QuarkAPIError, classifyError as classifyPlatformError, getErrorMessage, isRetryableError } from './errors';
+import type { ErrorClassification } from '../../types/error';
 import { getPageScriptInjector } from './page-script-injector';
 import { logger } from '../../utils/logger';
+import { wrapError } from '../../core/error-taxonomy';
 
 /**
  * 夸克网盘 API 响应格式
@@ -38,6 +42,8 @@ interface QuarkFileData {
   updated_at: number;
   dir: boolean;
   file: boolean;
+  /** 文件夹内的子项数量（仅文件夹返回） */
+  include_items?: number;
 }
 
 /**
@@ -55,9 +61,14 @@ export class QuarkAdapter extends BasePlatformAdapter {
   private static readonly FALLBACK_FILE_ICON_BG =
     'url("data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSIyNCIgaGVpZ2h0PSIyNCIgdmlld0JveD0iMCAwIDI0IDI0IiBmaWxsPSJub25lIiBzdHJva2U9IiM1OTU5NTkiIHN0cm9rZS13aWR0aD0iMiIgc3Ryb2tlLWxpbmVjYXA9InJvdW5kIiBzdHJva2UtbGluZWpvaW49InJvdW5kIj48cGF0aCBkPSJNMTQgMkg2YTIgMiAwIDAgMC0yIDJ2MTZhMiAyIDAgMCAwIDIgMmgxMmEyIDIgMCAwIDAgMi0yVjh6Ii8+PHBvbHlsaW5lIHBvaW50cz0iMTQgMiAxNCA4IDIwIDgiLz48L3N2Zz4=")';
 
+  /** 异步任务（移动）的最大轮询次数和间隔 */
+  private static readonly MAX_TASK_POLL_ATTEMPTS = 30;
+  private static readonly TASK_POLL_INTERVAL = 500;
+
   private baseURL = 'https://drive-pc.quark.cn/1/clouddrive';
-  private lastRequestTime = 0;
   private iconBackgroundByExt = new Map<string, string>();
+  /** 递归加载到的子目录文件及整理模式移动过的文件：fid -> 所在目录 fid（重命名时作为 pdir_fid） */
+  private subfolderParentIds = new Map<string, string>();
 
   constructor(config?: Partial<PlatformConfig>) {
     super({
@@ -65,6 +76,9 @@ export class QuarkAdapter extends BasePlatformAdapter {
       requestInterval: 800, // 夸克网盘推荐间隔
       maxRetries: 3,
       timeout: 30000,
+      caseSensitive: false, // 同目录下仅大小写不同视为重名
+      caseOnlyRename: false, // 仅修改大小写会被当作重名拒绝，需经临时名中转
+      maxNameLength: 255, // 文件名不能超过 255 个字符
       ...config,
     });
   }
@@ -100,15 +114,9 @@ export class QuarkAdapter extends BasePlatformAdapter {
         const sizeAttr = row.getAttribute('data-size');
         const mtimeAttr = row.getAttribute('data-mtime');
 
-        // 过滤掉文件夹（只处理文件）
-        const isDir = row.classList.contains('is-directory') ||
-                      row.getAttribute('data-is-dir') === 'true';
-
-        if (isDir) {
-          continue;
-        }
-
-        const { ext } = parseFileName(fileName);
+        // 文件夹同样可重命名（名称不拆分扩展名）
+        const isFolder = this.isFolderRow(row);
+        const { ext } = parseFileName(fileName, isFolder);
 
         files.push({
           id: fileId,
@@ -117,6 +125,7 @@ export class QuarkAdapter extends BasePlatformAdapter {
           parentId: parentId,
           size: sizeAttr ? parseInt(sizeAttr, 10) : 0,
           mtime: mtimeAttr ? parseInt(mtimeAttr, 10) : Date.now(),
+          isFolder,
         });
       }
 
@@ -139,67 +148,130 @@ export class QuarkAdapter extends BasePlatformAdapter {
     try {
       logger.info('[QuarkAdapter] Fetching all files from API');
 
-      const targetParentId = parentId || this.getCurrentFolderId();
-      const allFiles: FileItem[] = [];
-      let page = 1;
-      const pageSize = 100;
-      let hasMore = true;
-
-      // Paginate through all files
-      while (hasMore) {
-        await this.rateLimit();
-
-        const url = new URL(`${this.baseURL}/file/sort`);
-        url.searchParams.set('pr', 'ucpro');
-        url.searchParams.set('fr', 'pc');
-        url.searchParams.set('pdir_fid', targetParentId);
-        url.searchParams.set('_page', page.toString());
-        url.searchParams.set('_size', pageSize.toString());
-        url.searchParams.set('_fetch_total', '1');
-
-        const response = await this.fetchWithTimeout(url.toString(), {
-          method: 'GET',
-          credentials: 'include',
-        });
+      // Include both files and folders (folders have empty extension)
+      const allFiles = (await this.fetchDirectoryItems(parentId || this.getCurrentFolderId())).map((item) =>
+        this.toFileItem(item)
+      );
 
-        const result: QuarkAPIResponse<{ list: QuarkFileData[] }> = await response.json();
+      logger.info(`[QuarkAdapter] Successfully fetched ${allFiles.length} files`);
+      return allFiles;
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      logger.error('Failed to get all files:', errorObj);
+      throw wrapError(`获取文件列表失败: ${errorObj.message}`, error);
+    }
+  }
 
-        if (result.code !== 0 || !result.data?.list) {
-          const errorMsg = getErrorMessage(result.code, result.message);
-          throw new QuarkAPIError(result.code, errorMsg, result);
-        }
+  /**
+   * 递归获取目录及其子目录下的所有文件（按 pdir_fid 逐层遍历）
+   *
+   * @param parentId 起点目录 ID（可选，默认当前目录）
+   * @param options 深度、目录过滤、取消与进度选项
+   * @returns 文件列表（不含文件夹）
+   */
+  async getAllFilesRecursive(parentId?: string, options: RecursiveListOptions = {}): Promise<FileItem[]> {
+    try {
+      logger.info('[QuarkAdapter] Fetching files recursively from API');
 
-        const pageFiles = result.data.list;
-
-        // Include both files and folders (folders have empty extension)
-        const files = pageFiles.map((item): FileItem => {
-          const ext = item.file ? parseFileName(item.file_name).ext : '';
-          return {
-            id: item.fid,
-            name: item.file_name,
-            ext,
-            parentId: item.pdir_fid,
-            size: item.size,
-            mtime: item.updated_at,
-          };
-        });
+      const files = await this.walkDirectories(parentId || this.getCurrentFolderId(), options, async (directoryId) => {
+        const items = await this.fetchDirectoryItems(directoryId);
+        return {
+          files: items.filter((item) => item.file).map((item) => this.toFileItem(item)),
+          folders: items.filter((item) => !item.file).map((item) => ({ id: item.fid, name: item.file_name })),
+        };
+      });
+
+      this.subfolderParentIds = new Map(
+        files.filter((file) => file.relativePath).map((file) => [file.id, file.parentId])
+      );
+
+      logger.info(`[QuarkAdapter] Successfully fetched ${files.length} files recursively`);
+      return files;
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      if (errorObj.name === 'AbortError') {
+        throw errorObj;
+      }
+      logger.error('Failed to get files recursively:', errorObj);
+      throw wrapError(`获取文件列表失败: ${errorObj.message}`, error);
+    }
+  }
+
+  /**
+   * 分页获取目录下的全部条目（文件和文件夹）
+   * @private
+   */
+  private async fetchDirectoryItems(parentId: string): Promise<QuarkFileData[]> {
+    const items: QuarkFileData[] = [];
+    let page = 1;
+    const pageSize = 100;
+    let hasMore = true;
+
+    // Paginate through all files
+    while (hasMore) {
+      await this.rateLimit();
+
+      const url = new URL(`${this.baseURL}/file/sort`);
+      url.searchParams.set('pr', 'ucpro');
+      url.searchParams.set('fr', 'pc');
+      url.searchParams.set('pdir_fid', parentId);
+      url.searchParams.set('_page', page.toString());
+      url.searchParams.set('_size', pageSize.toString());
+      url.searchParams.set('_fetch_total', '1');
 
-        allFiles.push(...files);
+      const response = await this.fetchWithTimeout(url.toString(), {
+        method: 'GET',
+        credentials: 'include',
+      });
 
-        // Check if there are more pages
-        hasMore = pageFiles.length === pageSize;
-        page++;
+      const result: QuarkAPIResponse<{ list: QuarkFileData[] }> = await response.json();
 
-        logger.debug(`[QuarkAdapter] Fetched page ${page - 1} with ${files.length} files`);
+      if (result.code !== 0 || !result.data?.list) {
+        const errorMsg = getErrorMessage(result.code, result.message);
+        throw new QuarkAPIError(result.code, errorMsg, result);
       }
 
-      logger.info(`[QuarkAdapter] Successfully fetched ${allFiles.length} files`);
-      return allFiles;
-    } catch (error) {
-      const errorObj = error instanceof Error ? error : new Error(String(error));
-      logger.error('Failed to get all files:', errorObj);
-      throw new Error(`获取文件列表失败: ${errorObj.message}`);
+      const pageFiles = result.data.list;
+      items.push(...pageFiles);
+
+      // Check if there are more pages
+      hasMore = pageFiles.length === pageSize;
+      page++;
+
+      logger.debug(`[QuarkAdapter] Fetched page ${page - 1} with ${pageFiles.length} files`);
     }
+
+    return items;
+  }
+
+  /**
+   * 转换为 FileItem（文件夹扩展名为空）
+   * @private
+   */
+  private toFileItem(item: QuarkFileData): FileItem {
+    const fileItem: FileItem = {
+      id: item.fid,
+      name: item.file_name,
+      ext: parseFileName(item.file_name, !item.file).ext,
+      parentId: item.pdir_fid,
+      size: item.size,
+      mtime: item.updated_at,
+      isFolder: !item.file,
+    };
+
+    if (!item.file && typeof item.include_items === 'number') {
+      fileItem.childCount = item.include_items;
+    }
+
+    return fileItem;
+  }
+
+  /**
+   * 判断 DOM 中的文件行是否为文件夹
+   * @private
+   */
+  private isFolderRow(row: Element): boolean {
+    return row.classList.contains('is-directory') || row.getAttribute('data-is-dir') === 'true';
   }
 
   /**
@@ -215,8 +287,8 @@ export class QuarkAdapter extends BasePlatformAdapter {
       // 执行速率限制
       await this.rateLimit();
 
-      // 获取父目录 ID（可能是必需参数）
-      const parentId = this.getCurrentFolderId();
+      // 获取父目录 ID（可能是必需参数；子目录中的文件使用其实际所在目录）
+      const parentId = this.subfolderParentIds.get(fileId) ?? this.getCurrentFolderId();
 
       // 使用页面脚本注入器调用API（解决Cookie认证问题）
       const injector = getPageScriptInjector();
@@ -249,6 +321,121 @@ export class QuarkAdapter extends BasePlatformAdapter {
     }, `重命名文件 ${fileId}`);
   }
 
+  /**
+   * 在指定目录下创建文件夹（已存在同名文件夹时直接复用）
+   *
+   * @param name 文件夹名称
+   * @param parentId 父目录 ID (pdir_fid)
+   * @returns 文件夹 fid
+   */
+  async createFolder(name: string, parentId: string): Promise<string> {
+    const existing = (await this.fetchDirectoryItems(parentId)).find(
+      (item) => !item.file && this.isSameName(item.file_name, name)
+    );
+    if (existing) {
+      return existing.fid;
+    }
+
+    await this.rateLimit();
+
+    const injector = getPageScriptInjector();
+    const result: QuarkAPIResponse<{ fid: string }> = await injector.callAPI(
+      'POST',
+      `${this.baseURL}/file`,
+      {
+        pdir_fid: parentId,
+        file_name: name,
+        dir_path: '',
+        dir_init_lock: false,
+      },
+      this.config.timeout
+    );
+
+    if (result.code !== 0 || !result.data?.fid) {
+      const errorMsg = getErrorMessage(result.code, result.message);
+      throw new QuarkAPIError(result.code, errorMsg, result);
+    }
+
+    return result.data.fid;
+  }
+
+  /**
+   * 移动文件到指定目录
+   * 夸克的移动接口为异步任务，提交后轮询任务状态直到完成
+   *
+   * @param fileIds 文件 fid 列表
+   * @param targetParentId 目标目录 fid
+   * @returns 移动结果（整批成功或整批失败）
+   */
+  async moveFiles(fileIds: string[], targetParentId: string): Promise<MoveResult> {
+    return this.retryableRequest(async () => {
+      await this.rateLimit();
+
+      const injector = getPageScriptInjector();
+      const result: QuarkAPIResponse<{ task_id?: string }> = await injector.callAPI(
+        'POST',
+        `${this.baseURL}/file/move`,
+        {
+          action_type: 1,
+          to_pdir_fid: targetParentId,
+          filelist: fileIds,
+          exclude_fids: [],
+        },
+        this.config.timeout
+      );
+
+      if (result.code !== 0) {
+        const errorMsg = getErrorMessage(result.code, result.message);
+        throw new QuarkAPIError(result.code, errorMsg, result);
+      }
+
+      if (result.data?.task_id) {
+        await this.waitForTask(result.data.task_id);
+      }
+
+      // 移动后的文件按新目录重命名
+      fileIds.forEach((fileId) => this.subfolderParentIds.set(fileId, targetParentId));
+      return { success: true };
+    }, `移动文件到 ${targetParentId}`);
+  }
+
+  /**
+   * 轮询异步任务直到完成（status 为 2）
+   * @param taskId 任务 ID
+   * @private
+   */
+  private async waitForTask(taskId: string): Promise<void> {
+    for (let attempt = 0; attempt < QuarkAdapter.MAX_TASK_POLL_ATTEMPTS; attempt++) {
+      await this.sleep(QuarkAdapter.TASK_POLL_INTERVAL);
+      await this.rateLimit();
+
+      const url = new URL(`${this.baseURL}/task`);
+      url.searchParams.set('pr', 'ucpro');
+      url.searchParams.set('fr', 'pc');
+      url.searchParams.set('task_id', taskId);
+      url.searchParams.set('retry_index', attempt.toString());
+
+      const injector = getPageScriptInjector();
+      const result: QuarkAPIResponse<{ status: number }> = await injector.callAPI(
+        'GET',
+        url.toString(),
+        undefined,
+        this.config.timeout
+      );
+
+      if (result.code !== 0) {
+        const errorMsg = getErrorMessage(result.code, result.message);
+        throw new QuarkAPIError(result.code, errorMsg, result);
+      }
+
+      if (result.data?.status === 2) {
+        return;
+      }
+    }
+
+    throw new Error(`任务 ${taskId} 超时`);
+  }
+
   /**
    * 同步页面文件列表，避免用户必须刷新才能看到新文件名
    * - 优先尝试触发夸克页面自身的刷新（若可找到刷新按钮）
@@ -986,7 +1173,7 @@ export class QuarkAdapter extends BasePlatformAdapter {
 
       if (result.code === 0 && result.data?.list) {
         // 检查是否存在同名文件
-        return result.data.list.some(file => file.file_name === fileName);
+        return result.data.list.some(file => this.isSameName(file.file_name, fileName));
       }
 
       return false;
@@ -1023,7 +1210,8 @@ export class QuarkAdapter extends BasePlatformAdapter {
       const parentId = this.getCurrentFolderId();
       const sizeAttr = row.getAttribute('data-size');
       const mtimeAttr = row.getAttribute('data-mtime');
-      const { ext } = parseFileName(fileName);
+      const isFolder = this.isFolderRow(row);
+      const { ext } = parseFileName(fileName, isFolder);
 
       return {
         id: fileId,
@@ -1032,10 +1220,11 @@ export class QuarkAdapter extends BasePlatformAdapter {
         parentId: parentId,
         size: sizeAttr ? parseInt(sizeAttr, 10) : 0,
         mtime: mtimeAttr ? parseInt(mtimeAttr, 10) : Date.now(),
+        isFolder,
       };
     } catch (error) {
       logger.error(`Failed to get file info for ${fileId}:`, error instanceof Error ? error : new Error(String(error)));
-      throw new Error(`获取文件信息失败: ${error instanceof Error ? error.message : String(error)}`);
+      throw wrapError(`获取文件信息失败: ${error instanceof Error ? error.message : String(error)}`, error);
     }
   }
 
@@ -1097,20 +1286,11 @@ export class QuarkAdapter extends BasePlatformAdapter {
   }
 
   /**
-   * 速率限制
-   * 确保请求间隔不小于配置的 requestInterval
-   * @private
+   * 将错误归类（按平台错误码映射）
+   * @param error 错误对象
    */
-  private async rateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-
-    if (timeSinceLastRequest < this.config.requestInterval) {
-      const delay = this.config.requestInterval - timeSinceLastRequest;
-      await this.sleep(delay);
-    }
-
-    this.lastRequestTime = Date.now();
+  classifyError(error: unknown): ErrorClassification {
+    return classifyPlatformError(error);
   }
 
   /**
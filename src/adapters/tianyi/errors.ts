@@ -0,0 +1,113 @@
+import type { ErrorCategory, ErrorClassification } from '../../types/error';
+import { classifyAs, classifyGenericError } from '../../core/error-taxonomy';
+import type { PageScriptHTTPFailure } from '../base/page-script-injector';
+
+/**
+ * 天翼云盘 API 错误类
+ * res_code 为 0 表示成功，失败时多为字符串错误码（如 FileAlreadyExists）
+ */
+export class TianyiAPIError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public response?: unknown,
+    public status?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'TianyiAPIError';
+  }
+}
+
+/**
+ * 天翼云盘 API 错误码映射
+ * 根据 /api/open 接口的实际响应整理
+ */
+export const ERROR_CODES: Record<string, string> = {
+  InvalidSessionKey: '登录已过期，请重新登录',
+  InvalidAccessToken: '访问令牌无效，请刷新页面后重试',
+  InvalidSignature: '请求签名校验失败',
+  InvalidArgument: '参数错误',
+  FileNotFound: '文件不存在',
+  FolderNotFound: '文件夹不存在',
+  FileAlreadyExists: '同名文件已存在',
+  FolderAlreadyExists: '同名文件夹已存在',
+  InvalidFileName: '文件名包含非法字符',
+  FileNameTooLong: '文件名过长',
+  ServerBusy: '服务器繁忙，请稍后再试',
+  TooManyRequests: '请求过于频繁',
+};
+
+/**
+ * 可以重试的错误码（限流和服务器繁忙）
+ */
+const RETRYABLE_CODES = new Set(['ServerBusy', 'TooManyRequests']);
+
+/**
+ * 获取友好的错误消息
+ */
+export function getErrorMessage(code: string, defaultMessage?: string): string {
+  return ERROR_CODES[code] || defaultMessage || `未知错误 (${code})`;
+}
+
+/**
+ * 由页面脚本报告的非 2xx 响应构造错误（保留 HTTP 状态与 Retry-After 供错误分类使用）
+ */
+export function fromHTTPFailure(failure: PageScriptHTTPFailure): TianyiAPIError {
+  const body = failure.body as
+    | { res_code?: unknown; res_message?: string; errorCode?: string; errorMsg?: string }
+    | undefined;
+  const code = body?.errorCode ?? (body?.res_code ? String(body.res_code) : '');
+  const message = code ? getErrorMessage(code, body?.res_message ?? body?.errorMsg) : failure.message;
+  return new TianyiAPIError(code, message, failure.body, failure.status, failure.retryAfterMs);
+}
+
+/**
+ * 判断错误是否可以重试
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof TianyiAPIError) {
+    return RETRYABLE_CODES.has(error.code);
+  }
+
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  // 超时错误可以重试
+  if (error.name === 'AbortError' || error.message.includes('timeout')) {
+    return true;
+  }
+
+  // 页面脚本报告的网络错误可以重试
+  return error.message === 'Network error';
+}
+
+/**
+ * 错误码对应的错误分类
+ */
+const ERROR_CATEGORIES: Record<string, ErrorCategory> = {
+  InvalidSessionKey: 'auth_expired',
+  InvalidAccessToken: 'auth_expired',
+  InvalidSignature: 'fatal',
+  InvalidArgument: 'fatal',
+  FileNotFound: 'not_found',
+  FolderNotFound: 'not_found',
+  FileAlreadyExists: 'name_conflict',
+  FolderAlreadyExists: 'name_conflict',
+  InvalidFileName: 'invalid_name',
+  FileNameTooLong: 'invalid_name',
+  ServerBusy: 'transient',
+  TooManyRequests: 'throttled',
+};
+
+/**
+ * 将错误归类（未知错误码按错误消息通用分类）
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof TianyiAPIError && ERROR_CATEGORIES[error.code]) {
+    return classifyAs(ERROR_CATEGORIES[error.code], error);
+  }
+
+  return classifyGenericError(error);
+}
@@ -0,0 +1,26 @@
+/**
+ * Page Script Injector for Tianyi Cloud
+ * Communicates with MAIN world page-script.ts (the page script signs the request)
+ */
+
+import { PageScriptInjector } from '../base/page-script-injector';
+import { fromHTTPFailure } from './errors';
+
+/**
+ * Query (GET) or form (POST) parameters; all of them are covered by the signature
+ */
+export type TianyiRequestParams = Record<string, string | number>;
+
+let instance: PageScriptInjector<TianyiRequestParams> | null = null;
+
+export function getPageScriptInjector(): PageScriptInjector<TianyiRequestParams> {
+  if (!instance) {
+    instance = new PageScriptInjector<TianyiRequestParams>({
+      prefix: 'TIANYI',
+      datasetKey: 'tianyi',
+      payloadKey: 'params',
+      createHTTPError: fromHTTPFailure,
+    });
+  }
+  return instance;
+}
@@ -0,0 +1,251 @@
+/**
+ * Page Script for Tianyi Cloud - Runs in MAIN world
+ * Signs and sends /api/open requests with the logged-in web session
+ *
+ * Signing flow:
+ * 1. getUserBriefInfo.action (cookie) -> sessionKey
+ * 2. getAccessTokenBySsKey.action (signed with AppKey) -> accessToken, cached until rejected
+ * 3. Every API call carries AccessToken / Timestamp / Signature headers
+ *
+ * Communication Protocol:
+ * Content Script -> Page Script: { type: 'TIANYI_API_REQUEST', requestId, method, url, params }
+ * Page Script -> Content Script: { type: 'TIANYI_API_RESPONSE', requestId, success, data/error }
+ *   Non-2xx responses also carry status, retryAfter (Retry-After header) and the parsed body
+ */
+
+import { buildSignature, TIANYI_WEB_APP_KEY } from './signature';
+
+type RequestParams = Record<string, string | number>;
+
+interface APIRequest {
+  type: 'TIANYI_API_REQUEST';
+  requestId: string;
+  method: string;
+  url: string;
+  params?: RequestParams;
+}
+
+interface APIResponse {
+  type: 'TIANYI_API_RESPONSE';
+  requestId: string;
+  success: boolean;
+  data?: unknown;
+  error?: string;
+  /** Set for non-2xx responses */
+  status?: number;
+  retryAfter?: string | null;
+  body?: unknown;
+}
+
+interface TianyiResult {
+  res_code?: number | string;
+  errorCode?: string;
+  sessionKey?: string;
+  accessToken?: string;
+}
+
+const ORIGIN = 'https://cloud.189.cn';
+/** Codes after which a fresh access token is fetched and the request is sent once more */
+const TOKEN_ERRORS = new Set(['InvalidAccessToken', 'InvalidSessionKey', 'InvalidSignature']);
+
+let cachedAccessToken: string | null = null;
+
+/**
+ * Non-2xx response, kept whole so the content script can classify it
+ */
+class HTTPError extends Error {
+  constructor(
+    public status: number,
+    public retryAfter: string | null,
+    public body: TianyiResult | undefined
+  ) {
+    super(`HTTP ${status}`);
+  }
+}
+
+function postResponse(response: APIResponse): void {
+  window.postMessage(response, '*');
+}
+
+function withQuery(url: string, params: RequestParams): string {
+  const target = new URL(url, ORIGIN);
+  for (const [key, value] of Object.entries(params)) {
+    target.searchParams.set(key, String(value));
+  }
+  return target.toString();
+}
+
+function sendXHR(method: string, url: string, headers: Record<string, string>, body?: string): Promise<TianyiResult> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url, true);
+    xhr.setRequestHeader('Accept', 'application/json;charset=UTF-8');
+    for (const [key, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(key, value);
+    }
+    if (body !== undefined) {
+      xhr.setRequestHeader('Content-Type', 'application/x-www-form-urlencoded');
+    }
+    xhr.withCredentials = true;
+
+    xhr.onload = () => {
+      let result: TianyiResult | undefined;
+      try {
+        result = JSON.parse(xhr.responseText) as TianyiResult;
+      } catch {
+        result = undefined;
+      }
+
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new HTTPError(xhr.status, xhr.getResponseHeader('Retry-After'), result));
+      } else if (result === undefined) {
+        reject(new Error('Failed to parse response JSON'));
+      } else {
+        resolve(result);
+      }
+    };
+    xhr.onerror = () => reject(new Error('Network error'));
+    xhr.send(body);
+  });
+}
+
+async function getAccessToken(forceRefresh: boolean): Promise<string> {
+  if (cachedAccessToken && !forceRefresh) {
+    return cachedAccessToken;
+  }
+
+  const brief = await sendXHR('GET', withQuery('/api/portal/v2/getUserBriefInfo.action', { noCache: Math.random() }), {});
+  if (!brief.sessionKey) {
+    throw new Error('InvalidSessionKey');
+  }
+
+  const timestamp = Date.now();
+  const params = { sessionKey: brief.sessionKey };
+  const result = await sendXHR('GET', withQuery('/api/open/oauth2/getAccessTokenBySsKey.action', params), {
+    AppKey: TIANYI_WEB_APP_KEY,
+    Timestamp: String(timestamp),
+    Signature: buildSignature({ AppKey: TIANYI_WEB_APP_KEY }, timestamp, params),
+    'Sign-Type': '1',
+  });
+  if (!result.accessToken) {
+    throw new Error('InvalidAccessToken');
+  }
+
+  cachedAccessToken = result.accessToken;
+  return cachedAccessToken;
+}
+
+async function sendSigned(method: string, url: string, params: RequestParams, accessToken: string): Promise<TianyiResult> {
+  const timestamp = Date.now();
+  const headers = {
+    AccessToken: accessToken,
+    Timestamp: String(timestamp),
+    Signature: buildSignature({ AccessToken: accessToken }, timestamp, params),
+    'Sign-Type': '1',
+  };
+
+  if (method === 'GET') {
+    return sendXHR(method, withQuery(url, params), headers);
+  }
+
+  const form = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    form.append(key, String(value));
+  }
+  return sendXHR(method, new URL(url, ORIGIN).toString(), headers, form.toString());
+}
+
+function isTokenError(result: TianyiResult | undefined): boolean {
+  return TOKEN_ERRORS.has(String(result?.errorCode ?? result?.res_code ?? ''));
+}
+
+async function signedRequest(method: string, url: string, params: RequestParams): Promise<TianyiResult> {
+  try {
+    const result = await sendSigned(method, url, params, await getAccessToken(false));
+    if (!isTokenError(result)) {
+      return result;
+    }
+  } catch (error) {
+    if (!(error instanceof HTTPError && isTokenError(error.body))) {
+      throw error;
+    }
+  }
+
+  // Token expired or revoked: exchange the session key again and retry once
+  return sendSigned(method, url, params, await getAccessToken(true));
+}
+
+// Listen for messages from content script
+window.addEventListener('message', async (event) => {
+  // Only process messages from same window
+  if (event.source !== window) return;
+
+  const message = event.data as APIRequest;
+
+  // Only handle Tianyi API requests
+  if (message?.type !== 'TIANYI_API_REQUEST') return;
+
+  try {
+    const data = await signedRequest(message.method, message.url, message.params ?? {});
+    postResponse({
+      type: 'TIANYI_API_RESPONSE',
+      requestId: message.requestId,
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('[CDR] [TianyiPageScript] API request failed:', message.requestId, error);
+    postResponse({
+      type: 'TIANYI_API_RESPONSE',
+      requestId: message.requestId,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      ...(error instanceof HTTPError
+        ? { status: error.status, retryAfter: error.retryAfter, body: error.body }
+        : {}),
+    });
+  }
+});
+
+/**
+ * Type-safe flag structure
+ */
+interface PageScriptReadyFlag {
+  ready: boolean;
+  timestamp: number;
+}
+
+declare global {
+  interface Window {
+    __TIANYI_PAGE_SCRIPT_READY__?: PageScriptReadyFlag;
+    __TIANYI_PAGE_SCRIPT_LOADED__?: boolean;
+  }
+}
+
+/**
+ * Mark page script as loaded and ready
+ * Uses DOM dataset for cross-world communication
+ */
+window.__TIANYI_PAGE_SCRIPT_LOADED__ = true;
+const flagTimestamp = Date.now();
+window.__TIANYI_PAGE_SCRIPT_READY__ = {
+  ready: true,
+  timestamp: flagTimestamp
+};
+
+// Set DOM-based flag (PRIMARY method for cross-world communication)
+if (document.body) {
+  document.body.dataset.tianyiPageScriptReady = 'true';
+  document.body.dataset.tianyiPageScriptTimestamp = flagTimestamp.toString();
+} else {
+  // Timing issue - wait for DOMContentLoaded
+  console.warn('[CDR] [TianyiPageScript] document.body not available, using DOMContentLoaded');
+  document.addEventListener('DOMContentLoaded', () => {
+    const deferredTimestamp = Date.now();
+    document.body.dataset.tianyiPageScriptReady = 'true';
+    document.body.dataset.tianyiPageScriptTimestamp = deferredTimestamp.toString();
+  }, { once: true });
+}
+
+// Send postMessage event for real-time notification
+window.postMessage({ type: 'TIANYI_PAGE_SCRIPT_READY' }, '*');
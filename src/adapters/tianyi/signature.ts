@@ -0,0 +1,103 @@
+/**
+ * Request signing for the Tianyi Cloud web API
+ * Shared by the MAIN world page script (which signs requests) and unit tests
+ *
+ * Signature = md5("AccessToken=<token>&Timestamp=<ms>&<params sorted by key>")
+ * The access-token exchange is signed the same way with AppKey instead of AccessToken.
+ */
+
+/** AppKey used by the cloud.189.cn web client */
+export const TIANYI_WEB_APP_KEY = '600100422';
+
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+const CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+/**
+ * MD5 digest of a UTF-8 string as lowercase hex
+ */
+export function md5(input: string): string {
+  const bytes = new TextEncoder().encode(input);
+  const paddedLength = (((bytes.length + 8) >>> 6) + 1) << 6;
+  const buffer = new Uint8Array(paddedLength);
+  buffer.set(bytes);
+  buffer[bytes.length] = 0x80;
+
+  const view = new DataView(buffer.buffer);
+  const bitLength = bytes.length * 8;
+  view.setUint32(paddedLength - 8, bitLength >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(bitLength / 2 ** 32), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const sum = (a + f + CONSTANTS[i] + view.getUint32(offset + g * 4, true)) >>> 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) >>> 0;
+    }
+
+    a0 = (a0 + a) >>> 0;
+    b0 = (b0 + b) >>> 0;
+    c0 = (c0 + c) >>> 0;
+    d0 = (d0 + d) >>> 0;
+  }
+
+  return [a0, b0, c0, d0]
+    .map((word) => Array.from({ length: 4 }, (_, i) => ((word >>> (i * 8)) & 0xff).toString(16).padStart(2, '0')).join(''))
+    .join('');
+}
+
+/**
+ * Sign a request
+ * @param credential Either { AccessToken } for API calls or { AppKey } for the token exchange
+ * @param timestamp Milliseconds, also sent as the Timestamp header
+ * @param params Query or form parameters of the request
+ */
+export function buildSignature(
+  credential: { AccessToken: string } | { AppKey: string },
+  timestamp: number,
+  params: Record<string, string | number> = {}
+): string {
+  const signed = Object.entries(params)
+    .map(([key, value]) => [key, String(value)] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  const parts = [
+    ...Object.entries(credential).map(([key, value]) => `${key}=${value}`),
+    `Timestamp=${timestamp}`,
+    ...signed.map(([key, value]) => `${key}=${value}`),
+  ];
+  return md5(parts.join('&'));
+}
@@ -0,0 +1,504 @@
+import { BasePlatformAdapter } from '../base/adapter.interface';
+import { PlatformName, FileItem, RenameResult, PlatformConfig, PageSyncResult } from '../../types/platform';
+import { parseFileName } from '../../utils/helpers';
+import { TianyiAPIError, classifyError as classifyPlatformError, getErrorMessage, isRetryableError } from './errors';
+import type { ErrorClassification } from '../../types/error';
+import { getPageScriptInjector, TianyiRequestParams } from './page-script-injector';
+import { logger } from '../../utils/logger';
+import { wrapError } from '../../core/error-taxonomy';
+
+/**
+ * 天翼云盘 API 响应格式（业务字段与 res_code 平铺在同一层）
+ */
+interface TianyiAPIResponse {
+  res_code?: number | string;
+  res_message?: string;
+  errorCode?: string;
+  errorMsg?: string;
+}
+
+/**
+ * 天翼云盘文件 / 文件夹条目
+ */
+interface TianyiFileData {
+  id: number | string;
+  name: string;
+  size?: number;
+  /** 北京时间，格式 "2024-01-01 10:00:00" */
+  lastOpTime?: string;
+  parentId?: number | string;
+  /** 文件夹内的文件数量（仅文件夹返回） */
+  fileCount?: number;
+}
+
+/**
+ * listFiles.action 响应（文件和文件夹分两个列表返回，count 为两者合计）
+ */
+interface TianyiListResponse extends TianyiAPIResponse {
+  fileListAO?: {
+    count: number;
+    fileList?: TianyiFileData[];
+    folderList?: TianyiFileData[];
+  };
+}
+
+type RenameInfo = { oldName?: string; newName: string };
+
+/**
+ * 天翼云盘平台适配器
+ *
+ * API 文档参考:
+ * - Base URL: https://cloud.189.cn/api/open
+ * - 认证方式: Cookie 会话换取 AccessToken，由 MAIN world 页面脚本对每个请求签名
+ * - 响应格式: res_code 为 0 表示成功，失败时为字符串错误码
+ * - 根目录 ID 为 -11
+ */
+export class TianyiAdapter extends BasePlatformAdapter {
+  readonly platform: PlatformName = 'tianyi';
+
+  private static readonly ROOT_FOLDER_ID = '-11';
+  private static readonly ROW_SELECTOR = '[data-id],[data-file-id]';
+  private static readonly SELECTED_ROW_SELECTOR = '.c-file-item-select,.is-selected,[aria-selected="true"]';
+
+  private baseURL = 'https://cloud.189.cn/api/open';
+  private pageSize = 100;
+  /** 列表接口返回过的条目：重命名时据此区分文件和文件夹接口 */
+  private knownFiles = new Map<string, FileItem>();
+
+  constructor(config?: Partial<PlatformConfig>) {
+    super({
+      platform: 'tianyi',
+      requestInterval: 500,
+      maxRetries: 3,
+      timeout: 30000,
+      caseSensitive: false, // 同目录下仅大小写不同视为重名
+      maxNameLength: 255, // 文件名不能超过 255 个字符
+      ...config,
+    });
+  }
+
+  getCurrentDirectoryKey(): string {
+    return this.getCurrentFolderId();
+  }
+
+  /**
+   * 获取当前选中的文件列表
+   * 页面行上的 data-id 即文件 ID，名称等信息以列表接口为准
+   */
+  async getSelectedFiles(): Promise<FileItem[]> {
+    try {
+      const rows = Array.from(document.querySelectorAll(TianyiAdapter.ROW_SELECTOR)).filter((row) =>
+        row.matches(TianyiAdapter.SELECTED_ROW_SELECTOR)
+      );
+      const ids = Array.from(new Set(rows.map((row) => this.getRowFileId(row)).filter(Boolean)));
+
+      if (ids.some((id) => !this.knownFiles.has(id))) {
+        await this.getAllFiles();
+      }
+
+      return ids.flatMap((id) => {
+        const file = this.knownFiles.get(id);
+        if (!file) {
+          logger.warn(`Selected row ${id} not found in file list, skipping`);
+        }
+        return file ? [file] : [];
+      });
+    } catch (error) {
+      logger.error('Failed to get selected files:', error instanceof Error ? error : new Error(String(error)));
+      throw new Error(`获取选中文件失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 通过 API 获取目录下的全部文件和文件夹
+   *
+   * @param parentId 父目录 ID（可选，默认当前目录）
+   * @returns 完整文件列表（文件夹带 isFolder 标记）
+   */
+  async getAllFiles(parentId?: string): Promise<FileItem[]> {
+    try {
+      logger.info('[TianyiAdapter] Fetching all files from API');
+
+      const folderId = parentId || this.getCurrentFolderId();
+      const files = await this.fetchDirectoryItems(folderId);
+      for (const file of files) {
+        this.knownFiles.set(file.id, file);
+      }
+
+      logger.info(`[TianyiAdapter] Successfully fetched ${files.length} files`);
+      return files;
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      logger.error('Failed to get all files:', errorObj);
+      throw wrapError(`获取文件列表失败: ${errorObj.message}`, error);
+    }
+  }
+
+  /**
+   * 重命名文件或文件夹（两者使用不同接口），支持自动重试
+   *
+   * @param fileId 文件 / 文件夹 ID
+   * @param newName 新名称
+   * @returns 重命名结果
+   */
+  async renameFile(fileId: string, newName: string): Promise<RenameResult> {
+    return this.retryableRequest(async () => {
+      await this.rateLimit();
+
+      const known = this.knownFiles.get(fileId);
+      if (known?.isFolder) {
+        await this.request('POST', `${this.baseURL}/file/renameFolder.action`, {
+          folderId: fileId,
+          destFolderName: newName,
+        });
+      } else {
+        await this.request('POST', `${this.baseURL}/file/renameFile.action`, {
+          fileId,
+          destFileName: newName,
+        });
+      }
+
+      if (known) {
+        this.knownFiles.set(fileId, { ...known, name: newName, ext: parseFileName(newName, known.isFolder).ext });
+      }
+
+      return {
+        success: true,
+        newName: newName,
+      };
+    }, `重命名文件 ${fileId}`);
+  }
+
+  /**
+   * 检查文件名是否冲突
+   *
+   * @param fileName 文件名
+   * @param parentId 父目录 ID
+   * @returns 是否存在同名文件或文件夹（查询失败时保守返回 true）
+   */
+  async checkNameConflict(fileName: string, parentId: string): Promise<boolean> {
+    try {
+      const items = await this.fetchDirectoryItems(parentId || this.getCurrentFolderId());
+      return items.some((item) => this.isSameName(item.name, fileName));
+    } catch (error) {
+      logger.error('Failed to check name conflict:', error instanceof Error ? error : new Error(String(error)));
+      // 出错时保守处理，返回可能存在冲突
+      return true;
+    }
+  }
+
+  /**
+   * 获取文件详细信息（已加载过的条目直接返回缓存）
+   *
+   * @param fileId 文件 ID
+   * @returns 文件详细信息
+   */
+  async getFileInfo(fileId: string): Promise<FileItem> {
+    const known = this.knownFiles.get(fileId);
+    if (known) {
+      return known;
+    }
+
+    try {
+      await this.rateLimit();
+
+      const result = await this.request<TianyiAPIResponse & TianyiFileData>(
+        'GET',
+        `${this.baseURL}/file/getFileInfo.action`,
+        { fileId }
+      );
+
+      const file = this.toFileItem(result, String(result.parentId ?? this.getCurrentFolderId()), false);
+      this.knownFiles.set(file.id, file);
+      return file;
+    } catch (error) {
+      logger.error(`Failed to get file info for ${fileId}:`, error instanceof Error ? error : new Error(String(error)));
+      throw wrapError(`获取文件信息失败: ${error instanceof Error ? error.message : String(error)}`, error);
+    }
+  }
+
+  /**
+   * 同步页面文件列表，避免用户必须刷新才能看到新文件名
+   * - 对当前可见列表做 DOM 回写（按文件 ID，找不到时按旧文件名）
+   * - 短时间监听后续渲染（虚拟滚动会重新生成行），对新行继续回写
+   */
+  async syncAfterRename(renames: Array<{ fileId: string; oldName?: string; newName: string }>): Promise<PageSyncResult> {
+    const renameInfoById = new Map<string, RenameInfo>();
+    const renameByOldName = new Map<string, string>();
+
+    for (const item of renames) {
+      if (!item?.fileId || !item?.newName) continue;
+      renameInfoById.set(item.fileId, { oldName: item.oldName, newName: item.newName });
+      if (item.oldName) {
+        renameByOldName.set(item.oldName, item.newName);
+      }
+    }
+
+    if (renameInfoById.size === 0) {
+      return { success: true, method: 'none' };
+    }
+
+    const patchedCount = this.patchElementTree(document.body, renameInfoById, renameByOldName);
+    this.observeAndPatchRenamedRows(renameInfoById, renameByOldName, 15000);
+
+    if (patchedCount > 0) {
+      return { success: true, method: 'dom-patch', message: `patched ${patchedCount} nodes` };
+    }
+
+    return {
+      success: false,
+      method: 'none',
+      message: 'failed to locate filename nodes on page',
+    };
+  }
+
+  /**
+   * 分页获取目录下的全部条目（文件夹在前，文件在后）
+   * @private
+   */
+  private async fetchDirectoryItems(folderId: string): Promise<FileItem[]> {
+    const items: FileItem[] = [];
+    let pageNum = 1;
+    let hasMore = true;
+
+    while (hasMore) {
+      await this.rateLimit();
+
+      const result = await this.request<TianyiListResponse>('GET', `${this.baseURL}/file/listFiles.action`, {
+        pageSize: this.pageSize,
+        pageNum,
+        mediaType: 0,
+        folderId,
+        iconOption: 5,
+        orderBy: 'filename',
+        descending: 'false',
+      });
+
+      const listAO = result.fileListAO;
+      if (!listAO) {
+        throw new Error('无法解析文件列表响应');
+      }
+
+      const folders = (listAO.folderList ?? []).map((item) => this.toFileItem(item, folderId, true));
+      const files = (listAO.fileList ?? []).map((item) => this.toFileItem(item, folderId, false));
+      items.push(...folders, ...files);
+
+      hasMore = folders.length + files.length > 0 && items.length < listAO.count;
+      pageNum++;
+
+      logger.debug(`[TianyiAdapter] Fetched page ${pageNum - 1}, ${items.length}/${listAO.count} items`);
+    }
+
+    return items;
+  }
+
+  /**
+   * 通过页面脚本发送签名请求，res_code 非 0 时抛出 TianyiAPIError
+   * @private
+   */
+  private async request<T extends TianyiAPIResponse>(method: string, url: string, params: TianyiRequestParams): Promise<T> {
+    const injector = getPageScriptInjector();
+    const result = await injector.callAPI<T>(method, url, params, this.config.timeout);
+
+    if (!result || typeof result !== 'object') {
+      throw new Error('无法解析接口响应');
+    }
+
+    const code = result.errorCode ?? String(result.res_code ?? 0);
+    if (code !== '0') {
+      throw new TianyiAPIError(code, getErrorMessage(code, result.res_message ?? result.errorMsg), result);
+    }
+    return result;
+  }
+
+  /**
+   * 转换为 FileItem（文件夹扩展名为空）
+   * @private
+   */
+  private toFileItem(item: TianyiFileData, parentId: string, isFolder: boolean): FileItem {
+    const fileItem: FileItem = {
+      id: String(item.id),
+      name: item.name,
+      ext: parseFileName(item.name, isFolder).ext,
+      parentId,
+      size: item.size ?? 0,
+      mtime: this.parseTime(item.lastOpTime),
+      isFolder,
+    };
+
+    if (isFolder && typeof item.fileCount === 'number') {
+      fileItem.childCount = item.fileCount;
+    }
+
+    return fileItem;
+  }
+
+  /**
+   * 解析接口返回的北京时间字符串
+   * @private
+   */
+  private parseTime(value: string | undefined): number {
+    const time = value ? Date.parse(`${value.replace(' ', 'T')}+08:00`) : NaN;
+    return Number.isNaN(time) ? Date.now() : time;
+  }
+
+  /**
+   * 从页面 URL 中提取当前文件夹 ID（/web/main/file/folder/<id>，根目录为 -11）
+   * @private
+   */
+  private getCurrentFolderId(): string {
+    const location = `${window.location.pathname}${window.location.hash}`;
+    const match = location.match(/\/folder\/(-?\d+)/);
+    return match?.[1] ?? TianyiAdapter.ROOT_FOLDER_ID;
+  }
+
+  private getRowFileId(row: Element): string {
+    return row.getAttribute('data-id') || row.getAttribute('data-file-id') || '';
+  }
+
+  private observeAndPatchRenamedRows(
+    renameInfoById: Map<string, RenameInfo>,
+    renameByOldName: Map<string, string>,
+    timeoutMs: number
+  ): void {
+    try {
+      const observer = new MutationObserver((mutations) => {
+        for (const mutation of mutations) {
+          for (const node of Array.from(mutation.addedNodes)) {
+            if (!(node instanceof Element)) continue;
+            this.patchElementTree(node, renameInfoById, renameByOldName);
+          }
+        }
+      });
+
+      observer.observe(document.body, { childList: true, subtree: true });
+      window.setTimeout(() => observer.disconnect(), timeoutMs);
+    } catch (error) {
+      logger.debug('[TianyiAdapter] Failed to observe DOM for patching:', error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private patchElementTree(
+    root: Element,
+    renameInfoById: Map<string, RenameInfo>,
+    renameByOldName: Map<string, string>
+  ): number {
+    let patched = 0;
+    const patchedRows = new Set<Element>();
+
+    // 1) 按文件 ID 定位行
+    const rows = root.matches(TianyiAdapter.ROW_SELECTOR) ? [root] : [];
+    rows.push(...Array.from(root.querySelectorAll(TianyiAdapter.ROW_SELECTOR)));
+    for (const row of rows) {
+      const info = renameInfoById.get(this.getRowFileId(row));
+      if (!info) continue;
+      const count = this.patchNamesWithin(row, new Map([[info.oldName ?? '', info.newName]]), info.oldName === undefined);
+      if (count > 0) {
+        patched += count;
+        patchedRows.add(row);
+      }
+    }
+
+    // 2) 行上没有 ID 时按旧文件名兜底
+    if (renameByOldName.size > 0 && patchedRows.size < renameInfoById.size) {
+      patched += this.patchNamesWithin(root, renameByOldName, false);
+    }
+
+    return patched;
+  }
+
+  /**
+   * 回写 title 属性和完全等于旧名称的文本节点
+   * @param replaceAnyName 没有旧名称时，替换行内名称元素的文本
+   */
+  private patchNamesWithin(root: Element, renameByOldName: Map<string, string>, replaceAnyName: boolean): number {
+    let patched = 0;
+
+    for (const el of [root, ...Array.from(root.querySelectorAll('[title]'))]) {
+      const title = el.getAttribute('title');
+      const newName = title === null ? undefined : renameByOldName.get(title);
+      if (newName !== undefined) {
+        el.setAttribute('title', newName);
+      }
+    }
+
+    if (replaceAnyName) {
+      const [newName] = Array.from(renameByOldName.values());
+      const nameEl = root.querySelector<HTMLElement>('.file-item-name-fileName-span, .c-file-item-name, [class*="file-name"]');
+      if (nameEl && nameEl.children.length === 0) {
+        nameEl.textContent = newName;
+        return 1;
+      }
+      return 0;
+    }
+
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const text = node.nodeValue?.trim() ?? '';
+      const newName = renameByOldName.get(text);
+      if (newName !== undefined && node.nodeValue) {
+        node.nodeValue = node.nodeValue.replace(text, newName);
+        patched++;
+      }
+    }
+
+    return patched;
+  }
+
+  /**
+   * 将错误归类（按平台错误码映射）
+   * @param error 错误对象
+   */
+  classifyError(error: unknown): ErrorClassification {
+    return classifyPlatformError(error);
+  }
+
+  /**
+   * 带重试机制的请求包装器
+   * @param requestFn 请求函数
+   * @param operation 操作描述（用于日志）
+   * @returns 请求结果
+   * @private
+   */
+  private async retryableRequest<T extends RenameResult>(
+    requestFn: () => Promise<T>,
+    operation: string
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+      try {
+        return await requestFn();
+      } catch (error) {
+        lastError = error;
+
+        // 判断是否可以重试
+        if (!isRetryableError(error)) {
+          logger.error(`${operation} 失败（不可重试）:`, error instanceof Error ? error : new Error(String(error)));
+          break;
+        }
+
+        // 最后一次尝试失败，不再重试
+        if (attempt === this.config.maxRetries) {
+          logger.error(`${operation} 失败（已达最大重试次数 ${this.config.maxRetries}）:`, error instanceof Error ? error : new Error(String(error)));
+          break;
+        }
+
+        // 计算指数退避延迟
+        const backoffDelay = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
+        logger.warn(
+          `${operation} 失败（第 ${attempt}/${this.config.maxRetries} 次尝试），` +
+          `${backoffDelay}ms 后重试:`,
+          error instanceof Error ? error : new Error(String(error))
+        );
+        await this.sleep(backoffDelay);
+      }
+    }
+
+    // 所有重试都失败，返回失败结果
+    return {
+      success: false,
+      error: lastError instanceof Error ? lastError : new Error(String(lastError)),
+    } as T;
+  }
+}
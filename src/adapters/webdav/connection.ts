@@ -0,0 +1,61 @@
+import { storage } from '../../utils/storage';
+import { isWebDAVConnection, WebDAVConnection, WEBDAV_CONNECTION_STORAGE_KEY } from '../../types/webdav';
+
+/**
+ * 读取保存的 WebDAV 连接
+ * @returns 连接配置；未配置或格式不正确时返回 null
+ */
+export async function loadWebDAVConnection(): Promise<WebDAVConnection | null> {
+  const value = await storage.get<unknown>(WEBDAV_CONNECTION_STORAGE_KEY);
+  return isWebDAVConnection(value) ? value : null;
+}
+
+/**
+ * 保存 WebDAV 连接（服务地址去掉结尾斜杠）
+ * @param connection 连接配置
+ * @returns 实际保存的连接配置
+ */
+export async function saveWebDAVConnection(connection: WebDAVConnection): Promise<WebDAVConnection> {
+  const normalized: WebDAVConnection = {
+    endpoint: normalizeEndpoint(connection.endpoint),
+    username: connection.username,
+    password: connection.password,
+  };
+  await storage.set(WEBDAV_CONNECTION_STORAGE_KEY, normalized);
+  return normalized;
+}
+
+/**
+ * 规范化服务地址：必须是 http(s) URL，去掉查询串和结尾斜杠
+ * @param endpoint 用户输入的服务地址
+ * @throws {Error} 地址不是合法的 http(s) URL 时
+ */
+export function normalizeEndpoint(endpoint: string): string {
+  let url: URL;
+  try {
+    url = new URL(endpoint.trim());
+  } catch {
+    throw new Error(`无效的服务地址: ${endpoint}`);
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`服务地址必须以 http:// 或 https:// 开头: ${endpoint}`);
+  }
+
+  return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+}
+
+/**
+ * 生成 Basic 认证头（用户名为空时不认证）
+ * @param connection 连接配置
+ * @returns Authorization 头的值；匿名访问时返回 null
+ */
+export function buildAuthorizationHeader(connection: WebDAVConnection): string | null {
+  if (!connection.username) {
+    return null;
+  }
+
+  // btoa 只接受 Latin-1，先按 UTF-8 编码以支持中文用户名和密码
+  const bytes = new TextEncoder().encode(`${connection.username}:${connection.password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+}
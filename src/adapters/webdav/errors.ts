@@ -0,0 +1,102 @@
+import type { ErrorCategory, ErrorClassification } from '../../types/error';
+import { classifyAs, classifyGenericError } from '../../core/error-taxonomy';
+
+/**
+ * WebDAV 错误类
+ * 以 HTTP 状态码区分错误类型（MOVE / MKCOL 的语义见 RFC 4918）
+ */
+export class WebDAVError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public response?: unknown,
+    /** 服务器通过 Retry-After 要求的等待时间（毫秒） */
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'WebDAVError';
+  }
+}
+
+/**
+ * HTTP 状态码映射
+ */
+export const ERROR_CODES: Record<number, string> = {
+  401: '用户名或密码错误',
+  403: '没有权限执行此操作',
+  404: '文件不存在',
+  405: '服务器不允许此操作',
+  409: '目标目录不存在',
+  412: '同名文件已存在',
+  423: '文件已被锁定',
+  429: '请求过于频繁',
+  500: '服务器内部错误',
+  502: '网关错误',
+  503: '服务暂时不可用',
+  504: '网关超时',
+  507: '存储空间不足',
+};
+
+/**
+ * 可以重试的状态码（限流和网关 / 服务暂时不可用）
+ */
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+/**
+ * 获取友好的错误消息
+ */
+export function getErrorMessage(status: number, defaultMessage?: string): string {
+  return ERROR_CODES[status] || defaultMessage || `未知错误 (HTTP ${status})`;
+}
+
+/**
+ * 判断错误是否可以重试
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof WebDAVError) {
+    return RETRYABLE_STATUSES.has(error.status);
+  }
+
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  // 超时错误可以重试
+  if (error.name === 'AbortError' || error.message.includes('timeout')) {
+    return true;
+  }
+
+  // fetch 的网络错误（连接被拒绝、断网等）
+  return error instanceof TypeError && error.message.includes('fetch');
+}
+
+/**
+ * 状态码对应的错误分类
+ * 409 表示目标目录不存在，归为 not_found；423（已锁定）通常稍后会释放，按临时错误处理
+ */
+const ERROR_CATEGORIES: Record<number, ErrorCategory> = {
+  401: 'auth_expired',
+  403: 'fatal',
+  404: 'not_found',
+  405: 'fatal',
+  409: 'not_found',
+  412: 'name_conflict',
+  423: 'transient',
+  429: 'throttled',
+  500: 'transient',
+  502: 'transient',
+  503: 'transient',
+  504: 'transient',
+  507: 'fatal',
+};
+
+/**
+ * 将错误归类（带上服务器返回的 Retry-After）
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof WebDAVError) {
+    return classifyAs(ERROR_CATEGORIES[error.status] ?? 'fatal', error);
+  }
+
+  return classifyGenericError(error);
+}
@@ -0,0 +1,120 @@
+/**
+ * PROPFIND 响应（207 Multi-Status）解析
+ */
+
+/**
+ * PROPFIND 返回的单个资源
+ */
+export interface WebDAVEntry {
+  /** 相对于服务地址的解码路径（根目录为 "/"，不带结尾斜杠） */
+  path: string;
+  /** 资源名称（路径最后一段） */
+  name: string;
+  /** 是否为目录（collection） */
+  isFolder: boolean;
+  /** 文件大小（字节，目录为 0） */
+  size: number;
+  /** 修改时间戳（毫秒，服务器未返回时为 NaN） */
+  mtime: number;
+}
+
+/**
+ * PROPFIND 请求体：只请求列表需要的属性
+ */
+export const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop>
+    <d:resourcetype/>
+    <d:getcontentlength/>
+    <d:getlastmodified/>
+  </d:prop>
+</d:propfind>`;
+
+const DAV_NS = 'DAV:';
+
+/**
+ * 把 href 转为相对于服务地址的解码路径
+ * href 可能是绝对路径（/dav/a%20b）或完整 URL，服务地址本身的路径前缀会被去掉
+ *
+ * @param href 响应中的 href
+ * @param endpoint 服务地址
+ * @returns 规范化后的路径（如 "/Movies/a b.mkv"）
+ */
+export function toRelativePath(href: string, endpoint: string): string {
+  const basePath = trimTrailingSlash(new URL(endpoint).pathname);
+  let pathname = trimTrailingSlash(new URL(href, endpoint).pathname);
+
+  if (basePath && (pathname === basePath || pathname.startsWith(`${basePath}/`))) {
+    pathname = pathname.slice(basePath.length);
+  }
+
+  const segments = pathname
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => decodeURIComponent(segment));
+  return `/${segments.join('/')}`;
+}
+
+/**
+ * 把相对路径拼接为请求 URL（逐段编码）
+ * @param endpoint 服务地址
+ * @param path 相对路径
+ * @param isFolder 目录是否追加结尾斜杠（部分服务器对目录的 MOVE / MKCOL 要求结尾斜杠）
+ */
+export function toRequestURL(endpoint: string, path: string, isFolder = false): string {
+  const encoded = path
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => encodeURIComponent(segment))
+    .join('/');
+  const url = encoded ? `${trimTrailingSlash(endpoint)}/${encoded}` : trimTrailingSlash(endpoint);
+  return isFolder ? `${url}/` : url;
+}
+
+/**
+ * 解析 207 Multi-Status 响应
+ * 只读取状态为 200 的 propstat；无法解析时抛出错误
+ *
+ * @param xml 响应文本
+ * @param endpoint 服务地址（用于计算相对路径）
+ * @returns 资源列表（顺序与响应一致，通常第一个为被查询的目录本身）
+ */
+export function parseMultistatus(xml: string, endpoint: string): WebDAVEntry[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('无法解析 PROPFIND 响应');
+  }
+
+  return Array.from(doc.getElementsByTagNameNS(DAV_NS, 'response')).flatMap((response) => {
+    const href = firstText(response, 'href');
+    if (!href) {
+      return [];
+    }
+
+    const prop = Array.from(response.getElementsByTagNameNS(DAV_NS, 'propstat'))
+      .find((propstat) => /\s200\s/.test(`${firstText(propstat, 'status')} `))
+      ?.getElementsByTagNameNS(DAV_NS, 'prop')[0];
+
+    const path = toRelativePath(href, endpoint);
+    const isFolder = (prop?.getElementsByTagNameNS(DAV_NS, 'collection').length ?? 0) > 0;
+    const lastModified = prop ? firstText(prop, 'getlastmodified') : '';
+
+    return [
+      {
+        path,
+        name: path.split('/').pop() ?? '',
+        isFolder,
+        size: isFolder ? 0 : Number(prop ? firstText(prop, 'getcontentlength') : '') || 0,
+        mtime: lastModified ? Date.parse(lastModified) : NaN,
+      },
+    ];
+  });
+}
+
+function firstText(parent: Element, localName: string): string {
+  return parent.getElementsByTagNameNS(DAV_NS, localName)[0]?.textContent?.trim() ?? '';
+}
+
+function trimTrailingSlash(value: string): string {
+  return value.replace(/\/+$/, '');
+}
@@ -0,0 +1,506 @@
+import { BasePlatformAdapter } from '../base/adapter.interface';
+import {
+  PlatformName,
+  FileItem,
+  RenameResult,
+  PlatformConfig,
+  PlatformCapabilities,
+  RecursiveListOptions,
+  MoveResult,
+} from '../../types/platform';
+import { WebDAVConnection } from '../../types/webdav';
+import { parseFileName } from '../../utils/helpers';
+import { buildAuthorizationHeader, normalizeEndpoint } from './connection';
+import { WebDAVError, classifyError as classifyPlatformError, getErrorMessage, isRetryableError } from './errors';
+import type { ErrorClassification } from '../../types/error';
+import { parseMultistatus, PROPFIND_BODY, toRequestURL, WebDAVEntry } from './multistatus';
+import { logger } from '../../utils/logger';
+import { getRetryAfterMs, parseRetryAfter, wrapError } from '../../core/error-taxonomy';
+
+/**
+ * 单次 WebDAV 请求的选项
+ */
+interface WebDAVRequestOptions {
+  /** Depth 头（PROPFIND 使用） */
+  depth?: '0' | '1';
+  /** MOVE 的目标路径（相对路径，发送时转为完整 URL） */
+  destination?: string;
+  /** 目标是否为目录（决定 URL 是否带结尾斜杠） */
+  isFolder?: boolean;
+  /** 请求体 */
+  body?: string;
+}
+
+/**
+ * WebDAV 平台适配器（包括 Alist 的 /dav）
+ *
+ * 协议说明:
+ * - 列表: PROPFIND（Depth: 1），重命名和移动: MOVE（Overwrite: F），建目录: MKCOL
+ * - 认证方式: Basic，连接配置由扩展页保存在 chrome.storage.local
+ * - 没有宿主页面：由扩展页 src/webdav 创建适配器并挂载文件选择面板
+ *
+ * 文件 ID 为首次列出时的相对路径。重命名或移动后路径改变而 ID 不变，
+ * 适配器记录 ID 到当前路径的映射，撤销和后续操作仍按原 ID 进行（仅在本次页面会话内有效）。
+ */
+export class WebDAVAdapter extends BasePlatformAdapter {
+  readonly platform: PlatformName = 'webdav';
+
+  private static readonly ROOT_PATH = '/';
+
+  private connection: WebDAVConnection;
+  private currentDirectoryId = WebDAVAdapter.ROOT_PATH;
+  /** 列表接口返回过的条目（按 ID） */
+  private knownFiles = new Map<string, FileItem>();
+  /** 重命名 / 移动过的条目：ID -> 当前路径（目录的映射同样作用于其子项） */
+  private pathById = new Map<string, string>();
+  /** pathById 的反向映射：当前路径 -> ID */
+  private idByPath = new Map<string, string>();
+
+  constructor(connection: WebDAVConnection, config?: Partial<PlatformConfig>) {
+    super({
+      platform: 'webdav',
+      requestInterval: 100, // 自建服务通常没有限流，只做轻微节流
+      maxRetries: 3,
+      timeout: 30000,
+      maxNameLength: 255, // 常见文件系统的单个文件名上限
+      ...config,
+    });
+    this.connection = { ...connection, endpoint: normalizeEndpoint(connection.endpoint) };
+  }
+
+  /**
+   * WebDAV 以路径定位文件
+   */
+  get capabilities(): PlatformCapabilities {
+    return {
+      ...super.capabilities,
+      fileIdKind: 'path',
+    };
+  }
+
+  getCurrentDirectoryKey(): string {
+    return this.currentDirectoryId;
+  }
+
+  /**
+   * 切换当前目录（由扩展页的目录导航调用）
+   * @param directoryId 目录 ID（根目录为 "/"）
+   */
+  setCurrentDirectory(directoryId: string): void {
+    this.currentDirectoryId = directoryId || WebDAVAdapter.ROOT_PATH;
+  }
+
+  /**
+   * 没有宿主页面可供选择，文件由面板通过 getAllFiles 加载
+   */
+  async getSelectedFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  /**
+   * 通过 PROPFIND 获取目录下的全部文件和文件夹
+   *
+   * @param parentId 父目录 ID（可选，默认当前目录）
+   * @returns 完整文件列表（文件夹在前，按名称排序）
+   */
+  async getAllFiles(parentId?: string): Promise<FileItem[]> {
+    try {
+      logger.info('[WebDAVAdapter] Fetching all files via PROPFIND');
+
+      const files = await this.fetchDirectoryItems(parentId || this.currentDirectoryId);
+
+      logger.info(`[WebDAVAdapter] Successfully fetched ${files.length} files`);
+      return files;
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      logger.error('Failed to get all files:', errorObj);
+      throw wrapError(`获取文件列表失败: ${errorObj.message}`, error);
+    }
+  }
+
+  /**
+   * 递归获取目录及其子目录下的所有文件
+   *
+   * @param parentId 起点目录 ID（可选，默认当前目录）
+   * @param options 深度、目录过滤、取消与进度选项
+   * @returns 完整的文件列表
+   */
+  async getAllFilesRecursive(parentId?: string, options: RecursiveListOptions = {}): Promise<FileItem[]> {
+    try {
+      logger.info('[WebDAVAdapter] Fetching files recursively via PROPFIND');
+
+      const files = await this.walkDirectories(parentId || this.currentDirectoryId, options, async (directoryId) => {
+        const items = await this.fetchDirectoryItems(directoryId);
+        return {
+          files: items.filter((item) => !item.isFolder),
+          folders: items.filter((item) => item.isFolder).map((item) => ({ id: item.id, name: item.name })),
+        };
+      });
+
+      logger.info(`[WebDAVAdapter] Successfully fetched ${files.length} files recursively`);
+      return files;
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      if (errorObj.name === 'AbortError') {
+        throw errorObj;
+      }
+      logger.error('Failed to get files recursively:', errorObj);
+      throw wrapError(`获取文件列表失败: ${errorObj.message}`, error);
+    }
+  }
+
+  /**
+   * 通过 MOVE 在同一目录内重命名文件或文件夹，支持自动重试
+   * 使用 Overwrite: F，目标已存在时服务器返回 412 而不是覆盖
+   *
+   * @param fileId 文件 ID
+   * @param newName 新名称
+   * @returns 重命名结果
+   */
+  async renameFile(fileId: string, newName: string): Promise<RenameResult> {
+    return this.retryableRequest(async () => {
+      await this.rateLimit();
+
+      const fromPath = this.resolvePath(fileId);
+      const toPath = this.joinPath(this.parentPathOf(fromPath), newName);
+      const isFolder = this.knownFiles.get(fileId)?.isFolder === true;
+
+      await this.request('MOVE', fromPath, { destination: toPath, isFolder });
+      this.recordMove(fileId, fromPath, toPath);
+
+      return {
+        success: true,
+        newName: newName,
+      };
+    }, `重命名文件 ${fileId}`);
+  }
+
+  /**
+   * 在指定目录下创建文件夹（已存在同名文件夹时直接复用）
+   *
+   * @param name 文件夹名称
+   * @param parentId 父目录 ID
+   * @returns 文件夹 ID
+   */
+  async createFolder(name: string, parentId: string): Promise<string> {
+    const existing = (await this.fetchDirectoryItems(parentId)).find(
+      (item) => item.isFolder && this.isSameName(item.name, name)
+    );
+    if (existing) {
+      return existing.id;
+    }
+
+    await this.rateLimit();
+
+    const path = this.joinPath(this.resolvePath(parentId), name);
+    await this.request('MKCOL', path, { isFolder: true });
+    return this.idForPath(path);
+  }
+
+  /**
+   * 逐个 MOVE 到目标目录（WebDAV 没有批量移动）
+   *
+   * @param fileIds 文件 ID 列表
+   * @param targetParentId 目标目录 ID
+   * @returns 移动结果（部分失败时列出失败的文件 ID）
+   */
+  async moveFiles(fileIds: string[], targetParentId: string): Promise<MoveResult> {
+    const targetPath = this.resolvePath(targetParentId);
+    const failedIds: string[] = [];
+    let lastError: Error | undefined;
+
+    for (const fileId of fileIds) {
+      const result = await this.retryableRequest(async (): Promise<RenameResult> => {
+        await this.rateLimit();
+
+        const fromPath = this.resolvePath(fileId);
+        const toPath = this.joinPath(targetPath, this.nameOf(fromPath));
+        const isFolder = this.knownFiles.get(fileId)?.isFolder === true;
+
+        await this.request('MOVE', fromPath, { destination: toPath, isFolder });
+        this.recordMove(fileId, fromPath, toPath);
+        return { success: true };
+      }, `移动文件 ${fileId} 到 ${targetParentId}`);
+
+      if (!result.success) {
+        failedIds.push(fileId);
+        lastError = result.error;
+      }
+    }
+
+    if (failedIds.length === 0) {
+      return { success: true };
+    }
+    return { success: false, failedIds, error: lastError };
+  }
+
+  /**
+   * 检查文件名是否冲突
+   *
+   * @param fileName 文件名
+   * @param parentId 父目录 ID
+   * @returns 是否存在同名文件或文件夹（查询失败时保守返回 true）
+   */
+  async checkNameConflict(fileName: string, parentId: string): Promise<boolean> {
+    try {
+      const items = await this.fetchDirectoryItems(parentId || this.currentDirectoryId);
+      return items.some((item) => this.isSameName(item.name, fileName));
+    } catch (error) {
+      logger.error('Failed to check name conflict:', error instanceof Error ? error : new Error(String(error)));
+      // 出错时保守处理，返回可能存在冲突
+      return true;
+    }
+  }
+
+  /**
+   * 获取文件详细信息（已加载过的条目直接返回缓存，否则 PROPFIND Depth: 0）
+   *
+   * @param fileId 文件 ID
+   * @returns 文件详细信息
+   */
+  async getFileInfo(fileId: string): Promise<FileItem> {
+    const known = this.knownFiles.get(fileId);
+    if (known) {
+      return known;
+    }
+
+    try {
+      await this.rateLimit();
+
+      const response = await this.request('PROPFIND', this.resolvePath(fileId), { depth: '0', body: PROPFIND_BODY });
+      const [entry] = parseMultistatus(await response.text(), this.connection.endpoint);
+      if (!entry) {
+        throw new WebDAVError(404, getErrorMessage(404));
+      }
+
+      const file = this.toFileItem(entry);
+      this.knownFiles.set(file.id, file);
+      return file;
+    } catch (error) {
+      logger.error(`Failed to get file info for ${fileId}:`, error instanceof Error ? error : new Error(String(error)));
+      throw wrapError(`获取文件信息失败: ${error instanceof Error ? error.message : String(error)}`, error);
+    }
+  }
+
+  /**
+   * PROPFIND Depth: 1 列出目录（去掉目录自身），并更新条目缓存
+   * @private
+   */
+  private async fetchDirectoryItems(directoryId: string): Promise<FileItem[]> {
+    await this.rateLimit();
+
+    const directoryPath = this.resolvePath(directoryId);
+    const response = await this.request('PROPFIND', directoryPath, { depth: '1', body: PROPFIND_BODY, isFolder: true });
+    const entries = parseMultistatus(await response.text(), this.connection.endpoint).filter(
+      (entry) => entry.path !== directoryPath
+    );
+
+    const items = entries
+      .map((entry) => this.toFileItem(entry))
+      .sort((a, b) => Number(b.isFolder) - Number(a.isFolder) || a.name.localeCompare(b.name, undefined, { numeric: true }));
+    for (const item of items) {
+      this.knownFiles.set(item.id, item);
+    }
+
+    logger.debug(`[WebDAVAdapter] Listed ${items.length} items in ${directoryPath}`);
+    return items;
+  }
+
+  /**
+   * 发送 WebDAV 请求，状态码 >= 400 时抛出 WebDAVError
+   * @private
+   */
+  private async request(method: string, path: string, options: WebDAVRequestOptions = {}): Promise<Response> {
+    const headers: Record<string, string> = {};
+    const authorization = buildAuthorizationHeader(this.connection);
+    if (authorization) {
+      headers.Authorization = authorization;
+    }
+    if (options.depth) {
+      headers.Depth = options.depth;
+    }
+    if (options.destination !== undefined) {
+      headers.Destination = toRequestURL(this.connection.endpoint, options.destination, options.isFolder);
+      headers.Overwrite = 'F';
+    }
+    if (options.body) {
+      headers['Content-Type'] = 'application/xml; charset=utf-8';
+    }
+
+    const response = await this.fetchWithTimeout(toRequestURL(this.connection.endpoint, path, options.isFolder), {
+      method,
+      headers,
+      body: options.body,
+      credentials: 'omit',
+    });
+
+    if (response.status >= 400) {
+      const text = await response.text().catch(() => '');
+      throw new WebDAVError(
+        response.status,
+        getErrorMessage(response.status, response.statusText),
+        text,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+    return response;
+  }
+
+  /**
+   * 转换为 FileItem（ID 按映射还原为首次列出时的路径）
+   * @private
+   */
+  private toFileItem(entry: WebDAVEntry): FileItem {
+    return {
+      id: this.idForPath(entry.path),
+      name: entry.name,
+      ext: parseFileName(entry.name, entry.isFolder).ext,
+      parentId: this.idForPath(this.parentPathOf(entry.path)),
+      size: entry.size,
+      mtime: Number.isNaN(entry.mtime) ? Date.now() : entry.mtime,
+      isFolder: entry.isFolder,
+    };
+  }
+
+  /**
+   * 记录 MOVE 成功后的路径变化，并更新条目缓存
+   * @private
+   */
+  private recordMove(fileId: string, fromPath: string, toPath: string): void {
+    // 目录内已单独映射过的子项随目录一起移动
+    for (const [id, path] of Array.from(this.pathById)) {
+      if (path.startsWith(`${fromPath}/`)) {
+        const movedPath = `${toPath}${path.slice(fromPath.length)}`;
+        this.pathById.set(id, movedPath);
+        this.idByPath.delete(path);
+        this.idByPath.set(movedPath, id);
+      }
+    }
+
+    this.idByPath.delete(fromPath);
+    if (fileId === toPath) {
+      this.pathById.delete(fileId);
+    } else {
+      this.pathById.set(fileId, toPath);
+      this.idByPath.set(toPath, fileId);
+    }
+
+    const known = this.knownFiles.get(fileId);
+    if (known) {
+      const name = this.nameOf(toPath);
+      this.knownFiles.set(fileId, {
+        ...known,
+        name,
+        ext: parseFileName(name, known.isFolder).ext,
+        parentId: this.idForPath(this.parentPathOf(toPath)),
+      });
+    }
+  }
+
+  /**
+   * ID -> 当前路径（祖先目录被移动过时同样生效）
+   * @private
+   */
+  private resolvePath(fileId: string): string {
+    return this.remapByPrefix(fileId, this.pathById);
+  }
+
+  /**
+   * 当前路径 -> ID
+   * @private
+   */
+  private idForPath(path: string): string {
+    return this.remapByPrefix(path, this.idByPath);
+  }
+
+  /**
+   * 按最长的已映射前缀替换路径
+   * @private
+   */
+  private remapByPrefix(path: string, mapping: Map<string, string>): string {
+    const exact = mapping.get(path);
+    if (exact !== undefined) {
+      return exact;
+    }
+
+    let bestKey = '';
+    for (const key of mapping.keys()) {
+      if (key.length > bestKey.length && path.startsWith(`${key}/`)) {
+        bestKey = key;
+      }
+    }
+
+    const mapped = bestKey ? mapping.get(bestKey) : undefined;
+    return mapped === undefined ? path : `${mapped}${path.slice(bestKey.length)}`;
+  }
+
+  private parentPathOf(path: string): string {
+    const index = path.lastIndexOf('/');
+    return index <= 0 ? WebDAVAdapter.ROOT_PATH : path.slice(0, index);
+  }
+
+  private nameOf(path: string): string {
+    return path.slice(path.lastIndexOf('/') + 1);
+  }
+
+  private joinPath(parentPath: string, name: string): string {
+    return parentPath === WebDAVAdapter.ROOT_PATH ? `/${name}` : `${parentPath}/${name}`;
+  }
+
+  /**
+   * 将错误归类（按平台错误码映射）
+   * @param error 错误对象
+   */
+  classifyError(error: unknown): ErrorClassification {
+    return classifyPlatformError(error);
+  }
+
+  /**
+   * 带重试机制的请求包装器
+   * @param requestFn 请求函数
+   * @param operation 操作描述（用于日志）
+   * @returns 请求结果
+   * @private
+   */
+  private async retryableRequest<T extends RenameResult>(
+    requestFn: () => Promise<T>,
+    operation: string
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+      try {
+        return await requestFn();
+      } catch (error) {
+        lastError = error;
+
+        // 判断是否可以重试
+        if (!isRetryableError(error)) {
+          logger.error(`${operation} 失败（不可重试）:`, error instanceof Error ? error : new Error(String(error)));
+          break;
+        }
+
+        // 最后一次尝试失败，不再重试
+        if (attempt === this.config.maxRetries) {
+          logger.error(`${operation} 失败（已达最大重试次数 ${this.config.maxRetries}）:`, error instanceof Error ? error : new Error(String(error)));
+          break;
+        }
+
+        // 优先遵守服务器的 Retry-After，否则按指数退避
+        const backoffDelay = getRetryAfterMs(error) ?? Math.min(1000 * Math.pow(2, attempt - 1), 10000);
+        logger.warn(
+          `${operation} 失败（第 ${attempt}/${this.config.maxRetries} 次尝试），` +
+          `${backoffDelay}ms 后重试:`,
+          error instanceof Error ? error : new Error(String(error))
+        );
+        await this.sleep(backoffDelay);
+      }
+    }
+
+    // 所有重试都失败，返回失败结果
+    return {
+      success: false,
+      error: lastError instanceof Error ? lastError : new Error(String(lastError)),
+    } as T;
+  }
+}
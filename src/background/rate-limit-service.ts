@@ -0,0 +1,54 @@
+import { RateLimiterRegistry, type RateLimitLeaseRequest } from '../core/rate-limiter';
+import { RATE_LIMIT_STORAGE_KEY, isRateLimitConfig, type RateLimitOverrides } from '../types/rate-limit';
+import type { PlatformName } from '../types/platform';
+import { type StorageManager, storage } from '../utils/storage';
+import { logger } from '../utils/logger';
+
+type RateLimitServiceStorage = Pick<StorageManager, 'get'>;
+
+/**
+ * 按平台共享的限流服务（运行在 Service Worker 中）
+ *
+ * 所有标签页的适配器和执行引擎都向这里租用令牌，因此同一平台打开多个标签页时总速率不变。
+ * 用户可在弹出页按平台覆盖每秒请求数和突发容量（保存在存储的 rate_limits 中）。
+ * Service Worker 被回收后令牌桶状态随之重置，相当于空闲后重新开始。
+ */
+export class RateLimitService {
+  private overridesLoaded: Promise<void> | null = null;
+
+  constructor(
+    private readonly storageManager: RateLimitServiceStorage = storage,
+    private readonly registry: RateLimiterRegistry = new RateLimiterRegistry()
+  ) {}
+
+  /**
+   * 预占一个令牌
+   * @returns 调用方需要等待的毫秒数
+   */
+  async lease(request: RateLimitLeaseRequest): Promise<number> {
+    this.overridesLoaded ??= this.reloadOverrides().catch((error) => {
+      // 读取失败时使用调用方提供的配置，不影响限流
+      logger.warn('Failed to load rate limit overrides:', error instanceof Error ? error.message : String(error));
+    });
+    await this.overridesLoaded;
+    return this.registry.reserve(request);
+  }
+
+  /**
+   * 从存储重新读取覆盖配置（存储变化时调用）
+   */
+  async reloadOverrides(): Promise<void> {
+    const stored = await this.storageManager.get<Record<string, unknown>>(RATE_LIMIT_STORAGE_KEY);
+    const overrides: RateLimitOverrides = {};
+
+    for (const [platform, config] of Object.entries(stored ?? {})) {
+      if (isRateLimitConfig(config)) {
+        overrides[platform as PlatformName] = config;
+      }
+    }
+
+    this.registry.setOverrides(overrides);
+  }
+}
+
+export const rateLimitService = new RateLimitService();
@@ -1,6 +1,9 @@
 import { logger } from '../utils/logger';
 import { diagnosticService } from './diagnostic-service';
+import { rateLimitService } from './rate-limit-service';
 import { RUNTIME_MESSAGE_TYPES } from '../types/runtime-message';
+import { RATE_LIMIT_STORAGE_KEY } from '../types/rate-limit';
+import { detectPlatformFromUrl } from '../utils/platform-detector';
 
 /**
  * Service Worker (Background Script)
@@ -59,7 +62,10 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
           if (tab.id && tab.url && (
             tab.url.includes('pan.quark.cn') ||
             tab.url.includes('www.aliyundrive.com') ||
-            tab.url.includes('pan.baidu.com')
+            tab.url.includes('pan.baidu.com') ||
+            detectPlatformFromUrl(tab.url) === '115' ||
+            detectPlatformFromUrl(tab.url) === '123pan' ||
+            detectPlatformFromUrl(tab.url) === 'tianyi'
           )) {
             chrome.tabs.sendMessage(tab.id, message).catch((error) => {
               // 忽略未注入 Content Script 的标签页的连接错误
@@ -106,6 +112,17 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
         });
       return true;
 
+    case RUNTIME_MESSAGE_TYPES.ACQUIRE_RATE_LIMIT:
+      void rateLimitService
+        .lease({ platform: message.platform, limits: message.limits, slowdown: message.slowdown })
+        .then((delayMs) => sendResponse({ success: true, delayMs }))
+        .catch((error) => {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          logger.warn('Failed to lease rate limit token:', errorMessage);
+          sendResponse({ success: false, error: errorMessage });
+        });
+      return true;
+
     default:
       logger.warn('Unknown message type:', message.type);
   }
@@ -113,6 +130,15 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   return false;
 });
 
+// 限流覆盖配置变化时立即生效
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && changes[RATE_LIMIT_STORAGE_KEY]) {
+    void rateLimitService.reloadOverrides().catch((error) => {
+      logger.warn('Failed to reload rate limit overrides:', error instanceof Error ? error.message : String(error));
+    });
+  }
+});
+
 // 监听标签页更新
 chrome.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
   if (changeInfo.status === 'complete' && tab.url) {
@@ -121,7 +147,10 @@ chrome.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
     if (
       tab.url.includes('pan.quark.cn') ||
       tab.url.includes('www.aliyundrive.com') ||
-      tab.url.includes('pan.baidu.com')
+      tab.url.includes('pan.baidu.com') ||
+      detectPlatformFromUrl(tab.url) === '115' ||
+      detectPlatformFromUrl(tab.url) === '123pan' ||
+      detectPlatformFromUrl(tab.url) === 'tianyi'
     ) {
       logger.info('Supported cloud drive detected:', tab.url);
     }
@@ -1,15 +1,24 @@
 import { LitElement, html, css } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
-import { RuleType, RuleConfig } from '../../types/rule';
+import { RuleType, RuleConfig, PipelineStep } from '../../types/rule';
 import { ProgressEvent } from '../../types/core';
+import { type PlatformCapabilities } from '../../types/platform';
 import { type DiagnosticPromptState } from '../../types/diagnostic';
+import { type RulePreset, type RulePresetIssue } from '../../types/preset';
 import { I18nService } from '../../utils/i18n';
+import { logger } from '../../utils/logger';
+import { DEFAULT_TITLE_STOP_WORDS } from '../../rules/case';
+import { findTemplateIssues, type TemplateIssue } from '../../rules/template';
+import { ORGANIZE_EPISODE_TOKENS } from '../../rules/organize';
+import { getEnabledPipelineSteps } from '../../rules/pipeline';
+import { downloadRulePresets, parseRulePresetFile, rulePresetStore } from '../../utils/rule-presets';
 
 /**
  * Config Panel Component
  * Left panel for rule selection and configuration
  *
  * @fires config-change - Dispatched when rule configuration changes
+ *   (a single step emits its own config; multiple steps emit a `pipeline` config)
  * @fires execute - Dispatched when execute button is clicked
  *
  * @example
@@ -71,6 +80,24 @@ export class ConfigPanel extends LitElement {
   @property({ type: Boolean })
   paused = false;
 
+  /**
+   * Why the executor paused itself (circuit breaker tripped), shown while paused
+   */
+  @property({ type: String })
+  pauseNotice: string | null = null;
+
+  /**
+   * Whether resuming should re-check the platform first (the circuit breaker paused the batch)
+   */
+  @property({ type: Boolean })
+  recheckOnResume = false;
+
+  /**
+   * Whether a re-check is in progress
+   */
+  @property({ type: Boolean })
+  rechecking = false;
+
   /**
    * Page list sync status after rename
    */
@@ -89,12 +116,24 @@ export class ConfigPanel extends LitElement {
   @property({ type: Boolean })
   syncSupported = false;
 
+  /**
+   * Capabilities of the current platform; features it lacks are hidden (null shows everything)
+   */
+  @property({ attribute: false })
+  capabilities: PlatformCapabilities | null = null;
+
   @property({ type: Boolean })
   canUndo = false;
 
   @property({ type: Boolean })
   undoBusy = false;
 
+  /**
+   * Whether renamed files are re-read from the platform after execution
+   */
+  @property({ type: Boolean })
+  verifyAfterRename = false;
+
   @property({ attribute: false })
   diagnosticPromptState: DiagnosticPromptState = 'hidden';
 
@@ -107,6 +146,12 @@ export class ConfigPanel extends LitElement {
   @property({ attribute: false })
   diagnosticErrorMessage: string | null = null;
 
+  /**
+   * Whether folders keep their names (applies to the whole rule chain)
+   */
+  @state()
+  private skipFolders = false;
+
   /**
    * Current selected rule type
    */
@@ -128,20 +173,78 @@ export class ConfigPanel extends LitElement {
   private regexValidationError: string | null = null;
 
   /**
-   * Handle rule type change
-   * @private
+   * Rule chain steps (the step at `activeStepIndex` mirrors selectedRuleType/ruleParams)
    */
-  private handleRuleChange(type: RuleType): void {
-    this.selectedRuleType = type;
-    this.regexValidationError = null;
+  @state()
+  private steps: PipelineStep[] = [
+    {
+      type: 'replace',
+      params: { search: '', replace: '', caseSensitive: false, global: true },
+      enabled: true,
+    },
+  ];
 
-    // Reset params based on rule type
+  /**
+   * Index of the step currently being edited
+   */
+  @state()
+  private activeStepIndex = 0;
+
+  /**
+   * Saved rule presets
+   */
+  @state()
+  private presets: RulePreset[] = [];
+
+  /**
+   * Currently selected preset id ('' when none)
+   */
+  @state()
+  private selectedPresetId = '';
+
+  /**
+   * Feedback of the last preset action (save/import errors etc.)
+   */
+  @state()
+  private presetMessage: { text: string; error: boolean } | null = null;
+
+  connectedCallback() {
+    super.connectedCallback();
+    void this.loadPresets();
+  }
+
+  /**
+   * Load a rule config (e.g. from a preset) into the editor
+   * A `pipeline` config is expanded into its steps.
+   */
+  applyRuleConfig(config: RuleConfig): void {
+    const steps: PipelineStep[] =
+      config.type === 'pipeline' && Array.isArray(config.params?.steps)
+        ? config.params.steps.map((step: PipelineStep) => ({
+            type: step.type,
+            params: { ...step.params },
+            enabled: step.enabled !== false,
+          }))
+        : [{ type: config.type, params: { ...config.params }, enabled: true }];
+
+    if (steps.length === 0) return;
+
+    this.steps = steps;
+    this.skipFolders = config.skipFolders === true;
+    this.loadStep(0);
+    this.emitConfigChange();
+  }
+
+  /**
+   * Get default parameters for a rule type
+   * @private
+   */
+  private getDefaultParams(type: RuleType): Record<string, any> {
     switch (type) {
       case 'replace':
-        this.ruleParams = { search: '', replace: '', caseSensitive: false, global: true };
-        break;
+        return { search: '', replace: '', caseSensitive: false, global: true };
       case 'regex':
-        this.ruleParams = {
+        return {
           pattern: '',
           replace: '',
           caseSensitive: false,
@@ -149,27 +252,27 @@ export class ConfigPanel extends LitElement {
           flags: '',
           includeExtension: false,
         };
-        break;
       case 'prefix':
-        this.ruleParams = { prefix: '', separator: '' };
-        break;
+        return { prefix: '', separator: '' };
       case 'suffix':
-        this.ruleParams = { suffix: '', separator: '' };
-        break;
+        return { suffix: '', separator: '' };
       case 'numbering':
-        this.ruleParams = {
+        return {
           startNumber: 1,
           digits: 3,
           position: 'prefix',
           format: '{num}',
           separator: '-',
+          sortBy: 'manual',
+          sortOrder: 'asc',
+          step: 1,
+          resetPerExtension: false,
+          resetPerFolder: false,
         };
-        break;
       case 'sanitize':
-        this.ruleParams = { removeIllegal: true, removeChars: '' };
-        break;
+        return { removeIllegal: true, removeChars: '' };
       case 'episodeExtract':
-        this.ruleParams = {
+        return {
           template: '{prefix}.S{season}E{episode}{ext}',
           prefix: '',
           season: 1,
@@ -178,9 +281,29 @@ export class ConfigPanel extends LitElement {
           helperPre: '',
           helperPost: '',
         };
-        break;
+      case 'template':
+        return { template: '{name}_{index:3}{ext}' };
+      case 'organize':
+        return { pathTemplate: '{prefix}/Season {season}' };
+      case 'case':
+        return { mode: 'title', includeExtension: false, stopWords: DEFAULT_TITLE_STOP_WORDS.join(', ') };
+      default:
+        return {};
     }
+  }
 
+  /**
+   * Handle rule type change
+   * @private
+   */
+  private handleRuleChange(type: RuleType): void {
+    this.selectedRuleType = type;
+    this.regexValidationError = null;
+
+    // Reset params based on rule type
+    this.ruleParams = this.getDefaultParams(type);
+
+    this.commitActiveStep();
     this.validateRegexIfNeeded();
     this.emitConfigChange();
   }
@@ -195,10 +318,269 @@ export class ConfigPanel extends LitElement {
       [key]: value,
     };
 
+    this.commitActiveStep();
     this.validateRegexIfNeeded();
     this.emitConfigChange();
   }
 
+  /**
+   * Write the edited rule back into the active step
+   * @private
+   */
+  private commitActiveStep(): void {
+    this.steps = this.steps.map((step, index) =>
+      index === this.activeStepIndex
+        ? { ...step, type: this.selectedRuleType, params: this.ruleParams }
+        : step
+    );
+  }
+
+  /**
+   * Load a step into the editor
+   * @private
+   */
+  private loadStep(index: number): void {
+    const step = this.steps[index];
+    if (!step) return;
+
+    this.activeStepIndex = index;
+    this.selectedRuleType = step.type;
+    this.ruleParams = { ...step.params };
+    this.validateRegexIfNeeded();
+  }
+
+  private handleAddStep(): void {
+    this.steps = [
+      ...this.steps,
+      { type: 'replace', params: this.getDefaultParams('replace'), enabled: true },
+    ];
+    this.loadStep(this.steps.length - 1);
+    this.emitConfigChange();
+  }
+
+  private handleSelectStep(index: number): void {
+    if (index === this.activeStepIndex) return;
+    this.loadStep(index);
+  }
+
+  private handleMoveStep(index: number, delta: -1 | 1): void {
+    const target = index + delta;
+    if (target < 0 || target >= this.steps.length) return;
+
+    const next = this.steps.slice();
+    [next[index], next[target]] = [next[target], next[index]];
+    this.steps = next;
+
+    if (this.activeStepIndex === index) {
+      this.activeStepIndex = target;
+    } else if (this.activeStepIndex === target) {
+      this.activeStepIndex = index;
+    }
+    this.emitConfigChange();
+  }
+
+  private handleToggleStep(index: number, input: HTMLInputElement): void {
+    const enabled = input.checked;
+    // The last enabled step cannot be disabled: a chain without enabled steps is not a valid rule
+    if (!enabled && this.isLastEnabledStep(index)) {
+      input.checked = true;
+      return;
+    }
+
+    this.steps = this.steps.map((step, i) => (i === index ? { ...step, enabled } : step));
+    this.emitConfigChange();
+  }
+
+  private isLastEnabledStep(index: number): boolean {
+    return this.steps[index]?.enabled !== false && getEnabledPipelineSteps(this.steps).length <= 1;
+  }
+
+  private handleVerifyAfterRenameChange(e: Event): void {
+    this.dispatchEvent(
+      new CustomEvent('verify-change', {
+        detail: { enabled: (e.target as HTMLInputElement).checked },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private handleSkipFoldersChange(e: Event): void {
+    this.skipFolders = (e.target as HTMLInputElement).checked;
+    this.emitConfigChange();
+  }
+
+  private handleRemoveStep(index: number): void {
+    if (this.steps.length <= 1) return;
+
+    const remaining = this.steps.filter((_step, i) => i !== index);
+    // Removing the only enabled step re-enables the first remaining one
+    this.steps =
+      getEnabledPipelineSteps(remaining).length > 0
+        ? remaining
+        : remaining.map((step, i) => (i === 0 ? { ...step, enabled: true } : step));
+    const nextActive =
+      this.activeStepIndex > index || this.activeStepIndex >= this.steps.length
+        ? this.activeStepIndex - 1
+        : this.activeStepIndex;
+    this.loadStep(Math.max(0, nextActive));
+    this.emitConfigChange();
+  }
+
+  private async loadPresets(): Promise<void> {
+    try {
+      this.presets = await rulePresetStore.list();
+    } catch (error) {
+      logger.error('[ConfigPanel] Failed to load rule presets:', error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private handlePresetSelect(id: string): void {
+    this.selectedPresetId = id;
+    this.presetMessage = null;
+
+    const preset = this.presets.find((item) => item.id === id);
+    if (preset) {
+      this.applyRuleConfig(preset.rule);
+    }
+  }
+
+  private async handlePresetSave(): Promise<void> {
+    const current = this.presets.find((item) => item.id === this.selectedPresetId);
+    const input = prompt(I18nService.t('preset_name_prompt'), current?.name ?? '');
+    const name = input?.trim();
+    if (!name) return;
+
+    if (
+      this.presets.some((item) => item.name === name) &&
+      !confirm(I18nService.t('preset_overwrite_confirm', [name]))
+    ) {
+      return;
+    }
+
+    try {
+      const saved = await rulePresetStore.save(name, this.buildRuleConfig());
+      await this.loadPresets();
+      this.selectedPresetId = saved.id;
+      this.presetMessage = { text: I18nService.t('preset_saved', [name]), error: false };
+    } catch (error) {
+      this.presetMessage = {
+        text: I18nService.t('preset_save_failed', [getErrorMessage(error)]),
+        error: true,
+      };
+    }
+  }
+
+  private async handlePresetDelete(): Promise<void> {
+    const preset = this.presets.find((item) => item.id === this.selectedPresetId);
+    if (!preset || !confirm(I18nService.t('preset_delete_confirm', [preset.name]))) {
+      return;
+    }
+
+    try {
+      await rulePresetStore.remove(preset.id);
+    } catch (error) {
+      this.presetMessage = { text: I18nService.t('preset_delete_failed', [getErrorMessage(error)]), error: true };
+      return;
+    }
+
+    this.selectedPresetId = '';
+    this.presetMessage = null;
+    await this.loadPresets();
+  }
+
+  private async handlePresetExport(): Promise<void> {
+    if (this.presets.length === 0) {
+      this.presetMessage = { text: I18nService.t('preset_export_empty'), error: true };
+      return;
+    }
+
+    await downloadRulePresets(this.presets);
+  }
+
+  private handlePresetImportClick(): void {
+    this.shadowRoot?.querySelector<HTMLInputElement>('[data-role="preset-import-input"]')?.click();
+  }
+
+  private async handlePresetImportFile(e: Event): Promise<void> {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    let parsed: ReturnType<typeof parseRulePresetFile>;
+    try {
+      parsed = parseRulePresetFile(await file.text());
+      if (parsed.presets.length > 0) {
+        await rulePresetStore.importEntries(parsed.presets);
+        await this.loadPresets();
+      }
+    } catch (error) {
+      this.presetMessage = { text: I18nService.t('preset_import_failed', [getErrorMessage(error)]), error: true };
+      return;
+    }
+
+    const { presets, issues } = parsed;
+
+    const lines = [
+      ...(presets.length > 0 ? [I18nService.t('preset_imported', [String(presets.length)])] : []),
+      ...issues.map((issue) => this.formatPresetIssue(issue)),
+    ];
+    this.presetMessage = { text: lines.join('\n'), error: issues.length > 0 };
+  }
+
+  private formatPresetIssue(issue: RulePresetIssue): string {
+    const name = issue.presetName ?? '-';
+    const step = issue.step ? ` ${I18nService.t('preset_error_step', [String(issue.step)])}` : '';
+
+    switch (issue.code) {
+      case 'invalid_file':
+        return I18nService.t('preset_error_invalid_file');
+      case 'unsupported_version':
+        return I18nService.t('preset_error_unsupported_version', [issue.detail ?? '']);
+      case 'unknown_rule_type':
+        return I18nService.t('preset_error_unknown_rule_type', [name, issue.detail ?? '']) + step;
+      case 'invalid_params':
+        return I18nService.t('preset_error_invalid_params', [name, issue.detail ?? '']) + step;
+      case 'invalid_entry':
+      default:
+        return I18nService.t('preset_error_invalid_entry', [name]) + step;
+    }
+  }
+
+  private formatTemplateIssue(issue: TemplateIssue): string {
+    return issue.code === 'unknown_token'
+      ? I18nService.t('param_template_unknown_token', [issue.token])
+      : I18nService.t('param_template_invalid_modifier', [issue.token]);
+  }
+
+  /**
+   * Build the rule config emitted to the parent
+   * - A single step is emitted as a plain rule config
+   * - Multiple steps are emitted as a `pipeline` rule
+   * @private
+   */
+  private buildRuleConfig(): RuleConfig {
+    const folderOption = this.skipFolders ? { skipFolders: true } : {};
+
+    if (this.steps.length === 1) {
+      const [step] = this.steps;
+      return { type: step.type, params: step.params, ...folderOption };
+    }
+
+    return {
+      type: 'pipeline',
+      params: {
+        steps: this.steps.map((step) => ({
+          type: step.type,
+          params: step.params,
+          enabled: step.enabled !== false,
+        })),
+      },
+      ...folderOption,
+    };
+  }
+
   private validateRegexIfNeeded(): void {
     if (this.selectedRuleType !== 'regex') {
       this.regexValidationError = null;
@@ -258,10 +640,7 @@ export class ConfigPanel extends LitElement {
    * @private
    */
   private emitConfigChange(): void {
-    const config: RuleConfig = {
-      type: this.selectedRuleType,
-      params: this.ruleParams,
-    };
+    const config = this.buildRuleConfig();
 
     this.dispatchEvent(
       new CustomEvent('config-change', {
@@ -309,6 +688,26 @@ export class ConfigPanel extends LitElement {
     `;
   }
 
+  private renderHistoryIconButton() {
+    const label = I18nService.t('history_open');
+
+    return html`
+      <button
+        class="button-icon button-icon-history"
+        data-role="history-icon-button"
+        ?disabled=${this.undoBusy}
+        @click=${this.handleHistory}
+        title=${label}
+        aria-label=${label}
+      >
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true">
+          <circle cx="12" cy="12" r="9"></circle>
+          <path d="M12 7v5l3 3"></path>
+        </svg>
+      </button>
+    `;
+  }
+
   render() {
     const canExecute = this.renameCount > 0 && !this.disabled && !this.executing;
     const hasConflicts = this.conflictCount > 0;
@@ -321,7 +720,9 @@ export class ConfigPanel extends LitElement {
         </div>
 
         <div class="panel-body">
-          ${showExecutionView ? this.renderExecutionView() : html`${this.renderRuleSelector()}${this.renderRuleConfig()}`}
+          ${showExecutionView
+            ? this.renderExecutionView()
+            : html`${this.renderPresetSection()}${this.renderPipelineSteps()}${this.renderRuleSelector()}${this.renderRuleConfig()}`}
         </div>
 
         <div class="panel-footer">
@@ -336,6 +737,15 @@ export class ConfigPanel extends LitElement {
           ${showExecutionView
             ? this.renderExecutionActions()
             : html`
+                <label class="form-checkbox verify-after-rename">
+                  <input
+                    type="checkbox"
+                    data-role="verify-toggle"
+                    ?checked=${this.verifyAfterRename}
+                    @change=${this.handleVerifyAfterRenameChange}
+                  />
+                  <span>${I18nService.t('verify_after_rename')}</span>
+                </label>
                 <div class="execution-actions">
                   <div class="execution-actions-main">
                     <button
@@ -347,6 +757,7 @@ export class ConfigPanel extends LitElement {
                       ${this.selectedCount > 0 ? ` (${this.renameCount})` : ''}
                     </button>
                   </div>
+                  ${this.renderHistoryIconButton()}
                   ${this.renderUndoIconButton()}
                 </div>
               `}
@@ -408,6 +819,10 @@ export class ConfigPanel extends LitElement {
           </div>
         </div>
 
+        ${this.executing && this.paused && this.pauseNotice
+          ? html`<div class="pause-notice" role="alert">${this.pauseNotice}</div>`
+          : ''}
+
         ${this.finished && showSyncStatus
           ? html`
               <div class="sync-status ${this.syncStatus}">
@@ -432,9 +847,19 @@ export class ConfigPanel extends LitElement {
     if (this.executing) {
       return html`
         <div class="execution-actions">
-          <button class="button button-default" @click=${this.handlePauseToggle}>
-            ${this.paused ? I18nService.t('progress_button_resume') : I18nService.t('progress_button_pause')}
-          </button>
+          ${this.paused && this.recheckOnResume
+            ? html`
+                <button class="button button-primary" ?disabled=${this.rechecking} @click=${this.handleRecheck}>
+                  ${this.rechecking
+                    ? I18nService.t('progress_rechecking')
+                    : I18nService.t('progress_button_recheck_resume')}
+                </button>
+              `
+            : html`
+                <button class="button button-default" @click=${this.handlePauseToggle}>
+                  ${this.paused ? I18nService.t('progress_button_resume') : I18nService.t('progress_button_pause')}
+                </button>
+              `}
           <button class="button button-danger" @click=${this.handleCancel}>
             ${I18nService.t('progress_button_cancel')}
           </button>
@@ -454,6 +879,7 @@ export class ConfigPanel extends LitElement {
             ${I18nService.t('back')}
           </button>
         </div>
+        ${this.renderHistoryIconButton()}
         ${this.renderUndoIconButton()}
       </div>
     `;
@@ -469,6 +895,15 @@ export class ConfigPanel extends LitElement {
     );
   }
 
+  private handleRecheck(): void {
+    this.dispatchEvent(
+      new CustomEvent('recheck', {
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
   private handleCancel(): void {
     this.dispatchEvent(
       new CustomEvent('cancel', {
@@ -505,6 +940,15 @@ export class ConfigPanel extends LitElement {
     );
   }
 
+  private handleHistory(): void {
+    this.dispatchEvent(
+      new CustomEvent('history', {
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
   private handleBack(): void {
     this.dispatchEvent(
       new CustomEvent('back', {
@@ -641,11 +1085,11 @@ export class ConfigPanel extends LitElement {
   }
 
   /**
-   * Render rule selector
+   * Selectable rule types (a rule chain is built from these, so `pipeline` is not listed)
    * @private
    */
-  private renderRuleSelector() {
-    const rules: { type: RuleType; label: string }[] = [
+  private getRuleOptions(): { type: RuleType; label: string }[] {
+    return [
       { type: 'replace', label: I18nService.t('rule_replace') },
       { type: 'regex', label: I18nService.t('rule_regex') },
       { type: 'prefix', label: I18nService.t('rule_prefix') },
@@ -653,7 +1097,165 @@ export class ConfigPanel extends LitElement {
       { type: 'numbering', label: I18nService.t('rule_numbering') },
       { type: 'sanitize', label: I18nService.t('rule_sanitize') },
       { type: 'episodeExtract', label: I18nService.t('rule_episode_extract') },
+      { type: 'case', label: I18nService.t('rule_case') },
+      { type: 'template', label: I18nService.t('rule_template') },
+      { type: 'organize', label: I18nService.t('rule_organize') },
     ];
+  }
+
+  /**
+   * Rule types offered in the selector; organize needs a platform that can move files.
+   * A step of an unsupported type that is already in the chain stays visible.
+   * @private
+   */
+  private getAvailableRuleOptions(): { type: RuleType; label: string }[] {
+    return this.getRuleOptions().filter(
+      (rule) => rule.type !== 'organize' || this.capabilities?.move !== false || this.selectedRuleType === 'organize'
+    );
+  }
+
+  /**
+   * Render rule preset library (select / save / delete / import / export)
+   * @private
+   */
+  private renderPresetSection() {
+    return html`
+      <div class="preset-section" data-role="preset-section">
+        <div class="section-title">${I18nService.t('preset_title')}</div>
+        <select
+          class="form-select"
+          data-role="preset-select"
+          .value=${this.selectedPresetId}
+          @change=${(e: Event) => this.handlePresetSelect((e.target as HTMLSelectElement).value)}
+        >
+          <option value="" ?selected=${!this.selectedPresetId}>${I18nService.t('preset_select_placeholder')}</option>
+          ${this.presets.map(
+            (preset) => html`
+              <option value=${preset.id} ?selected=${preset.id === this.selectedPresetId}>${preset.name}</option>
+            `
+          )}
+        </select>
+        <div class="preset-actions">
+          <button class="preset-action" data-role="preset-save" @click=${this.handlePresetSave}>
+            ${I18nService.t('preset_save')}
+          </button>
+          <button
+            class="preset-action"
+            data-role="preset-delete"
+            ?disabled=${!this.selectedPresetId}
+            @click=${this.handlePresetDelete}
+          >
+            ${I18nService.t('preset_delete')}
+          </button>
+          <button class="preset-action" data-role="preset-import" @click=${this.handlePresetImportClick}>
+            ${I18nService.t('preset_import')}
+          </button>
+          <button class="preset-action" data-role="preset-export" @click=${this.handlePresetExport}>
+            ${I18nService.t('preset_export')}
+          </button>
+          <input
+            type="file"
+            accept=".json,application/json"
+            data-role="preset-import-input"
+            hidden
+            @change=${this.handlePresetImportFile}
+          />
+        </div>
+        ${this.presetMessage
+          ? html`<div
+              class="hint-text preset-message ${this.presetMessage.error ? 'hint-text-error' : ''}"
+              data-role="preset-message"
+            >${this.presetMessage.text}</div>`
+          : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Render rule chain step list
+   * @private
+   */
+  private renderPipelineSteps() {
+    const labels = new Map(this.getRuleOptions().map((rule) => [rule.type, rule.label]));
+    const lastIndex = this.steps.length - 1;
+
+    return html`
+      <div class="pipeline-steps" data-role="pipeline-steps">
+        <div class="section-title">${I18nService.t('pipeline_title')}</div>
+        <div class="pipeline-step-list">
+          ${this.steps.map(
+            (step, index) => html`
+              <div
+                class="pipeline-step ${index === this.activeStepIndex ? 'selected' : ''} ${step.enabled === false ? 'disabled' : ''}"
+                data-role="pipeline-step"
+                @click=${() => this.handleSelectStep(index)}
+              >
+                <input
+                  type="checkbox"
+                  data-role="pipeline-step-toggle"
+                  title=${I18nService.t(this.isLastEnabledStep(index) ? 'pipeline_step_last_enabled' : 'pipeline_step_enabled')}
+                  .checked=${step.enabled !== false}
+                  ?disabled=${this.steps.length <= 1 || this.isLastEnabledStep(index)}
+                  @click=${(e: Event) => e.stopPropagation()}
+                  @change=${(e: Event) => this.handleToggleStep(index, e.target as HTMLInputElement)}
+                />
+                <span class="pipeline-step-label">${index + 1}. ${labels.get(step.type) ?? step.type}</span>
+                <button
+                  class="pipeline-step-action"
+                  title=${I18nService.t('pipeline_step_move_up')}
+                  ?disabled=${index === 0}
+                  @click=${(e: Event) => {
+                    e.stopPropagation();
+                    this.handleMoveStep(index, -1);
+                  }}
+                >↑</button>
+                <button
+                  class="pipeline-step-action"
+                  title=${I18nService.t('pipeline_step_move_down')}
+                  ?disabled=${index === lastIndex}
+                  @click=${(e: Event) => {
+                    e.stopPropagation();
+                    this.handleMoveStep(index, 1);
+                  }}
+                >↓</button>
+                <button
+                  class="pipeline-step-action"
+                  data-role="pipeline-step-remove"
+                  title=${I18nService.t('pipeline_step_remove')}
+                  ?disabled=${this.steps.length <= 1}
+                  @click=${(e: Event) => {
+                    e.stopPropagation();
+                    this.handleRemoveStep(index);
+                  }}
+                >×</button>
+              </div>
+            `
+          )}
+        </div>
+        <button class="pipeline-add" data-role="pipeline-add-step" @click=${this.handleAddStep}>
+          + ${I18nService.t('pipeline_add_step')}
+        </button>
+        ${this.capabilities?.folderRename === false
+          ? ''
+          : html`<label class="form-checkbox pipeline-skip-folders">
+              <input
+                type="checkbox"
+                data-role="skip-folders-toggle"
+                ?checked=${this.skipFolders}
+                @change=${this.handleSkipFoldersChange}
+              />
+              <span>${I18nService.t('rule_skip_folders')}</span>
+            </label>`}
+      </div>
+    `;
+  }
+
+  /**
+   * Render rule selector
+   * @private
+   */
+  private renderRuleSelector() {
+    const rules = this.getAvailableRuleOptions();
 
     return html`
       <div class="rule-selector">
@@ -883,10 +1485,73 @@ export class ConfigPanel extends LitElement {
               .value=${String(this.ruleParams.startNumber ?? 1)}
               @input=${(e: Event) =>
                 this.updateParam('startNumber', parseInt((e.target as HTMLInputElement).value, 10))}
-              min="0"
             />
           </div>
 
+          <div class="form-group">
+            <label class="form-label">${I18nService.t('param_numbering_step')}</label>
+            <input
+              type="number"
+              class="form-input"
+              data-role="numbering-step"
+              .value=${String(this.ruleParams.step ?? 1)}
+              @input=${(e: Event) => this.updateParam('step', parseInt((e.target as HTMLInputElement).value, 10))}
+            />
+            <div class="hint-text">${I18nService.t('param_numbering_step_hint')}</div>
+          </div>
+
+          <div class="form-group">
+            <label class="form-label">${I18nService.t('param_numbering_sort_by')}</label>
+            <select
+              class="form-select"
+              data-role="numbering-sort-by"
+              .value=${this.ruleParams.sortBy || 'manual'}
+              @change=${(e: Event) => this.updateParam('sortBy', (e.target as HTMLSelectElement).value)}
+            >
+              <option value="manual">${I18nService.t('param_numbering_sort_manual')}</option>
+              <option value="name">${I18nService.t('param_numbering_sort_name')}</option>
+              <option value="mtime">${I18nService.t('param_numbering_sort_mtime')}</option>
+              <option value="size">${I18nService.t('param_numbering_sort_size')}</option>
+            </select>
+          </div>
+
+          <div class="form-group">
+            <label class="form-label">${I18nService.t('param_numbering_sort_order')}</label>
+            <select
+              class="form-select"
+              .value=${this.ruleParams.sortOrder || 'asc'}
+              ?disabled=${(this.ruleParams.sortBy || 'manual') === 'manual'}
+              @change=${(e: Event) => this.updateParam('sortOrder', (e.target as HTMLSelectElement).value)}
+            >
+              <option value="asc">${I18nService.t('param_numbering_sort_asc')}</option>
+              <option value="desc">${I18nService.t('param_numbering_sort_desc')}</option>
+            </select>
+          </div>
+
+          <div class="form-group">
+            <label class="form-checkbox">
+              <input
+                type="checkbox"
+                ?checked=${Boolean(this.ruleParams.resetPerExtension)}
+                @change=${(e: Event) =>
+                  this.updateParam('resetPerExtension', (e.target as HTMLInputElement).checked)}
+              />
+              <span>${I18nService.t('param_numbering_reset_per_extension')}</span>
+            </label>
+          </div>
+
+          <div class="form-group">
+            <label class="form-checkbox">
+              <input
+                type="checkbox"
+                ?checked=${Boolean(this.ruleParams.resetPerFolder)}
+                @change=${(e: Event) =>
+                  this.updateParam('resetPerFolder', (e.target as HTMLInputElement).checked)}
+              />
+              <span>${I18nService.t('param_numbering_reset_per_folder')}</span>
+            </label>
+          </div>
+
           <div class="form-group">
             <label class="form-label">${I18nService.t('param_digits')}</label>
             <input
@@ -963,6 +1628,100 @@ export class ConfigPanel extends LitElement {
           </div>
         `;
 
+      case 'template': {
+        const templateIssues = findTemplateIssues(String(this.ruleParams.template || ''));
+
+        return html`
+          <div class="form-group">
+            <label class="form-label">${I18nService.t('param_template')}</label>
+            <input
+              type="text"
+              class="form-input"
+              data-role="template-input"
+              .value=${this.ruleParams.template || ''}
+              @input=${(e: Event) => this.updateParam('template', (e.target as HTMLInputElement).value)}
+              placeholder="{name}_{index:3}{ext}"
+            />
+            ${templateIssues.length > 0
+              ? html`<div class="hint-text hint-text-error" data-role="template-error">
+                  ${templateIssues.map((issue) => this.formatTemplateIssue(issue)).join('; ')}
+                </div>`
+              : html`<div class="hint-text">${I18nService.t('param_template_hint')}</div>`}
+          </div>
+        `;
+      }
+
+      case 'organize': {
+        const pathIssues = findTemplateIssues(String(this.ruleParams.pathTemplate || ''), ORGANIZE_EPISODE_TOKENS);
+
+        return html`
+          <div class="form-group">
+            <label class="form-label">${I18nService.t('param_organize_path')}</label>
+            <input
+              type="text"
+              class="form-input"
+              data-role="organize-path-input"
+              .value=${this.ruleParams.pathTemplate || ''}
+              @input=${(e: Event) => this.updateParam('pathTemplate', (e.target as HTMLInputElement).value)}
+              placeholder="{prefix}/Season {season}"
+            />
+            ${pathIssues.length > 0
+              ? html`<div class="hint-text hint-text-error" data-role="organize-path-error">
+                  ${pathIssues.map((issue) => this.formatTemplateIssue(issue)).join('; ')}
+                </div>`
+              : html`<div class="hint-text">${I18nService.t('param_organize_path_hint')}</div>`}
+          </div>
+        `;
+      }
+
+      case 'case':
+        return html`
+          <div class="form-group">
+            <label class="form-label">${I18nService.t('param_case_mode')}</label>
+            <select
+              class="form-select"
+              data-role="case-mode"
+              .value=${this.ruleParams.mode || 'title'}
+              @change=${(e: Event) => this.updateParam('mode', (e.target as HTMLSelectElement).value)}
+            >
+              <option value="upper">${I18nService.t('param_case_upper')}</option>
+              <option value="lower">${I18nService.t('param_case_lower')}</option>
+              <option value="title">${I18nService.t('param_case_title')}</option>
+              <option value="sentence">${I18nService.t('param_case_sentence')}</option>
+              <option value="camel">${I18nService.t('param_case_camel')}</option>
+              <option value="snake">${I18nService.t('param_case_snake')}</option>
+              <option value="kebab">${I18nService.t('param_case_kebab')}</option>
+            </select>
+            <div class="hint-text">${I18nService.t('param_case_mode_hint')}</div>
+          </div>
+
+          ${this.ruleParams.mode === 'title'
+            ? html`
+                <div class="form-group">
+                  <label class="form-label">${I18nService.t('param_case_stop_words')}</label>
+                  <input
+                    type="text"
+                    class="form-input"
+                    .value=${this.ruleParams.stopWords ?? ''}
+                    @input=${(e: Event) => this.updateParam('stopWords', (e.target as HTMLInputElement).value)}
+                  />
+                  <div class="hint-text">${I18nService.t('param_case_stop_words_hint')}</div>
+                </div>
+              `
+            : ''}
+
+          <div class="form-group">
+            <label class="form-checkbox">
+              <input
+                type="checkbox"
+                ?checked=${Boolean(this.ruleParams.includeExtension)}
+                @change=${(e: Event) => this.updateParam('includeExtension', (e.target as HTMLInputElement).checked)}
+              />
+              <span>${I18nService.t('param_case_include_extension')}</span>
+            </label>
+          </div>
+        `;
+
       case 'episodeExtract':
         return html`
           <div class="form-group">
@@ -1224,6 +1983,17 @@ export class ConfigPanel extends LitElement {
       text-decoration: underline;
     }
 
+    .pause-notice {
+      font-size: 12px;
+      line-height: 1.5;
+      white-space: pre-line;
+      color: var(--cdr-warning-text, #ad6800);
+      padding: 8px 10px;
+      border-radius: 6px;
+      border: 1px solid var(--cdr-warning-border, #ffd591);
+      background: var(--cdr-warning-bg, #fffbe6);
+    }
+
     .diagnostic-prompt {
       display: flex;
       flex-direction: column;
@@ -1284,6 +2054,135 @@ export class ConfigPanel extends LitElement {
       margin-bottom: 24px;
     }
 
+    .preset-section {
+      margin-bottom: 24px;
+    }
+
+    .preset-actions {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      margin-top: 8px;
+    }
+
+    .preset-action {
+      flex: 1;
+      padding: 4px 8px;
+      border: 1px solid var(--cdr-border-strong, #d9d9d9);
+      border-radius: 4px;
+      background: var(--cdr-surface, #fff);
+      color: var(--cdr-text-secondary, #595959);
+      font-size: 12px;
+      cursor: pointer;
+    }
+
+    .preset-action:hover:not(:disabled) {
+      border-color: var(--cdr-primary, #1890ff);
+      color: var(--cdr-primary, #1890ff);
+    }
+
+    .preset-action:disabled {
+      color: var(--cdr-text-disabled, #bfbfbf);
+      cursor: not-allowed;
+    }
+
+    .preset-message {
+      white-space: pre-line;
+    }
+
+    .pipeline-steps {
+      margin-bottom: 24px;
+    }
+
+    .pipeline-step-list {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      margin-bottom: 8px;
+    }
+
+    .pipeline-step {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 6px 8px;
+      border: 1px solid var(--cdr-border-strong, #d9d9d9);
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 13px;
+      transition: all 0.2s;
+    }
+
+    .pipeline-step:hover {
+      border-color: var(--cdr-primary, #1890ff);
+    }
+
+    .pipeline-step.selected {
+      border-color: var(--cdr-primary, #1890ff);
+      background-color: var(--cdr-selection-bg, #e6f7ff);
+    }
+
+    .pipeline-step.disabled .pipeline-step-label {
+      color: var(--cdr-text-disabled, #bfbfbf);
+      text-decoration: line-through;
+    }
+
+    .pipeline-step input[type='checkbox'] {
+      margin: 0;
+      cursor: pointer;
+    }
+
+    .pipeline-step-label {
+      flex: 1;
+      min-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .pipeline-step-action {
+      width: 22px;
+      height: 22px;
+      padding: 0;
+      border: none;
+      border-radius: 4px;
+      background: transparent;
+      color: var(--cdr-text-secondary, #595959);
+      cursor: pointer;
+    }
+
+    .pipeline-step-action:hover:not(:disabled) {
+      background: var(--cdr-surface-hover, #f5f5f5);
+      color: var(--cdr-primary, #1890ff);
+    }
+
+    .pipeline-step-action:disabled {
+      color: var(--cdr-text-disabled, #bfbfbf);
+      cursor: not-allowed;
+    }
+
+    .pipeline-add {
+      width: 100%;
+      padding: 6px 12px;
+      border: 1px dashed var(--cdr-border-strong, #d9d9d9);
+      border-radius: 4px;
+      background: transparent;
+      color: var(--cdr-text-secondary, #595959);
+      font-size: 13px;
+      cursor: pointer;
+    }
+
+    .pipeline-add:hover {
+      border-color: var(--cdr-primary, #1890ff);
+      color: var(--cdr-primary, #1890ff);
+    }
+
+    .pipeline-skip-folders {
+      margin-top: 8px;
+      font-size: 13px;
+      color: var(--cdr-text-secondary, #595959);
+    }
+
     .section-title {
       font-size: 14px;
       font-weight: 600;
@@ -1375,6 +2274,12 @@ export class ConfigPanel extends LitElement {
       cursor: pointer;
     }
 
+    .verify-after-rename {
+      font-size: 12px;
+      color: var(--cdr-text-secondary, #595959);
+      margin-bottom: 8px;
+    }
+
     .form-checkbox input {
       width: 16px;
       height: 16px;
@@ -1525,6 +2430,10 @@ export class ConfigPanel extends LitElement {
   `;
 }
 
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
 declare global {
   interface HTMLElementTagNameMap {
     'config-panel': ConfigPanel;
@@ -1,8 +1,9 @@
 import { LitElement, html, css } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
-import { FileItem } from '../../types/platform';
-import { FileType } from '../../types/file-selector';
+import { FileItem, RecursiveListProgress } from '../../types/platform';
+import { FileType, RecursiveScanSettings } from '../../types/file-selector';
 import { I18nService } from '../../utils/i18n';
+import './folder-scan-options';
 import './search-box';
 import './toolbar';
 import './virtual-file-list';
@@ -16,6 +17,8 @@ import './virtual-file-list';
  * @fires deselect-all - Dispatched when deselect all is triggered
  * @fires type-filter - Dispatched when type filter changes
  * @fires file-toggle - Dispatched when file checkbox is toggled
+ * @fires scan-settings-change - Dispatched when subfolder loading settings change
+ * @fires scan-cancel - Dispatched when a subfolder scan is cancelled
  *
  * @example
  * ```html
@@ -72,6 +75,24 @@ export class FileListPanel extends LitElement {
   @property({ type: Boolean })
   disabled = false;
 
+  /**
+   * Whether the platform can load subfolders (shows the folder scan options)
+   */
+  @property({ type: Boolean })
+  recursiveAvailable = false;
+
+  /**
+   * Subfolder loading settings
+   */
+  @property({ attribute: false })
+  scanSettings: RecursiveScanSettings | null = null;
+
+  /**
+   * Progress of a running subfolder scan (null when not scanning)
+   */
+  @property({ attribute: false })
+  scanProgress: RecursiveListProgress | null = null;
+
   /**
    * Handle search event
    * @private
@@ -130,6 +151,63 @@ export class FileListPanel extends LitElement {
     );
   }
 
+  /**
+   * Handle scan settings change event
+   * @private
+   */
+  private handleScanSettingsChange(e: CustomEvent): void {
+    e.stopPropagation();
+    this.dispatchEvent(
+      new CustomEvent('scan-settings-change', {
+        detail: e.detail,
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  /**
+   * Handle scan cancel button click
+   * @private
+   */
+  private handleScanCancel(): void {
+    this.dispatchEvent(
+      new CustomEvent('scan-cancel', {
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  /**
+   * Render loading state (with progress and cancel while scanning subfolders)
+   * @private
+   */
+  private renderLoading() {
+    const progress = this.scanProgress;
+
+    return html`
+      <div class="loading-state">
+        <div class="spinner"></div>
+        <p>${I18nService.t('loading_files')}</p>
+        ${progress
+          ? html`
+              <p class="scan-progress" data-role="scan-progress">
+                ${I18nService.t('recursive_scan_progress', [
+                  String(progress.foldersScanned),
+                  String(progress.filesFound),
+                ])}
+              </p>
+              <p class="scan-path" title=${progress.currentPath}>${progress.currentPath || '/'}</p>
+              <button class="scan-cancel-button" type="button" data-role="scan-cancel-button" @click=${this.handleScanCancel}>
+                ${I18nService.t('recursive_scan_cancel')}
+              </button>
+            `
+          : ''}
+      </div>
+    `;
+  }
+
   /**
    * Handle file toggle event
    * @private
@@ -170,14 +248,19 @@ export class FileListPanel extends LitElement {
           @type-filter=${this.handleTypeFilter}
         ></file-toolbar>
 
+        ${this.recursiveAvailable && this.scanSettings
+          ? html`
+              <folder-scan-options
+                .settings=${this.scanSettings}
+                ?disabled=${this.disabled || this.loading}
+                @scan-settings-change=${this.handleScanSettingsChange}
+              ></folder-scan-options>
+            `
+          : ''}
+
         <div class="list-container">
           ${this.loading
-            ? html`
-                <div class="loading-state">
-                  <div class="spinner"></div>
-                  <p>${I18nService.t('loading_files')}</p>
-                </div>
-              `
+            ? this.renderLoading()
             : html`
                 <virtual-file-list
                   .files=${this.files}
@@ -260,6 +343,29 @@ export class FileListPanel extends LitElement {
       margin: 0;
       font-size: 14px;
     }
+
+    .loading-state .scan-progress {
+      font-size: 13px;
+      color: var(--cdr-text-secondary, #595959);
+    }
+
+    .loading-state .scan-path {
+      max-width: 80%;
+      font-size: 12px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .scan-cancel-button {
+      padding: 4px 16px;
+      border: 1px solid var(--cdr-border-strong, #d9d9d9);
+      border-radius: 4px;
+      background: var(--cdr-surface, #fff);
+      color: var(--cdr-text, #262626);
+      font-size: 13px;
+      cursor: pointer;
+    }
   `;
 }
 
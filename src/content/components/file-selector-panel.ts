@@ -1,9 +1,18 @@
 import { LitElement, html, css, type PropertyValues } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
-import { FileItem, PlatformAdapter } from '../../types/platform';
-import { FileType, PreviewItem } from '../../types/file-selector';
+import {
+  DEFAULT_RECURSIVE_MAX_DEPTH,
+  FileItem,
+  PlatformAdapter,
+  PlatformCapabilities,
+  RecursiveListProgress,
+} from '../../types/platform';
+import { FileType, PreviewItem, RecursiveScanSettings } from '../../types/file-selector';
 import { RuleConfig } from '../../types/rule';
 import { RuleFactory } from '../../rules/rule-factory';
+import { ruleConfigIncludes } from '../../rules/pipeline';
+import { createOrganizeRule } from '../../rules/organize';
+import { orderFilesByRule } from '../../rules/numbering';
 import { BatchExecutor, ExecutorState } from '../../core/executor';
 import { buildExecutionPlan } from '../../core/execution-plan';
 import {
@@ -12,10 +21,25 @@ import {
   ConflictDetector,
   ConflictResolution,
   ConflictResult,
+  getScopedNameKey,
 } from '../../core/conflict-detector';
-import { crashRecovery, initCrashRecovery } from '../../core/crash-recovery';
+import { crashRecovery, RecoveryInterruptedError } from '../../core/crash-recovery';
+import { cookieManager, listenForPauseEvents } from '../../core/cookie-manager';
+import {
+  buildOrganizePlan,
+  buildOrganizeTree,
+  executeOrganizePlan,
+  findOrganizeConflicts,
+  OrganizeEntry,
+  OrganizeResults,
+  OrganizeRevertResults,
+  OrganizeTreeNode,
+  revertOrganizeMoves,
+  supportsOrganize,
+} from '../../core/organizer';
 import { buildLastFailureDiagnosticSnapshot } from '../../core/diagnostic-session';
-import { BatchResults, ProgressEvent } from '../../types/core';
+import { BatchResults, OperationState, ProgressEvent, VERIFY_AFTER_RENAME_STORAGE_KEY } from '../../types/core';
+import type { CircuitTrip } from '../../types/error';
 import {
   DIAGNOSTIC_STORAGE_KEYS,
   type DiagnosticPromptState,
@@ -26,8 +50,9 @@ import {
   mergeLastRenameOperation,
   retainFailedUndoItems,
 } from '../../core/last-rename-operation';
+import { createRenameJournalEntry, renameJournal } from '../../core/rename-journal';
 import { RUNTIME_MESSAGE_TYPES } from '../../types/runtime-message';
-import { LastRenameOperation } from '../../types/undo';
+import { LastRenameOperation, RenameJournalEntry, UndoRenameItem } from '../../types/undo';
 import {
   buildDiagnosticFeedbackText,
   buildGithubIssueUrl,
@@ -35,7 +60,10 @@ import {
   downloadDiagnosticPayload,
 } from '../../utils/diagnostic-download';
 import { I18nService } from '../../utils/i18n';
-import { parseFileName } from '../../utils/helpers';
+import { formatExecutionError, getErrorCategoryMessage } from '../../utils/error-messages';
+import { groupFilesByFolder, parseFolderPatterns } from '../../utils/folders';
+import { parseFileName, validateFileName } from '../../utils/helpers';
+import { exceedsMaxNameLength, getPlatformCapabilities } from '../../utils/platform-capabilities';
 import { logger } from '../../utils/logger';
 import { storage } from '../../utils/storage';
 import { recordUsageStatsDelta } from '../../utils/usage-stats';
@@ -43,6 +71,8 @@ import './config-panel';
 import './file-list-panel';
 import './preview-panel';
 import './conflict-resolution-dialog';
+import './rename-history-dialog';
+import './recovery-list-dialog';
 
 interface DiagnosticFeedbackContext {
   exportedAt: number;
@@ -96,6 +126,13 @@ export class FileSelectorPanel extends LitElement {
   @state()
   private newNameMap: Map<string, string> = new Map();
 
+  /**
+   * IDs of files whose new name was edited manually in the preview
+   * (their entry in newNameMap is kept when the rule changes)
+   */
+  @state()
+  private manualNameIds: Set<string> = new Set();
+
   /**
    * Map of file ID to extract rule error message
    * 用于“剧集提取”规则的失败可视化（失败文件跳过执行并在预览标红）
@@ -148,6 +185,55 @@ export class FileSelectorPanel extends LitElement {
   @state()
   private loading = false;
 
+  /**
+   * Organize plan of the current preview (files moved into template folders after renaming)
+   */
+  @state()
+  private organizeEntries: OrganizeEntry[] = [];
+
+  /**
+   * Move status per file ID once the organize step ran
+   */
+  @state()
+  private organizeStatus: Map<string, 'moved' | 'failed'> = new Map();
+
+  /**
+   * Organize plan captured when execution started (used by retry)
+   */
+  private executionOrganizeEntries: OrganizeEntry[] = [];
+
+  /**
+   * Files whose rename is done (or not needed) but whose move has not succeeded yet
+   */
+  private movePendingIds: Set<string> = new Set();
+
+  /**
+   * Subfolder loading settings
+   */
+  @state()
+  private scanSettings: RecursiveScanSettings = {
+    enabled: false,
+    maxDepth: DEFAULT_RECURSIVE_MAX_DEPTH,
+    include: '',
+    exclude: '',
+  };
+
+  /**
+   * Progress of the running subfolder scan (null when not scanning)
+   */
+  @state()
+  private scanProgress: RecursiveListProgress | null = null;
+
+  /**
+   * Settings the current file list was loaded with (restored when a scan is cancelled)
+   */
+  private loadedScanSettings: RecursiveScanSettings | null = null;
+
+  /**
+   * Controller of the latest file load (aborts a running subfolder scan)
+   */
+  private loadAbortController: AbortController | null = null;
+
   /**
    * Executing state
    */
@@ -160,6 +246,30 @@ export class FileSelectorPanel extends LitElement {
   @state()
   private executorState: ExecutorState = ExecutorState.IDLE;
 
+  /**
+   * Whether renamed files are re-read from the platform after execution (persisted)
+   */
+  @state()
+  private verifyAfterRename = false;
+
+  /**
+   * Why the circuit breaker paused the executor (null when not tripped)
+   */
+  @state()
+  private circuitTrip: CircuitTrip | null = null;
+
+  /**
+   * Whether a re-check before resuming is in progress
+   */
+  @state()
+  private rechecking = false;
+
+  /**
+   * Whether the last re-check still saw the failure
+   */
+  @state()
+  private recheckFailed = false;
+
   /**
    * Current execution progress
    */
@@ -190,9 +300,41 @@ export class FileSelectorPanel extends LitElement {
   @state()
   private lastRenameOperation: LastRenameOperation | null = null;
 
+  /**
+   * Rename journal entry backing lastRenameOperation (null when not persisted)
+   */
+  private lastJournalEntryId: string | null = null;
+
   @state()
   private undoBusy = false;
 
+  @state()
+  private historyOpen = false;
+
+  @state()
+  private historyEntries: RenameJournalEntry[] = [];
+
+  /**
+   * Interrupted operations of the current platform offered for recovery
+   */
+  @state()
+  private recoveryOperations: OperationState[] = [];
+
+  @state()
+  private recoveryOpen = false;
+
+  @state()
+  private recoveryBusy = false;
+
+  /**
+   * Interrupted operation being resumed or rolled back, and its latest progress
+   */
+  @state()
+  private recoveryActiveId: string | null = null;
+
+  @state()
+  private recoveryProgress: ProgressEvent | null = null;
+
   @state()
   private diagnosticPromptState: DiagnosticPromptState = 'hidden';
 
@@ -206,8 +348,11 @@ export class FileSelectorPanel extends LitElement {
   private diagnosticErrorMessage: string | null = null;
 
   private executor: BatchExecutor | null = null;
+  private stopPauseListener: (() => void) | null = null;
   private recoveryChecked = false;
   private operationIndexByFileId: Map<string, number> | null = null;
+  /** Crash recovery state key of the running batch (null for undo runs) */
+  private operationStateKey: string | null = null;
   private conflictDialogResolver: ((resolution: ConflictResolution | null) => void) | null = null;
   private diagnosticExecutionStartedAt: number | null = null;
   private diagnosticRetryCount = 0;
@@ -228,6 +373,15 @@ export class FileSelectorPanel extends LitElement {
     return this.filteredFiles.filter(f => !this.uncheckList.has(f.id));
   }
 
+  /**
+   * Computed: selected files in the order the rule numbers them
+   * (preview, conflict detection and execution all use this order;
+   * files loaded from subfolders stay grouped by folder)
+   */
+  private get orderedSelectedFiles(): FileItem[] {
+    return groupFilesByFolder(orderFilesByRule(this.selectedFiles, this.ruleConfig));
+  }
+
   /**
    * Computed: filtered files (after search and type filter)
    */
@@ -240,7 +394,7 @@ export class FileSelectorPanel extends LitElement {
 
       // Type filter
       if (this.typeFilter !== 'all') {
-        const fileType = this.getFileType(f.ext);
+        const fileType = this.getFileType(f);
         if (fileType !== this.typeFilter) {
           return false;
         }
@@ -251,24 +405,53 @@ export class FileSelectorPanel extends LitElement {
   }
 
   /**
-   * Computed: preview items
+   * Computed: preview items for every selected file
+   * (the preview panel hides unchanged rows unless the user turns that off)
    */
   private get previewList(): PreviewItem[] {
-    return this.selectedFiles
-      .map(f => ({
-        file: f,
-        newName: this.newNameMap.get(f.id) || f.name,
-        conflict: this.conflictIds.has(f.id),
-        error: this.extractErrorMap.get(f.id),
-      }))
-      .filter(item => item.newName !== item.file.name || Boolean(item.error));
+    const destinations = new Map(this.organizeEntries.map(entry => [entry.file.id, entry.segments.join('/')]));
+
+    return this.orderedSelectedFiles.map(f => ({
+      file: f,
+      newName: this.newNameMap.get(f.id) || f.name,
+      conflict: this.conflictIds.has(f.id),
+      error: this.extractErrorMap.get(f.id),
+      manual: this.manualNameIds.has(f.id),
+      destination: destinations.get(f.id),
+    }));
   }
 
   /**
-   * Computed: real rename task count (exclude unchanged and extract errors)
+   * Computed: real task count (exclude unchanged and extract errors;
+   * files the organize step moves count even when their name is unchanged)
    */
   private get renameTaskCount(): number {
-    return this.previewList.filter(item => !item.error && item.newName !== item.file.name).length;
+    const moving = this.organizeSupported;
+    return this.previewList.filter(
+      item => !item.error && (item.newName !== item.file.name || (moving && Boolean(item.destination)))
+    ).length;
+  }
+
+  /**
+   * Destination folder tree of the organize step (the executed plan once execution started)
+   */
+  private get organizeTree(): OrganizeTreeNode | null {
+    const entries = this.executionItems.length > 0 ? this.executionOrganizeEntries : this.organizeEntries;
+    return entries.length > 0 ? buildOrganizeTree(entries, this.adapter.getConfig()) : null;
+  }
+
+  /**
+   * Capabilities of the current platform (null before an adapter is set)
+   */
+  private get capabilities(): PlatformCapabilities | null {
+    return getPlatformCapabilities(this.adapter);
+  }
+
+  /**
+   * Whether the platform can run the organize step
+   */
+  private get organizeSupported(): boolean {
+    return Boolean(this.capabilities?.move) && supportsOrganize(this.adapter);
   }
 
   private get executionFinished(): boolean {
@@ -280,6 +463,8 @@ export class FileSelectorPanel extends LitElement {
    */
   async connectedCallback() {
     super.connectedCallback();
+    this.stopPauseListener ??= listenForPauseEvents(() => this.handleCookieExpired());
+    void this.loadVerifyAfterRename();
 
     if (this.open) {
       this.resetExecutionState();
@@ -290,6 +475,8 @@ export class FileSelectorPanel extends LitElement {
 
   disconnectedCallback(): void {
     this.resolveConflictDialog(null);
+    this.stopPauseListener?.();
+    this.stopPauseListener = null;
     super.disconnectedCallback();
   }
 
@@ -313,33 +500,93 @@ export class FileSelectorPanel extends LitElement {
    * @private
    */
   private async loadAllFiles(): Promise<void> {
+    // A newer load supersedes (and cancels) the running one
+    this.loadAbortController?.abort();
+    const controller = new AbortController();
+    this.loadAbortController = controller;
+    const settings = this.scanSettings;
+
     try {
       this.loading = true;
       this.error = null;
+      this.scanProgress = null;
 
       if (!this.adapter) {
         throw new Error('Platform adapter is not set');
       }
 
       logger.info('[FileSelectorPanel] Loading all files from adapter');
-      this.allFiles = await this.adapter.getAllFiles();
+      const files =
+        settings.enabled && this.capabilities?.recursiveListing && this.adapter.getAllFilesRecursive
+          ? await this.adapter.getAllFilesRecursive(undefined, {
+              maxDepth: settings.maxDepth,
+              includeFolders: parseFolderPatterns(settings.include),
+              excludeFolders: parseFolderPatterns(settings.exclude),
+              signal: controller.signal,
+              onProgress: (progress) => {
+                this.scanProgress = progress;
+              },
+            })
+          : await this.adapter.getAllFiles();
+
+      if (controller !== this.loadAbortController) {
+        return;
+      }
+
+      this.allFiles = groupFilesByFolder(files);
+      this.loadedScanSettings = settings;
 
       logger.info(`[FileSelectorPanel] Loaded ${this.allFiles.length} files`);
 
       // Initialize with all files selected (reverse storage pattern)
       this.uncheckList = new Set();
+      this.manualNameIds = new Set();
 
       // Update preview
       this.updatePreview();
+
+      void this.restoreLastRenameOperation();
     } catch (error) {
+      if (controller !== this.loadAbortController) {
+        return;
+      }
+
       const errorObj = error instanceof Error ? error : new Error(String(error));
+      if (errorObj.name === 'AbortError') {
+        // Scan cancelled by the user: keep the previous list and its settings
+        logger.info('[FileSelectorPanel] Subfolder scan cancelled');
+        this.scanSettings = this.loadedScanSettings ?? { ...settings, enabled: false };
+        return;
+      }
+
       this.error = errorObj.message;
       logger.error('[FileSelectorPanel] Failed to load files:', errorObj);
     } finally {
-      this.loading = false;
+      if (controller === this.loadAbortController) {
+        this.loading = false;
+        this.scanProgress = null;
+        this.loadAbortController = null;
+      }
     }
   }
 
+  /**
+   * Handle subfolder loading settings change (reloads the file list)
+   * @private
+   */
+  private handleScanSettingsChange(e: CustomEvent<RecursiveScanSettings>): void {
+    this.scanSettings = e.detail;
+    void this.loadAllFiles();
+  }
+
+  /**
+   * Handle subfolder scan cancel
+   * @private
+   */
+  private handleScanCancel(): void {
+    this.loadAbortController?.abort();
+  }
+
   private async ensureCrashRecovery(): Promise<void> {
     if (this.recoveryChecked || !this.adapter) {
       return;
@@ -347,19 +594,115 @@ export class FileSelectorPanel extends LitElement {
 
     this.recoveryChecked = true;
     try {
-      await initCrashRecovery(this.adapter);
+      this.recoveryOperations = await crashRecovery.listRecoverableOperations(this.adapter.platform);
+      this.recoveryOpen = this.recoveryOperations.length > 0;
     } catch (error) {
       const errorObj = error instanceof Error ? error : new Error(String(error));
       logger.warn('[FileSelectorPanel] Crash recovery check failed:', errorObj);
     }
   }
 
+  private handleRecoveryClose(): void {
+    this.recoveryOpen = false;
+  }
+
+  /**
+   * Resume an interrupted operation (remote names are checked before renaming)
+   * @private
+   */
+  private async handleRecoveryResume(e: CustomEvent<{ operationId: string }>): Promise<void> {
+    await this.runRecoveryAction(
+      e.detail.operationId,
+      async (operation, adapter, onProgress) => {
+        await crashRecovery.resumeOperation(operation, adapter, onProgress);
+      },
+      true
+    );
+  }
+
+  /**
+   * Roll an interrupted operation back to the original names
+   * @private
+   */
+  private async handleRecoveryRollback(e: CustomEvent<{ operationId: string }>): Promise<void> {
+    await this.runRecoveryAction(
+      e.detail.operationId,
+      async (operation, adapter, onProgress) => {
+        await crashRecovery.rollbackOperation(operation, adapter, onProgress);
+      },
+      true
+    );
+  }
+
+  private async handleRecoveryDiscard(e: CustomEvent<{ operationId: string }>): Promise<void> {
+    if (!confirm(I18nService.t('recovery_discard_confirm'))) {
+      return;
+    }
+
+    await this.runRecoveryAction(e.detail.operationId, async (operation) => {
+      await crashRecovery.clearOperationState(crashRecovery.getOperationKey(operation));
+    });
+  }
+
+  /**
+   * Run a recovery action, then refresh the file list and the remaining operations
+   * @param showProgress Show the action's progress on its entry in the recovery dialog
+   * @private
+   */
+  private async runRecoveryAction(
+    operationId: string,
+    action: (
+      operation: OperationState,
+      adapter: PlatformAdapter,
+      onProgress: (progress: ProgressEvent) => void
+    ) => Promise<void>,
+    showProgress = false
+  ): Promise<void> {
+    const operation = this.recoveryOperations.find((item) => item.operationId === operationId);
+    if (!operation || !this.adapter || this.recoveryBusy || this.executing) {
+      return;
+    }
+
+    this.recoveryBusy = true;
+    this.recoveryActiveId = showProgress ? operationId : null;
+    this.recoveryProgress = null;
+    try {
+      await action(operation, this.adapter, (progress) => {
+        this.recoveryProgress = progress;
+      });
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      this.error = errorObj instanceof RecoveryInterruptedError ? this.getRecoveryInterruptedMessage(errorObj.trip) : errorObj.message;
+      logger.error('[FileSelectorPanel] Crash recovery failed:', errorObj);
+    } finally {
+      this.recoveryBusy = false;
+      this.recoveryActiveId = null;
+      this.recoveryProgress = null;
+    }
+
+    this.recoveryOperations = await crashRecovery.listRecoverableOperations(this.adapter.platform);
+    this.recoveryOpen = this.recoveryOperations.length > 0;
+    void this.loadAllFiles();
+  }
+
+  /**
+   * Explain why the circuit breaker stopped a resume or rollback (the saved batch is kept)
+   * @private
+   */
+  private getRecoveryInterruptedMessage(trip: CircuitTrip): string {
+    return trip.category === 'auth_expired'
+      ? I18nService.t('recovery_interrupted_auth_expired')
+      : I18nService.t('recovery_interrupted_circuit_open', [String(trip.failures), getErrorCategoryMessage(trip.category)]);
+  }
+
   /**
-   * Get file type from extension
+   * Get file type from the folder flag and extension
    * @private
    */
-  private getFileType(ext: string): FileType {
-    const lowerExt = ext.toLowerCase();
+  private getFileType(file: FileItem): FileType {
+    if (file.isFolder) return 'folder';
+
+    const lowerExt = file.ext.toLowerCase();
 
     const videoExts = ['.mp4', '.avi', '.mkv', '.mov', '.wmv', '.flv', '.webm', '.m4v'];
     const imageExts = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.svg', '.webp', '.ico'];
@@ -492,9 +835,11 @@ export class FileSelectorPanel extends LitElement {
    * @private
    */
   private updatePreview(): void {
-    const nextNameMap = new Map<string, string>();
+    // Manual overrides are carried over so they survive rule/selection changes
+    const nextNameMap = this.getManualNameMap();
     const nextExtractErrorMap = new Map<string, string>();
-    const selectedFiles = this.selectedFiles;
+    const selectedFiles = this.orderedSelectedFiles;
+    this.organizeEntries = [];
 
     if (selectedFiles.length === 0) {
       this.newNameMap = nextNameMap;
@@ -512,7 +857,7 @@ export class FileSelectorPanel extends LitElement {
       if (errorObj.message === 'Invalid rule configuration') {
         this.newNameMap = nextNameMap;
         this.extractErrorMap = nextExtractErrorMap;
-        this.conflictIds = new Set();
+        this.detectConflicts(selectedFiles);
         return;
       }
       logger.error('[FileSelectorPanel] Failed to create rule executor:', errorObj);
@@ -522,14 +867,23 @@ export class FileSelectorPanel extends LitElement {
       return;
     }
 
+    // 规则链中任一启用步骤为剧集提取时，同样按文件粒度展示提取失败
+    const hasEpisodeExtract = ruleConfigIncludes(this.ruleConfig, 'episodeExtract');
+
     try {
-      // Apply rule to each selected file
+      rule.prepare?.(selectedFiles);
+
+      // Apply rule (or every enabled step of the rule chain) to each selected file
       selectedFiles.forEach((file, index) => {
+        if (this.manualNameIds.has(file.id)) {
+          return;
+        }
+
         try {
-          const newName = rule!.execute(file.name, index, selectedFiles.length);
+          const newName = rule!.execute(file.name, index, selectedFiles.length, file);
           nextNameMap.set(file.id, newName);
         } catch (error) {
-          if (this.ruleConfig.type === 'episodeExtract') {
+          if (hasEpisodeExtract) {
             nextNameMap.set(file.id, file.name);
             nextExtractErrorMap.set(file.id, this.mapEpisodeExtractError(error));
             return;
@@ -538,9 +892,12 @@ export class FileSelectorPanel extends LitElement {
         }
       });
 
+      this.markUnsupportedNames(selectedFiles, nextNameMap, nextExtractErrorMap);
+
       // Trigger reactive update
       this.newNameMap = nextNameMap;
       this.extractErrorMap = nextExtractErrorMap;
+      this.organizeEntries = this.buildOrganizeEntries(selectedFiles);
 
       // Detect conflicts
       this.detectConflicts(selectedFiles);
@@ -553,6 +910,94 @@ export class FileSelectorPanel extends LitElement {
     }
   }
 
+  /**
+   * Flag new names the platform cannot apply (folder renames, names over the length limit)
+   * so they show up in the preview instead of failing during execution
+   * @private
+   */
+  private markUnsupportedNames(
+    selectedFiles: FileItem[],
+    nameMap: Map<string, string>,
+    errorMap: Map<string, string>
+  ): void {
+    const capabilities = this.capabilities;
+    if (!capabilities) {
+      return;
+    }
+
+    for (const file of selectedFiles) {
+      const newName = nameMap.get(file.id);
+      if (!newName || newName === file.name || errorMap.has(file.id)) continue;
+
+      if (file.isFolder && !capabilities.folderRename) {
+        errorMap.set(file.id, I18nService.t('folder_rename_unsupported'));
+      } else if (exceedsMaxNameLength(newName, capabilities)) {
+        errorMap.set(file.id, I18nService.t('name_too_long', [String(capabilities.maxNameLength)]));
+      }
+    }
+  }
+
+  /**
+   * Build the organize plan for the selected files (empty when the rule has no organize step)
+   * @private
+   */
+  private buildOrganizeEntries(selectedFiles: FileItem[]): OrganizeEntry[] {
+    const rule = createOrganizeRule(this.ruleConfig);
+    if (!rule) {
+      return [];
+    }
+
+    const files = this.ruleConfig.skipFolders ? selectedFiles.filter((file) => !file.isFolder) : selectedFiles;
+    return buildOrganizePlan(
+      rule,
+      files,
+      (file) => this.newNameMap.get(file.id) || file.name,
+      new Set(this.extractErrorMap.keys())
+    );
+  }
+
+  /**
+   * Current manual overrides (file id -> new name)
+   * @private
+   */
+  private getManualNameMap(): Map<string, string> {
+    const manualNames = new Map<string, string>();
+    for (const fileId of this.manualNameIds) {
+      const name = this.newNameMap.get(fileId);
+      if (name !== undefined) {
+        manualNames.set(fileId, name);
+      }
+    }
+    return manualNames;
+  }
+
+  /**
+   * Handle inline edit of a preview row
+   * An empty name removes the override and falls back to the rule result.
+   * @private
+   */
+  private handleNameOverride(e: CustomEvent<{ fileId: string; newName: string }>): void {
+    const { fileId } = e.detail;
+    const newName = e.detail.newName.trim();
+    const nextManualIds = new Set(this.manualNameIds);
+
+    if (!newName) {
+      nextManualIds.delete(fileId);
+    } else {
+      const validation = validateFileName(newName);
+      if (!validation.valid) {
+        alert(I18nService.t('manual_name_invalid', [(validation.illegalChars ?? []).join(' ')]));
+        return;
+      }
+
+      nextManualIds.add(fileId);
+      this.newNameMap = new Map(this.newNameMap).set(fileId, newName);
+    }
+
+    this.manualNameIds = nextManualIds;
+    this.updatePreview();
+  }
+
   /**
    * Detect naming conflicts
    * @private
@@ -560,20 +1005,27 @@ export class FileSelectorPanel extends LitElement {
   private detectConflicts(selectedFiles: FileItem[]): void {
     const nameMap = new Map<string, string>();
     const conflicts = new Set<string>();
+    // Names differing only in case collide on case-insensitive platforms;
+    // files in different folders never collide
+    const comparison = this.adapter?.getConfig() ?? {};
 
     for (const file of selectedFiles) {
       const newName = this.newNameMap.get(file.id);
       if (!newName || newName === file.name) continue;
 
-      if (nameMap.has(newName)) {
+      const key = getScopedNameKey(file.parentId, newName, comparison);
+      if (nameMap.has(key)) {
         // Conflict detected
         conflicts.add(file.id);
-        conflicts.add(nameMap.get(newName)!);
+        conflicts.add(nameMap.get(key)!);
       } else {
-        nameMap.set(newName, file.id);
+        nameMap.set(key, file.id);
       }
     }
 
+    // Files the organize step would move into one folder under the same name
+    findOrganizeConflicts(this.organizeEntries, comparison).forEach((fileId) => conflicts.add(fileId));
+
     this.conflictIds = conflicts;
   }
 
@@ -592,35 +1044,197 @@ export class FileSelectorPanel extends LitElement {
     const scope = this.getCurrentUndoScope();
     if (!isLastRenameOperationInScope(this.lastRenameOperation, scope.platform, scope.directoryKey)) {
       this.lastRenameOperation = null;
+      this.lastJournalEntryId = null;
+    }
+  }
+
+  /**
+   * Restore the quick-undo record from the latest journal entry of the current directory
+   * @private
+   */
+  private async restoreLastRenameOperation(): Promise<void> {
+    this.clearLastRenameOperationIfOutOfScope();
+    if (this.lastRenameOperation) {
+      return;
+    }
+
+    try {
+      const scope = this.getCurrentUndoScope();
+      const entry = await renameJournal.findLatestInScope(scope.platform, scope.directoryKey);
+      if (entry && !this.lastRenameOperation) {
+        this.lastRenameOperation = entry;
+        this.lastJournalEntryId = entry.id;
+      }
+    } catch (error) {
+      logger.warn('[FileSelectorPanel] Failed to restore rename journal:', error as Error);
     }
   }
 
-  private updateLastRenameOperationFromExecute(results: BatchResults): void {
+  private updateLastRenameOperationFromExecute(results: BatchResults, moved: OrganizeResults['moved'] = []): void {
     const scope = this.getCurrentUndoScope();
     this.lastRenameOperation = createLastRenameOperation(
       scope.platform,
       scope.directoryKey,
-      results.success
+      this.toUndoItems(results.success, moved)
     );
+    this.lastJournalEntryId = null;
+
+    if (this.lastRenameOperation) {
+      const entry = createRenameJournalEntry(this.lastRenameOperation, this.ruleConfig);
+      this.lastJournalEntryId = entry.id;
+      renameJournal.append(entry).catch((error) => {
+        logger.warn('[FileSelectorPanel] Failed to record rename journal:', error as Error);
+      });
+    }
   }
 
-  private mergeLastRenameOperationFromRetry(results: BatchResults): void {
-    if (!this.lastRenameOperation || results.success.length === 0) {
+  private mergeLastRenameOperationFromRetry(results: BatchResults, moved: OrganizeResults['moved'] = []): void {
+    if (!this.lastRenameOperation || (results.success.length === 0 && moved.length === 0)) {
       return;
     }
 
     const scope = this.getCurrentUndoScope();
     if (!isLastRenameOperationInScope(this.lastRenameOperation, scope.platform, scope.directoryKey)) {
       this.lastRenameOperation = null;
+      this.lastJournalEntryId = null;
       return;
     }
 
+    // A file renamed earlier and only moved now keeps its recorded rename
+    const existingById = new Map(this.lastRenameOperation.items.map((item) => [item.fileId, item]));
+    const renamedIds = new Set(results.success.map((item) => item.fileId));
+    const items = this.toUndoItems(results.success, moved).map((item) => {
+      const existing = existingById.get(item.fileId);
+      return existing && !renamedIds.has(item.fileId) ? { ...existing, move: item.move } : item;
+    });
     this.lastRenameOperation = mergeLastRenameOperation(
       this.lastRenameOperation,
       scope.platform,
       scope.directoryKey,
-      results.success
+      items
+    );
+
+    if (this.lastJournalEntryId) {
+      renameJournal.appendItems(this.lastJournalEntryId, items).catch((error) => {
+        logger.warn('[FileSelectorPanel] Failed to update rename journal:', error as Error);
+      });
+    }
+  }
+
+  /**
+   * Convert successful results to undo items; files renamed inside subfolders
+   * also record their folder so undo checks conflicts in the right place.
+   * Files moved by the organize step carry their move, and files that were
+   * only moved become items whose name did not change.
+   * @private
+   */
+  private toUndoItems(success: BatchResults['success'], moved: OrganizeResults['moved'] = []): UndoRenameItem[] {
+    const movesById = new Map(
+      moved.map(({ fileId, fromParentId, toParentId, fromPath, toPath }) => [
+        fileId,
+        { fromParentId, toParentId, fromPath, toPath },
+      ])
+    );
+    const subfolderParents = new Map(
+      this.allFiles
+        .filter((file) => file.relativePath && !movesById.has(file.id))
+        .map((file) => [file.id, file.parentId])
     );
+    const renamedIds = new Set(success.map((item) => item.fileId));
+    const indexById = new Map(this.executionOrganizeEntries.map((entry) => [entry.file.id, entry.index]));
+
+    const renamedItems = success.map((item): UndoRenameItem => {
+      const move = movesById.get(item.fileId);
+      if (move) {
+        return { ...item, move };
+      }
+      const parentId = subfolderParents.get(item.fileId);
+      return parentId === undefined ? item : { ...item, parentId };
+    });
+    const moveOnlyItems = moved
+      .filter((item) => !renamedIds.has(item.fileId))
+      .map((item): UndoRenameItem => ({
+        fileId: item.fileId,
+        original: item.name,
+        renamed: item.name,
+        index: indexById.get(item.fileId) ?? 0,
+        move: movesById.get(item.fileId),
+      }));
+
+    return [...renamedItems, ...moveOnlyItems];
+  }
+
+  /**
+   * Move files into their organize folders and reflect the outcome in the
+   * execution list and the loaded file list
+   * @param entries Organize entries to move (names resolved from the plan)
+   * @param results Rename results, used to pick up the final names
+   * @private
+   */
+  private async runOrganizeStep(entries: OrganizeEntry[], results: BatchResults): Promise<OrganizeResults> {
+    if (entries.length === 0) {
+      return { moved: [], failed: [] };
+    }
+
+    const renamedById = new Map(results.success.map((item) => [item.fileId, item.renamed]));
+    const resolved = entries.map((entry) => {
+      const file = this.allFiles.find((item) => item.id === entry.file.id) ?? entry.file;
+      return { ...entry, file, name: renamedById.get(entry.file.id) ?? file.name };
+    });
+
+    let organizeResults: OrganizeResults;
+    try {
+      organizeResults = await executeOrganizePlan(this.adapter, resolved, this.adapter.getCurrentDirectoryKey());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      organizeResults = {
+        moved: [],
+        failed: resolved.map((entry) => ({ fileId: entry.file.id, name: entry.name, error: message })),
+      };
+    }
+
+    const movedById = new Map(organizeResults.moved.map((item) => [item.fileId, item]));
+    const failedById = new Map(organizeResults.failed.map((item) => [item.fileId, item.error]));
+    const nextStatus = new Map(this.organizeStatus);
+    const nextPending = new Set(this.movePendingIds);
+
+    for (const entry of resolved) {
+      const failed = failedById.get(entry.file.id);
+      if (failed === undefined) {
+        nextStatus.set(entry.file.id, 'moved');
+        nextPending.delete(entry.file.id);
+      } else {
+        nextStatus.set(entry.file.id, 'failed');
+        nextPending.add(entry.file.id);
+      }
+    }
+    this.organizeStatus = nextStatus;
+    this.movePendingIds = nextPending;
+
+    this.executionItems = this.executionItems.map((item) => {
+      if (!resolved.some((entry) => entry.file.id === item.file.id)) return item;
+
+      const failed = failedById.get(item.file.id);
+      return failed === undefined
+        ? { ...item, done: true, error: undefined }
+        : { ...item, done: false, error: failed };
+    });
+
+    if (movedById.size > 0) {
+      this.allFiles = this.allFiles.map((file) => {
+        const moved = movedById.get(file.id);
+        return moved ? { ...file, parentId: moved.toParentId, relativePath: moved.toPath } : file;
+      });
+      this.updatePreview();
+    }
+
+    if (organizeResults.failed.length > 0) {
+      const failedLines = organizeResults.failed.map((item) => `- ${item.name}: ${item.error}`);
+      alert([I18nService.t('organize_failed_prefix'), ...failedLines].join('\n'));
+    }
+
+    this.updateSummaryProgress();
+    return organizeResults;
   }
 
   private getUndoFallbackFile(item: LastRenameOperation['items'][number]): FileItem {
@@ -629,7 +1243,7 @@ export class FileSelectorPanel extends LitElement {
       id: item.fileId,
       name: item.renamed,
       ext,
-      parentId: '',
+      parentId: item.parentId ?? '',
       size: 0,
       mtime: Date.now(),
     };
@@ -808,57 +1422,180 @@ export class FileSelectorPanel extends LitElement {
       return;
     }
 
-    const tasks = this.lastRenameOperation.items.map((item, index) => ({
+    const operation = this.lastRenameOperation;
+    const journalEntryId = this.lastJournalEntryId;
+    if (operation.items.length === 0) {
+      this.lastRenameOperation = null;
+      this.lastJournalEntryId = null;
+      return;
+    }
+
+    const items = await this.precheckUndoConflicts(operation.directoryKey, operation.items);
+    if (!items || items.length === 0) {
+      return;
+    }
+
+    const results = await this.revertRenameItems(items);
+    if (!results) {
+      return;
+    }
+
+    const revertedIds = new Set(results.success.map((item) => item.fileId));
+    const failedIds = new Set(
+      operation.items.filter((item) => !revertedIds.has(item.fileId)).map((item) => item.fileId)
+    );
+    this.lastRenameOperation = retainFailedUndoItems(operation, failedIds);
+    if (!this.lastRenameOperation) {
+      this.lastJournalEntryId = null;
+    }
+
+    if (journalEntryId) {
+      await this.removeRevertedJournalItems(journalEntryId, revertedIds);
+    }
+  }
+
+  /**
+   * Check whether the original names are taken again before undoing
+   * Names vacated by the same undo batch are not treated as conflicts.
+   * @returns Items that can be reverted, or null when the user aborts
+   * @private
+   */
+  private async precheckUndoConflicts(
+    directoryKey: string,
+    items: UndoRenameItem[]
+  ): Promise<UndoRenameItem[] | null> {
+    // Moved files vacate their organize folder and return to the folder they came from
+    const vacatedNames = new Set(
+      items.map((item) => getScopedNameKey(item.move?.toParentId ?? item.parentId ?? directoryKey, item.renamed))
+    );
+    const conflicts: UndoRenameItem[] = [];
+
+    try {
+      this.undoBusy = true;
+      for (const item of items) {
+        const parentId = item.move?.fromParentId ?? item.parentId ?? directoryKey;
+        if (
+          !vacatedNames.has(getScopedNameKey(parentId, item.original)) &&
+          (await this.adapter.checkNameConflict(item.original, parentId))
+        ) {
+          conflicts.push(item);
+        }
+      }
+    } catch (error) {
+      logger.warn('[FileSelectorPanel] Undo conflict check failed:', error as Error);
+      return confirm(I18nService.t('conflict_check_failed_confirm')) ? items : null;
+    } finally {
+      this.undoBusy = false;
+    }
+
+    if (conflicts.length === 0) {
+      return items;
+    }
+
+    const remaining = items.filter((item) => !conflicts.includes(item));
+    const conflictLines = conflicts.map((item) => `- ${item.renamed} → ${item.original}`);
+    if (remaining.length === 0) {
+      alert([I18nService.t('undo_conflict_prefix'), ...conflictLines].join('\n'));
+      return null;
+    }
+
+    const confirmed = confirm(
+      [
+        I18nService.t('undo_conflict_prefix'),
+        ...conflictLines,
+        '',
+        I18nService.t('undo_conflict_skip_confirm', [String(remaining.length)]),
+      ].join('\n')
+    );
+    return confirmed ? remaining : null;
+  }
+
+  /**
+   * Move organized items back to their folders, then rename the given items
+   * back to their original names
+   * @returns Execution results, or null when the executor could not run
+   * @private
+   */
+  private async revertRenameItems(items: UndoRenameItem[]): Promise<BatchResults | null> {
+    const moveBack = await this.revertMovedItems(items);
+    if (!moveBack) {
+      return null;
+    }
+
+    const movedBackIds = moveBack.reverted;
+    const moveFailedById = new Map(moveBack.failed.map((item) => [item.fileId, item.error]));
+    const renameItems = items.filter(
+      (item) => !moveFailedById.has(item.fileId) && item.renamed !== item.original
+    );
+    const tasks = renameItems.map((item, index) => ({
       file: this.allFiles.find((file) => file.id === item.fileId) || this.getUndoFallbackFile(item),
       newName: item.original,
       index,
     }));
-
-    if (tasks.length === 0) {
-      this.lastRenameOperation = null;
-      return;
-    }
+    const moveOnlySuccess = items
+      .filter((item) => item.renamed === item.original && movedBackIds.has(item.fileId))
+      .map(({ fileId, original, renamed, index }) => ({ fileId, original, renamed, index }));
+    const moveFailures = items
+      .filter((item) => moveFailedById.has(item.fileId))
+      .map((item) => ({
+        fileId: item.fileId,
+        file: this.allFiles.find((file) => file.id === item.fileId) || this.getUndoFallbackFile(item),
+        error: moveFailedById.get(item.fileId) ?? '',
+        index: item.index,
+      }));
 
     try {
       this.resetExecutionState();
       this.executing = true;
       this.undoBusy = true;
       this.executorState = ExecutorState.RUNNING;
-      this.executionItems = tasks.map((task) => ({
-        file: task.file,
-        newName: task.newName,
+      this.executionItems = items.map((item) => ({
+        file: this.allFiles.find((file) => file.id === item.fileId) || this.getUndoFallbackFile(item),
+        newName: item.original,
         conflict: false,
         done: undefined,
         error: undefined,
       }));
       this.progress = {
         completed: 0,
-        total: tasks.length,
+        total: items.length,
         currentFile: '',
         success: 0,
         failed: 0,
       };
       this.operationIndexByFileId = new Map(tasks.map((task) => [task.file.id, task.index]));
 
-      const executor = new BatchExecutor(tasks.map((task) => task.file), this.ruleConfig, this.adapter, {
-        requestInterval: this.adapter.getConfig().requestInterval,
-        maxConcurrent: this.adapter.getConfig().maxConcurrent,
-        tasks,
-        onProgress: (progress) => {
-          this.handleProgress(progress);
-        },
-      });
-      this.executor = executor;
+      let renameResults: BatchResults = { success: [], failed: [] };
+      if (tasks.length > 0) {
+        const executor = new BatchExecutor(tasks.map((task) => task.file), this.ruleConfig, this.adapter, {
+          requestInterval: this.adapter.getConfig().requestInterval,
+          maxConcurrent: this.adapter.getConfig().maxConcurrent,
+          tasks,
+          onProgress: (progress) => {
+            this.handleProgress(progress);
+          },
+          onCircuitOpen: (trip) => {
+            this.handleCircuitOpen(trip);
+          },
+          verifyAfterRename: this.verifyAfterRename,
+        });
+        this.executor = executor;
 
-      const results = await executor.execute();
-      this.executionResults = results;
-      this.executorState = executor.getState();
+        renameResults = await executor.execute();
+        this.executorState = executor.getState();
+      } else {
+        this.executorState = ExecutorState.COMPLETED;
+      }
+
+      const results: BatchResults = {
+        success: [...renameResults.success, ...moveOnlySuccess],
+        failed: [...renameResults.failed, ...moveFailures],
+      };
+      this.executionResults = renameResults;
       this.applyExecutionResults(results);
+      this.updateSummaryProgress();
       void this.syncAfterRename();
 
-      const failedIds = new Set(results.failed.map((item) => item.fileId));
-      this.lastRenameOperation = retainFailedUndoItems(this.lastRenameOperation, failedIds);
-
       if (results.failed.length > 0) {
         const failedLines = results.failed.map((item) => `- ${item.file?.name || item.fileId}: ${item.error}`);
         alert([
@@ -868,16 +1605,143 @@ export class FileSelectorPanel extends LitElement {
           I18nService.t('undo_failed_manual_hint'),
         ].join('\n'));
       }
+
+      return results;
     } catch (error) {
       const errorObj = error instanceof Error ? error : new Error(String(error));
       this.error = errorObj.message;
       logger.error('[FileSelectorPanel] Undo failed:', errorObj);
+      return null;
     } finally {
       this.undoBusy = false;
       this.executing = false;
     }
   }
 
+  /**
+   * Move organized items back to the folders they came from
+   * @returns Move-back results, or null when moving could not start
+   * @private
+   */
+  private async revertMovedItems(items: UndoRenameItem[]): Promise<OrganizeRevertResults | null> {
+    const moves = items.flatMap((item) => (item.move ? [{ fileId: item.fileId, move: item.move }] : []));
+    if (moves.length === 0) {
+      return { reverted: new Set(), failed: [] };
+    }
+
+    try {
+      this.undoBusy = true;
+      const results = await revertOrganizeMoves(this.adapter, moves);
+      const movesById = new Map(moves.map((item) => [item.fileId, item.move]));
+
+      if (results.reverted.size > 0) {
+        this.allFiles = this.allFiles.map((file) => {
+          const move = results.reverted.has(file.id) ? movesById.get(file.id) : undefined;
+          return move ? { ...file, parentId: move.fromParentId, relativePath: move.fromPath || undefined } : file;
+        });
+      }
+
+      return results;
+    } catch (error) {
+      const errorObj = error instanceof Error ? error : new Error(String(error));
+      logger.error('[FileSelectorPanel] Move back failed:', errorObj);
+      alert([I18nService.t('undo_failed_prefix'), errorObj.message].join('\n'));
+      return null;
+    } finally {
+      this.undoBusy = false;
+    }
+  }
+
+  private async removeRevertedJournalItems(entryId: string, revertedIds: Set<string>): Promise<void> {
+    try {
+      await renameJournal.removeItems(entryId, revertedIds);
+    } catch (error) {
+      logger.warn('[FileSelectorPanel] Failed to update rename journal:', error as Error);
+    }
+  }
+
+  private async loadHistoryEntries(): Promise<void> {
+    try {
+      const entries = await renameJournal.list();
+      this.historyEntries = entries.filter((entry) => entry.platform === this.adapter.platform);
+    } catch (error) {
+      logger.warn('[FileSelectorPanel] Failed to load rename journal:', error as Error);
+      this.historyEntries = [];
+    }
+  }
+
+  private async handleOpenHistory(): Promise<void> {
+    if (this.executing || this.undoBusy) {
+      return;
+    }
+
+    this.historyOpen = true;
+    await this.loadHistoryEntries();
+  }
+
+  private handleHistoryClose(): void {
+    this.historyOpen = false;
+  }
+
+  private async handleHistoryDelete(e: CustomEvent<{ entryId: string }>): Promise<void> {
+    const { entryId } = e.detail;
+    if (!confirm(I18nService.t('history_delete_confirm'))) {
+      return;
+    }
+
+    try {
+      await renameJournal.remove(entryId);
+    } catch (error) {
+      logger.warn('[FileSelectorPanel] Failed to delete rename journal entry:', error as Error);
+    }
+
+    if (this.lastJournalEntryId === entryId) {
+      this.lastRenameOperation = null;
+      this.lastJournalEntryId = null;
+    }
+    await this.loadHistoryEntries();
+  }
+
+  /**
+   * Revert a journal entry entirely or partially
+   * @private
+   */
+  private async handleHistoryRevert(e: CustomEvent<{ entryId: string; fileIds: string[] }>): Promise<void> {
+    if (this.executing || this.undoBusy) {
+      return;
+    }
+
+    const entry = this.historyEntries.find((item) => item.id === e.detail.entryId);
+    if (!entry) {
+      return;
+    }
+
+    const fileIds = new Set(e.detail.fileIds);
+    const selected = entry.items.filter((item) => fileIds.has(item.fileId));
+    const items = await this.precheckUndoConflicts(entry.directoryKey, selected);
+    if (!items || items.length === 0) {
+      return;
+    }
+
+    this.historyOpen = false;
+    const results = await this.revertRenameItems(items);
+    if (!results) {
+      return;
+    }
+
+    const revertedIds = new Set(results.success.map((item) => item.fileId));
+    await this.removeRevertedJournalItems(entry.id, revertedIds);
+
+    if (this.lastJournalEntryId === entry.id && this.lastRenameOperation) {
+      const remaining = this.lastRenameOperation.items.filter((item) => !revertedIds.has(item.fileId));
+      this.lastRenameOperation =
+        remaining.length > 0 ? { ...this.lastRenameOperation, updatedAt: Date.now(), items: remaining } : null;
+      if (!this.lastRenameOperation) {
+        this.lastJournalEntryId = null;
+      }
+    }
+  }
+
   /**
    * Handle execute
    * @private
@@ -889,14 +1753,19 @@ export class FileSelectorPanel extends LitElement {
       return;
     }
 
-    const selectedFiles = this.selectedFiles;
-    const previewPlan = this.previewList;
+    const selectedFiles = this.orderedSelectedFiles;
 
-    if (previewPlan.length === 0) {
+    if (this.renameTaskCount === 0) {
       alert(I18nService.t('no_rename_needed'));
       return;
     }
 
+    const organizeEntries = this.organizeSupported ? this.organizeEntries : [];
+    if (findOrganizeConflicts(organizeEntries, this.adapter.getConfig()).size > 0) {
+      alert(I18nService.t('organize_conflict_blocked'));
+      return;
+    }
+
     const renameCandidates = selectedFiles
       .map((file, index) => ({
         file,
@@ -905,7 +1774,7 @@ export class FileSelectorPanel extends LitElement {
       }))
       .filter((candidate) => candidate.newName !== candidate.file.name);
 
-    if (renameCandidates.length === 0) {
+    if (renameCandidates.length === 0 && organizeEntries.length === 0) {
       alert(I18nService.t('no_rename_needed'));
       return;
     }
@@ -917,16 +1786,18 @@ export class FileSelectorPanel extends LitElement {
     let resolution: ConflictResolution | null = null;
 
     try {
-      const detector = new ConflictDetector(this.adapter);
-      conflicts = await detector.detectConflicts(candidateFiles, candidateNewNames);
-
-      const conflictCount = Array.from(conflicts.values()).filter((result) => result.hasConflict).length;
-      if (conflictCount > 0) {
-        resolution = await this.openConflictResolutionDialog(
-          buildConflictDetails(candidateFiles, candidateNewNames, conflicts)
-        );
-        if (!resolution) {
-          return;
+      if (renameCandidates.length > 0) {
+        const detector = new ConflictDetector(this.adapter);
+        conflicts = await detector.detectConflicts(candidateFiles, candidateNewNames);
+
+        const conflictCount = Array.from(conflicts.values()).filter((result) => result.hasConflict).length;
+        if (conflictCount > 0) {
+          resolution = await this.openConflictResolutionDialog(
+            buildConflictDetails(candidateFiles, candidateNewNames, conflicts)
+          );
+          if (!resolution) {
+            return;
+          }
         }
       }
     } catch (error) {
@@ -944,9 +1815,16 @@ export class FileSelectorPanel extends LitElement {
       conflicts: conflicts ?? undefined,
       resolution,
       skipUnchanged: true,
+      manualIds: this.manualNameIds,
+      caseSensitive: this.adapter.getConfig().caseSensitive,
+      capabilities: this.capabilities ?? undefined,
     });
 
-    if (executionPlan.tasks.length === 0) {
+    // Files with an unchanged name are only moved by the organize step
+    const renameCandidateIds = new Set(renameCandidates.map((candidate) => candidate.file.id));
+    const moveOnlyEntries = organizeEntries.filter((entry) => !renameCandidateIds.has(entry.file.id));
+
+    if (executionPlan.tasks.length === 0 && moveOnlyEntries.length === 0) {
       alert(I18nService.t('no_rename_needed'));
       return;
     }
@@ -968,13 +1846,27 @@ export class FileSelectorPanel extends LitElement {
       this.diagnosticExecutionStartedAt = Date.now();
       this.diagnosticRetryCount = 0;
 
-      this.executionItems = executionPlan.tasks.map((task) => ({
-        file: task.file,
-        newName: task.newName,
-        conflict: false,
-        done: undefined,
-        error: undefined,
-      }));
+      this.executionOrganizeEntries = organizeEntries;
+      const destinations = new Map(organizeEntries.map((entry) => [entry.file.id, entry.segments.join('/')]));
+
+      this.executionItems = [
+        ...executionPlan.tasks.map((task) => ({
+          file: task.file,
+          newName: task.newName,
+          conflict: false,
+          done: undefined,
+          error: undefined,
+          destination: destinations.get(task.file.id),
+        })),
+        ...moveOnlyEntries.map((entry) => ({
+          file: entry.file,
+          newName: entry.file.name,
+          conflict: false,
+          done: undefined,
+          error: undefined,
+          destination: destinations.get(entry.file.id),
+        })),
+      ];
       this.progress = {
         completed: 0,
         total: this.executionItems.length,
@@ -983,12 +1875,14 @@ export class FileSelectorPanel extends LitElement {
         failed: 0,
       };
 
-      this.operationIndexByFileId = new Map(
-        executionPlan.tasks.map((task) => [task.file.id, task.index])
-      );
+      this.operationIndexByFileId = new Map([
+        ...executionPlan.tasks.map((task): [string, number] => [task.file.id, task.index]),
+        ...moveOnlyEntries.map((entry): [string, number] => [entry.file.id, entry.index]),
+      ]);
 
-      await crashRecovery.saveOperationState({
+      this.operationStateKey = await crashRecovery.saveOperationState({
         platform: this.adapter.platform,
+        directoryKey: this.adapter.getCurrentDirectoryKey(),
         files: executionPlan.tasks.map((task) => task.file),
         rule: this.ruleConfig,
         completed: [],
@@ -997,25 +1891,39 @@ export class FileSelectorPanel extends LitElement {
       });
 
       // Execute batch rename
-      const executor = new BatchExecutor(
-        executionPlan.tasks.map((task) => task.file),
-        this.ruleConfig,
-        this.adapter,
-        {
-          requestInterval: this.adapter.getConfig().requestInterval,
-          maxConcurrent: this.adapter.getConfig().maxConcurrent,
-          skipUnchanged: true,
-          tasks: executionPlan.tasks,
-          onProgress: (progress) => {
-            this.handleProgress(progress);
-          },
-        }
-      );
-      this.executor = executor;
+      let results: BatchResults = { success: [], failed: [] };
+      if (executionPlan.tasks.length > 0) {
+        const executor = new BatchExecutor(
+          executionPlan.tasks.map((task) => task.file),
+          this.ruleConfig,
+          this.adapter,
+          {
+            requestInterval: this.adapter.getConfig().requestInterval,
+            maxConcurrent: this.adapter.getConfig().maxConcurrent,
+            skipUnchanged: true,
+            tasks: executionPlan.tasks,
+            onTempNameChange: (fileId, tempName) => {
+              if (this.operationStateKey) {
+                void crashRecovery.setTempName(this.operationStateKey, fileId, tempName);
+              }
+            },
+            onProgress: (progress) => {
+              this.handleProgress(progress);
+            },
+            onCircuitOpen: (trip) => {
+              this.handleCircuitOpen(trip);
+            },
+            verifyAfterRename: this.verifyAfterRename,
+          }
+        );
+        this.executor = executor;
 
-      const results = await executor.execute();
+        results = await executor.execute();
+        this.executorState = executor.getState();
+      } else {
+        this.executorState = ExecutorState.COMPLETED;
+      }
       this.executionResults = results;
-      this.executorState = executor.getState();
 
       await recordUsageStatsDelta(this.adapter.platform, {
         success: results.success.length,
@@ -1023,12 +1931,23 @@ export class FileSelectorPanel extends LitElement {
       });
 
       this.applyExecutionResults(results);
-      this.updateLastRenameOperationFromExecute(results);
+
+      // Move renamed (and unchanged) files into their template folders
+      let organizeResults: OrganizeResults = { moved: [], failed: [] };
+      if (this.executorState !== ExecutorState.CANCELLED && organizeEntries.length > 0) {
+        const renamedIds = new Set(results.success.map((item) => item.fileId));
+        organizeResults = await this.runOrganizeStep(
+          organizeEntries.filter((entry) => !renameCandidateIds.has(entry.file.id) || renamedIds.has(entry.file.id)),
+          results
+        );
+      }
+
+      this.updateLastRenameOperationFromExecute(results, organizeResults.moved);
       await this.syncDiagnosticSnapshotFromExecution();
       void this.syncAfterRename();
 
       if (this.executorState !== ExecutorState.CANCELLED) {
-        await crashRecovery.clearOperationState();
+        await this.clearOperationState();
       }
     } catch (error) {
       const errorObj = error instanceof Error ? error : new Error(String(error));
@@ -1046,13 +1965,13 @@ export class FileSelectorPanel extends LitElement {
       return;
     }
 
-    if (this.operationIndexByFileId) {
+    if (this.operationIndexByFileId && this.operationStateKey) {
       const index = this.operationIndexByFileId.get(progress.fileId);
       if (index !== undefined) {
         if (progress.status === 'failed') {
-          void crashRecovery.markAsFailed(index);
+          void crashRecovery.markAsFailed(this.operationStateKey, index);
         } else if (progress.status === 'success') {
-          void crashRecovery.markAsCompleted(index);
+          void crashRecovery.markAsCompleted(this.operationStateKey, index);
         }
       }
     }
@@ -1067,7 +1986,7 @@ export class FileSelectorPanel extends LitElement {
       }
 
       if (progress.status === 'failed') {
-        return { ...item, done: false, error: progress.error || I18nService.t('error_unknown') };
+        return { ...item, done: false, error: formatExecutionError(progress.error, progress.errorCategory, progress.verificationFailed) };
       }
 
       return item;
@@ -1107,7 +2026,7 @@ export class FileSelectorPanel extends LitElement {
 
   private applyExecutionResults(results: BatchResults): void {
     const successById = new Map(results.success.map((r) => [r.fileId, r.renamed]));
-    const failedById = new Map(results.failed.map((r) => [r.fileId, r.error]));
+    const failedById = new Map(results.failed.map((r) => [r.fileId, formatExecutionError(r.error, r.category, r.verificationFailed)]));
 
     this.executionItems = this.executionItems.map((item) => {
       const renamed = successById.get(item.file.id);
@@ -1128,7 +2047,7 @@ export class FileSelectorPanel extends LitElement {
         const nextName = successById.get(file.id);
         if (!nextName) return file;
 
-        const { ext } = parseFileName(nextName);
+        const { ext } = parseFileName(nextName, file.isFolder);
         return {
           ...file,
           name: nextName,
@@ -1159,7 +2078,7 @@ export class FileSelectorPanel extends LitElement {
       return;
     }
 
-    if (!this.adapter.syncAfterRename) {
+    if (!this.capabilities?.pageSync || !this.adapter.syncAfterRename) {
       this.syncStatus = 'failed';
       this.syncMessage = I18nService.t('sync_not_supported');
       return;
@@ -1187,11 +2106,88 @@ export class FileSelectorPanel extends LitElement {
       this.executor.pause();
     } else {
       this.executor.resume();
+      this.clearCircuitTrip();
     }
 
     this.executorState = this.executor.getState();
   }
 
+  private async loadVerifyAfterRename(): Promise<void> {
+    try {
+      this.verifyAfterRename = (await storage.get<boolean>(VERIFY_AFTER_RENAME_STORAGE_KEY)) === true;
+    } catch (error) {
+      logger.warn('Failed to load verify-after-rename setting:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private handleVerifyChange(e: CustomEvent<{ enabled: boolean }>): void {
+    this.verifyAfterRename = e.detail.enabled;
+    void storage.set(VERIFY_AFTER_RENAME_STORAGE_KEY, this.verifyAfterRename).catch((error: unknown) => {
+      logger.warn('Failed to save verify-after-rename setting:', error instanceof Error ? error.message : String(error));
+    });
+  }
+
+  /**
+   * The circuit breaker paused the executor; files that were in flight are retried after resuming
+   */
+  private handleCircuitOpen(trip: CircuitTrip): void {
+    this.circuitTrip = trip;
+    this.recheckFailed = false;
+    this.executorState = ExecutorState.PAUSED;
+  }
+
+  /**
+   * The cookie manager reported an expired session (401/403) outside the executor
+   */
+  private handleCookieExpired(): void {
+    this.executor?.openCircuit({
+      category: 'auth_expired',
+      failures: 1,
+      message: I18nService.t('error_category_auth_expired'),
+    });
+  }
+
+  /**
+   * Probe the platform once and resume only if the failure that tripped the breaker is gone
+   */
+  private async handleRecheck(): Promise<void> {
+    if (!this.executor || this.rechecking) return;
+
+    this.rechecking = true;
+    try {
+      const resumed = await this.executor.recheckAndResume();
+      if (resumed) {
+        cookieManager.resetCookieState();
+        this.clearCircuitTrip();
+      } else {
+        this.circuitTrip = this.executor.getCircuitTrip();
+        this.recheckFailed = true;
+      }
+    } finally {
+      this.rechecking = false;
+      this.executorState = this.executor.getState();
+    }
+  }
+
+  private clearCircuitTrip(): void {
+    this.circuitTrip = null;
+    this.recheckFailed = false;
+  }
+
+  private getPauseNotice(): string | null {
+    const trip = this.circuitTrip;
+    if (!trip) return null;
+
+    const reason =
+      trip.category === 'auth_expired'
+        ? I18nService.t('execution_paused_auth_expired')
+        : I18nService.t('execution_paused_circuit_open', [String(trip.failures), getErrorCategoryMessage(trip.category)]);
+
+    return this.recheckFailed
+      ? `${reason}\n${I18nService.t('execution_recheck_failed', trip.message)}`
+      : reason;
+  }
+
   private handleCancel(): void {
     if (!this.executor) return;
 
@@ -1214,7 +2210,20 @@ export class FileSelectorPanel extends LitElement {
 
     this.executor.cancel();
     this.executorState = this.executor.getState();
-    void crashRecovery.clearOperationState();
+    this.clearCircuitTrip();
+    void this.clearOperationState();
+  }
+
+  /**
+   * Drop the crash recovery state of the current batch
+   * @private
+   */
+  private async clearOperationState(): Promise<void> {
+    const key = this.operationStateKey;
+    this.operationStateKey = null;
+    if (key) {
+      await crashRecovery.clearOperationState(key);
+    }
   }
 
   private handleSync(): void {
@@ -1228,8 +2237,13 @@ export class FileSelectorPanel extends LitElement {
       return;
     }
 
-    const failedIds = new Set(this.executionItems.filter((item) => item.done === false).map((item) => item.file.id));
-    if (failedIds.size === 0) {
+    const movePendingIds = new Set(this.movePendingIds);
+    const failedIds = new Set(
+      this.executionItems
+        .filter((item) => item.done === false && !movePendingIds.has(item.file.id))
+        .map((item) => item.file.id)
+    );
+    if (failedIds.size === 0 && movePendingIds.size === 0) {
       return;
     }
 
@@ -1242,7 +2256,7 @@ export class FileSelectorPanel extends LitElement {
 
       // Reset only failed items back to pending
       this.executionItems = this.executionItems.map((item) => {
-        if (!failedIds.has(item.file.id)) return item;
+        if (!failedIds.has(item.file.id) && !movePendingIds.has(item.file.id)) return item;
         return { ...item, done: undefined, error: undefined };
       });
 
@@ -1256,31 +2270,40 @@ export class FileSelectorPanel extends LitElement {
         }));
 
       const retryFiles = tasks.map((task) => task.file);
-      if (retryFiles.length === 0) {
+      if (retryFiles.length === 0 && movePendingIds.size === 0) {
         return;
       }
 
       this.progress = {
         completed: 0,
-        total: retryFiles.length,
+        total: retryFiles.length + movePendingIds.size,
         currentFile: '',
         success: 0,
         failed: 0,
       };
 
-      const executor = new BatchExecutor(retryFiles, this.ruleConfig, this.adapter, {
-        requestInterval: this.adapter.getConfig().requestInterval,
-        maxConcurrent: this.adapter.getConfig().maxConcurrent,
-        tasks,
-        onProgress: (progress) => {
-          this.handleProgress(progress);
-        },
-      });
-      this.executor = executor;
+      let results: BatchResults = { success: [], failed: [] };
+      if (retryFiles.length > 0) {
+        const executor = new BatchExecutor(retryFiles, this.ruleConfig, this.adapter, {
+          requestInterval: this.adapter.getConfig().requestInterval,
+          maxConcurrent: this.adapter.getConfig().maxConcurrent,
+          tasks,
+          onProgress: (progress) => {
+            this.handleProgress(progress);
+          },
+          onCircuitOpen: (trip) => {
+            this.handleCircuitOpen(trip);
+          },
+          verifyAfterRename: this.verifyAfterRename,
+        });
+        this.executor = executor;
 
-      const results = await executor.execute();
+        results = await executor.execute();
+        this.executorState = executor.getState();
+      } else {
+        this.executorState = ExecutorState.COMPLETED;
+      }
       this.executionResults = results;
-      this.executorState = executor.getState();
 
       await recordUsageStatsDelta(this.adapter.platform, {
         success: results.success.length,
@@ -1288,7 +2311,19 @@ export class FileSelectorPanel extends LitElement {
       });
 
       this.applyExecutionResults(results);
-      this.mergeLastRenameOperationFromRetry(results);
+
+      let organizeResults: OrganizeResults = { moved: [], failed: [] };
+      if (this.executorState !== ExecutorState.CANCELLED) {
+        const renamedIds = new Set(results.success.map((item) => item.fileId));
+        organizeResults = await this.runOrganizeStep(
+          this.executionOrganizeEntries.filter(
+            (entry) => movePendingIds.has(entry.file.id) || renamedIds.has(entry.file.id)
+          ),
+          results
+        );
+      }
+
+      this.mergeLastRenameOperationFromRetry(results, organizeResults.moved);
       this.updateSummaryProgress();
       await this.syncDiagnosticSnapshotFromExecution();
       void this.syncAfterRename();
@@ -1330,6 +2365,10 @@ export class FileSelectorPanel extends LitElement {
     this.syncStatus = 'idle';
     this.syncMessage = null;
     this.operationIndexByFileId = null;
+    this.operationStateKey = null;
+    this.executionOrganizeEntries = [];
+    this.organizeStatus = new Map();
+    this.movePendingIds = new Set();
     this.diagnosticExecutionStartedAt = null;
     this.diagnosticRetryCount = 0;
     this.resetDiagnosticPromptState();
@@ -1396,11 +2435,16 @@ export class FileSelectorPanel extends LitElement {
               .progress=${this.progress}
               .finished=${this.executionFinished}
               .paused=${this.executorState === ExecutorState.PAUSED}
+              .pauseNotice=${this.getPauseNotice()}
+              .recheckOnResume=${Boolean(this.circuitTrip)}
+              .rechecking=${this.rechecking}
               .syncStatus=${this.syncStatus}
               .syncMessage=${this.syncMessage}
-              .syncSupported=${!!this.adapter.syncAfterRename}
+              .syncSupported=${Boolean(this.capabilities?.pageSync)}
+              .capabilities=${this.capabilities}
               .canUndo=${Boolean(this.lastRenameOperation)}
               .undoBusy=${this.undoBusy}
+              .verifyAfterRename=${this.verifyAfterRename}
               .diagnosticPromptState=${this.diagnosticPromptState}
               .diagnosticFailureCount=${this.diagnosticFailureCount}
               .diagnosticFileName=${this.diagnosticFileName}
@@ -1408,10 +2452,13 @@ export class FileSelectorPanel extends LitElement {
               @config-change=${this.handleConfigChange}
               @execute=${this.handleExecute}
               @pause=${this.handlePause}
+              @recheck=${this.handleRecheck}
+              @verify-change=${this.handleVerifyChange}
               @cancel=${this.handleCancel}
               @sync=${this.handleSync}
               @retry=${this.handleRetryFailed}
               @undo=${this.handleUndoLastRename}
+              @history=${this.handleOpenHistory}
               @back=${this.handleBack}
               @diagnostic-export=${this.handleDiagnosticExport}
               @diagnostic-dismiss=${this.handleDiagnosticDismiss}
@@ -1434,6 +2481,11 @@ export class FileSelectorPanel extends LitElement {
               @deselect-all=${this.handleDeselectAll}
               @type-filter=${this.handleTypeFilter}
               @file-toggle=${this.handleFileToggle}
+              .recursiveAvailable=${Boolean(this.capabilities?.recursiveListing)}
+              .scanSettings=${this.scanSettings}
+              .scanProgress=${this.scanProgress}
+              @scan-settings-change=${this.handleScanSettingsChange}
+              @scan-cancel=${this.handleScanCancel}
             ></file-list-panel>
 
             <preview-panel
@@ -1441,7 +2493,11 @@ export class FileSelectorPanel extends LitElement {
               .items=${this.executionItems.length > 0 ? this.executionItems : this.previewList}
               .conflictCount=${this.conflictIds.size}
               .showStatus=${this.executing || this.executionFinished}
+              .organizeTree=${this.organizeTree}
+              .organizeStatus=${this.organizeStatus}
+              .organizeSupported=${this.organizeSupported}
               ?loading=${false}
+              @name-override=${this.handleNameOverride}
             ></preview-panel>
           </div>
 
@@ -1452,6 +2508,27 @@ export class FileSelectorPanel extends LitElement {
             @conflict-dialog-resolve=${this.handleConflictDialogResolve}
             @dialog-close=${this.handleConflictDialogClose}
           ></conflict-resolution-dialog>
+
+          <rename-history-dialog
+            .open=${this.historyOpen}
+            .busy=${this.executing || this.undoBusy}
+            .entries=${this.historyEntries}
+            @history-revert=${this.handleHistoryRevert}
+            @history-delete=${this.handleHistoryDelete}
+            @dialog-close=${this.handleHistoryClose}
+          ></rename-history-dialog>
+
+          <recovery-list-dialog
+            .open=${this.recoveryOpen}
+            .busy=${this.recoveryBusy || this.executing}
+            .operations=${this.recoveryOperations}
+            .activeOperationId=${this.recoveryActiveId}
+            .progress=${this.recoveryProgress}
+            @recovery-resume=${this.handleRecoveryResume}
+            @recovery-rollback=${this.handleRecoveryRollback}
+            @recovery-discard=${this.handleRecoveryDiscard}
+            @dialog-close=${this.handleRecoveryClose}
+          ></recovery-list-dialog>
         </div>
       </div>
     `;
@@ -0,0 +1,191 @@
+import { LitElement, html, css, nothing } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { RecursiveScanSettings } from '../../types/file-selector';
+import { DEFAULT_RECURSIVE_MAX_DEPTH } from '../../types/platform';
+import { I18nService } from '../../utils/i18n';
+
+/** Upper bound of the depth input (deep trees can take very long to scan) */
+const MAX_DEPTH_LIMIT = 10;
+
+/**
+ * Folder Scan Options Component
+ * Lets the user load files from subfolders with a depth limit and
+ * folder include/exclude patterns.
+ *
+ * @fires scan-settings-change - Dispatched when a setting is committed, detail: RecursiveScanSettings
+ *
+ * @example
+ * ```html
+ * <folder-scan-options
+ *   .settings=${settings}
+ *   @scan-settings-change=${this.handleScanSettingsChange}>
+ * </folder-scan-options>
+ * ```
+ */
+@customElement('folder-scan-options')
+export class FolderScanOptions extends LitElement {
+  /**
+   * Current settings
+   */
+  @property({ attribute: false })
+  settings: RecursiveScanSettings = {
+    enabled: false,
+    maxDepth: DEFAULT_RECURSIVE_MAX_DEPTH,
+    include: '',
+    exclude: '',
+  };
+
+  /**
+   * Whether controls are disabled
+   */
+  @property({ type: Boolean })
+  disabled = false;
+
+  /**
+   * Emit updated settings (inputs commit on change, not on every keystroke)
+   * @private
+   */
+  private commitSetting<K extends keyof RecursiveScanSettings>(key: K, value: RecursiveScanSettings[K]): void {
+    if (this.settings[key] === value) {
+      return;
+    }
+
+    this.dispatchEvent(
+      new CustomEvent<RecursiveScanSettings>('scan-settings-change', {
+        detail: { ...this.settings, [key]: value },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private handleDepthChange(e: Event): void {
+    const input = e.target as HTMLInputElement;
+    const value = Math.min(MAX_DEPTH_LIMIT, Math.max(1, Math.round(Number(input.value)) || 1));
+    input.value = String(value);
+    this.commitSetting('maxDepth', value);
+  }
+
+  render() {
+    const { enabled, maxDepth, include, exclude } = this.settings;
+
+    return html`
+      <div class="scan-options">
+        <label class="scan-toggle">
+          <input
+            type="checkbox"
+            data-role="recursive-toggle"
+            .checked=${enabled}
+            ?disabled=${this.disabled}
+            @change=${(e: Event) => this.commitSetting('enabled', (e.target as HTMLInputElement).checked)}
+          />
+          <span>${I18nService.t('recursive_include_subfolders')}</span>
+        </label>
+
+        ${enabled
+          ? html`
+              <div class="scan-fields">
+                <label class="scan-field scan-field-depth">
+                  <span>${I18nService.t('recursive_max_depth')}</span>
+                  <input
+                    type="number"
+                    min="1"
+                    max=${MAX_DEPTH_LIMIT}
+                    data-role="recursive-depth"
+                    .value=${String(maxDepth)}
+                    ?disabled=${this.disabled}
+                    @change=${this.handleDepthChange}
+                  />
+                </label>
+                <label class="scan-field">
+                  <span>${I18nService.t('recursive_include_folders')}</span>
+                  <input
+                    type="text"
+                    data-role="recursive-include"
+                    placeholder=${I18nService.t('recursive_pattern_placeholder')}
+                    .value=${include}
+                    ?disabled=${this.disabled}
+                    @change=${(e: Event) => this.commitSetting('include', (e.target as HTMLInputElement).value.trim())}
+                  />
+                </label>
+                <label class="scan-field">
+                  <span>${I18nService.t('recursive_exclude_folders')}</span>
+                  <input
+                    type="text"
+                    data-role="recursive-exclude"
+                    placeholder=${I18nService.t('recursive_pattern_placeholder')}
+                    .value=${exclude}
+                    ?disabled=${this.disabled}
+                    @change=${(e: Event) => this.commitSetting('exclude', (e.target as HTMLInputElement).value.trim())}
+                  />
+                </label>
+              </div>
+            `
+          : nothing}
+      </div>
+    `;
+  }
+
+  static styles = css`
+    :host {
+      display: block;
+    }
+
+    .scan-options {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      padding: 8px 16px;
+      border-bottom: 1px solid var(--cdr-border, #f0f0f0);
+      font-size: 13px;
+      color: var(--cdr-text-secondary, #595959);
+    }
+
+    .scan-toggle {
+      display: inline-flex;
+      align-items: center;
+      gap: 6px;
+      cursor: pointer;
+    }
+
+    .scan-fields {
+      display: grid;
+      grid-template-columns: 80px 1fr 1fr;
+      gap: 8px;
+    }
+
+    .scan-field {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      min-width: 0;
+    }
+
+    .scan-field span {
+      font-size: 12px;
+      color: var(--cdr-text-tertiary, #8c8c8c);
+    }
+
+    .scan-field input {
+      width: 100%;
+      box-sizing: border-box;
+      padding: 4px 8px;
+      border: 1px solid var(--cdr-border-strong, #d9d9d9);
+      border-radius: 4px;
+      font-size: 13px;
+      background: var(--cdr-surface, #fff);
+      color: var(--cdr-text, #262626);
+    }
+
+    .scan-field input:disabled {
+      opacity: 0.6;
+      cursor: not-allowed;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'folder-scan-options': FolderScanOptions;
+  }
+}
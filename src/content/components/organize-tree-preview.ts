@@ -0,0 +1,183 @@
+import { LitElement, html, css, type TemplateResult } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { OrganizeTreeNode } from '../../core/organizer';
+import { I18nService } from '../../utils/i18n';
+
+/**
+ * Organize Tree Preview Component
+ * Shows the destination folder tree of the organize step before (and while) files are moved.
+ *
+ * @example
+ * ```html
+ * <organize-tree-preview
+ *   .tree=${tree}
+ *   .statusById=${statusById}>
+ * </organize-tree-preview>
+ * ```
+ */
+@customElement('organize-tree-preview')
+export class OrganizeTreePreview extends LitElement {
+  private static readonly MAX_FILES_PER_FOLDER = 20;
+
+  /**
+   * Destination tree (the root node is the current folder)
+   */
+  @property({ type: Object })
+  tree: OrganizeTreeNode | null = null;
+
+  /**
+   * Move status per file ID (set once the organize step has run)
+   */
+  @property({ type: Object })
+  statusById: Map<string, 'moved' | 'failed'> = new Map();
+
+  /**
+   * Whether the platform can create folders and move files
+   */
+  @property({ type: Boolean })
+  supported = true;
+
+  /**
+   * Count files moved into a folder and its subfolders
+   * @private
+   */
+  private countFiles(node: OrganizeTreeNode): number {
+    return node.files.length + node.children.reduce((sum, child) => sum + this.countFiles(child), 0);
+  }
+
+  private renderFile(file: OrganizeTreeNode['files'][number]): TemplateResult {
+    const status = this.statusById.get(file.fileId);
+    const className = file.conflict ? 'conflict' : status ?? '';
+
+    return html`
+      <li class="tree-file ${className}" data-role="organize-file" title=${file.name}>
+        ${file.name}
+        ${status === 'moved'
+          ? html`<span class="badge success">${I18nService.t('progress_success')}</span>`
+          : status === 'failed'
+            ? html`<span class="badge failed">${I18nService.t('progress_failed')}</span>`
+            : file.conflict
+              ? html`<span class="badge conflict">⚠️ ${I18nService.t('preview_badge_conflict')}</span>`
+              : ''}
+      </li>
+    `;
+  }
+
+  private renderNode(node: OrganizeTreeNode): TemplateResult {
+    const shownFiles = node.files.slice(0, OrganizeTreePreview.MAX_FILES_PER_FOLDER);
+    const hiddenCount = node.files.length - shownFiles.length;
+
+    return html`
+      <li class="tree-folder">
+        <div class="folder-name" data-role="organize-folder" title=${node.path}>
+          📁 ${node.name}
+          <span class="folder-count">(${this.countFiles(node)})</span>
+        </div>
+        <ul>
+          ${node.children.map((child) => this.renderNode(child))}
+          ${shownFiles.map((file) => this.renderFile(file))}
+          ${hiddenCount > 0
+            ? html`<li class="tree-more">${I18nService.t('organize_tree_more', [String(hiddenCount)])}</li>`
+            : ''}
+        </ul>
+      </li>
+    `;
+  }
+
+  render() {
+    if (!this.tree || this.tree.children.length === 0) {
+      return html``;
+    }
+
+    return html`
+      <div class="organize-tree" data-role="organize-tree">
+        <div class="tree-title">${I18nService.t('organize_tree_title')}</div>
+        ${this.supported
+          ? ''
+          : html`<div class="tree-warning" data-role="organize-unsupported">
+              ${I18nService.t('organize_unsupported')}
+            </div>`}
+        <ul class="tree-root">
+          ${this.tree.children.map((child) => this.renderNode(child))}
+        </ul>
+      </div>
+    `;
+  }
+
+  static styles = css`
+    :host {
+      display: block;
+    }
+
+    .organize-tree {
+      max-height: 200px;
+      overflow: auto;
+      padding: 8px 16px;
+      border-bottom: 1px solid var(--cdr-border, #f0f0f0);
+      font-size: 12px;
+    }
+
+    .tree-title {
+      font-weight: 600;
+      color: var(--cdr-text-secondary, #595959);
+      margin-bottom: 4px;
+    }
+
+    .tree-warning {
+      color: var(--cdr-warning-text, #fa8c16);
+      margin-bottom: 4px;
+    }
+
+    ul {
+      list-style: none;
+      margin: 0;
+      padding-left: 16px;
+    }
+
+    .tree-root {
+      padding-left: 0;
+    }
+
+    .folder-name {
+      color: var(--cdr-text, #262626);
+      font-weight: 500;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .folder-count,
+    .tree-more {
+      color: var(--cdr-text-tertiary, #8c8c8c);
+    }
+
+    .tree-file {
+      color: var(--cdr-text-secondary, #595959);
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .tree-file.conflict {
+      color: var(--cdr-warning-text, #fa8c16);
+    }
+
+    .tree-file.moved {
+      color: var(--cdr-success, #52c41a);
+    }
+
+    .tree-file.failed {
+      color: var(--cdr-danger, #ff4d4f);
+    }
+
+    .badge {
+      margin-left: 4px;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'organize-tree-preview': OrganizeTreePreview;
+  }
+}
@@ -1,8 +1,10 @@
 import { LitElement, html, css } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
+import { customElement, property, state } from 'lit/decorators.js';
 import { PreviewItem } from '../../types/file-selector';
+import { OrganizeTreeNode } from '../../core/organizer';
 import { I18nService } from '../../utils/i18n';
 import './virtual-preview-list';
+import './organize-tree-preview';
 
 /**
  * Preview Panel Component
@@ -42,8 +44,48 @@ export class PreviewPanel extends LitElement {
   @property({ type: Boolean })
   showStatus = false;
 
+  /**
+   * Destination folder tree of the organize step (null when the rule does not organize)
+   */
+  @property({ type: Object })
+  organizeTree: OrganizeTreeNode | null = null;
+
+  /**
+   * Move status per file ID after the organize step ran
+   */
+  @property({ type: Object })
+  organizeStatus: Map<string, 'moved' | 'failed'> = new Map();
+
+  /**
+   * Whether the platform supports the organize step
+   */
+  @property({ type: Boolean })
+  organizeSupported = true;
+
+  /**
+   * Whether to hide rows whose name does not change (preview mode only)
+   */
+  @state()
+  private changedOnly = true;
+
+  /**
+   * Items actually shown in the list
+   * @private
+   */
+  private get displayItems(): PreviewItem[] {
+    if (this.showStatus || !this.changedOnly) {
+      return this.items;
+    }
+
+    return this.items.filter(
+      (item) =>
+        item.newName !== item.file.name || Boolean(item.error) || item.manual || item.conflict || Boolean(item.destination)
+    );
+  }
+
   render() {
     const hasConflicts = this.conflictCount > 0;
+    const displayItems = this.displayItems;
     const successCount = this.items.filter((i) => i.done).length;
     const failedCount = this.items.filter((i) => Boolean(i.error)).length;
     const pendingCount = Math.max(0, this.items.length - successCount - failedCount);
@@ -69,7 +111,7 @@ export class PreviewPanel extends LitElement {
         <div class="panel-stats">
           <div class="stat-item">
             <span class="stat-label">${I18nService.t('preview_items')}</span>
-            <span class="stat-value">${this.items.length}</span>
+            <span class="stat-value">${displayItems.length}</span>
           </div>
           ${this.showStatus
             ? html`
@@ -95,8 +137,30 @@ export class PreviewPanel extends LitElement {
                 </div>
               `
             : ''}
+          ${!this.showStatus
+            ? html`
+                <label class="stat-toggle">
+                  <input
+                    type="checkbox"
+                    data-role="changed-only-toggle"
+                    .checked=${this.changedOnly}
+                    @change=${(e: Event) => (this.changedOnly = (e.target as HTMLInputElement).checked)}
+                  />
+                  ${I18nService.t('preview_changed_only')}
+                </label>
+              `
+            : ''}
+          ${!this.showStatus && displayItems.length > 0
+            ? html`<span class="stat-hint">${I18nService.t('preview_edit_hint')}</span>`
+            : ''}
         </div>
 
+        <organize-tree-preview
+          .tree=${this.organizeTree}
+          .statusById=${this.organizeStatus}
+          .supported=${this.organizeSupported}
+        ></organize-tree-preview>
+
         <div class="list-container">
           ${this.loading
             ? html`
@@ -106,7 +170,11 @@ export class PreviewPanel extends LitElement {
                 </div>
               `
             : html`
-                <virtual-preview-list .items=${this.items} .showStatus=${this.showStatus}></virtual-preview-list>
+                <virtual-preview-list
+                  .items=${displayItems}
+                  .showStatus=${this.showStatus}
+                  .editable=${!this.showStatus}
+                ></virtual-preview-list>
               `}
         </div>
       </div>
@@ -175,6 +243,27 @@ export class PreviewPanel extends LitElement {
       font-size: 14px;
     }
 
+    .stat-toggle {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      font-size: 13px;
+      color: var(--cdr-text-secondary, #595959);
+      cursor: pointer;
+    }
+
+    .stat-toggle input {
+      margin: 0;
+      cursor: pointer;
+    }
+
+    .stat-hint {
+      margin-left: auto;
+      font-size: 12px;
+      color: var(--cdr-text-tertiary, #8c8c8c);
+      align-self: center;
+    }
+
     .stat-label {
       color: var(--cdr-text-secondary, #595959);
     }
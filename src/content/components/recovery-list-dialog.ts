@@ -0,0 +1,365 @@
+import { LitElement, css, html, nothing } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { summarizeOperationState } from '../../core/crash-recovery';
+import { OperationState, ProgressEvent } from '../../types/core';
+import { I18nService } from '../../utils/i18n';
+
+/**
+ * Recovery List Dialog
+ * Lists interrupted batch renames of the current platform and lets the user
+ * resume, roll back or discard each of them. While an action runs, its entry
+ * shows the progress reported by the panel.
+ *
+ * @fires recovery-resume - Resume requested, detail: { operationId }
+ * @fires recovery-rollback - Rollback requested, detail: { operationId }
+ * @fires recovery-discard - Discard requested, detail: { operationId }
+ * @fires dialog-close - Dialog dismissed
+ */
+@customElement('recovery-list-dialog')
+export class RecoveryListDialog extends LitElement {
+  @property({ type: Boolean })
+  open = false;
+
+  @property({ type: Boolean })
+  busy = false;
+
+  @property({ attribute: false })
+  operations: OperationState[] = [];
+
+  /** Operation whose resume or rollback is running */
+  @property({ attribute: false })
+  activeOperationId: string | null = null;
+
+  /** Latest progress of the running action (null while names are still being checked) */
+  @property({ attribute: false })
+  progress: ProgressEvent | null = null;
+
+  static styles = css`
+    :host {
+      position: fixed;
+      inset: 0;
+      z-index: 10001;
+      pointer-events: none;
+      font-family: Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+    }
+
+    .dialog-overlay {
+      position: fixed;
+      inset: 0;
+      display: none;
+      align-items: center;
+      justify-content: center;
+      background: rgba(15, 23, 42, 0.48);
+      pointer-events: auto;
+      padding: 24px;
+      box-sizing: border-box;
+    }
+
+    .dialog-overlay.open {
+      display: flex;
+    }
+
+    .dialog {
+      width: min(640px, 100%);
+      max-height: min(80vh, 720px);
+      background: #fff;
+      color: #111827;
+      border-radius: 18px;
+      box-shadow: 0 24px 64px rgba(15, 23, 42, 0.24);
+      border: 1px solid rgba(148, 163, 184, 0.2);
+      overflow: hidden;
+      display: flex;
+      flex-direction: column;
+    }
+
+    .dialog-header {
+      padding: 20px 24px 12px;
+      border-bottom: 1px solid #e5e7eb;
+    }
+
+    .dialog-title {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 700;
+      line-height: 1.35;
+    }
+
+    .dialog-description {
+      margin: 10px 0 0;
+      color: #4b5563;
+      font-size: 14px;
+      line-height: 1.6;
+    }
+
+    .dialog-body {
+      padding: 16px 24px;
+      overflow-y: auto;
+    }
+
+    .recovery-list {
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+    }
+
+    .recovery-entry {
+      border: 1px solid #e5e7eb;
+      border-radius: 12px;
+      background: #f8fafc;
+      padding: 12px 16px;
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+    }
+
+    .recovery-entry-meta {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      min-width: 0;
+    }
+
+    .recovery-entry-time {
+      font-size: 14px;
+      font-weight: 600;
+      color: #1f2937;
+    }
+
+    .recovery-entry-detail {
+      font-size: 12px;
+      color: #64748b;
+      word-break: break-all;
+    }
+
+    .recovery-entry-warning {
+      font-size: 12px;
+      color: #b45309;
+    }
+
+    .recovery-entry-progress {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      font-size: 12px;
+      color: #1d4ed8;
+    }
+
+    .progress-bar-container {
+      width: 100%;
+      height: 6px;
+      background: #e2e8f0;
+      border-radius: 3px;
+      overflow: hidden;
+    }
+
+    .progress-bar {
+      height: 100%;
+      background: linear-gradient(90deg, #2563eb, #1d4ed8);
+      transition: width 0.3s ease;
+      border-radius: 3px;
+    }
+
+    .recovery-entry-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 8px;
+      flex-wrap: wrap;
+    }
+
+    .empty-state {
+      padding: 24px;
+      text-align: center;
+      color: #64748b;
+      font-size: 14px;
+    }
+
+    .dialog-footer {
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      padding: 16px 24px 24px;
+      border-top: 1px solid #e5e7eb;
+    }
+
+    .button {
+      border: 1px solid transparent;
+      border-radius: 10px;
+      padding: 8px 14px;
+      font-size: 13px;
+      font-weight: 600;
+      cursor: pointer;
+    }
+
+    .button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    .button-primary {
+      background: linear-gradient(135deg, #2563eb, #1d4ed8);
+      color: #fff;
+    }
+
+    .button-secondary {
+      background: #fff;
+      color: #1f2937;
+      border-color: #cbd5e1;
+    }
+
+    .button-tertiary {
+      background: #f8fafc;
+      color: #475569;
+      border-color: #e2e8f0;
+    }
+  `;
+
+  render() {
+    return html`
+      <div
+        class="dialog-overlay ${this.open ? 'open' : ''}"
+        data-role="dialog-overlay"
+        @click=${this.handleOverlayClick}
+      >
+        <div class="dialog" @click=${this.stopPropagation}>
+          <div class="dialog-header">
+            <h3 class="dialog-title">${I18nService.t('recovery_dialog_title')}</h3>
+            <p class="dialog-description">${I18nService.t('recovery_dialog_description')}</p>
+          </div>
+
+          <div class="dialog-body">
+            ${this.operations.length > 0
+              ? html`<div class="recovery-list" data-role="recovery-list">
+                  ${this.operations.map((operation) => this.renderOperation(operation))}
+                </div>`
+              : html`<div class="empty-state">${I18nService.t('recovery_empty')}</div>`}
+          </div>
+
+          <div class="dialog-footer">
+            <button class="button button-tertiary" type="button" data-role="close-button" @click=${this.handleClose}>
+              ${I18nService.t('recovery_later')}
+            </button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderOperation(operation: OperationState) {
+    const summary = summarizeOperationState(operation);
+    const canRollback = Boolean(operation.tasks?.length) && (summary.completed > 0 || summary.tempCount > 0);
+    const { operationId } = operation;
+
+    return html`
+      <div class="recovery-entry" data-role="recovery-entry">
+        <div class="recovery-entry-meta">
+          <span class="recovery-entry-time">
+            ${new Date(operation.updatedAt ?? operation.timestamp).toLocaleString()}
+          </span>
+          <span class="recovery-entry-detail">${I18nService.t('history_directory', [operation.directoryKey || '/'])}</span>
+          <span class="recovery-entry-detail">
+            ${I18nService.t('recovery_progress', [
+              String(summary.total),
+              String(summary.completed),
+              String(summary.failed),
+              String(summary.remaining),
+            ])}
+          </span>
+          ${summary.tempCount > 0
+            ? html`<span class="recovery-entry-warning" data-role="recovery-temp-names">
+                ${I18nService.t('recovery_temp_names', [String(summary.tempCount)])}
+              </span>`
+            : nothing}
+        </div>
+
+        ${operationId === this.activeOperationId ? this.renderProgress() : nothing}
+
+        <div class="recovery-entry-actions">
+          <button
+            class="button button-tertiary"
+            type="button"
+            data-role="recovery-discard-button"
+            ?disabled=${this.busy}
+            @click=${() => this.dispatchRecoveryEvent('recovery-discard', operationId)}
+          >
+            ${I18nService.t('recovery_discard')}
+          </button>
+          ${canRollback
+            ? html`
+                <button
+                  class="button button-secondary"
+                  type="button"
+                  data-role="recovery-rollback-button"
+                  ?disabled=${this.busy}
+                  @click=${() => this.dispatchRecoveryEvent('recovery-rollback', operationId)}
+                >
+                  ${I18nService.t('recovery_rollback')}
+                </button>
+              `
+            : nothing}
+          <button
+            class="button button-primary"
+            type="button"
+            data-role="recovery-resume-button"
+            ?disabled=${this.busy}
+            @click=${() => this.dispatchRecoveryEvent('recovery-resume', operationId)}
+          >
+            ${I18nService.t('recovery_resume')}
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderProgress() {
+    const progress = this.progress;
+    const percentage = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+    return html`
+      <div class="recovery-entry-progress" data-role="recovery-entry-progress">
+        <div class="progress-bar-container">
+          <div class="progress-bar" style="width: ${percentage}%"></div>
+        </div>
+        <span>
+          ${progress
+            ? I18nService.t('recovery_running', [String(progress.completed), String(progress.total)])
+            : I18nService.t('recovery_checking')}
+        </span>
+      </div>
+    `;
+  }
+
+  private dispatchRecoveryEvent(name: string, operationId: string): void {
+    this.dispatchEvent(
+      new CustomEvent(name, {
+        detail: { operationId },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private handleClose(): void {
+    this.dispatchEvent(
+      new CustomEvent('dialog-close', {
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private handleOverlayClick(event: Event): void {
+    if (event.target === event.currentTarget) {
+      this.handleClose();
+    }
+  }
+
+  private stopPropagation(event: Event): void {
+    event.stopPropagation();
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'recovery-list-dialog': RecoveryListDialog;
+  }
+}
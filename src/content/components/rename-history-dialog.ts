@@ -0,0 +1,417 @@
+import { LitElement, css, html, nothing } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { flattenRuleConfig } from '../../rules/pipeline';
+import { RenameJournalEntry } from '../../types/undo';
+import { I18nService } from '../../utils/i18n';
+
+/**
+ * Rename History Dialog
+ * Lists persisted rename journal entries and lets the user revert any of them,
+ * either entirely or only the checked files.
+ *
+ * @fires history-revert - Revert requested, detail: { entryId, fileIds }
+ * @fires history-delete - Entry removal requested, detail: { entryId }
+ * @fires dialog-close - Dialog dismissed
+ */
+@customElement('rename-history-dialog')
+export class RenameHistoryDialog extends LitElement {
+  @property({ type: Boolean })
+  open = false;
+
+  @property({ type: Boolean })
+  busy = false;
+
+  @property({ attribute: false })
+  entries: RenameJournalEntry[] = [];
+
+  @state()
+  private expandedId: string | null = null;
+
+  /** Entry id -> unchecked file ids (all files are checked by default) */
+  @state()
+  private uncheckedByEntry = new Map<string, Set<string>>();
+
+  static styles = css`
+    :host {
+      position: fixed;
+      inset: 0;
+      z-index: 10001;
+      pointer-events: none;
+      font-family: Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+    }
+
+    .dialog-overlay {
+      position: fixed;
+      inset: 0;
+      display: none;
+      align-items: center;
+      justify-content: center;
+      background: rgba(15, 23, 42, 0.48);
+      pointer-events: auto;
+      padding: 24px;
+      box-sizing: border-box;
+    }
+
+    .dialog-overlay.open {
+      display: flex;
+    }
+
+    .dialog {
+      width: min(760px, 100%);
+      max-height: min(80vh, 760px);
+      background: #fff;
+      color: #111827;
+      border-radius: 18px;
+      box-shadow: 0 24px 64px rgba(15, 23, 42, 0.24);
+      border: 1px solid rgba(148, 163, 184, 0.2);
+      overflow: hidden;
+      display: flex;
+      flex-direction: column;
+    }
+
+    .dialog-header {
+      padding: 20px 24px 12px;
+      border-bottom: 1px solid #e5e7eb;
+    }
+
+    .dialog-title {
+      margin: 0;
+      font-size: 20px;
+      font-weight: 700;
+      line-height: 1.35;
+    }
+
+    .dialog-description {
+      margin: 10px 0 0;
+      color: #4b5563;
+      font-size: 14px;
+      line-height: 1.6;
+    }
+
+    .dialog-body {
+      padding: 16px 24px;
+      overflow-y: auto;
+    }
+
+    .history-list {
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+    }
+
+    .history-entry {
+      border: 1px solid #e5e7eb;
+      border-radius: 12px;
+      background: #f8fafc;
+      padding: 12px 16px;
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+    }
+
+    .history-entry-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 12px;
+      cursor: pointer;
+    }
+
+    .history-entry-meta {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      min-width: 0;
+    }
+
+    .history-entry-time {
+      font-size: 14px;
+      font-weight: 600;
+      color: #1f2937;
+    }
+
+    .history-entry-detail {
+      font-size: 12px;
+      color: #64748b;
+      word-break: break-all;
+    }
+
+    .history-entry-count {
+      display: inline-flex;
+      align-items: center;
+      padding: 4px 10px;
+      border-radius: 999px;
+      font-size: 12px;
+      font-weight: 700;
+      background: #dbeafe;
+      color: #1d4ed8;
+      white-space: nowrap;
+    }
+
+    .history-items {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      max-height: 220px;
+      overflow-y: auto;
+      padding-right: 4px;
+    }
+
+    .history-item {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-size: 13px;
+      color: #1f2937;
+      word-break: break-all;
+    }
+
+    .name-arrow {
+      color: #94a3b8;
+      font-weight: 600;
+    }
+
+    .history-move {
+      color: #64748b;
+      font-size: 12px;
+    }
+
+    .history-entry-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 8px;
+      flex-wrap: wrap;
+    }
+
+    .empty-state {
+      padding: 24px;
+      text-align: center;
+      color: #64748b;
+      font-size: 14px;
+    }
+
+    .dialog-footer {
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      padding: 16px 24px 24px;
+      border-top: 1px solid #e5e7eb;
+    }
+
+    .button {
+      border: 1px solid transparent;
+      border-radius: 10px;
+      padding: 8px 14px;
+      font-size: 13px;
+      font-weight: 600;
+      cursor: pointer;
+    }
+
+    .button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    .button-primary {
+      background: linear-gradient(135deg, #2563eb, #1d4ed8);
+      color: #fff;
+    }
+
+    .button-secondary {
+      background: #fff;
+      color: #1f2937;
+      border-color: #cbd5e1;
+    }
+
+    .button-tertiary {
+      background: #f8fafc;
+      color: #475569;
+      border-color: #e2e8f0;
+    }
+  `;
+
+  render() {
+    return html`
+      <div
+        class="dialog-overlay ${this.open ? 'open' : ''}"
+        data-role="dialog-overlay"
+        @click=${this.handleOverlayClick}
+      >
+        <div class="dialog" @click=${this.stopPropagation}>
+          <div class="dialog-header">
+            <h3 class="dialog-title">${I18nService.t('history_dialog_title')}</h3>
+            <p class="dialog-description">${I18nService.t('history_dialog_description')}</p>
+          </div>
+
+          <div class="dialog-body">
+            ${this.entries.length > 0
+              ? html`<div class="history-list" data-role="history-list">
+                  ${this.entries.map((entry) => this.renderEntry(entry))}
+                </div>`
+              : html`<div class="empty-state">${I18nService.t('history_empty')}</div>`}
+          </div>
+
+          <div class="dialog-footer">
+            <button class="button button-tertiary" type="button" data-role="close-button" @click=${this.handleClose}>
+              ${I18nService.t('close')}
+            </button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderEntry(entry: RenameJournalEntry) {
+    const expanded = this.expandedId === entry.id;
+    const selectedCount = this.getSelectedFileIds(entry).length;
+
+    return html`
+      <div class="history-entry" data-role="history-entry">
+        <div class="history-entry-header" @click=${() => this.toggleExpanded(entry.id)}>
+          <div class="history-entry-meta">
+            <span class="history-entry-time">${new Date(entry.createdAt).toLocaleString()}</span>
+            <span class="history-entry-detail">${this.getRuleSummary(entry)}</span>
+            <span class="history-entry-detail">${I18nService.t('history_directory', [entry.directoryKey || '/'])}</span>
+          </div>
+          <span class="history-entry-count">${I18nService.t('history_file_count', [String(entry.items.length)])}</span>
+        </div>
+
+        ${expanded
+          ? html`
+              <div class="history-items">
+                ${entry.items.map(
+                  (item) => html`
+                    <label class="history-item">
+                      <input
+                        type="checkbox"
+                        data-role="history-item-checkbox"
+                        .checked=${!this.uncheckedByEntry.get(entry.id)?.has(item.fileId)}
+                        @change=${() => this.toggleItem(entry.id, item.fileId)}
+                      />
+                      <span>${item.renamed}</span>
+                      <span class="name-arrow">→</span>
+                      <span>${item.original}</span>
+                      ${item.move
+                        ? html`<span class="history-move" data-role="history-move">
+                            ${I18nService.t('history_move', [item.move.toPath, item.move.fromPath || '/'])}
+                          </span>`
+                        : nothing}
+                    </label>
+                  `
+                )}
+              </div>
+            `
+          : nothing}
+
+        <div class="history-entry-actions">
+          <button
+            class="button button-tertiary"
+            type="button"
+            data-role="history-delete-button"
+            ?disabled=${this.busy}
+            @click=${() => this.dispatchHistoryEvent('history-delete', { entryId: entry.id })}
+          >
+            ${I18nService.t('history_delete')}
+          </button>
+          ${expanded
+            ? html`
+                <button
+                  class="button button-secondary"
+                  type="button"
+                  data-role="history-revert-selected-button"
+                  ?disabled=${this.busy || selectedCount === 0}
+                  @click=${() => this.handleRevert(entry, this.getSelectedFileIds(entry))}
+                >
+                  ${I18nService.t('history_revert_selected', [String(selectedCount)])}
+                </button>
+              `
+            : nothing}
+          <button
+            class="button button-primary"
+            type="button"
+            data-role="history-revert-all-button"
+            ?disabled=${this.busy}
+            @click=${() => this.handleRevert(entry, entry.items.map((item) => item.fileId))}
+          >
+            ${I18nService.t('history_revert_all')}
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
+  private getRuleSummary(entry: RenameJournalEntry): string {
+    if (!entry.rule) {
+      return I18nService.t('history_rule_unknown');
+    }
+
+    return flattenRuleConfig(entry.rule)
+      .map((step) => I18nService.t(`rule_${step.type.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`)}`))
+      .join(' → ');
+  }
+
+  private getSelectedFileIds(entry: RenameJournalEntry): string[] {
+    const unchecked = this.uncheckedByEntry.get(entry.id);
+    return entry.items.map((item) => item.fileId).filter((fileId) => !unchecked?.has(fileId));
+  }
+
+  private toggleExpanded(entryId: string): void {
+    this.expandedId = this.expandedId === entryId ? null : entryId;
+  }
+
+  private toggleItem(entryId: string, fileId: string): void {
+    const unchecked = new Set(this.uncheckedByEntry.get(entryId));
+    if (unchecked.has(fileId)) {
+      unchecked.delete(fileId);
+    } else {
+      unchecked.add(fileId);
+    }
+
+    const next = new Map(this.uncheckedByEntry);
+    next.set(entryId, unchecked);
+    this.uncheckedByEntry = next;
+  }
+
+  private handleRevert(entry: RenameJournalEntry, fileIds: string[]): void {
+    if (fileIds.length === 0) {
+      return;
+    }
+
+    this.dispatchHistoryEvent('history-revert', { entryId: entry.id, fileIds });
+  }
+
+  private dispatchHistoryEvent(name: string, detail: Record<string, unknown>): void {
+    this.dispatchEvent(
+      new CustomEvent(name, {
+        detail,
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private handleClose(): void {
+    this.dispatchEvent(
+      new CustomEvent('dialog-close', {
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private handleOverlayClick(event: Event): void {
+    if (event.target === event.currentTarget) {
+      this.handleClose();
+    }
+  }
+
+  private stopPropagation(event: Event): void {
+    event.stopPropagation();
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'rename-history-dialog': RenameHistoryDialog;
+  }
+}
@@ -11,10 +11,13 @@ import { I18nService } from '../../utils/i18n';
  * 预览项接口
  */
 interface PreviewItem {
+  fileId: string;
   original: string;
   renamed: string;
   hasConflict: boolean;
   hasChange: boolean;
+  /** 新文件名是否为手动指定 */
+  manual: boolean;
 }
 
 /**
@@ -24,9 +27,14 @@ interface PreviewItem {
  * 使用方式:
  * <rename-preview
  *   .files=${files}
- *   .rule=${ruleConfig}>
+ *   .rule=${ruleConfig}
+ *   .overrides=${overrides}
+ *   @name-override=${handleNameOverride}>
  * </rename-preview>
  *
+ * 双击新文件名可手动修改（回车保存，Esc 取消，清空则恢复规则结果），
+ * 修改后触发 name-override 事件（detail: { fileId, newName }）
+ *
  * 注意：组件需要通过 customElements.define() 手动注册
  */
 export class RenamePreview extends LitElement {
@@ -42,6 +50,18 @@ export class RenamePreview extends LitElement {
   @property({ type: Object })
   rule!: RuleConfig;
 
+  /**
+   * 手动指定的新文件名（文件 ID -> 新文件名），优先于规则结果
+   */
+  @property({ attribute: false })
+  overrides: Map<string, string> = new Map();
+
+  /**
+   * 正在编辑的文件 ID
+   */
+  @state()
+  private editingId: string | null = null;
+
   /**
    * 预览数据
    */
@@ -157,6 +177,27 @@ export class RenamePreview extends LitElement {
       border-radius: 2px;
     }
 
+    .name-editor {
+      flex: 1;
+      min-width: 0;
+      margin-left: 12px;
+      padding: 4px 8px;
+      border: 1px solid #1890ff;
+      border-radius: 4px;
+      font-size: 13px;
+      outline: none;
+    }
+
+    .manual-badge {
+      flex-shrink: 0;
+      margin-left: 8px;
+      padding: 4px 8px;
+      background-color: #e6f7ff;
+      color: #1890ff;
+      border-radius: 4px;
+      font-size: 12px;
+    }
+
     .conflict-badge {
       flex-shrink: 0;
       padding: 4px 8px;
@@ -228,9 +269,13 @@ export class RenamePreview extends LitElement {
   `;
 
   updated(changedProperties: Map<string | number | symbol, unknown>) {
-    if (changedProperties.has('files') || changedProperties.has('rule')) {
+    if (changedProperties.has('files') || changedProperties.has('rule') || changedProperties.has('overrides')) {
       this.generatePreview();
     }
+
+    if (changedProperties.has('editingId') && this.editingId) {
+      this.renderRoot.querySelector<HTMLInputElement>('.name-editor')?.focus();
+    }
   }
 
   render() {
@@ -320,7 +365,22 @@ export class RenamePreview extends LitElement {
       <div class=${classes}>
         <span class="original">${item.original}</span>
         <span class="arrow">→</span>
-        <span class="renamed">${this.highlightChanges(item.original, item.renamed)}</span>
+        ${this.editingId === item.fileId
+          ? html`
+              <input
+                class="name-editor"
+                .value=${item.renamed}
+                aria-label=${I18nService.t('preview_edit_name')}
+                @keydown=${(e: KeyboardEvent) => this.handleEditorKeydown(e, item)}
+                @blur=${(e: Event) => this.commitEdit(item, (e.target as HTMLInputElement).value)}
+              />
+            `
+          : html`
+              <span class="renamed" @dblclick=${() => (this.editingId = item.fileId)}>
+                ${this.highlightChanges(item.original, item.renamed)}
+              </span>
+            `}
+        ${item.manual ? html`<span class="manual-badge">${I18nService.t('preview_badge_manual')}</span>` : ''}
         ${item.hasConflict
           ? html`<span class="conflict-badge">${I18nService.t('preview_badge_conflict')}</span>`
           : !item.hasChange
@@ -330,6 +390,48 @@ export class RenamePreview extends LitElement {
     `;
   }
 
+  private handleEditorKeydown(e: KeyboardEvent, item: PreviewItem) {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      this.commitEdit(item, (e.target as HTMLInputElement).value);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      this.editingId = null;
+    }
+  }
+
+  /**
+   * 提交手动修改：清空则移除覆盖，恢复规则结果
+   */
+  private commitEdit(item: PreviewItem, value: string) {
+    if (this.editingId !== item.fileId) {
+      return;
+    }
+    this.editingId = null;
+
+    const newName = value.trim();
+    if (newName === item.renamed) {
+      return;
+    }
+
+    const next = new Map(this.overrides);
+    if (newName) {
+      next.set(item.fileId, newName);
+    } else {
+      next.delete(item.fileId);
+    }
+    this.overrides = next;
+
+    this.dispatchEvent(
+      new CustomEvent('name-override', {
+        detail: { fileId: item.fileId, newName },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
   /**
    * 生成预览数据
    */
@@ -347,17 +449,21 @@ export class RenamePreview extends LitElement {
 
     try {
       const ruleExecutor = RuleFactory.create(this.rule);
+      ruleExecutor.prepare?.(this.files);
       const startTime = performance.now();
 
       this.previewData = this.files.map((file, index) => {
         const original = file.name;
-        const renamed = ruleExecutor.execute(file.name, index, this.files.length);
+        const override = this.overrides.get(file.id);
+        const renamed = override ?? ruleExecutor.execute(file.name, index, this.files.length, file);
 
         return {
+          fileId: file.id,
           original,
           renamed,
           hasConflict: false, // 冲突检查在实际重命名时进行
           hasChange: original !== renamed,
+          manual: override !== undefined,
         };
       });
 
@@ -151,6 +151,8 @@ export class Toolbar extends LitElement {
         return I18nService.t('type_document');
       case 'other':
         return I18nService.t('type_other');
+      case 'folder':
+        return I18nService.t('type_folder');
     }
   }
 
@@ -195,6 +197,7 @@ export class Toolbar extends LitElement {
       { value: 'audio', label: I18nService.t('type_audio') },
       { value: 'document', label: I18nService.t('type_document') },
       { value: 'other', label: I18nService.t('type_other') },
+      { value: 'folder', label: I18nService.t('type_folder') },
     ];
 
     return html`
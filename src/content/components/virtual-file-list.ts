@@ -1,12 +1,18 @@
-import { LitElement, html, css, type PropertyValues } from 'lit';
+import { LitElement, html, css, type PropertyValues, type TemplateResult } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 import { virtualize, virtualizerRef } from '@lit-labs/virtualizer/virtualize.js';
 import { FileItem } from '../../types/platform';
 import { I18nService } from '../../utils/i18n';
 
+/**
+ * A list row: a file, or a folder header when files come from several folders
+ */
+type FileListRow = { kind: 'folder'; path: string } | { kind: 'file'; file: FileItem };
+
 /**
  * Virtual File List Component
- * Renders a virtualized list of files for optimal performance with large datasets
+ * Renders a virtualized list of files for optimal performance with large datasets.
+ * Files loaded from subfolders are grouped under a header per relative path.
  *
  * @fires file-toggle - Dispatched when a file's checkbox is toggled
  * @fires file-click - Dispatched when a file is clicked
@@ -53,6 +59,29 @@ export class VirtualFileList extends LitElement {
     return this.files.length > VirtualFileList.VIRTUALIZE_MIN_ITEMS;
   }
 
+  /**
+   * Rows to render: consecutive files with the same relative path share one header
+   * (no headers when every file is in the current folder)
+   * @private
+   */
+  private getRows(): FileListRow[] {
+    if (!this.files.some((file) => file.relativePath)) {
+      return this.files.map((file) => ({ kind: 'file', file }));
+    }
+
+    const rows: FileListRow[] = [];
+    let currentPath: string | null = null;
+    for (const file of this.files) {
+      const path = file.relativePath ?? '';
+      if (path !== currentPath) {
+        rows.push({ kind: 'folder', path });
+        currentPath = path;
+      }
+      rows.push({ kind: 'file', file });
+    }
+    return rows;
+  }
+
   private computeFilesKey(files: FileItem[]): string {
     const len = files.length;
     if (len === 0) return '0';
@@ -120,7 +149,7 @@ export class VirtualFileList extends LitElement {
 
     return html`
       <div
-        class="file-item ${isChecked ? 'checked' : ''}"
+        class="file-item ${isChecked ? 'checked' : ''} ${file.isFolder ? 'folder' : ''}"
         @click=${() => this.handleFileClick(file.id)}
       >
         <label class="file-checkbox" @click=${(e: Event) => e.stopPropagation()}>
@@ -138,13 +167,39 @@ export class VirtualFileList extends LitElement {
             ${file.name}
           </div>
           <div class="file-meta">
-            ${this.formatFileSize(file.size)}
+            ${file.isFolder ? this.formatFolderMeta(file) : this.formatFileSize(file.size)}
           </div>
         </div>
       </div>
     `;
   }
 
+  /**
+   * Render a folder header row
+   * @private
+   */
+  private renderFolderHeader(path: string): TemplateResult {
+    return html`
+      <div class="folder-header" data-role="file-group-header" title=${path}>
+        ${path || I18nService.t('recursive_root_folder')}
+      </div>
+    `;
+  }
+
+  private renderRow(row: FileListRow): TemplateResult {
+    return row.kind === 'folder' ? this.renderFolderHeader(row.path) : this.renderFileItem(row.file);
+  }
+
+  /**
+   * Format folder meta (child count when the platform provides it)
+   * @private
+   */
+  private formatFolderMeta(file: FileItem): string {
+    return file.childCount === undefined
+      ? I18nService.t('type_folder')
+      : I18nService.t('folder_child_count', [String(file.childCount)]);
+  }
+
   /**
    * Format file size
    * @private
@@ -211,11 +266,11 @@ export class VirtualFileList extends LitElement {
       <div class="file-list">
         ${this.shouldVirtualize()
           ? virtualize({
-              items: this.files,
-              keyFunction: (file) => file.id,
-              renderItem: (file) => this.renderFileItem(file),
+              items: this.getRows(),
+              keyFunction: (row) => (row.kind === 'folder' ? `folder:${row.path}` : row.file.id),
+              renderItem: (row) => this.renderRow(row),
             })
-          : this.files.map((file) => this.renderFileItem(file))}
+          : this.getRows().map((row) => this.renderRow(row))}
       </div>
     `;
   }
@@ -245,6 +300,16 @@ export class VirtualFileList extends LitElement {
       border-bottom: 1px solid var(--cdr-border, #f0f0f0);
     }
 
+    .folder-header {
+      padding: 8px 12px 4px;
+      font-size: 12px;
+      font-weight: 600;
+      color: var(--cdr-text-secondary, #595959);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
     .file-item:hover {
       background: var(--cdr-surface-hover, #f5f5f5);
     }
@@ -320,6 +385,10 @@ export class VirtualFileList extends LitElement {
       white-space: nowrap;
     }
 
+    .file-item.folder .file-name::before {
+      content: '📁 ';
+    }
+
     .file-meta {
       font-size: 12px;
       color: var(--cdr-text-tertiary, #8c8c8c);
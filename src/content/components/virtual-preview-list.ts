@@ -1,8 +1,9 @@
 import { LitElement, html, css, type PropertyValues } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
+import { customElement, property, state } from 'lit/decorators.js';
 import { virtualize, virtualizerRef } from '@lit-labs/virtualizer/virtualize.js';
 import { PreviewItem } from '../../types/file-selector';
 import { I18nService } from '../../utils/i18n';
+import { diffNames } from '../../utils/name-diff';
 
 /**
  * Virtual Preview List Component
@@ -11,9 +12,13 @@ import { I18nService } from '../../utils/i18n';
  * @example
  * ```html
  * <virtual-preview-list
- *   .items=${previewItems}>
+ *   .items=${previewItems}
+ *   .editable=${true}
+ *   @name-override=${handleNameOverride}>
  * </virtual-preview-list>
  * ```
+ *
+ * @fires name-override - Fired when a row's new name is edited inline (detail: { fileId, newName })
  */
 @customElement('virtual-preview-list')
 export class VirtualPreviewList extends LitElement {
@@ -31,6 +36,18 @@ export class VirtualPreviewList extends LitElement {
   @property({ type: Boolean })
   showStatus = false;
 
+  /**
+   * Whether rows can be double-clicked to edit the new name
+   */
+  @property({ type: Boolean })
+  editable = false;
+
+  /**
+   * ID of the file whose new name is being edited
+   */
+  @state()
+  private editingId: string | null = null;
+
   /**
    * Track if virtualizer has been initialized for current data
    * @private
@@ -70,6 +87,72 @@ export class VirtualPreviewList extends LitElement {
     virtualizer._hostElementSizeChanged();
   }
 
+  private startEdit(item: PreviewItem): void {
+    if (!this.editable || item.done) return;
+    this.editingId = item.file.id;
+  }
+
+  private commitEdit(item: PreviewItem, value: string): void {
+    if (this.editingId !== item.file.id) return;
+    this.editingId = null;
+
+    if (value === item.newName) return;
+
+    this.dispatchEvent(
+      new CustomEvent('name-override', {
+        detail: { fileId: item.file.id, newName: value },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private handleEditorKeydown(e: KeyboardEvent, item: PreviewItem): void {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      this.commitEdit(item, (e.target as HTMLInputElement).value);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      this.editingId = null;
+    }
+  }
+
+  private renderNameEditor(item: PreviewItem) {
+    return html`
+      <input
+        class="name-editor"
+        data-role="name-editor"
+        aria-label=${I18nService.t('preview_edit_name')}
+        .value=${item.newName}
+        @keydown=${(e: KeyboardEvent) => this.handleEditorKeydown(e, item)}
+        @blur=${(e: Event) => this.commitEdit(item, (e.target as HTMLInputElement).value)}
+        @dblclick=${(e: Event) => e.stopPropagation()}
+      />
+    `;
+  }
+
+  /**
+   * Render the new name as an inline character diff against the original name
+   * (deletions struck through, insertions highlighted). Only visible rows are
+   * rendered by the virtualizer, and diffs are cached, so large lists stay fast.
+   * @private
+   */
+  private renderNameText(item: PreviewItem) {
+    if (item.error || item.newName === item.file.name) {
+      return html`<span class="name-text">${item.newName}</span>`;
+    }
+
+    return html`<span class="name-text" data-role="name-diff">${diffNames(item.file.name, item.newName).map(
+      (segment) =>
+        segment.type === 'equal'
+          ? segment.text
+          : segment.type === 'delete'
+            ? html`<del class="diff-delete">${segment.text}</del>`
+            : html`<ins class="diff-insert">${segment.text}</ins>`
+    )}</span>`;
+  }
+
   /**
    * Render a single preview item
    * @private
@@ -95,13 +178,33 @@ export class VirtualPreviewList extends LitElement {
             ? html`<span class="status-badge pending">${I18nService.t('status_pending')}</span>`
             : '';
 
+    const manualBadge = item.manual
+      ? html`<span class="status-badge manual">${I18nService.t('preview_badge_manual')}</span>`
+      : '';
+
     return html`
-      <div class="preview-item ${statusClass}">
+      <div
+        class="preview-item ${statusClass} ${item.manual ? 'manual' : ''}"
+        data-role="preview-item"
+        @dblclick=${() => this.startEdit(item)}
+      >
         <div class="preview-content">
-          <div class="new-name ${statusClass}" title=${item.newName}>
-            ${item.newName}
-            ${statusBadge}
-          </div>
+          ${this.editable && this.editingId === item.file.id
+            ? this.renderNameEditor(item)
+            : html`
+                <div class="new-name ${statusClass}" title=${item.newName}>
+                  ${this.renderNameText(item)}
+                  ${manualBadge}
+                  ${statusBadge}
+                </div>
+              `}
+          ${
+            item.destination
+              ? html`<div class="destination" data-role="preview-destination" title=${item.destination}>
+                  ${I18nService.t('preview_destination', [item.destination])}
+                </div>`
+              : ''
+          }
           ${
             item.error
               ? html`<div class="error-message" title=${item.error}>${item.error}</div>`
@@ -119,6 +222,15 @@ export class VirtualPreviewList extends LitElement {
   protected updated(changedProperties: PropertyValues<this>): void {
     super.updated(changedProperties);
 
+    if (changedProperties.has('editingId' as keyof VirtualPreviewList) && this.editingId) {
+      const editor = this.renderRoot.querySelector<HTMLInputElement>('[data-role="name-editor"]');
+      if (editor) {
+        editor.focus();
+        const dot = editor.value.lastIndexOf('.');
+        editor.setSelectionRange(0, dot > 0 ? dot : editor.value.length);
+      }
+    }
+
     if (changedProperties.has('items') && this.items.length > 0) {
       const nextKey = this.computeItemsKey(this.items);
       if (nextKey !== this._itemsKey) {
@@ -241,6 +353,24 @@ export class VirtualPreviewList extends LitElement {
       gap: 8px;
     }
 
+    .name-text {
+      min-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .diff-delete {
+      color: var(--cdr-danger-text, #cf1322);
+      background: var(--cdr-danger-bg, #fff1f0);
+      text-decoration: line-through;
+    }
+
+    .diff-insert {
+      color: var(--cdr-success-text, #389e0d);
+      background: var(--cdr-success-bg, #f6ffed);
+      text-decoration: none;
+    }
+
     .new-name.conflict {
       color: var(--cdr-warning-text, #fa8c16);
     }
@@ -257,6 +387,15 @@ export class VirtualPreviewList extends LitElement {
       color: var(--cdr-text-secondary, #595959);
     }
 
+    .destination {
+      margin-top: 2px;
+      font-size: 12px;
+      color: var(--cdr-text-tertiary, #8c8c8c);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
     .error-message {
       margin-top: 4px;
       font-size: 12px;
@@ -294,6 +433,28 @@ export class VirtualPreviewList extends LitElement {
       color: var(--cdr-success-text, #389e0d);
     }
 
+    .preview-item.manual {
+      border-left: 3px solid var(--cdr-primary, #1890ff);
+    }
+
+    .status-badge.manual {
+      background: var(--cdr-selection-bg, #e6f7ff);
+      border: 1px solid var(--cdr-primary, #1890ff);
+      color: var(--cdr-primary, #1890ff);
+    }
+
+    .name-editor {
+      width: 100%;
+      padding: 4px 8px;
+      border: 1px solid var(--cdr-primary, #1890ff);
+      border-radius: 4px;
+      font-size: 14px;
+      box-sizing: border-box;
+      background: var(--cdr-surface, #fff);
+      color: var(--cdr-text, #262626);
+      outline: none;
+    }
+
     .status-badge.pending {
       background: var(--cdr-surface-hover, #f5f5f5);
       border: 1px solid var(--cdr-border-strong, #d9d9d9);
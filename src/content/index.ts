@@ -3,12 +3,15 @@ import type { PlatformAdapter, PlatformName } from '../types/platform';
 import { FloatingButton } from './components/floating-button';
 import { AliyunAdapter } from '../adapters/aliyun/aliyun-adapter';
 import { BaiduAdapter } from '../adapters/baidu/baidu-adapter';
+import { Pan115Adapter } from '../adapters/115/pan115-adapter';
+import { Pan123Adapter } from '../adapters/123pan/pan123-adapter';
+import { TianyiAdapter } from '../adapters/tianyi/tianyi-adapter';
 import { QuarkAdapter } from '../adapters/quark/quark';
 import { storage } from '../utils/storage';
 import { STORAGE_KEYS } from '../types/stats';
 import { I18nService } from '../utils/i18n';
 import type { LanguageChangeMessage } from '../types/i18n';
-import { detectPlatformFromUrl, isQuarkShareLink, isAliyunShareLink } from '../utils/platform-detector';
+import { detectPlatformFromUrl, isQuarkShareLink, isAliyunShareLink, isPan115ShareLink, isPan123ShareLink, PAN123_HOSTNAMES, isTianyiShareLink } from '../utils/platform-detector';
 import { applyAppearanceToElement, getAppearanceMode, watchSystemColorScheme } from '../utils/appearance';
 import { APPEARANCE_STORAGE_KEY, DEFAULT_APPEARANCE_MODE, isAppearanceMode, type AppearanceMode } from '../types/appearance';
 import { RUNTIME_MESSAGE_TYPES } from '../types/runtime-message';
@@ -65,6 +68,15 @@ export function detectPlatform(): PlatformName | null {
   if ((url.includes('www.aliyundrive.com') || url.includes('www.alipan.com')) && isAliyunShareLink(pathname)) {
     logger.warn('Aliyun share link detected, extension disabled for share pages');
   }
+  if (url.startsWith('https://115.com/') && isPan115ShareLink(pathname)) {
+    logger.warn('115 share link detected, extension disabled for share pages');
+  }
+  if (PAN123_HOSTNAMES.some((hostname) => url.startsWith(`https://${hostname}/`)) && isPan123ShareLink(pathname)) {
+    logger.warn('123pan share link detected, extension disabled for share pages');
+  }
+  if (url.includes('cloud.189.cn') && isTianyiShareLink(pathname)) {
+    logger.warn('Tianyi share link detected, extension disabled for share pages');
+  }
 
   return platform;
 }
@@ -187,9 +199,11 @@ function cleanupOldInstances(): void {
  * 背景: @crxjs/vite-plugin 不支持在 manifest.json 中直接配置 world: "MAIN" 的 TypeScript 文件
  * 解决方案: 在 content script (ISOLATED world) 中动态创建 <script> 标签注入到页面
  *
- * @param platform - 平台名称 (aliyun/baidu/quark)
+ * @param platform - 平台名称 (aliyun/baidu/quark/115/123pan/tianyi)
  */
-async function injectPageScriptToMainWorld(platform: 'aliyun' | 'baidu' | 'quark'): Promise<void> {
+async function injectPageScriptToMainWorld(
+  platform: 'aliyun' | 'baidu' | 'quark' | '115' | '123pan' | 'tianyi'
+): Promise<void> {
   // ✅ 引用编译后的 .js 文件（Vite 会将 TypeScript 编译为 JavaScript）
   const scriptPath = `src/adapters/${platform}/page-script.js`;
   const scriptURL = chrome.runtime.getURL(scriptPath);
@@ -255,6 +269,18 @@ function createPlatformAdapter(platform: PlatformName): PlatformAdapter {
       return new BaiduAdapter();
     case 'quark':
       return new QuarkAdapter();
+    case '115':
+      return new Pan115Adapter();
+    case '123pan':
+      return new Pan123Adapter();
+    case 'tianyi':
+      return new TianyiAdapter();
+    case 'webdav':
+      // WebDAV 没有宿主页面，适配器由扩展页 src/webdav 创建
+      throw new Error('WebDAV adapter is only available on the WebDAV extension page');
+    case 'mock':
+      // 模拟网盘只在沙盒扩展页 src/sandbox 中使用
+      throw new Error('Mock adapter is only available on the sandbox extension page');
   }
 }
 
@@ -358,7 +384,7 @@ async function injectUI(platform: PlatformName) {
 
   // 为所有平台动态注入 page-script 到 MAIN world
   // 原因: @crxjs/vite-plugin 不支持在 manifest 中直接配置 world: "MAIN" 的 TypeScript 文件
-  if (platform === 'aliyun' || platform === 'baidu' || platform === 'quark') {
+  if (platform === 'aliyun' || platform === 'baidu' || platform === 'quark' || platform === '115' || platform === '123pan' || platform === 'tianyi') {
     await injectPageScriptToMainWorld(platform);
   }
 
@@ -0,0 +1,64 @@
+import type { CircuitTrip, ErrorCategory } from '../types/error';
+import { isAuthStatusError } from './error-taxonomy';
+
+/**
+ * 默认熔断阈值：同一分类连续失败的次数
+ */
+export const DEFAULT_CIRCUIT_BREAKER_THRESHOLD = 10;
+
+/**
+ * 熔断器
+ *
+ * 批量执行中同一分类的错误连续出现 N 次（例如会话过期后每个请求都失败），
+ * 或出现登录失效 / HTTP 401、403 时立即熔断，由执行引擎暂停整批任务，
+ * 避免继续发出注定失败的请求。任意一次成功会清零计数。
+ */
+export class CircuitBreaker {
+  private category: ErrorCategory | null = null;
+  private failures = 0;
+
+  constructor(private readonly threshold = DEFAULT_CIRCUIT_BREAKER_THRESHOLD) {}
+
+  /**
+   * 记录一次成功
+   */
+  recordSuccess(): void {
+    this.reset();
+  }
+
+  /**
+   * 记录一次失败
+   * @param category 错误分类
+   * @param error 原始错误
+   * @param fileId 失败的文件ID
+   * @returns 需要熔断时返回熔断原因，否则返回 null
+   */
+  recordFailure(category: ErrorCategory, error: unknown, fileId?: string): CircuitTrip | null {
+    if (category === this.category) {
+      this.failures += 1;
+    } else {
+      this.category = category;
+      this.failures = 1;
+    }
+
+    const authFailure = category === 'auth_expired' || isAuthStatusError(error);
+    if (!authFailure && this.failures < Math.max(1, this.threshold)) {
+      return null;
+    }
+
+    return {
+      category: authFailure ? 'auth_expired' : category,
+      failures: this.failures,
+      message: error instanceof Error ? error.message : String(error),
+      fileId,
+    };
+  }
+
+  /**
+   * 清零连续失败计数（恢复执行时调用）
+   */
+  reset(): void {
+    this.category = null;
+    this.failures = 0;
+  }
+}
@@ -1,4 +1,4 @@
-import { FileItem, PlatformAdapter } from '../types/platform';
+import { FileItem, PlatformAdapter, PlatformConfig } from '../types/platform';
 import { logger } from '../utils/logger';
 
 /**
@@ -50,6 +50,39 @@ export enum ConflictResolution {
   SKIP = 'skip',
 }
 
+/**
+ * 文件名比较规则（取自平台配置）
+ */
+export type NameComparisonOptions = Pick<PlatformConfig, 'caseSensitive' | 'caseOnlyRename'>;
+
+/**
+ * 获取用于比较的文件名键（不区分大小写的平台统一转为小写）
+ * @param name 文件名
+ * @param options 文件名比较规则
+ */
+export function getNameKey(name: string, options: NameComparisonOptions = {}): string {
+  return options.caseSensitive === false ? name.toLowerCase() : name;
+}
+
+/**
+ * 获取限定在父目录内的文件名键（不同目录下的同名文件互不冲突，用于递归加载的多目录批次）
+ * @param parentId 父目录ID
+ * @param name 文件名
+ * @param options 文件名比较规则
+ */
+export function getScopedNameKey(parentId: string, name: string, options: NameComparisonOptions = {}): string {
+  return `${parentId}\n${getNameKey(name, options)}`;
+}
+
+/**
+ * 是否为仅修改大小写的重命名（如 movie.MKV → movie.mkv）
+ * @param name 原文件名
+ * @param newName 新文件名
+ */
+export function isCaseOnlyRename(name: string, newName: string): boolean {
+  return name !== newName && name.toLowerCase() === newName.toLowerCase();
+}
+
 /**
  * 检测单个文件名冲突
  * @param newName 新文件名
@@ -91,11 +124,13 @@ export async function checkSingleConflict(
  * 检测批量重命名中的内部冲突
  * @param files 文件列表
  * @param newNames 新文件名列表
- * @returns 冲突检测结果映射(文件ID -> 冲突结果)
+ * @param options 文件名比较规则（不区分大小写时 A.txt 与 a.txt 视为重名）
+ * @returns 冲突检测结果映射(文件ID -> 冲突结果)，只比较同一父目录下的文件
  */
 export function checkBatchConflicts(
   files: FileItem[],
-  newNames: string[]
+  newNames: string[],
+  options: NameComparisonOptions = {}
 ): Map<string, ConflictResult> {
   const results = new Map<string, ConflictResult>();
   const nameCount = new Map<string, number>();
@@ -103,25 +138,27 @@ export function checkBatchConflicts(
 
   // 统计每个新文件名出现的次数
   newNames.forEach((name, index) => {
-    const count = nameCount.get(name) || 0;
-    nameCount.set(name, count + 1);
+    const key = getScopedNameKey(files[index].parentId, name, options);
+    const count = nameCount.get(key) || 0;
+    nameCount.set(key, count + 1);
 
-    const fileList = nameToFiles.get(name) || [];
+    const fileList = nameToFiles.get(key) || [];
     fileList.push(files[index].name);
-    nameToFiles.set(name, fileList);
+    nameToFiles.set(key, fileList);
   });
 
   // 检测重复
   files.forEach((file, index) => {
     const newName = newNames[index];
-    const count = nameCount.get(newName) || 0;
+    const key = getScopedNameKey(file.parentId, newName, options);
+    const count = nameCount.get(key) || 0;
 
     if (count > 1) {
       results.set(file.id, {
         type: ConflictType.DUPLICATE_IN_BATCH,
         hasConflict: true,
         conflictingName: newName,
-        conflictingFiles: nameToFiles.get(newName),
+        conflictingFiles: nameToFiles.get(key),
       });
     } else {
       results.set(file.id, {
@@ -146,8 +183,17 @@ export async function checkAllConflicts(
   newNames: string[],
   adapter: PlatformAdapter
 ): Promise<Map<string, ConflictResult>> {
+  const options = adapter.getConfig();
+
   // 先检测批量内部冲突
-  const batchConflicts = checkBatchConflicts(files, newNames);
+  const batchConflicts = checkBatchConflicts(files, newNames, options);
+
+  // 批次内其他文件会让出的名称（互换/链式改名），执行时由两阶段重命名处理，不算外部冲突
+  const vacatedNames = new Set(
+    files
+      .filter((file, index) => newNames[index] !== file.name)
+      .map((file) => getScopedNameKey(file.parentId, file.name, options))
+  );
 
   // 再检测每个文件与现有文件的冲突
   const externalConflictPromises = files.map(async (file, index) => {
@@ -158,7 +204,12 @@ export async function checkAllConflicts(
       return { fileId: file.id, result: batchConflict };
     }
 
+    // 仅修改大小写时不与自身冲突（vacatedNames 已包含自身的键）
     const newName = newNames[index];
+    if (vacatedNames.has(getScopedNameKey(file.parentId, newName, options))) {
+      return { fileId: file.id, result: { type: ConflictType.NONE, hasConflict: false } };
+    }
+
     const externalConflict = await checkSingleConflict(newName, file.parentId, adapter);
 
     return { fileId: file.id, result: externalConflict };
@@ -225,12 +276,14 @@ export function resolveConflictWithNumber(baseName: string, startNumber: number
  * @param files 文件列表
  * @param newNames 新文件名列表
  * @param conflicts 冲突检测结果
+ * @param options 文件名比较规则（不区分大小写时仅大小写不同的名称共用编号）
  * @returns 解决冲突后的新文件名列表
  */
 export function resolveBatchConflicts(
   files: FileItem[],
   newNames: string[],
-  conflicts: Map<string, ConflictResult>
+  conflicts: Map<string, ConflictResult>,
+  options: NameComparisonOptions = {}
 ): string[] {
   const nameCounter = new Map<string, number>();
   const resolvedNames: string[] = [];
@@ -241,8 +294,9 @@ export function resolveBatchConflicts(
 
     if (conflict?.hasConflict) {
       // 获取当前名称的计数器
-      const counter = nameCounter.get(newName) || 1;
-      nameCounter.set(newName, counter + 1);
+      const key = getScopedNameKey(file.parentId, newName, options);
+      const counter = nameCounter.get(key) || 1;
+      nameCounter.set(key, counter + 1);
 
       // 添加编号
       const resolvedName = resolveConflictWithNumber(newName, counter);
@@ -292,7 +346,7 @@ export class ConflictDetector {
   ): string[] {
     switch (resolution) {
       case ConflictResolution.AUTO_NUMBER:
-        return resolveBatchConflicts(files, newNames, conflicts);
+        return resolveBatchConflicts(files, newNames, conflicts, this.adapter.getConfig());
 
       case ConflictResolution.SKIP:
         // 跳过冲突文件,保留原名
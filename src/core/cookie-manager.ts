@@ -8,6 +8,11 @@ import { logger } from '../utils/logger';
  * - 暂停所有操作
  * - 显示刷新页面提示
  *
+ * 批量重命名不经过 detectCookieExpiration：多数适配器在页面脚本中请求，拿不到 Response，
+ * 而登录失效（401/403 或平台的未登录错误码）已随适配器错误传到执行引擎并立即熔断，
+ * 由面板提示重新登录后重新检查继续；这里的刷新确认框若在批次中途出现，刷新会打断正在进行的重命名。
+ * 其他直接 fetch 的场景仍可使用它，发出的 pause-all-operations 事件会让面板熔断当前批次。
+ *
  * @example
  * ```typescript
  * const cookieManager = new CookieManager();
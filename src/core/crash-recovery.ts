@@ -1,186 +1,276 @@
-import { PlatformAdapter } from '../types/platform';
-import { OperationState, Task } from '../types/core';
+import { FileItem, PlatformAdapter } from '../types/platform';
+import {
+  BatchResults,
+  CRASH_RECOVERY_MAX_AGE_STORAGE_KEY,
+  DEFAULT_CRASH_RECOVERY_MAX_AGE_MINUTES,
+  OPERATION_STATE_KEY_PREFIX,
+  OperationState,
+  ProgressEvent,
+  Task,
+} from '../types/core';
 import { storage } from '../utils/storage';
 import { logger } from '../utils/logger';
-import { BatchExecutor } from './executor';
+import { generateUUID } from '../utils/helpers';
+import { BatchExecutor, type BatchExecutorOptions } from './executor';
+import { RuleFactory } from '../rules/rule-factory';
+import type { CircuitTrip } from '../types/error';
+
+/**
+ * 旧版本使用的单一存储键（读取时迁移为按操作分开的键）
+ */
+const LEGACY_STORAGE_KEY = 'rename_operation_state';
+
+/**
+ * 崩溃恢复配置
+ */
+export interface CrashRecoveryOptions {
+  /** 有效期（分钟），未指定时读取存储中的设置 */
+  maxAgeMinutes?: number;
+}
+
+/**
+ * 恢复或回滚因熔断而中止
+ * 此时没有界面可以重新检查后继续，执行引擎已被取消；保存的状态保留，排除问题后可再次选择继续
+ */
+export class RecoveryInterruptedError extends Error {
+  constructor(public readonly trip: CircuitTrip) {
+    super(trip.message);
+    this.name = 'RecoveryInterruptedError';
+  }
+}
+
+/**
+ * 保存操作状态时的参数（操作ID、目录和时间戳可省略）
+ */
+export type OperationStateInput = Omit<OperationState, 'operationId' | 'directoryKey' | 'timestamp'> &
+  Partial<Pick<OperationState, 'operationId' | 'directoryKey' | 'timestamp'>>;
+
+/**
+ * 中断操作的进度摘要
+ */
+export interface OperationSummary {
+  /** 文件总数 */
+  total: number;
+  /** 已完成数 */
+  completed: number;
+  /** 已失败数 */
+  failed: number;
+  /** 待完成数 */
+  remaining: number;
+  /** 停留在临时名的文件数 */
+  tempCount: number;
+}
 
 /**
  * 崩溃恢复管理器
  *
  * 核心功能:
- * - 操作状态持久化到chrome.storage.local
- * - 检测可恢复的操作(30分钟内)
- * - 恢复未完成的操作
- * - 幂等性检查避免重复重命名
+ * - 操作状态按「平台 + 目录 + 操作ID」分别持久化到chrome.storage.local，多个标签页、多个平台的操作互不覆盖
+ * - 列出有效期内（最后一次进度更新起算，可配置）的中断操作，由用户选择继续或放弃
+ * - 继续前按目录重新列出，核对平台上的实际文件名，而不是只依赖保存的完成索引
+ * - 正在执行的操作持有同名 Web Lock，其他标签页不会把它列为可恢复
+ * - 记录两阶段重命名的临时名，中断后可继续完成或回滚
  *
  * @example
  * ```typescript
  * const recovery = new CrashRecoveryManager();
  *
- * // 页面加载时检查恢复
- * const savedOp = await recovery.checkRecoverableOperation();
- * if (savedOp) {
- *   const shouldResume = recovery.showRecoveryDialog(savedOp);
- *   if (shouldResume) {
- *     await recovery.resumeOperation(savedOp, adapter);
- *   } else {
- *     await recovery.clearOperationState();
- *   }
- * }
+ * // 页面加载时列出可恢复的操作
+ * const operations = await recovery.listRecoverableOperations(adapter.platform);
+ * // 用户选择继续其中一个
+ * await recovery.resumeOperation(operations[0], adapter);
+ * // 或放弃
+ * await recovery.clearOperationState(recovery.getOperationKey(operations[0]));
  * ```
  */
 export class CrashRecoveryManager {
-  private readonly STORAGE_KEY = 'rename_operation_state';
-  private readonly MAX_AGE_MINUTES = 30;
+  private updateChain: Promise<void> = Promise.resolve();
+  /** 本页面正在执行的操作（不会出现在恢复列表中） */
+  private readonly activeKeys = new Set<string>();
+  /** 操作键 -> 释放 Web Lock */
+  private readonly lockReleases = new Map<string, () => void>();
+
+  constructor(private readonly options: CrashRecoveryOptions = {}) {}
 
   /**
-   * 保存操作状态
+   * 获取操作状态的存储键
    * @param state 操作状态
    */
-  async saveOperationState(
-    state: Omit<OperationState, 'timestamp'> & Partial<Pick<OperationState, 'timestamp'>>
-  ): Promise<void> {
-    try {
-      const data: OperationState = {
-        timestamp: state.timestamp ?? Date.now(),
-        platform: state.platform,
-        files: state.files,
-        rule: state.rule,
-        completed: state.completed,
-        failed: state.failed,
-        tasks: state.tasks,
-      };
+  getOperationKey(state: Pick<OperationState, 'platform' | 'directoryKey' | 'operationId'>): string {
+    return `${OPERATION_STATE_KEY_PREFIX}${state.platform}:${state.directoryKey}:${state.operationId}`;
+  }
 
-      await storage.set(this.STORAGE_KEY, data);
+  /**
+   * 保存操作状态，并把该操作标记为本页面正在执行
+   * @param state 操作状态
+   * @returns 操作键（后续更新进度、清除状态时使用）
+   */
+  async saveOperationState(state: OperationStateInput): Promise<string> {
+    const now = Date.now();
+    const data: OperationState = {
+      operationId: state.operationId ?? generateUUID(),
+      timestamp: state.timestamp ?? now,
+      updatedAt: now,
+      platform: state.platform,
+      directoryKey: state.directoryKey ?? '',
+      files: state.files,
+      rule: state.rule,
+      completed: state.completed,
+      failed: state.failed,
+      tasks: state.tasks,
+      tempNames: state.tempNames,
+    };
+    const operationKey = this.getOperationKey(data);
+    this.activate(operationKey);
+
+    try {
+      await storage.set(operationKey, data);
     } catch (error) {
       logger.error('Failed to save operation state:', error as Error);
     }
+
+    return operationKey;
   }
 
   /**
-   * 检查是否有可恢复的操作
-   * @returns 可恢复的操作状态,如果没有则返回null
+   * 列出可恢复的操作（最近更新的在前）
+   *
+   * 本页面或其他标签页正在执行的操作不会列出；超过有效期或已全部完成的状态会被清除。
+   *
+   * @param platform 只列出指定平台的操作（可选）
    */
-  async checkRecoverableOperation(): Promise<OperationState | null> {
+  async listRecoverableOperations(platform?: string): Promise<OperationState[]> {
     try {
-      const savedData = await storage.get<OperationState>(this.STORAGE_KEY);
-
-      if (!savedData) {
-        return null;
-      }
+      await this.migrateLegacyState();
+
+      const [keys, heldKeys, maxAgeMinutes] = await Promise.all([
+        storage.getAllKeys(),
+        getHeldLockNames(),
+        this.getMaxAgeMinutes(),
+      ]);
+      const operations: OperationState[] = [];
+
+      for (const key of keys) {
+        if (!key.startsWith(OPERATION_STATE_KEY_PREFIX) || this.activeKeys.has(key) || heldKeys.has(key)) {
+          continue;
+        }
 
-      const ageMinutes = (Date.now() - savedData.timestamp) / 60000;
+        const state = await storage.get<OperationState>(key);
+        if (!state) {
+          continue;
+        }
 
-      // 只恢复30分钟内的操作
-      if (ageMinutes > this.MAX_AGE_MINUTES) {
-        logger.info('Saved operation is too old, clearing');
-        await this.clearOperationState();
-        return null;
-      }
+        if (!this.isRecoverable(state, maxAgeMinutes)) {
+          await storage.remove(key);
+          continue;
+        }
 
-      // 检查是否有未完成的文件
-      const totalItems = (savedData.tasks && savedData.tasks.length > 0)
-        ? savedData.tasks.length
-        : savedData.files.length;
-      const totalCompleted = savedData.completed.length + savedData.failed.length;
-      if (totalCompleted >= totalItems) {
-        await this.clearOperationState();
-        return null;
+        if (!platform || state.platform === platform) {
+          operations.push(state);
+        }
       }
 
-      logger.info('Recoverable operation found', {
-        age: `${ageMinutes.toFixed(1)} minutes`,
-        files: totalItems,
-        completed: savedData.completed.length,
-        failed: savedData.failed.length,
-      });
-
-      return savedData;
+      return operations.sort((a, b) => getLastActiveAt(b) - getLastActiveAt(a));
     } catch (error) {
-      logger.error('Failed to check recoverable operation:', error as Error);
-      return null;
+      logger.error('Failed to list recoverable operations:', error as Error);
+      return [];
     }
   }
 
+  /**
+   * 检查是否有可恢复的操作
+   * @param platform 只检查指定平台的操作（可选）
+   * @returns 最近更新的可恢复操作，如果没有则返回null
+   */
+  async checkRecoverableOperation(platform?: string): Promise<OperationState | null> {
+    const operations = await this.listRecoverableOperations(platform);
+    return operations[0] ?? null;
+  }
+
   /**
    * 恢复操作
+   *
+   * 先按目录重新列出（每个目录一次 getAllFiles），核对每个文件在平台上的实际名称：已是目标名的视为完成，
+   * 其余（包括记为已完成但名称并未改变的）从实际名称继续重命名；读取失败时才按保存的进度判断。
+   *
    * @param savedState 保存的操作状态
    * @param adapter 平台适配器
    * @param onProgress 进度回调
    * @param onComplete 完成回调
+   * @returns 执行结果（没有需要继续的文件时为 null）
+   * @throws {RecoveryInterruptedError} 熔断（如登录失效）时，保存的状态保留
    */
   async resumeOperation(
     savedState: OperationState,
     adapter: PlatformAdapter,
-    onProgress?: (progress: any) => void,
-    onComplete?: (results: any) => void
-  ): Promise<void> {
-    // 过滤出未完成的文件
-    const completedSet = new Set([...savedState.completed, ...savedState.failed]);
-    const hasTasks = Array.isArray(savedState.tasks) && savedState.tasks.length > 0;
-    const indexByFileId = new Map<string, number>();
-
-    let pendingFiles: any[] = [];
-    let pendingTasks: Task[] | undefined;
-
-    if (hasTasks) {
-      savedState.tasks!.forEach((task) => {
-        indexByFileId.set(task.file.id, task.index);
-      });
-      pendingTasks = savedState.tasks!.filter((task) => !completedSet.has(task.index));
-      pendingFiles = pendingTasks.map((task) => task.file);
-    } else {
-      savedState.files.forEach((file: any, index: number) => {
-        indexByFileId.set(file.id, index);
-      });
-      pendingFiles = savedState.files.filter((_file: any, index: number) => !completedSet.has(index));
-    }
-
-    if (pendingFiles.length === 0) {
-      await this.clearOperationState();
-      return;
-    }
-
-    logger.info('Resuming operation', {
-      pending: pendingFiles.length,
-      completed: savedState.completed.length,
-      failed: savedState.failed.length,
-    });
+    onProgress?: (progress: ProgressEvent) => void,
+    onComplete?: (results: BatchResults) => void
+  ): Promise<BatchResults | null> {
+    const operationKey = this.getOperationKey(savedState);
+    this.activate(operationKey);
 
-    // 创建新的executor继续执行
-    const { requestInterval, maxConcurrent } = adapter.getConfig();
-    const executor = new BatchExecutor(pendingFiles, savedState.rule, adapter, {
-      requestInterval: requestInterval ?? 800,
-      maxConcurrent,
-      tasks: pendingTasks,
-      onProgress: (progress) => {
-        // 转发进度事件
-        onProgress?.(progress);
-
-        if (!progress.fileId) {
-          return;
-        }
-
-        const currentIndex = indexByFileId.get(progress.fileId);
-        if (currentIndex === undefined) {
-          return;
-        }
+    try {
+      const tasks = this.getOperationTasks(savedState);
+      // 失败的文件不再重试（失败后停留在临时名的文件除外）
+      const tempFileIds = new Set(Object.keys(savedState.tempNames ?? {}));
+      const skippedFailed = new Set(
+        savedState.failed.filter((index) => !tasks.some((task) => task.index === index && tempFileIds.has(task.file.id)))
+      );
+      const pendingTasks = await this.findPendingTasks(
+        operationKey,
+        tasks.filter((task) => !skippedFailed.has(task.index)),
+        new Set(savedState.completed),
+        adapter
+      );
+
+      if (pendingTasks.length === 0) {
+        await this.clearOperationState(operationKey);
+        return null;
+      }
 
-        const isFailed = progress.status === 'failed';
-        if (isFailed) {
-          this.markAsFailed(currentIndex);
-        } else {
-          this.markAsCompleted(currentIndex);
-        }
-      },
-      onComplete: async (results) => {
-        // 完成后清理状态
-        await this.clearOperationState();
-        onComplete?.(results);
-      },
-    });
+      logger.info('Resuming operation', {
+        operationId: savedState.operationId,
+        pending: pendingTasks.length,
+        completed: savedState.completed.length,
+        failed: savedState.failed.length,
+      });
 
-    await executor.execute();
+      const indexByFileId = new Map(tasks.map((task): [string, number] => [task.file.id, task.index]));
+
+      // 创建新的executor继续执行
+      const results = await this.runTasks(savedState, adapter, pendingTasks, {
+        onTempNameChange: (fileId, tempName) => {
+          void this.setTempName(operationKey, fileId, tempName);
+        },
+        onProgress: (progress) => {
+          // 转发进度事件
+          onProgress?.(progress);
+
+          if (!progress.fileId) {
+            return;
+          }
+
+          const currentIndex = indexByFileId.get(progress.fileId);
+          if (currentIndex === undefined) {
+            return;
+          }
+
+          if (progress.status === 'failed') {
+            void this.markAsFailed(operationKey, currentIndex);
+          } else {
+            void this.markAsCompleted(operationKey, currentIndex);
+          }
+        },
+      });
+      // 完成后清理状态
+      await this.clearOperationState(operationKey);
+      onComplete?.(results);
+      return results;
+    } catch (error) {
+      // 状态保留在存储中，可稍后再次选择继续
+      this.deactivate(operationKey);
+      throw error;
+    }
   }
 
   /**
@@ -236,40 +326,18 @@ export class CrashRecoveryManager {
   }
 
   /**
-   * 显示恢复对话框
-   * @param savedState 保存的操作状态
-   * @returns 用户是否选择恢复
-   */
-  showRecoveryDialog(savedState: OperationState): boolean {
-    const totalItems = (savedState.tasks && savedState.tasks.length > 0)
-      ? savedState.tasks.length
-      : savedState.files.length;
-    const totalCompleted = savedState.completed.length + savedState.failed.length;
-    const remaining = totalItems - totalCompleted;
-    const ageMinutes = Math.floor((Date.now() - savedState.timestamp) / 60000);
-
-    const message =
-      `检测到未完成的批量重命名操作:\n\n` +
-      `平台: ${savedState.platform}\n` +
-      `总文件数: ${totalItems}\n` +
-      `已完成: ${savedState.completed.length}\n` +
-      `已失败: ${savedState.failed.length}\n` +
-      `待完成: ${remaining}\n` +
-      `操作时间: ${ageMinutes}分钟前\n\n` +
-      `是否继续执行?`;
-
-    return confirm(message);
-  }
-
-  /**
-   * 清除操作状态
+   * 清除操作状态（排在尚未写入的进度更新之后，避免状态被重新写回）
+   * @param operationKey 操作键
    */
-  async clearOperationState(): Promise<void> {
-    try {
-      await storage.remove(this.STORAGE_KEY);
-    } catch (error) {
-      logger.error('Failed to clear operation state:', error as Error);
-    }
+  async clearOperationState(operationKey: string): Promise<void> {
+    this.deactivate(operationKey);
+    await this.enqueue(async () => {
+      try {
+        await storage.remove(operationKey);
+      } catch (error) {
+        logger.error('Failed to clear operation state:', error as Error);
+      }
+    });
   }
 
   /**
@@ -283,58 +351,409 @@ export class CrashRecoveryManager {
 
   /**
    * 更新完成状态
+   * @param operationKey 操作键
    * @param index 文件索引
    */
-  async markAsCompleted(index: number): Promise<void> {
-    try {
-      const state = await storage.get<OperationState>(this.STORAGE_KEY);
-      if (state) {
-        state.completed.push(index);
-        await storage.set(this.STORAGE_KEY, state);
-      }
-    } catch (error) {
-      logger.error('Failed to mark as completed:', error as Error);
-    }
+  async markAsCompleted(operationKey: string, index: number): Promise<void> {
+    await this.updateState(operationKey, 'Failed to mark as completed:', (state) => {
+      state.completed.push(index);
+    });
   }
 
   /**
    * 更新失败状态
+   * @param operationKey 操作键
+   * @param index 文件索引
+   */
+  async markAsFailed(operationKey: string, index: number): Promise<void> {
+    await this.updateState(operationKey, 'Failed to mark as failed:', (state) => {
+      state.failed.push(index);
+    });
+  }
+
+  /**
+   * 记录文件进入（tempName）或离开（null）临时名
+   * @param operationKey 操作键
+   * @param fileId 文件ID
+   * @param tempName 临时名
+   */
+  async setTempName(operationKey: string, fileId: string, tempName: string | null): Promise<void> {
+    await this.updateState(operationKey, 'Failed to record temporary name:', (state) => {
+      const tempNames = { ...(state.tempNames ?? {}) };
+      if (tempName) {
+        tempNames[fileId] = tempName;
+      } else {
+        delete tempNames[fileId];
+      }
+      state.tempNames = tempNames;
+    });
+  }
+
+  /**
+   * 记录文件已回滚到原名（不再算作已完成，也不再停留在临时名）
+   * @param operationKey 操作键
    * @param index 文件索引
+   * @param fileId 文件ID
+   */
+  async markAsRolledBack(operationKey: string, index: number, fileId: string): Promise<void> {
+    await this.updateState(operationKey, 'Failed to mark as rolled back:', (state) => {
+      state.completed = state.completed.filter((item) => item !== index);
+      const tempNames = { ...(state.tempNames ?? {}) };
+      delete tempNames[fileId];
+      state.tempNames = tempNames;
+    });
+  }
+
+  /**
+   * 回滚中断的操作：已完成的文件和停留在临时名的文件全部改回原名
+   * 回滚任务同样经过两阶段规划，互换中断后也能正确还原
+   * 回滚进度同样写回保存的状态，全部改回后才清除；有文件失败或中断时状态保留，可再次回滚
+   * @param savedState 保存的操作状态
+   * @param adapter 平台适配器
+   * @param onProgress 进度回调
+   * @returns 回滚结果（没有需要回滚的文件时为 null）
+   * @throws {RecoveryInterruptedError} 熔断（如登录失效）时
    */
-  async markAsFailed(index: number): Promise<void> {
+  async rollbackOperation(
+    savedState: OperationState,
+    adapter: PlatformAdapter,
+    onProgress?: (progress: ProgressEvent) => void
+  ): Promise<BatchResults | null> {
+    const operationKey = this.getOperationKey(savedState);
+    const tempNames = savedState.tempNames ?? {};
+    const completedSet = new Set(savedState.completed);
+    const tasks: Task[] = (savedState.tasks ?? []).flatMap((task) => {
+      const currentName = tempNames[task.file.id] ?? (completedSet.has(task.index) ? task.newName : null);
+      if (!currentName || currentName === task.file.name) {
+        return [];
+      }
+      return [{ file: { ...task.file, name: currentName }, newName: task.file.name, index: task.index }];
+    });
+
+    if (tasks.length === 0) {
+      await this.clearOperationState(operationKey);
+      return null;
+    }
+
+    logger.info('Rolling back interrupted operation', { files: tasks.length });
+
+    this.activate(operationKey);
     try {
-      const state = await storage.get<OperationState>(this.STORAGE_KEY);
-      if (state) {
-        state.failed.push(index);
-        await storage.set(this.STORAGE_KEY, state);
+      const indexByFileId = new Map(tasks.map((task): [string, number] => [task.file.id, task.index]));
+      const results = await this.runTasks(savedState, adapter, tasks, {
+        onTempNameChange: (fileId, tempName) => {
+          void this.setTempName(operationKey, fileId, tempName);
+        },
+        onProgress: (progress) => {
+          onProgress?.(progress);
+
+          const currentIndex = progress.fileId ? indexByFileId.get(progress.fileId) : undefined;
+          if (progress.fileId && currentIndex !== undefined && progress.status === 'success') {
+            void this.markAsRolledBack(operationKey, currentIndex, progress.fileId);
+          }
+        },
+      });
+
+      if (results.failed.length === 0) {
+        await this.clearOperationState(operationKey);
+      } else {
+        this.deactivate(operationKey);
       }
+      return results;
     } catch (error) {
-      logger.error('Failed to mark as failed:', error as Error);
+      this.deactivate(operationKey);
+      throw error;
     }
   }
-}
 
-/**
- * 在页面加载时自动检测崩溃恢复
- * @param adapter 平台适配器
- */
-export async function initCrashRecovery(adapter: PlatformAdapter): Promise<void> {
-  const recovery = new CrashRecoveryManager();
-  const savedOp = await recovery.checkRecoverableOperation();
+  /**
+   * 执行恢复或回滚任务
+   * 熔断后执行引擎会暂停等待重新检查，而恢复流程没有继续或取消它的入口，
+   * 因此熔断时直接取消执行，并以 RecoveryInterruptedError 拒绝
+   * @private
+   */
+  private async runTasks(
+    savedState: OperationState,
+    adapter: PlatformAdapter,
+    tasks: Task[],
+    callbacks: Pick<BatchExecutorOptions, 'onProgress' | 'onTempNameChange'> = {}
+  ): Promise<BatchResults> {
+    const { requestInterval, maxConcurrent } = adapter.getConfig();
+    const executor: BatchExecutor = new BatchExecutor(
+      tasks.map((task) => task.file),
+      savedState.rule,
+      adapter,
+      {
+        requestInterval: requestInterval ?? 800,
+        maxConcurrent,
+        tasks,
+        ...callbacks,
+        onCircuitOpen: () => executor.cancel(),
+      }
+    );
+
+    const results = await executor.execute();
+    const trip = executor.getCircuitTrip();
+    if (trip) {
+      throw new RecoveryInterruptedError(trip);
+    }
+    return results;
+  }
+
+  /**
+   * 判断保存的状态是否仍可恢复：未过期，且还有未完成的文件或临时名
+   * @private
+   */
+  private isRecoverable(state: OperationState, maxAgeMinutes: number): boolean {
+    const ageMinutes = (Date.now() - getLastActiveAt(state)) / 60000;
+    if (ageMinutes > maxAgeMinutes) {
+      logger.info('Saved operation is too old, clearing', { operationId: state.operationId });
+      return false;
+    }
+
+    const summary = summarizeOperationState(state);
+    return summary.remaining > 0 || summary.tempCount > 0;
+  }
+
+  /**
+   * 读取有效期：构造参数优先，其次是存储中的设置
+   * @private
+   */
+  private async getMaxAgeMinutes(): Promise<number> {
+    if (this.options.maxAgeMinutes !== undefined) {
+      return this.options.maxAgeMinutes;
+    }
+
+    const stored = await storage.get<number>(CRASH_RECOVERY_MAX_AGE_STORAGE_KEY);
+    return typeof stored === 'number' && stored > 0 ? stored : DEFAULT_CRASH_RECOVERY_MAX_AGE_MINUTES;
+  }
+
+  /**
+   * 把旧版本单一键下的状态迁移到按操作分开的键
+   * @private
+   */
+  private async migrateLegacyState(): Promise<void> {
+    const legacy = await storage.get<OperationStateInput>(LEGACY_STORAGE_KEY);
+    if (!legacy) {
+      return;
+    }
+
+    const migrated: OperationState = {
+      ...legacy,
+      operationId: legacy.operationId ?? generateUUID(),
+      directoryKey: legacy.directoryKey ?? '',
+      timestamp: legacy.timestamp ?? Date.now(),
+    };
+    await storage.set(this.getOperationKey(migrated), migrated);
+    await storage.remove(LEGACY_STORAGE_KEY);
+  }
+
+  /**
+   * 获取操作的全部任务：优先使用保存的任务，否则按原始索引重放完整规则（含规则链），
+   * 避免编号类步骤因索引偏移而生成不同的文件名
+   * @private
+   */
+  private getOperationTasks(savedState: OperationState): Task[] {
+    if (Array.isArray(savedState.tasks) && savedState.tasks.length > 0) {
+      return savedState.tasks;
+    }
+
+    const ruleExecutor = RuleFactory.create(savedState.rule);
+    ruleExecutor.prepare?.(savedState.files);
+    const total = savedState.files.length;
+    return savedState.files.map((file: FileItem, index: number) => ({
+      file,
+      newName: ruleExecutor.execute(file.name, index, total, file),
+      index,
+    }));
+  }
+
+  /**
+   * 按平台上的实际文件名找出仍需执行的任务
+   * - 已是目标名：视为完成
+   * - 其他名称（原名、临时名或中途被改过）：从实际名称继续重命名
+   * - 读取失败：按保存的完成索引判断
+   * @private
+   */
+  private async findPendingTasks(
+    operationKey: string,
+    tasks: Task[],
+    completedSet: Set<number>,
+    adapter: PlatformAdapter
+  ): Promise<Task[]> {
+    const actualNames = await this.readActualNames(tasks, adapter);
+    const pendingTasks: Task[] = [];
+
+    for (const task of tasks) {
+      const actualName = actualNames.get(task.file.id);
+
+      if (actualName === undefined) {
+        if (!completedSet.has(task.index)) {
+          pendingTasks.push(task);
+        }
+        continue;
+      }
+
+      if (actualName === task.newName) {
+        if (!completedSet.has(task.index)) {
+          void this.markAsCompleted(operationKey, task.index);
+        }
+        continue;
+      }
+
+      pendingTasks.push(actualName === task.file.name ? task : { ...task, file: { ...task.file, name: actualName } });
+    }
 
-  if (savedOp) {
-    const shouldResume = recovery.showRecoveryDialog(savedOp);
+    return pendingTasks;
+  }
 
-    if (shouldResume) {
+  /**
+   * 读取任务文件在平台上的实际名称（文件ID -> 名称）
+   * 按目录用 getAllFiles 列出（每个目录一次请求），列表中找不到的文件再用 getFileInfo 单独查询；
+   * 目录读取失败时不再逐个查询，该目录下的文件没有结果
+   * @private
+   */
+  private async readActualNames(tasks: Task[], adapter: PlatformAdapter): Promise<Map<string, string>> {
+    const tasksByParent = new Map<string, Task[]>();
+    for (const task of tasks) {
+      const group = tasksByParent.get(task.file.parentId) ?? [];
+      group.push(task);
+      tasksByParent.set(task.file.parentId, group);
+    }
+
+    const actualNames = new Map<string, string>();
+    for (const [parentId, group] of tasksByParent) {
+      let listedNames: Map<string, string>;
       try {
-        await recovery.resumeOperation(savedOp, adapter);
+        const files = await adapter.getAllFiles(parentId);
+        listedNames = new Map(files.map((file) => [file.id, file.name]));
       } catch (error) {
-        logger.error('Failed to resume operation:', error as Error);
-        await recovery.clearOperationState();
+        logger.warn(`Failed to list ${parentId} before resuming:`, error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      for (const task of group) {
+        let actualName = listedNames.get(task.file.id);
+        if (actualName === undefined) {
+          try {
+            actualName = (await adapter.getFileInfo(task.file.id)).name;
+          } catch (error) {
+            logger.warn(`Failed to read ${task.file.id} before resuming:`, error instanceof Error ? error.message : String(error));
+          }
+        }
+        if (actualName !== undefined) {
+          actualNames.set(task.file.id, actualName);
+        }
       }
-    } else {
-      await recovery.clearOperationState();
     }
+
+    return actualNames;
+  }
+
+  /**
+   * 标记操作正在本页面执行，并在支持时持有同名 Web Lock（页面崩溃或关闭时自动释放）
+   * @private
+   */
+  private activate(operationKey: string): void {
+    this.activeKeys.add(operationKey);
+
+    const locks = getLockManager();
+    if (!locks || this.lockReleases.has(operationKey)) {
+      return;
+    }
+
+    const released = new Promise<void>((resolve) => this.lockReleases.set(operationKey, resolve));
+    locks.request(operationKey, () => released).catch((error: unknown) => {
+      logger.warn('Failed to hold operation lock:', error instanceof Error ? error.message : String(error));
+    });
+  }
+
+  /**
+   * 取消本页面执行标记并释放 Web Lock
+   * @private
+   */
+  private deactivate(operationKey: string): void {
+    this.activeKeys.delete(operationKey);
+    this.lockReleases.get(operationKey)?.();
+    this.lockReleases.delete(operationKey);
+  }
+
+  /**
+   * 串行读改写操作状态，避免并发进度回调互相覆盖；每次更新都会刷新有效期
+   * @private
+   */
+  private updateState(operationKey: string, errorMessage: string, mutate: (state: OperationState) => void): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        const state = await storage.get<OperationState>(operationKey);
+        if (state) {
+          mutate(state);
+          state.updatedAt = Date.now();
+          await storage.set(operationKey, state);
+        }
+      } catch (error) {
+        logger.error(errorMessage, error as Error);
+      }
+    });
+  }
+
+  /**
+   * 把存储写操作排入串行队列
+   * @private
+   */
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const writePromise = this.updateChain.then(write, write);
+    this.updateChain = writePromise;
+    return writePromise;
+  }
+}
+
+/**
+ * 统计中断操作的进度
+ * @param state 操作状态
+ */
+export function summarizeOperationState(state: OperationState): OperationSummary {
+  const total = state.tasks && state.tasks.length > 0 ? state.tasks.length : state.files.length;
+  const completed = new Set(state.completed).size;
+  const failed = new Set(state.failed).size;
+
+  return {
+    total,
+    completed,
+    failed,
+    remaining: Math.max(0, total - completed - failed),
+    tempCount: Object.keys(state.tempNames ?? {}).length,
+  };
+}
+
+/**
+ * 最后一次进度更新的时间
+ */
+function getLastActiveAt(state: OperationState): number {
+  return state.updatedAt ?? state.timestamp;
+}
+
+/**
+ * 获取 Web Locks（不支持时返回 null）
+ */
+function getLockManager(): LockManager | null {
+  return typeof navigator !== 'undefined' && navigator.locks ? navigator.locks : null;
+}
+
+/**
+ * 获取当前被持有的锁名称（其他标签页正在执行的操作）
+ */
+async function getHeldLockNames(): Promise<Set<string>> {
+  const locks = getLockManager();
+  if (!locks) {
+    return new Set();
+  }
+
+  try {
+    const snapshot = await locks.query();
+    return new Set((snapshot.held ?? []).flatMap((lock) => (lock.name ? [lock.name] : [])));
+  } catch {
+    return new Set();
   }
 }
 
@@ -33,6 +33,11 @@ const PLATFORM_LABELS: Record<PlatformName, string> = {
   quark: '夸克网盘',
   aliyun: '阿里云盘',
   baidu: '百度网盘',
+  '115': '115网盘',
+  '123pan': '123云盘',
+  tianyi: '天翼云盘',
+  webdav: 'WebDAV',
+  mock: '模拟网盘',
 };
 
 function buildSummary(input: BuildLastFailureDiagnosticSnapshotInput): DiagnosticSummary {
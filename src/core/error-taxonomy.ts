@@ -0,0 +1,150 @@
+import type { ErrorCategory, ErrorClassification } from '../types/error';
+import type { PlatformAdapter } from '../types/platform';
+
+/**
+ * 解析 HTTP Retry-After 头（秒数或 HTTP 日期）
+ * @param value 头部值
+ * @param now 当前时间戳（毫秒）
+ * @returns 需要等待的毫秒数；无法解析时返回 undefined
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * 包装错误并把原始错误挂在 cause 上，分类时仍能读到平台错误码、status 和 retryAfterMs
+ * @param message 包装后的错误消息
+ * @param cause 原始错误
+ */
+export function wrapError(message: string, cause: unknown): Error {
+  const error = new Error(message);
+  (error as Error & { cause?: unknown }).cause = cause;
+  return error;
+}
+
+/**
+ * 沿 cause 链展开错误（自身在前，最内层的原始错误在最后）
+ */
+function getCauseChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  let current = error;
+  while (current && typeof current === 'object' && !chain.includes(current)) {
+    chain.push(current);
+    current = (current as { cause?: unknown }).cause;
+  }
+  return chain.length > 0 ? chain : [error];
+}
+
+/**
+ * 读取错误上携带的 Retry-After 等待时间（适配器在构造错误时填充 retryAfterMs，包装错误时读取 cause）
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  for (const item of getCauseChain(error)) {
+    if (!item || typeof item !== 'object') {
+      continue;
+    }
+
+    const { retryAfterMs } = item as { retryAfterMs?: unknown };
+    if (typeof retryAfterMs === 'number' && Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+      return retryAfterMs;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 判断错误是否带有 HTTP 401/403 状态（登录失效或会话被拒绝）
+ * 读取适配器错误上的 status 或数值 code，包装错误时读取 cause
+ */
+export function isAuthStatusError(error: unknown): boolean {
+  return getCauseChain(error).some((item) => {
+    if (!item || typeof item !== 'object') {
+      return false;
+    }
+
+    const { status, code } = item as { status?: unknown; code?: unknown };
+    return [status, code].some((value) => value === 401 || value === 403);
+  });
+}
+
+/**
+ * 构造分类结果（带上错误中的 Retry-After 提示）
+ * @param category 错误类别
+ * @param error 原始错误
+ */
+export function classifyAs(category: ErrorCategory, error: unknown): ErrorClassification {
+  const retryAfterMs = getRetryAfterMs(error);
+  return retryAfterMs === undefined ? { category } : { category, retryAfterMs };
+}
+
+/**
+ * 通用错误分类（平台适配器未识别的错误码按错误类型和消息判断）
+ *
+ * - 登录失效：HTTP 401/403
+ * - 限流：HTTP 429、TooManyRequests 或消息中包含"频繁"/"too many"/"rate limit"
+ * - 临时错误：超时、中止、fetch 网络错误、页面脚本报告的网络错误
+ * - 其余均视为 fatal，不重试
+ *
+ * @param error 错误对象
+ * @returns 分类结果
+ */
+export function classifyGenericError(error: unknown): ErrorClassification {
+  if (!(error instanceof Error)) {
+    return { category: 'fatal' };
+  }
+
+  if (isAuthStatusError(error)) {
+    return classifyAs('auth_expired', error);
+  }
+
+  const { code, status } = error as { code?: unknown; status?: unknown };
+  const message = error.message.toLowerCase();
+
+  if (
+    code === 429 ||
+    status === 429 ||
+    code === 'TooManyRequests' ||
+    message.includes('too many') ||
+    message.includes('toomanyrequests') ||
+    message.includes('rate limit') ||
+    message.includes('频繁')
+  ) {
+    return classifyAs('throttled', error);
+  }
+
+  if (
+    error.name === 'AbortError' ||
+    error.name === 'TimeoutError' ||
+    error.name === 'NetworkError' ||
+    message.includes('timeout') ||
+    message.includes('network') ||
+    message.includes('failed to fetch') ||
+    (error instanceof TypeError && message.includes('fetch'))
+  ) {
+    return classifyAs('transient', error);
+  }
+
+  return classifyAs('fatal', error);
+}
+
+/**
+ * 按适配器的错误码映射对错误分类（适配器未实现 classifyError 时使用通用分类）
+ * 包装错误按 cause 链中最内层的原始错误分类
+ * @param adapter 平台适配器
+ * @param error 错误对象
+ */
+export function classifyAdapterError(adapter: Pick<PlatformAdapter, 'classifyError'>, error: unknown): ErrorClassification {
+  const chain = getCauseChain(error);
+  const root = chain[chain.length - 1];
+  return adapter.classifyError?.(root) ?? classifyGenericError(root);
+}
@@ -1,8 +1,13 @@
-import { FileItem } from '../types/platform';
+import { FileItem, PlatformCapabilities } from '../types/platform';
 import { Task } from '../types/core';
+import { parseFileName } from '../utils/helpers';
+import { exceedsMaxNameLength } from '../utils/platform-capabilities';
 import {
   ConflictResolution,
   ConflictResult,
+  getScopedNameKey,
+  isCaseOnlyRename,
+  NameComparisonOptions,
   resolveBatchConflicts,
 } from './conflict-detector';
 
@@ -12,12 +17,30 @@ export interface ExecutionPlanInput {
   conflicts?: Map<string, ConflictResult>;
   resolution?: ConflictResolution | null;
   skipUnchanged?: boolean;
+  /** 手动指定新文件名的文件 ID（对应任务标记为 manual） */
+  manualIds?: Set<string>;
+  /** 平台文件名是否区分大小写（默认区分；不区分时自动编号按忽略大小写的名称计数） */
+  caseSensitive?: boolean;
+  /** 平台能力（提供时排除平台不支持的任务；未单独指定 caseSensitive 时也用于自动编号） */
+  capabilities?: Pick<PlatformCapabilities, 'caseSensitive' | 'folderRename' | 'maxNameLength'>;
+}
+
+/**
+ * 平台不支持的任务
+ * - folder_rename：平台不支持重命名文件夹
+ * - name_too_long：新文件名超出平台的长度限制
+ */
+export interface UnsupportedTask {
+  index: number;
+  reason: 'folder_rename' | 'name_too_long';
 }
 
 export interface ExecutionPlanResult {
   resolvedNames: string[];
   tasks: Task[];
   skippedIndexes: number[];
+  /** 因平台能力限制未生成任务的文件 */
+  unsupported: UnsupportedTask[];
 }
 
 export function buildExecutionPlan({
@@ -26,6 +49,9 @@ export function buildExecutionPlan({
   conflicts,
   resolution,
   skipUnchanged = true,
+  manualIds,
+  capabilities,
+  caseSensitive = capabilities?.caseSensitive,
 }: ExecutionPlanInput): ExecutionPlanResult {
   if (files.length !== newNames.length) {
     throw new Error('Files and newNames length mismatch');
@@ -38,7 +64,7 @@ export function buildExecutionPlan({
   if (resolution && conflictMap.size > 0) {
     switch (resolution) {
       case ConflictResolution.AUTO_NUMBER:
-        resolvedNames = resolveBatchConflicts(files, newNames, conflictMap);
+        resolvedNames = resolveBatchConflicts(files, newNames, conflictMap, { caseSensitive });
         break;
       case ConflictResolution.SKIP:
         resolvedNames = newNames.map((name, index) => {
@@ -55,20 +81,92 @@ export function buildExecutionPlan({
 
   const tasks: Task[] = [];
   const skippedIndexes: number[] = [];
+  const unsupported: UnsupportedTask[] = [];
 
   resolvedNames.forEach((resolvedName, index) => {
     const file = files[index];
+    // 仅大小写不同（movie.MKV → movie.mkv）也是有效改名，必须严格比较
     if (skipUnchanged && resolvedName === file.name) {
       skippedIndexes.push(index);
       return;
     }
 
+    if (capabilities?.folderRename === false && file.isFolder) {
+      unsupported.push({ index, reason: 'folder_rename' });
+      return;
+    }
+
+    if (capabilities && exceedsMaxNameLength(resolvedName, capabilities)) {
+      unsupported.push({ index, reason: 'name_too_long' });
+      return;
+    }
+
     tasks.push({
       file,
       newName: resolvedName,
       index,
+      ...(manualIds?.has(file.id) ? { manual: true } : {}),
     });
   });
 
-  return { resolvedNames, tasks, skippedIndexes };
+  return { resolvedNames, tasks, skippedIndexes, unsupported };
+}
+
+export interface RenamePhaseOptions extends NameComparisonOptions {
+  /** 临时名标识（默认使用当前时间，保证与目录内已有文件不重名） */
+  token?: string;
+}
+
+export interface RenamePhasePlan {
+  /** 第一阶段：先改为临时名的任务（newName 为临时名） */
+  tempTasks: Task[];
+}
+
+/**
+ * 规划两阶段重命名
+ * 批次内若某个任务的目标名正被另一个待改名文件占用（A→B、B→A 互换，或编号整体后移一位形成的链），
+ * 直接按顺序改名会被平台以“重名”拒绝。此时先把被占用名称的文件改为唯一临时名，
+ * 第二阶段再把所有文件改为最终名，环和链都无需关心执行顺序。
+ * 平台不区分大小写时按忽略大小写的名称判断占用；平台拒绝仅大小写不同的改名时，
+ * 这类任务同样先改为临时名。
+ * @param tasks 重命名任务
+ * @param options 临时名标识与平台文件名规则
+ * @returns 两阶段计划（无依赖时 tempTasks 为空）
+ */
+export function planRenamePhases(tasks: Task[], options: RenamePhaseOptions = {}): RenamePhasePlan {
+  const token = options.token ?? Date.now().toString(36);
+  const changedTasks = tasks.filter((task) => task.newName !== task.file.name);
+
+  // 目标名键（限定父目录）-> 以其为目标的文件 ID（不区分大小写时，仅改大小写的任务不算占用自身）
+  const targetOwners = new Map<string, Set<string>>();
+  changedTasks.forEach((task) => {
+    const key = getScopedNameKey(task.file.parentId, task.newName, options);
+    const owners = targetOwners.get(key) ?? new Set<string>();
+    owners.add(task.file.id);
+    targetOwners.set(key, owners);
+  });
+
+  const isOccupant = (task: Task) =>
+    Array.from(targetOwners.get(getScopedNameKey(task.file.parentId, task.file.name, options)) ?? []).some(
+      (id) => id !== task.file.id
+    );
+  const needsCaseDetour = (task: Task) =>
+    options.caseOnlyRename === false && isCaseOnlyRename(task.file.name, task.newName);
+
+  const tempTasks = changedTasks
+    .filter((task) => isOccupant(task) || needsCaseDetour(task))
+    .map((task) => ({
+      ...task,
+      newName: buildTempName(task, token),
+    }));
+
+  return { tempTasks };
+}
+
+/**
+ * 生成临时文件名（保留扩展名，部分平台会按扩展名校验文件类型）
+ */
+function buildTempName(task: Task, token: string): string {
+  const { ext } = parseFileName(task.file.name, task.file.isFolder);
+  return `cdr-tmp-${token}-${task.index}${ext}`;
 }
@@ -1,27 +1,48 @@
-import { FileItem, PlatformAdapter } from '../types/platform';
+import { DEFAULT_RENAME_BATCH_SIZE, FileItem, PlatformAdapter, RenameResult } from '../types/platform';
 import { RuleConfig } from '../types/rule';
 import { ProgressEvent, BatchResults, Task } from '../types/core';
-import { sleep } from '../utils/helpers';
 import { RuleFactory } from '../rules/rule-factory';
+import { planRenamePhases } from './execution-plan';
+import { getScopedNameKey } from './conflict-detector';
+import { getPlatformCapabilities } from '../utils/platform-capabilities';
+import { rateLimitClient, type RateLimitClient } from './rate-limit-client';
+import { toRateLimitConfig } from './rate-limiter';
+import { classifyAdapterError, isAuthStatusError } from './error-taxonomy';
+import { CircuitBreaker } from './circuit-breaker';
+import { findRenameMismatches } from './rename-verifier';
+import type { CircuitTrip, ErrorCategory } from '../types/error';
+import { sleep } from '../utils/helpers';
 
 /**
  * 批量执行引擎配置
  */
 export interface BatchExecutorOptions {
-  /** 请求间隔(毫秒) */
+  /** 请求间隔(毫秒)，平台未配置 rateLimit 时换算为令牌桶速率 */
   requestInterval: number;
+  /** 限流客户端（默认使用按平台共享的 rateLimitClient） */
+  rateLimiter?: RateLimitClient;
   /** 最大并发请求数（默认从平台配置读取，兜底为 3） */
   maxConcurrent?: number;
+  /** 被平台限流时的重试次数（默认 2；优先按平台的 Retry-After 等待，否则指数退避） */
+  maxRetries?: number;
+  /** 执行后是否重新读取文件名，把名称并未改变的成功结果改记为失败（默认关闭） */
+  verifyAfterRename?: boolean;
   /** 是否跳过无需变更的任务（默认不跳过，保持与平台行为一致） */
   skipUnchanged?: boolean;
   /** 自定义任务列表（可选，用于重试等场景，优先级高于 rule 生成的任务） */
   tasks?: Task[];
   /** 进度回调 */
   onProgress?: (progress: ProgressEvent) => void;
+  /** 文件改为临时名（tempName）或离开临时名（null）时的回调，用于崩溃恢复记录 */
+  onTempNameChange?: (fileId: string, tempName: string | null) => void;
   /** 完成回调 */
   onComplete?: (results: BatchResults) => void;
   /** 错误回调 */
   onError?: (error: Error) => void;
+  /** 熔断阈值：同一分类连续失败多少次后自动暂停（默认 10；登录失效和 401/403 立即熔断） */
+  circuitBreakerThreshold?: number;
+  /** 熔断回调（执行已自动暂停；排除问题后调用 recheckAndResume 继续，熔断期间失败的任务会重新执行） */
+  onCircuitOpen?: (trip: CircuitTrip) => void;
 }
 
 /**
@@ -39,10 +60,15 @@ export enum ExecutorState {
  * 批量重命名执行引擎
  *
  * 核心功能:
- * - 800ms请求间隔控制
+ * - 请求限流（按平台共享的令牌桶，多个标签页共用同一速率）
  * - 最大并发控制（默认 3，可配置）
  * - 进度事件系统
  * - 支持暂停/恢复/取消功能
+ * - 批次内互换/链式改名时先改临时名，再改最终名（两阶段）
+ * - 平台提供批量重命名接口时按平台每批上限分批请求，结果仍逐个文件汇报
+ * - 按错误分类处理失败：限流时降速并退避重试（遵守 Retry-After），其余错误立即失败
+ * - 熔断：登录失效、401/403 或同一分类连续失败时自动暂停，熔断期间失败的任务恢复后重新执行
+ * - 可选的执行后校验：重新读取文件名，平台报告成功但名称未改变的文件改记为失败
  *
  * @example
  * ```typescript
@@ -70,14 +96,21 @@ export class BatchExecutor {
   private pausePromise: Promise<void> | null = null;
   private pauseResolver: (() => void) | null = null;
   private abortController: AbortController | null = null;
-  private rateLimitChain: Promise<void> = Promise.resolve();
-  private lastRequestStartAt = 0;
+  /** 当前处于临时名的文件：文件 ID -> 临时名 */
+  private tempNames = new Map<string, string>();
+  /** 第一阶段未能腾出的文件名：名称键 -> 占用该名称的文件 ID（依赖这些名称的任务直接失败） */
+  private blockedNames = new Map<string, string>();
+  private circuitBreaker = new CircuitBreaker();
+  /** 当前熔断原因（熔断暂停期间非空） */
+  private circuitTrip: CircuitTrip | null = null;
 
   private adaptiveIntervalFactor = 1;
   private adaptiveSuccessStreak = 0;
   private readonly adaptiveMaxFactor = 5;
   private readonly adaptiveRecoverThreshold = 5;
   private readonly adaptiveStep = 0.5;
+  private readonly retryBaseDelay = 500;
+  private readonly retryMaxDelay = 10000;
 
   private isCancelled(): boolean {
     return this.state === ExecutorState.CANCELLED;
@@ -114,10 +147,12 @@ export class BatchExecutor {
     this.abortController = new AbortController();
     this.results = { success: [], failed: [] };
     this.tasks = [];
-    this.rateLimitChain = Promise.resolve();
-    this.lastRequestStartAt = 0;
     this.adaptiveIntervalFactor = 1;
     this.adaptiveSuccessStreak = 0;
+    this.tempNames = new Map();
+    this.blockedNames = new Map();
+    this.circuitBreaker = new CircuitBreaker(this.options.circuitBreakerThreshold);
+    this.circuitTrip = null;
 
     try {
       // 准备所有重命名任务
@@ -133,38 +168,30 @@ export class BatchExecutor {
         return this.results;
       }
 
-      // 并发执行（限制最大并发 + 全局请求间隔）
-      const maxConcurrent = this.getMaxConcurrent(tasks.length);
-      let cursor = 0;
-
-      const runWorker = async () => {
-        for (;;) {
-          const task = tasks[cursor++];
-          if (!task) return;
-
-          // 取消/暂停检查
-          if (this.isCancelled()) return;
-          if (this.state === ExecutorState.PAUSED && this.pausePromise) {
-            await this.pausePromise;
-          }
-          if (this.isCancelled()) return;
-
-          // 全局节流：确保相邻请求的 start 间隔 >= requestInterval
-          await this.waitForRequestSlot();
-
-          // 再次检查（避免在等待 slot 期间被暂停/取消）
-          if (this.isCancelled()) return;
-          if (this.state === ExecutorState.PAUSED && this.pausePromise) {
-            await this.pausePromise;
-          }
-          if (this.isCancelled()) return;
-
-          await this.processTask(task);
-        }
-      };
+      // 第一阶段：把被批次内其他任务作为目标名的文件改为临时名
+      // （平台拒绝仅大小写不同的改名时，这类任务也经由临时名完成）
+      const { caseSensitive, caseOnlyRename } = this.adapter.getConfig();
+      const { tempTasks } = planRenamePhases(tasks, { caseSensitive, caseOnlyRename });
+      const batchSize = this.getRenameBatchSize();
+      if (tempTasks.length > 0) {
+        await (batchSize > 0
+          ? this.runTasks(chunkTasks(tempTasks, batchSize), (batch) => this.processTempBatch(batch))
+          : this.runTasks(tempTasks, (task) => this.processTempTask(task)));
+      }
 
-      const workers = Array.from({ length: maxConcurrent }, () => runWorker());
-      await Promise.allSettled(workers);
+      // 第二阶段：改为最终名
+      await (batchSize > 0
+        ? this.runTasks(chunkTasks(tasks, batchSize), (batch) => this.processTaskBatch(batch))
+        : this.runTasks(tasks, (task) => this.processTask(task)));
+
+      // 取消或失败后仍停留在临时名的文件，尽量恢复原名
+      if (this.tempNames.size > 0) {
+        await this.restoreTempNames();
+      }
+
+      if (this.options.verifyAfterRename && !this.isCancelled() && this.results.success.length > 0) {
+        await this.verifySuccessfulRenames();
+      }
 
       // 保持 CANCELLED 状态，避免被覆盖为 COMPLETED
       if (!this.isCancelled()) {
@@ -203,6 +230,8 @@ export class BatchExecutor {
     }
 
     this.state = ExecutorState.RUNNING;
+    this.circuitTrip = null;
+    this.circuitBreaker.reset();
     if (this.pauseResolver) {
       this.pauseResolver();
       this.pauseResolver = null;
@@ -210,6 +239,53 @@ export class BatchExecutor {
     }
   }
 
+  /**
+   * 熔断：暂停执行并通知熔断原因（仅在运行中生效）
+   * 也可由外部调用，例如检测到 Cookie 过期时
+   * @param trip 熔断原因
+   */
+  openCircuit(trip: CircuitTrip): void {
+    if (this.state !== ExecutorState.RUNNING) {
+      return;
+    }
+
+    this.circuitTrip = trip;
+    this.pause();
+    this.options.onCircuitOpen?.(trip);
+  }
+
+  /**
+   * 获取当前熔断原因（未熔断时返回 null）
+   */
+  getCircuitTrip(): CircuitTrip | null {
+    return this.circuitTrip;
+  }
+
+  /**
+   * 重新检查后恢复执行
+   * 重新列出触发熔断的文件所在目录（实际请求平台，不读适配器缓存），
+   * 仍然失败（同一分类或登录失效）时保持暂停
+   * @returns 是否已恢复执行
+   */
+  async recheckAndResume(): Promise<boolean> {
+    const trip = this.circuitTrip;
+    const probeFile = this.tasks.find((task) => task.file.id === trip?.fileId)?.file ?? this.tasks[0]?.file;
+    if (trip && probeFile) {
+      try {
+        await this.adapter.getAllFiles(probeFile.parentId);
+      } catch (error) {
+        const { category } = classifyAdapterError(this.adapter, error);
+        if (category === trip.category || category === 'auth_expired' || isAuthStatusError(error)) {
+          this.circuitTrip = { ...trip, message: error instanceof Error ? error.message : String(error) };
+          return false;
+        }
+      }
+    }
+
+    this.resume();
+    return this.state === ExecutorState.RUNNING;
+  }
+
   /**
    * 取消执行
    */
@@ -247,10 +323,11 @@ export class BatchExecutor {
    */
   private prepareTasks(): Task[] {
     const ruleExecutor = RuleFactory.create(this.rule);
+    ruleExecutor.prepare?.(this.files);
 
     const tasks = this.files.map((file, index) => ({
       file,
-      newName: ruleExecutor.execute(file.name, index, this.files.length),
+      newName: ruleExecutor.execute(file.name, index, this.files.length, file),
       index,
     }));
 
@@ -261,45 +338,365 @@ export class BatchExecutor {
     return tasks;
   }
 
+  /**
+   * 并发执行任务（限制最大并发 + 全局请求间隔，支持暂停/取消）
+   * 每一项对应一次请求：单个任务，或批量重命名时的一批任务
+   * @private
+   */
+  private async runTasks<T>(items: T[], handler: (item: T) => Promise<void>): Promise<void> {
+    const maxConcurrent = this.getMaxConcurrent(items.length);
+    let cursor = 0;
+
+    const runWorker = async () => {
+      for (;;) {
+        const item = items[cursor++];
+        if (!item) return;
+
+        // 取消/暂停检查
+        if (this.isCancelled()) return;
+        if (this.state === ExecutorState.PAUSED && this.pausePromise) {
+          await this.pausePromise;
+        }
+        if (this.isCancelled()) return;
+
+        // 全局节流：从共享令牌桶为本任务租用令牌
+        await this.waitForRequestSlot();
+
+        // 再次检查（避免在等待 slot 期间被暂停/取消）
+        if (this.isCancelled()) return;
+        if (this.state === ExecutorState.PAUSED && this.pausePromise) {
+          await this.pausePromise;
+        }
+        if (this.isCancelled()) return;
+
+        await handler(item);
+      }
+    };
+
+    const workers = Array.from({ length: maxConcurrent }, () => runWorker());
+    await Promise.allSettled(workers);
+  }
+
+  /**
+   * 第一阶段：改为临时名（不计入进度）
+   * @private
+   */
+  private async processTempTask(task: Task): Promise<void> {
+    const result = await this.renameSingle(task);
+    if (result) {
+      this.applyTempResult(task, result);
+    }
+  }
+
+  /**
+   * 第一阶段（批量接口）：一批文件改为临时名
+   * @private
+   */
+  private async processTempBatch(tasks: Task[]): Promise<void> {
+    const results = await this.renameBatch(tasks);
+    results?.forEach((result, index) => this.applyTempResult(tasks[index], result));
+  }
+
+  private applyTempResult(task: Task, result: RenameResult): void {
+    if (result.success) {
+      this.setTempName(task.file.id, task.newName);
+      return;
+    }
+
+    this.blockedNames.set(this.getNameKey(task.file.parentId, task.file.name), task.file.id);
+  }
+
+  /**
+   * 把仍处于临时名的文件改回原名；原名已被占用时保留临时名并在失败原因中注明
+   * @private
+   */
+  private async restoreTempNames(): Promise<void> {
+    for (const [fileId, tempName] of Array.from(this.tempNames)) {
+      const task = this.tasks.find((item) => item.file.id === fileId);
+      if (!task) {
+        continue;
+      }
+
+      await this.waitForRequestSlot();
+      try {
+        const result = await this.adapter.renameFile(fileId, task.file.name);
+        if (result.success) {
+          this.setTempName(fileId, null);
+          continue;
+        }
+      } catch {
+        // 下方统一处理
+      }
+
+      const failed = this.results.failed.find((item) => item.fileId === fileId);
+      if (failed) {
+        failed.error = `${failed.error} (left as temporary name: ${tempName})`;
+      }
+    }
+  }
+
+  private getNameKey(parentId: string, name: string): string {
+    return getScopedNameKey(parentId, name, this.adapter.getConfig());
+  }
+
+  private setTempName(fileId: string, tempName: string | null): void {
+    if (tempName) {
+      this.tempNames.set(fileId, tempName);
+    } else {
+      this.tempNames.delete(fileId);
+    }
+    this.options.onTempNameChange?.(fileId, tempName);
+  }
+
   /**
    * 延迟执行重命名
    * @private
    */
   private async processTask(task: Task): Promise<void> {
-    try {
-      const result = await this.adapter.renameFile(task.file.id, task.newName);
-
-      if (result.success) {
-        this.noteSuccess();
-        this.results.success.push({
-          fileId: task.file.id,
-          original: task.file.name,
-          renamed: task.newName,
-          index: task.index,
-        });
-        this.emitProgress(task, 'success');
-      } else {
-        this.noteBackoff(result.error);
-        const errorMessage = result.error?.message || 'Unknown error';
-        this.results.failed.push({
-          fileId: task.file.id,
-          file: task.file,
-          error: errorMessage,
-          index: task.index,
-        });
-        this.emitProgress(task, 'failed', errorMessage);
+    if (this.failIfTargetBlocked(task)) {
+      return;
+    }
+
+    const result = await this.renameSingle(task);
+    if (result) {
+      this.applyTaskResult(task, result);
+    }
+  }
+
+  /**
+   * 第二阶段（批量接口）：一批文件改为最终名，逐个文件记录结果和进度
+   * @private
+   */
+  private async processTaskBatch(tasks: Task[]): Promise<void> {
+    const pending = tasks.filter((task) => !this.failIfTargetBlocked(task));
+    if (pending.length === 0) {
+      return;
+    }
+
+    const results = await this.renameBatch(pending);
+    results?.forEach((result, index) => this.applyTaskResult(pending[index], result));
+  }
+
+  /**
+   * 目标名仍被第一阶段未能腾出的文件占用时，直接记为失败
+   * @returns 是否已记为失败
+   * @private
+   */
+  private failIfTargetBlocked(task: Task): boolean {
+    const blockingFileId = this.blockedNames.get(this.getNameKey(task.file.parentId, task.newName));
+    if (blockingFileId === undefined || blockingFileId === task.file.id) {
+      return false;
+    }
+
+    this.recordFailure(task, 'Target name is still taken by another file in this batch', 'name_conflict');
+    return true;
+  }
+
+  private applyTaskResult(task: Task, result: RenameResult): void {
+    if (!result.success) {
+      const category = result.error ? classifyAdapterError(this.adapter, result.error).category : 'fatal';
+      this.recordFailure(task, result.error?.message || 'Unknown error', category);
+      return;
+    }
+
+    this.noteSuccess();
+    if (this.tempNames.has(task.file.id)) {
+      this.setTempName(task.file.id, null);
+    }
+    this.results.success.push({
+      fileId: task.file.id,
+      original: task.file.name,
+      renamed: task.newName,
+      index: task.index,
+    });
+    this.emitProgress(task, 'success');
+  }
+
+  private recordFailure(task: Task, errorMessage: string, category: ErrorCategory): void {
+    this.results.failed.push({
+      fileId: task.file.id,
+      file: task.file,
+      error: errorMessage,
+      category,
+      index: task.index,
+    });
+    this.emitProgress(task, 'failed', errorMessage, category);
+  }
+
+  /**
+   * 执行后校验：重新读取文件名，名称并未改变的成功结果改记为失败（可通过重试流程重新执行）
+   * @private
+   */
+  private async verifySuccessfulRenames(): Promise<void> {
+    const taskById = new Map(this.tasks.map((task) => [task.file.id, task]));
+    const targets = this.results.success.flatMap((entry) => {
+      const task = taskById.get(entry.fileId);
+      return task ? [{ fileId: entry.fileId, parentId: task.file.parentId, expectedName: entry.renamed }] : [];
+    });
+
+    const mismatches = await findRenameMismatches(this.adapter, targets);
+    for (const { fileId, actualName } of mismatches) {
+      const task = taskById.get(fileId);
+      const successIndex = this.results.success.findIndex((entry) => entry.fileId === fileId);
+      if (!task || successIndex < 0) {
+        continue;
       }
-    } catch (error) {
-      this.noteBackoff(error as Error);
-      const errorMessage = (error as Error).message;
+
+      this.results.success.splice(successIndex, 1);
+      const errorMessage =
+        actualName === null ? 'File not found after renaming' : `Name is still "${actualName}" after renaming`;
       this.results.failed.push({
-        fileId: task.file.id,
+        fileId,
         file: task.file,
         error: errorMessage,
+        verificationFailed: true,
         index: task.index,
       });
-      this.emitProgress(task, 'failed', errorMessage);
+      this.emitProgress(task, 'failed', errorMessage, undefined, true);
+    }
+  }
+
+  /**
+   * 单个文件重命名（异常转为失败结果）
+   * @returns 重命名结果；熔断后重新排队期间被取消时返回 null（不计入结果）
+   * @private
+   */
+  private async renameSingle(task: Task): Promise<RenameResult | null> {
+    return this.requestWithErrorPolicy(
+      async () => {
+        try {
+          return await this.adapter.renameFile(task.file.id, task.newName);
+        } catch (error) {
+          return { success: false, error: error as Error };
+        }
+      },
+      (result) => (result.success ? undefined : result.error),
+      task.file.id
+    );
+  }
+
+  /**
+   * 按错误分类处理请求失败
+   * - throttled：提高自适应降速倍数，按 Retry-After（缺省时指数退避）等待后重试
+   * - 其余类别：不重试，直接返回失败结果（transient 已由适配器内部重试过）
+   *
+   * 最终失败计入熔断器；熔断后（包括由其他并发请求触发）失败的请求不记为失败，
+   * 而是等待恢复后重新请求
+   *
+   * @param request 发出请求，失败时返回带错误的结果
+   * @param getError 从结果中读取错误（成功时返回 undefined）
+   * @param fileId 请求对应的文件ID（熔断后重新检查时使用）
+   * @returns 最后一次请求的结果；重新排队期间被取消时返回 null
+   * @private
+   */
+  private async requestWithErrorPolicy<T>(
+    request: () => Promise<T>,
+    getError: (result: T) => Error | undefined,
+    fileId: string
+  ): Promise<T | null> {
+    const maxRetries = Math.max(0, this.options.maxRetries ?? 2);
+    let retries = 0;
+
+    for (;;) {
+      const result = await request();
+      const error = getError(result);
+      if (!error) {
+        this.circuitBreaker.recordSuccess();
+        return result;
+      }
+      if (this.isCancelled()) {
+        return result;
+      }
+
+      const { category, retryAfterMs } = classifyAdapterError(this.adapter, error);
+      if (category === 'throttled') {
+        this.noteBackoff();
+      }
+
+      if (category === 'throttled' && retries < maxRetries) {
+        retries += 1;
+        await sleep(retryAfterMs ?? Math.min(this.retryBaseDelay * Math.pow(2, retries - 1), this.retryMaxDelay));
+        if (this.isCancelled()) {
+          return result;
+        }
+      } else {
+        const trip = this.circuitBreaker.recordFailure(category, error, fileId);
+        if (trip) {
+          this.openCircuit(trip);
+        }
+        if (!this.circuitTrip) {
+          return result;
+        }
+
+        // 熔断期间的失败重新排队：等待恢复后重新请求
+        if (this.pausePromise) {
+          await this.pausePromise;
+        }
+        if (this.isCancelled()) {
+          return null;
+        }
+        retries = 0;
+      }
+
+      await this.waitForRequestSlot();
+    }
+  }
+
+  /**
+   * 通过批量接口重命名一批文件
+   * 整批请求失败时每个文件都记为该错误；响应中缺少的文件记为失败
+   * @returns 与 tasks 一一对应的结果；熔断后重新排队期间被取消时返回 null
+   * @private
+   */
+  private async renameBatch(tasks: Task[]): Promise<RenameResult[] | null> {
+    const outcome = await this.requestWithErrorPolicy(
+      async (): Promise<{ response?: RenameResult[]; error?: Error }> => {
+        try {
+          const items = tasks.map((task) => ({ fileId: task.file.id, newName: task.newName }));
+          const response = (await this.adapter.renameFiles?.(items)) ?? [];
+          const resultById = new Map(response.map((item) => [item.fileId, item]));
+          return {
+            response: tasks.map(
+              (task) =>
+                resultById.get(task.file.id) ?? { success: false, error: new Error('Missing from batch rename response') }
+            ),
+          };
+        } catch (error) {
+          return { error: error as Error };
+        }
+      },
+      // 只有整批请求失败时按错误分类重试；单个文件的失败由平台逐个返回，一次请求只计一次退避
+      (result) => result.error,
+      tasks[0].file.id
+    );
+
+    if (!outcome) {
+      return null;
+    }
+    if (outcome.response) {
+      const throttled = outcome.response.some(
+        (result) => !result.success && result.error && classifyAdapterError(this.adapter, result.error).category === 'throttled'
+      );
+      if (throttled) {
+        this.noteBackoff();
+      }
+      return outcome.response;
     }
+
+    return tasks.map(() => ({ success: false, error: outcome.error }));
+  }
+
+  /**
+   * 批量重命名每批文件数；平台不提供批量接口时返回 0（逐个重命名）
+   * @private
+   */
+  private getRenameBatchSize(): number {
+    if (!this.adapter.renameFiles || !getPlatformCapabilities(this.adapter).batchRename) {
+      return 0;
+    }
+
+    const size = this.adapter.getConfig().renameBatchSize ?? DEFAULT_RENAME_BATCH_SIZE;
+    return Math.max(1, Math.trunc(size));
   }
 
   private getMaxConcurrent(taskCount: number): number {
@@ -309,38 +706,27 @@ export class BatchExecutor {
     return Math.min(n, Math.max(1, taskCount));
   }
 
+  /**
+   * 等待限流令牌
+   * 令牌留给任务发出的第一个适配器请求；自适应降速倍数同步到共享令牌桶，对同一平台的所有标签页生效
+   * @private
+   */
   private async waitForRequestSlot(): Promise<void> {
     const interval = this.options.requestInterval;
     if (!interval || interval <= 0) {
       return;
     }
 
-    const effectiveInterval = interval * Math.max(1, this.adaptiveIntervalFactor);
-
-    const doWait = async () => {
-      const now = Date.now();
-
-      if (this.lastRequestStartAt > 0) {
-        const delta = now - this.lastRequestStartAt;
-        const delay = effectiveInterval - delta;
-        if (delay > 0) {
-          await sleep(delay);
-        }
-      }
-
-      this.lastRequestStartAt = Date.now();
-    };
-
-    const chained = this.rateLimitChain.then(doWait, doWait);
-    this.rateLimitChain = chained;
-    await chained;
+    const limits = toRateLimitConfig({ requestInterval: interval, rateLimit: this.adapter.getConfig().rateLimit });
+    const rateLimiter = this.options.rateLimiter ?? rateLimitClient;
+    await rateLimiter.acquireForTask(this.adapter.platform, limits, this.adaptiveIntervalFactor);
   }
 
-  private noteBackoff(error?: Error): void {
-    if (!this.isBackoffError(error)) {
-      return;
-    }
-
+  /**
+   * 平台限流时提高自适应降速倍数
+   * @private
+   */
+  private noteBackoff(): void {
     this.adaptiveIntervalFactor = Math.min(
       this.adaptiveMaxFactor,
       this.adaptiveIntervalFactor + this.adaptiveStep
@@ -364,42 +750,6 @@ export class BatchExecutor {
     }
   }
 
-  private isBackoffError(error?: Error): boolean {
-    if (!error) return false;
-
-    const anyError = error as any;
-
-    const numericCode = typeof anyError.code === 'number' ? anyError.code : null;
-    if (numericCode === 429 || numericCode === 500) {
-      return true;
-    }
-
-    const errno = typeof anyError.errno === 'number' ? anyError.errno : null;
-    if (errno !== null && [4, 110, 111, 112].includes(errno)) {
-      return true;
-    }
-
-    const stringCode = typeof anyError.code === 'string' ? anyError.code : '';
-    if (['TooManyRequests', 'InternalError.Timeout', 'ServiceUnavailable'].includes(stringCode)) {
-      return true;
-    }
-
-    const message = String(anyError.message || '').toLowerCase();
-    if (
-      message.includes('too many') ||
-      message.includes('toomanyrequests') ||
-      message.includes('rate limit') ||
-      message.includes('rate') ||
-      message.includes('429') ||
-      message.includes('请求过于频繁') ||
-      message.includes('过于频繁')
-    ) {
-      return true;
-    }
-
-    return false;
-  }
-
   getAdaptiveIntervalFactor(): number {
     return this.adaptiveIntervalFactor;
   }
@@ -408,7 +758,13 @@ export class BatchExecutor {
    * 发射进度事件
    * @private
    */
-  private emitProgress(task: Task, status: 'success' | 'failed', errorMessage?: string): void {
+  private emitProgress(
+    task: Task,
+    status: 'success' | 'failed',
+    errorMessage?: string,
+    errorCategory?: ErrorCategory,
+    verificationFailed?: boolean
+  ): void {
     const progress: ProgressEvent = {
       completed: this.results.success.length + this.results.failed.length,
       total: this.tasks.length || this.files.length,
@@ -419,6 +775,8 @@ export class BatchExecutor {
       newName: task.newName,
       status,
       error: status === 'failed' ? errorMessage : undefined,
+      errorCategory: status === 'failed' ? errorCategory : undefined,
+      verificationFailed: status === 'failed' && verificationFailed ? true : undefined,
     };
 
     this.options.onProgress?.(progress);
@@ -461,3 +819,14 @@ export class BatchExecutor {
     };
   }
 }
+
+/**
+ * 按批量接口的每批上限拆分任务
+ */
+function chunkTasks(tasks: Task[], size: number): Task[][] {
+  const chunks: Task[][] = [];
+  for (let start = 0; start < tasks.length; start += size) {
+    chunks.push(tasks.slice(start, start + size));
+  }
+  return chunks;
+}
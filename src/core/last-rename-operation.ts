@@ -40,10 +40,24 @@ export function mergeLastRenameOperation(
   return {
     ...existing,
     updatedAt: Date.now(),
-    items: [...existing.items, ...successItems.map((item) => ({ ...item }))],
+    items: upsertUndoItems(existing.items, successItems),
   };
 }
 
+/**
+ * 合并撤销项：同一文件的新记录替换旧记录（保持原位置），其余追加到末尾
+ * （例如重试时补做了整理移动的文件）
+ * @param existing 已有撤销项
+ * @param items 新的撤销项
+ * @returns 合并后的撤销项
+ */
+export function upsertUndoItems(existing: UndoRenameItem[], items: UndoRenameItem[]): UndoRenameItem[] {
+  const nextById = new Map(items.map((item) => [item.fileId, item]));
+  const merged = existing.map((item) => ({ ...(nextById.get(item.fileId) ?? item) }));
+  const existingIds = new Set(existing.map((item) => item.fileId));
+  return [...merged, ...items.filter((item) => !existingIds.has(item.fileId)).map((item) => ({ ...item }))];
+}
+
 export function isLastRenameOperationInScope(
   operation: LastRenameOperation | null,
   platform: PlatformName,
@@ -0,0 +1,312 @@
+import { FileItem, PlatformAdapter, PlatformConfig } from '../types/platform';
+import { UndoMoveRecord } from '../types/undo';
+import { OrganizeRule } from '../rules/organize';
+import { getScopedNameKey } from './conflict-detector';
+
+/** 单次 moveFiles 调用最多移动的文件数 */
+const MOVE_BATCH_SIZE = 100;
+
+/**
+ * 整理计划中的单个文件
+ */
+export interface OrganizeEntry {
+  file: FileItem;
+  /** 文件在本批文件中的索引 */
+  index: number;
+  /** 移动时的文件名（先重命名时为新名称） */
+  name: string;
+  /** 目标目录（相对于当前目录的各级目录名） */
+  segments: string[];
+}
+
+/**
+ * 目标目录树节点（根节点为当前目录，name 和 path 为空字符串）
+ */
+export interface OrganizeTreeNode {
+  name: string;
+  /** 相对于当前目录的路径（以 / 分隔） */
+  path: string;
+  children: OrganizeTreeNode[];
+  /** 移入该目录的文件（按计划顺序） */
+  files: Array<{ fileId: string; name: string; conflict: boolean }>;
+}
+
+/**
+ * 整理执行结果
+ */
+export interface OrganizeResults {
+  /** 已移动的文件 */
+  moved: Array<UndoMoveRecord & { fileId: string; name: string }>;
+  /** 移动失败的文件 */
+  failed: Array<{ fileId: string; name: string; error: string }>;
+}
+
+/**
+ * 撤销整理时的移回结果
+ */
+export interface OrganizeRevertResults {
+  /** 已移回原目录的文件 ID */
+  reverted: Set<string>;
+  /** 移回失败的文件 */
+  failed: Array<{ fileId: string; error: string }>;
+}
+
+type MoveCapableAdapter = Pick<PlatformAdapter, 'createFolder' | 'moveFiles'>;
+
+type NameComparison = Pick<PlatformConfig, 'caseSensitive'>;
+
+/**
+ * 平台是否支持整理模式（创建文件夹和移动文件）
+ * @param adapter 平台适配器
+ */
+export function supportsOrganize(adapter: Partial<MoveCapableAdapter> | null | undefined): boolean {
+  return typeof adapter?.createFolder === 'function' && typeof adapter?.moveFiles === 'function';
+}
+
+/**
+ * 生成整理计划
+ * 目标目录与当前所在目录相同的文件不需要移动，不计入计划
+ * @param rule 整理规则
+ * @param files 参与整理的文件（顺序决定 {index}）
+ * @param resolveName 文件移动时的名称（通常为预览中的新名称）
+ * @param skipIds 不参与整理的文件（如剧集提取失败的文件）
+ * @returns 整理计划
+ */
+export function buildOrganizePlan(
+  rule: OrganizeRule,
+  files: FileItem[],
+  resolveName: (file: FileItem) => string,
+  skipIds: Set<string> = new Set()
+): OrganizeEntry[] {
+  const entries: OrganizeEntry[] = [];
+
+  files.forEach((file, index) => {
+    if (skipIds.has(file.id)) {
+      return;
+    }
+
+    const segments = rule.resolvePath(file, index, files.length);
+    if (segments.length === 0 || segments.join('/') === (file.relativePath ?? '')) {
+      return;
+    }
+
+    entries.push({ file, index, name: resolveName(file), segments });
+  });
+
+  return entries;
+}
+
+/**
+ * 找出整理后同一目录下重名的文件
+ * @param entries 整理计划
+ * @param comparison 平台的大小写规则
+ * @returns 重名的文件 ID
+ */
+export function findOrganizeConflicts(entries: OrganizeEntry[], comparison: NameComparison = {}): Set<string> {
+  const firstByKey = new Map<string, string>();
+  const conflicts = new Set<string>();
+
+  for (const entry of entries) {
+    const key = getScopedNameKey(entry.segments.join('/'), entry.name, comparison);
+    const first = firstByKey.get(key);
+    if (first === undefined) {
+      firstByKey.set(key, entry.file.id);
+    } else {
+      conflicts.add(first);
+      conflicts.add(entry.file.id);
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * 由整理计划生成目标目录树（用于执行前预览）
+ * @param entries 整理计划
+ * @param comparison 平台的大小写规则（用于标记重名）
+ * @returns 根节点（当前目录）
+ */
+export function buildOrganizeTree(entries: OrganizeEntry[], comparison: NameComparison = {}): OrganizeTreeNode {
+  const conflicts = findOrganizeConflicts(entries, comparison);
+  const root: OrganizeTreeNode = { name: '', path: '', children: [], files: [] };
+
+  for (const entry of entries) {
+    let node = root;
+    for (const segment of entry.segments) {
+      let child = node.children.find((item) => item.name === segment);
+      if (!child) {
+        child = {
+          name: segment,
+          path: node.path ? `${node.path}/${segment}` : segment,
+          children: [],
+          files: [],
+        };
+        node.children.push(child);
+      }
+      node = child;
+    }
+
+    node.files.push({ fileId: entry.file.id, name: entry.name, conflict: conflicts.has(entry.file.id) });
+  }
+
+  return root;
+}
+
+/**
+ * 执行整理计划：逐级创建（或复用）目标目录，再按目标目录批量移动文件
+ * @param adapter 平台适配器（需支持 createFolder 和 moveFiles）
+ * @param entries 整理计划
+ * @param rootId 当前目录 ID（路径的起点）
+ * @returns 执行结果
+ */
+export async function executeOrganizePlan(
+  adapter: MoveCapableAdapter,
+  entries: OrganizeEntry[],
+  rootId: string
+): Promise<OrganizeResults> {
+  const { createFolder, moveFiles } = requireMoveSupport(adapter);
+  const folderIds = new Map<string, string>();
+  const results: OrganizeResults = { moved: [], failed: [] };
+
+  const ensureFolder = async (segments: string[]): Promise<string> => {
+    let parentId = rootId;
+    let path = '';
+    for (const segment of segments) {
+      path = path ? `${path}/${segment}` : segment;
+      let folderId = folderIds.get(path);
+      if (folderId === undefined) {
+        folderId = await createFolder(segment, parentId);
+        folderIds.set(path, folderId);
+      }
+      parentId = folderId;
+    }
+    return parentId;
+  };
+
+  for (const [toPath, group] of groupBy(entries, (entry) => entry.segments.join('/'))) {
+    let targetId: string;
+    try {
+      targetId = await ensureFolder(group[0].segments);
+    } catch (error) {
+      const message = toErrorMessage(error);
+      results.failed.push(...group.map((entry) => ({ fileId: entry.file.id, name: entry.name, error: message })));
+      continue;
+    }
+
+    const pending = group.filter((entry) => entry.file.parentId !== targetId);
+    const failures = await moveInBatches(
+      moveFiles,
+      pending.map((entry) => entry.file.id),
+      targetId
+    );
+
+    for (const entry of pending) {
+      const error = failures.get(entry.file.id);
+      if (error !== undefined) {
+        results.failed.push({ fileId: entry.file.id, name: entry.name, error });
+        continue;
+      }
+
+      results.moved.push({
+        fileId: entry.file.id,
+        name: entry.name,
+        fromParentId: entry.file.parentId,
+        toParentId: targetId,
+        fromPath: entry.file.relativePath ?? '',
+        toPath,
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * 撤销整理：把文件移回各自的原目录
+ * @param adapter 平台适配器（需支持 moveFiles）
+ * @param moves 文件 ID 与移动记录
+ * @returns 移回结果
+ */
+export async function revertOrganizeMoves(
+  adapter: MoveCapableAdapter,
+  moves: Array<{ fileId: string; move: UndoMoveRecord }>
+): Promise<OrganizeRevertResults> {
+  const results: OrganizeRevertResults = { reverted: new Set(), failed: [] };
+  if (moves.length === 0) {
+    return results;
+  }
+
+  const { moveFiles } = requireMoveSupport(adapter);
+  for (const [fromParentId, group] of groupBy(moves, (item) => item.move.fromParentId)) {
+    const fileIds = group.map((item) => item.fileId);
+    const failures = await moveInBatches(moveFiles, fileIds, fromParentId);
+
+    for (const fileId of fileIds) {
+      const error = failures.get(fileId);
+      if (error === undefined) {
+        results.reverted.add(fileId);
+      } else {
+        results.failed.push({ fileId, error });
+      }
+    }
+  }
+
+  return results;
+}
+
+function requireMoveSupport(adapter: MoveCapableAdapter): Required<MoveCapableAdapter> {
+  if (!adapter.createFolder || !adapter.moveFiles) {
+    throw new Error('Organize mode is not supported on this platform');
+  }
+
+  return {
+    createFolder: adapter.createFolder.bind(adapter),
+    moveFiles: adapter.moveFiles.bind(adapter),
+  };
+}
+
+/**
+ * 分批移动文件
+ * @returns 失败的文件 ID -> 错误信息
+ */
+async function moveInBatches(
+  moveFiles: Required<MoveCapableAdapter>['moveFiles'],
+  fileIds: string[],
+  targetParentId: string
+): Promise<Map<string, string>> {
+  const failures = new Map<string, string>();
+
+  for (let start = 0; start < fileIds.length; start += MOVE_BATCH_SIZE) {
+    const batch = fileIds.slice(start, start + MOVE_BATCH_SIZE);
+    try {
+      const result = await moveFiles(batch, targetParentId);
+      if (!result.success) {
+        const message = result.error?.message ?? 'Move failed';
+        (result.failedIds ?? batch).forEach((fileId) => failures.set(fileId, message));
+      }
+    } catch (error) {
+      const message = toErrorMessage(error);
+      batch.forEach((fileId) => failures.set(fileId, message));
+    }
+  }
+
+  return failures;
+}
+
+function groupBy<T>(items: T[], getKey: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = getKey(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+  return groups;
+}
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
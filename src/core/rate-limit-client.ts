@@ -0,0 +1,94 @@
+import type { PlatformName } from '../types/platform';
+import type { RateLimitConfig } from '../types/rate-limit';
+import { RUNTIME_MESSAGE_TYPES, type AcquireRateLimitMessage } from '../types/runtime-message';
+import { RateLimiterRegistry } from './rate-limiter';
+import { sleep } from '../utils/helpers';
+
+/**
+ * 执行引擎为任务预占的令牌的有效期（毫秒）
+ * 任务的首个请求通常在等待结束后立即发出；过期未用的令牌作废，避免被之后无关的请求占用
+ */
+const TASK_TOKEN_TTL = 5000;
+
+/**
+ * 限流客户端
+ *
+ * 从 Service Worker 中按平台共享的令牌桶租用令牌，同一平台的多个标签页共用一个速率。
+ * 无法连接 Service Worker 时退回页面内的令牌桶，只限制当前页面。
+ *
+ * 执行引擎和适配器都通过它限流：执行引擎在每个任务开始前调用 acquireForTask，
+ * 预占的令牌留给该任务发出的第一个适配器请求，避免同一次重命名被计为两个请求。
+ */
+export class RateLimitClient {
+  /** 执行引擎已预占、尚未被适配器请求使用的令牌：平台 -> 过期时间戳列表 */
+  private taskTokens = new Map<PlatformName, number[]>();
+
+  constructor(
+    private readonly fallback: RateLimiterRegistry = new RateLimiterRegistry(),
+    private readonly wait: (ms: number) => Promise<void> = sleep
+  ) {}
+
+  /**
+   * 适配器发出请求前调用：优先使用执行引擎为任务预占的令牌，否则租用新令牌并等待
+   * @param platform 平台
+   * @param limits 限流配置（null 表示不限流）
+   */
+  async acquire(platform: PlatformName, limits: RateLimitConfig | null): Promise<void> {
+    if (!limits || this.takeTaskToken(platform)) {
+      return;
+    }
+    await this.lease({ type: RUNTIME_MESSAGE_TYPES.ACQUIRE_RATE_LIMIT, platform, limits });
+  }
+
+  /**
+   * 执行引擎在任务开始前调用：租用令牌并等待，然后把令牌留给任务的第一个请求
+   * @param platform 平台
+   * @param limits 限流配置（null 表示不限流）
+   * @param slowdown 降速倍数（平台返回限流时大于 1，对所有标签页生效）
+   */
+  async acquireForTask(platform: PlatformName, limits: RateLimitConfig | null, slowdown = 1): Promise<void> {
+    if (!limits) {
+      return;
+    }
+    await this.lease({ type: RUNTIME_MESSAGE_TYPES.ACQUIRE_RATE_LIMIT, platform, limits, slowdown });
+
+    const tokens = this.taskTokens.get(platform) ?? [];
+    tokens.push(Date.now() + TASK_TOKEN_TTL);
+    this.taskTokens.set(platform, tokens);
+  }
+
+  private takeTaskToken(platform: PlatformName): boolean {
+    const now = Date.now();
+    const tokens = (this.taskTokens.get(platform) ?? []).filter((expiresAt) => expiresAt > now);
+    const taken = tokens.shift() !== undefined;
+    this.taskTokens.set(platform, tokens);
+    return taken;
+  }
+
+  /**
+   * 向 Service Worker 租用令牌，按返回的等待时间等待
+   * @private
+   */
+  private async lease(message: AcquireRateLimitMessage): Promise<void> {
+    const delayMs = (await this.requestLease(message)) ?? this.fallback.reserve(message);
+    if (delayMs > 0) {
+      await this.wait(delayMs);
+    }
+  }
+
+  private async requestLease(message: AcquireRateLimitMessage): Promise<number | null> {
+    if (typeof chrome === 'undefined' || typeof chrome.runtime?.sendMessage !== 'function') {
+      return null;
+    }
+
+    try {
+      const response = await chrome.runtime.sendMessage(message);
+      return response?.success === true && typeof response.delayMs === 'number' ? response.delayMs : null;
+    } catch {
+      // 扩展上下文失效或 Service Worker 不可用
+      return null;
+    }
+  }
+}
+
+export const rateLimitClient = new RateLimitClient();
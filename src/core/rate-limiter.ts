@@ -0,0 +1,177 @@
+import type { PlatformConfig, PlatformName } from '../types/platform';
+import type { RateLimitConfig, RateLimitOverrides } from '../types/rate-limit';
+
+/**
+ * 按平台配置换算令牌桶限流配置
+ * 未设置 rateLimit 时按 requestInterval 换算为每秒请求数，容量为 1（即固定间隔）
+ *
+ * @param config 平台配置
+ * @returns 限流配置；requestInterval 不大于 0 且未设置 rateLimit 时返回 null（不限流）
+ */
+export function toRateLimitConfig(config: Pick<PlatformConfig, 'requestInterval' | 'rateLimit'>): RateLimitConfig | null {
+  if (config.rateLimit) {
+    return config.rateLimit;
+  }
+  if (!config.requestInterval || config.requestInterval <= 0) {
+    return null;
+  }
+  return { requestsPerSecond: 1000 / config.requestInterval, burst: 1 };
+}
+
+/**
+ * 降速倍数的半衰期（毫秒）
+ * 没有调用方继续报告更高的倍数时，超出 1 的部分每经过该时长减半
+ */
+export const SLOWDOWN_HALF_LIFE_MS = 30000;
+
+/**
+ * 令牌桶
+ *
+ * 令牌按 requestsPerSecond 匀速补充，最多积累 burst 个。
+ * 每次 reserve 预占一个令牌：令牌不足时允许透支，返回透支部分补齐所需的等待时间，
+ * 调用方等待该时间后再发请求，因此并发的预占会自动排成均匀的队列。
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+  /** 降速倍数（平台返回限流时由执行引擎调高，补充速率除以该倍数），在 slowdownAt 时的取值 */
+  private slowdown = 1;
+  private slowdownAt = 0;
+
+  constructor(
+    private config: RateLimitConfig,
+    now: number
+  ) {
+    this.tokens = config.burst;
+    this.updatedAt = now;
+  }
+
+  /**
+   * 预占一个令牌
+   * @param now 当前时间戳（毫秒）
+   * @returns 需要等待的毫秒数（0 表示可以立即请求）
+   */
+  reserve(now: number): number {
+    this.refill(now);
+    this.tokens -= 1;
+    return this.tokens >= 0 ? 0 : Math.ceil((-this.tokens * 1000) / this.getRate(now));
+  }
+
+  /**
+   * 更新限流配置（已积累的令牌按新容量截断）
+   */
+  configure(config: RateLimitConfig, now: number): void {
+    this.refill(now);
+    this.config = config;
+    this.tokens = Math.min(this.tokens, config.burst);
+  }
+
+  /**
+   * 报告调用方的降速倍数
+   * 多个标签页或执行引擎共用一个令牌桶，生效的倍数取当前（已衰减的）倍数与报告值中的较大者，
+   * 因此某个调用方报告的 1 不会取消其他调用方刚因限流调高的倍数
+   */
+  reportSlowdown(slowdown: number, now: number): void {
+    this.refill(now);
+    this.slowdown = Math.max(1, slowdown, this.getSlowdown(now));
+    this.slowdownAt = now;
+  }
+
+  getConfig(): RateLimitConfig {
+    return this.config;
+  }
+
+  /**
+   * 获取当前生效的降速倍数（按 SLOWDOWN_HALF_LIFE_MS 向 1 衰减）
+   */
+  getSlowdown(now: number): number {
+    const elapsed = Math.max(0, now - this.slowdownAt);
+    return 1 + (this.slowdown - 1) * Math.pow(0.5, elapsed / SLOWDOWN_HALF_LIFE_MS);
+  }
+
+  private getRate(now: number): number {
+    return this.config.requestsPerSecond / this.getSlowdown(now);
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.config.burst, this.tokens + (elapsed * this.getRate(now)) / 1000);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * 单次令牌预占请求
+ */
+export interface RateLimitLeaseRequest {
+  /** 平台 */
+  platform: PlatformName;
+  /** 调用方（适配器或执行引擎）的限流配置，存储中的覆盖配置优先 */
+  limits: RateLimitConfig;
+  /** 调用方的降速倍数（仅执行引擎提供），与其他调用方报告的倍数合并，见 TokenBucket.reportSlowdown */
+  slowdown?: number;
+}
+
+/**
+ * 按平台划分的令牌桶集合
+ *
+ * Service Worker 中的实例由所有标签页共享；
+ * 无法连接 Service Worker 时（如单元测试或扩展上下文失效），内容脚本使用页面内的实例兜底
+ */
+export class RateLimiterRegistry {
+  private buckets = new Map<PlatformName, TokenBucket>();
+  private overrides: RateLimitOverrides = {};
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * 预占一个令牌
+   * @param request 预占请求
+   * @returns 需要等待的毫秒数
+   */
+  reserve(request: RateLimitLeaseRequest): number {
+    const now = this.now();
+    const limits = this.overrides[request.platform] ?? request.limits;
+
+    let bucket = this.buckets.get(request.platform);
+    if (!bucket) {
+      bucket = new TokenBucket(limits, now);
+      this.buckets.set(request.platform, bucket);
+    } else if (!isSameConfig(bucket.getConfig(), limits)) {
+      bucket.configure(limits, now);
+    }
+
+    if (request.slowdown !== undefined) {
+      bucket.reportSlowdown(request.slowdown, now);
+    }
+
+    return bucket.reserve(now);
+  }
+
+  /**
+   * 设置用户覆盖的限流配置（立即作用于已有的令牌桶）
+   */
+  setOverrides(overrides: RateLimitOverrides): void {
+    this.overrides = { ...overrides };
+
+    const now = this.now();
+    for (const [platform, bucket] of this.buckets) {
+      const override = this.overrides[platform];
+      if (override) {
+        bucket.configure(override, now);
+      }
+    }
+  }
+
+  /**
+   * 获取平台当前生效的限流状态（未使用过的平台返回 null）
+   */
+  getState(platform: PlatformName): { limits: RateLimitConfig; slowdown: number } | null {
+    const bucket = this.buckets.get(platform);
+    return bucket ? { limits: bucket.getConfig(), slowdown: bucket.getSlowdown(this.now()) } : null;
+  }
+}
+
+function isSameConfig(a: RateLimitConfig, b: RateLimitConfig): boolean {
+  return a.requestsPerSecond === b.requestsPerSecond && a.burst === b.burst;
+}
@@ -0,0 +1,148 @@
+import { PlatformName } from '../types/platform';
+import { RuleConfig } from '../types/rule';
+import {
+  LastRenameOperation,
+  RENAME_JOURNAL_MAX_ENTRIES,
+  RENAME_JOURNAL_STORAGE_KEYS,
+  RenameJournalEntry,
+  UndoRenameItem,
+} from '../types/undo';
+import { generateUUID } from '../utils/helpers';
+import { upsertUndoItems } from './last-rename-operation';
+import { type StorageManager, storage } from '../utils/storage';
+
+type RenameJournalStorage = Pick<StorageManager, 'get' | 'set'>;
+
+/**
+ * 重命名日志
+ * 持久化保存历次批量重命名，离开目录或刷新页面后仍可撤销任意一条（全部或部分）
+ * 所有写操作串行执行，避免“执行后立即重试”时互相覆盖
+ */
+export class RenameJournal {
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly storageManager: RenameJournalStorage = storage,
+    private readonly maxEntries = RENAME_JOURNAL_MAX_ENTRIES
+  ) {}
+
+  /**
+   * 获取全部日志条目（最新的在前）
+   */
+  async list(): Promise<RenameJournalEntry[]> {
+    const stored = await this.storageManager.get<RenameJournalEntry[]>(RENAME_JOURNAL_STORAGE_KEYS.ENTRIES);
+    const entries = Array.isArray(stored) ? stored : [];
+    return [...entries].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * 获取指定日志条目
+   * @param id 条目 ID
+   */
+  async get(id: string): Promise<RenameJournalEntry | null> {
+    const entries = await this.list();
+    return entries.find((entry) => entry.id === id) ?? null;
+  }
+
+  /**
+   * 获取指定平台和目录下最新的日志条目
+   * @param platform 平台
+   * @param directoryKey 目录标识
+   */
+  async findLatestInScope(platform: PlatformName, directoryKey: string): Promise<RenameJournalEntry | null> {
+    const entries = await this.list();
+    return entries.find((entry) => entry.platform === platform && entry.directoryKey === directoryKey) ?? null;
+  }
+
+  /**
+   * 追加一条日志，超出上限时丢弃最旧的条目
+   * @param entry 日志条目（由 createRenameJournalEntry 创建）
+   */
+  async append(entry: RenameJournalEntry): Promise<void> {
+    await this.write((entries) => [entry, ...entries.filter((item) => item.id !== entry.id)].slice(0, this.maxEntries));
+  }
+
+  /**
+   * 向已有条目追加成功项（重试成功的文件；同一文件的记录会被替换）
+   * @param id 条目 ID
+   * @param items 新的成功项
+   */
+  async appendItems(id: string, items: UndoRenameItem[]): Promise<void> {
+    if (items.length === 0) {
+      return;
+    }
+
+    await this.write((entries) =>
+      entries.map((entry) =>
+        entry.id === id
+          ? {
+              ...entry,
+              updatedAt: Date.now(),
+              items: upsertUndoItems(entry.items, items),
+            }
+          : entry
+      )
+    );
+  }
+
+  /**
+   * 移除已撤销的文件；条目中的文件全部撤销后删除该条目
+   * @param id 条目 ID
+   * @param fileIds 已撤销的文件 ID
+   */
+  async removeItems(id: string, fileIds: Set<string>): Promise<void> {
+    if (fileIds.size === 0) {
+      return;
+    }
+
+    await this.write((entries) =>
+      entries.flatMap((entry) => {
+        if (entry.id !== id) {
+          return [entry];
+        }
+
+        const items = entry.items.filter((item) => !fileIds.has(item.fileId));
+        return items.length > 0 ? [{ ...entry, updatedAt: Date.now(), items }] : [];
+      })
+    );
+  }
+
+  /**
+   * 删除日志条目
+   * @param id 条目 ID
+   */
+  async remove(id: string): Promise<void> {
+    await this.write((entries) => entries.filter((entry) => entry.id !== id));
+  }
+
+  private write(update: (entries: RenameJournalEntry[]) => RenameJournalEntry[]): Promise<void> {
+    const runWrite = async () => {
+      const entries = await this.list();
+      await this.storageManager.set(RENAME_JOURNAL_STORAGE_KEYS.ENTRIES, update(entries));
+    };
+
+    const writePromise = this.writeChain.then(runWrite, runWrite);
+    this.writeChain = writePromise.catch(() => undefined);
+    return writePromise;
+  }
+}
+
+export const renameJournal = new RenameJournal();
+
+/**
+ * 由一次重命名操作创建日志条目（同步生成 ID，便于随后的重试合并到同一条目）
+ * @param operation 本次重命名操作
+ * @param rule 执行时使用的规则配置
+ * @returns 日志条目
+ */
+export function createRenameJournalEntry(
+  operation: LastRenameOperation,
+  rule: RuleConfig | null
+): RenameJournalEntry {
+  return {
+    ...operation,
+    id: generateUUID(),
+    rule: rule ? JSON.parse(JSON.stringify(rule)) : null,
+    items: operation.items.map((item) => ({ ...item })),
+  };
+}
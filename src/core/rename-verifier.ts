@@ -0,0 +1,85 @@
+import type { PlatformAdapter } from '../types/platform';
+import { logger } from '../utils/logger';
+
+/**
+ * 待校验的重命名结果
+ */
+export interface RenameVerificationTarget {
+  /** 文件ID */
+  fileId: string;
+  /** 文件所在目录ID */
+  parentId: string;
+  /** 期望的新文件名 */
+  expectedName: string;
+}
+
+/**
+ * 校验不通过的重命名结果
+ */
+export interface RenameVerificationMismatch {
+  /** 文件ID */
+  fileId: string;
+  /** 平台上的实际文件名（文件已找不到时为 null） */
+  actualName: string | null;
+}
+
+/**
+ * 重新读取文件名，找出平台报告成功但名称并未改变的文件
+ *
+ * 按目录用 getAllFiles 重新列出（每个目录一次请求），列表中找不到的文件再用 getFileInfo 单独查询。
+ * 目录和单个文件都读取失败时无法判断，视为通过（不把平台读取故障误报为改名失败）。
+ *
+ * @param adapter 平台适配器
+ * @param targets 待校验的结果
+ * @returns 校验不通过的文件
+ */
+export async function findRenameMismatches(
+  adapter: Pick<PlatformAdapter, 'getAllFiles' | 'getFileInfo'>,
+  targets: RenameVerificationTarget[]
+): Promise<RenameVerificationMismatch[]> {
+  const targetsByParent = new Map<string, RenameVerificationTarget[]>();
+  for (const target of targets) {
+    const group = targetsByParent.get(target.parentId) ?? [];
+    group.push(target);
+    targetsByParent.set(target.parentId, group);
+  }
+
+  const mismatches: RenameVerificationMismatch[] = [];
+  for (const [parentId, group] of targetsByParent) {
+    let listedNames: Map<string, string> | null = null;
+    try {
+      const files = await adapter.getAllFiles(parentId);
+      listedNames = new Map(files.map((file) => [file.id, file.name]));
+    } catch (error) {
+      logger.warn(`Failed to list ${parentId} for rename verification:`, error instanceof Error ? error.message : String(error));
+    }
+
+    for (const target of group) {
+      const actualName = listedNames?.get(target.fileId) ?? (await readFileName(adapter, target.fileId));
+      if (actualName === undefined) {
+        // 列表和单个查询都失败：目录可读而文件不存在时记为找不到，否则无法判断
+        if (listedNames) {
+          mismatches.push({ fileId: target.fileId, actualName: null });
+        }
+        continue;
+      }
+
+      if (actualName !== target.expectedName) {
+        mismatches.push({ fileId: target.fileId, actualName });
+      }
+    }
+  }
+
+  return mismatches;
+}
+
+/**
+ * 单独查询文件名（失败时返回 undefined）
+ */
+async function readFileName(adapter: Pick<PlatformAdapter, 'getFileInfo'>, fileId: string): Promise<string | undefined> {
+  try {
+    return (await adapter.getFileInfo(fileId)).name;
+  } catch {
+    return undefined;
+  }
+}
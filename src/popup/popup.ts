@@ -2,6 +2,8 @@ import { logger } from '../utils/logger';
 import { storage } from '../utils/storage';
 import { PlatformName } from '../types/platform';
 import { PlatformUsageStats, STORAGE_KEYS } from '../types/stats';
+import { RATE_LIMIT_STORAGE_KEY, isRateLimitConfig, type RateLimitOverrides } from '../types/rate-limit';
+import { CRASH_RECOVERY_MAX_AGE_STORAGE_KEY, DEFAULT_CRASH_RECOVERY_MAX_AGE_MINUTES } from '../types/core';
 import { APP_VERSION_WITH_PREFIX } from '../shared/version';
 import { I18nService } from '../utils/i18n';
 import { LANGUAGE_DISPLAY_NAMES } from '../types/i18n';
@@ -194,6 +196,9 @@ async function initPopup() {
   // 4. Setup language change listener with cleanup mechanism
   setupLanguageChangeListener();
 
+  // 初始化中断批次保留时长设置（对所有平台生效）
+  await initRecoveryWindowSettings();
+
   // 获取当前标签页
   const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
   const currentTab = tabs[0];
@@ -216,6 +221,8 @@ async function initPopup() {
     await loadStats(platformKey);
     // 初始化重置按钮 - 传入平台信息
     initResetButton(platformKey);
+    // 初始化请求速率设置
+    await initRateLimitSettings(platformKey);
   } else {
     updatePlatformName(I18nService.t('popup_platform_unsupported'));
     // 初始化悬浮按钮开关 - 非支持的平台
@@ -319,6 +326,101 @@ function initResetButton(platform: PlatformName | null) {
   });
 }
 
+/**
+ * 初始化请求速率设置
+ * 写入存储中的 rate_limits（按平台覆盖限流配置），Service Worker 监听存储变化后立即生效；
+ * 两个输入框都留空时删除当前平台的覆盖，恢复适配器的默认速率
+ * @param platform 当前平台
+ */
+async function initRateLimitSettings(platform: PlatformName) {
+  const section = document.getElementById('rate-limit-settings');
+  const rpsInput = document.getElementById('rate-limit-rps') as HTMLInputElement | null;
+  const burstInput = document.getElementById('rate-limit-burst') as HTMLInputElement | null;
+  const saveButton = document.getElementById('rate-limit-save') as HTMLButtonElement | null;
+
+  if (!section || !rpsInput || !burstInput || !saveButton) {
+    logger.warn('Rate limit settings elements not found');
+    return;
+  }
+
+  const override = (await storage.get<RateLimitOverrides>(RATE_LIMIT_STORAGE_KEY))?.[platform];
+  rpsInput.value = override ? String(override.requestsPerSecond) : '';
+  burstInput.value = override ? String(override.burst) : '';
+  section.hidden = false;
+
+  saveButton.addEventListener('click', async () => {
+    const rps = rpsInput.value.trim();
+    const burst = burstInput.value.trim();
+    const config = rps || burst ? { requestsPerSecond: Number(rps), burst: burst ? Number(burst) : 1 } : null;
+
+    if (config && !isRateLimitConfig(config)) {
+      showToast(I18nService.t('toast_rate_limit_invalid'));
+      return;
+    }
+
+    saveButton.disabled = true;
+
+    try {
+      const overrides = { ...((await storage.get<RateLimitOverrides>(RATE_LIMIT_STORAGE_KEY)) ?? {}) };
+      if (config) {
+        overrides[platform] = config;
+      } else {
+        delete overrides[platform];
+      }
+      await storage.set(RATE_LIMIT_STORAGE_KEY, overrides);
+
+      burstInput.value = config ? String(config.burst) : '';
+      showToast(I18nService.t(config ? 'toast_rate_limit_saved' : 'toast_rate_limit_reset'));
+    } catch (error) {
+      logger.error('Failed to save rate limit override:', error as Error);
+      showToast(I18nService.t('toast_rate_limit_save_failed'));
+    } finally {
+      saveButton.disabled = false;
+    }
+  });
+}
+
+// 初始化中断批次保留时长设置（界面以小时填写，存储为分钟）
+async function initRecoveryWindowSettings() {
+  const hoursInput = document.getElementById('recovery-window-hours') as HTMLInputElement | null;
+  const saveButton = document.getElementById('recovery-window-save') as HTMLButtonElement | null;
+
+  if (!hoursInput || !saveButton) {
+    logger.warn('Recovery window settings elements not found');
+    return;
+  }
+
+  const stored = await storage.get<number>(CRASH_RECOVERY_MAX_AGE_STORAGE_KEY);
+  hoursInput.placeholder = String(DEFAULT_CRASH_RECOVERY_MAX_AGE_MINUTES / 60);
+  hoursInput.value = typeof stored === 'number' && stored > 0 ? String(stored / 60) : '';
+
+  saveButton.addEventListener('click', async () => {
+    const value = hoursInput.value.trim();
+    const hours = Number(value);
+
+    if (value && !(Number.isFinite(hours) && hours > 0)) {
+      showToast(I18nService.t('toast_recovery_window_invalid'));
+      return;
+    }
+
+    saveButton.disabled = true;
+
+    try {
+      if (value) {
+        await storage.set(CRASH_RECOVERY_MAX_AGE_STORAGE_KEY, Math.max(1, Math.round(hours * 60)));
+      } else {
+        await storage.remove(CRASH_RECOVERY_MAX_AGE_STORAGE_KEY);
+      }
+      showToast(I18nService.t(value ? 'toast_recovery_window_saved' : 'toast_recovery_window_reset'));
+    } catch (error) {
+      logger.error('Failed to save recovery window:', error as Error);
+      showToast(I18nService.t('toast_recovery_window_save_failed'));
+    } finally {
+      saveButton.disabled = false;
+    }
+  });
+}
+
 // 初始化悬浮按钮开关（常显，根据平台状态控制可用性）
 async function initFloatingButtonToggle(platform: PlatformName | null) {
   const toggleContainer = document.getElementById('floating-button-toggle');
@@ -535,6 +637,17 @@ function bindEvents() {
       });
     });
   }
+
+  // WebDAV / Alist 没有宿主页面，在扩展页中打开文件选择面板
+  const webdavLink = document.getElementById('webdav-link');
+  if (webdavLink) {
+    webdavLink.addEventListener('click', e => {
+      e.preventDefault();
+      chrome.tabs.create({
+        url: chrome.runtime.getURL('src/webdav/index.html'),
+      });
+    });
+  }
 }
 
 // 启动
@@ -1,5 +1,6 @@
 import { RuleExecutor } from '../types/rule';
 import { parseFileName } from '../utils/helpers';
+import { FileItem } from '../types/platform';
 
 /**
  * 规则基类
@@ -19,7 +20,7 @@ export abstract class BaseRule implements RuleExecutor {
    * 执行规则
    * 子类必须实现
    */
-  abstract execute(fileName: string, index: number, total: number): string;
+  abstract execute(fileName: string, index: number, total: number, file?: FileItem): string;
 
   /**
    * 验证配置
@@ -45,9 +46,9 @@ export abstract class BaseRule implements RuleExecutor {
   }
 
   /**
-   * 解析文件名
+   * 解析文件名（文件夹不拆分扩展名）
    */
-  protected parseFileName(fileName: string): { name: string; ext: string } {
-    return parseFileName(fileName);
+  protected parseFileName(fileName: string, file?: FileItem): { name: string; ext: string } {
+    return parseFileName(fileName, file?.isFolder);
   }
 }
@@ -0,0 +1,142 @@
+import { BaseRule } from './base-rule';
+import { CaseMode, CaseRuleParams } from '../types/rule';
+import { FileItem } from '../types/platform';
+
+const CASE_MODES: CaseMode[] = ['upper', 'lower', 'title', 'sentence', 'camel', 'snake', 'kebab'];
+
+/**
+ * 标题模式下默认保持小写的词
+ */
+export const DEFAULT_TITLE_STOP_WORDS = [
+  'a',
+  'an',
+  'and',
+  'as',
+  'at',
+  'but',
+  'by',
+  'for',
+  'in',
+  'nor',
+  'of',
+  'on',
+  'or',
+  'the',
+  'to',
+  'vs',
+];
+
+/**
+ * 非字母数字字符均视为分隔符
+ */
+const SEPARATOR_PATTERN = /([^\p{L}\p{N}]+)/u;
+
+/**
+ * 大小写转换规则
+ * 对文件名主体（可选包含扩展名）做大小写转换，按分隔符和 camelCase 边界拆分单词
+ */
+export class CaseRule extends BaseRule {
+  protected config!: CaseRuleParams;
+
+  execute(fileName: string, _index?: number, _total?: number, file?: FileItem): string {
+    const { name, ext } = this.parseFileName(fileName, file);
+    const { mode, includeExtension = false } = this.config;
+
+    const converted = convertCase(name, mode, parseStopWords(this.config.stopWords));
+    const newExt = includeExtension ? (mode === 'upper' ? ext.toUpperCase() : ext.toLowerCase()) : ext;
+
+    // 转换后没有剩下任何单词时保留原名，避免生成空文件名
+    return (converted || name) + newExt;
+  }
+
+  validate(config: any): boolean {
+    return (
+      typeof config === 'object' &&
+      config !== null &&
+      CASE_MODES.includes(config.mode) &&
+      (!('includeExtension' in config) || typeof config.includeExtension === 'boolean') &&
+      (!('stopWords' in config) || typeof config.stopWords === 'string')
+    );
+  }
+}
+
+/**
+ * 按模式转换文本
+ * - upper/lower/title/sentence 保留原分隔符
+ * - camel/snake/kebab 丢弃原分隔符并重新拼接单词
+ */
+function convertCase(text: string, mode: CaseMode, stopWords: Set<string>): string {
+  switch (mode) {
+    case 'upper':
+      return text.toUpperCase();
+    case 'lower':
+      return text.toLowerCase();
+    case 'title':
+    case 'sentence': {
+      const total = splitWords(text).length;
+      let wordIndex = 0;
+      return mapWordsInPlace(text, (word) => {
+        const position = wordIndex++;
+        if (mode === 'sentence') {
+          return position === 0 ? capitalize(word) : word.toLowerCase();
+        }
+        const isEdge = position === 0 || position === total - 1;
+        return !isEdge && stopWords.has(word.toLowerCase()) ? word.toLowerCase() : capitalize(word);
+      });
+    }
+    case 'camel':
+      return splitWords(text)
+        .map((word, index) => (index === 0 ? word.toLowerCase() : capitalize(word)))
+        .join('');
+    case 'snake':
+      return splitWords(text).map((word) => word.toLowerCase()).join('_');
+    case 'kebab':
+      return splitWords(text).map((word) => word.toLowerCase()).join('-');
+    default:
+      return text;
+  }
+}
+
+/**
+ * 拆分单词：先按分隔符，再按 camelCase 边界（myFile → my File，HTTPServer → HTTP Server）
+ */
+export function splitWords(text: string): string[] {
+  return text
+    .split(SEPARATOR_PATTERN)
+    .filter((part, index) => index % 2 === 0 && part.length > 0)
+    .flatMap(splitCamelCase);
+}
+
+function splitCamelCase(word: string): string[] {
+  return word
+    .replace(/(\p{Ll})(\p{Lu})/gu, '$1\u0000$2')
+    .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, '$1\u0000$2')
+    .split('\u0000');
+}
+
+/**
+ * 保留分隔符，逐个替换单词
+ */
+function mapWordsInPlace(text: string, mapWord: (word: string) => string): string {
+  return text
+    .split(SEPARATOR_PATTERN)
+    .map((part, index) => (index % 2 === 0 ? splitCamelCase(part).map((w) => (w ? mapWord(w) : w)).join('') : part))
+    .join('');
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+function parseStopWords(raw?: string): Set<string> {
+  if (raw === undefined) {
+    return new Set(DEFAULT_TITLE_STOP_WORDS);
+  }
+
+  return new Set(
+    raw
+      .split(/[\s,，]+/)
+      .map((word) => word.trim().toLowerCase())
+      .filter(Boolean)
+  );
+}
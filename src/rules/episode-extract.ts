@@ -1,11 +1,21 @@
 import { RuleExecutor, EpisodeExtractRuleParams } from '../types/rule';
 import { parseFileName } from '../utils/helpers';
+import { FileItem } from '../types/platform';
 
 const SeasonEpisodeExtract = /S(?:eason)?[._\- ]?(\d{1,3})(?:[._\- ]?E(?:pisode)?|[._\- ])(\d{1,3})(?!\d)/i;
 const EpisodeExtract1 = /EP?(\d{1,3})(?!\d)/i;
 const EpisodeExtract2 = /(?:^|[^0-9h\u4E00-\u9FA5])(\d{1,3})(?!\d)(?![PK季])/i;
 const EpisodeExtract3 = /(?:^|[^0-9h])(\d{1,3})(?!\d)(?![PK季])/i;
 
+/**
+ * 剧集变量的取值（季号、集数已补零）
+ */
+export interface EpisodeValues {
+  prefix: string;
+  season: string;
+  episode: string;
+}
+
 /**
  * 剧集提取规则
  *
@@ -37,29 +47,11 @@ export class EpisodeExtractRule implements RuleExecutor {
     };
   }
 
-  execute(fileName: string, _index: number, _total: number): string {
-    const { name, ext } = parseFileName(fileName);
-
-    const leadingZeroCount = this.normalizeLeadingZeroCount(this.config.leadingZeroCount);
-    const season = this.normalizeSeason(this.config.season);
-
-    const extracted = this.extractEpisode(name, leadingZeroCount);
-    if (!extracted) {
-      throw new Error('extract_episode_not_found');
-    }
-
-    const offset = this.normalizeOffset(this.config.offset);
-    const shiftedEpisode = extracted + offset;
-    if (!Number.isInteger(shiftedEpisode) || shiftedEpisode <= 0) {
-      throw new Error('extract_episode_out_of_range');
-    }
-
-    const episode = String(shiftedEpisode).padStart(leadingZeroCount, '0');
+  execute(fileName: string, _index: number, _total: number, file?: FileItem): string {
+    const { name, ext } = parseFileName(fileName, file?.isFolder);
 
     let output = this.applyTemplate(this.config.template, {
-      prefix: this.config.prefix,
-      season,
-      episode,
+      ...this.resolveEpisodeValues(name),
       ext,
     });
 
@@ -102,6 +94,42 @@ export class EpisodeExtractRule implements RuleExecutor {
     return true;
   }
 
+  /**
+   * 解析剧集变量（供整理规则的路径模板使用）
+   * @param fileName 文件名
+   * @param file 完整文件信息
+   * @returns {prefix} {season} {episode} 的取值；无法提取集数时返回 null
+   */
+  getEpisodeValues(fileName: string, file?: FileItem): EpisodeValues | null {
+    try {
+      return this.resolveEpisodeValues(parseFileName(fileName, file?.isFolder).name);
+    } catch {
+      return null;
+    }
+  }
+
+  private resolveEpisodeValues(name: string): EpisodeValues {
+    const leadingZeroCount = this.normalizeLeadingZeroCount(this.config.leadingZeroCount);
+    const season = this.normalizeSeason(this.config.season);
+
+    const extracted = this.extractEpisode(name, leadingZeroCount);
+    if (!extracted) {
+      throw new Error('extract_episode_not_found');
+    }
+
+    const offset = this.normalizeOffset(this.config.offset);
+    const shiftedEpisode = extracted + offset;
+    if (!Number.isInteger(shiftedEpisode) || shiftedEpisode <= 0) {
+      throw new Error('extract_episode_out_of_range');
+    }
+
+    return {
+      prefix: this.config.prefix,
+      season,
+      episode: String(shiftedEpisode).padStart(leadingZeroCount, '0'),
+    };
+  }
+
   private applyTemplate(
     template: string,
     values: { prefix: string; season: string; episode: string; ext: string }
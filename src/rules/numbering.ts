@@ -1,17 +1,47 @@
 import { BaseRule } from './base-rule';
-import { NumberingRuleParams } from '../types/rule';
+import { flattenRuleConfig } from './pipeline';
+import { NumberingRuleParams, RuleConfig } from '../types/rule';
+import { FileItem } from '../types/platform';
+
+const SORT_BY_OPTIONS = ['manual', 'name', 'mtime', 'size'];
+
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
 
 /**
  * 自动编号规则
+ * 调用 prepare 后按排序结果编号；未调用时按传入的索引编号
  */
 export class NumberingRule extends BaseRule {
   protected config!: NumberingRuleParams;
 
-  execute(fileName: string, index: number): string {
-    const { name, ext } = this.parseFileName(fileName);
+  /** 文件 ID -> 编号（由 prepare 计算） */
+  private numberByFileId = new Map<string, number>();
+
+  /**
+   * 按排序依据和“按扩展名/文件夹重新计数”预先计算每个文件的编号
+   * @param files 本次处理的全部文件
+   */
+  prepare(files: FileItem[]): void {
+    const { startNumber, resetPerExtension = false, resetPerFolder = false } = this.config;
+    const step = this.config.step ?? 1;
+    const counters = new Map<string, number>();
+
+    this.numberByFileId = new Map();
+    sortFilesForNumbering(files, this.config).forEach((file) => {
+      const key = `${resetPerFolder ? file.parentId : ''}\n${resetPerExtension ? file.ext.toLowerCase() : ''}`;
+      const position = counters.get(key) ?? 0;
+      counters.set(key, position + 1);
+      this.numberByFileId.set(file.id, startNumber + position * step);
+    });
+  }
+
+  execute(fileName: string, index: number, _total?: number, file?: FileItem): string {
+    const { name, ext } = this.parseFileName(fileName, file);
     const { startNumber, digits, position, format, separator } = this.config;
+    const step = this.config.step ?? 1;
 
-    const number = (startNumber + index).toString().padStart(digits, '0');
+    const value = (file && this.numberByFileId.get(file.id)) ?? startNumber + index * step;
+    const number = (value < 0 ? '-' : '') + Math.abs(value).toString().padStart(digits, '0');
     const formatted = format.replace('{num}', number);
 
     if (position === 'prefix') {
@@ -29,7 +59,52 @@ export class NumberingRule extends BaseRule {
       config.digits > 0 &&
       ['prefix', 'suffix'].includes(config.position) &&
       typeof config.format === 'string' &&
-      typeof config.separator === 'string'
+      typeof config.separator === 'string' &&
+      (config.sortBy === undefined || SORT_BY_OPTIONS.includes(config.sortBy)) &&
+      (config.sortOrder === undefined || ['asc', 'desc'].includes(config.sortOrder)) &&
+      (config.step === undefined || (Number.isFinite(config.step) && config.step !== 0)) &&
+      (config.resetPerExtension === undefined || typeof config.resetPerExtension === 'boolean') &&
+      (config.resetPerFolder === undefined || typeof config.resetPerFolder === 'boolean')
     );
   }
 }
+
+/**
+ * 按编号规则的排序依据对文件排序（不修改原数组）
+ * 相同排序值时按文件名自然排序，再保持原顺序
+ * @param files 文件列表
+ * @param params 编号规则参数
+ * @returns 排序后的文件列表
+ */
+export function sortFilesForNumbering(
+  files: FileItem[],
+  params: Pick<NumberingRuleParams, 'sortBy' | 'sortOrder'>
+): FileItem[] {
+  const sortBy = params.sortBy ?? 'manual';
+  if (sortBy === 'manual') {
+    return files.slice();
+  }
+
+  const direction = params.sortOrder === 'desc' ? -1 : 1;
+  return files.slice().sort((a, b) => {
+    let result = 0;
+    if (sortBy === 'mtime') {
+      result = a.mtime - b.mtime;
+    } else if (sortBy === 'size') {
+      result = a.size - b.size;
+    }
+    return (result || naturalCollator.compare(a.name, b.name)) * direction;
+  });
+}
+
+/**
+ * 获取规则配置（含规则链）决定的文件展示/执行顺序
+ * 以第一个启用的编号步骤的排序依据为准；没有编号步骤时保持原顺序
+ * @param files 文件列表
+ * @param config 规则配置
+ * @returns 排序后的文件列表
+ */
+export function orderFilesByRule(files: FileItem[], config: RuleConfig): FileItem[] {
+  const numbering = flattenRuleConfig(config).find((step) => step.type === 'numbering');
+  return numbering ? sortFilesForNumbering(files, numbering.params ?? {}) : files.slice();
+}
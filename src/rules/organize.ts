@@ -0,0 +1,120 @@
+import { EpisodeExtractRuleParams, OrganizeRuleParams, RuleConfig, RuleExecutor } from '../types/rule';
+import { FileItem } from '../types/platform';
+import { parseFileName, sanitizeFileName } from '../utils/helpers';
+import { EpisodeExtractRule } from './episode-extract';
+import { flattenRuleConfig } from './pipeline';
+import { findTemplateIssues, renderTemplateText } from './template';
+
+/**
+ * 路径模板额外支持的剧集变量
+ */
+export const ORGANIZE_EPISODE_TOKENS = ['prefix', 'season', 'episode'] as const;
+
+/**
+ * 整理规则
+ * 不修改文件名（execute 原样返回），目标目录由 resolvePath 按路径模板生成
+ */
+export class OrganizeRule implements RuleExecutor {
+  private pathTemplate: string;
+
+  /**
+   * @param params 整理规则参数
+   * @param episodeRule 提供剧集变量的剧集提取规则（未提供时剧集变量输出为空）
+   */
+  constructor(
+    params: OrganizeRuleParams,
+    private readonly episodeRule: EpisodeExtractRule | null = null
+  ) {
+    if (!this.validate(params)) {
+      throw new Error('Invalid rule configuration');
+    }
+    this.pathTemplate = params.pathTemplate;
+  }
+
+  /**
+   * 整理步骤不修改文件名
+   * @param fileName 原文件名
+   * @returns 原文件名
+   */
+  execute(fileName: string): string {
+    return fileName;
+  }
+
+  /**
+   * 生成文件的目标目录
+   * 变量按原文件名解析（与剧集提取步骤看到的名称一致）
+   * @param file 文件
+   * @param index 文件索引（{index} 从 1 开始）
+   * @param total 文件总数
+   * @returns 相对于当前目录的各级目录名；为空表示留在当前目录
+   */
+  resolvePath(file: FileItem, index: number, total: number): string[] {
+    const { name, ext } = parseFileName(file.name, file.isFolder);
+    const episode = this.episodeRule?.getEpisodeValues(file.name, file);
+    const path = renderTemplateText(
+      this.pathTemplate,
+      { name, ext, index: index + 1, total, file },
+      {
+        prefix: episode?.prefix ?? '',
+        season: episode?.season ?? '',
+        episode: episode?.episode ?? '',
+      }
+    );
+    return splitOrganizePath(path);
+  }
+
+  /**
+   * 验证配置：路径模板非空，且所有变量均可识别
+   * @param config 配置对象
+   * @returns 是否有效
+   */
+  validate(config: unknown): boolean {
+    if (typeof config !== 'object' || config === null) {
+      return false;
+    }
+
+    const { pathTemplate } = config as Partial<OrganizeRuleParams>;
+    return (
+      typeof pathTemplate === 'string' &&
+      pathTemplate.trim().length > 0 &&
+      findTemplateIssues(pathTemplate, ORGANIZE_EPISODE_TOKENS).length === 0
+    );
+  }
+}
+
+/**
+ * 将渲染后的路径拆分为目录名
+ * 各级目录名中的非法字符替换为 _，空目录名和 . / .. 被忽略
+ * @param path 以 / 分隔的路径
+ * @returns 目录名列表
+ */
+export function splitOrganizePath(path: string): string[] {
+  return path
+    .split('/')
+    .map((segment) => sanitizeFileName(segment))
+    .filter((segment) => segment && segment !== '.' && segment !== '..');
+}
+
+/**
+ * 由规则配置创建整理规则
+ * 使用第一个启用的整理步骤，剧集变量取自第一个启用的剧集提取步骤
+ * @param config 规则配置
+ * @returns 整理规则；不含整理步骤或参数无效时返回 null
+ */
+export function createOrganizeRule(config: RuleConfig): OrganizeRule | null {
+  const steps = flattenRuleConfig(config);
+  const organizeStep = steps.find((step) => step.type === 'organize');
+  if (!organizeStep) {
+    return null;
+  }
+
+  try {
+    const episodeStep = steps.find((step) => step.type === 'episodeExtract');
+    const episodeRule = episodeStep
+      ? new EpisodeExtractRule(episodeStep.params as EpisodeExtractRuleParams)
+      : null;
+    return new OrganizeRule(organizeStep.params as OrganizeRuleParams, episodeRule);
+  } catch {
+    return null;
+  }
+}
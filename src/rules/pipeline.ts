@@ -0,0 +1,106 @@
+import { RuleConfig, RuleExecutor, RuleType, PipelineRuleParams, PipelineStep } from '../types/rule';
+import { FileItem } from '../types/platform';
+
+/**
+ * 规则链
+ * 按顺序执行多个规则，前一步生成的文件名作为后一步的输入
+ */
+export class PipelineRule implements RuleExecutor {
+  private executors: RuleExecutor[];
+
+  /**
+   * @param params 规则链参数
+   * @param createStep 单步规则的创建函数（由 RuleFactory 注入，避免循环依赖）
+   */
+  constructor(params: PipelineRuleParams, createStep: (config: RuleConfig) => RuleExecutor) {
+    if (!this.validate(params)) {
+      throw new Error('Invalid rule configuration');
+    }
+
+    this.executors = getEnabledPipelineSteps(params.steps).map((step) =>
+      createStep({ type: step.type, params: step.params })
+    );
+  }
+
+  /**
+   * 将整批文件传给每个需要预处理的步骤
+   * @param files 本次处理的全部文件
+   */
+  prepare(files: FileItem[]): void {
+    this.executors.forEach((executor) => executor.prepare?.(files));
+  }
+
+  /**
+   * 依次执行所有启用的步骤
+   * @param fileName 原文件名
+   * @param index 文件索引
+   * @param total 文件总数
+   * @param file 完整文件信息（原样传给每一步）
+   * @returns 最后一步输出的文件名
+   */
+  execute(fileName: string, index: number, total: number, file?: FileItem): string {
+    return this.executors.reduce(
+      (currentName, executor) => executor.execute(currentName, index, total, file),
+      fileName
+    );
+  }
+
+  /**
+   * 验证配置
+   * - steps 必须为数组，且至少有一个启用的步骤
+   * - 不允许嵌套规则链
+   * @param config 配置对象
+   * @returns 是否有效
+   */
+  validate(config: any): boolean {
+    if (typeof config !== 'object' || config === null || !Array.isArray(config.steps)) {
+      return false;
+    }
+
+    const stepsValid = config.steps.every(
+      (step: any) =>
+        typeof step === 'object' &&
+        step !== null &&
+        typeof step.type === 'string' &&
+        step.type !== 'pipeline' &&
+        typeof step.params === 'object' &&
+        step.params !== null &&
+        (!('enabled' in step) || typeof step.enabled === 'boolean')
+    );
+
+    return stepsValid && getEnabledPipelineSteps(config.steps).length > 0;
+  }
+}
+
+/**
+ * 获取规则链中启用的步骤
+ * @param steps 步骤列表
+ * @returns 启用的步骤（保持原顺序）
+ */
+export function getEnabledPipelineSteps(steps: PipelineStep[]): PipelineStep[] {
+  return steps.filter((step) => step.enabled !== false);
+}
+
+/**
+ * 将规则配置展开为实际执行的单步规则列表
+ * 普通规则返回自身，规则链返回其启用的步骤
+ * @param config 规则配置
+ * @returns 单步规则配置列表
+ */
+export function flattenRuleConfig(config: RuleConfig): RuleConfig[] {
+  if (config.type !== 'pipeline') {
+    return [config];
+  }
+
+  const steps: PipelineStep[] = Array.isArray(config.params?.steps) ? config.params.steps : [];
+  return getEnabledPipelineSteps(steps).map((step) => ({ type: step.type, params: step.params }));
+}
+
+/**
+ * 判断规则配置（含规则链中启用的步骤）是否包含指定类型的规则
+ * @param config 规则配置
+ * @param type 规则类型
+ */
+export function ruleConfigIncludes(config: RuleConfig, type: RuleType): boolean {
+  return flattenRuleConfig(config).some((step) => step.type === type);
+}
@@ -1,5 +1,6 @@
 import { BaseRule } from './base-rule';
 import { RegexRuleParams } from '../types/rule';
+import { FileItem } from '../types/platform';
 
 /**
  * 正则替换规则
@@ -40,8 +41,8 @@ export class RegexRule extends BaseRule {
     return base + extras.join('');
   }
 
-  execute(fileName: string): string {
-    const { name, ext } = this.parseFileName(fileName);
+  execute(fileName: string, _index?: number, _total?: number, file?: FileItem): string {
+    const { name, ext } = this.parseFileName(fileName, file);
     const { pattern, replace, includeExtension = false } = this.config;
 
     const re = new RegExp(pattern, this.getFlags());
@@ -1,5 +1,6 @@
 import { BaseRule } from './base-rule';
 import { ReplaceRuleParams } from '../types/rule';
+import { FileItem } from '../types/platform';
 
 /**
  * 字符串替换规则
@@ -7,8 +8,8 @@ import { ReplaceRuleParams } from '../types/rule';
 export class ReplaceRule extends BaseRule {
   protected config!: ReplaceRuleParams;
 
-  execute(fileName: string): string {
-    const { name, ext } = this.parseFileName(fileName);
+  execute(fileName: string, _index?: number, _total?: number, file?: FileItem): string {
+    const { name, ext } = this.parseFileName(fileName, file);
     const { search, replace, caseSensitive = false, global = false } = this.config;
 
     const flags = (global ? 'g' : '') + (caseSensitive ? '' : 'i');
@@ -1,4 +1,4 @@
-import { RuleConfig, RuleExecutor } from '../types/rule';
+import { OrganizeRuleParams, RuleConfig, RuleExecutor } from '../types/rule';
 import { ReplaceRule } from './replace';
 import { RegexRule } from './regex';
 import { NumberingRule } from './numbering';
@@ -6,6 +6,11 @@ import { PrefixRule } from './prefix';
 import { SuffixRule } from './suffix';
 import { SanitizeRule } from './sanitize';
 import { EpisodeExtractRule } from './episode-extract';
+import { CaseRule } from './case';
+import { TemplateRule } from './template';
+import { PipelineRule } from './pipeline';
+import { OrganizeRule } from './organize';
+import { SkipFoldersRule } from './skip-folders';
 
 /**
  * 规则工厂
@@ -14,10 +19,20 @@ import { EpisodeExtractRule } from './episode-extract';
 export class RuleFactory {
   /**
    * 创建规则实例
-   * @param config 规则配置
+   * @param config 规则配置（skipFolders 为 true 时文件夹保持原名）
    * @returns 规则执行器
    */
   static create(config: RuleConfig): RuleExecutor {
+    const rule = this.createRule(config);
+    return config.skipFolders ? new SkipFoldersRule(rule) : rule;
+  }
+
+  /**
+   * 按规则类型创建规则实例
+   * @param config 规则配置
+   * @returns 规则执行器
+   */
+  private static createRule(config: RuleConfig): RuleExecutor {
     switch (config.type) {
       case 'replace':
         return new ReplaceRule(config.params as any);
@@ -40,6 +55,18 @@ export class RuleFactory {
       case 'episodeExtract':
         return new EpisodeExtractRule(config.params as any);
 
+      case 'case':
+        return new CaseRule(config.params as any);
+
+      case 'template':
+        return new TemplateRule(config.params as any);
+
+      case 'organize':
+        return new OrganizeRule(config.params as OrganizeRuleParams);
+
+      case 'pipeline':
+        return new PipelineRule(config.params as any, (step) => this.create(step));
+
       default:
         throw new Error(`Unknown rule type: ${config.type}`);
     }
@@ -0,0 +1,49 @@
+import { RuleExecutor } from '../types/rule';
+import { FileItem } from '../types/platform';
+
+/**
+ * 跳过文件夹的规则包装（规则配置 skipFolders 为 true 时由 RuleFactory 创建）
+ * 文件夹保持原名；传给内部规则的索引和总数只按文件计算，编号和 {index}/{total} 不被文件夹占用
+ */
+export class SkipFoldersRule implements RuleExecutor {
+  /** 文件 ID -> 在本批文件（不含文件夹）中的索引（由 prepare 计算） */
+  private fileIndexById = new Map<string, number>();
+
+  /**
+   * @param inner 实际执行的规则
+   */
+  constructor(private readonly inner: RuleExecutor) {}
+
+  /**
+   * 只把文件（不含文件夹）交给内部规则预处理
+   * @param files 本次处理的全部文件
+   */
+  prepare(files: FileItem[]): void {
+    const onlyFiles = files.filter((file) => !file.isFolder);
+    this.fileIndexById = new Map(onlyFiles.map((file, index) => [file.id, index]));
+    this.inner.prepare?.(onlyFiles);
+  }
+
+  /**
+   * 文件夹返回原名，文件交给内部规则
+   * @param fileName 原文件名
+   * @param index 文件索引（未调用 prepare 时原样使用）
+   * @param total 文件总数（未调用 prepare 时原样使用）
+   * @param file 完整文件信息
+   * @returns 新文件名
+   */
+  execute(fileName: string, index: number, total: number, file?: FileItem): string {
+    if (file?.isFolder) {
+      return fileName;
+    }
+
+    const fileIndex = file ? this.fileIndexById.get(file.id) : undefined;
+    return fileIndex === undefined
+      ? this.inner.execute(fileName, index, total, file)
+      : this.inner.execute(fileName, fileIndex, this.fileIndexById.size, file);
+  }
+
+  validate(config: unknown): boolean {
+    return this.inner.validate(config);
+  }
+}
@@ -1,5 +1,6 @@
 import { RuleExecutor, SuffixRuleParams } from '../types/rule';
 import { parseFileName } from '../utils/helpers';
+import { FileItem } from '../types/platform';
 
 /**
  * 后缀规则
@@ -20,10 +21,11 @@ export class SuffixRule implements RuleExecutor {
    * @param fileName 原文件名
    * @param _index 文件索引（未使用）
    * @param _total 文件总数（未使用）
+   * @param file 文件信息（可选，文件夹名不拆分扩展名）
    * @returns 添加后缀后的文件名
    */
-  execute(fileName: string, _index: number, _total: number): string {
-    const { name, ext } = parseFileName(fileName);
+  execute(fileName: string, _index: number, _total: number, file?: FileItem): string {
+    const { name, ext } = parseFileName(fileName, file?.isFolder);
     const { suffix, separator } = this.config;
 
     return `${name}${separator}${suffix}${ext}`;
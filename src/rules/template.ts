@@ -0,0 +1,280 @@
+import { RuleExecutor, TemplateRuleParams } from '../types/rule';
+import { FileItem } from '../types/platform';
+import { parseFileName } from '../utils/helpers';
+
+/**
+ * 模板变量
+ */
+export const TEMPLATE_TOKENS = ['name', 'ext', 'index', 'total', 'mtime', 'size', 'parent', 'folder', 'relpath'] as const;
+
+export type TemplateToken = (typeof TEMPLATE_TOKENS)[number];
+
+/**
+ * 模板解析问题
+ * - unknown_token：不支持的变量
+ * - invalid_modifier：变量修饰符格式错误（如 {index:abc}、{size:XB}）
+ */
+export interface TemplateIssue {
+  code: 'unknown_token' | 'invalid_modifier';
+  /** 出错的原始变量文本（含花括号） */
+  token: string;
+}
+
+const TOKEN_PATTERN = /\{([^{}]*)\}/g;
+
+const EXT_TOKEN_PATTERN = /\{ext(:[^{}]*)?\}/;
+
+const TEXT_TOKENS: TemplateToken[] = ['name', 'ext', 'parent', 'folder', 'relpath'];
+
+const NUMBER_TOKENS: TemplateToken[] = ['index', 'total'];
+
+const SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+  TB: 1024 ** 4,
+};
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+/**
+ * 模板规则
+ * 使用文件元数据（名称、扩展名、序号、修改时间、大小、父目录）按模板生成新文件名
+ * 模板未包含 {ext} 时自动补上原扩展名
+ */
+export class TemplateRule implements RuleExecutor {
+  private template: string;
+
+  constructor(params: TemplateRuleParams) {
+    if (!this.validate(params)) {
+      throw new Error('Invalid rule configuration');
+    }
+    this.template = params.template;
+  }
+
+  /**
+   * 按模板生成文件名
+   * @param fileName 原文件名
+   * @param index 文件索引（{index} 从 1 开始）
+   * @param total 文件总数
+   * @param file 完整文件信息（缺失时 {mtime}/{size}/{parent}/{folder}/{relpath} 输出为空）
+   * @returns 新文件名
+   */
+  execute(fileName: string, index: number, total: number, file?: FileItem): string {
+    const { name, ext } = parseFileName(fileName, file?.isFolder);
+    const output = this.template.replace(TOKEN_PATTERN, (raw, body: string) =>
+      renderToken(raw, body, { name, ext, index: index + 1, total, file })
+    );
+
+    // 模板输出为空时保留原名，避免生成空文件名
+    if (!output.trim()) {
+      return fileName;
+    }
+
+    return EXT_TOKEN_PATTERN.test(this.template) || !ext ? output : output + ext;
+  }
+
+  /**
+   * 验证配置：模板非空，且所有变量均可识别
+   * @param config 配置对象
+   * @returns 是否有效
+   */
+  validate(config: any): boolean {
+    return (
+      typeof config === 'object' &&
+      config !== null &&
+      typeof config.template === 'string' &&
+      config.template.trim().length > 0 &&
+      findTemplateIssues(config.template).length === 0
+    );
+  }
+}
+
+/**
+ * 检查模板中的变量
+ * @param template 模板文本
+ * @param extraTokens 额外支持的文本变量（如整理规则的剧集变量）
+ * @returns 问题列表（为空表示模板有效）
+ */
+export function findTemplateIssues(template: string, extraTokens: readonly string[] = []): TemplateIssue[] {
+  const issues: TemplateIssue[] = [];
+
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    const [raw, body] = match;
+    const [token, ...modifiers] = body.split(':');
+
+    if (extraTokens.includes(token)) {
+      if (!isModifierValid('name', modifiers)) {
+        issues.push({ code: 'invalid_modifier', token: raw });
+      }
+    } else if (!(TEMPLATE_TOKENS as readonly string[]).includes(token)) {
+      issues.push({ code: 'unknown_token', token: raw });
+    } else if (!isModifierValid(token as TemplateToken, modifiers)) {
+      issues.push({ code: 'invalid_modifier', token: raw });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * 按模板渲染文本（不做扩展名补全，供整理规则的路径模板使用）
+ * @param template 模板文本
+ * @param values 内置变量的取值（index 从 1 开始）
+ * @param extraValues 额外文本变量的取值（支持截取修饰符）
+ * @returns 渲染结果
+ */
+export function renderTemplateText(
+  template: string,
+  values: TemplateValues,
+  extraValues: Record<string, string> = {}
+): string {
+  return template.replace(TOKEN_PATTERN, (raw, body: string) => {
+    const [token, ...modifiers] = body.split(':');
+    return Object.prototype.hasOwnProperty.call(extraValues, token)
+      ? sliceText(extraValues[token], modifiers)
+      : renderToken(raw, body, values);
+  });
+}
+
+function isModifierValid(token: TemplateToken, modifiers: string[]): boolean {
+  if (modifiers.length === 0) {
+    return true;
+  }
+
+  if (TEXT_TOKENS.includes(token)) {
+    return modifiers.length <= 2 && modifiers.every((value) => /^-?\d+$/.test(value));
+  }
+
+  if (NUMBER_TOKENS.includes(token)) {
+    return modifiers.length === 1 && /^\d+$/.test(modifiers[0]) && Number(modifiers[0]) <= 10;
+  }
+
+  if (token === 'size') {
+    return modifiers.length === 1 && modifiers[0].toUpperCase() in SIZE_UNITS;
+  }
+
+  // mtime 的格式串本身可能包含冒号（如 HH:mm），只要求非空
+  return token === 'mtime' && modifiers.join(':').length > 0;
+}
+
+/**
+ * 模板内置变量的取值
+ */
+export interface TemplateValues {
+  name: string;
+  ext: string;
+  index: number;
+  total: number;
+  file?: FileItem;
+}
+
+function renderToken(raw: string, body: string, values: TemplateValues): string {
+  const [token, ...modifiers] = body.split(':');
+
+  switch (token) {
+    case 'name':
+      return sliceText(values.name, modifiers);
+    case 'ext':
+      return sliceText(values.ext, modifiers);
+    case 'parent':
+      return sliceText(resolveParentName(values.file), modifiers);
+    case 'folder':
+      return sliceText(resolveFolderName(values.file), modifiers);
+    case 'relpath':
+      return sliceText(resolveRelativePath(values.file), modifiers);
+    case 'index':
+      return padNumber(values.index, modifiers[0]);
+    case 'total':
+      return padNumber(values.total, modifiers[0]);
+    case 'mtime':
+      return values.file ? formatDate(values.file.mtime, modifiers.join(':') || DEFAULT_DATE_FORMAT) : '';
+    case 'size':
+      return values.file ? formatSize(values.file.size, modifiers[0]) : '';
+    default:
+      return raw;
+  }
+}
+
+/**
+ * 截取文本：{name:start:length}，start 为负数时从末尾计算
+ */
+function sliceText(text: string, modifiers: string[]): string {
+  if (modifiers.length === 0) {
+    return text;
+  }
+
+  const chars = Array.from(text);
+  const start = Number(modifiers[0]);
+  const from = start < 0 ? Math.max(0, chars.length + start) : start;
+  const to = modifiers[1] === undefined ? chars.length : from + Number(modifiers[1]);
+  return chars.slice(from, to).join('');
+}
+
+function padNumber(value: number, digits?: string): string {
+  return digits ? String(value).padStart(Number(digits), '0') : String(value);
+}
+
+/**
+ * 格式化日期，支持 YYYY MM DD HH mm ss
+ */
+function formatDate(timestamp: number, format: string): string {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) {
+    return '';
+  }
+
+  const parts: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: String(date.getMonth() + 1).padStart(2, '0'),
+    DD: String(date.getDate()).padStart(2, '0'),
+    HH: String(date.getHours()).padStart(2, '0'),
+    mm: String(date.getMinutes()).padStart(2, '0'),
+    ss: String(date.getSeconds()).padStart(2, '0'),
+  };
+
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (part) => parts[part]);
+}
+
+/**
+ * 格式化大小：未指定单位时输出字节数，否则保留最多两位小数
+ */
+function formatSize(bytes: number, unit?: string): string {
+  if (!unit) {
+    return String(bytes);
+  }
+
+  const value = bytes / SIZE_UNITS[unit.toUpperCase()];
+  return String(Number(value.toFixed(2)));
+}
+
+/**
+ * 父目录名称：优先使用 parentName，其次从路径形式的 parentId（如百度网盘）中取最后一段
+ */
+function resolveParentName(file?: FileItem): string {
+  if (!file) {
+    return '';
+  }
+
+  if (file.parentName) {
+    return file.parentName;
+  }
+
+  return file.parentId.includes('/') ? file.parentId.split('/').filter(Boolean).pop() ?? '' : '';
+}
+
+/**
+ * 所在文件夹名称：递归加载时取相对路径的最后一段，起点目录下的文件取父目录名称
+ */
+function resolveFolderName(file?: FileItem): string {
+  const segments = file?.relativePath ? file.relativePath.split('/').filter(Boolean) : [];
+  return segments.length > 0 ? segments[segments.length - 1] : resolveParentName(file);
+}
+
+/**
+ * 相对路径：各级目录以 - 连接（文件名不能包含 /），起点目录下的文件为空
+ */
+function resolveRelativePath(file?: FileItem): string {
+  return file?.relativePath ? file.relativePath.split('/').filter(Boolean).join('-') : '';
+}
@@ -0,0 +1,157 @@
+import { I18nService } from '../utils/i18n';
+import { applyAppearanceToDocument, applyAppearanceToElement, getAppearanceMode } from '../utils/appearance';
+import { MockAdapter } from '../adapters/mock/mock-adapter';
+import { DEFAULT_MOCK_TREE } from '../adapters/mock/sample-tree';
+import type { MockFaultOptions, MockTreeNode } from '../types/mock';
+import type { PlatformAdapter } from '../types/platform';
+import type { AppearanceMode } from '../types/appearance';
+
+/**
+ * 沙盒扩展页脚本
+ *
+ * 在内存模拟网盘上挂载文件选择面板，用于试用规则、复现故障和离线运行 E2E 测试。
+ * 故障参数可通过 URL 查询参数预设：?latency=0&errorRate=10&rateLimitRate=5&conflicts=a.txt,b.txt
+ * （概率以百分比表示）
+ */
+
+type PanelElement = HTMLElement & { open: boolean; adapter: PlatformAdapter };
+
+const DEFAULT_LATENCY_MS = 300;
+
+let adapter: MockAdapter;
+let fileSelectorPanel: PanelElement | null = null;
+let appearanceMode: AppearanceMode = 'auto';
+
+/**
+ * Internationalize HTML elements with data-i18n attribute
+ */
+function localizeHTML() {
+  document.querySelectorAll('[data-i18n]').forEach((el) => {
+    const key = el.getAttribute('data-i18n');
+    if (key) {
+      el.textContent = I18nService.t(key);
+    }
+  });
+  document.title = `${I18nService.t('sandbox_page_title')} - CloudDrive Renamer`;
+}
+
+function getInput(id: string): HTMLInputElement {
+  return document.getElementById(id) as HTMLInputElement;
+}
+
+function parsePercent(value: string | null): number {
+  const percent = Number(value);
+  return Number.isFinite(percent) ? Math.min(Math.max(percent, 0), 100) : 0;
+}
+
+function parseNames(value: string | null): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 把 URL 查询参数填入故障表单
+ */
+function fillFaultFormFromQuery() {
+  const params = new URLSearchParams(location.search);
+
+  const latency = params.get('latency');
+  getInput('latency-input').value = latency !== null && Number(latency) >= 0 ? latency : String(DEFAULT_LATENCY_MS);
+  getInput('error-rate-input').value = String(parsePercent(params.get('errorRate')));
+  getInput('rate-limit-input').value = String(parsePercent(params.get('rateLimitRate')));
+  getInput('conflicts-input').value = parseNames(params.get('conflicts')).join(', ');
+}
+
+/**
+ * 读取故障表单
+ */
+function readFaultForm(): MockFaultOptions {
+  return {
+    latency: Math.max(Number(getInput('latency-input').value) || 0, 0),
+    errorRate: parsePercent(getInput('error-rate-input').value) / 100,
+    rateLimitRate: parsePercent(getInput('rate-limit-input').value) / 100,
+    conflictNames: parseNames(getInput('conflicts-input').value),
+  };
+}
+
+/**
+ * 渲染文件树（每个条目带 data-name，便于 E2E 测试断言）
+ */
+function renderFileTree() {
+  const treeEl = document.getElementById('file-tree');
+  if (!treeEl) return;
+
+  const buildItems = (nodes: MockTreeNode[]): HTMLLIElement[] =>
+    nodes.map((node) => {
+      const itemEl = document.createElement('li');
+      itemEl.dataset.name = node.name;
+      itemEl.textContent = `${node.children ? '📁' : '📄'} ${node.name}`;
+      if (node.children && node.children.length > 0) {
+        const childList = document.createElement('ul');
+        childList.append(...buildItems(node.children));
+        itemEl.appendChild(childList);
+      }
+      return itemEl;
+    });
+
+  treeEl.replaceChildren(...buildItems(adapter.getTree()));
+}
+
+/**
+ * 挂载并打开文件选择面板（与 content script 中的挂载方式一致）
+ */
+async function openFileSelectorPanel(): Promise<void> {
+  if (!fileSelectorPanel) {
+    await import('../content/components/file-selector-panel');
+
+    const panelEl = document.createElement('file-selector-panel') as PanelElement;
+    applyAppearanceToElement(panelEl, appearanceMode);
+    panelEl.adapter = adapter;
+    panelEl.open = false;
+    panelEl.addEventListener('panel-close', () => {
+      panelEl.open = false;
+    });
+    document.body.appendChild(panelEl);
+    fileSelectorPanel = panelEl;
+  }
+
+  fileSelectorPanel.open = true;
+}
+
+function bindEvents() {
+  const form = document.getElementById('fault-form') as HTMLFormElement | null;
+  form?.addEventListener('submit', (e) => {
+    e.preventDefault();
+    adapter.setFaults(readFaultForm());
+  });
+
+  document.getElementById('reset-button')?.addEventListener('click', () => {
+    adapter.reset(DEFAULT_MOCK_TREE);
+  });
+
+  document.getElementById('open-panel-button')?.addEventListener('click', () => {
+    void openFileSelectorPanel();
+  });
+}
+
+async function initPage() {
+  await I18nService.getCurrentLanguage();
+  localizeHTML();
+
+  appearanceMode = await getAppearanceMode();
+  applyAppearanceToDocument(appearanceMode);
+
+  fillFaultFormFromQuery();
+  adapter = new MockAdapter(readFaultForm());
+  adapter.onChange(renderFileTree);
+  renderFileTree();
+
+  bindEvents();
+}
+
+// 启动
+document.addEventListener('DOMContentLoaded', () => {
+  initPage();
+});
@@ -1,3 +1,6 @@
+import { RuleConfig } from './rule';
+import type { ErrorCategory } from './error';
+
 /**
  * 进度事件接口
  */
@@ -20,6 +23,10 @@ export interface ProgressEvent {
   status?: 'success' | 'failed';
   /** 失败原因（可选） */
   error?: string;
+  /** 失败原因的错误分类（可选） */
+  errorCategory?: ErrorCategory;
+  /** 是否为执行后校验发现名称未改变（可选） */
+  verificationFailed?: boolean;
 }
 
 /**
@@ -38,28 +45,60 @@ export interface BatchResults {
     fileId: string;
     file: any;
     error: string;
+    /** 错误分类（可选） */
+    category?: ErrorCategory;
+    /** 是否为执行后校验发现名称未改变（可选） */
+    verificationFailed?: boolean;
     index: number;
   }>;
 }
 
+/**
+ * 「重命名后校验文件名」开关的存储键
+ */
+export const VERIFY_AFTER_RENAME_STORAGE_KEY = 'verify_after_rename';
+
+/**
+ * 崩溃恢复状态的存储键前缀，完整键为 `前缀 + 平台:目录:操作ID`
+ */
+export const OPERATION_STATE_KEY_PREFIX = 'rename_operation_state:';
+
+/**
+ * 崩溃恢复有效期（分钟）的存储键，未设置时使用 DEFAULT_CRASH_RECOVERY_MAX_AGE_MINUTES
+ */
+export const CRASH_RECOVERY_MAX_AGE_STORAGE_KEY = 'crash_recovery_max_age_minutes';
+
+/**
+ * 默认崩溃恢复有效期：最后一次进度更新后 24 小时
+ */
+export const DEFAULT_CRASH_RECOVERY_MAX_AGE_MINUTES = 24 * 60;
+
 /**
  * 操作状态(用于崩溃恢复)
  */
 export interface OperationState {
-  /** 时间戳 */
+  /** 操作ID（同一平台、同一目录下的多次操作互不覆盖） */
+  operationId: string;
+  /** 开始时间戳 */
   timestamp: number;
+  /** 最后一次进度更新的时间戳（有效期从这里开始计算） */
+  updatedAt?: number;
   /** 平台 */
   platform: string;
+  /** 操作所在目录标识 */
+  directoryKey: string;
   /** 文件列表 */
   files: any[];
-  /** 规则配置 */
-  rule: any;
+  /** 规则配置（规则链会完整保存所有步骤） */
+  rule: RuleConfig;
   /** 已完成的索引 */
   completed: number[];
   /** 失败的索引 */
   failed: number[];
   /** 自定义任务列表（可选） */
   tasks?: Task[];
+  /** 两阶段重命名中仍处于临时名的文件：文件 ID -> 临时名（可选） */
+  tempNames?: Record<string, string>;
 }
 
 /**
@@ -72,4 +111,6 @@ export interface Task {
   newName: string;
   /** 索引 */
   index: number;
+  /** 是否为用户手动指定的新文件名（崩溃恢复时按原样恢复，不按规则重算） */
+  manual?: boolean;
 }
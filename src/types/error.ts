@@ -0,0 +1,43 @@
+/**
+ * 错误分类
+ * 各平台适配器把自己的错误码归入这些类别，执行引擎和 UI 据此决定处理方式：
+ * - throttled：被平台限流，退避（遵守 Retry-After）后重试
+ * - auth_expired：登录失效，暂停执行等待用户重新登录
+ * - name_conflict：目标名称已存在
+ * - invalid_name：平台不接受该文件名（非法字符、过长等）
+ * - not_found：文件或目录已不存在
+ * - transient：网络或服务器的临时错误，退避后重试
+ * - fatal：重试也无法成功的错误（无权限、参数错误、空间不足等），立即失败
+ */
+export type ErrorCategory =
+  | 'throttled'
+  | 'auth_expired'
+  | 'name_conflict'
+  | 'invalid_name'
+  | 'not_found'
+  | 'transient'
+  | 'fatal';
+
+/**
+ * 错误分类结果
+ */
+export interface ErrorClassification {
+  /** 错误类别 */
+  category: ErrorCategory;
+  /** 平台要求的重试等待时间（毫秒，来自 Retry-After 等提示） */
+  retryAfterMs?: number;
+}
+
+/**
+ * 熔断原因（执行引擎因此自动暂停）
+ */
+export interface CircuitTrip {
+  /** 触发熔断的错误分类 */
+  category: ErrorCategory;
+  /** 该分类的连续失败次数 */
+  failures: number;
+  /** 最后一次失败的错误消息 */
+  message: string;
+  /** 最后一次失败的文件ID（重新检查时用于探测） */
+  fileId?: string;
+}
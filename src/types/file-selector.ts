@@ -4,7 +4,7 @@ import { RuleConfig } from './rule';
 /**
  * File type categories for filtering
  */
-export type FileType = 'video' | 'image' | 'audio' | 'document' | 'other';
+export type FileType = 'video' | 'image' | 'audio' | 'document' | 'other' | 'folder';
 
 /**
  * Preview item for the preview panel
@@ -21,6 +21,24 @@ export interface PreviewItem {
   done?: boolean;
   /** Error message if rename failed */
   error?: string;
+  /** Whether the new name was edited manually (kept across rule changes) */
+  manual?: boolean;
+  /** Destination folder of the organize step, relative to the current folder */
+  destination?: string;
+}
+
+/**
+ * Recursive (subfolder) loading settings chosen in the file list panel
+ */
+export interface RecursiveScanSettings {
+  /** Whether subfolders are loaded */
+  enabled: boolean;
+  /** Maximum subfolder depth below the current directory */
+  maxDepth: number;
+  /** Folder include patterns as typed by the user (comma separated) */
+  include: string;
+  /** Folder exclude patterns as typed by the user (comma separated) */
+  exclude: string;
 }
 
 /**
@@ -34,6 +52,8 @@ export interface FileSelectorState {
   uncheckList: Set<string>;
   /** Map of file ID to new filename */
   newNameMap: Map<string, string>;
+  /** Set of file IDs whose new name was edited manually */
+  manualNameIds: Set<string>;
   /** Set of file IDs with naming conflicts */
   conflictIds: Set<string>;
   /** Current search query */
@@ -53,9 +73,13 @@ export interface FileSelectorEvents {
   'deselect-all': void;
   'search': { query: string };
   'type-filter': { type: FileType | 'all' };
+  'scan-settings-change': RecursiveScanSettings;
+  'scan-cancel': void;
   'config-change': RuleConfig;
   'execute': void;
+  'name-override': { fileId: string; newName: string };
   'retry': void;
+  'verify-change': { enabled: boolean };
   'back': void;
   'panel-close': void;
 }
@@ -0,0 +1,44 @@
+/**
+ * 模拟网盘（沙盒）相关类型定义
+ */
+
+/**
+ * 模拟文件树节点（带 children 的节点为文件夹）
+ */
+export interface MockTreeNode {
+  /** 文件或文件夹名称 */
+  name: string;
+  /** 文件大小（字节，默认 0） */
+  size?: number;
+  /** 修改时间戳（毫秒，默认为创建适配器的时间） */
+  mtime?: number;
+  /** 子节点（存在即为文件夹） */
+  children?: MockTreeNode[];
+  /** 是否在 getSelectedFiles 中视为已选中 */
+  selected?: boolean;
+}
+
+/**
+ * 故障注入配置
+ * 概率取值 0~1；故障只作用于写操作（重命名、移动、创建文件夹），延迟作用于所有请求
+ */
+export interface MockFaultOptions {
+  /** 每个请求的延迟（毫秒），传入 [最小, 最大] 时在区间内随机 */
+  latency?: number | [number, number];
+  /** 写操作返回服务器错误（500，可重试）的概率 */
+  errorRate?: number;
+  /** 写操作返回限流（429，可重试）的概率 */
+  rateLimitRate?: number;
+  /** 服务器视为已被占用的名称：重命名为这些名称时返回 409，冲突检测也报告冲突 */
+  conflictNames?: string[];
+}
+
+/**
+ * 模拟适配器配置
+ */
+export interface MockAdapterOptions extends MockFaultOptions {
+  /** 初始文件树（默认使用沙盒示例文件树） */
+  tree?: MockTreeNode[];
+  /** 随机数来源（测试中可传入固定序列以复现故障） */
+  random?: () => number;
+}
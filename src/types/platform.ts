@@ -1,7 +1,10 @@
+import type { ErrorClassification } from './error';
+import type { RateLimitConfig } from './rate-limit';
+
 /**
  * 云盘平台类型
  */
-export type PlatformName = 'quark' | 'aliyun' | 'baidu';
+export type PlatformName = 'quark' | 'aliyun' | 'baidu' | '115' | '123pan' | 'tianyi' | 'webdav' | 'mock';
 
 /**
  * 文件项接口
@@ -19,6 +22,60 @@ export interface FileItem {
   size: number;
   /** 修改时间戳(毫秒) */
   mtime: number;
+  /** 是否为文件夹（各平台适配器均会填充；未填充时按文件处理） */
+  isFolder?: boolean;
+  /** 文件夹内的直接子项数量（仅文件夹，平台接口提供时填充） */
+  childCount?: number;
+  /** 父目录名称（可选，平台能提供时填充，供模板规则 {parent} 使用） */
+  parentName?: string;
+  /**
+   * 相对于递归起点目录的文件夹路径（如 "Season 1/Extras"，起点目录下为空字符串）
+   * 仅递归加载时填充，供分组展示和模板规则 {folder}/{relpath} 使用
+   */
+  relativePath?: string;
+}
+
+/**
+ * 递归加载的默认最大深度（起点目录之下的子目录层数）
+ */
+export const DEFAULT_RECURSIVE_MAX_DEPTH = 3;
+
+/**
+ * 递归加载进度
+ */
+export interface RecursiveListProgress {
+  /** 已扫描的目录数（含起点目录） */
+  foldersScanned: number;
+  /** 已找到的文件数 */
+  filesFound: number;
+  /** 正在扫描的目录（相对路径，起点目录为空字符串） */
+  currentPath: string;
+}
+
+/**
+ * 递归加载选项
+ */
+export interface RecursiveListOptions {
+  /** 最大深度（0 表示只加载起点目录，默认 DEFAULT_RECURSIVE_MAX_DEPTH） */
+  maxDepth?: number;
+  /** 只进入匹配这些模式的子目录（为空表示全部进入；支持 * 和 ? 通配符） */
+  includeFolders?: string[];
+  /** 不进入匹配这些模式的子目录（优先于 includeFolders） */
+  excludeFolders?: string[];
+  /** 取消信号（取消后抛出 name 为 AbortError 的错误） */
+  signal?: AbortSignal;
+  /** 进度回调（每扫描完一个目录触发一次） */
+  onProgress?: (progress: RecursiveListProgress) => void;
+}
+
+/**
+ * 单个目录的列表结果（递归加载时由各平台适配器提供）
+ */
+export interface DirectoryListing {
+  /** 目录下的文件 */
+  files: FileItem[];
+  /** 目录下的子目录 */
+  folders: Array<{ id: string; name: string }>;
 }
 
 /**
@@ -37,6 +94,36 @@ export interface RenameResult {
   reason?: string;
 }
 
+/**
+ * 批量重命名中的单个文件
+ */
+export interface RenameBatchItem {
+  /** 文件ID */
+  fileId: string;
+  /** 新文件名 */
+  newName: string;
+}
+
+/**
+ * 批量重命名中单个文件的结果
+ */
+export interface RenameBatchResult extends RenameResult {
+  /** 文件ID */
+  fileId: string;
+}
+
+/**
+ * 批量移动结果接口
+ */
+export interface MoveResult {
+  /** 是否全部移动成功 */
+  success: boolean;
+  /** 移动失败的文件 ID（部分失败时提供；success 为 false 且未提供时视为全部失败） */
+  failedIds?: string[];
+  /** 错误信息 */
+  error?: Error;
+}
+
 /**
  * 执行重命名后尝试同步页面文件列表的结果
  */
@@ -49,6 +136,43 @@ export interface PageSyncResult {
   message?: string;
 }
 
+/**
+ * 批量重命名接口默认每批文件数
+ */
+export const DEFAULT_RENAME_BATCH_SIZE = 100;
+
+/**
+ * 文件名默认最大长度（字符数）
+ */
+export const DEFAULT_MAX_NAME_LENGTH = 255;
+
+/**
+ * 平台能力描述
+ * UI 和执行计划据此隐藏或调整平台不支持的功能，而不是在执行时才失败
+ */
+export interface PlatformCapabilities {
+  /** 是否提供批量重命名接口（一次请求重命名多个文件） */
+  batchRename: boolean;
+  /** 是否支持重命名文件夹 */
+  folderRename: boolean;
+  /** 文件名是否区分大小写 */
+  caseSensitive: boolean;
+  /** 是否接受仅修改大小写的重命名（为 false 时经临时名中转） */
+  caseOnlyRename: boolean;
+  /** 文件名最大长度（字符数，含扩展名） */
+  maxNameLength: number;
+  /** 是否支持递归加载子目录 */
+  recursiveListing: boolean;
+  /** 是否支持创建文件夹和移动文件（整理模式） */
+  move: boolean;
+  /** 是否提供平台原生的撤销重命名 */
+  nativeUndo: boolean;
+  /** 重命名后能否同步页面文件列表 */
+  pageSync: boolean;
+  /** 文件标识方式：id 为平台文件 ID，path 为完整路径（如 WebDAV） */
+  fileIdKind: 'id' | 'path';
+}
+
 /**
  * 平台适配器接口
  * 所有云盘平台必须实现此接口
@@ -57,6 +181,11 @@ export interface PlatformAdapter {
   /** 平台名称 */
   readonly platform: PlatformName;
 
+  /**
+   * 平台能力描述（可选，未提供时由 getPlatformCapabilities 按配置和已实现的方法推断）
+   */
+  readonly capabilities?: PlatformCapabilities;
+
   /**
    * 获取当前选中的文件列表
    * @returns 选中的文件数组
@@ -74,6 +203,17 @@ export interface PlatformAdapter {
    */
   getAllFiles(parentId?: string): Promise<FileItem[]>;
 
+  /**
+   * 递归获取目录及其子目录下的所有文件（可选实现）
+   * 返回的文件均填充 relativePath，parentId 为文件实际所在目录
+   *
+   * @param parentId 起点目录ID（可选，默认当前目录）
+   * @param options 深度、目录过滤、取消与进度选项
+   * @returns 完整的文件列表（按目录广度优先排列）
+   * @throws {Error} 当API请求失败或被取消时
+   */
+  getAllFilesRecursive?(parentId?: string, options?: RecursiveListOptions): Promise<FileItem[]>;
+
   /**
    * 重命名单个文件
    * @param fileId 文件ID
@@ -82,6 +222,35 @@ export interface PlatformAdapter {
    */
   renameFile(fileId: string, newName: string): Promise<RenameResult>;
 
+  /**
+   * 通过平台的批量接口一次重命名多个文件（可选实现）
+   * 每批文件数不超过 PlatformConfig.renameBatchSize
+   *
+   * @param batch 待重命名的文件
+   * @returns 每个文件的结果（与 batch 一一对应）
+   * @throws {Error} 当整批请求失败时
+   */
+  renameFiles?(batch: RenameBatchItem[]): Promise<RenameBatchResult[]>;
+
+  /**
+   * 在指定目录下创建文件夹（可选实现，整理模式使用）
+   * 已存在同名文件夹时直接返回该文件夹
+   *
+   * @param name 文件夹名称
+   * @param parentId 父目录ID
+   * @returns 文件夹的目录ID（可作为其子项的 parentId）
+   * @throws {Error} 当API请求失败时
+   */
+  createFolder?(name: string, parentId: string): Promise<string>;
+
+  /**
+   * 将文件移动到指定目录（可选实现，整理模式及其撤销使用）
+   * @param fileIds 文件ID列表
+   * @param targetParentId 目标目录ID
+   * @returns 移动结果
+   */
+  moveFiles?(fileIds: string[], targetParentId: string): Promise<MoveResult>;
+
   /**
    * 获取当前目录 scope 键
    * 用于判断撤销记录是否仍属于当前目录
@@ -116,6 +285,15 @@ export interface PlatformAdapter {
    * @returns 平台特定配置
    */
   getConfig(): PlatformConfig;
+
+  /**
+   * 将平台错误归类（可选实现，未提供时按错误类型和消息通用分类）
+   * 执行引擎据此决定退避重试、暂停或立即失败
+   *
+   * @param error 适配器方法抛出的错误
+   * @returns 错误分类
+   */
+  classifyError?(error: unknown): ErrorClassification;
 }
 
 /**
@@ -126,10 +304,20 @@ export interface PlatformConfig {
   platform: PlatformName;
   /** API请求间隔(毫秒) */
   requestInterval: number;
+  /** 令牌桶限流配置（未设置时按 requestInterval 换算，容量为 1） */
+  rateLimit?: RateLimitConfig;
   /** 最大并发请求数（用于批量重命名等操作） */
   maxConcurrent?: number;
+  /** 批量重命名接口每批最多的文件数（仅实现 renameFiles 的平台使用，默认 DEFAULT_RENAME_BATCH_SIZE） */
+  renameBatchSize?: number;
   /** 最大重试次数 */
   maxRetries: number;
   /** 请求超时时间(毫秒) */
   timeout?: number;
+  /** 文件名是否区分大小写（未设置视为区分） */
+  caseSensitive?: boolean;
+  /** 是否接受仅修改大小写的重命名（为 false 时经临时名中转，未设置视为接受） */
+  caseOnlyRename?: boolean;
+  /** 文件名最大长度（字符数，含扩展名，默认 DEFAULT_MAX_NAME_LENGTH） */
+  maxNameLength?: number;
 }
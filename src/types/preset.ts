@@ -0,0 +1,76 @@
+import type { RuleConfig } from './rule';
+
+/**
+ * 规则预设
+ */
+export interface RulePreset {
+  /** 预设 ID */
+  id: string;
+  /** 预设名称（库内唯一） */
+  name: string;
+  /** 完整规则配置（规则链会保存所有步骤） */
+  rule: RuleConfig;
+  /** 创建时间戳 */
+  createdAt: number;
+  /** 最后更新时间戳 */
+  updatedAt: number;
+}
+
+/**
+ * 预设导出文件中的单个条目
+ */
+export interface RulePresetFileEntry {
+  name: string;
+  rule: RuleConfig;
+}
+
+/**
+ * 预设导出文件（带版本号，便于团队共享）
+ */
+export interface RulePresetFile {
+  format: typeof RULE_PRESET_FILE_FORMAT;
+  version: number;
+  exportedAt: number;
+  presets: RulePresetFileEntry[];
+}
+
+/**
+ * 预设校验问题代码
+ */
+export type RulePresetIssueCode =
+  | 'invalid_file'
+  | 'unsupported_version'
+  | 'invalid_entry'
+  | 'unknown_rule_type'
+  | 'invalid_params';
+
+/**
+ * 预设校验问题
+ */
+export interface RulePresetIssue {
+  code: RulePresetIssueCode;
+  /** 预设名称（文件级问题时为空） */
+  presetName?: string;
+  /** 规则链中的步骤序号（从 1 开始，非规则链时为空） */
+  step?: number;
+  /** 附加信息（如未知的规则类型） */
+  detail?: string;
+}
+
+/**
+ * 解析导入文件的结果
+ */
+export interface RulePresetImportResult {
+  /** 通过校验的预设 */
+  presets: RulePresetFileEntry[];
+  /** 未通过校验的问题列表 */
+  issues: RulePresetIssue[];
+}
+
+export const RULE_PRESET_FILE_FORMAT = 'cloud-drive-renamer-presets';
+
+export const RULE_PRESET_FILE_VERSION = 1;
+
+export const PRESET_STORAGE_KEYS = {
+  LIBRARY: 'rule_presets',
+} as const;
@@ -0,0 +1,40 @@
+import type { PlatformName } from './platform';
+
+/**
+ * 令牌桶限流配置
+ */
+export interface RateLimitConfig {
+  /** 每秒补充的令牌数（即长期平均的每秒请求数） */
+  requestsPerSecond: number;
+  /** 桶容量（空闲后允许连续发出的请求数） */
+  burst: number;
+}
+
+/**
+ * 用户在存储中覆盖的各平台限流配置（优先于适配器自带的配置）
+ */
+export type RateLimitOverrides = Partial<Record<PlatformName, RateLimitConfig>>;
+
+/**
+ * 限流覆盖配置的存储键
+ */
+export const RATE_LIMIT_STORAGE_KEY = 'rate_limits';
+
+/**
+ * 校验限流配置（速率和容量必须为正数）
+ */
+export function isRateLimitConfig(value: unknown): value is RateLimitConfig {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const { requestsPerSecond, burst } = value as Record<string, unknown>;
+  return (
+    typeof requestsPerSecond === 'number' &&
+    Number.isFinite(requestsPerSecond) &&
+    requestsPerSecond > 0 &&
+    typeof burst === 'number' &&
+    Number.isFinite(burst) &&
+    burst >= 1
+  );
+}
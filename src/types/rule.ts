@@ -1,14 +1,26 @@
+import type { FileItem } from './platform';
+
+/**
+ * 所有已知的重命名规则类型（运行时可用于校验导入的配置）
+ */
+export const RULE_TYPES = [
+  'replace',
+  'regex',
+  'prefix',
+  'suffix',
+  'numbering',
+  'sanitize',
+  'episodeExtract',
+  'case',
+  'template',
+  'organize',
+  'pipeline',
+] as const;
+
 /**
  * 重命名规则类型
  */
-export type RuleType =
-  | 'replace'
-  | 'regex'
-  | 'prefix'
-  | 'suffix'
-  | 'numbering'
-  | 'sanitize'
-  | 'episodeExtract';
+export type RuleType = (typeof RULE_TYPES)[number];
 
 /**
  * 规则配置接口
@@ -18,6 +30,8 @@ export interface RuleConfig {
   type: RuleType;
   /** 规则参数 */
   params: Record<string, any>;
+  /** 是否跳过文件夹（为 true 时文件夹保持原名，也不参与编号；规则链中以最外层配置为准） */
+  skipFolders?: boolean;
 }
 
 /**
@@ -79,11 +93,20 @@ export interface SuffixRuleParams {
   separator?: string;
 }
 
+/**
+ * 编号排序依据
+ * - manual：按面板中的当前顺序
+ * - name：按文件名自然排序（ep2 排在 ep10 之前）
+ * - mtime：按修改时间
+ * - size：按文件大小
+ */
+export type NumberingSortBy = 'manual' | 'name' | 'mtime' | 'size';
+
 /**
  * 编号规则参数
  */
 export interface NumberingRuleParams {
-  /** 起始编号 */
+  /** 起始编号（可为负数） */
   startNumber: number;
   /** 位数 */
   digits: number;
@@ -93,6 +116,16 @@ export interface NumberingRuleParams {
   format: string;
   /** 分隔符 */
   separator: string;
+  /** 排序依据（默认 manual） */
+  sortBy?: NumberingSortBy;
+  /** 排序方向（默认 asc，sortBy 为 manual 时忽略） */
+  sortOrder?: 'asc' | 'desc';
+  /** 步长（默认 1，不能为 0） */
+  step?: number;
+  /** 是否按扩展名分别从起始编号重新计数 */
+  resetPerExtension?: boolean;
+  /** 是否按所在文件夹分别从起始编号重新计数（递归加载多个子目录时使用） */
+  resetPerFolder?: boolean;
 }
 
 /**
@@ -125,6 +158,65 @@ export interface EpisodeExtractRuleParams {
   helperPost?: string;
 }
 
+/**
+ * 大小写转换模式
+ */
+export type CaseMode = 'upper' | 'lower' | 'title' | 'sentence' | 'camel' | 'snake' | 'kebab';
+
+/**
+ * 大小写转换规则参数
+ */
+export interface CaseRuleParams {
+  /** 转换模式 */
+  mode: CaseMode;
+  /** 是否同时转换扩展名（upper 转为大写，其它模式转为小写） */
+  includeExtension?: boolean;
+  /** 标题模式下保持小写的词（逗号或空格分隔，未提供时使用默认列表） */
+  stopWords?: string;
+}
+
+/**
+ * 模板规则参数
+ */
+export interface TemplateRuleParams {
+  /**
+   * 输出模板，支持变量：
+   * {name} {ext} {index} {total} {mtime:YYYY-MM-DD} {size:MB} {parent} {folder} {relpath}
+   * 文本变量支持截取 {name:start:length}，数字变量支持补零 {index:3}
+   */
+  template: string;
+}
+
+/**
+ * 整理规则参数
+ * 整理步骤不修改文件名，而是把文件移动到按模板生成的目录中
+ */
+export interface OrganizeRuleParams {
+  /**
+   * 目标路径模板（相对于当前目录，以 / 分隔各级目录），支持模板规则的全部变量
+   * 以及剧集变量 {prefix} {season} {episode}（取自规则链中的剧集提取步骤）
+   * 例如 "{prefix}/Season {season}"
+   */
+  pathTemplate: string;
+}
+
+/**
+ * 规则链中的单个步骤
+ */
+export interface PipelineStep extends RuleConfig {
+  /** 是否启用（默认 true，禁用的步骤在执行时被跳过） */
+  enabled?: boolean;
+}
+
+/**
+ * 规则链参数
+ * 按顺序执行每个启用的步骤，前一步的输出作为后一步的输入
+ */
+export interface PipelineRuleParams {
+  /** 步骤列表（不支持嵌套规则链） */
+  steps: PipelineStep[];
+}
+
 /**
  * 规则执行器接口
  */
@@ -134,9 +226,17 @@ export interface RuleExecutor {
    * @param fileName 原文件名
    * @param index 文件索引
    * @param total 文件总数
+   * @param file 完整文件信息（可选，供需要大小、修改时间等元数据的规则使用）
    * @returns 新文件名
    */
-  execute(fileName: string, index: number, total: number): string;
+  execute(fileName: string, index: number, total: number, file?: FileItem): string;
+
+  /**
+   * 预处理整批文件（可选）
+   * 需要整批信息的规则（如按排序编号）在此预先计算；调用方应在 execute 前以同一批文件调用
+   * @param files 本次处理的全部文件
+   */
+  prepare?(files: FileItem[]): void;
 
   /**
    * 验证配置
@@ -1,9 +1,12 @@
 import { type DiagnosticExportPayload, type DiagnosticLogEntry } from './diagnostic';
+import { type PlatformName } from './platform';
+import { type RateLimitConfig } from './rate-limit';
 
 export const RUNTIME_MESSAGE_TYPES = {
   APPEND_DIAGNOSTIC_LOG: 'APPEND_DIAGNOSTIC_LOG',
   GET_DIAGNOSTIC_EXPORT: 'GET_DIAGNOSTIC_EXPORT',
   OPEN_EXTERNAL_URL: 'OPEN_EXTERNAL_URL',
+  ACQUIRE_RATE_LIMIT: 'ACQUIRE_RATE_LIMIT',
 } as const;
 
 export type RuntimeMessageType =
@@ -23,10 +26,18 @@ export interface OpenExternalUrlMessage {
   url: string;
 }
 
+export interface AcquireRateLimitMessage {
+  type: typeof RUNTIME_MESSAGE_TYPES.ACQUIRE_RATE_LIMIT;
+  platform: PlatformName;
+  limits: RateLimitConfig;
+  slowdown?: number;
+}
+
 export type RuntimeMessage =
   | AppendDiagnosticLogMessage
   | GetDiagnosticExportMessage
-  | OpenExternalUrlMessage;
+  | OpenExternalUrlMessage
+  | AcquireRateLimitMessage;
 
 export interface RuntimeSuccessResponse {
   success: true;
@@ -36,6 +47,11 @@ export interface DiagnosticExportResponse {
   payload: DiagnosticExportPayload;
 }
 
+export interface RateLimitLeaseResponse {
+  success: true;
+  delayMs: number;
+}
+
 export interface RuntimeErrorResponse {
   success: false;
   error: string;
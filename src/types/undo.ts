@@ -1,10 +1,30 @@
 import { PlatformName } from './platform';
+import { RuleConfig } from './rule';
+
+/**
+ * 整理模式的移动记录
+ */
+export interface UndoMoveRecord {
+  /** 移动前所在目录 ID（撤销时移回该目录） */
+  fromParentId: string;
+  /** 移动后所在目录 ID */
+  toParentId: string;
+  /** 移动前相对于操作目录的路径（操作目录为空字符串） */
+  fromPath: string;
+  /** 移动后相对于操作目录的路径 */
+  toPath: string;
+}
 
 export interface UndoRenameItem {
   fileId: string;
   original: string;
+  /** 重命名后的名称（只移动未改名时与 original 相同） */
   renamed: string;
   index: number;
+  /** 文件所在目录（仅递归加载的子目录文件记录，撤销时在该目录检测冲突） */
+  parentId?: string;
+  /** 整理模式移动记录（撤销时先移回原目录再改回原名） */
+  move?: UndoMoveRecord;
 }
 
 export interface LastRenameOperation {
@@ -14,3 +34,20 @@ export interface LastRenameOperation {
   updatedAt: number;
   items: UndoRenameItem[];
 }
+
+/**
+ * 重命名日志条目
+ * 每次批量重命名（含随后的重试）对应一条，持久化到 chrome.storage.local
+ */
+export interface RenameJournalEntry extends LastRenameOperation {
+  id: string;
+  /** 执行时使用的规则配置 */
+  rule: RuleConfig | null;
+}
+
+export const RENAME_JOURNAL_STORAGE_KEYS = {
+  ENTRIES: 'rename_journal',
+} as const;
+
+/** 日志最多保留的条目数（超出后丢弃最旧的） */
+export const RENAME_JOURNAL_MAX_ENTRIES = 50;
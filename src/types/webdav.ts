@@ -0,0 +1,37 @@
+/**
+ * WebDAV 连接相关类型定义
+ */
+
+/**
+ * 用户配置的 WebDAV 连接（如 NAS 的 WebDAV 服务或 Alist 的 /dav）
+ */
+export interface WebDAVConnection {
+  /** 服务地址，如 http://192.168.1.10:5244/dav */
+  endpoint: string;
+  /** 用户名（匿名访问时为空字符串） */
+  username: string;
+  /** 密码 */
+  password: string;
+}
+
+/**
+ * WebDAV 连接的存储键
+ */
+export const WEBDAV_CONNECTION_STORAGE_KEY = 'webdav_connection';
+
+/**
+ * 校验存储中读取的连接配置
+ * @param value 待校验的值
+ */
+export function isWebDAVConnection(value: unknown): value is WebDAVConnection {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const connection = value as Record<string, unknown>;
+  return (
+    typeof connection.endpoint === 'string' &&
+    typeof connection.username === 'string' &&
+    typeof connection.password === 'string'
+  );
+}
@@ -0,0 +1,29 @@
+import type { ErrorCategory } from '../types/error';
+import { I18nService } from './i18n';
+
+/**
+ * 获取错误分类的本地化说明
+ * @param category 错误分类
+ */
+export function getErrorCategoryMessage(category: ErrorCategory): string {
+  return I18nService.t(`error_category_${category}`);
+}
+
+/**
+ * 组合执行失败的展示文本：分类说明（或校验失败说明）在前，平台返回的原始错误在后
+ * @param message 原始错误消息
+ * @param category 错误分类（缺省时只显示原始消息）
+ * @param verificationFailed 是否为执行后校验发现名称未改变
+ */
+export function formatExecutionError(message?: string, category?: ErrorCategory, verificationFailed = false): string {
+  const label = verificationFailed
+    ? I18nService.t('error_verification_failed')
+    : category
+      ? getErrorCategoryMessage(category)
+      : null;
+  if (!label) {
+    return message || I18nService.t('error_unknown');
+  }
+
+  return message && message !== label ? `${label}: ${message}` : label;
+}
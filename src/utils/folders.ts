@@ -0,0 +1,59 @@
+/**
+ * 解析用户输入的目录模式列表（逗号、分号或换行分隔，忽略空项）
+ * @param text 输入文本
+ * @returns 模式列表
+ */
+export function parseFolderPatterns(text: string): string[] {
+  return text
+    .split(/[,;\n]/)
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 判断目录是否匹配模式（忽略大小写，支持 * 和 ? 通配符）
+ * 模式包含 / 时匹配相对路径，否则匹配目录名
+ * @param pattern 模式
+ * @param name 目录名
+ * @param relativePath 目录相对于起点目录的路径
+ */
+export function matchesFolderPattern(pattern: string, name: string, relativePath: string): boolean {
+  const source = pattern
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  const target = pattern.includes('/') ? relativePath : name;
+  return new RegExp(`^${source}$`, 'i').test(target);
+}
+
+/**
+ * 判断目录是否匹配任一模式
+ * @param patterns 模式列表
+ * @param name 目录名
+ * @param relativePath 目录相对于起点目录的路径
+ */
+export function matchesAnyFolderPattern(patterns: string[], name: string, relativePath: string): boolean {
+  return patterns.some((pattern) => matchesFolderPattern(pattern, name, relativePath));
+}
+
+const folderCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * 按相对路径分组排列文件（起点目录在前，子目录按自然顺序；同一目录内保持原顺序）
+ * 没有文件来自子目录时原样返回副本
+ * @param files 文件列表
+ * @returns 分组后的文件列表
+ */
+export function groupFilesByFolder<T extends { relativePath?: string }>(files: T[]): T[] {
+  if (!files.some((file) => file.relativePath)) {
+    return files.slice();
+  }
+
+  return files
+    .map((file, index) => ({ file, index }))
+    .sort(
+      (a, b) =>
+        folderCollator.compare(a.file.relativePath ?? '', b.file.relativePath ?? '') || a.index - b.index
+    )
+    .map(({ file }) => file);
+}
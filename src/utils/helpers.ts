@@ -1,9 +1,14 @@
 /**
  * 解析文件名为名称和扩展名
  * @param fullName 完整文件名
+ * @param isFolder 是否为文件夹（文件夹名中的点不视为扩展名）
  * @returns 名称和扩展名
  */
-export function parseFileName(fullName: string): { name: string; ext: string } {
+export function parseFileName(fullName: string, isFolder = false): { name: string; ext: string } {
+  if (isFolder) {
+    return { name: fullName, ext: '' };
+  }
+
   const lastDot = fullName.lastIndexOf('.');
   if (lastDot === -1 || lastDot === 0 || lastDot === fullName.length - 1) {
     return { name: fullName, ext: '' };
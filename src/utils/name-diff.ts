@@ -0,0 +1,122 @@
+/**
+ * 文件名差异片段
+ * - equal：新旧文件名共有的部分
+ * - delete：仅在原文件名中（被删除）
+ * - insert：仅在新文件名中（新插入）
+ */
+export interface NameDiffSegment {
+  type: 'equal' | 'delete' | 'insert';
+  text: string;
+}
+
+const MAX_CACHE_SIZE = 2000;
+
+const diffCache = new Map<string, NameDiffSegment[]>();
+
+/**
+ * 计算两个文件名的字符级差异
+ * 先去掉公共前缀/后缀，再对中间部分做 LCS，结果按类型合并为连续片段。
+ * 结果会被缓存，虚拟列表反复渲染同一行时无需重复计算。
+ * @param original 原文件名
+ * @param renamed 新文件名
+ * @returns 差异片段（按原顺序，删除片段排在同位置的插入片段之前）
+ */
+export function diffNames(original: string, renamed: string): NameDiffSegment[] {
+  const cacheKey = `${original}\u0000${renamed}`;
+  const cached = diffCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const segments = computeDiff(Array.from(original), Array.from(renamed));
+
+  if (diffCache.size >= MAX_CACHE_SIZE) {
+    diffCache.clear();
+  }
+  diffCache.set(cacheKey, segments);
+
+  return segments;
+}
+
+function computeDiff(a: string[], b: string[]): NameDiffSegment[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  const segments: NameDiffSegment[] = [];
+  pushSegment(segments, 'equal', a.slice(0, prefix).join(''));
+  diffMiddle(midA, midB).forEach((segment) => pushSegment(segments, segment.type, segment.text));
+  pushSegment(segments, 'equal', a.slice(a.length - suffix).join(''));
+
+  return segments;
+}
+
+/**
+ * 对中间部分做 LCS 回溯
+ */
+function diffMiddle(a: string[], b: string[]): NameDiffSegment[] {
+  const rows = a.length;
+  const cols = b.length;
+  const segments: NameDiffSegment[] = [];
+
+  if (rows === 0 || cols === 0) {
+    pushSegment(segments, 'delete', a.join(''));
+    pushSegment(segments, 'insert', b.join(''));
+    return segments;
+  }
+
+  // lengths[i][j] = a[i..] 与 b[j..] 的 LCS 长度
+  const lengths: Uint16Array[] = Array.from({ length: rows + 1 }, () => new Uint16Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushSegment(segments, 'delete', a[i]);
+      i++;
+    } else {
+      pushSegment(segments, 'insert', b[j]);
+      j++;
+    }
+  }
+  pushSegment(segments, 'delete', a.slice(i).join(''));
+  pushSegment(segments, 'insert', b.slice(j).join(''));
+
+  return segments;
+}
+
+function pushSegment(segments: NameDiffSegment[], type: NameDiffSegment['type'], text: string): void {
+  if (!text) {
+    return;
+  }
+
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * 平台能力工具模块
+ * 统一读取适配器的能力描述，未声明的能力按配置和已实现的方法推断
+ */
+
+import { DEFAULT_MAX_NAME_LENGTH, PlatformAdapter, PlatformCapabilities } from '../types/platform';
+
+/**
+ * 按适配器的配置和已实现的可选方法推断能力（不读取 adapter.capabilities）
+ * @param adapter 平台适配器
+ * @returns 推断出的能力
+ */
+export function inferPlatformCapabilities(adapter: PlatformAdapter): PlatformCapabilities {
+  const config = adapter.getConfig();
+
+  return {
+    batchRename: typeof adapter.renameFiles === 'function',
+    folderRename: true,
+    caseSensitive: config.caseSensitive !== false,
+    caseOnlyRename: config.caseOnlyRename !== false,
+    maxNameLength: config.maxNameLength ?? DEFAULT_MAX_NAME_LENGTH,
+    recursiveListing: typeof adapter.getAllFilesRecursive === 'function',
+    move: typeof adapter.createFolder === 'function' && typeof adapter.moveFiles === 'function',
+    nativeUndo: false,
+    pageSync: typeof adapter.syncAfterRename === 'function',
+    fileIdKind: 'id',
+  };
+}
+
+/**
+ * 获取适配器的能力描述
+ * @param adapter 平台适配器（未提供时返回 null）
+ * @returns 适配器声明的能力；未声明时按配置和已实现的方法推断
+ */
+export function getPlatformCapabilities(adapter: PlatformAdapter): PlatformCapabilities;
+export function getPlatformCapabilities(adapter: PlatformAdapter | null | undefined): PlatformCapabilities | null;
+export function getPlatformCapabilities(adapter: PlatformAdapter | null | undefined): PlatformCapabilities | null {
+  if (!adapter) {
+    return null;
+  }
+
+  return adapter.capabilities ?? inferPlatformCapabilities(adapter);
+}
+
+/**
+ * 判断新文件名是否超出平台的长度限制
+ * @param name 文件名
+ * @param capabilities 平台能力
+ */
+export function exceedsMaxNameLength(name: string, capabilities: Pick<PlatformCapabilities, 'maxNameLength'>): boolean {
+  return Array.from(name).length > capabilities.maxNameLength;
+}
@@ -19,6 +19,23 @@ export const QUARK_SHARE_LINK_PATTERNS = ['/s/'] as const;
  */
 export const ALIYUN_SHARE_LINK_PATTERNS = ['/s/'] as const;
 
+/**
+ * 115网盘主站域名 (文件列表页 https://115.com/?cid=0&mode=wangpan)
+ */
+export const PAN115_HOSTNAMES = ['115.com', 'www.115.com'] as const;
+
+/**
+ * 123云盘主站及镜像域名 (各域名共用同一套 /b/api 接口)
+ */
+export const PAN123_HOSTNAMES = [
+  '123pan.com',
+  'www.123pan.com',
+  'www.123pan.cn',
+  'www.123684.com',
+  'www.123865.com',
+  'www.123912.com',
+] as const;
+
 /**
  * 检测URL是否为夸克网盘分享链接
  * @param pathname - URL路径部分
@@ -50,6 +67,51 @@ export function isAliyunShareLink(pathname: string | null | undefined): boolean
   return /^\/s\/|^\/share\//.test(pathname);
 }
 
+/**
+ * 检测URL是否为115网盘分享链接
+ * @param pathname - URL路径部分
+ * @returns 是否为分享链接
+ */
+export function isPan115ShareLink(pathname: string | null | undefined): boolean {
+  // 防御性检查: 确保 pathname 存在且为字符串
+  if (!pathname || typeof pathname !== 'string') {
+    return false;
+  }
+
+  // 分享页路径为 /s/<code>
+  return /^\/s\//.test(pathname);
+}
+
+/**
+ * 检测URL是否为123云盘分享链接
+ * @param pathname - URL路径部分
+ * @returns 是否为分享链接
+ */
+export function isPan123ShareLink(pathname: string | null | undefined): boolean {
+  // 防御性检查: 确保 pathname 存在且为字符串
+  if (!pathname || typeof pathname !== 'string') {
+    return false;
+  }
+
+  // 分享页路径为 /s/<code>
+  return /^\/s\//.test(pathname);
+}
+
+/**
+ * 检测URL是否为天翼云盘分享链接
+ * @param pathname - URL路径部分
+ * @returns 是否为分享链接
+ */
+export function isTianyiShareLink(pathname: string | null | undefined): boolean {
+  // 防御性检查: 确保 pathname 存在且为字符串
+  if (!pathname || typeof pathname !== 'string') {
+    return false;
+  }
+
+  // 分享页路径为 /t/<code> 或 /web/share
+  return /^\/t\/|^\/web\/share/.test(pathname);
+}
+
 /**
  * 从URL检测平台类型
  * @param url - 完整URL
@@ -88,6 +150,39 @@ export function detectPlatformFromUrl(url: string, pathname?: string): PlatformN
     return 'baidu';
   }
 
+  // 115网盘: 按主机名严格匹配, 避免 webapi.115.com 等子域或相似域名误判
+  if ((PAN115_HOSTNAMES as readonly string[]).includes(extractHostnameFromUrl(url))) {
+    const pathToCheck = pathname ?? extractPathnameFromUrl(url);
+
+    if (isPan115ShareLink(pathToCheck)) {
+      return null; // 分享链接页面不支持
+    }
+
+    return '115';
+  }
+
+  // 123云盘: 同样按主机名严格匹配
+  if ((PAN123_HOSTNAMES as readonly string[]).includes(extractHostnameFromUrl(url))) {
+    const pathToCheck = pathname ?? extractPathnameFromUrl(url);
+
+    if (isPan123ShareLink(pathToCheck)) {
+      return null; // 分享链接页面不支持
+    }
+
+    return '123pan';
+  }
+
+  // 天翼云盘
+  if (url.includes('cloud.189.cn')) {
+    const pathToCheck = pathname ?? extractPathnameFromUrl(url);
+
+    if (isTianyiShareLink(pathToCheck)) {
+      return null; // 分享链接页面不支持
+    }
+
+    return 'tianyi';
+  }
+
   return null;
 }
 
@@ -105,3 +200,16 @@ function extractPathnameFromUrl(url: string): string {
     return '';
   }
 }
+
+/**
+ * 从完整URL中提取主机名
+ * @param url - 完整URL
+ * @returns 主机名 (解析失败时为空字符串)
+ */
+function extractHostnameFromUrl(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+}
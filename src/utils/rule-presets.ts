@@ -0,0 +1,246 @@
+import { RuleFactory } from '../rules/rule-factory';
+import {
+  type RulePreset,
+  type RulePresetFile,
+  type RulePresetFileEntry,
+  type RulePresetImportResult,
+  type RulePresetIssue,
+  PRESET_STORAGE_KEYS,
+  RULE_PRESET_FILE_FORMAT,
+  RULE_PRESET_FILE_VERSION,
+} from '../types/preset';
+import { RULE_TYPES, type RuleConfig } from '../types/rule';
+import { generateUUID } from './helpers';
+import { type StorageManager, storage } from './storage';
+
+type RulePresetStorage = Pick<StorageManager, 'get' | 'set'>;
+
+/**
+ * 规则预设库
+ * 预设按名称唯一，保存到 chrome.storage.local
+ */
+export class RulePresetStore {
+  constructor(private readonly storageManager: RulePresetStorage = storage) {}
+
+  /**
+   * 获取所有预设（按名称排序）
+   */
+  async list(): Promise<RulePreset[]> {
+    const stored = await this.storageManager.get<RulePreset[]>(PRESET_STORAGE_KEYS.LIBRARY);
+    const presets = Array.isArray(stored) ? stored : [];
+    return [...presets].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * 保存预设，同名预设会被覆盖
+   * @param name 预设名称
+   * @param rule 规则配置
+   * @returns 保存后的预设
+   */
+  async save(name: string, rule: RuleConfig): Promise<RulePreset> {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error('Preset name is required');
+    }
+
+    const presets = await this.list();
+    const now = Date.now();
+    const existing = presets.find((preset) => preset.name === trimmedName);
+    const preset: RulePreset = existing
+      ? { ...existing, rule: cloneRuleConfig(rule), updatedAt: now }
+      : {
+          id: generateUUID(),
+          name: trimmedName,
+          rule: cloneRuleConfig(rule),
+          createdAt: now,
+          updatedAt: now,
+        };
+
+    const next = presets.filter((item) => item.id !== preset.id);
+    next.push(preset);
+    await this.storageManager.set(PRESET_STORAGE_KEYS.LIBRARY, next);
+    return preset;
+  }
+
+  /**
+   * 删除预设
+   * @param id 预设 ID
+   */
+  async remove(id: string): Promise<void> {
+    const presets = await this.list();
+    await this.storageManager.set(
+      PRESET_STORAGE_KEYS.LIBRARY,
+      presets.filter((preset) => preset.id !== id)
+    );
+  }
+
+  /**
+   * 批量导入预设（同名覆盖）
+   * @param entries 已通过校验的预设条目
+   * @returns 导入后的完整预设列表
+   */
+  async importEntries(entries: RulePresetFileEntry[]): Promise<RulePreset[]> {
+    for (const entry of entries) {
+      await this.save(entry.name, entry.rule);
+    }
+    return this.list();
+  }
+}
+
+export const rulePresetStore = new RulePresetStore();
+
+/**
+ * 校验预设中的规则配置
+ * 未知规则类型和参数错误会分别给出问题代码；规则链会逐步校验并标明步骤序号
+ * @param rule 待校验的规则配置
+ * @param presetName 预设名称（用于错误提示）
+ * @returns 问题列表（为空表示有效）
+ */
+export function validatePresetRule(rule: unknown, presetName?: string): RulePresetIssue[] {
+  if (!isPlainObject(rule) || typeof rule.type !== 'string' || !isPlainObject(rule.params)) {
+    return [{ code: 'invalid_entry', presetName }];
+  }
+
+  if (rule.skipFolders !== undefined && typeof rule.skipFolders !== 'boolean') {
+    return [{ code: 'invalid_entry', presetName }];
+  }
+
+  if (!(RULE_TYPES as readonly string[]).includes(rule.type)) {
+    return [{ code: 'unknown_rule_type', presetName, detail: rule.type }];
+  }
+
+  if (rule.type === 'pipeline') {
+    const steps = rule.params.steps;
+    if (!Array.isArray(steps) || steps.length === 0) {
+      return [{ code: 'invalid_params', presetName, detail: 'pipeline' }];
+    }
+
+    const issues = steps.flatMap((step: unknown, index: number) =>
+      validatePresetRule(step, presetName).map((issue) => ({ ...issue, step: index + 1 }))
+    );
+    if (issues.length > 0) {
+      return issues;
+    }
+  }
+
+  return isRuleConfigValid(rule as unknown as RuleConfig)
+    ? []
+    : [{ code: 'invalid_params', presetName, detail: rule.type }];
+}
+
+/**
+ * 构建预设导出文件内容
+ * @param presets 预设列表
+ */
+export function buildRulePresetFile(presets: RulePreset[]): RulePresetFile {
+  return {
+    format: RULE_PRESET_FILE_FORMAT,
+    version: RULE_PRESET_FILE_VERSION,
+    exportedAt: Date.now(),
+    presets: presets.map((preset) => ({ name: preset.name, rule: cloneRuleConfig(preset.rule) })),
+  };
+}
+
+/**
+ * 解析并校验预设导入文件
+ * 文件级错误时不返回任何预设；单个预设无效时仅跳过该预设
+ * @param text 文件文本内容
+ */
+export function parseRulePresetFile(text: string): RulePresetImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { presets: [], issues: [{ code: 'invalid_file' }] };
+  }
+
+  if (!isPlainObject(data) || data.format !== RULE_PRESET_FILE_FORMAT || !Array.isArray(data.presets)) {
+    return { presets: [], issues: [{ code: 'invalid_file' }] };
+  }
+
+  if (typeof data.version !== 'number' || data.version > RULE_PRESET_FILE_VERSION) {
+    return {
+      presets: [],
+      issues: [{ code: 'unsupported_version', detail: String(data.version) }],
+    };
+  }
+
+  const presets: RulePresetFileEntry[] = [];
+  const issues: RulePresetIssue[] = [];
+
+  for (const entry of data.presets) {
+    if (!isPlainObject(entry) || typeof entry.name !== 'string' || !entry.name.trim()) {
+      issues.push({ code: 'invalid_entry' });
+      continue;
+    }
+
+    const name = entry.name.trim();
+    const ruleIssues = validatePresetRule(entry.rule, name);
+    if (ruleIssues.length > 0) {
+      issues.push(...ruleIssues);
+      continue;
+    }
+
+    presets.push({ name, rule: cloneRuleConfig(entry.rule as RuleConfig) });
+  }
+
+  return { presets, issues };
+}
+
+function padDatePart(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function buildRulePresetFileName(exportedAt: number): string {
+  const date = new Date(exportedAt);
+  const year = date.getFullYear();
+  const month = padDatePart(date.getMonth() + 1);
+  const day = padDatePart(date.getDate());
+
+  return `cloud-drive-renamer-presets-${year}-${month}-${day}.json`;
+}
+
+/**
+ * 下载预设导出文件
+ * @param presets 要导出的预设
+ * @returns 下载的文件名
+ */
+export async function downloadRulePresets(presets: RulePreset[]): Promise<string> {
+  const payload = buildRulePresetFile(presets);
+  const fileName = buildRulePresetFileName(payload.exportedAt);
+  const blob = new Blob([JSON.stringify(payload, null, 2)], {
+    type: 'application/json',
+  });
+  const objectUrl = URL.createObjectURL(blob);
+
+  try {
+    const anchor = document.createElement('a');
+    anchor.href = objectUrl;
+    anchor.download = fileName;
+    anchor.style.display = 'none';
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+
+  return fileName;
+}
+
+function isRuleConfigValid(rule: RuleConfig): boolean {
+  try {
+    // 部分规则的构造函数不做校验，这里显式调用 validate
+    return RuleFactory.create(rule).validate(rule.params);
+  } catch {
+    return false;
+  }
+}
+
+function cloneRuleConfig(rule: RuleConfig): RuleConfig {
+  return JSON.parse(JSON.stringify(rule));
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
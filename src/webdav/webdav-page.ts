@@ -0,0 +1,234 @@
+import { logger } from '../utils/logger';
+import { I18nService } from '../utils/i18n';
+import { applyAppearanceToDocument, applyAppearanceToElement, getAppearanceMode } from '../utils/appearance';
+import { WebDAVAdapter } from '../adapters/webdav/webdav-adapter';
+import { loadWebDAVConnection, saveWebDAVConnection } from '../adapters/webdav/connection';
+import type { WebDAVConnection } from '../types/webdav';
+import type { FileItem, PlatformAdapter } from '../types/platform';
+import type { AppearanceMode } from '../types/appearance';
+
+/**
+ * WebDAV 扩展页脚本
+ *
+ * WebDAV / Alist 没有可注入 content script 的宿主页面，
+ * 在扩展页中保存连接、浏览目录，并挂载与网盘页面相同的文件选择面板
+ */
+
+type PanelElement = HTMLElement & { open: boolean; adapter: PlatformAdapter };
+
+let adapter: WebDAVAdapter | null = null;
+let fileSelectorPanel: PanelElement | null = null;
+let appearanceMode: AppearanceMode = 'auto';
+/** 从根目录到当前目录经过的文件夹 */
+let folderTrail: Array<{ id: string; name: string }> = [];
+
+/**
+ * Internationalize HTML elements with data-i18n attribute
+ */
+function localizeHTML() {
+  document.querySelectorAll('[data-i18n]').forEach((el) => {
+    const key = el.getAttribute('data-i18n');
+    if (key) {
+      el.textContent = I18nService.t(key);
+    }
+  });
+  document.title = `${I18nService.t('webdav_page_title')} - CloudDrive Renamer`;
+}
+
+function getInput(id: string): HTMLInputElement {
+  return document.getElementById(id) as HTMLInputElement;
+}
+
+function setStatus(message: string, state: 'info' | 'error' = 'info') {
+  const statusEl = document.getElementById('connection-status');
+  if (statusEl) {
+    statusEl.textContent = message;
+    statusEl.dataset.state = state;
+  }
+}
+
+/**
+ * 请求访问服务地址所在源的权限（manifest 中声明为 optional_host_permissions）
+ * 扩展页拥有该源的权限后，跨域 PROPFIND / MOVE 不受 CORS 限制
+ *
+ * @param endpoint 服务地址
+ * @param interactive 是否弹出授权提示（必须在用户点击中调用）
+ */
+async function ensureHostPermission(endpoint: string, interactive: boolean): Promise<boolean> {
+  const origins = [`${new URL(endpoint).origin}/*`];
+  return interactive ? chrome.permissions.request({ origins }) : chrome.permissions.contains({ origins });
+}
+
+/**
+ * 连接服务器并显示根目录
+ * @param connection 连接配置
+ */
+async function connect(connection: WebDAVConnection): Promise<void> {
+  setStatus(I18nService.t('webdav_status_connecting'));
+
+  adapter = new WebDAVAdapter(connection);
+  folderTrail = [];
+  if (fileSelectorPanel) {
+    fileSelectorPanel.adapter = adapter;
+  }
+
+  try {
+    await showCurrentFolder();
+    setStatus(I18nService.t('webdav_status_connected', connection.endpoint));
+  } catch (error) {
+    const errorObj = error instanceof Error ? error : new Error(String(error));
+    logger.error('[WebDAVPage] Failed to connect:', errorObj);
+    setStatus(I18nService.t('webdav_status_failed', errorObj.message), 'error');
+    const browser = document.getElementById('browser');
+    if (browser) {
+      browser.hidden = true;
+    }
+  }
+}
+
+/**
+ * 列出当前目录并渲染子文件夹
+ */
+async function showCurrentFolder(): Promise<void> {
+  if (!adapter) return;
+
+  adapter.setCurrentDirectory(folderTrail[folderTrail.length - 1]?.id ?? '/');
+  const items = await adapter.getAllFiles();
+
+  const browser = document.getElementById('browser');
+  const pathEl = document.getElementById('folder-path');
+  const upButton = document.getElementById('up-button') as HTMLButtonElement | null;
+  if (browser) browser.hidden = false;
+  if (pathEl) pathEl.textContent = `/${folderTrail.map((folder) => folder.name).join('/')}`;
+  if (upButton) upButton.disabled = folderTrail.length === 0;
+
+  renderFolders(items.filter((item) => item.isFolder));
+}
+
+function renderFolders(folders: FileItem[]) {
+  const listEl = document.getElementById('folder-list');
+  if (!listEl) return;
+
+  listEl.replaceChildren();
+  if (folders.length === 0) {
+    const emptyEl = document.createElement('li');
+    emptyEl.className = 'hint';
+    emptyEl.textContent = I18nService.t('webdav_no_subfolders');
+    listEl.appendChild(emptyEl);
+    return;
+  }
+
+  for (const folder of folders) {
+    const itemEl = document.createElement('li');
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = `📁 ${folder.name}`;
+    button.addEventListener('click', () => {
+      folderTrail.push({ id: folder.id, name: folder.name });
+      void navigate();
+    });
+    itemEl.appendChild(button);
+    listEl.appendChild(itemEl);
+  }
+}
+
+async function navigate(): Promise<void> {
+  try {
+    await showCurrentFolder();
+  } catch (error) {
+    const errorObj = error instanceof Error ? error : new Error(String(error));
+    logger.error('[WebDAVPage] Failed to list folder:', errorObj);
+    setStatus(I18nService.t('webdav_status_failed', errorObj.message), 'error');
+  }
+}
+
+/**
+ * 挂载并打开文件选择面板（与 content script 中的挂载方式一致）
+ */
+async function openFileSelectorPanel(): Promise<void> {
+  if (!adapter) return;
+
+  if (!fileSelectorPanel) {
+    await import('../content/components/file-selector-panel');
+
+    const panelEl = document.createElement('file-selector-panel') as PanelElement;
+    applyAppearanceToElement(panelEl, appearanceMode);
+    panelEl.adapter = adapter;
+    panelEl.open = false;
+    panelEl.addEventListener('panel-close', () => {
+      panelEl.open = false;
+      // 面板中可能重命名或移动了文件夹，刷新目录列表
+      void navigate();
+    });
+    document.body.appendChild(panelEl);
+    fileSelectorPanel = panelEl;
+  }
+
+  fileSelectorPanel.adapter = adapter;
+  fileSelectorPanel.open = true;
+}
+
+function bindEvents() {
+  const form = document.getElementById('connection-form') as HTMLFormElement | null;
+  form?.addEventListener('submit', (e) => {
+    e.preventDefault();
+
+    const connection: WebDAVConnection = {
+      endpoint: getInput('endpoint-input').value,
+      username: getInput('username-input').value,
+      password: getInput('password-input').value,
+    };
+
+    // 授权提示必须在点击事件中直接发起，先请求权限再保存
+    void (async () => {
+      try {
+        if (!(await ensureHostPermission(connection.endpoint, true))) {
+          setStatus(I18nService.t('webdav_status_permission_denied'), 'error');
+          return;
+        }
+        const saved = await saveWebDAVConnection(connection);
+        getInput('endpoint-input').value = saved.endpoint;
+        await connect(saved);
+      } catch (error) {
+        const errorObj = error instanceof Error ? error : new Error(String(error));
+        setStatus(I18nService.t('webdav_status_failed', errorObj.message), 'error');
+      }
+    })();
+  });
+
+  document.getElementById('up-button')?.addEventListener('click', () => {
+    folderTrail.pop();
+    void navigate();
+  });
+
+  document.getElementById('open-panel-button')?.addEventListener('click', () => {
+    void openFileSelectorPanel();
+  });
+}
+
+async function initPage() {
+  await I18nService.getCurrentLanguage();
+  localizeHTML();
+
+  appearanceMode = await getAppearanceMode();
+  applyAppearanceToDocument(appearanceMode);
+
+  bindEvents();
+
+  const connection = await loadWebDAVConnection();
+  if (!connection) return;
+
+  getInput('endpoint-input').value = connection.endpoint;
+  getInput('username-input').value = connection.username;
+  getInput('password-input').value = connection.password;
+
+  // 打开页面时不能弹出授权提示，已授权过才自动连接
+  if (await ensureHostPermission(connection.endpoint, false)) {
+    await connect(connection);
+  }
+}
+
+// 启动
+document.addEventListener('DOMContentLoaded', () => {
+  initPage();
+});
@@ -1,178 +1,88 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from './fixtures';
+import type { Page } from '@playwright/test';
 
 /**
  * E2E测试: 批量重命名完整流程
  *
- * 测试用户从选择文件到完成重命名的完整流程
+ * 在沙盒扩展页（内存模拟网盘）上测试从选择文件到完成重命名的完整流程，全程离线
  */
 
-test.describe('批量重命名流程测试', () => {
-  test.beforeEach(async ({ page }) => {
-    // 导航到夸克网盘
-    await page.goto('https://pan.quark.cn');
-    await page.waitForLoadState('networkidle');
-    await page.waitForTimeout(2000); // 等待扩展注入
-  });
-
-  test('应该显示批量重命名按钮', async ({ page }) => {
-    // 查找自定义的重命名按钮元素
-    const renameButton = page.locator('rename-button');
-
-    // 验证按钮存在
-    await expect(renameButton).toBeVisible({ timeout: 5000 });
-  });
-
-  test('点击按钮应该打开重命名对话框', async ({ page }) => {
-    // 等待并点击重命名按钮
-    const renameButton = page.locator('rename-button');
-    await renameButton.waitFor({ state: 'visible', timeout: 5000 });
-
-    // 触发按钮点击
-    await page.evaluate(() => {
-      const button = document.querySelector('rename-button');
-      if (button) {
-        button.dispatchEvent(new Event('click'));
-      }
-    });
-
-    // 等待对话框出现
-    await page.waitForTimeout(1000);
-
-    // 验证对话框存在
-    const dialog = page.locator('rename-dialog');
-    await expect(dialog).toBeVisible({ timeout: 3000 });
-  });
-
-  test('对话框应该包含所有必要的UI元素', async ({ page }) => {
-    // 打开对话框
-    await page.evaluate(() => {
-      const button = document.querySelector('rename-button');
-      if (button) {
-        button.dispatchEvent(new Event('click'));
-      }
-    });
+const ORIGINAL_NAMES = [
+  'Show.Name.S01E01.1080p.WEB-DL.mkv',
+  'Show.Name.S01E02.1080p.WEB-DL.mkv',
+  'Show.Name.S01E03.1080p.WEB-DL.mkv',
+  'Show.Name.S01E01.1080p.WEB-DL.chs.srt',
+];
 
-    await page.waitForTimeout(1000);
+const RENAMED_NAMES = ORIGINAL_NAMES.map((name) => name.replace('Show.Name', 'My.Show'));
 
-    const dialog = page.locator('rename-dialog');
-    await dialog.waitFor({ state: 'visible', timeout: 3000 });
+function treeItem(page: Page, name: string) {
+  return page.locator(`#file-tree li[data-name="${name}"]`);
+}
 
-    // 验证对话框内部元素
-    const shadowHost = await dialog.evaluateHandle((el) => el.shadowRoot);
-
-    const hasTitle = await shadowHost.evaluate((root) => {
-      return root?.querySelector('h2')?.textContent?.includes('批量重命名');
-    });
+/**
+ * 打开面板并配置"查找替换"规则
+ */
+async function configureReplaceRule(page: Page, search: string, replace: string) {
+  await page.locator('#open-panel-button').click();
 
-    const hasRuleSelect = await shadowHost.evaluate((root) => {
-      return root?.querySelector('select[name="rule"]') !== null;
-    });
+  const panel = page.locator('file-selector-panel');
+  await expect(panel.getByText('IMG_0001.JPG').first()).toBeVisible();
 
-    const hasActionButtons = await shadowHost.evaluate((root) => {
-      const confirmBtn = root?.querySelector('button.confirm');
-      const cancelBtn = root?.querySelector('button.cancel');
-      return confirmBtn !== null && cancelBtn !== null;
-    });
+  await panel.locator('input[name="rule"][value="replace"]').check({ force: true });
+  const inputs = panel.locator('config-panel .form-input');
+  await inputs.nth(0).fill(search);
+  await inputs.nth(1).fill(replace);
+  return panel;
+}
 
-    expect(hasTitle).toBe(true);
-    expect(hasRuleSelect).toBe(true);
-    expect(hasActionButtons).toBe(true);
+test.describe('批量重命名流程测试', () => {
+  test.beforeEach(async ({ page }) => {
+    // 面板在冲突检测失败等情况下会弹出确认框，测试中一律确认
+    page.on('dialog', (dialog) => dialog.accept());
   });
 
-  test('应该能够选择不同的重命名规则', async ({ page }) => {
-    // 打开对话框
-    await page.evaluate(() => {
-      const button = document.querySelector('rename-button');
-      button?.dispatchEvent(new Event('click'));
-    });
-
-    await page.waitForTimeout(1000);
-
-    // 获取shadow root中的select元素
-    const ruleOptions = await page.evaluate(() => {
-      const dialog = document.querySelector('rename-dialog');
-      const select = dialog?.shadowRoot?.querySelector('select[name="rule"]') as HTMLSelectElement;
-      if (!select) return [];
-
-      return Array.from(select.options).map((opt) => opt.value);
-    });
-
-    // 验证有多个规则选项
-    expect(ruleOptions.length).toBeGreaterThan(0);
-    expect(ruleOptions).toContain('replace');
-    expect(ruleOptions).toContain('prefix');
-    expect(ruleOptions).toContain('suffix');
-  });
+  test('应该在沙盒中列出模拟网盘的文件', async ({ openSandbox }) => {
+    const page = await openSandbox();
 
-  test('应该能够预览重命名结果', async ({ page }) => {
-    // 打开对话框
-    await page.evaluate(() => {
-      const button = document.querySelector('rename-button');
-      button?.dispatchEvent(new Event('click'));
-    });
-
-    await page.waitForTimeout(1000);
-
-    // 设置规则并查看预览
-    const hasPreview = await page.evaluate(() => {
-      const dialog = document.querySelector('rename-dialog');
-      const root = dialog?.shadowRoot;
-      if (!root) return false;
-
-      // 选择规则
-      const select = root.querySelector('select[name="rule"]') as HTMLSelectElement;
-      if (select) {
-        select.value = 'prefix';
-        select.dispatchEvent(new Event('change'));
-      }
-
-      // 填写参数
-      const prefixInput = root.querySelector('input[name="prefix"]') as HTMLInputElement;
-      if (prefixInput) {
-        prefixInput.value = '测试_';
-        prefixInput.dispatchEvent(new Event('input'));
-      }
-
-      // 检查是否有预览组件
-      return root.querySelector('rename-preview') !== null;
-    });
-
-    expect(hasPreview).toBe(true);
+    for (const name of ORIGINAL_NAMES) {
+      await expect(treeItem(page, name)).toHaveCount(1);
+    }
+    await expect(treeItem(page, 'Behind the Scenes.mp4')).toHaveCount(1);
   });
 
-  test('应该能够取消重命名操作', async ({ page }) => {
-    // 打开对话框
-    await page.evaluate(() => {
-      const button = document.querySelector('rename-button');
-      button?.dispatchEvent(new Event('click'));
-    });
+  test('点击按钮应该打开文件选择面板并列出当前目录', async ({ openSandbox }) => {
+    const page = await openSandbox();
+
+    await page.locator('#open-panel-button').click();
 
-    await page.waitForTimeout(1000);
+    const panel = page.locator('file-selector-panel');
+    await expect(panel.getByText('会议纪要 2024-03-01.docx').first()).toBeVisible();
+    await expect(panel.locator('config-panel .button-execute')).toBeVisible();
+  });
 
-    // 点击取消按钮
-    const dialogClosed = await page.evaluate(() => {
-      const dialog = document.querySelector('rename-dialog');
-      const root = dialog?.shadowRoot;
-      const cancelBtn = root?.querySelector('button.cancel') as HTMLButtonElement;
+  test('应该预览并执行查找替换，只重命名当前目录中的文件', async ({ openSandbox }) => {
+    const page = await openSandbox();
+    const panel = await configureReplaceRule(page, 'Show.Name', 'My.Show');
 
-      if (cancelBtn) {
-        cancelBtn.click();
-        return true;
-      }
-      return false;
-    });
+    await expect(panel.getByText(RENAMED_NAMES[0]).first()).toBeVisible();
+    await panel.locator('config-panel .button-execute').click();
 
-    expect(dialogClosed).toBe(true);
+    for (const [index, name] of RENAMED_NAMES.entries()) {
+      await expect(treeItem(page, name)).toHaveCount(1);
+      await expect(treeItem(page, ORIGINAL_NAMES[index])).toHaveCount(0);
+    }
+    // 子目录中的文件不在当前目录列表中，保持不变
+    await expect(treeItem(page, 'Show.Name.S02E01.720p.mkv')).toHaveCount(1);
+  });
 
-    // 等待对话框关闭
-    await page.waitForTimeout(500);
+  test('目标名称已被占用时应该打开冲突处理对话框', async ({ openSandbox }) => {
+    const page = await openSandbox(`latency=0&conflicts=${encodeURIComponent(RENAMED_NAMES[1])}`);
+    const panel = await configureReplaceRule(page, 'Show.Name', 'My.Show');
 
-    // 验证对话框已关闭
-    const dialogVisible = await page.evaluate(() => {
-      const dialog = document.querySelector('rename-dialog');
-      return dialog !== null && getComputedStyle(dialog).display !== 'none';
-    });
+    await panel.locator('config-panel .button-execute').click();
 
-    expect(dialogVisible).toBe(false);
+    await expect(page.locator('conflict-resolution-dialog .dialog-overlay.open')).toBeVisible();
+    await expect(treeItem(page, ORIGINAL_NAMES[1])).toHaveCount(1);
   });
 });
@@ -0,0 +1,49 @@
+import { test as base, chromium, type BrowserContext, type Page } from '@playwright/test';
+import path from 'node:path';
+
+/**
+ * E2E测试夹具: 加载 dist 中构建好的扩展
+ *
+ * Chrome 扩展只能在持久化上下文中加载，扩展 ID 从 service worker 的 URL 中读取。
+ * 运行前需要先执行 npm run build。
+ */
+
+const EXTENSION_PATH = path.join(process.cwd(), 'dist');
+
+export const test = base.extend<{
+  context: BrowserContext;
+  extensionId: string;
+  openSandbox: (query?: string) => Promise<Page>;
+}>({
+  // eslint-disable-next-line no-empty-pattern
+  context: async ({}, use) => {
+    const context = await chromium.launchPersistentContext('', {
+      channel: 'chromium',
+      args: [`--disable-extensions-except=${EXTENSION_PATH}`, `--load-extension=${EXTENSION_PATH}`],
+    });
+    await use(context);
+    await context.close();
+  },
+
+  extensionId: async ({ context }, use) => {
+    let [serviceWorker] = context.serviceWorkers();
+    if (!serviceWorker) {
+      serviceWorker = await context.waitForEvent('serviceworker');
+    }
+    await use(new URL(serviceWorker.url()).host);
+  },
+
+  /**
+   * 打开沙盒扩展页（模拟网盘，不访问网络）
+   * query 为故障参数，例如 latency=0&conflicts=a.txt
+   */
+  openSandbox: async ({ page, extensionId }, use) => {
+    await use(async (query = 'latency=0') => {
+      await page.goto(`chrome-extension://${extensionId}/src/sandbox/index.html?${query}`);
+      await page.locator('#file-tree li').first().waitFor();
+      return page;
+    });
+  },
+});
+
+export const expect = test.expect;
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AliyunAdapter } from '../../../src/adapters/aliyun/aliyun-adapter';
+
+const callAPI = vi.fn();
+vi.mock('../../../src/adapters/aliyun/page-script-injector', () => ({
+  getPageScriptInjector: () => ({ callAPI }),
+}));
+
+type AliyunInternals = {
+  rateLimit(): Promise<void>;
+  getDriveId(): Promise<string>;
+  fetchFileListFromAPI(parentFileId: string, driveId: string): Promise<unknown[]>;
+};
+
+describe('AliyunAdapter', () => {
+  let adapter: AliyunAdapter;
+
+  beforeEach(() => {
+    adapter = new AliyunAdapter({ requestInterval: 0 });
+
+    // Avoid relying on MAIN-world injector in unit tests
+    const internals = adapter as unknown as AliyunInternals;
+    vi.spyOn(internals, 'rateLimit').mockResolvedValue(undefined);
+    vi.spyOn(internals, 'getDriveId').mockResolvedValue('drive-1');
+    vi.spyOn(internals, 'fetchFileListFromAPI').mockResolvedValue([
+      {
+        drive_id: 'drive-1',
+        file_id: 'f1',
+        name: 'Movie.MKV',
+        type: 'file',
+        size: 1,
+        updated_at: '2024-01-01T00:00:00.000Z',
+        parent_file_id: 'root',
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('checkNameConflict', () => {
+    it('应该忽略大小写检测文件名冲突（阿里云盘不区分大小写）', async () => {
+      await expect(adapter.checkNameConflict('movie.mkv', 'root')).resolves.toBe(true);
+      await expect(adapter.checkNameConflict('movie 2.mkv', 'root')).resolves.toBe(false);
+    });
+
+    it('应该允许直接进行仅大小写不同的重命名', () => {
+      expect(adapter.getConfig()).toMatchObject({ caseSensitive: false, caseOnlyRename: true });
+    });
+  });
+
+  describe('getAllFiles', () => {
+    it('应该返回文件夹并标记 isFolder（文件夹名不拆分扩展名）', async () => {
+      vi.spyOn(adapter as unknown as AliyunInternals, 'fetchFileListFromAPI').mockResolvedValue([
+        {
+          drive_id: 'drive-1',
+          file_id: 'd1',
+          name: 'Season 1.5',
+          type: 'folder',
+          updated_at: '2024-01-01T00:00:00.000Z',
+          parent_file_id: 'root',
+        },
+      ]);
+
+      const [folder] = await adapter.getAllFiles('root');
+
+      expect(folder).toMatchObject({ id: 'd1', name: 'Season 1.5', ext: '', size: 0, isFolder: true });
+    });
+  });
+
+  describe('renameFiles', () => {
+    it('应该通过 batch 接口批量重命名并逐个返回结果', async () => {
+      callAPI.mockResolvedValueOnce({
+        responses: [
+          { id: 'f1', status: 200, body: {} },
+          { id: 'f2', status: 409, body: { code: 'AlreadyExist.File', message: 'exists' } },
+        ],
+      });
+
+      const results = await adapter.renameFiles([
+        { fileId: 'f1', newName: 'a.mkv' },
+        { fileId: 'f2', newName: 'b.mkv' },
+      ]);
+
+      const [, url, body] = callAPI.mock.calls[0];
+      expect(url).toContain('/adrive/v2/batch');
+      expect(body.requests.map((request: { url: string; body: { name: string } }) => [request.url, request.body.name])).toEqual([
+        ['/file/update', 'a.mkv'],
+        ['/file/update', 'b.mkv'],
+      ]);
+      expect(results[0]).toEqual({ fileId: 'f1', success: true, newName: 'a.mkv' });
+      expect(results[1]).toMatchObject({ fileId: 'f2', success: false });
+      expect(results[1].error?.message).toBe('文件名已存在');
+    });
+  });
+});
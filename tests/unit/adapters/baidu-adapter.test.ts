@@ -1,5 +1,14 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { BaiduAdapter } from '../../../src/adapters/baidu/baidu-adapter';
+import { BaiduAPIError } from '../../../src/adapters/baidu/errors';
+import { BatchExecutor } from '../../../src/core/executor';
+import type { FileItem } from '../../../src/types/platform';
+import type { Task } from '../../../src/types/core';
+
+const injector = vi.hoisted(() => ({ callAPI: vi.fn() }));
+vi.mock('../../../src/adapters/baidu/page-script-injector', () => ({
+  getPageScriptInjector: () => injector,
+}));
 
 describe('BaiduAdapter', () => {
   let adapter: BaiduAdapter;
@@ -51,7 +60,7 @@ describe('BaiduAdapter', () => {
 
       const files = await adapter.getAllFiles('/test');
 
-      expect(files).toHaveLength(1);
+      expect(files).toHaveLength(2);
       expect(files[0]).toEqual({
         id: '1',
         name: 'a.txt',
@@ -59,8 +68,211 @@ describe('BaiduAdapter', () => {
         parentId: '/test',
         size: 10,
         mtime: 1700000000 * 1000,
+        isFolder: false,
       });
+      expect(files[1]).toMatchObject({ id: '2', name: 'folder', ext: '', isFolder: true });
     });
   });
-});
 
+  describe('checkNameConflict', () => {
+    it('应该忽略大小写检测文件名冲突（百度网盘不区分大小写）', async () => {
+      mockFetch.mockResolvedValue({
+        json: async () => ({
+          errno: 0,
+          list: [{ path: '/test/Show', server_filename: 'Show', fs_id: 1, md5: '', isdir: 1, size: 0 }],
+        }),
+      });
+
+      await expect(adapter.checkNameConflict('show', '/test')).resolves.toBe(true);
+      await expect(adapter.checkNameConflict('show 2', '/test')).resolves.toBe(false);
+      expect(adapter.getConfig()).toMatchObject({ caseSensitive: false, caseOnlyRename: false });
+    });
+  });
+
+  describe('renameFiles', () => {
+    const createFile = (id: string, name: string): FileItem => ({
+      id,
+      name,
+      ext: '.txt',
+      parentId: '/docs',
+      size: 1,
+      mtime: 1,
+    });
+    const batch = [
+      { fileId: '1', newName: 'A.txt' },
+      { fileId: '2', newName: 'B.txt' },
+    ];
+
+    beforeEach(() => {
+      const files = new Map([
+        ['1', createFile('1', 'a.txt')],
+        ['2', createFile('2', 'b.txt')],
+      ]);
+      vi.spyOn(adapter as any, 'getFileInfoFromDOM').mockImplementation(async (id) => files.get(id as string));
+      vi.spyOn(adapter as any, 'sleep').mockResolvedValue(undefined);
+      injector.callAPI.mockReset();
+    });
+
+    it('应该按任务返回的逐文件结果判定部分失败', async () => {
+      injector.callAPI
+        .mockResolvedValueOnce({ errno: 0, taskid: 7 })
+        .mockResolvedValueOnce({
+          errno: 0,
+          taskid: 7,
+          status: 'failed',
+          list: [
+            { from: '/docs/a.txt', to: '/docs/A.txt' },
+            { from: '/docs/b.txt', errno: -8 },
+          ],
+        });
+
+      const results = await adapter.renameFiles(batch);
+
+      expect(results[0]).toEqual({ fileId: '1', success: true, newName: 'A.txt' });
+      expect(results[1]).toMatchObject({ fileId: '2', success: false });
+      expect((results[1].error as BaiduAPIError).errno).toBe(-8);
+      // 任务已结束，不应重试整批
+      expect(injector.callAPI).toHaveBeenCalledTimes(2);
+    });
+
+    it('任务失败且没有逐文件结果时应重新列出目录按实际文件名判定', async () => {
+      injector.callAPI
+        .mockResolvedValueOnce({ errno: 0, taskid: 8 })
+        .mockResolvedValueOnce({ errno: 0, taskid: 8, status: 'failed' });
+      const getAllFiles = vi
+        .spyOn(adapter, 'getAllFiles')
+        .mockResolvedValue([createFile('1', 'A.txt'), createFile('2', 'b.txt')]);
+
+      const results = await adapter.renameFiles(batch);
+
+      expect(getAllFiles).toHaveBeenCalledWith('/docs');
+      expect(results[0]).toEqual({ fileId: '1', success: true, newName: 'A.txt' });
+      expect(results[1]).toMatchObject({ fileId: '2', success: false });
+      expect(results[1].error?.message).toBe('任务执行失败: failed');
+    });
+
+    it('轮询超时时不应重新提交任务，而是重新列出目录判定结果', async () => {
+      (adapter as unknown as { maxTaskPollAttempts: number }).maxTaskPollAttempts = 2;
+      injector.callAPI.mockImplementation(async (_method: string, url: string) =>
+        url.includes('/share/taskquery') ? { errno: 0, taskid: 9, status: 'running' } : { errno: 0, taskid: 9 }
+      );
+      const getAllFiles = vi
+        .spyOn(adapter, 'getAllFiles')
+        .mockResolvedValue([createFile('1', 'A.txt'), createFile('2', 'b.txt')]);
+
+      const results = await adapter.renameFiles(batch);
+
+      const submits = injector.callAPI.mock.calls.filter(([, url]) => String(url).includes('/filemanager'));
+      expect(submits).toHaveLength(1);
+      expect(getAllFiles).toHaveBeenCalledWith('/docs');
+      expect(results[0]).toEqual({ fileId: '1', success: true, newName: 'A.txt' });
+      expect(results[1]).toMatchObject({ fileId: '2', success: false });
+      expect(results[1].error?.message).toContain('超时');
+    });
+  });
+
+  describe('两阶段重命名', () => {
+    const createFile = (id: string, name: string): FileItem => ({
+      id,
+      name,
+      ext: '.txt',
+      parentId: '/docs',
+      size: 1,
+      mtime: 1,
+    });
+
+    /**
+     * 模拟 filemanager：按 fs_id 核对请求中的路径，路径不是文件当前路径或目标名已被占用时该文件失败
+     * rejectOnce 中的目标名第一次出现时被拒绝
+     */
+    function serveFileManager(initial: Record<string, string>, rejectOnce: string[] = []) {
+      const paths = new Map(Object.entries(initial));
+      const rejected = new Set(rejectOnce);
+      const tasks = new Map<number, { status: string; list: Array<{ from: string; to?: string; errno?: number }> }>();
+      const requests: Array<Array<{ id: number; path: string; newname: string }>> = [];
+      let nextTaskId = 1;
+
+      injector.callAPI.mockImplementation(async (_method: string, url: string, body: { filelist?: string }) => {
+        if (url.includes('/share/taskquery')) {
+          const taskid = Number(new URL(url).searchParams.get('taskid'));
+          return { errno: 0, taskid, ...tasks.get(taskid) };
+        }
+
+        const filelist = JSON.parse(body.filelist ?? '[]') as Array<{ id: number; path: string; newname: string }>;
+        requests.push(filelist);
+        const list = filelist.map((item) => {
+          const id = String(item.id);
+          const to = `/docs/${item.newname}`;
+          const taken = Array.from(paths).some(([otherId, path]) => otherId !== id && path === to);
+          if (paths.get(id) !== item.path) {
+            return { from: item.path, errno: -9 };
+          }
+          if (taken || rejected.delete(item.newname)) {
+            return { from: item.path, errno: -8 };
+          }
+          paths.set(id, to);
+          return { from: item.path, to };
+        });
+        const taskid = nextTaskId++;
+        tasks.set(taskid, { status: list.every((entry) => !entry.errno) ? 'success' : 'failed', list });
+        return { errno: 0, taskid };
+      });
+
+      return { paths, requests };
+    }
+
+    function runExecutor(tasks: Task[]) {
+      return new BatchExecutor(
+        tasks.map((task) => task.file),
+        { type: 'prefix', params: { prefix: '' } },
+        adapter,
+        { requestInterval: 0, tasks }
+      ).execute();
+    }
+
+    beforeEach(() => {
+      // 页面 DOM 在整个执行期间都显示改名前的名称
+      const domFiles = new Map([
+        ['1', createFile('1', 'a.txt')],
+        ['2', createFile('2', 'b.txt')],
+      ]);
+      vi.spyOn(adapter as any, 'getFileInfoFromDOM').mockImplementation(async (id) => domFiles.get(id as string));
+      vi.spyOn(adapter as any, 'sleep').mockResolvedValue(undefined);
+      injector.callAPI.mockReset();
+    });
+
+    it('应该在临时名之后用文件的当前路径完成互换', async () => {
+      const server = serveFileManager({ '1': '/docs/a.txt', '2': '/docs/b.txt' });
+      const tasks: Task[] = [
+        { file: createFile('1', 'a.txt'), newName: 'b.txt', index: 0 },
+        { file: createFile('2', 'b.txt'), newName: 'a.txt', index: 1 },
+      ];
+
+      const results = await runExecutor(tasks);
+
+      expect(results.failed).toEqual([]);
+      expect(results.success.map((item) => item.fileId)).toEqual(['1', '2']);
+      expect(Object.fromEntries(server.paths)).toEqual({ '1': '/docs/b.txt', '2': '/docs/a.txt' });
+      // 第二阶段请求的路径是临时名
+      expect(server.requests[1].map((item) => item.path)).toEqual([
+        expect.stringMatching(/^\/docs\/cdr-tmp-.*\.txt$/),
+        expect.stringMatching(/^\/docs\/cdr-tmp-.*\.txt$/),
+      ]);
+    });
+
+    it('第二阶段失败时应该用临时名路径把文件改回原名', async () => {
+      const server = serveFileManager({ '1': '/docs/a.txt', '2': '/docs/b.txt' }, ['a.txt', 'b.txt']);
+      const tasks: Task[] = [
+        { file: createFile('1', 'a.txt'), newName: 'b.txt', index: 0 },
+        { file: createFile('2', 'b.txt'), newName: 'a.txt', index: 1 },
+      ];
+
+      const results = await runExecutor(tasks);
+
+      expect(results.success).toEqual([]);
+      expect(results.failed.map((item) => item.fileId)).toEqual(['1', '2']);
+      expect(results.failed.map((item) => item.error)).not.toContainEqual(expect.stringContaining('left as temporary name'));
+      expect(Object.fromEntries(server.paths)).toEqual({ '1': '/docs/a.txt', '2': '/docs/b.txt' });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MockAdapter } from '../../../src/adapters/mock/mock-adapter';
+import { MockAPIError, createMockError, isRetryableError } from '../../../src/adapters/mock/errors';
+import type { MockAdapterOptions, MockTreeNode } from '../../../src/types/mock';
+
+type MockInternals = {
+  sleep(ms: number): Promise<void>;
+};
+
+const TREE: MockTreeNode[] = [
+  { name: 'b.txt', size: 20, mtime: 2 },
+  { name: 'a.txt', size: 10, mtime: 1, selected: true },
+  { name: 'Docs', mtime: 3, children: [{ name: 'readme.md', size: 5, mtime: 4 }, { name: 'Deep', children: [] }] },
+];
+
+/**
+ * Replay a fixed sequence of random numbers so fault injection is deterministic
+ */
+function sequence(...values: number[]): () => number {
+  return () => values.shift() ?? 1;
+}
+
+describe('MockAdapter', () => {
+  let sleepSpy: ReturnType<typeof vi.spyOn>;
+
+  function createAdapter(options: MockAdapterOptions = {}) {
+    const adapter = new MockAdapter({ tree: TREE, ...options });
+    sleepSpy = vi.spyOn(adapter as unknown as MockInternals, 'sleep').mockResolvedValue(undefined);
+    return adapter;
+  }
+
+  let adapter: MockAdapter;
+
+  beforeEach(() => {
+    adapter = createAdapter();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('应该列出根目录（文件夹在前，按名称排序）', async () => {
+    const files = await adapter.getAllFiles();
+
+    expect(files.map((file) => file.name)).toEqual(['Docs', 'a.txt', 'b.txt']);
+    expect(files[0]).toMatchObject({ isFolder: true, parentId: 'root', childCount: 2, ext: '' });
+    expect(files[1]).toMatchObject({ ext: '.txt', size: 10, mtime: 1, isFolder: false });
+    expect(adapter.getCurrentDirectoryKey()).toBe('root');
+  });
+
+  it('应该递归列出子目录中的文件，并只返回标记为选中的文件', async () => {
+    const files = await adapter.getAllFilesRecursive();
+    const selected = await adapter.getSelectedFiles();
+
+    expect(files.map((file) => file.name).sort()).toEqual(['a.txt', 'b.txt', 'readme.md']);
+    expect(selected.map((file) => file.name)).toEqual(['a.txt']);
+  });
+
+  it('应该重命名文件并通知订阅者', async () => {
+    const listener = vi.fn();
+    const unsubscribe = adapter.onChange(listener);
+    const [, a] = await adapter.getAllFiles();
+
+    await expect(adapter.renameFile(a.id, 'c.txt')).resolves.toEqual({ success: true, newName: 'c.txt' });
+    unsubscribe();
+    await adapter.renameFile(a.id, 'd.txt');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(adapter.getTree().map((node) => node.name)).toEqual(['Docs', 'b.txt', 'd.txt']);
+  });
+
+  it('应该在同目录存在同名文件或命中注入的冲突名称时返回 409 且不重试', async () => {
+    adapter.setFaults({ conflictNames: ['taken.txt'] });
+    const [, a] = await adapter.getAllFiles();
+
+    const sibling = await adapter.renameFile(a.id, 'b.txt');
+    const injected = await adapter.renameFile(a.id, 'taken.txt');
+
+    expect(sibling.error).toBeInstanceOf(MockAPIError);
+    expect(sibling.error).toMatchObject({ code: 409, message: '同名文件已存在' });
+    expect(injected).toMatchObject({ success: false, error: { code: 409 } });
+    expect(sleepSpy).not.toHaveBeenCalled();
+    await expect(adapter.checkNameConflict('taken.txt', 'root')).resolves.toBe(true);
+    await expect(adapter.checkNameConflict('B.txt', 'root')).resolves.toBe(false);
+  });
+
+  it('应该按注入概率返回限流和服务器错误，并退避后重试', async () => {
+    adapter = createAdapter({ rateLimitRate: 0.5, errorRate: 0.5, random: sequence(0.1, 0.9, 0.2, 0.9, 0.9) });
+    const [, a] = await adapter.getAllFiles();
+
+    const result = await adapter.renameFile(a.id, 'c.txt');
+
+    expect(result).toEqual({ success: true, newName: 'c.txt' });
+    expect(sleepSpy.mock.calls.map(([ms]) => ms)).toEqual([1000, 2000]);
+  });
+
+  it('应该在重试次数用尽后返回最后一次错误', async () => {
+    adapter = createAdapter({ errorRate: 1 });
+    const [, a] = await adapter.getAllFiles();
+
+    const result = await adapter.renameFile(a.id, 'c.txt');
+
+    expect(result).toMatchObject({ success: false, error: { code: 500 } });
+    expect(sleepSpy).toHaveBeenCalledTimes(2);
+    expect(adapter.getTree().map((node) => node.name)).toContain('a.txt');
+  });
+
+  it('应该在每个请求前按区间注入延迟', async () => {
+    adapter = createAdapter({ latency: [100, 300], random: sequence(0.5) });
+
+    await adapter.getAllFiles();
+
+    expect(sleepSpy).toHaveBeenCalledWith(200);
+  });
+
+  it('应该复用已有文件夹，并在移动时跳过目标目录中的同名文件', async () => {
+    const [docs, a, b] = await adapter.getAllFiles();
+
+    await expect(adapter.createFolder('docs', 'root')).resolves.not.toBe(docs.id);
+    await expect(adapter.createFolder('Docs', 'root')).resolves.toBe(docs.id);
+    await adapter.renameFile(b.id, 'readme.md');
+    const result = await adapter.moveFiles([a.id, b.id], docs.id);
+
+    expect(result).toMatchObject({ success: false, failedIds: [b.id] });
+    expect((await adapter.getAllFiles(docs.id)).map((file) => file.name)).toEqual(['Deep', 'a.txt', 'readme.md']);
+    expect(adapter.capabilities).toMatchObject({ move: true, recursiveListing: true, fileIdKind: 'id' });
+  });
+
+  it('应该在文件不存在时报告 404', async () => {
+    await expect(adapter.getFileInfo('mock-404')).rejects.toMatchObject({ code: 404 });
+    await expect(adapter.renameFile('mock-404', 'x')).resolves.toMatchObject({ success: false, error: { code: 404 } });
+  });
+
+  it('应该在重置后恢复文件树并回到根目录', async () => {
+    const [docs, a] = await adapter.getAllFiles();
+    await adapter.renameFile(a.id, 'renamed.txt');
+    adapter.setCurrentDirectory(docs.id);
+
+    adapter.reset(TREE);
+
+    expect(adapter.getCurrentDirectoryKey()).toBe('root');
+    expect(adapter.getTree()).toEqual([
+      {
+        name: 'Docs',
+        mtime: 3,
+        children: [
+          { name: 'Deep', mtime: expect.any(Number), children: [] },
+          { name: 'readme.md', size: 5, mtime: 4 },
+        ],
+      },
+      { name: 'a.txt', size: 10, mtime: 1 },
+      { name: 'b.txt', size: 20, mtime: 2 },
+    ]);
+  });
+
+  it('应该只重试限流、服务器错误和超时', () => {
+    expect(isRetryableError(createMockError(429))).toBe(true);
+    expect(isRetryableError(createMockError(500))).toBe(true);
+    expect(isRetryableError(createMockError(409))).toBe(false);
+    expect(isRetryableError(new Error('Request timeout'))).toBe(true);
+  });
+});
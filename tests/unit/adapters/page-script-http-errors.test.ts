@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { Pan115Adapter } from '../../../src/adapters/115/pan115-adapter';
+import { Pan123Adapter } from '../../../src/adapters/123pan/pan123-adapter';
+import { TianyiAdapter } from '../../../src/adapters/tianyi/tianyi-adapter';
+import { QuarkAdapter } from '../../../src/adapters/quark/quark';
+import { AliyunAdapter } from '../../../src/adapters/aliyun/aliyun-adapter';
+import { BaiduAdapter } from '../../../src/adapters/baidu/baidu-adapter';
+import type { PlatformAdapter } from '../../../src/types/platform';
+
+interface HTTPFailure {
+  status: number;
+  retryAfter?: string;
+  body?: unknown;
+}
+
+interface PlatformCase {
+  name: string;
+  prefix: string;
+  createAdapter: () => PlatformAdapter;
+  /** 平台在 401 时返回的响应体（为空表示没有业务错误码） */
+  authBody?: unknown;
+}
+
+const config = { requestInterval: 0, maxRetries: 1 };
+
+const cases: PlatformCase[] = [
+  { name: '115', prefix: 'PAN115', createAdapter: () => new Pan115Adapter(config) },
+  {
+    name: '123pan',
+    prefix: 'PAN123',
+    createAdapter: () => new Pan123Adapter(config),
+    authBody: { code: 401, message: 'token expired' },
+  },
+  {
+    name: 'tianyi',
+    prefix: 'TIANYI',
+    createAdapter: () => new TianyiAdapter(config),
+    authBody: { errorCode: 'InvalidSessionKey' },
+  },
+  { name: 'quark', prefix: 'QUARK', createAdapter: () => new QuarkAdapter(config) },
+  {
+    name: 'aliyun',
+    prefix: 'ALIYUN',
+    createAdapter: () => {
+      const adapter = new AliyunAdapter(config);
+      (adapter as unknown as { driveIdCache: string }).driveIdCache = 'drive-1';
+      return adapter;
+    },
+    authBody: { code: 'AccessTokenExpired', message: 'access token expired' },
+  },
+  {
+    name: 'baidu',
+    prefix: 'BAIDU',
+    createAdapter: () => {
+      const adapter = new BaiduAdapter(config);
+      const file = { id: '1', name: 'a.txt', ext: '.txt', parentId: '/docs', size: 0, mtime: 0 };
+      (adapter as unknown as { knownFiles: Map<string, unknown> }).knownFiles.set('1', file);
+      return adapter;
+    },
+  },
+];
+
+let stopPageScript: (() => void) | null = null;
+
+/**
+ * 模拟 MAIN world 的页面脚本：所有 API 请求都以给定的 HTTP 失败响应
+ */
+function servePageScript(prefix: string, failure: HTTPFailure): void {
+  const listener = (event: MessageEvent) => {
+    const message = event.data;
+    if (message?.type === 'GET_BDSTOKEN') {
+      window.postMessage(
+        { type: 'BDSTOKEN_RESPONSE', requestId: message.requestId, bdstoken: 'token', success: true },
+        '*'
+      );
+      return;
+    }
+    if (message?.type !== `${prefix}_API_REQUEST`) return;
+
+    window.postMessage(
+      {
+        type: `${prefix}_API_RESPONSE`,
+        requestId: message.requestId,
+        success: false,
+        error: `HTTP ${failure.status}`,
+        status: failure.status,
+        retryAfter: failure.retryAfter ?? null,
+        body: failure.body,
+      },
+      '*'
+    );
+  };
+
+  window.addEventListener('message', listener);
+  stopPageScript = () => window.removeEventListener('message', listener);
+}
+
+async function renameError(adapter: PlatformAdapter): Promise<unknown> {
+  const result = await adapter.renameFile('1', 'b.txt');
+  expect(result.success).toBe(false);
+  return result.error;
+}
+
+describe('页面脚本报告的 HTTP 失败', () => {
+  beforeAll(() => {
+    // 页面脚本已就绪，注入器无需等待就绪信号
+    for (const key of ['pan115', 'pan123', 'tianyi', 'quark', 'aliyun', 'baidu']) {
+      document.body.dataset[`${key}PageScriptReady`] = 'true';
+      document.body.dataset[`${key}PageScriptTimestamp`] = String(Date.now());
+    }
+  });
+
+  afterEach(() => {
+    stopPageScript?.();
+    stopPageScript = null;
+  });
+
+  it.each(cases)('$name: 401 应归类为登录失效', async ({ prefix, createAdapter, authBody }) => {
+    servePageScript(prefix, { status: 401, body: authBody });
+    const adapter = createAdapter();
+
+    const error = await renameError(adapter);
+
+    expect(error).toMatchObject({ status: 401 });
+    expect(adapter.classifyError?.(error)).toEqual({ category: 'auth_expired' });
+  });
+
+  it.each(cases)('$name: 429 应归类为限流并带上 Retry-After', async ({ prefix, createAdapter }) => {
+    servePageScript(prefix, { status: 429, retryAfter: '7' });
+    const adapter = createAdapter();
+
+    const error = await renameError(adapter);
+
+    expect(error).toMatchObject({ status: 429, retryAfterMs: 7000 });
+    expect(adapter.classifyError?.(error)).toEqual({ category: 'throttled', retryAfterMs: 7000 });
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Pan115Adapter } from '../../../src/adapters/115/pan115-adapter';
+import { getErrorMessage, getResponseErrno, isRetryableError, Pan115APIError } from '../../../src/adapters/115/errors';
+import filesPage1 from '../../fixtures/115/files-page-1.json';
+import filesPage2 from '../../fixtures/115/files-page-2.json';
+import getInfo from '../../fixtures/115/get-info.json';
+import batchRenameOk from '../../fixtures/115/batch-rename-ok.json';
+import batchRenameExists from '../../fixtures/115/batch-rename-exists.json';
+import rateLimited from '../../fixtures/115/rate-limited.json';
+import loginExpired from '../../fixtures/115/login-expired.json';
+
+const callAPI = vi.fn();
+vi.mock('../../../src/adapters/115/page-script-injector', () => ({
+  getPageScriptInjector: () => ({ callAPI }),
+}));
+
+type Pan115Internals = {
+  rateLimit(): Promise<void>;
+  sleep(ms: number): Promise<void>;
+};
+
+type FixtureRoute = (url: URL, body?: Record<string, string>) => unknown;
+
+/**
+ * Serve recorded webapi.115.com responses by request path
+ */
+function serveFixtures(routes: Record<string, FixtureRoute>) {
+  callAPI.mockImplementation(async (method: string, url: string, body?: Record<string, string>) => {
+    const parsed = new URL(url);
+    const route = routes[`${method} ${parsed.pathname}`];
+    if (!route) {
+      throw new Error(`No fixture for ${method} ${parsed.pathname}`);
+    }
+    return structuredClone(route(parsed, body));
+  });
+}
+
+const listRoute: FixtureRoute = (url) => (url.searchParams.get('offset') === '0' ? filesPage1 : filesPage2);
+
+describe('Pan115Adapter', () => {
+  let adapter: Pan115Adapter;
+
+  beforeEach(() => {
+    adapter = new Pan115Adapter({ requestInterval: 0 });
+    const internals = adapter as unknown as Pan115Internals;
+    vi.spyOn(internals, 'rateLimit').mockResolvedValue(undefined);
+    vi.spyOn(internals, 'sleep').mockResolvedValue(undefined);
+    window.history.replaceState(null, '', '/?cid=2800000000000000001&offset=0&mode=wangpan');
+  });
+
+  afterEach(() => {
+    callAPI.mockReset();
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  describe('getAllFiles', () => {
+    it('应该分页读取当前目录并标记文件夹', async () => {
+      serveFixtures({ 'GET /files': listRoute });
+
+      const files = await adapter.getAllFiles();
+
+      expect(callAPI.mock.calls.map(([, url]) => new URL(url).searchParams.get('offset'))).toEqual(['0', '2']);
+      expect(new URL(callAPI.mock.calls[0][1]).searchParams.get('cid')).toBe('2800000000000000001');
+      expect(files).toEqual([
+        {
+          id: '2800000000000000101',
+          name: 'Season 1.5',
+          ext: '',
+          parentId: '2800000000000000001',
+          size: 0,
+          mtime: 1704067200 * 1000,
+          isFolder: true,
+        },
+        {
+          id: '2800000000000000201',
+          name: 'Episode 01.MKV',
+          ext: '.MKV',
+          parentId: '2800000000000000001',
+          size: 734003200,
+          mtime: 1704153600 * 1000,
+          isFolder: false,
+        },
+        expect.objectContaining({ id: '2800000000000000202', name: 'Episode 02.mkv' }),
+      ]);
+    });
+
+    it('应该把登录失效映射为可读的错误', async () => {
+      serveFixtures({ 'GET /files': () => loginExpired });
+
+      await expect(adapter.getAllFiles()).rejects.toThrow('登录超时，请重新登录');
+    });
+  });
+
+  describe('renameFile', () => {
+    it('应该通过 batch_rename 提交新名称', async () => {
+      serveFixtures({ 'POST /files/batch_rename': () => batchRenameOk });
+
+      const result = await adapter.renameFile('2800000000000000201', 'S01E01.mkv');
+
+      expect(result).toEqual({ success: true, newName: 'S01E01.mkv' });
+      expect(callAPI).toHaveBeenCalledWith(
+        'POST',
+        'https://webapi.115.com/files/batch_rename',
+        { 'files_new_name[2800000000000000201]': 'S01E01.mkv' },
+        30000
+      );
+    });
+
+    it('应该在同名冲突时直接失败而不重试', async () => {
+      serveFixtures({ 'POST /files/batch_rename': () => batchRenameExists });
+
+      const result = await adapter.renameFile('2800000000000000201', 'Episode 02.mkv');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(Pan115APIError);
+      expect(result.error?.message).toBe('文件名已存在');
+      expect(callAPI).toHaveBeenCalledTimes(1);
+    });
+
+    it('应该在请求过于频繁时退避重试', async () => {
+      const responses = [rateLimited, batchRenameOk];
+      serveFixtures({ 'POST /files/batch_rename': () => responses.shift() });
+
+      const result = await adapter.renameFile('2800000000000000201', 'S01E01.mkv');
+
+      expect(result.success).toBe(true);
+      expect(callAPI).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('checkNameConflict', () => {
+    it('应该忽略大小写检测同名文件', async () => {
+      serveFixtures({ 'GET /files': listRoute });
+
+      await expect(adapter.checkNameConflict('episode 01.mkv', '2800000000000000001')).resolves.toBe(true);
+      await expect(adapter.checkNameConflict('Episode 03.mkv', '2800000000000000001')).resolves.toBe(false);
+    });
+
+    it('应该在接口失败时保守地视为冲突', async () => {
+      serveFixtures({ 'GET /files': () => loginExpired });
+
+      await expect(adapter.checkNameConflict('a.mkv', '0')).resolves.toBe(true);
+    });
+  });
+
+  describe('getFileInfo', () => {
+    it('应该通过 get_info 读取文件并使用 cid 作为父目录', async () => {
+      serveFixtures({ 'GET /files/get_info': () => getInfo });
+
+      await expect(adapter.getFileInfo('2800000000000000201')).resolves.toMatchObject({
+        id: '2800000000000000201',
+        name: 'Episode 01.MKV',
+        parentId: '2800000000000000001',
+        isFolder: false,
+      });
+    });
+  });
+
+  describe('page DOM', () => {
+    beforeEach(() => {
+      document.body.innerHTML = `
+        <ul>
+          <li rel="item" class="selected" file_type="1" file_id="2800000000000000201" title="Episode 01.MKV" file_size="734003200">
+            <div class="file-name"><a class="name" title="Episode 01.MKV">Episode 01.MKV</a></div>
+          </li>
+          <li rel="item" class="selected" file_type="0" cate_id="2800000000000000101" title="Season 1.5">
+            <div class="file-name"><a class="name" title="Season 1.5">Season 1.5</a></div>
+          </li>
+          <li rel="item" file_type="1" file_id="2800000000000000202" title="Episode 02.mkv"></li>
+        </ul>`;
+    });
+
+    it('应该读取选中的文件和文件夹', async () => {
+      const files = await adapter.getSelectedFiles();
+
+      expect(files.map((file) => [file.id, file.name, file.isFolder])).toEqual([
+        ['2800000000000000201', 'Episode 01.MKV', false],
+        ['2800000000000000101', 'Season 1.5', true],
+      ]);
+      expect(files[0]).toMatchObject({ parentId: '2800000000000000001', size: 734003200, ext: '.MKV' });
+    });
+
+    it('应该在重命名后更新列表中的名称', async () => {
+      const result = await adapter.syncAfterRename([
+        { fileId: '2800000000000000201', oldName: 'Episode 01.MKV', newName: 'S01E01.mkv' },
+      ]);
+
+      expect(result).toMatchObject({ success: true, method: 'dom-patch' });
+      const name = document.querySelector('li[file_id="2800000000000000201"] .name');
+      expect(name?.textContent).toBe('S01E01.mkv');
+      expect(name?.getAttribute('title')).toBe('S01E01.mkv');
+    });
+  });
+});
+
+describe('115 error mapping', () => {
+  it('应该从 errno / errNo / code 读取错误码', () => {
+    expect(getResponseErrno(rateLimited)).toBe(990009);
+    expect(getResponseErrno(loginExpired)).toBe(990001);
+    expect(getResponseErrno({ code: 0 })).toBe(0);
+    expect(getResponseErrno({ errno: '' })).toBe(0);
+  });
+
+  it('应该只重试限流和网络错误', () => {
+    expect(isRetryableError(new Pan115APIError(990009, getErrorMessage(990009)))).toBe(true);
+    expect(isRetryableError(new Pan115APIError(990001, getErrorMessage(990001)))).toBe(false);
+    expect(isRetryableError(new Error('Network error'))).toBe(true);
+    expect(getErrorMessage(123, 'fallback')).toBe('fallback');
+  });
+});
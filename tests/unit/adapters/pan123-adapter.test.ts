@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Pan123Adapter } from '../../../src/adapters/123pan/pan123-adapter';
+import { Pan123APIError, isRetryableError } from '../../../src/adapters/123pan/errors';
+import { buildDiagnosticFeedbackText } from '../../../src/core/diagnostic-session';
+import { detectPlatformFromUrl } from '../../../src/utils/platform-detector';
+import fileListPage1 from '../../fixtures/123pan/file-list-page-1.json';
+import fileListPage2 from '../../fixtures/123pan/file-list-page-2.json';
+import fileInfo from '../../fixtures/123pan/file-info.json';
+import renameOk from '../../fixtures/123pan/rename-ok.json';
+import renameDuplicate from '../../fixtures/123pan/rename-duplicate.json';
+import tooManyRequests from '../../fixtures/123pan/too-many-requests.json';
+import tokenExpired from '../../fixtures/123pan/token-expired.json';
+
+const callAPI = vi.fn();
+vi.mock('../../../src/adapters/123pan/page-script-injector', () => ({
+  getPageScriptInjector: () => ({ callAPI }),
+}));
+
+type Pan123Internals = {
+  rateLimit(): Promise<void>;
+  sleep(ms: number): Promise<void>;
+};
+
+type FixtureRoute = (url: URL, body?: Record<string, unknown>) => unknown;
+
+/**
+ * Serve recorded /b/api responses by request path
+ */
+function serveFixtures(routes: Record<string, FixtureRoute>) {
+  callAPI.mockImplementation(async (method: string, url: string, body?: Record<string, unknown>) => {
+    const parsed = new URL(url);
+    const route = routes[`${method} ${parsed.pathname}`];
+    if (!route) {
+      throw new Error(`No fixture for ${method} ${parsed.pathname}`);
+    }
+    return structuredClone(route(parsed, body));
+  });
+}
+
+const listRoute: FixtureRoute = (url) => (url.searchParams.get('Page') === '1' ? fileListPage1 : fileListPage2);
+
+describe('Pan123Adapter', () => {
+  let adapter: Pan123Adapter;
+
+  beforeEach(() => {
+    adapter = new Pan123Adapter({ requestInterval: 0 });
+    const internals = adapter as unknown as Pan123Internals;
+    vi.spyOn(internals, 'rateLimit').mockResolvedValue(undefined);
+    vi.spyOn(internals, 'sleep').mockResolvedValue(undefined);
+    window.history.replaceState(null, '', '/?homeFilePath=14800000,14810000');
+  });
+
+  afterEach(() => {
+    callAPI.mockReset();
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  it('应该按页读取当前目录直到 Next 为 -1', async () => {
+    serveFixtures({ 'GET /b/api/file/list/new': listRoute });
+
+    const files = await adapter.getAllFiles();
+
+    const urls = callAPI.mock.calls.map(([, url]) => new URL(url).searchParams);
+    expect(urls.map((params) => params.get('Page'))).toEqual(['1', '2']);
+    expect(urls[0].get('parentFileId')).toBe('14810000');
+    expect(files).toEqual([
+      {
+        id: '14820001',
+        name: 'Extras',
+        ext: '',
+        parentId: '14810000',
+        size: 0,
+        mtime: Date.parse('2024-01-01T08:00:00+08:00'),
+        isFolder: true,
+      },
+      expect.objectContaining({ id: '14820002', name: 'Release v1.0.ZIP', ext: '.ZIP', isFolder: false }),
+      expect.objectContaining({ id: '14820003', name: 'Release v1.1.zip' }),
+    ]);
+  });
+
+  it('应该读取页面中选中的行并以列表接口数据为准', async () => {
+    serveFixtures({ 'GET /b/api/file/list/new': listRoute });
+    document.body.innerHTML = `
+      <table><tbody>
+        <tr class="ant-table-row ant-table-row-selected" data-row-key="14820002"><td>Release v1.0.ZIP</td></tr>
+        <tr class="ant-table-row" data-row-key="14820003"><td>Release v1.1.zip</td></tr>
+      </tbody></table>`;
+
+    const files = await adapter.getSelectedFiles();
+
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatchObject({ id: '14820002', name: 'Release v1.0.ZIP', size: 10485760 });
+  });
+
+  it('应该通过 /file/rename 提交数字 FileId', async () => {
+    serveFixtures({ 'POST /b/api/file/rename': () => renameOk });
+
+    await expect(adapter.renameFile('14820002', 'release-1.0.zip')).resolves.toEqual({
+      success: true,
+      newName: 'release-1.0.zip',
+    });
+    expect(callAPI.mock.calls[0][2]).toEqual({ driveId: 0, fileId: 14820002, fileName: 'release-1.0.zip' });
+  });
+
+  it('应该把重名错误映射为 Pan123APIError 且不重试', async () => {
+    serveFixtures({ 'POST /b/api/file/rename': () => renameDuplicate });
+
+    const result = await adapter.renameFile('14820002', 'Release v1.1.zip');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(Pan123APIError);
+    expect(result.error).toMatchObject({ code: 5060, message: '同名文件已存在' });
+    expect(callAPI).toHaveBeenCalledTimes(1);
+  });
+
+  it('应该在限流时退避后重试', async () => {
+    const responses = [tooManyRequests, renameOk];
+    serveFixtures({ 'POST /b/api/file/rename': () => responses.shift() });
+
+    await expect(adapter.renameFile('14820002', 'release-1.0.zip')).resolves.toMatchObject({ success: true });
+    expect(callAPI).toHaveBeenCalledTimes(2);
+  });
+
+  it('应该忽略大小写检测冲突，接口失败时保守视为冲突', async () => {
+    serveFixtures({ 'GET /b/api/file/list/new': listRoute });
+    await expect(adapter.checkNameConflict('release v1.0.zip', '14810000')).resolves.toBe(true);
+    await expect(adapter.checkNameConflict('Release v2.0.zip', '14810000')).resolves.toBe(false);
+
+    serveFixtures({ 'GET /b/api/file/list/new': () => tokenExpired });
+    await expect(adapter.checkNameConflict('a.zip', '14810000')).resolves.toBe(true);
+  });
+
+  it('应该通过 /file/info 读取文件信息', async () => {
+    serveFixtures({ 'POST /b/api/file/info': () => fileInfo });
+
+    await expect(adapter.getFileInfo('14820002')).resolves.toMatchObject({
+      id: '14820002',
+      name: 'Release v1.0.ZIP',
+      parentId: '14810000',
+    });
+    expect(callAPI.mock.calls[0][2]).toEqual({ fileIdList: [{ fileId: 14820002 }] });
+  });
+
+  it('应该只重试限流和服务器错误', () => {
+    expect(isRetryableError(new Pan123APIError(429, 'x'))).toBe(true);
+    expect(isRetryableError(new Pan123APIError(401, 'x'))).toBe(false);
+  });
+});
+
+describe('123pan platform wiring', () => {
+  it('应该识别主站和镜像域名，跳过分享链接', () => {
+    expect(detectPlatformFromUrl('https://www.123pan.com/?homeFilePath=0')).toBe('123pan');
+    expect(detectPlatformFromUrl('https://www.123684.com/')).toBe('123pan');
+    expect(detectPlatformFromUrl('https://www.123pan.com/s/abcd-efg')).toBeNull();
+    expect(detectPlatformFromUrl('https://www.123pan.com.example.com/')).toBeNull();
+  });
+
+  it('应该在诊断反馈中显示平台名称', () => {
+    const text = buildDiagnosticFeedbackText({
+      platform: '123pan',
+      failedCount: 1,
+      exportedAt: 0,
+      fileName: 'diagnostic.json',
+      extensionVersion: '0.0.0',
+    });
+
+    expect(text).toContain('平台：123云盘');
+  });
+});
@@ -90,6 +90,7 @@ describe('QuarkAdapter', () => {
         parentId: 'test-dir-123',
         size: 1024,
         mtime: 1639584000000,
+        isFolder: false,
       });
       expect(files[1]).toEqual({
         id: 'file-2',
@@ -98,10 +99,11 @@ describe('QuarkAdapter', () => {
         parentId: 'test-dir-123',
         size: 2048,
         mtime: 1639584001000,
+        isFolder: false,
       });
     });
 
-    it('应该过滤掉文件夹，只返回文件', async () => {
+    it('应该返回选中的文件夹并标记 isFolder', async () => {
       document.body.innerHTML = `
         <table>
           <tr data-file-id="file-1" data-size="1024" data-mtime="1639584000000" class="is-directory">
@@ -121,9 +123,12 @@ describe('QuarkAdapter', () => {
 
       const files = await adapter.getSelectedFiles();
 
-      expect(files).toHaveLength(1);
-      expect(files[0].id).toBe('file-2');
-      expect(files[0].name).toBe('file.txt');
+      expect(files.map((file) => [file.id, file.isFolder])).toEqual([
+        ['file-1', true],
+        ['file-2', false],
+        ['file-3', true],
+      ]);
+      expect(files[0].ext).toBe('');
     });
 
     it('应该处理缺失的属性', async () => {
@@ -236,6 +241,7 @@ describe('QuarkAdapter', () => {
           parentId: '12345',
           size: 10,
           mtime: 111,
+          isFolder: false,
         },
         {
           id: 'dir-1',
@@ -244,6 +250,7 @@ describe('QuarkAdapter', () => {
           parentId: '12345',
           size: 0,
           mtime: 222,
+          isFolder: true,
         },
       ]);
 
@@ -554,6 +561,27 @@ describe('QuarkAdapter', () => {
       expect(hasConflict).toBe(false);
     });
 
+    it('应该忽略大小写检测文件名冲突（夸克不区分大小写）', async () => {
+      mockFetch.mockResolvedValue({
+        json: async () => ({
+          status: 200,
+          code: 0,
+          message: 'success',
+          timestamp: Date.now(),
+          data: {
+            list: [{ fid: 'file-1', file_name: 'Movie.MKV' }],
+          },
+        }),
+      });
+
+      const resultPromise = adapter.checkNameConflict('movie.mkv', 'parent-123');
+      await vi.runAllTimersAsync();
+      const hasConflict = await resultPromise;
+
+      expect(hasConflict).toBe(true);
+      expect(adapter.getConfig()).toMatchObject({ caseSensitive: false, caseOnlyRename: false });
+    });
+
     it('应该在API失败时保守返回true', async () => {
       mockFetch.mockRejectedValue(new Error('API error'));
 
@@ -642,6 +670,7 @@ describe('QuarkAdapter', () => {
         parentId: 'test-dir-123',
         size: 4096,
         mtime: 1639584000000,
+        isFolder: false,
       });
     });
 
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TianyiAdapter } from '../../../src/adapters/tianyi/tianyi-adapter';
+import { TianyiAPIError, isRetryableError } from '../../../src/adapters/tianyi/errors';
+import { buildSignature, md5 } from '../../../src/adapters/tianyi/signature';
+import { detectPlatformFromUrl } from '../../../src/utils/platform-detector';
+import listFilesPage1 from '../../fixtures/tianyi/list-files-page-1.json';
+import listFilesPage2 from '../../fixtures/tianyi/list-files-page-2.json';
+import fileInfo from '../../fixtures/tianyi/file-info.json';
+import renameOk from '../../fixtures/tianyi/rename-ok.json';
+import renameFileExists from '../../fixtures/tianyi/rename-file-exists.json';
+import serverBusy from '../../fixtures/tianyi/server-busy.json';
+import sessionExpired from '../../fixtures/tianyi/session-expired.json';
+
+const callAPI = vi.fn();
+vi.mock('../../../src/adapters/tianyi/page-script-injector', () => ({
+  getPageScriptInjector: () => ({ callAPI }),
+}));
+
+type TianyiInternals = {
+  rateLimit(): Promise<void>;
+  sleep(ms: number): Promise<void>;
+};
+
+type FixtureRoute = (params: Record<string, string | number>) => unknown;
+
+/**
+ * Serve recorded /api/open responses by request path
+ */
+function serveFixtures(routes: Record<string, FixtureRoute>) {
+  callAPI.mockImplementation(async (method: string, url: string, params: Record<string, string | number> = {}) => {
+    const { pathname } = new URL(url);
+    const route = routes[`${method} ${pathname}`];
+    if (!route) {
+      throw new Error(`No fixture for ${method} ${pathname}`);
+    }
+    return structuredClone(route(params));
+  });
+}
+
+const listRoute: FixtureRoute = (params) => (params.pageNum === 1 ? listFilesPage1 : listFilesPage2);
+
+describe('TianyiAdapter', () => {
+  let adapter: TianyiAdapter;
+
+  beforeEach(() => {
+    adapter = new TianyiAdapter({ requestInterval: 0 });
+    const internals = adapter as unknown as TianyiInternals;
+    vi.spyOn(internals, 'rateLimit').mockResolvedValue(undefined);
+    vi.spyOn(internals, 'sleep').mockResolvedValue(undefined);
+    window.history.replaceState(null, '', '/web/main/file/folder/923451099999');
+  });
+
+  afterEach(() => {
+    callAPI.mockReset();
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  it('应该分页读取当前目录直到条目数达到 count', async () => {
+    serveFixtures({ 'GET /api/open/file/listFiles.action': listRoute });
+
+    const files = await adapter.getAllFiles();
+
+    const params = callAPI.mock.calls.map(([, , requestParams]) => requestParams);
+    expect(params.map((p) => p.pageNum)).toEqual([1, 2]);
+    expect(params[0]).toMatchObject({ folderId: '923451099999', orderBy: 'filename', descending: 'false' });
+    expect(files).toEqual([
+      {
+        id: '923451100000',
+        name: 'Raw',
+        ext: '',
+        parentId: '923451099999',
+        size: 0,
+        mtime: Date.parse('2024-03-01T20:00:00+08:00'),
+        isFolder: true,
+        childCount: 12,
+      },
+      expect.objectContaining({ id: '923451100001', name: 'Trip 2024 001.JPG', ext: '.JPG', isFolder: false }),
+      expect.objectContaining({ id: '923451100002', name: 'Trip 2024 002.jpg', size: 2301952 }),
+    ]);
+  });
+
+  it('应该在根目录使用 -11 作为 folderId', async () => {
+    window.history.replaceState(null, '', '/web/main/file');
+    serveFixtures({ 'GET /api/open/file/listFiles.action': listRoute });
+
+    await adapter.getAllFiles();
+
+    expect(callAPI.mock.calls[0][2]).toMatchObject({ folderId: '-11' });
+    expect(adapter.getCurrentDirectoryKey()).toBe('-11');
+  });
+
+  it('应该读取页面中选中的行并以列表接口数据为准', async () => {
+    serveFixtures({ 'GET /api/open/file/listFiles.action': listRoute });
+    document.body.innerHTML = `
+      <ul>
+        <li class="c-file-item c-file-item-select" data-id="923451100001"><span class="c-file-item-name">Trip 2024 001.JPG</span></li>
+        <li class="c-file-item" data-id="923451100002"><span class="c-file-item-name">Trip 2024 002.jpg</span></li>
+      </ul>`;
+
+    const files = await adapter.getSelectedFiles();
+
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatchObject({ id: '923451100001', name: 'Trip 2024 001.JPG', size: 2457600 });
+  });
+
+  it('应该按条目类型选择文件或文件夹重命名接口', async () => {
+    serveFixtures({
+      'GET /api/open/file/listFiles.action': listRoute,
+      'POST /api/open/file/renameFile.action': () => renameOk,
+      'POST /api/open/file/renameFolder.action': () => renameOk,
+    });
+    await adapter.getAllFiles();
+    callAPI.mockClear();
+
+    await expect(adapter.renameFile('923451100001', 'trip-001.jpg')).resolves.toEqual({
+      success: true,
+      newName: 'trip-001.jpg',
+    });
+    await expect(adapter.renameFile('923451100000', 'RAW files')).resolves.toMatchObject({ success: true });
+
+    expect(callAPI.mock.calls.map(([method, url, params]) => [method, new URL(url).pathname, params])).toEqual([
+      ['POST', '/api/open/file/renameFile.action', { fileId: '923451100001', destFileName: 'trip-001.jpg' }],
+      ['POST', '/api/open/file/renameFolder.action', { folderId: '923451100000', destFolderName: 'RAW files' }],
+    ]);
+    await expect(adapter.getFileInfo('923451100001')).resolves.toMatchObject({ name: 'trip-001.jpg', ext: '.jpg' });
+  });
+
+  it('应该把重名错误映射为 TianyiAPIError 且不重试', async () => {
+    serveFixtures({ 'POST /api/open/file/renameFile.action': () => renameFileExists });
+
+    const result = await adapter.renameFile('923451100001', 'Trip 2024 002.jpg');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(TianyiAPIError);
+    expect(result.error).toMatchObject({ code: 'FileAlreadyExists', message: '同名文件已存在' });
+    expect(callAPI).toHaveBeenCalledTimes(1);
+  });
+
+  it('应该在服务器繁忙时退避后重试', async () => {
+    const responses = [serverBusy, renameOk];
+    serveFixtures({ 'POST /api/open/file/renameFile.action': () => responses.shift() });
+
+    await expect(adapter.renameFile('923451100001', 'trip-001.jpg')).resolves.toMatchObject({ success: true });
+    expect(callAPI).toHaveBeenCalledTimes(2);
+  });
+
+  it('应该忽略大小写检测冲突，接口失败时保守视为冲突', async () => {
+    serveFixtures({ 'GET /api/open/file/listFiles.action': listRoute });
+    await expect(adapter.checkNameConflict('trip 2024 001.jpg', '923451099999')).resolves.toBe(true);
+    await expect(adapter.checkNameConflict('raw', '923451099999')).resolves.toBe(true);
+    await expect(adapter.checkNameConflict('Trip 2024 003.jpg', '923451099999')).resolves.toBe(false);
+
+    serveFixtures({ 'GET /api/open/file/listFiles.action': () => sessionExpired });
+    await expect(adapter.checkNameConflict('a.jpg', '923451099999')).resolves.toBe(true);
+  });
+
+  it('应该通过 getFileInfo.action 读取未缓存的文件信息', async () => {
+    serveFixtures({ 'GET /api/open/file/getFileInfo.action': () => fileInfo });
+
+    await expect(adapter.getFileInfo('923451100002')).resolves.toMatchObject({
+      id: '923451100002',
+      name: 'Trip 2024 002.jpg',
+      parentId: '923451099999',
+      isFolder: false,
+    });
+    expect(callAPI.mock.calls[0][2]).toEqual({ fileId: '923451100002' });
+  });
+
+  it('应该在重命名后回写页面中的文件名', async () => {
+    document.body.innerHTML = `
+      <ul>
+        <li class="c-file-item" data-id="923451100001" title="Trip 2024 001.JPG">
+          <span class="c-file-item-name">Trip 2024 001.JPG</span>
+        </li>
+        <li class="c-file-item">
+          <span class="c-file-item-name">Trip 2024 002.jpg</span>
+        </li>
+      </ul>`;
+
+    const result = await adapter.syncAfterRename([
+      { fileId: '923451100001', oldName: 'Trip 2024 001.JPG', newName: 'trip-001.jpg' },
+      { fileId: '923451100002', oldName: 'Trip 2024 002.jpg', newName: 'trip-002.jpg' },
+    ]);
+
+    expect(result).toMatchObject({ success: true, method: 'dom-patch' });
+    const names = Array.from(document.querySelectorAll('.c-file-item-name')).map((el) => el.textContent);
+    expect(names).toEqual(['trip-001.jpg', 'trip-002.jpg']);
+    expect(document.querySelector('[data-id="923451100001"]')?.getAttribute('title')).toBe('trip-001.jpg');
+  });
+
+  it('应该只重试服务器繁忙、限流和网络错误', () => {
+    expect(isRetryableError(new TianyiAPIError('ServerBusy', 'x'))).toBe(true);
+    expect(isRetryableError(new TianyiAPIError('InvalidSessionKey', 'x'))).toBe(false);
+    expect(isRetryableError(new Error('Network error'))).toBe(true);
+  });
+});
+
+describe('Tianyi request signing', () => {
+  it('应该输出标准 MD5 摘要', () => {
+    expect(md5('')).toBe('d41d8cd98f00b204e9800998ecf8427e');
+    expect(md5('abc')).toBe('900150983cd24fb0d6963f7d28e17f72');
+    expect(md5('The quick brown fox jumps over the lazy dog')).toBe('9e107d9d372bb6826bd81d3542a419d6');
+  });
+
+  it('应该按参数名排序后拼接签名原文', () => {
+    const signature = buildSignature({ AccessToken: 'token' }, 1700000000000, { pageNum: 1, folderId: '-11' });
+
+    expect(signature).toBe(md5('AccessToken=token&Timestamp=1700000000000&folderId=-11&pageNum=1'));
+  });
+});
+
+describe('Tianyi platform wiring', () => {
+  it('应该识别网页版云盘，跳过分享链接', () => {
+    expect(detectPlatformFromUrl('https://cloud.189.cn/web/main/file/folder/-11')).toBe('tianyi');
+    expect(detectPlatformFromUrl('https://cloud.189.cn/t/AbCdEf')).toBeNull();
+    expect(detectPlatformFromUrl('https://cloud.189.cn/web/share?code=AbCdEf')).toBeNull();
+  });
+});
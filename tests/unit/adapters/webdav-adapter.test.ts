@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebDAVAdapter } from '../../../src/adapters/webdav/webdav-adapter';
+import { WebDAVError, classifyError, isRetryableError } from '../../../src/adapters/webdav/errors';
+import { parseMultistatus, toRelativePath, toRequestURL } from '../../../src/adapters/webdav/multistatus';
+import {
+  buildAuthorizationHeader,
+  loadWebDAVConnection,
+  normalizeEndpoint,
+  saveWebDAVConnection,
+} from '../../../src/adapters/webdav/connection';
+import { WEBDAV_CONNECTION_STORAGE_KEY } from '../../../src/types/webdav';
+import propfindRoot from '../../fixtures/webdav/propfind-root.xml?raw';
+import propfindMovies from '../../fixtures/webdav/propfind-movies.xml?raw';
+import propfindFile from '../../fixtures/webdav/propfind-file.xml?raw';
+
+const ENDPOINT = 'http://nas.local:5244/dav';
+
+type WebDAVInternals = {
+  rateLimit(): Promise<void>;
+  sleep(ms: number): Promise<void>;
+};
+
+type Route = (request: { url: URL; headers: Record<string, string> }) => {
+  status: number;
+  body?: string;
+  headers?: Record<string, string>;
+};
+
+const fetchMock = vi.fn();
+
+/**
+ * Serve recorded WebDAV responses by method and request path
+ */
+function serveRoutes(routes: Record<string, Route>) {
+  fetchMock.mockImplementation(async (input: string, init: RequestInit = {}) => {
+    const url = new URL(input);
+    const method = init.method ?? 'GET';
+    const route = routes[`${method} ${url.pathname}`];
+    if (!route) {
+      return new Response('', { status: 404 });
+    }
+    const { status, body, headers } = route({ url, headers: (init.headers ?? {}) as Record<string, string> });
+    return new Response(status === 204 ? null : body ?? '', { status, headers });
+  });
+}
+
+const multistatus = (body: string): Route => () => ({ status: 207, body });
+const status = (code: number): Route => () => ({ status: code });
+
+function requests() {
+  return fetchMock.mock.calls.map(([input, init]: [string, RequestInit]) => ({
+    method: init.method,
+    path: new URL(input).pathname,
+    headers: init.headers as Record<string, string>,
+  }));
+}
+
+describe('WebDAVAdapter', () => {
+  let adapter: WebDAVAdapter;
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    adapter = new WebDAVAdapter({ endpoint: `${ENDPOINT}/`, username: 'dev', password: 'secret' }, { requestInterval: 0 });
+    const internals = adapter as unknown as WebDAVInternals;
+    vi.spyOn(internals, 'rateLimit').mockResolvedValue(undefined);
+    vi.spyOn(internals, 'sleep').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('应该通过 PROPFIND Depth: 1 列出目录并去掉目录自身', async () => {
+    serveRoutes({ 'PROPFIND /dav/': multistatus(propfindRoot) });
+
+    const files = await adapter.getAllFiles();
+
+    expect(requests()[0]).toMatchObject({
+      method: 'PROPFIND',
+      path: '/dav/',
+      headers: { Depth: '1', Authorization: `Basic ${btoa('dev:secret')}` },
+    });
+    expect(files).toEqual([
+      {
+        id: '/Movies',
+        name: 'Movies',
+        ext: '',
+        parentId: '/',
+        size: 0,
+        mtime: Date.parse('2024-03-01T12:00:00Z'),
+        isFolder: true,
+      },
+      expect.objectContaining({ id: '/Trip 2024 001.JPG', ext: '.JPG', size: 2457600, isFolder: false }),
+      expect.objectContaining({ id: '/笔记.txt', name: '笔记.txt', parentId: '/' }),
+    ]);
+  });
+
+  it('应该用 MOVE 重命名，撤销时按原 ID 找到新路径', async () => {
+    serveRoutes({
+      'PROPFIND /dav/': multistatus(propfindRoot),
+      'MOVE /dav/Trip%202024%20001.JPG': status(201),
+      'MOVE /dav/trip-001.jpg': status(201),
+    });
+    await adapter.getAllFiles();
+    fetchMock.mockClear();
+
+    await expect(adapter.renameFile('/Trip 2024 001.JPG', 'trip-001.jpg')).resolves.toEqual({
+      success: true,
+      newName: 'trip-001.jpg',
+    });
+    await expect(adapter.renameFile('/Trip 2024 001.JPG', 'Trip 2024 001.JPG')).resolves.toMatchObject({
+      success: true,
+    });
+
+    expect(requests().map(({ path, headers }) => [path, headers.Destination, headers.Overwrite])).toEqual([
+      ['/dav/Trip%202024%20001.JPG', `${ENDPOINT}/trip-001.jpg`, 'F'],
+      ['/dav/trip-001.jpg', `${ENDPOINT}/Trip%202024%20001.JPG`, 'F'],
+    ]);
+  });
+
+  it('应该在文件夹改名后按新路径访问其中的文件，并保持原 ID', async () => {
+    serveRoutes({
+      'PROPFIND /dav/': multistatus(propfindRoot),
+      'PROPFIND /dav/Movies/': multistatus(propfindMovies),
+      'MOVE /dav/Movies/': status(201),
+      'PROPFIND /dav/Films/': multistatus(propfindMovies.split('/dav/Movies/').join('/dav/Films/')),
+      'MOVE /dav/Films/Heat%20(1995).mkv': status(204),
+    });
+    await adapter.getAllFiles();
+    await adapter.getAllFiles('/Movies');
+
+    await adapter.renameFile('/Movies', 'Films');
+    const relisted = await adapter.getAllFiles('/Movies');
+    const result = await adapter.renameFile('/Movies/Heat (1995).mkv', 'Heat.1995.mkv');
+
+    expect(result.success).toBe(true);
+    expect(relisted.map((file) => [file.id, file.parentId])).toEqual([
+      ['/Movies/Extras', '/Movies'],
+      ['/Movies/Heat (1995).mkv', '/Movies'],
+    ]);
+    const moves = requests().filter((request) => request.method === 'MOVE');
+    expect(moves.map(({ path, headers }) => [path, headers.Destination])).toEqual([
+      ['/dav/Movies/', `${ENDPOINT}/Films/`],
+      ['/dav/Films/Heat%20(1995).mkv', `${ENDPOINT}/Films/Heat.1995.mkv`],
+    ]);
+  });
+
+  it('应该把 412 映射为重名错误且不重试', async () => {
+    serveRoutes({ 'MOVE /dav/a.txt': status(412) });
+
+    const result = await adapter.renameFile('/a.txt', 'b.txt');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(WebDAVError);
+    expect(result.error).toMatchObject({ status: 412, message: '同名文件已存在' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('应该在服务暂时不可用时退避后重试', async () => {
+    const statuses = [503, 201];
+    serveRoutes({ 'MOVE /dav/a.txt': () => ({ status: statuses.shift() ?? 500 }) });
+
+    await expect(adapter.renameFile('/a.txt', 'b.txt')).resolves.toMatchObject({ success: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('应该按 Retry-After 等待后重试，并在错误分类中带上等待时间', async () => {
+    serveRoutes({ 'MOVE /dav/a.txt': () => ({ status: 429, headers: { 'Retry-After': '3' } }) });
+    const sleep = vi.spyOn(adapter as unknown as WebDAVInternals, 'sleep');
+
+    const result = await adapter.renameFile('/a.txt', 'b.txt');
+
+    expect(sleep.mock.calls).toEqual([[3000], [3000]]);
+    expect(result.error).toMatchObject({ status: 429, retryAfterMs: 3000 });
+    expect(classifyError(result.error)).toEqual({ category: 'throttled', retryAfterMs: 3000 });
+  });
+
+  it('应该按目录列表检测冲突，请求失败时保守视为冲突', async () => {
+    serveRoutes({ 'PROPFIND /dav/': multistatus(propfindRoot) });
+    await expect(adapter.checkNameConflict('Movies', '/')).resolves.toBe(true);
+    await expect(adapter.checkNameConflict('movies', '/')).resolves.toBe(false);
+
+    serveRoutes({ 'PROPFIND /dav/': status(401) });
+    await expect(adapter.checkNameConflict('a.txt', '/')).resolves.toBe(true);
+  });
+
+  it('应该用 MKCOL 建目录并逐个 MOVE 到目标目录', async () => {
+    serveRoutes({
+      'PROPFIND /dav/': multistatus(propfindRoot),
+      'MKCOL /dav/Photos/': status(201),
+      'MOVE /dav/Trip%202024%20001.JPG': status(201),
+      'MOVE /dav/%E7%AC%94%E8%AE%B0.txt': status(423),
+    });
+
+    await expect(adapter.createFolder('Movies', '/')).resolves.toBe('/Movies');
+    const folderId = await adapter.createFolder('Photos', '/');
+    const result = await adapter.moveFiles(['/Trip 2024 001.JPG', '/笔记.txt'], folderId);
+
+    expect(folderId).toBe('/Photos');
+    expect(result).toMatchObject({ success: false, failedIds: ['/笔记.txt'] });
+    expect(requests().find((request) => request.method === 'MOVE')?.headers.Destination).toBe(
+      `${ENDPOINT}/Photos/Trip%202024%20001.JPG`
+    );
+    expect(adapter.capabilities).toMatchObject({ move: true, recursiveListing: true, fileIdKind: 'path' });
+  });
+
+  it('应该通过 PROPFIND Depth: 0 读取未缓存的文件信息', async () => {
+    serveRoutes({ 'PROPFIND /dav/Movies/Heat%20(1995).mkv': multistatus(propfindFile) });
+
+    await expect(adapter.getFileInfo('/Movies/Heat (1995).mkv')).resolves.toMatchObject({
+      name: 'Heat (1995).mkv',
+      parentId: '/Movies',
+      size: 7340032000,
+    });
+    expect(requests()[0].headers.Depth).toBe('0');
+  });
+
+  it('应该只重试限流、网关错误和网络错误', () => {
+    expect(isRetryableError(new WebDAVError(503, 'x'))).toBe(true);
+    expect(isRetryableError(new WebDAVError(401, 'x'))).toBe(false);
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+  });
+});
+
+describe('WebDAV multistatus parsing', () => {
+  it('应该把绝对路径和完整 URL 形式的 href 转为解码后的相对路径', () => {
+    expect(toRelativePath('/dav/a%20b/', ENDPOINT)).toBe('/a b');
+    expect(toRelativePath('http://nas.local:5244/dav/', ENDPOINT)).toBe('/');
+    expect(toRelativePath('/a.txt', 'http://localhost:8080')).toBe('/a.txt');
+    expect(toRequestURL(ENDPOINT, '/a b/c#1.txt')).toBe(`${ENDPOINT}/a%20b/c%231.txt`);
+  });
+
+  it('应该只读取 200 状态的属性', () => {
+    const [, , movies] = parseMultistatus(propfindRoot, ENDPOINT);
+
+    expect(movies).toMatchObject({ path: '/Movies', isFolder: true, size: 0 });
+  });
+
+  it('应该在响应不是 XML 时抛出错误', () => {
+    expect(() => parseMultistatus('<html><body>Login', ENDPOINT)).toThrow('无法解析 PROPFIND 响应');
+  });
+});
+
+describe('WebDAV connection storage', () => {
+  beforeEach(() => {
+    const data: Record<string, unknown> = {};
+    vi.stubGlobal('chrome', {
+      storage: {
+        local: {
+          get: vi.fn(async (key: string) => ({ [key]: data[key] })),
+          set: vi.fn(async (items: Record<string, unknown>) => Object.assign(data, items)),
+        },
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('应该规范化服务地址后保存，并在读取时校验格式', async () => {
+    const saved = await saveWebDAVConnection({ endpoint: ' http://nas.local:5244/dav/?x=1 ', username: 'u', password: 'p' });
+
+    expect(saved.endpoint).toBe(ENDPOINT);
+    await expect(loadWebDAVConnection()).resolves.toEqual(saved);
+
+    await chrome.storage.local.set({ [WEBDAV_CONNECTION_STORAGE_KEY]: { endpoint: ENDPOINT } });
+    await expect(loadWebDAVConnection()).resolves.toBeNull();
+  });
+
+  it('应该拒绝非 http(s) 地址，并按 UTF-8 编码认证信息', () => {
+    expect(() => normalizeEndpoint('ftp://nas.local/dav')).toThrow('http://');
+    expect(buildAuthorizationHeader({ endpoint: ENDPOINT, username: '', password: '' })).toBeNull();
+    expect(buildAuthorizationHeader({ endpoint: ENDPOINT, username: '用户', password: 'p' })).toBe(
+      `Basic ${Buffer.from('用户:p').toString('base64')}`
+    );
+  });
+});
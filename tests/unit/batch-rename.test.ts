@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BatchExecutor } from '../../src/core/executor';
+import {
+  FileItem,
+  PlatformAdapter,
+  RenameBatchItem,
+  RenameBatchResult,
+  RenameResult,
+} from '../../src/types/platform';
+import { ProgressEvent, Task } from '../../src/types/core';
+
+function createItem(id: string, name: string): FileItem {
+  return { id, name, ext: '.txt', parentId: 'root', size: 0, mtime: 1 };
+}
+
+class BatchAdapter implements PlatformAdapter {
+  readonly platform = 'baidu' as const;
+  names = new Map<string, string>();
+  failIds = new Set<string>();
+  batchError: Error | null = null;
+  readonly renameFile = vi.fn(async (fileId: string, newName: string): Promise<RenameResult> => {
+    this.names.set(fileId, newName);
+    return { success: true, newName };
+  });
+  readonly renameFiles = vi.fn(async (batch: RenameBatchItem[]): Promise<RenameBatchResult[]> => {
+    if (this.batchError) {
+      throw this.batchError;
+    }
+    return batch.map(({ fileId, newName }) => {
+      if (this.failIds.has(fileId)) {
+        return { fileId, success: false, error: new Error('denied') };
+      }
+      this.names.set(fileId, newName);
+      return { fileId, success: true, newName };
+    });
+  });
+
+  constructor(private readonly batchSize = 2) {}
+
+  getCurrentDirectoryKey(): string {
+    return 'root';
+  }
+
+  async getSelectedFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async getAllFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async checkNameConflict(): Promise<boolean> {
+    return false;
+  }
+
+  async getFileInfo(fileId: string): Promise<FileItem> {
+    return createItem(fileId, fileId);
+  }
+
+  getConfig() {
+    return { platform: 'baidu' as const, requestInterval: 0, maxRetries: 0, renameBatchSize: this.batchSize };
+  }
+}
+
+function createExecutor(adapter: PlatformAdapter, tasks: Task[], onProgress?: (progress: ProgressEvent) => void) {
+  return new BatchExecutor(
+    tasks.map((task) => task.file),
+    { type: 'prefix', params: { prefix: 'x' } },
+    adapter,
+    { requestInterval: 0, maxConcurrent: 1, tasks, onProgress }
+  );
+}
+
+describe('BatchExecutor with a batch rename endpoint', () => {
+  const tasks: Task[] = ['a', 'b', 'c', 'd', 'e'].map((name, index) => ({
+    file: createItem(name, `${name}.txt`),
+    newName: `new-${name}.txt`,
+    index,
+  }));
+
+  it('splits tasks into platform-sized chunks and reports every file', async () => {
+    const adapter = new BatchAdapter(2);
+    adapter.failIds.add('c');
+    const progress: ProgressEvent[] = [];
+
+    const results = await createExecutor(adapter, tasks, (event) => progress.push(event)).execute();
+
+    expect(adapter.renameFiles.mock.calls.map(([batch]) => batch.map((item) => item.fileId))).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+      ['e'],
+    ]);
+    expect(adapter.renameFile).not.toHaveBeenCalled();
+    expect(results.success.map((item) => item.fileId)).toEqual(['a', 'b', 'd', 'e']);
+    expect(results.failed).toMatchObject([{ fileId: 'c', error: 'denied', index: 2 }]);
+    expect(progress.map((event) => [event.fileId, event.status, event.completed])).toEqual([
+      ['a', 'success', 1],
+      ['b', 'success', 2],
+      ['c', 'failed', 3],
+      ['d', 'success', 4],
+      ['e', 'success', 5],
+    ]);
+  });
+
+  it('fails every file of a chunk when the whole request fails', async () => {
+    const adapter = new BatchAdapter(10);
+    adapter.batchError = new Error('network down');
+
+    const results = await createExecutor(adapter, tasks.slice(0, 3)).execute();
+
+    expect(results.success).toEqual([]);
+    expect(results.failed.map((item) => [item.fileId, item.error])).toEqual([
+      ['a', 'network down'],
+      ['b', 'network down'],
+      ['c', 'network down'],
+    ]);
+  });
+
+  it('runs swaps through temporary names in batches and records them for recovery', async () => {
+    const adapter = new BatchAdapter(10);
+    const onTempNameChange = vi.fn();
+    const swap: Task[] = [
+      { file: createItem('a', 'A.txt'), newName: 'B.txt', index: 0 },
+      { file: createItem('b', 'B.txt'), newName: 'A.txt', index: 1 },
+    ];
+
+    const executor = new BatchExecutor(
+      swap.map((task) => task.file),
+      { type: 'prefix', params: { prefix: 'x' } },
+      adapter,
+      { requestInterval: 0, tasks: swap, onTempNameChange }
+    );
+    const results = await executor.execute();
+
+    expect(adapter.renameFiles).toHaveBeenCalledTimes(2);
+    expect(results.success.map((item) => item.renamed)).toEqual(['B.txt', 'A.txt']);
+    expect(adapter.names.get('a')).toBe('B.txt');
+    expect(onTempNameChange.mock.calls.map(([, tempName]) => tempName === null)).toEqual([false, false, true, true]);
+  });
+
+  it('keeps renaming one file per request on platforms without a batch endpoint', async () => {
+    const adapter = new BatchAdapter(10);
+    const single = adapter as Partial<BatchAdapter>;
+    delete single.renameFiles;
+
+    const results = await createExecutor(adapter, tasks.slice(0, 2)).execute();
+
+    expect(adapter.renameFile).toHaveBeenCalledTimes(2);
+    expect(results.success).toHaveLength(2);
+  });
+});
@@ -0,0 +1,263 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildExecutionPlan, planRenamePhases } from '../../src/core/execution-plan';
+import { BatchExecutor } from '../../src/core/executor';
+import { BaiduAdapter } from '../../src/adapters/baidu/baidu-adapter';
+import { QuarkAdapter } from '../../src/adapters/quark/quark';
+import { checkAllConflicts, checkBatchConflicts, ConflictResolution } from '../../src/core/conflict-detector';
+import { FileItem, PlatformAdapter, PlatformConfig, RenameResult } from '../../src/types/platform';
+import { Task } from '../../src/types/core';
+
+const baiduInjector = vi.hoisted(() => ({ callAPI: vi.fn() }));
+vi.mock('../../src/adapters/baidu/page-script-injector', () => ({
+  getPageScriptInjector: () => baiduInjector,
+}));
+
+const quarkInjector = vi.hoisted(() => ({ callAPI: vi.fn() }));
+vi.mock('../../src/adapters/quark/page-script-injector', () => ({
+  getPageScriptInjector: () => quarkInjector,
+}));
+
+/** 测试中替换的适配器内部方法 */
+interface AdapterInternals {
+  rateLimit(): Promise<void>;
+  sleep(ms: number): Promise<void>;
+  extractBdstoken(): Promise<string | null>;
+  getFileInfoFromDOM(fileId: string): Promise<FileItem>;
+}
+
+function createFile(id: string, name: string): FileItem {
+  const dot = name.lastIndexOf('.');
+  return { id, name, ext: dot > 0 ? name.slice(dot) : '', parentId: 'root', size: 1, mtime: 1 };
+}
+
+/**
+ * 模拟不区分大小写的目录；caseOnlyRename 为 false 时拒绝仅大小写不同的改名
+ */
+class CaseInsensitiveAdapter implements PlatformAdapter {
+  readonly platform = 'quark' as const;
+  readonly names = new Map<string, string>();
+  readonly calls: Array<[string, string]> = [];
+
+  constructor(
+    files: FileItem[],
+    private readonly caseOnlyRename: boolean
+  ) {
+    files.forEach((file) => this.names.set(file.id, file.name));
+  }
+
+  getCurrentDirectoryKey(): string {
+    return 'root';
+  }
+
+  async getSelectedFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async getAllFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async renameFile(fileId: string, newName: string): Promise<RenameResult> {
+    this.calls.push([fileId, newName]);
+    const current = this.names.get(fileId) ?? '';
+    const taken = Array.from(this.names.entries()).some(
+      ([id, name]) => id !== fileId && name.toLowerCase() === newName.toLowerCase()
+    );
+    const caseOnly = current !== newName && current.toLowerCase() === newName.toLowerCase();
+    if (taken || (caseOnly && !this.caseOnlyRename)) {
+      return { success: false, error: new Error(`Name taken: ${newName}`) };
+    }
+    this.names.set(fileId, newName);
+    return { success: true, newName };
+  }
+
+  async checkNameConflict(fileName: string): Promise<boolean> {
+    return Array.from(this.names.values()).some((name) => name.toLowerCase() === fileName.toLowerCase());
+  }
+
+  async getFileInfo(fileId: string): Promise<FileItem> {
+    return createFile(fileId, this.names.get(fileId) ?? '');
+  }
+
+  getConfig(): PlatformConfig {
+    return {
+      platform: 'quark',
+      requestInterval: 0,
+      maxRetries: 0,
+      caseSensitive: false,
+      caseOnlyRename: this.caseOnlyRename,
+    };
+  }
+}
+
+function runTasks(tasks: Task[], adapter: PlatformAdapter) {
+  return new BatchExecutor(
+    tasks.map((task) => task.file),
+    { type: 'prefix', params: { prefix: '' } },
+    adapter,
+    { requestInterval: 0, tasks, skipUnchanged: true }
+  ).execute();
+}
+
+describe('case-only renames', () => {
+  it('does not report a case-only rename as conflicting with the file itself', async () => {
+    const files = [createFile('1', 'movie.MKV'), createFile('2', 'Show')];
+    const adapter = new CaseInsensitiveAdapter(files, false);
+
+    const conflicts = await checkAllConflicts(files, ['movie.mkv', 'show'], adapter);
+
+    expect(Array.from(conflicts.values()).every((result) => !result.hasConflict)).toBe(true);
+  });
+
+  it('still reports an existing file that differs only in case', async () => {
+    const files = [createFile('1', 'a.mkv')];
+    const adapter = new CaseInsensitiveAdapter(files, false);
+    adapter.names.set('9', 'B.mkv');
+
+    const conflicts = await checkAllConflicts(files, ['b.mkv'], adapter);
+
+    expect(conflicts.get('1')?.hasConflict).toBe(true);
+  });
+
+  it('treats batch names differing only in case as duplicates only on case-insensitive platforms', () => {
+    const files = [createFile('1', 'a.txt'), createFile('2', 'b.txt')];
+
+    expect(checkBatchConflicts(files, ['X.txt', 'x.txt'], { caseSensitive: false }).get('1')?.hasConflict).toBe(true);
+    expect(checkBatchConflicts(files, ['X.txt', 'x.txt']).get('1')?.hasConflict).toBe(false);
+  });
+
+  it('keeps case-only changes in the execution plan and numbers case-insensitive duplicates', () => {
+    const files = [createFile('1', 'movie.MKV'), createFile('2', 'a.txt'), createFile('3', 'b.txt')];
+    const newNames = ['movie.mkv', 'X.txt', 'x.txt'];
+
+    const plan = buildExecutionPlan({
+      files,
+      newNames,
+      conflicts: checkBatchConflicts(files, newNames, { caseSensitive: false }),
+      resolution: ConflictResolution.AUTO_NUMBER,
+      caseSensitive: false,
+    });
+
+    expect(plan.skippedIndexes).toEqual([]);
+    expect(plan.resolvedNames).toEqual(['movie.mkv', 'X(1).txt', 'x(2).txt']);
+  });
+
+  it('plans a temporary name for case-only renames only when the platform rejects them', () => {
+    const tasks = [{ file: createFile('1', 'Show'), newName: 'show', index: 0 }];
+
+    expect(planRenamePhases(tasks, { caseSensitive: false, caseOnlyRename: false }).tempTasks).toHaveLength(1);
+    expect(planRenamePhases(tasks, { caseSensitive: false, caseOnlyRename: true }).tempTasks).toEqual([]);
+  });
+
+  it('detects swaps that differ only in case on case-insensitive platforms', () => {
+    const tasks = [
+      { file: createFile('1', 'A.txt'), newName: 'b.txt', index: 0 },
+      { file: createFile('2', 'B.txt'), newName: 'a.txt', index: 1 },
+    ];
+
+    expect(planRenamePhases(tasks, { caseSensitive: false }).tempTasks).toHaveLength(2);
+    expect(planRenamePhases(tasks).tempTasks).toEqual([]);
+  });
+
+  it('routes case-only renames through a temporary name when the platform rejects them', async () => {
+    const tasks = [{ file: createFile('1', 'movie.MKV'), newName: 'movie.mkv', index: 0 }];
+    const adapter = new CaseInsensitiveAdapter([tasks[0].file], false);
+
+    const results = await runTasks(tasks, adapter);
+
+    expect(results.failed).toEqual([]);
+    expect(adapter.names.get('1')).toBe('movie.mkv');
+    expect(adapter.calls).toHaveLength(2);
+    expect(adapter.calls[0][1]).toMatch(/^cdr-tmp-.*\.MKV$/);
+  });
+
+  it('renames case-only changes directly when the platform accepts them', async () => {
+    const tasks = [{ file: createFile('1', 'Show'), newName: 'show', index: 0 }];
+    const adapter = new CaseInsensitiveAdapter([tasks[0].file], true);
+
+    const results = await runTasks(tasks, adapter);
+
+    expect(results.failed).toEqual([]);
+    expect(adapter.calls).toEqual([['1', 'show']]);
+  });
+});
+
+describe('case-only renames on platform adapters', () => {
+  /** 不区分大小写的同目录名称表：仅大小写不同的改名（包括改自身）按重名拒绝 */
+  function isRejected(names: Map<string, string>, fileId: string, newName: string): boolean {
+    return Array.from(names).some(
+      ([id, name]) => name.toLowerCase() === newName.toLowerCase() && (id !== fileId || name !== newName)
+    );
+  }
+
+  beforeEach(() => {
+    baiduInjector.callAPI.mockReset();
+    quarkInjector.callAPI.mockReset();
+  });
+
+  it('renames a case-only change on Baidu through a temporary name using the current path', async () => {
+    const file = { ...createFile('1', 'movie.MKV'), parentId: '/docs' };
+    const adapter = new BaiduAdapter({ requestInterval: 0 });
+    const internals = adapter as unknown as AdapterInternals;
+    vi.spyOn(internals, 'rateLimit').mockResolvedValue(undefined);
+    vi.spyOn(internals, 'sleep').mockResolvedValue(undefined);
+    vi.spyOn(internals, 'extractBdstoken').mockResolvedValue('token');
+    // 页面 DOM 仍显示改名前的名称
+    vi.spyOn(internals, 'getFileInfoFromDOM').mockResolvedValue(file);
+
+    const names = new Map([['1', 'movie.MKV']]);
+    const requests: Array<{ path: string; newname: string }> = [];
+    const tasks = new Map<number, { status: string; list: Array<{ from: string; errno?: number }> }>();
+    baiduInjector.callAPI.mockImplementation(async (_method: string, url: string, body: { filelist?: string }) => {
+      if (url.includes('/share/taskquery')) {
+        return { errno: 0, ...tasks.get(Number(new URL(url).searchParams.get('taskid'))) };
+      }
+      const list = (JSON.parse(body.filelist ?? '[]') as Array<{ id: number; path: string; newname: string }>).map((item) => {
+        requests.push({ path: item.path, newname: item.newname });
+        const id = String(item.id);
+        if (item.path !== `/docs/${names.get(id)}` || isRejected(names, id, item.newname)) {
+          return { from: item.path, errno: -8 };
+        }
+        names.set(id, item.newname);
+        return { from: item.path };
+      });
+      const taskid = tasks.size + 1;
+      tasks.set(taskid, { status: list.some((entry) => entry.errno) ? 'failed' : 'success', list });
+      return { errno: 0, taskid };
+    });
+
+    const results = await runTasks([{ file, newName: 'movie.mkv', index: 0 }], adapter);
+
+    expect(results.failed).toEqual([]);
+    expect(names.get('1')).toBe('movie.mkv');
+    expect(requests).toEqual([
+      { path: '/docs/movie.MKV', newname: expect.stringMatching(/^cdr-tmp-.*\.MKV$/) },
+      { path: expect.stringMatching(/^\/docs\/cdr-tmp-.*\.MKV$/), newname: 'movie.mkv' },
+    ]);
+  });
+
+  it('renames a case-only change on Quark through a temporary name by file ID', async () => {
+    const adapter = new QuarkAdapter({ requestInterval: 0, maxRetries: 1 });
+    vi.spyOn(adapter as unknown as AdapterInternals, 'rateLimit').mockResolvedValue(undefined);
+
+    const names = new Map([['fid-1', 'Show']]);
+    const requests: Array<[string, string]> = [];
+    quarkInjector.callAPI.mockImplementation(async (_method: string, _url: string, body: { fid: string; file_name: string }) => {
+      requests.push([body.fid, body.file_name]);
+      if (isRejected(names, body.fid, body.file_name)) {
+        return { status: 400, code: 1003, message: 'file name conflict' };
+      }
+      names.set(body.fid, body.file_name);
+      return { status: 200, code: 0 };
+    });
+
+    const results = await runTasks([{ file: createFile('fid-1', 'Show'), newName: 'show', index: 0 }], adapter);
+
+    expect(results.failed).toEqual([]);
+    expect(names.get('fid-1')).toBe('show');
+    expect(requests).toEqual([
+      ['fid-1', expect.stringMatching(/^cdr-tmp-/)],
+      ['fid-1', 'show'],
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { CaseRule, splitWords } from '../../src/rules/case';
+import { RuleFactory } from '../../src/rules/rule-factory';
+
+describe('CaseRule', () => {
+  it('should convert to upper and lower case keeping separators', () => {
+    expect(new CaseRule({ mode: 'upper' }).execute('my_movie file.mkv')).toBe('MY_MOVIE FILE.mkv');
+    expect(new CaseRule({ mode: 'lower' }).execute('THE.OFFICE.s01e01.mp4')).toBe('the.office.s01e01.mp4');
+  });
+
+  it('should apply title case with default stop words', () => {
+    const rule = new CaseRule({ mode: 'title' });
+    expect(rule.execute('THE.LORD.OF.THE.RINGS.mkv')).toBe('The.Lord.of.the.Rings.mkv');
+    expect(rule.execute('war and peace.txt')).toBe('War and Peace.txt');
+  });
+
+  it('should always capitalize first and last word in title case', () => {
+    const rule = new CaseRule({ mode: 'title', stopWords: 'of, the' });
+    expect(rule.execute('the end of.txt')).toBe('The End Of.txt');
+  });
+
+  it('should respect a custom stop word list', () => {
+    const rule = new CaseRule({ mode: 'title', stopWords: '' });
+    expect(rule.execute('war and peace.txt')).toBe('War And Peace.txt');
+  });
+
+  it('should apply sentence case', () => {
+    expect(new CaseRule({ mode: 'sentence' }).execute('HELLO WORLD.txt')).toBe('Hello world.txt');
+  });
+
+  it('should join words for camel, snake and kebab case', () => {
+    expect(new CaseRule({ mode: 'camel' }).execute('my_movie file.mkv')).toBe('myMovieFile.mkv');
+    expect(new CaseRule({ mode: 'snake' }).execute('myMovieFile.mkv')).toBe('my_movie_file.mkv');
+    expect(new CaseRule({ mode: 'kebab' }).execute('THE.OFFICE s01e01.mkv')).toBe('the-office-s01e01.mkv');
+  });
+
+  it('should convert extension only when includeExtension is true', () => {
+    expect(new CaseRule({ mode: 'lower' }).execute('PHOTO.JPG')).toBe('photo.JPG');
+    expect(new CaseRule({ mode: 'lower', includeExtension: true }).execute('PHOTO.JPG')).toBe('photo.jpg');
+    expect(new CaseRule({ mode: 'upper', includeExtension: true }).execute('photo.jpg')).toBe('PHOTO.JPG');
+  });
+
+  it('should keep the original name when no words remain', () => {
+    expect(new CaseRule({ mode: 'snake' }).execute('!!!.txt')).toBe('!!!.txt');
+  });
+
+  it('should split on separators and camelCase boundaries', () => {
+    expect(splitWords('HTTPServer_config-file v2')).toEqual(['HTTP', 'Server', 'config', 'file', 'v2']);
+  });
+
+  it('should reject invalid configuration', () => {
+    expect(() => new CaseRule({ mode: 'shout' as any })).toThrow('Invalid rule configuration');
+    expect(() => new CaseRule({ mode: 'upper', includeExtension: 'yes' as any })).toThrow();
+  });
+
+  it('should be created by RuleFactory', () => {
+    expect(RuleFactory.create({ type: 'case', params: { mode: 'upper' } })).toBeInstanceOf(CaseRule);
+  });
+});
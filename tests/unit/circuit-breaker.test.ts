@@ -0,0 +1,200 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { CircuitBreaker } from '../../src/core/circuit-breaker';
+import { BatchExecutor, ExecutorState } from '../../src/core/executor';
+import { MockAdapter } from '../../src/adapters/mock/mock-adapter';
+import { Pan115Adapter } from '../../src/adapters/115/pan115-adapter';
+import { createMockError } from '../../src/adapters/mock/errors';
+import type { FileItem, RenameResult } from '../../src/types/platform';
+import type { Task } from '../../src/types/core';
+import type { CircuitTrip } from '../../src/types/error';
+
+const callAPI = vi.hoisted(() => vi.fn());
+vi.mock('../../src/adapters/115/page-script-injector', () => ({
+  getPageScriptInjector: () => ({ callAPI }),
+}));
+
+describe('CircuitBreaker', () => {
+  it('应该在同一分类连续失败达到阈值时熔断', () => {
+    const breaker = new CircuitBreaker(3);
+    const error = createMockError(500);
+
+    expect(breaker.recordFailure('transient', error)).toBeNull();
+    expect(breaker.recordFailure('transient', error)).toBeNull();
+    expect(breaker.recordFailure('transient', error, 'f1')).toEqual({
+      category: 'transient',
+      failures: 3,
+      message: '服务器内部错误',
+      fileId: 'f1',
+    });
+  });
+
+  it('应该在分类变化或成功后重新计数', () => {
+    const breaker = new CircuitBreaker(2);
+
+    breaker.recordFailure('transient', new Error('a'));
+    expect(breaker.recordFailure('not_found', new Error('b'))).toBeNull();
+    breaker.recordSuccess();
+    expect(breaker.recordFailure('not_found', new Error('c'))).toBeNull();
+    expect(breaker.recordFailure('not_found', new Error('d'))).toMatchObject({ category: 'not_found', failures: 2 });
+  });
+
+  it('应该在登录失效或 401/403 时立即熔断', () => {
+    const forbidden = Object.assign(new Error('无权限访问'), { code: 403 });
+
+    expect(new CircuitBreaker().recordFailure('auth_expired', new Error('login'))).toMatchObject({ category: 'auth_expired' });
+    expect(new CircuitBreaker().recordFailure('fatal', forbidden)).toMatchObject({
+      category: 'auth_expired',
+      failures: 1,
+      message: '无权限访问',
+    });
+  });
+});
+
+describe('BatchExecutor 熔断', () => {
+  const rule = { type: 'prefix' as const, params: { prefix: 'x' } };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createTasks(count: number): Task[] {
+    return Array.from({ length: count }, (_, index) => {
+      const file: FileItem = { id: `f${index}`, name: `${index}.txt`, ext: '.txt', parentId: 'root', size: 0, mtime: 1 };
+      return { file, newName: `new-${index}.txt`, index };
+    });
+  }
+
+  /**
+   * failing 为 true 时所有重命名都返回 error；每个请求耗时 5ms，便于并发请求同时在途
+   */
+  function createExecutor(tasks: Task[], error: Error, options: Partial<ConstructorParameters<typeof BatchExecutor>[3]> = {}) {
+    const adapter = new MockAdapter();
+    const state = { failing: true };
+    const renameFile = vi.spyOn(adapter, 'renameFile').mockImplementation(async (_fileId, newName): Promise<RenameResult> => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return state.failing ? { success: false, error } : { success: true, newName };
+    });
+    const getAllFiles = vi.spyOn(adapter, 'getAllFiles').mockImplementation(async () => {
+      if (state.failing) {
+        throw error;
+      }
+      return tasks.map((task) => task.file);
+    });
+    const trips: CircuitTrip[] = [];
+    const executor = new BatchExecutor(
+      tasks.map((task) => task.file),
+      rule,
+      adapter,
+      { requestInterval: 0, tasks, onCircuitOpen: (trip) => trips.push(trip), ...options }
+    );
+    return { executor, renameFile, getAllFiles, trips, state };
+  }
+
+  it('应该在连续失败达到阈值时暂停，重新检查通过后继续剩余任务', async () => {
+    const tasks = createTasks(4);
+    const { executor, trips, state, getAllFiles } = createExecutor(tasks, createMockError(500), {
+      maxConcurrent: 1,
+      circuitBreakerThreshold: 2,
+    });
+
+    const done = executor.execute();
+    await vi.waitFor(() => expect(executor.getState()).toBe(ExecutorState.PAUSED));
+
+    expect(trips).toEqual([{ category: 'transient', failures: 2, message: '服务器内部错误', fileId: 'f1' }]);
+    expect(executor.getResults().failed.map((item) => item.fileId)).toEqual(['f0']);
+
+    // 问题仍在：重新检查失败，保持暂停
+    await expect(executor.recheckAndResume()).resolves.toBe(false);
+    expect(getAllFiles).toHaveBeenCalledWith('root');
+    expect(executor.getState()).toBe(ExecutorState.PAUSED);
+
+    state.failing = false;
+    await expect(executor.recheckAndResume()).resolves.toBe(true);
+    const results = await done;
+
+    expect(results.failed.map((item) => item.fileId)).toEqual(['f0']);
+    expect(results.success.map((item) => item.fileId)).toEqual(['f1', 'f2', 'f3']);
+    expect(executor.getCircuitTrip()).toBeNull();
+  });
+
+  it('应该在重新检查返回平台登录失效错误码时保持暂停', async () => {
+    const tasks = createTasks(2);
+    const adapter = new Pan115Adapter({ requestInterval: 0, maxRetries: 1 });
+    vi.spyOn(adapter as unknown as { rateLimit(): Promise<void> }, 'rateLimit').mockResolvedValue(undefined);
+    callAPI.mockImplementation(async (_method: string, url: string) => {
+      if (url.includes('batch_rename')) {
+        throw new Error('Network error');
+      }
+      // 目录列表：登录已超时
+      return { state: false, errno: 990001 };
+    });
+    const executor = new BatchExecutor(
+      tasks.map((task) => task.file),
+      rule,
+      adapter,
+      { requestInterval: 0, tasks, maxConcurrent: 1, circuitBreakerThreshold: 2 }
+    );
+
+    const done = executor.execute();
+    await vi.waitFor(() => expect(executor.getState()).toBe(ExecutorState.PAUSED));
+    expect(executor.getCircuitTrip()).toMatchObject({ category: 'transient' });
+
+    await expect(executor.recheckAndResume()).resolves.toBe(false);
+    expect(new URL(callAPI.mock.calls[callAPI.mock.calls.length - 1][1]).searchParams.get('cid')).toBe('root');
+    expect(executor.getState()).toBe(ExecutorState.PAUSED);
+    expect(executor.getCircuitTrip()?.message).toContain('登录超时');
+
+    executor.cancel();
+    await done;
+    callAPI.mockReset();
+  });
+
+  it('应该把熔断时仍在途的任务重新排队，而不是记为失败', async () => {
+    const tasks = createTasks(2);
+    const expired = Object.assign(new Error('unauthorized'), { code: 401 });
+    const { executor, renameFile, trips, state } = createExecutor(tasks, expired, { maxConcurrent: 2 });
+
+    const done = executor.execute();
+    await vi.waitFor(() => expect(renameFile).toHaveBeenCalledTimes(2));
+    await vi.waitFor(() => expect(trips).toHaveLength(1));
+    // 等第二个在途请求也返回失败
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(trips[0]).toMatchObject({ category: 'auth_expired', failures: 1 });
+    expect(executor.getResults().failed).toEqual([]);
+
+    state.failing = false;
+    await executor.recheckAndResume();
+    const results = await done;
+
+    expect(renameFile).toHaveBeenCalledTimes(4);
+    expect(results.success).toHaveLength(2);
+    expect(results.failed).toEqual([]);
+  });
+
+  it('应该在熔断暂停期间取消时不把重新排队的任务记为失败', async () => {
+    const tasks = createTasks(1);
+    const expired = Object.assign(new Error('unauthorized'), { status: 401 });
+    const { executor } = createExecutor(tasks, expired, { onCircuitOpen: () => executor.cancel() });
+
+    const results = await executor.execute();
+
+    expect(executor.getState()).toBe(ExecutorState.CANCELLED);
+    expect(results.failed).toEqual([]);
+  });
+
+  it('应该允许外部（如检测到 Cookie 过期）触发熔断', async () => {
+    const tasks = createTasks(3);
+    const { executor, trips, state } = createExecutor(tasks, createMockError(500), { maxConcurrent: 1 });
+    state.failing = false;
+
+    const done = executor.execute();
+    executor.openCircuit({ category: 'auth_expired', failures: 1, message: 'cookie expired' });
+
+    expect(executor.getState()).toBe(ExecutorState.PAUSED);
+    expect(trips).toEqual([{ category: 'auth_expired', failures: 1, message: 'cookie expired' }]);
+
+    await expect(executor.recheckAndResume()).resolves.toBe(true);
+    await expect(done).resolves.toMatchObject({ failed: [] });
+  });
+});
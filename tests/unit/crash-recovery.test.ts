@@ -1,5 +1,10 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { CrashRecoveryManager } from '../../src/core/crash-recovery';
+import { CrashRecoveryManager, RecoveryInterruptedError, type OperationStateInput } from '../../src/core/crash-recovery';
+import '../../src/content/components/recovery-list-dialog';
+import type { RecoveryListDialog } from '../../src/content/components/recovery-list-dialog';
+import type { OperationState } from '../../src/types/core';
+import type { FileItem } from '../../src/types/platform';
+import { I18nService } from '../../src/utils/i18n';
 
 vi.mock('../../src/rules/rule-factory', () => ({
   RuleFactory: { create: () => ({ execute: (name: string) => `rule_${name}` }) },
@@ -20,7 +25,7 @@ class MockAdapter {
     return [];
   }
 
-  async getAllFiles() {
+  async getAllFiles(_parentId?: string): Promise<FileItem[]> {
     return [];
   }
 
@@ -94,9 +99,324 @@ describe('CrashRecoveryManager', () => {
       ],
     } as any);
 
-    const saved = await recovery.checkRecoverableOperation();
-    await recovery.resumeOperation(saved!, adapter as any);
+    // 页面重新加载后由新的管理器实例恢复（本页面正在执行的操作不会被列出）
+    const reloaded = new CrashRecoveryManager();
+    const saved = await reloaded.checkRecoverableOperation();
+    await reloaded.resumeOperation(saved!, adapter as any);
 
     expect(adapter.renameCalls[0]).toBe('custom.txt');
   });
+
+  function createFile(id: string, name: string) {
+    return { id, name, ext: '.txt', parentId: '0', size: 1, mtime: 1 };
+  }
+
+  function createInput(platform: string, directoryKey: string): OperationStateInput {
+    return {
+      platform,
+      directoryKey,
+      files: [createFile('1', 'a.txt'), createFile('2', 'b.txt')],
+      rule: { type: 'prefix', params: { prefix: 'x_' } },
+      completed: [],
+      failed: [],
+    };
+  }
+
+  it('keeps operations of different tabs, platforms and folders apart', async () => {
+    const tabA = new CrashRecoveryManager();
+    const tabB = new CrashRecoveryManager();
+
+    const keyA = await tabA.saveOperationState(createInput('quark', 'dir-a'));
+    const keyB = await tabB.saveOperationState(createInput('quark', 'dir-a'));
+    const keyC = await tabB.saveOperationState(createInput('baidu', 'dir-b'));
+    await tabA.markAsCompleted(keyA, 0);
+
+    expect(new Set([keyA, keyB, keyC]).size).toBe(3);
+    expect(keyA).toMatch(/^rename_operation_state:quark:dir-a:/);
+    expect(storageData[keyA].completed).toEqual([0]);
+    expect(storageData[keyB].completed).toEqual([]);
+
+    // 本页面正在执行的操作不会列出
+    const listedInTabA = await tabA.listRecoverableOperations('quark');
+    expect(listedInTabA.map((operation) => operation.operationId)).toEqual([storageData[keyB].operationId]);
+
+    const reloaded = new CrashRecoveryManager();
+    expect(await reloaded.listRecoverableOperations('quark')).toHaveLength(2);
+    expect(await reloaded.listRecoverableOperations()).toHaveLength(3);
+  });
+
+  it('measures the recovery window from the last update and lets it be configured', async () => {
+    const now = Date.now();
+    const base = { ...createInput('quark', 'd'), directoryKey: 'd' };
+    storageData['rename_operation_state:quark:d:long'] = {
+      ...base,
+      operationId: 'long',
+      timestamp: now - 40 * 60000,
+      updatedAt: now - 60000,
+    };
+    storageData['rename_operation_state:quark:d:stale'] = {
+      ...base,
+      operationId: 'stale',
+      timestamp: now - 3 * 60 * 60000,
+      updatedAt: now - 2 * 60 * 60000,
+    };
+
+    const operations = await new CrashRecoveryManager({ maxAgeMinutes: 60 }).listRecoverableOperations();
+
+    expect(operations.map((operation) => operation.operationId)).toEqual(['long']);
+    expect(storageData['rename_operation_state:quark:d:stale']).toBeUndefined();
+
+    storageData.crash_recovery_max_age_minutes = 0.5;
+    expect(await new CrashRecoveryManager().listRecoverableOperations()).toEqual([]);
+  });
+
+  it('migrates the state saved under the old single key', async () => {
+    storageData.rename_operation_state = {
+      timestamp: Date.now(),
+      platform: 'quark',
+      files: [createFile('1', 'a.txt')],
+      rule: { type: 'prefix', params: { prefix: 'x_' } },
+      completed: [],
+      failed: [],
+    };
+    const recovery = new CrashRecoveryManager();
+
+    const [operation] = await recovery.listRecoverableOperations('quark');
+
+    expect(operation).toMatchObject({ platform: 'quark', directoryKey: '' });
+    expect(storageData.rename_operation_state).toBeUndefined();
+    expect(storageData[recovery.getOperationKey(operation)]).toEqual(operation);
+  });
+
+  it('hides operations whose lock is still held by another tab', async () => {
+    const key = await new CrashRecoveryManager().saveOperationState(createInput('quark', 'd'));
+    Object.defineProperty(navigator, 'locks', {
+      configurable: true,
+      value: {
+        query: async () => ({ held: [{ name: key, mode: 'exclusive' }], pending: [] }),
+        request: vi.fn(async () => undefined),
+      },
+    });
+
+    try {
+      expect(await new CrashRecoveryManager().listRecoverableOperations()).toEqual([]);
+    } finally {
+      delete (navigator as any).locks;
+    }
+  });
+
+  it('resumeOperation checks the remote names instead of trusting the completed indices', async () => {
+    const adapter = new MockAdapter();
+    const remoteNames: Record<string, string> = { '1': 'new-1.txt', '2': 'b.txt', '3': 'c.txt' };
+    vi.spyOn(adapter, 'getFileInfo').mockImplementation(async (id: string) => {
+      if (!remoteNames[id]) {
+        throw new Error('Network error');
+      }
+      return createFile(id, remoteNames[id]);
+    });
+    const files = [createFile('1', 'a.txt'), createFile('2', 'b.txt'), createFile('3', 'c.txt'), createFile('4', 'd.txt')];
+    const key = await new CrashRecoveryManager().saveOperationState({
+      platform: 'quark',
+      directoryKey: '0',
+      files,
+      rule: { type: 'prefix', params: { prefix: '' } },
+      // 文件 2 记为已完成但名称并未改变；文件 4 记为已完成且无法读取
+      completed: [1, 3],
+      failed: [],
+      tasks: files.map((file, index) => ({ file, newName: `new-${file.id}.txt`, index })),
+    });
+
+    const reloaded = new CrashRecoveryManager();
+    const [saved] = await reloaded.listRecoverableOperations('quark');
+    const results = await reloaded.resumeOperation(saved, adapter as any);
+
+    expect(adapter.renameCalls.sort()).toEqual(['new-2.txt', 'new-3.txt']);
+    expect(results?.success.map((item) => item.fileId).sort()).toEqual(['2', '3']);
+    expect(storageData[key]).toBeUndefined();
+  });
+
+  it('resumeOperation lists each directory once and only looks up files missing from the listing', async () => {
+    const adapter = new MockAdapter();
+    const getAllFiles = vi
+      .spyOn(adapter, 'getAllFiles')
+      .mockImplementation(async () => [createFile('1', 'new-1.txt'), createFile('2', 'b.txt')]);
+    const getFileInfo = vi.spyOn(adapter, 'getFileInfo').mockImplementation(async (id: string) => createFile(id, 'c.txt'));
+    const files = [createFile('1', 'a.txt'), createFile('2', 'b.txt'), createFile('3', 'c.txt')];
+    await new CrashRecoveryManager().saveOperationState({
+      platform: 'quark',
+      directoryKey: '0',
+      files,
+      rule: { type: 'prefix', params: { prefix: '' } },
+      completed: [],
+      failed: [],
+      tasks: files.map((file, index) => ({ file, newName: `new-${file.id}.txt`, index })),
+    });
+
+    const reloaded = new CrashRecoveryManager();
+    const [saved] = await reloaded.listRecoverableOperations('quark');
+    await reloaded.resumeOperation(saved, adapter as any);
+
+    expect(getAllFiles.mock.calls).toEqual([['0']]);
+    expect(getFileInfo.mock.calls).toEqual([['3']]);
+    expect(adapter.renameCalls.sort()).toEqual(['new-2.txt', 'new-3.txt']);
+  });
+
+  it('resumeOperation falls back to the saved progress without per-file lookups when a directory cannot be listed', async () => {
+    const adapter = new MockAdapter();
+    vi.spyOn(adapter, 'getAllFiles').mockRejectedValue(new Error('Network error'));
+    const getFileInfo = vi.spyOn(adapter, 'getFileInfo');
+    const files = [createFile('1', 'a.txt'), createFile('2', 'b.txt')];
+    await new CrashRecoveryManager().saveOperationState({
+      platform: 'quark',
+      directoryKey: '0',
+      files,
+      rule: { type: 'prefix', params: { prefix: '' } },
+      completed: [0],
+      failed: [],
+      tasks: files.map((file, index) => ({ file, newName: `new-${file.id}.txt`, index })),
+    });
+
+    const reloaded = new CrashRecoveryManager();
+    const [saved] = await reloaded.listRecoverableOperations('quark');
+    await reloaded.resumeOperation(saved, adapter as any);
+
+    expect(getFileInfo).not.toHaveBeenCalled();
+    expect(adapter.renameCalls).toEqual(['new-2.txt']);
+  });
+
+  it('stops resume and rollback when the circuit breaker trips instead of waiting for a re-check', async () => {
+    const adapter = new MockAdapter();
+    vi.spyOn(adapter, 'renameFile').mockRejectedValue(Object.assign(new Error('Unauthorized'), { status: 401 }));
+    const files = [createFile('1', 'a.txt'), createFile('2', 'b.txt')];
+    const key = await new CrashRecoveryManager().saveOperationState({
+      platform: 'quark',
+      directoryKey: '0',
+      files,
+      rule: { type: 'prefix', params: { prefix: '' } },
+      completed: [],
+      failed: [],
+      tasks: files.map((file, index) => ({ file, newName: `new-${file.id}.txt`, index })),
+    });
+
+    const reloaded = new CrashRecoveryManager();
+    const [saved] = await reloaded.listRecoverableOperations('quark');
+    const resumed = reloaded.resumeOperation(saved, adapter as any);
+
+    await expect(resumed).rejects.toBeInstanceOf(RecoveryInterruptedError);
+    await expect(resumed).rejects.toMatchObject({ trip: { category: 'auth_expired' } });
+    expect(storageData[key]).toBeDefined();
+    await expect(reloaded.rollbackOperation({ ...saved, completed: [0] }, adapter as any)).rejects.toBeInstanceOf(RecoveryInterruptedError);
+  });
+
+  it('keeps the saved operation until every file has been rolled back', async () => {
+    const adapter = new MockAdapter();
+    const rename = vi.spyOn(adapter, 'renameFile').mockImplementation(async (id: string, newName: string) =>
+      id === '2' ? { success: false, newName, error: 'Name taken' } : { success: true, newName }
+    );
+    const files = [createFile('1', 'a.txt'), createFile('2', 'b.txt'), createFile('3', 'c.txt')];
+    const key = await new CrashRecoveryManager().saveOperationState({
+      platform: 'quark',
+      directoryKey: '0',
+      files,
+      rule: { type: 'prefix', params: { prefix: '' } },
+      completed: [0, 1],
+      failed: [],
+      tasks: files.map((file, index) => ({ file, newName: `new-${file.id}.txt`, index })),
+    });
+
+    const reloaded = new CrashRecoveryManager();
+    const [saved] = await reloaded.listRecoverableOperations('quark');
+    const progress = vi.fn();
+    const results = await reloaded.rollbackOperation(saved, adapter as any, progress);
+
+    expect(results?.failed.map((item) => item.fileId)).toEqual(['2']);
+    expect(progress).toHaveBeenCalledWith(expect.objectContaining({ fileId: '1', status: 'success' }));
+    expect(storageData[key].completed).toEqual([1]);
+
+    const [remaining] = await new CrashRecoveryManager().listRecoverableOperations('quark');
+    rename.mockImplementation(async (_id: string, newName: string) => ({ success: true, newName }));
+    await reloaded.rollbackOperation(remaining, adapter as any);
+
+    expect(rename.mock.calls.at(-1)).toEqual(['2', 'b.txt']);
+    expect(storageData[key]).toBeUndefined();
+  });
+});
+
+describe('RecoveryListDialog', () => {
+  it('lists interrupted operations and dispatches the chosen action', async () => {
+    const file = { id: '1', name: 'a.txt', ext: '.txt', parentId: '0', size: 1, mtime: 1 };
+    const operation: OperationState = {
+      operationId: 'op-1',
+      timestamp: Date.now(),
+      platform: 'quark',
+      directoryKey: 'folder-1',
+      files: [file, { ...file, id: '2' }],
+      rule: { type: 'prefix', params: { prefix: 'x_' } },
+      completed: [0],
+      failed: [],
+      tasks: [{ file, newName: 'x_a.txt', index: 0 }],
+      tempNames: { '2': 'cdr-tmp-2.txt' },
+    };
+    const element = document.createElement('recovery-list-dialog') as RecoveryListDialog;
+    element.open = true;
+    element.operations = [operation];
+    document.body.appendChild(element);
+    await element.updateComplete;
+
+    const events: Array<[string, unknown]> = [];
+    for (const name of ['recovery-resume', 'recovery-rollback', 'recovery-discard']) {
+      element.addEventListener(name, (event) => events.push([name, (event as CustomEvent).detail]));
+    }
+    const root = element.shadowRoot;
+    root?.querySelector<HTMLButtonElement>('[data-role="recovery-resume-button"]')?.click();
+    root?.querySelector<HTMLButtonElement>('[data-role="recovery-rollback-button"]')?.click();
+    root?.querySelector<HTMLButtonElement>('[data-role="recovery-discard-button"]')?.click();
+
+    expect(root?.querySelectorAll('[data-role="recovery-entry"]')).toHaveLength(1);
+    expect(root?.querySelector('[data-role="recovery-temp-names"]')).toBeTruthy();
+    expect(root?.textContent).toContain('folder-1');
+    expect(events).toEqual([
+      ['recovery-resume', { operationId: 'op-1' }],
+      ['recovery-rollback', { operationId: 'op-1' }],
+      ['recovery-discard', { operationId: 'op-1' }],
+    ]);
+    element.remove();
+  });
+
+  it('shows the progress of the running action on its entry', async () => {
+    const file = { id: '1', name: 'a.txt', ext: '.txt', parentId: '0', size: 1, mtime: 1 };
+    const operation = (operationId: string): OperationState => ({
+      operationId,
+      timestamp: Date.now(),
+      platform: 'quark',
+      directoryKey: operationId,
+      files: [file, { ...file, id: '2' }],
+      rule: { type: 'prefix', params: { prefix: 'x_' } },
+      completed: [],
+      failed: [],
+    });
+    const element = document.createElement('recovery-list-dialog') as RecoveryListDialog;
+    element.open = true;
+    element.busy = true;
+    element.operations = [operation('op-1'), operation('op-2')];
+    element.activeOperationId = 'op-2';
+    document.body.appendChild(element);
+    await element.updateComplete;
+
+    const root = element.shadowRoot;
+    const progressRow = () => root?.querySelectorAll('[data-role="recovery-entry-progress"]');
+    expect(progressRow()).toHaveLength(1);
+    expect(root?.querySelectorAll('[data-role="recovery-entry"]')[1].contains(progressRow()?.[0] ?? null)).toBe(true);
+    expect(progressRow()?.[0].textContent).toContain(I18nService.t('recovery_checking'));
+
+    element.progress = { completed: 1, total: 2, currentFile: 'a.txt', success: 1, failed: 0 };
+    await element.updateComplete;
+    expect(progressRow()?.[0].querySelector<HTMLElement>('.progress-bar')?.style.width).toBe('50%');
+    expect(progressRow()?.[0].textContent).toContain(I18nService.t('recovery_running', ['1', '2']));
+
+    element.activeOperationId = null;
+    await element.updateComplete;
+    expect(progressRow()).toHaveLength(0);
+    element.remove();
+  });
 });
@@ -0,0 +1,188 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  classifyAdapterError,
+  classifyGenericError,
+  getRetryAfterMs,
+  isAuthStatusError,
+  parseRetryAfter,
+  wrapError,
+} from '../../src/core/error-taxonomy';
+import { BatchExecutor, ExecutorState } from '../../src/core/executor';
+import { MockAdapter } from '../../src/adapters/mock/mock-adapter';
+import { createMockError } from '../../src/adapters/mock/errors';
+import { QuarkAPIError, classifyError as classifyQuarkError } from '../../src/adapters/quark/errors';
+import { BaiduAPIError, classifyError as classifyBaiduError } from '../../src/adapters/baidu/errors';
+import { AliyunAPIError, classifyError as classifyAliyunError } from '../../src/adapters/aliyun/errors';
+import { Pan115APIError, classifyError as classify115Error } from '../../src/adapters/115/errors';
+import { Pan123APIError, classifyError as classify123Error } from '../../src/adapters/123pan/errors';
+import { TianyiAPIError, classifyError as classifyTianyiError } from '../../src/adapters/tianyi/errors';
+import { WebDAVError, classifyError as classifyWebDAVError } from '../../src/adapters/webdav/errors';
+import type { FileItem, RenameResult } from '../../src/types/platform';
+import type { ProgressEvent, Task } from '../../src/types/core';
+
+describe('parseRetryAfter', () => {
+  it('应该解析秒数和 HTTP 日期', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('5', now)).toBe(5000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now)).toBe(0);
+  });
+
+  it('应该忽略缺失或无法解析的值', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('平台错误码分类', () => {
+  it.each([
+    ['quark', classifyQuarkError(new QuarkAPIError(1003, '文件已存在')), 'name_conflict'],
+    ['quark', classifyQuarkError(new QuarkAPIError(401, '未登录')), 'auth_expired'],
+    ['baidu', classifyBaiduError(new BaiduAPIError(31034, '请求过于频繁')), 'throttled'],
+    ['baidu', classifyBaiduError(new BaiduAPIError(-2, '用户未登录')), 'auth_expired'],
+    ['baidu', classifyBaiduError(new BaiduAPIError(-8, '文件名非法')), 'invalid_name'],
+    ['aliyun', classifyAliyunError(new AliyunAPIError('NotFound.File', '文件不存在')), 'not_found'],
+    ['aliyun', classifyAliyunError(new AliyunAPIError('ServiceUnavailable', '')), 'transient'],
+    ['115', classify115Error(new Pan115APIError(990009, '操作过于频繁')), 'throttled'],
+    ['115', classify115Error(new Pan115APIError(911, '需要验证账号')), 'auth_expired'],
+    ['123pan', classify123Error(new Pan123APIError(5113, '文件名过长')), 'invalid_name'],
+    ['123pan', classify123Error(new Pan123APIError(403, '无权限访问')), 'fatal'],
+    ['tianyi', classifyTianyiError(new TianyiAPIError('InvalidSessionKey', '登录已过期')), 'auth_expired'],
+    ['tianyi', classifyTianyiError(new TianyiAPIError('FolderAlreadyExists', '')), 'name_conflict'],
+    ['webdav', classifyWebDAVError(new WebDAVError(409, '目标目录不存在')), 'not_found'],
+    ['webdav', classifyWebDAVError(new WebDAVError(507, '存储空间不足')), 'fatal'],
+  ])('%s 错误应该归为预期类别 (%#)', (_platform, classification, category) => {
+    expect(classification.category).toBe(category);
+  });
+
+  it('应该带上平台返回的 Retry-After', () => {
+    expect(classifyWebDAVError(new WebDAVError(503, '服务暂时不可用', '', 2000))).toEqual({
+      category: 'transient',
+      retryAfterMs: 2000,
+    });
+  });
+
+  it('未知错误码应该按错误消息通用分类', () => {
+    expect(classifyQuarkError(new QuarkAPIError(31001, '操作太频繁，请稍后再试')).category).toBe('throttled');
+    expect(classifyBaiduError(new TypeError('Failed to fetch')).category).toBe('transient');
+    expect(classifyAliyunError(new AliyunAPIError('Unknown.Code', 'boom')).category).toBe('fatal');
+  });
+
+  it('适配器未实现 classifyError 时应该使用通用分类', () => {
+    const timeout = new Error('Request timed out');
+    timeout.name = 'TimeoutError';
+
+    expect(classifyAdapterError({}, timeout)).toEqual({ category: 'transient' });
+    expect(classifyAdapterError({}, 'not an error')).toEqual({ category: 'fatal' });
+    expect(classifyGenericError(new Error('Network error')).category).toBe('transient');
+  });
+
+  it('应该按包装错误的 cause 分类，并读取其中的 status 和 Retry-After', () => {
+    const expired = wrapError('获取文件信息失败: 登录超时', new Pan115APIError(990001, '登录超时'));
+    const throttled = wrapError('获取文件列表失败: HTTP 429', new WebDAVError(429, '请求过于频繁', '', 3000));
+    const unauthorized = wrapError('获取文件列表失败: HTTP 401', Object.assign(new Error('HTTP 401'), { status: 401 }));
+
+    expect(classifyAdapterError({ classifyError: classify115Error }, expired)).toEqual({ category: 'auth_expired' });
+    expect(classifyAdapterError({ classifyError: classifyWebDAVError }, throttled)).toEqual({
+      category: 'throttled',
+      retryAfterMs: 3000,
+    });
+    expect(getRetryAfterMs(throttled)).toBe(3000);
+    expect(isAuthStatusError(unauthorized)).toBe(true);
+    expect(classifyAdapterError({}, unauthorized)).toEqual({ category: 'auth_expired' });
+  });
+});
+
+describe('BatchExecutor 错误处理策略', () => {
+  const file: FileItem = { id: 'mock-1', name: 'a.txt', ext: '.txt', parentId: 'root', size: 0, mtime: 1 };
+  const tasks: Task[] = [{ file, newName: 'b.txt', index: 0 }];
+  const rule = { type: 'prefix' as const, params: { prefix: 'x' } };
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  function createExecutor(results: Array<RenameResult | Error>, options: Partial<ConstructorParameters<typeof BatchExecutor>[3]> = {}) {
+    const adapter = new MockAdapter();
+    const renameFile = vi.spyOn(adapter, 'renameFile').mockImplementation(async () => {
+      const next = results.shift() ?? { success: true, newName: 'b.txt' };
+      if (next instanceof Error) {
+        throw next;
+      }
+      return next;
+    });
+    const executor = new BatchExecutor([file], rule, adapter, { requestInterval: 0, tasks, ...options });
+    return { executor, renameFile };
+  }
+
+  it('应该按 Retry-After 等待后重试，并提高自适应降速倍数', async () => {
+    vi.useFakeTimers();
+    const throttled = Object.assign(createMockError(429), { retryAfterMs: 1200 });
+    const { executor, renameFile } = createExecutor([throttled]);
+
+    const done = executor.execute();
+    await vi.advanceTimersByTimeAsync(1199);
+    expect(renameFile).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    const results = await done;
+
+    expect(renameFile).toHaveBeenCalledTimes(2);
+    expect(results.success).toHaveLength(1);
+    expect(executor.getAdaptiveIntervalFactor()).toBeGreaterThan(1);
+  });
+
+  it('应该在限流重试次数用尽后记录失败分类', async () => {
+    const progress: ProgressEvent[] = [];
+    const { executor, renameFile } = createExecutor([createMockError(429), createMockError(429)], {
+      maxRetries: 1,
+      onProgress: (event) => progress.push(event),
+    });
+    vi.useFakeTimers();
+
+    const done = executor.execute();
+    await vi.runAllTimersAsync();
+    const results = await done;
+
+    expect(renameFile).toHaveBeenCalledTimes(2);
+    expect(results.failed).toMatchObject([{ fileId: 'mock-1', error: '请求过于频繁', category: 'throttled' }]);
+    expect(progress[0]).toMatchObject({ status: 'failed', errorCategory: 'throttled' });
+  });
+
+  it.each([
+    ['name_conflict', createMockError(409)],
+    ['transient', createMockError(500)],
+  ])('应该对 %s 错误立即失败（临时错误已由适配器重试过）', async (category, error) => {
+    const { executor, renameFile } = createExecutor([{ success: false, error }]);
+
+    const results = await executor.execute();
+
+    expect(renameFile).toHaveBeenCalledTimes(1);
+    expect(results.failed).toMatchObject([{ category }]);
+    expect(executor.getAdaptiveIntervalFactor()).toBe(1);
+  });
+
+  it('应该在登录失效时暂停，恢复后重新执行该任务', async () => {
+    const authExpired = new Error('login expired');
+    const onCircuitOpen = vi.fn();
+    const { executor, renameFile } = createExecutor([authExpired], { onCircuitOpen });
+    vi.spyOn(MockAdapter.prototype, 'classifyError').mockImplementation((error) =>
+      error === authExpired ? { category: 'auth_expired' } : { category: 'fatal' }
+    );
+
+    const done = executor.execute();
+    await vi.waitFor(() =>
+      expect(onCircuitOpen).toHaveBeenCalledWith({ category: 'auth_expired', failures: 1, message: 'login expired', fileId: 'mock-1' })
+    );
+    expect(executor.getState()).toBe(ExecutorState.PAUSED);
+    expect(renameFile).toHaveBeenCalledTimes(1);
+
+    executor.resume();
+    const results = await done;
+
+    expect(renameFile).toHaveBeenCalledTimes(2);
+    expect(results.success).toHaveLength(1);
+    expect(results.failed).toEqual([]);
+  });
+});
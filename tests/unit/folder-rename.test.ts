@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FileSelectorPanel } from '../../src/content/components/file-selector-panel';
+import { planRenamePhases } from '../../src/core/execution-plan';
+import { RuleFactory } from '../../src/rules/rule-factory';
+import { validatePresetRule } from '../../src/utils/rule-presets';
+import { FileType } from '../../src/types/file-selector';
+import { FileItem, PlatformAdapter, RenameResult } from '../../src/types/platform';
+import { RuleConfig } from '../../src/types/rule';
+import { parseFileName } from '../../src/utils/helpers';
+
+function createItem(id: string, name: string, isFolder = false): FileItem {
+  return { id, name, ext: parseFileName(name, isFolder).ext, parentId: 'root', size: 0, mtime: 1, isFolder };
+}
+
+function renameAll(config: RuleConfig, items: FileItem[]): string[] {
+  const rule = RuleFactory.create(config);
+  rule.prepare?.(items);
+  return items.map((item, index) => rule.execute(item.name, index, items.length, item));
+}
+
+describe('folder names', () => {
+  const folder = createItem('d1', 'Season 1.5', true);
+  const file = createItem('f1', 'clip.mp4');
+
+  it('never splits an extension from a folder name', () => {
+    expect(parseFileName('Season 1.5', true)).toEqual({ name: 'Season 1.5', ext: '' });
+    expect(folder.ext).toBe('');
+  });
+
+  it('applies rules to the whole folder name', () => {
+    expect(renameAll({ type: 'suffix', params: { suffix: 'HD', separator: '_' } }, [folder, file])).toEqual([
+      'Season 1.5_HD',
+      'clip_HD.mp4',
+    ]);
+    expect(renameAll({ type: 'case', params: { mode: 'upper', includeExtension: true } }, [folder])).toEqual([
+      'SEASON 1.5',
+    ]);
+    expect(renameAll({ type: 'template', params: { template: '{name}[{ext}]' } }, [folder])).toEqual([
+      'Season 1.5[]',
+    ]);
+  });
+
+  it('keeps the temporary name of a folder free of an extension', () => {
+    const tasks = [
+      { file: createItem('d1', 'A.B', true), newName: 'C.D', index: 0 },
+      { file: createItem('d2', 'C.D', true), newName: 'A.B', index: 1 },
+    ];
+
+    expect(planRenamePhases(tasks, { token: 'tok' }).tempTasks.map((task) => task.newName)).toEqual([
+      'cdr-tmp-tok-0',
+      'cdr-tmp-tok-1',
+    ]);
+  });
+});
+
+describe('skipFolders rule option', () => {
+  const items = [createItem('d1', 'Extras', true), createItem('f1', 'a.mp4'), createItem('f2', 'b.mp4')];
+
+  it('keeps folder names and numbers only the files', () => {
+    const numbering = {
+      type: 'numbering' as const,
+      params: { startNumber: 1, digits: 2, position: 'prefix', format: '{num}', separator: ' ' },
+    };
+
+    expect(renameAll(numbering, items)).toEqual(['01 Extras', '02 a.mp4', '03 b.mp4']);
+    expect(renameAll({ ...numbering, skipFolders: true }, items)).toEqual(['Extras', '01 a.mp4', '02 b.mp4']);
+  });
+
+  it('applies to every step of a rule chain', () => {
+    const config: RuleConfig = {
+      type: 'pipeline',
+      params: {
+        steps: [
+          { type: 'prefix', params: { prefix: 'X', separator: '-' } },
+          { type: 'template', params: { template: '{name}_{index}of{total}{ext}' } },
+        ],
+      },
+      skipFolders: true,
+    };
+
+    expect(renameAll(config, items)).toEqual(['Extras', 'X-a_1of2.mp4', 'X-b_2of2.mp4']);
+  });
+
+  it('is validated when a preset is imported', () => {
+    expect(validatePresetRule({ type: 'prefix', params: { prefix: 'X' }, skipFolders: true })).toEqual([]);
+    expect(validatePresetRule({ type: 'prefix', params: { prefix: 'X' }, skipFolders: 'yes' })).toEqual([
+      { code: 'invalid_entry', presetName: undefined },
+    ]);
+  });
+});
+
+type TypeFilterHarness = FileSelectorPanel & {
+  allFiles: FileItem[];
+  filteredFiles: FileItem[];
+  handleTypeFilter(e: CustomEvent<{ type: FileType | 'all' }>): void;
+};
+
+class FolderTestAdapter implements PlatformAdapter {
+  readonly platform = 'quark' as const;
+
+  getCurrentDirectoryKey(): string {
+    return 'root';
+  }
+
+  async getSelectedFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async getAllFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async renameFile(_fileId: string, newName: string): Promise<RenameResult> {
+    return { success: true, newName };
+  }
+
+  async checkNameConflict(): Promise<boolean> {
+    return false;
+  }
+
+  async getFileInfo(fileId: string): Promise<FileItem> {
+    return createItem(fileId, fileId);
+  }
+
+  getConfig() {
+    return { platform: 'quark' as const, requestInterval: 0, maxRetries: 0 };
+  }
+}
+
+describe('FileSelectorPanel folder filter', () => {
+  it('filters folders separately from extensionless files', () => {
+    vi.stubGlobal('chrome', {
+      storage: { local: { get: vi.fn(async () => ({})), set: vi.fn(async () => undefined) } },
+    });
+    const panel = new FileSelectorPanel() as TypeFilterHarness;
+    panel.adapter = new FolderTestAdapter();
+    panel.allFiles = [createItem('d1', 'Season 1.5', true), createItem('f1', 'README'), createItem('f2', 'a.mp4')];
+
+    panel.handleTypeFilter(new CustomEvent('type-filter', { detail: { type: 'folder' } }));
+    expect(panel.filteredFiles.map((file) => file.id)).toEqual(['d1']);
+
+    panel.handleTypeFilter(new CustomEvent('type-filter', { detail: { type: 'other' } }));
+    expect(panel.filteredFiles.map((file) => file.id)).toEqual(['f1']);
+  });
+});
@@ -0,0 +1,197 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileSelectorPanel } from '../../src/content/components/file-selector-panel';
+import { VirtualPreviewList } from '../../src/content/components/virtual-preview-list';
+import { BatchExecutor, ExecutorState } from '../../src/core/executor';
+import { buildExecutionPlan } from '../../src/core/execution-plan';
+import { crashRecovery } from '../../src/core/crash-recovery';
+import { FileItem, PlatformAdapter, RenameResult } from '../../src/types/platform';
+import { PreviewItem } from '../../src/types/file-selector';
+import { RuleConfig } from '../../src/types/rule';
+
+type FileSelectorPanelOverrideHarness = FileSelectorPanel & {
+  allFiles: FileItem[];
+  newNameMap: Map<string, string>;
+  manualNameIds: Set<string>;
+  conflictIds: Set<string>;
+  uncheckList: Set<string>;
+  ruleConfig: RuleConfig;
+  previewList: PreviewItem[];
+  updatePreview(): void;
+  handleNameOverride(e: CustomEvent<{ fileId: string; newName: string }>): void;
+  handleExecute(): Promise<void>;
+};
+
+class OverrideTestAdapter implements PlatformAdapter {
+  readonly platform = 'quark' as const;
+  readonly checkNameConflict = vi.fn(async () => false);
+
+  getCurrentDirectoryKey(): string {
+    return 'root';
+  }
+
+  async getSelectedFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async getAllFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async renameFile(_fileId: string, newName: string): Promise<RenameResult> {
+    return { success: true, newName };
+  }
+
+  async getFileInfo(fileId: string): Promise<FileItem> {
+    return { id: fileId, name: fileId, ext: '', parentId: 'root', size: 1, mtime: 1 };
+  }
+
+  getConfig() {
+    return { platform: 'quark' as const, requestInterval: 0, maxConcurrent: 1, maxRetries: 1 };
+  }
+}
+
+const files: FileItem[] = [
+  { id: '1', name: 'a.mp4', ext: '.mp4', parentId: 'root', size: 1, mtime: 1 },
+  { id: '2', name: 'b.mp4', ext: '.mp4', parentId: 'root', size: 1, mtime: 1 },
+];
+
+function overrideEvent(fileId: string, newName: string) {
+  return new CustomEvent('name-override', { detail: { fileId, newName } });
+}
+
+function createPanel(): FileSelectorPanelOverrideHarness {
+  const panel = new FileSelectorPanel() as FileSelectorPanelOverrideHarness;
+  panel.adapter = new OverrideTestAdapter();
+  panel.allFiles = files;
+  panel.uncheckList = new Set();
+  panel.ruleConfig = { type: 'prefix', params: { prefix: 'X_' } };
+  panel.updatePreview();
+  return panel;
+}
+
+describe('manual name override', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.stubGlobal('chrome', {
+      storage: {
+        local: {
+          get: vi.fn(async () => ({})),
+          set: vi.fn(async () => undefined),
+          remove: vi.fn(async () => undefined),
+        },
+      },
+    });
+    vi.stubGlobal('alert', vi.fn());
+  });
+
+  it('keeps the override in newNameMap when the rule changes and marks it as manual', () => {
+    const panel = createPanel();
+
+    panel.handleNameOverride(overrideEvent('2', 'custom.mp4'));
+    panel.ruleConfig = { type: 'suffix', params: { suffix: '_Y' } };
+    panel.updatePreview();
+
+    expect(panel.newNameMap.get('1')).toBe('a_Y.mp4');
+    expect(panel.newNameMap.get('2')).toBe('custom.mp4');
+    expect(panel.previewList.find((item) => item.file.id === '2')?.manual).toBe(true);
+  });
+
+  it('removes the override when the edited name is empty', () => {
+    const panel = createPanel();
+
+    panel.handleNameOverride(overrideEvent('1', 'custom.mp4'));
+    panel.handleNameOverride(overrideEvent('1', '  '));
+
+    expect(panel.manualNameIds.size).toBe(0);
+    expect(panel.newNameMap.get('1')).toBe('X_a.mp4');
+  });
+
+  it('rejects names with illegal characters', () => {
+    const panel = createPanel();
+
+    panel.handleNameOverride(overrideEvent('1', 'bad:name.mp4'));
+
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(panel.newNameMap.get('1')).toBe('X_a.mp4');
+  });
+
+  it('includes overrides in conflict detection', () => {
+    const panel = createPanel();
+
+    panel.handleNameOverride(overrideEvent('2', 'X_a.mp4'));
+
+    expect(Array.from(panel.conflictIds).sort()).toEqual(['1', '2']);
+  });
+
+  it('saves manual tasks in the operation state for crash recovery', async () => {
+    vi.spyOn(crashRecovery, 'saveOperationState').mockResolvedValue();
+    vi.spyOn(crashRecovery, 'clearOperationState').mockResolvedValue();
+    vi.spyOn(BatchExecutor.prototype, 'execute').mockResolvedValue({ success: [], failed: [] });
+    vi.spyOn(BatchExecutor.prototype, 'getState').mockReturnValue(ExecutorState.COMPLETED);
+
+    const panel = createPanel();
+    panel.handleNameOverride(overrideEvent('2', 'custom.mp4'));
+
+    await panel.handleExecute();
+
+    expect(crashRecovery.saveOperationState).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tasks: [
+          expect.objectContaining({ newName: 'X_a.mp4' }),
+          expect.objectContaining({ newName: 'custom.mp4', manual: true }),
+        ],
+      })
+    );
+  });
+
+  it('buildExecutionPlan marks tasks of manually named files', () => {
+    const plan = buildExecutionPlan({
+      files,
+      newNames: ['x.mp4', 'y.mp4'],
+      manualIds: new Set(['2']),
+    });
+
+    expect(plan.tasks[0].manual).toBeUndefined();
+    expect(plan.tasks[1].manual).toBe(true);
+  });
+});
+
+describe('VirtualPreviewList inline editing', () => {
+  it('emits name-override after double-click and Enter', async () => {
+    const list = new VirtualPreviewList();
+    list.items = [{ file: files[0], newName: 'X_a.mp4', conflict: false }];
+    list.editable = true;
+    document.body.appendChild(list);
+    await list.updateComplete;
+
+    const overrides: Array<{ fileId: string; newName: string }> = [];
+    list.addEventListener('name-override', (e) => overrides.push((e as CustomEvent).detail));
+
+    list.shadowRoot?.querySelector('[data-role="preview-item"]')?.dispatchEvent(new MouseEvent('dblclick'));
+    await list.updateComplete;
+
+    const editor = list.shadowRoot?.querySelector<HTMLInputElement>('[data-role="name-editor"]');
+    expect(editor).toBeTruthy();
+    editor!.value = 'manual.mp4';
+    editor!.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+    await list.updateComplete;
+
+    expect(overrides).toEqual([{ fileId: '1', newName: 'manual.mp4' }]);
+    expect(list.shadowRoot?.querySelector('[data-role="name-editor"]')).toBeNull();
+
+    list.remove();
+  });
+
+  it('does not allow editing when not editable', async () => {
+    const list = new VirtualPreviewList();
+    list.items = [{ file: files[0], newName: 'X_a.mp4', conflict: false }];
+    document.body.appendChild(list);
+    await list.updateComplete;
+
+    list.shadowRoot?.querySelector('[data-role="preview-item"]')?.dispatchEvent(new MouseEvent('dblclick'));
+    await list.updateComplete;
+
+    expect(list.shadowRoot?.querySelector('[data-role="name-editor"]')).toBeNull();
+    list.remove();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { diffNames } from '../../src/utils/name-diff';
+import { PreviewPanel } from '../../src/content/components/preview-panel';
+import { VirtualPreviewList } from '../../src/content/components/virtual-preview-list';
+import { FileItem } from '../../src/types/platform';
+
+function applySide(segments: ReturnType<typeof diffNames>, side: 'original' | 'renamed'): string {
+  const skip = side === 'original' ? 'insert' : 'delete';
+  return segments
+    .filter((segment) => segment.type !== skip)
+    .map((segment) => segment.text)
+    .join('');
+}
+
+describe('diffNames', () => {
+  it('returns a single equal segment for identical names', () => {
+    expect(diffNames('a.mkv', 'a.mkv')).toEqual([{ type: 'equal', text: 'a.mkv' }]);
+  });
+
+  it('marks removed and inserted characters of a typical release name', () => {
+    const segments = diffNames('[Group] Show - 01 [1080p][HEVC].mkv', 'Show.S01E01.mkv');
+
+    expect(applySide(segments, 'original')).toBe('[Group] Show - 01 [1080p][HEVC].mkv');
+    expect(applySide(segments, 'renamed')).toBe('Show.S01E01.mkv');
+    expect(segments[0]).toEqual({ type: 'delete', text: '[Group] ' });
+    expect(segments).toContainEqual({ type: 'equal', text: 'Show' });
+  });
+
+  it('merges adjacent segments of the same type', () => {
+    expect(diffNames('abc.txt', 'aXYc.txt')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'delete', text: 'b' },
+      { type: 'insert', text: 'XY' },
+      { type: 'equal', text: 'c.txt' },
+    ]);
+  });
+
+  it('handles pure insertion and deletion', () => {
+    expect(diffNames('file.txt', 'HD_file.txt')).toEqual([
+      { type: 'insert', text: 'HD_' },
+      { type: 'equal', text: 'file.txt' },
+    ]);
+    expect(diffNames('file_old.txt', 'file.txt')).toEqual([
+      { type: 'equal', text: 'file' },
+      { type: 'delete', text: '_old' },
+      { type: 'equal', text: '.txt' },
+    ]);
+  });
+
+  it('diffs thousands of names quickly', () => {
+    const start = performance.now();
+    for (let i = 0; i < 3000; i++) {
+      diffNames(`[Group] Show - ${i} [1080p][HEVC].mkv`, `Show.S01E${i}.mkv`);
+    }
+    expect(performance.now() - start).toBeLessThan(2000);
+  });
+});
+
+const file = (id: string, name: string): FileItem => ({
+  id,
+  name,
+  ext: '.mkv',
+  parentId: 'root',
+  size: 1,
+  mtime: 1,
+});
+
+describe('preview diff rendering', () => {
+  it('renders deletions and insertions in VirtualPreviewList', async () => {
+    const list = new VirtualPreviewList();
+    list.items = [{ file: file('1', 'old.mkv'), newName: 'new.mkv', conflict: false }];
+    document.body.appendChild(list);
+    await list.updateComplete;
+
+    expect(list.shadowRoot?.querySelector('del.diff-delete')?.textContent).toBe('old');
+    expect(list.shadowRoot?.querySelector('ins.diff-insert')?.textContent).toBe('new');
+
+    list.remove();
+  });
+
+  it('hides unchanged rows until the toggle is turned off', async () => {
+    const panel = new PreviewPanel();
+    panel.items = [
+      { file: file('1', 'a.mkv'), newName: 'b.mkv', conflict: false },
+      { file: file('2', 'c.mkv'), newName: 'c.mkv', conflict: false },
+    ];
+    document.body.appendChild(panel);
+    await panel.updateComplete;
+
+    const list = () => panel.shadowRoot?.querySelector('virtual-preview-list') as VirtualPreviewList;
+    expect(list().items).toHaveLength(1);
+
+    const toggle = panel.shadowRoot?.querySelector<HTMLInputElement>('[data-role="changed-only-toggle"]');
+    toggle!.checked = false;
+    toggle!.dispatchEvent(new Event('change'));
+    await panel.updateComplete;
+
+    expect(list().items).toHaveLength(2);
+    panel.remove();
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { NumberingRule, orderFilesByRule, sortFilesForNumbering } from '../../src/rules/numbering';
+import { RuleFactory } from '../../src/rules/rule-factory';
+import { BatchExecutor } from '../../src/core/executor';
+import { FileItem, PlatformAdapter } from '../../src/types/platform';
+import { NumberingRuleParams } from '../../src/types/rule';
+
+function createFile(id: string, name: string, mtime = 0, size = 0): FileItem {
+  const dot = name.lastIndexOf('.');
+  return { id, name, ext: dot > 0 ? name.slice(dot) : '', parentId: '0', size, mtime };
+}
+
+const baseParams: NumberingRuleParams = {
+  startNumber: 1,
+  digits: 2,
+  position: 'prefix',
+  format: '{num}',
+  separator: '_',
+};
+
+function numberAll(params: NumberingRuleParams, files: FileItem[]): string[] {
+  const rule = new NumberingRule(params);
+  rule.prepare(files);
+  return files.map((file, index) => rule.execute(file.name, index, files.length, file));
+}
+
+describe('NumberingRule ordering', () => {
+  const files = [
+    createFile('a', 'ep10.mp4', 300, 30),
+    createFile('b', 'ep2.mp4', 100, 10),
+    createFile('c', 'ep1.mp4', 200, 20),
+  ];
+
+  it('should number by natural name order', () => {
+    expect(numberAll({ ...baseParams, sortBy: 'name' }, files)).toEqual([
+      '03_ep10.mp4',
+      '02_ep2.mp4',
+      '01_ep1.mp4',
+    ]);
+  });
+
+  it('should number by mtime or size, ascending or descending', () => {
+    expect(numberAll({ ...baseParams, sortBy: 'mtime' }, files)).toEqual(['03_ep10.mp4', '01_ep2.mp4', '02_ep1.mp4']);
+    expect(numberAll({ ...baseParams, sortBy: 'size', sortOrder: 'desc' }, files)).toEqual([
+      '01_ep10.mp4',
+      '03_ep2.mp4',
+      '02_ep1.mp4',
+    ]);
+  });
+
+  it('should keep the list order in manual mode', () => {
+    expect(numberAll({ ...baseParams, sortBy: 'manual' }, files)).toEqual(['01_ep10.mp4', '02_ep2.mp4', '03_ep1.mp4']);
+  });
+
+  it('should support step and negative start numbers', () => {
+    expect(numberAll({ ...baseParams, startNumber: -2, step: 2 }, files)).toEqual([
+      '-02_ep10.mp4',
+      '00_ep2.mp4',
+      '02_ep1.mp4',
+    ]);
+    expect(() => new NumberingRule({ ...baseParams, step: 0 })).toThrow('Invalid rule configuration');
+  });
+
+  it('should restart numbering per extension', () => {
+    const mixed = [
+      createFile('1', 'b.jpg'),
+      createFile('2', 'a.mp4'),
+      createFile('3', 'a.jpg'),
+      createFile('4', 'b.MP4'),
+    ];
+
+    expect(numberAll({ ...baseParams, sortBy: 'name', resetPerExtension: true }, mixed)).toEqual([
+      '02_b.jpg',
+      '01_a.mp4',
+      '01_a.jpg',
+      '02_b.MP4',
+    ]);
+  });
+
+  it('sortFilesForNumbering / orderFilesByRule should not mutate input and follow the first numbering step', () => {
+    const sorted = sortFilesForNumbering(files, { sortBy: 'name' });
+    expect(sorted.map((file) => file.id)).toEqual(['c', 'b', 'a']);
+    expect(files.map((file) => file.id)).toEqual(['a', 'b', 'c']);
+
+    const ordered = orderFilesByRule(files, {
+      type: 'pipeline',
+      params: {
+        steps: [
+          { type: 'replace', params: { search: 'ep', replace: 'E' } },
+          { type: 'numbering', params: { ...baseParams, sortBy: 'mtime', sortOrder: 'desc' } },
+        ],
+      },
+    });
+    expect(ordered.map((file) => file.id)).toEqual(['a', 'c', 'b']);
+    expect(orderFilesByRule(files, { type: 'prefix', params: { prefix: 'x' } })).toEqual(files);
+  });
+
+  it('pipelines should forward prepare to numbering steps', () => {
+    const rule = RuleFactory.create({
+      type: 'pipeline',
+      params: {
+        steps: [
+          { type: 'case', params: { mode: 'upper' } },
+          { type: 'numbering', params: { ...baseParams, sortBy: 'name' } },
+        ],
+      },
+    });
+    rule.prepare?.(files);
+
+    expect(rule.execute(files[0].name, 0, 3, files[0])).toBe('03_EP10.mp4');
+  });
+
+  it('BatchExecutor should number with the same ordering as the preview', async () => {
+    const renamed: string[] = [];
+    const adapter = {
+      platform: 'quark',
+      renameFile: async (_id: string, newName: string) => {
+        renamed.push(newName);
+        return { success: true, newName };
+      },
+      getConfig: () => ({ platform: 'quark' as const, requestInterval: 0, maxRetries: 0 }),
+    } as unknown as PlatformAdapter;
+
+    const executor = new BatchExecutor(
+      files,
+      { type: 'numbering', params: { ...baseParams, sortBy: 'name' } },
+      adapter,
+      { requestInterval: 0, maxConcurrent: 1 }
+    );
+    await executor.execute();
+
+    expect(renamed.sort()).toEqual(['01_ep1.mp4', '02_ep2.mp4', '03_ep10.mp4']);
+  });
+});
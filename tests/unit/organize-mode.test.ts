@@ -0,0 +1,337 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileSelectorPanel } from '../../src/content/components/file-selector-panel';
+import {
+  buildOrganizePlan,
+  buildOrganizeTree,
+  executeOrganizePlan,
+  findOrganizeConflicts,
+  revertOrganizeMoves,
+  supportsOrganize,
+} from '../../src/core/organizer';
+import { upsertUndoItems } from '../../src/core/last-rename-operation';
+import { createOrganizeRule, OrganizeRule, splitOrganizePath } from '../../src/rules/organize';
+import { validatePresetRule } from '../../src/utils/rule-presets';
+import { FileItem, MoveResult, PlatformAdapter, RenameResult } from '../../src/types/platform';
+import { RuleConfig } from '../../src/types/rule';
+import { LastRenameOperation } from '../../src/types/undo';
+import { parseFileName } from '../../src/utils/helpers';
+
+function createItem(id: string, name: string, parentId = 'root', relativePath?: string): FileItem {
+  return { id, name, ext: parseFileName(name).ext, parentId, size: 0, mtime: 1, relativePath };
+}
+
+const episodeConfig: RuleConfig = {
+  type: 'pipeline',
+  params: {
+    steps: [
+      {
+        type: 'episodeExtract',
+        params: { template: '{prefix} S{season}E{episode}{ext}', prefix: 'Show', season: 2, leadingZeroCount: 2 },
+      },
+      { type: 'organize', params: { pathTemplate: '{prefix}/Season {season}' } },
+    ],
+  },
+};
+
+describe('OrganizeRule', () => {
+  it('renders the path template with episode values and keeps the name', () => {
+    const rule = createOrganizeRule(episodeConfig);
+    const file = createItem('1', 'Show.EP03.mkv');
+
+    expect(rule?.execute(file.name)).toBe('Show.EP03.mkv');
+    expect(rule?.resolvePath(file, 0, 1)).toEqual(['Show', 'Season 02']);
+  });
+
+  it('renders regular template tokens without an episode step', () => {
+    const rule = new OrganizeRule({ pathTemplate: 'By type/{ext:1}' });
+
+    expect(rule.resolvePath(createItem('1', 'clip.mp4'), 0, 1)).toEqual(['By type', 'mp4']);
+  });
+
+  it('rejects empty templates and unknown tokens', () => {
+    expect(() => new OrganizeRule({ pathTemplate: '  ' })).toThrow('Invalid rule configuration');
+    expect(() => new OrganizeRule({ pathTemplate: '{unknown}' })).toThrow('Invalid rule configuration');
+    expect(createOrganizeRule({ type: 'prefix', params: { prefix: 'X' } })).toBeNull();
+  });
+
+  it('splits paths into sanitized folder names', () => {
+    expect(splitOrganizePath('a//b:c/./../ d ')).toEqual(['a', 'b_c', 'd']);
+    expect(splitOrganizePath('')).toEqual([]);
+  });
+
+  it('is validated when a preset is imported', () => {
+    expect(validatePresetRule({ type: 'organize', params: { pathTemplate: '{name}' } })).toEqual([]);
+    expect(validatePresetRule({ type: 'organize', params: { pathTemplate: '' } })).not.toEqual([]);
+  });
+});
+
+describe('organize plan', () => {
+  const rule = new OrganizeRule({ pathTemplate: '{name:0:1}/{name}' });
+
+  it('skips files that already sit in their folder or are excluded', () => {
+    const files = [
+      createItem('1', 'apple.txt'),
+      createItem('2', 'avocado.txt', 'folder-a', 'a/avocado'),
+      createItem('3', 'banana.txt'),
+    ];
+
+    const entries = buildOrganizePlan(rule, files, (file) => file.name.toUpperCase(), new Set(['3']));
+
+    expect(entries).toEqual([{ file: files[0], index: 0, name: 'APPLE.TXT', segments: ['a', 'apple'] }]);
+  });
+
+  it('builds a folder tree and flags files that collide in one folder', () => {
+    const flat = new OrganizeRule({ pathTemplate: 'All' });
+    const entries = buildOrganizePlan(flat, [createItem('1', 'a.txt'), createItem('2', 'A.TXT')], (file) => file.name);
+
+    expect(findOrganizeConflicts(entries, { caseSensitive: true }).size).toBe(0);
+    expect(Array.from(findOrganizeConflicts(entries, { caseSensitive: false }))).toEqual(['1', '2']);
+
+    const tree = buildOrganizeTree(entries, { caseSensitive: false });
+    expect(tree.children.map((node) => node.path)).toEqual(['All']);
+    expect(tree.children[0].files).toEqual([
+      { fileId: '1', name: 'a.txt', conflict: true },
+      { fileId: '2', name: 'A.TXT', conflict: true },
+    ]);
+  });
+});
+
+class MoveTestAdapter {
+  folders = new Map<string, string>();
+  createFolder = vi.fn(async (name: string, parentId: string) => {
+    const key = `${parentId}/${name}`;
+    if (!this.folders.has(key)) {
+      this.folders.set(key, `dir-${this.folders.size + 1}`);
+    }
+    return this.folders.get(key) as string;
+  });
+  failIds = new Set<string>();
+  moveFiles = vi.fn(async (fileIds: string[]): Promise<MoveResult> => {
+    const failedIds = fileIds.filter((id) => this.failIds.has(id));
+    return failedIds.length > 0
+      ? { success: false, failedIds, error: new Error('denied') }
+      : { success: true };
+  });
+}
+
+describe('executeOrganizePlan', () => {
+  it('creates each folder once and moves files in batches per folder', async () => {
+    const adapter = new MoveTestAdapter();
+    const rule = new OrganizeRule({ pathTemplate: 'Show/{name:0:1}' });
+    const files = Array.from({ length: 150 }, (_, index) => createItem(`f${index}`, index < 120 ? 'a.txt' : 'b.txt'));
+
+    const results = await executeOrganizePlan(adapter, buildOrganizePlan(rule, files, (file) => file.name), 'root');
+
+    expect(adapter.createFolder.mock.calls).toEqual([
+      ['Show', 'root'],
+      ['a', 'dir-1'],
+      ['b', 'dir-1'],
+    ]);
+    expect(adapter.moveFiles.mock.calls.map(([ids, target]) => [ids.length, target])).toEqual([
+      [100, 'dir-2'],
+      [20, 'dir-2'],
+      [30, 'dir-3'],
+    ]);
+    expect(results.failed).toEqual([]);
+    expect(results.moved[0]).toEqual({
+      fileId: 'f0',
+      name: 'a.txt',
+      fromParentId: 'root',
+      toParentId: 'dir-2',
+      fromPath: '',
+      toPath: 'Show/a',
+    });
+  });
+
+  it('reports partial move failures and folder errors per file', async () => {
+    const adapter = new MoveTestAdapter();
+    adapter.failIds.add('2');
+    adapter.createFolder.mockImplementation(async (name: string) => {
+      if (name === 'broken') throw new Error('quota');
+      return `dir-${name}`;
+    });
+    const rule = new OrganizeRule({ pathTemplate: '{name}' });
+    const files = [createItem('1', 'ok.txt'), createItem('2', 'ok.txt'), createItem('3', 'broken.txt')];
+    const entries = buildOrganizePlan(new OrganizeRule({ pathTemplate: 'ok' }), files.slice(0, 2), (f) => f.name);
+    entries.push(...buildOrganizePlan(rule, [files[2]], (f) => f.name));
+
+    const results = await executeOrganizePlan(adapter, entries, 'root');
+
+    expect(results.moved.map((item) => item.fileId)).toEqual(['1']);
+    expect(results.failed).toEqual([
+      { fileId: '2', name: 'ok.txt', error: 'denied' },
+      { fileId: '3', name: 'broken.txt', error: 'quota' },
+    ]);
+  });
+
+  it('moves files back to the folders they came from', async () => {
+    const adapter = new MoveTestAdapter();
+    adapter.failIds.add('3');
+    const move = (fromParentId: string) => ({ fromParentId, toParentId: 'dir-x', fromPath: '', toPath: 'x' });
+
+    const results = await revertOrganizeMoves(adapter, [
+      { fileId: '1', move: move('root') },
+      { fileId: '2', move: move('sub') },
+      { fileId: '3', move: move('root') },
+    ]);
+
+    expect(adapter.moveFiles.mock.calls).toEqual([
+      [['1', '3'], 'root'],
+      [['2'], 'sub'],
+    ]);
+    expect(Array.from(results.reverted)).toEqual(['1', '2']);
+    expect(results.failed).toEqual([{ fileId: '3', error: 'denied' }]);
+  });
+
+  it('detects platforms without move support', () => {
+    expect(supportsOrganize(new MoveTestAdapter())).toBe(true);
+    expect(supportsOrganize({})).toBe(false);
+    expect(supportsOrganize(null)).toBe(false);
+  });
+});
+
+describe('upsertUndoItems', () => {
+  it('replaces items of the same file and appends new ones', () => {
+    const move = { fromParentId: 'root', toParentId: 'dir-1', fromPath: '', toPath: 'A' };
+
+    expect(
+      upsertUndoItems(
+        [
+          { fileId: '1', original: 'a', renamed: 'b', index: 0 },
+          { fileId: '2', original: 'c', renamed: 'd', index: 1 },
+        ],
+        [
+          { fileId: '2', original: 'c', renamed: 'd', index: 1, move },
+          { fileId: '3', original: 'e', renamed: 'e', index: 2, move },
+        ]
+      ).map((item) => [item.fileId, Boolean(item.move)])
+    ).toEqual([
+      ['1', false],
+      ['2', true],
+      ['3', true],
+    ]);
+  });
+});
+
+type OrganizeHarness = FileSelectorPanel & {
+  allFiles: FileItem[];
+  uncheckList: Set<string>;
+  ruleConfig: RuleConfig;
+  lastRenameOperation: LastRenameOperation | null;
+  updatePreview(): void;
+  handleExecute(): Promise<void>;
+  handleRetryFailed(): Promise<void>;
+  handleUndoLastRename(): Promise<void>;
+};
+
+class OrganizePanelAdapter extends MoveTestAdapter implements PlatformAdapter {
+  readonly platform = 'quark' as const;
+  readonly renameFile = vi.fn(async (_fileId: string, newName: string): Promise<RenameResult> => ({
+    success: true,
+    newName,
+  }));
+
+  getCurrentDirectoryKey(): string {
+    return 'root';
+  }
+
+  async getSelectedFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async getAllFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async checkNameConflict(): Promise<boolean> {
+    return false;
+  }
+
+  async getFileInfo(fileId: string): Promise<FileItem> {
+    return createItem(fileId, fileId);
+  }
+
+  getConfig() {
+    return { platform: 'quark' as const, requestInterval: 0, maxConcurrent: 1, maxRetries: 0 };
+  }
+}
+
+describe('FileSelectorPanel organize mode', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.stubGlobal('chrome', {
+      storage: {
+        local: {
+          get: vi.fn(async () => ({})),
+          set: vi.fn(async () => undefined),
+          remove: vi.fn(async () => undefined),
+        },
+      },
+    });
+    vi.stubGlobal('alert', vi.fn());
+    vi.stubGlobal('confirm', vi.fn(() => true));
+  });
+
+  function createPanel(adapter: OrganizePanelAdapter): OrganizeHarness {
+    const panel = new FileSelectorPanel() as OrganizeHarness;
+    panel.adapter = adapter;
+    panel.allFiles = [createItem('1', 'Show.EP01.mkv'), createItem('2', 'Show S02E02.mkv')];
+    panel.uncheckList = new Set();
+    panel.ruleConfig = episodeConfig;
+    panel.updatePreview();
+    return panel;
+  }
+
+  it('renames, moves, retries failed moves and undoes both steps', async () => {
+    const adapter = new OrganizePanelAdapter();
+    adapter.failIds.add('1');
+    const panel = createPanel(adapter);
+
+    await panel.handleExecute();
+
+    expect(adapter.renameFile).toHaveBeenCalledWith('1', 'Show S02E01.mkv');
+    expect(adapter.moveFiles).toHaveBeenCalledWith(['1', '2'], 'dir-2');
+    expect(panel.allFiles.map((file) => [file.parentId, file.relativePath])).toEqual([
+      ['root', undefined],
+      ['dir-2', 'Show/Season 02'],
+    ]);
+    expect(panel.lastRenameOperation?.items.map((item) => [item.fileId, item.renamed, Boolean(item.move)])).toEqual([
+      ['1', 'Show S02E01.mkv', false],
+      ['2', 'Show S02E02.mkv', true],
+    ]);
+
+    adapter.failIds.clear();
+    await panel.handleRetryFailed();
+
+    expect(adapter.renameFile).toHaveBeenCalledTimes(1);
+    expect(adapter.moveFiles).toHaveBeenLastCalledWith(['1'], 'dir-2');
+    expect(panel.lastRenameOperation?.items.find((item) => item.fileId === '1')).toMatchObject({
+      original: 'Show.EP01.mkv',
+      renamed: 'Show S02E01.mkv',
+      move: { fromParentId: 'root', toParentId: 'dir-2' },
+    });
+
+    await panel.handleUndoLastRename();
+
+    expect(adapter.moveFiles).toHaveBeenLastCalledWith(['1', '2'], 'root');
+    expect(adapter.renameFile).toHaveBeenLastCalledWith('1', 'Show.EP01.mkv');
+    expect(panel.allFiles.map((file) => [file.name, file.parentId])).toEqual([
+      ['Show.EP01.mkv', 'root'],
+      ['Show S02E02.mkv', 'root'],
+    ]);
+    expect(panel.lastRenameOperation).toBeNull();
+  });
+
+  it('only renames on platforms that cannot move files', async () => {
+    const adapter = new OrganizePanelAdapter();
+    const panel = createPanel(adapter);
+    const basic = adapter as Partial<OrganizePanelAdapter>;
+    delete basic.createFolder;
+    delete basic.moveFiles;
+
+    await panel.handleExecute();
+
+    expect(adapter.renameFile).toHaveBeenCalledTimes(1);
+    expect(panel.allFiles.every((file) => file.parentId === 'root')).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { PipelineRule, flattenRuleConfig, ruleConfigIncludes } from '../../src/rules/pipeline';
+import { RuleFactory } from '../../src/rules/rule-factory';
+import { ConfigPanel } from '../../src/content/components/config-panel';
+import { PipelineStep, RuleConfig } from '../../src/types/rule';
+
+const createStep = (config: RuleConfig) => RuleFactory.create(config);
+
+describe('PipelineRule', () => {
+  it('应将前一步的输出作为后一步的输入', () => {
+    const rule = new PipelineRule(
+      {
+        steps: [
+          { type: 'sanitize', params: { removeChars: '[]' } },
+          {
+            type: 'episodeExtract',
+            params: { template: '{prefix}.S{season}E{episode}{ext}', prefix: 'Show', leadingZeroCount: 2 },
+          },
+          { type: 'prefix', params: { prefix: 'HD', separator: '_' } },
+        ],
+      },
+      createStep
+    );
+
+    expect(rule.execute('[Group] Show - 03 [1080p].mkv', 0, 1)).toBe('HD_Show.S01E03.mkv');
+  });
+
+  it('应跳过禁用的步骤', () => {
+    const rule = new PipelineRule(
+      {
+        steps: [
+          { type: 'prefix', params: { prefix: 'A' }, enabled: false },
+          { type: 'suffix', params: { suffix: 'B' } },
+        ],
+      },
+      createStep
+    );
+
+    expect(rule.execute('file.txt', 0, 1)).toBe('fileB.txt');
+  });
+
+  it('应向每一步传递原始索引和总数', () => {
+    const rule = RuleFactory.create({
+      type: 'pipeline',
+      params: {
+        steps: [
+          { type: 'replace', params: { search: 'x', replace: 'y' } },
+          {
+            type: 'numbering',
+            params: { startNumber: 1, digits: 2, position: 'prefix', format: '{num}', separator: '-' },
+          },
+        ],
+      },
+    });
+
+    expect(rule.execute('x.txt', 4, 10)).toBe('05-y.txt');
+  });
+
+  it('没有启用步骤、嵌套规则链或步骤无效时应视为无效配置', () => {
+    expect(() => new PipelineRule({ steps: [] }, createStep)).toThrow('Invalid rule configuration');
+    expect(
+      () => new PipelineRule({ steps: [{ type: 'prefix', params: { prefix: 'A' }, enabled: false }] }, createStep)
+    ).toThrow('Invalid rule configuration');
+    expect(
+      () => new PipelineRule({ steps: [{ type: 'pipeline', params: { steps: [] } }] }, createStep)
+    ).toThrow('Invalid rule configuration');
+    expect(
+      () => new PipelineRule({ steps: [{ type: 'replace', params: { search: '', replace: '' } }] }, createStep)
+    ).toThrow('Invalid rule configuration');
+  });
+
+  it('flattenRuleConfig / ruleConfigIncludes 应只考虑启用的步骤', () => {
+    const config: RuleConfig = {
+      type: 'pipeline',
+      params: {
+        steps: [
+          { type: 'episodeExtract', params: { template: '{prefix}', prefix: '' }, enabled: false },
+          { type: 'prefix', params: { prefix: 'A' } },
+        ],
+      },
+    };
+
+    expect(flattenRuleConfig(config)).toEqual([{ type: 'prefix', params: { prefix: 'A' } }]);
+    expect(ruleConfigIncludes(config, 'episodeExtract')).toBe(false);
+    expect(ruleConfigIncludes({ type: 'episodeExtract', params: {} }, 'episodeExtract')).toBe(true);
+  });
+});
+
+describe('ConfigPanel rule chain', () => {
+  it('单步时发出普通规则配置，多步时发出 pipeline 配置', async () => {
+    const panel = new ConfigPanel();
+    document.body.appendChild(panel);
+    await panel.updateComplete;
+
+    const configs: RuleConfig[] = [];
+    panel.addEventListener('config-change', (event) => configs.push((event as CustomEvent<RuleConfig>).detail));
+
+    panel.shadowRoot?.querySelector<HTMLButtonElement>('[data-role="pipeline-add-step"]')?.click();
+    await panel.updateComplete;
+
+    expect(panel.shadowRoot?.querySelectorAll('[data-role="pipeline-step"]')).toHaveLength(2);
+    expect(configs.at(-1)?.type).toBe('pipeline');
+    expect(configs.at(-1)?.params.steps).toHaveLength(2);
+
+    panel.shadowRoot?.querySelectorAll<HTMLButtonElement>('[data-role="pipeline-step-remove"]')[1]?.click();
+    await panel.updateComplete;
+
+    expect(panel.shadowRoot?.querySelectorAll('[data-role="pipeline-step"]')).toHaveLength(1);
+    expect(configs.at(-1)?.type).toBe('replace');
+
+    panel.remove();
+  });
+
+  it('不允许禁用最后一个启用的步骤', async () => {
+    const panel = new ConfigPanel();
+    document.body.appendChild(panel);
+    await panel.updateComplete;
+
+    const configs: RuleConfig[] = [];
+    panel.addEventListener('config-change', (event) => configs.push((event as CustomEvent<RuleConfig>).detail));
+
+    panel.shadowRoot?.querySelector<HTMLButtonElement>('[data-role="pipeline-add-step"]')?.click();
+    await panel.updateComplete;
+
+    const toggles = () => Array.from(panel.shadowRoot?.querySelectorAll<HTMLInputElement>('[data-role="pipeline-step-toggle"]') ?? []);
+    toggles()[0].checked = false;
+    toggles()[0].dispatchEvent(new Event('change'));
+    await panel.updateComplete;
+
+    expect(toggles().map((toggle) => toggle.disabled)).toEqual([false, true]);
+    expect(configs.at(-1)?.params.steps.map((step: PipelineStep) => step.enabled)).toEqual([false, true]);
+
+    // 即使绕过禁用状态，也不会发出没有启用步骤的配置
+    const emitted = configs.length;
+    toggles()[1].checked = false;
+    toggles()[1].dispatchEvent(new Event('change'));
+    await panel.updateComplete;
+
+    expect(configs).toHaveLength(emitted);
+    expect(toggles()[1].checked).toBe(true);
+
+    // 删除唯一启用的步骤后，剩下的步骤重新启用
+    panel.shadowRoot?.querySelectorAll<HTMLButtonElement>('[data-role="pipeline-step-remove"]')[1]?.click();
+    await panel.updateComplete;
+
+    expect(configs.at(-1)?.type).toBe('replace');
+    expect(toggles()[0].checked).toBe(true);
+
+    panel.remove();
+  });
+});
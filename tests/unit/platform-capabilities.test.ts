@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AliyunAdapter } from '../../src/adapters/aliyun/aliyun-adapter';
+import { BaiduAdapter } from '../../src/adapters/baidu/baidu-adapter';
+import { QuarkAdapter } from '../../src/adapters/quark/quark';
+import { ConfigPanel } from '../../src/content/components/config-panel';
+import { FileSelectorPanel } from '../../src/content/components/file-selector-panel';
+import { buildExecutionPlan } from '../../src/core/execution-plan';
+import { FileItem, PlatformAdapter, PlatformCapabilities, RenameResult } from '../../src/types/platform';
+import { RuleConfig } from '../../src/types/rule';
+import { parseFileName } from '../../src/utils/helpers';
+import { exceedsMaxNameLength, getPlatformCapabilities } from '../../src/utils/platform-capabilities';
+
+function createItem(id: string, name: string, isFolder = false): FileItem {
+  return { id, name, ext: parseFileName(name, isFolder).ext, parentId: 'root', size: 0, mtime: 1, isFolder };
+}
+
+class MinimalAdapter implements PlatformAdapter {
+  readonly platform = 'quark' as const;
+  capabilities?: PlatformCapabilities;
+
+  getCurrentDirectoryKey(): string {
+    return 'root';
+  }
+
+  async getSelectedFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async getAllFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async renameFile(_fileId: string, newName: string): Promise<RenameResult> {
+    return { success: true, newName };
+  }
+
+  async checkNameConflict(): Promise<boolean> {
+    return false;
+  }
+
+  async getFileInfo(fileId: string): Promise<FileItem> {
+    return createItem(fileId, fileId);
+  }
+
+  getConfig() {
+    return { platform: 'quark' as const, requestInterval: 0, maxRetries: 0, caseSensitive: false };
+  }
+}
+
+describe('platform capabilities', () => {
+  it('infers capabilities from config and implemented methods', () => {
+    expect(getPlatformCapabilities(new MinimalAdapter())).toEqual({
+      batchRename: false,
+      folderRename: true,
+      caseSensitive: false,
+      caseOnlyRename: true,
+      maxNameLength: 255,
+      recursiveListing: false,
+      move: false,
+      nativeUndo: false,
+      pageSync: false,
+      fileIdKind: 'id',
+    });
+    expect(getPlatformCapabilities(null)).toBeNull();
+  });
+
+  it('describes each built-in adapter', () => {
+    const quark = new QuarkAdapter().capabilities;
+    const aliyun = new AliyunAdapter().capabilities;
+    const baidu = new BaiduAdapter().capabilities;
+
+    for (const capabilities of [quark, aliyun, baidu]) {
+      expect(capabilities).toMatchObject({ recursiveListing: true, move: true, caseSensitive: false });
+    }
+    expect(quark.caseOnlyRename).toBe(false);
+    expect(quark.fileIdKind).toBe('id');
+    expect(baidu.fileIdKind).toBe('id');
+    expect([quark.maxNameLength, aliyun.maxNameLength, baidu.maxNameLength]).toEqual([255, 1024, 255]);
+    expect([quark.batchRename, aliyun.batchRename, baidu.batchRename]).toEqual([false, true, true]);
+  });
+
+  it('counts characters rather than UTF-16 units for the length limit', () => {
+    expect(exceedsMaxNameLength('😀'.repeat(3), { maxNameLength: 3 })).toBe(false);
+    expect(exceedsMaxNameLength('abcd', { maxNameLength: 3 })).toBe(true);
+  });
+});
+
+describe('buildExecutionPlan with capabilities', () => {
+  it('leaves out folders and over-long names the platform cannot apply', () => {
+    const files = [createItem('d1', 'Extras', true), createItem('f1', 'a.mp4'), createItem('f2', 'b.mp4')];
+    const plan = buildExecutionPlan({
+      files,
+      newNames: ['Bonus', 'x'.repeat(20) + '.mp4', 'c.mp4'],
+      capabilities: { caseSensitive: true, folderRename: false, maxNameLength: 10 },
+    });
+
+    expect(plan.tasks.map((task) => task.file.id)).toEqual(['f2']);
+    expect(plan.unsupported).toEqual([
+      { index: 0, reason: 'folder_rename' },
+      { index: 1, reason: 'name_too_long' },
+    ]);
+  });
+});
+
+type CapabilityHarness = FileSelectorPanel & {
+  allFiles: FileItem[];
+  uncheckList: Set<string>;
+  ruleConfig: RuleConfig;
+  extractErrorMap: Map<string, string>;
+  renameTaskCount: number;
+  updatePreview(): void;
+};
+
+describe('FileSelectorPanel capability gating', () => {
+  beforeEach(() => {
+    vi.stubGlobal('chrome', {
+      storage: { local: { get: vi.fn(async () => ({})), set: vi.fn(async () => undefined) } },
+    });
+  });
+
+  it('flags names the platform cannot apply in the preview', () => {
+    const adapter = new MinimalAdapter();
+    adapter.capabilities = { ...getPlatformCapabilities(adapter), folderRename: false, maxNameLength: 8 };
+    const panel = new FileSelectorPanel() as CapabilityHarness;
+    panel.adapter = adapter;
+    panel.allFiles = [createItem('d1', 'Extras', true), createItem('f1', 'a.mp4'), createItem('f2', 'long.mp4')];
+    panel.uncheckList = new Set();
+    panel.ruleConfig = { type: 'prefix', params: { prefix: 'X' } };
+
+    panel.updatePreview();
+
+    expect(Array.from(panel.extractErrorMap.keys())).toEqual(['d1', 'f2']);
+    expect(panel.renameTaskCount).toBe(1);
+  });
+});
+
+describe('ConfigPanel capability gating', () => {
+  it('hides organize mode and the skip-folders option when the platform lacks them', async () => {
+    const panel = new ConfigPanel();
+    panel.capabilities = { ...getPlatformCapabilities(new MinimalAdapter()), move: false, folderRename: false };
+    document.body.appendChild(panel);
+    await panel.updateComplete;
+
+    const ruleTypes = Array.from(panel.shadowRoot?.querySelectorAll<HTMLInputElement>('input[name="rule"]') ?? []).map(
+      (input) => input.value
+    );
+    expect(ruleTypes).toContain('template');
+    expect(ruleTypes).not.toContain('organize');
+    expect(panel.shadowRoot?.querySelector('[data-role="skip-folders-toggle"]')).toBeNull();
+
+    panel.capabilities = null;
+    await panel.updateComplete;
+    expect(panel.shadowRoot?.querySelector('input[name="rule"][value="organize"]')).not.toBeNull();
+    expect(panel.shadowRoot?.querySelector('[data-role="skip-folders-toggle"]')).not.toBeNull();
+
+    panel.remove();
+  });
+});
@@ -178,6 +178,13 @@ describe('Platform Detection - Unified Utils', () => {
         expect(result).toBe('baidu');
       });
 
+      it('should detect 115 Drive by exact hostname and skip its share links', () => {
+        expect(detectPlatformFromUrl('https://115.com/?cid=0&offset=0&mode=wangpan', '/')).toBe('115');
+        expect(detectPlatformFromUrl('https://115.com/s/sw3abc?password=x')).toBeNull();
+        expect(detectPlatformFromUrl('https://webapi.115.com/files')).toBeNull();
+        expect(detectPlatformFromUrl('https://not115.com/')).toBeNull();
+      });
+
       it('should return null for unsupported platform', () => {
         const result = detectPlatformFromUrl(
           'https://example.com/',
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimiterRegistry, SLOWDOWN_HALF_LIFE_MS, TokenBucket, toRateLimitConfig } from '../../src/core/rate-limiter';
+import { RateLimitClient } from '../../src/core/rate-limit-client';
+import { RateLimitService } from '../../src/background/rate-limit-service';
+import { RATE_LIMIT_STORAGE_KEY } from '../../src/types/rate-limit';
+import { RUNTIME_MESSAGE_TYPES } from '../../src/types/runtime-message';
+
+const TWO_PER_SECOND = { requestsPerSecond: 2, burst: 2 };
+
+describe('TokenBucket', () => {
+  it('应该允许突发请求，之后按速率排队', () => {
+    const bucket = new TokenBucket(TWO_PER_SECOND, 0);
+
+    expect([bucket.reserve(0), bucket.reserve(0), bucket.reserve(0), bucket.reserve(0)]).toEqual([0, 0, 500, 1000]);
+  });
+
+  it('应该随时间补充令牌但不超过容量', () => {
+    const bucket = new TokenBucket(TWO_PER_SECOND, 0);
+    bucket.reserve(0);
+    bucket.reserve(0);
+
+    expect(bucket.reserve(500)).toBe(0);
+    expect(bucket.reserve(10_000)).toBe(0);
+    expect(bucket.reserve(10_000)).toBe(0);
+    expect(bucket.reserve(10_000)).toBe(500);
+  });
+
+  it('应该按降速倍数放慢补充速率', () => {
+    const bucket = new TokenBucket({ requestsPerSecond: 2, burst: 1 }, 0);
+    bucket.reportSlowdown(2, 0);
+
+    expect([bucket.reserve(0), bucket.reserve(0)]).toEqual([0, 1000]);
+  });
+
+  it('应该取各调用方降速倍数的较大者，并随时间衰减', () => {
+    const bucket = new TokenBucket({ requestsPerSecond: 2, burst: 1 }, 0);
+    bucket.reportSlowdown(3, 0);
+    // 另一个标签页没有遇到限流，不应取消已调高的倍数
+    bucket.reportSlowdown(1, 0);
+
+    expect(bucket.getSlowdown(0)).toBe(3);
+    expect(bucket.getSlowdown(SLOWDOWN_HALF_LIFE_MS)).toBe(2);
+    expect(bucket.getSlowdown(SLOWDOWN_HALF_LIFE_MS * 20)).toBeCloseTo(1, 4);
+  });
+});
+
+describe('RateLimiterRegistry', () => {
+  it('应该按平台分别限流', () => {
+    const registry = new RateLimiterRegistry(() => 0);
+    const limits = { requestsPerSecond: 1, burst: 1 };
+
+    expect(registry.reserve({ platform: 'quark', limits })).toBe(0);
+    expect(registry.reserve({ platform: 'quark', limits })).toBe(1000);
+    expect(registry.reserve({ platform: 'baidu', limits })).toBe(0);
+  });
+
+  it('应该优先使用覆盖配置，并保留执行引擎设置的降速倍数', () => {
+    const registry = new RateLimiterRegistry(() => 0);
+    const limits = { requestsPerSecond: 1, burst: 1 };
+
+    registry.reserve({ platform: 'quark', limits, slowdown: 3 });
+    registry.setOverrides({ quark: { requestsPerSecond: 10, burst: 5 } });
+    registry.reserve({ platform: 'quark', limits });
+
+    expect(registry.getState('quark')).toEqual({ limits: { requestsPerSecond: 10, burst: 5 }, slowdown: 3 });
+    expect(registry.getState('baidu')).toBeNull();
+  });
+
+  it('应该把 requestInterval 换算为容量为 1 的令牌桶', () => {
+    expect(toRateLimitConfig({ requestInterval: 500 })).toEqual({ requestsPerSecond: 2, burst: 1 });
+    expect(toRateLimitConfig({ requestInterval: 0 })).toBeNull();
+    expect(toRateLimitConfig({ requestInterval: 500, rateLimit: TWO_PER_SECOND })).toBe(TWO_PER_SECOND);
+  });
+});
+
+describe('RateLimitClient', () => {
+  const wait = vi.fn(async (_ms: number) => undefined);
+
+  afterEach(() => {
+    wait.mockClear();
+    vi.unstubAllGlobals();
+  });
+
+  it('应该向 Service Worker 租用令牌并等待返回的时间', async () => {
+    const sendMessage = vi.fn(async () => ({ success: true, delayMs: 250 }));
+    vi.stubGlobal('chrome', { runtime: { sendMessage } });
+    const client = new RateLimitClient(new RateLimiterRegistry(), wait);
+
+    await client.acquire('quark', TWO_PER_SECOND);
+
+    expect(sendMessage).toHaveBeenCalledWith({
+      type: RUNTIME_MESSAGE_TYPES.ACQUIRE_RATE_LIMIT,
+      platform: 'quark',
+      limits: TWO_PER_SECOND,
+    });
+    expect(wait).toHaveBeenCalledWith(250);
+  });
+
+  it('应该在无法连接 Service Worker 时使用页面内的令牌桶', async () => {
+    vi.stubGlobal('chrome', { runtime: { sendMessage: vi.fn(async () => Promise.reject(new Error('context invalidated'))) } });
+    const fallback = new RateLimiterRegistry(() => 0);
+    const client = new RateLimitClient(fallback, wait);
+    const limits = { requestsPerSecond: 4, burst: 1 };
+
+    await client.acquire('baidu', limits);
+    await client.acquire('baidu', limits);
+
+    expect(wait.mock.calls).toEqual([[250]]);
+  });
+
+  it('应该把执行引擎预占的令牌留给任务的第一个请求', async () => {
+    const sendMessage = vi.fn(async () => ({ success: true, delayMs: 0 }));
+    vi.stubGlobal('chrome', { runtime: { sendMessage } });
+    const client = new RateLimitClient(new RateLimiterRegistry(), wait);
+
+    await client.acquireForTask('quark', TWO_PER_SECOND, 1.5);
+    await client.acquire('quark', TWO_PER_SECOND);
+    await client.acquire('115', TWO_PER_SECOND);
+    await client.acquire('quark', TWO_PER_SECOND);
+
+    expect(sendMessage.mock.calls.map(([message]) => [message.platform, message.slowdown])).toEqual([
+      ['quark', 1.5],
+      ['115', undefined],
+      ['quark', undefined],
+    ]);
+  });
+
+  it('应该在未配置限流时直接放行', async () => {
+    const sendMessage = vi.fn();
+    vi.stubGlobal('chrome', { runtime: { sendMessage } });
+    const client = new RateLimitClient(new RateLimiterRegistry(), wait);
+
+    await client.acquire('webdav', null);
+    await client.acquireForTask('webdav', null);
+
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe('RateLimitService', () => {
+  let stored: Record<string, unknown>;
+  let now: number;
+
+  beforeEach(() => {
+    stored = {};
+    now = 0;
+  });
+
+  function createService() {
+    const storageManager = { get: vi.fn(async (key: string) => stored[key] ?? null) };
+    return { service: new RateLimitService(storageManager, new RateLimiterRegistry(() => now)), storageManager };
+  }
+
+  it('应该让所有调用方共享同一个令牌桶', async () => {
+    const { service } = createService();
+    const limits = { requestsPerSecond: 1, burst: 1 };
+
+    const delays = await Promise.all([
+      service.lease({ platform: 'quark', limits }),
+      service.lease({ platform: 'quark', limits }),
+      service.lease({ platform: 'quark', limits }),
+    ]);
+
+    expect(delays).toEqual([0, 1000, 2000]);
+  });
+
+  it('应该读取存储中的覆盖配置并忽略无效项，存储变化后重新读取', async () => {
+    stored[RATE_LIMIT_STORAGE_KEY] = { quark: { requestsPerSecond: 5, burst: 3 }, baidu: { requestsPerSecond: 0, burst: 1 } };
+    const { service, storageManager } = createService();
+    const limits = { requestsPerSecond: 1, burst: 1 };
+
+    const quarkDelays = [];
+    for (let i = 0; i < 4; i++) {
+      quarkDelays.push(await service.lease({ platform: 'quark', limits }));
+    }
+    await service.lease({ platform: 'baidu', limits });
+
+    expect(quarkDelays).toEqual([0, 0, 0, 200]);
+    await expect(service.lease({ platform: 'baidu', limits })).resolves.toBe(1000);
+    expect(storageManager.get).toHaveBeenCalledTimes(1);
+
+    stored[RATE_LIMIT_STORAGE_KEY] = {};
+    await service.reloadOverrides();
+    now = 10_000;
+    await expect(service.lease({ platform: 'quark', limits })).resolves.toBe(0);
+    await expect(service.lease({ platform: 'quark', limits })).resolves.toBe(1000);
+  });
+
+  it('应该在读取覆盖配置失败时仍然限流', async () => {
+    const storageManager = { get: vi.fn(async () => Promise.reject(new Error('storage unavailable'))) };
+    const service = new RateLimitService(storageManager, new RateLimiterRegistry(() => 0));
+    const limits = { requestsPerSecond: 1, burst: 1 };
+
+    await expect(service.lease({ platform: 'quark', limits })).resolves.toBe(0);
+    await expect(service.lease({ platform: 'quark', limits })).resolves.toBe(1000);
+  });
+});
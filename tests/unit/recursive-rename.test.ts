@@ -0,0 +1,255 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { QuarkAdapter } from '../../src/adapters/quark/quark';
+import { FileSelectorPanel } from '../../src/content/components/file-selector-panel';
+import { checkBatchConflicts } from '../../src/core/conflict-detector';
+import { planRenamePhases } from '../../src/core/execution-plan';
+import { NumberingRule } from '../../src/rules/numbering';
+import { TemplateRule } from '../../src/rules/template';
+import { RecursiveScanSettings } from '../../src/types/file-selector';
+import {
+  FileItem,
+  PlatformAdapter,
+  RecursiveListOptions,
+  RecursiveListProgress,
+  RenameResult,
+} from '../../src/types/platform';
+import { groupFilesByFolder, matchesFolderPattern } from '../../src/utils/folders';
+
+type QuarkItem = { fid: string; file_name: string; pdir_fid: string; file: boolean; size: number; updated_at: number };
+
+/**
+ * 模拟目录树：
+ * root/ a.mkv, Season 1/ (e01.mkv, Subs/ e01.srt), Season 2/ (e01.mkv), Extras/ (trailer.mkv)
+ */
+const TREE: Record<string, QuarkItem[]> = {
+  root: [
+    { fid: 'a', file_name: 'a.mkv', pdir_fid: 'root', file: true, size: 1, updated_at: 1 },
+    { fid: 's1', file_name: 'Season 1', pdir_fid: 'root', file: false, size: 0, updated_at: 1 },
+    { fid: 's2', file_name: 'Season 2', pdir_fid: 'root', file: false, size: 0, updated_at: 1 },
+    { fid: 'ex', file_name: 'Extras', pdir_fid: 'root', file: false, size: 0, updated_at: 1 },
+  ],
+  s1: [
+    { fid: 's1e01', file_name: 'e01.mkv', pdir_fid: 's1', file: true, size: 1, updated_at: 1 },
+    { fid: 'subs', file_name: 'Subs', pdir_fid: 's1', file: false, size: 0, updated_at: 1 },
+  ],
+  subs: [{ fid: 'srt', file_name: 'e01.srt', pdir_fid: 'subs', file: true, size: 1, updated_at: 1 }],
+  s2: [{ fid: 's2e01', file_name: 'e01.mkv', pdir_fid: 's2', file: true, size: 1, updated_at: 1 }],
+  ex: [{ fid: 'trailer', file_name: 'trailer.mkv', pdir_fid: 'ex', file: true, size: 1, updated_at: 1 }],
+};
+
+function createQuarkAdapter() {
+  const adapter = new QuarkAdapter({ requestInterval: 0 });
+  const internals = adapter as unknown as { fetchDirectoryItems(parentId: string): Promise<QuarkItem[]> };
+  const fetchDirectoryItems = vi
+    .spyOn(internals, 'fetchDirectoryItems')
+    .mockImplementation(async (parentId) => TREE[parentId] ?? []);
+  return { adapter, fetchDirectoryItems };
+}
+
+function createFile(id: string, name: string, parentId: string, relativePath?: string): FileItem {
+  const dot = name.lastIndexOf('.');
+  return { id, name, ext: dot > 0 ? name.slice(dot) : '', parentId, size: 1, mtime: 1, relativePath };
+}
+
+describe('recursive listing', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('walks subfolders and fills relative paths and folder names', async () => {
+    const { adapter } = createQuarkAdapter();
+
+    const files = await adapter.getAllFilesRecursive('root');
+
+    expect(files.map((file) => [file.id, file.relativePath, file.parentId])).toEqual([
+      ['a', '', 'root'],
+      ['s1e01', 'Season 1', 's1'],
+      ['s2e01', 'Season 2', 's2'],
+      ['trailer', 'Extras', 'ex'],
+      ['srt', 'Season 1/Subs', 'subs'],
+    ]);
+    expect(files.find((file) => file.id === 'srt')?.parentName).toBe('Subs');
+  });
+
+  it('respects the depth limit and folder patterns', async () => {
+    const { adapter, fetchDirectoryItems } = createQuarkAdapter();
+
+    const shallow = await adapter.getAllFilesRecursive('root', { maxDepth: 1, excludeFolders: ['extras'] });
+    expect(shallow.map((file) => file.id)).toEqual(['a', 's1e01', 's2e01']);
+    expect(fetchDirectoryItems).not.toHaveBeenCalledWith('subs');
+    expect(fetchDirectoryItems).not.toHaveBeenCalledWith('ex');
+
+    const seasonOne = await adapter.getAllFilesRecursive('root', { includeFolders: ['Season 1'] });
+    expect(seasonOne.map((file) => file.id)).toEqual(['a', 's1e01', 'srt']);
+  });
+
+  it('reports progress and stops with an AbortError when cancelled', async () => {
+    const { adapter, fetchDirectoryItems } = createQuarkAdapter();
+    const controller = new AbortController();
+    const progress: RecursiveListProgress[] = [];
+
+    const result = adapter.getAllFilesRecursive('root', {
+      signal: controller.signal,
+      onProgress: (event) => {
+        progress.push(event);
+        if (event.foldersScanned === 2) controller.abort();
+      },
+    });
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(progress[1]).toEqual({ foldersScanned: 2, filesFound: 2, currentPath: 'Season 1' });
+    expect(fetchDirectoryItems).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('folder helpers', () => {
+  it('matches wildcard patterns against names, or paths when they contain a slash', () => {
+    expect(matchesFolderPattern('season*', 'Season 1', 'Season 1')).toBe(true);
+    expect(matchesFolderPattern('Season ?', 'Season 10', 'Season 10')).toBe(false);
+    expect(matchesFolderPattern('Season 1/*', 'Subs', 'Season 1/Subs')).toBe(true);
+    expect(matchesFolderPattern('Subs (1)', 'Subs (1)', 'Subs (1)')).toBe(true);
+  });
+
+  it('groups files by relative path in natural order', () => {
+    const files = [
+      createFile('1', 'x', 's10', 'Season 10'),
+      createFile('2', 'y', 's2', 'Season 2'),
+      createFile('3', 'z', 'root', ''),
+      createFile('4', 'w', 's2', 'Season 2'),
+    ];
+
+    expect(groupFilesByFolder(files).map((file) => file.id)).toEqual(['3', '2', '4', '1']);
+  });
+});
+
+describe('folder-aware rules and conflicts', () => {
+  const seasonOne = createFile('1', 'e01.mkv', 's1', 'Show/Season 1');
+  const seasonTwo = createFile('2', 'e01.mkv', 's2', 'Show/Season 2');
+
+  it('renders {folder} and {relpath} template tokens', () => {
+    const rule = new TemplateRule({ template: '{relpath} {folder:-1} {name}' });
+
+    expect(rule.execute(seasonOne.name, 0, 2, seasonOne)).toBe('Show-Season 1 1 e01.mkv');
+    expect(rule.execute('top.mkv', 0, 1, createFile('3', 'top.mkv', 'root', ''))).toBe('  top.mkv');
+  });
+
+  it('restarts numbering in each folder when resetPerFolder is set', () => {
+    const files = [seasonOne, createFile('3', 'e02.mkv', 's1', 'Show/Season 1'), seasonTwo];
+    const rule = new NumberingRule({
+      startNumber: 1,
+      digits: 2,
+      position: 'prefix',
+      format: '{num}',
+      separator: ' ',
+      resetPerFolder: true,
+    });
+
+    rule.prepare(files);
+
+    expect(files.map((file, index) => rule.execute(file.name, index, files.length, file))).toEqual([
+      '01 e01.mkv',
+      '02 e02.mkv',
+      '01 e01.mkv',
+    ]);
+  });
+
+  it('scopes name conflicts and temporary renames to each parent directory', () => {
+    expect(checkBatchConflicts([seasonOne, seasonTwo], ['ep.mkv', 'ep.mkv']).get('1')?.hasConflict).toBe(false);
+
+    const tasks = [
+      { file: createFile('1', 'a.mkv', 's1'), newName: 'b.mkv', index: 0 },
+      { file: createFile('2', 'b.mkv', 's2'), newName: 'c.mkv', index: 1 },
+    ];
+    expect(planRenamePhases(tasks).tempTasks).toEqual([]);
+  });
+});
+
+type RecursivePanelHarness = FileSelectorPanel & {
+  allFiles: FileItem[];
+  scanSettings: RecursiveScanSettings;
+  loadAllFiles(): Promise<void>;
+  handleScanCancel(): void;
+};
+
+class RecursiveTestAdapter implements PlatformAdapter {
+  readonly platform = 'quark' as const;
+  readonly getAllFiles = vi.fn(async () => [createFile('1', 'a.mkv', 'root')]);
+  getAllFilesRecursive = vi.fn(
+    async (_parentId?: string, _options?: RecursiveListOptions): Promise<FileItem[]> => [
+      createFile('2', 'b.mkv', 's2', 'Season 2'),
+      createFile('1', 'a.mkv', 'root', ''),
+    ]
+  );
+
+  getCurrentDirectoryKey(): string {
+    return 'root';
+  }
+
+  async getSelectedFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async renameFile(_fileId: string, newName: string): Promise<RenameResult> {
+    return { success: true, newName };
+  }
+
+  async checkNameConflict(): Promise<boolean> {
+    return false;
+  }
+
+  async getFileInfo(fileId: string): Promise<FileItem> {
+    return createFile(fileId, fileId, 'root');
+  }
+
+  getConfig() {
+    return { platform: 'quark' as const, requestInterval: 0, maxRetries: 0 };
+  }
+}
+
+describe('FileSelectorPanel recursive loading', () => {
+  function createPanel() {
+    vi.stubGlobal('chrome', {
+      storage: { local: { get: vi.fn(async () => ({})), set: vi.fn(async () => undefined) } },
+    });
+    const adapter = new RecursiveTestAdapter();
+    const panel = new FileSelectorPanel() as RecursivePanelHarness;
+    panel.adapter = adapter;
+    return { panel, adapter };
+  }
+
+  it('loads subfolders with the chosen settings and groups files by folder', async () => {
+    const { panel, adapter } = createPanel();
+    panel.scanSettings = { enabled: true, maxDepth: 2, include: 'Season*', exclude: 'Extras, Subs' };
+
+    await panel.loadAllFiles();
+
+    expect(adapter.getAllFilesRecursive).toHaveBeenCalledWith(
+      undefined,
+      expect.objectContaining({ maxDepth: 2, includeFolders: ['Season*'], excludeFolders: ['Extras', 'Subs'] })
+    );
+    expect(panel.allFiles.map((file) => file.id)).toEqual(['1', '2']);
+  });
+
+  it('keeps the previous list and settings when the scan is cancelled', async () => {
+    const { panel, adapter } = createPanel();
+    await panel.loadAllFiles();
+    adapter.getAllFilesRecursive.mockImplementation(
+      (_parentId, options) =>
+        new Promise((_resolve, reject) => {
+          options?.signal?.addEventListener('abort', () => {
+            const error = new Error('cancelled');
+            error.name = 'AbortError';
+            reject(error);
+          });
+        })
+    );
+
+    panel.scanSettings = { ...panel.scanSettings, enabled: true };
+    const loading = panel.loadAllFiles();
+    panel.handleScanCancel();
+    await loading;
+
+    expect(panel.scanSettings.enabled).toBe(false);
+    expect(panel.allFiles.map((file) => file.id)).toEqual(['1']);
+  });
+});
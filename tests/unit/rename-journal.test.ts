@@ -0,0 +1,239 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRenameJournalEntry, RenameJournal, renameJournal } from '../../src/core/rename-journal';
+import { FileSelectorPanel } from '../../src/content/components/file-selector-panel';
+import { RenameHistoryDialog } from '../../src/content/components/rename-history-dialog';
+import { FileItem, PlatformAdapter, RenameResult } from '../../src/types/platform';
+import { BatchResults } from '../../src/types/core';
+import { LastRenameOperation, RENAME_JOURNAL_STORAGE_KEYS, RenameJournalEntry } from '../../src/types/undo';
+
+function createMemoryStorage() {
+  const data = new Map<string, unknown>();
+  return {
+    data,
+    get: vi.fn(async <T>(key: string) => (data.get(key) as T) ?? null),
+    set: vi.fn(async (key: string, value: unknown) => {
+      data.set(key, value);
+    }),
+  };
+}
+
+function createOperation(directoryKey: string, createdAt: number, fileIds: string[]): LastRenameOperation {
+  return {
+    platform: 'quark',
+    directoryKey,
+    createdAt,
+    updatedAt: createdAt,
+    items: fileIds.map((fileId, index) => ({
+      fileId,
+      original: `old-${fileId}.txt`,
+      renamed: `new-${fileId}.txt`,
+      index,
+    })),
+  };
+}
+
+describe('RenameJournal', () => {
+  it('stores entries newest first with the rule and caps the number of entries', async () => {
+    const memory = createMemoryStorage();
+    const journal = new RenameJournal(memory, 2);
+
+    for (let i = 1; i <= 3; i++) {
+      await journal.append(
+        createRenameJournalEntry(createOperation(`dir-${i}`, i, [`${i}`]), {
+          type: 'prefix',
+          params: { prefix: 'X_' },
+        })
+      );
+    }
+
+    const entries = await journal.list();
+    expect(entries.map((entry) => entry.directoryKey)).toEqual(['dir-3', 'dir-2']);
+    expect(entries[0].rule).toEqual({ type: 'prefix', params: { prefix: 'X_' } });
+    expect(memory.data.get(RENAME_JOURNAL_STORAGE_KEYS.ENTRIES)).toHaveLength(2);
+  });
+
+  it('merges retry items and drops reverted items, removing empty entries', async () => {
+    const journal = new RenameJournal(createMemoryStorage());
+    const entry = createRenameJournalEntry(createOperation('dir-a', 1, ['1']), null);
+
+    // 不等待 append，验证写操作串行执行
+    void journal.append(entry);
+    await journal.appendItems(entry.id, [{ fileId: '2', original: 'old-2.txt', renamed: 'new-2.txt', index: 1 }]);
+    expect((await journal.get(entry.id))?.items.map((item) => item.fileId)).toEqual(['1', '2']);
+
+    await journal.removeItems(entry.id, new Set(['1']));
+    expect((await journal.get(entry.id))?.items.map((item) => item.fileId)).toEqual(['2']);
+
+    await journal.removeItems(entry.id, new Set(['2']));
+    expect(await journal.get(entry.id)).toBeNull();
+  });
+
+  it('finds the latest entry of a platform and directory', async () => {
+    const journal = new RenameJournal(createMemoryStorage());
+    await journal.append(createRenameJournalEntry(createOperation('dir-a', 1, ['1']), null));
+    await journal.append(createRenameJournalEntry(createOperation('dir-a', 2, ['2']), null));
+    await journal.append(createRenameJournalEntry(createOperation('dir-b', 3, ['3']), null));
+
+    expect((await journal.findLatestInScope('quark', 'dir-a'))?.createdAt).toBe(2);
+    expect(await journal.findLatestInScope('baidu', 'dir-a')).toBeNull();
+  });
+});
+
+type HistoryHarness = FileSelectorPanel & {
+  allFiles: FileItem[];
+  historyEntries: RenameJournalEntry[];
+  executionResults: BatchResults | null;
+  handleHistoryRevert(e: CustomEvent<{ entryId: string; fileIds: string[] }>): Promise<void>;
+};
+
+class HistoryAdapter implements PlatformAdapter {
+  readonly platform = 'quark' as const;
+  readonly takenNames = new Set<string>();
+  readonly renameFile = vi.fn(async (_fileId: string, newName: string): Promise<RenameResult> => ({
+    success: true,
+    newName,
+  }));
+  readonly checkNameConflict = vi.fn(async (fileName: string) => this.takenNames.has(fileName));
+
+  getCurrentDirectoryKey(): string {
+    return 'dir-now';
+  }
+
+  async getSelectedFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async getAllFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async getFileInfo(fileId: string): Promise<FileItem> {
+    return { id: fileId, name: fileId, ext: '', parentId: 'dir-now', size: 0, mtime: 0 };
+  }
+
+  getConfig() {
+    return { platform: 'quark' as const, requestInterval: 0, maxRetries: 0 };
+  }
+}
+
+describe('FileSelectorPanel rename history', () => {
+  let stored: RenameJournalEntry[];
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.stubGlobal('alert', vi.fn());
+    vi.stubGlobal('confirm', vi.fn(() => true));
+    vi.stubGlobal('chrome', {
+      storage: {
+        local: {
+          get: vi.fn(async () => ({ [RENAME_JOURNAL_STORAGE_KEYS.ENTRIES]: stored })),
+          set: vi.fn(async (items: Record<string, unknown>) => {
+            if (RENAME_JOURNAL_STORAGE_KEYS.ENTRIES in items) {
+              stored = items[RENAME_JOURNAL_STORAGE_KEYS.ENTRIES] as RenameJournalEntry[];
+            }
+          }),
+          remove: vi.fn(async () => undefined),
+        },
+      },
+    });
+  });
+
+  function createPanel(entry: RenameJournalEntry) {
+    stored = [entry];
+    const adapter = new HistoryAdapter();
+    const panel = new FileSelectorPanel() as HistoryHarness;
+    panel.adapter = adapter;
+    panel.allFiles = [];
+    panel.historyEntries = [entry];
+    return { panel, adapter };
+  }
+
+  function revertEvent(entryId: string, fileIds: string[]) {
+    return new CustomEvent('history-revert', { detail: { entryId, fileIds } });
+  }
+
+  it('partially reverts an entry from another directory and keeps the rest in the journal', async () => {
+    const entry = createRenameJournalEntry(createOperation('dir-old', 1, ['1', '2']), null);
+    const { panel, adapter } = createPanel(entry);
+
+    await panel.handleHistoryRevert(revertEvent(entry.id, ['2']));
+
+    expect(adapter.checkNameConflict).toHaveBeenCalledWith('old-2.txt', 'dir-old');
+    expect(adapter.renameFile).toHaveBeenCalledTimes(1);
+    expect(adapter.renameFile).toHaveBeenCalledWith('2', 'old-2.txt');
+    expect((await renameJournal.get(entry.id))?.items.map((item) => item.fileId)).toEqual(['1']);
+  });
+
+  it('skips files whose original name is taken after the user confirms', async () => {
+    const entry = createRenameJournalEntry(createOperation('dir-old', 1, ['1', '2']), null);
+    const { panel, adapter } = createPanel(entry);
+    adapter.takenNames.add('old-1.txt');
+
+    await panel.handleHistoryRevert(revertEvent(entry.id, ['1', '2']));
+
+    expect(confirm).toHaveBeenCalledTimes(1);
+    expect(adapter.renameFile).toHaveBeenCalledTimes(1);
+    expect(adapter.renameFile).toHaveBeenCalledWith('2', 'old-2.txt');
+    expect((await renameJournal.get(entry.id))?.items.map((item) => item.fileId)).toEqual(['1']);
+  });
+
+  it('does not treat names vacated by the same revert as conflicts', async () => {
+    const entry = createRenameJournalEntry(createOperation('dir-old', 1, ['1']), null);
+    entry.items.push({ fileId: '2', original: 'new-1.txt', renamed: 'new-2.txt', index: 1 });
+    const { panel, adapter } = createPanel(entry);
+    adapter.takenNames.add('new-1.txt');
+
+    await panel.handleHistoryRevert(revertEvent(entry.id, ['1', '2']));
+
+    expect(confirm).not.toHaveBeenCalled();
+    expect(adapter.renameFile).toHaveBeenCalledWith('1', 'old-1.txt');
+    expect(adapter.renameFile).toHaveBeenCalledWith('2', 'new-1.txt');
+  });
+
+  it('aborts without renaming when every original name is taken', async () => {
+    const entry = createRenameJournalEntry(createOperation('dir-old', 1, ['1']), null);
+    const { panel, adapter } = createPanel(entry);
+    adapter.takenNames.add('old-1.txt');
+
+    await panel.handleHistoryRevert(revertEvent(entry.id, ['1']));
+
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(adapter.renameFile).not.toHaveBeenCalled();
+    expect(panel.executionResults).toBeNull();
+  });
+});
+
+describe('RenameHistoryDialog', () => {
+  it('emits revert events for all files or only the checked ones', async () => {
+    const entry = createRenameJournalEntry(createOperation('dir-a', 1, ['1', '2']), {
+      type: 'pipeline',
+      params: {
+        steps: [
+          { type: 'case', params: { mode: 'upper' } },
+          { type: 'episodeExtract', params: {} },
+        ],
+      },
+    });
+    const dialog = new RenameHistoryDialog();
+    dialog.open = true;
+    dialog.entries = [entry];
+    document.body.appendChild(dialog);
+    await dialog.updateComplete;
+
+    const events: Array<{ entryId: string; fileIds: string[] }> = [];
+    dialog.addEventListener('history-revert', (e) => events.push((e as CustomEvent).detail));
+    const query = (role: string) => dialog.shadowRoot?.querySelector<HTMLElement>(`[data-role="${role}"]`);
+
+    query('history-revert-all-button')?.click();
+    expect(events[0]).toEqual({ entryId: entry.id, fileIds: ['1', '2'] });
+
+    query('history-entry')?.querySelector<HTMLElement>('.history-entry-header')?.click();
+    await dialog.updateComplete;
+    dialog.shadowRoot?.querySelector<HTMLInputElement>('[data-role="history-item-checkbox"]')?.click();
+    await dialog.updateComplete;
+    query('history-revert-selected-button')?.click();
+
+    expect(events[1]).toEqual({ entryId: entry.id, fileIds: ['2'] });
+    dialog.remove();
+  });
+});
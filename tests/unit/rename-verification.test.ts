@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+import { findRenameMismatches } from '../../src/core/rename-verifier';
+import { BatchExecutor } from '../../src/core/executor';
+import { MockAdapter } from '../../src/adapters/mock/mock-adapter';
+import type { FileItem } from '../../src/types/platform';
+import type { ProgressEvent, Task } from '../../src/types/core';
+
+function createItem(id: string, name: string, parentId = 'root'): FileItem {
+  return { id, name, ext: '.txt', parentId, size: 0, mtime: 1 };
+}
+
+describe('findRenameMismatches', () => {
+  it('应该按目录重新列出，只报告名称不一致或已找不到的文件', async () => {
+    const adapter = {
+      getAllFiles: vi.fn(async (parentId?: string) =>
+        parentId === 'root' ? [createItem('a', 'A.txt'), createItem('b', 'old-b.txt')] : [createItem('c', 'C.txt', 'sub')]
+      ),
+      getFileInfo: vi.fn(async (fileId: string): Promise<FileItem> => {
+        throw new Error(`${fileId} not found`);
+      }),
+    };
+
+    const mismatches = await findRenameMismatches(adapter, [
+      { fileId: 'a', parentId: 'root', expectedName: 'A.txt' },
+      { fileId: 'b', parentId: 'root', expectedName: 'B.txt' },
+      { fileId: 'c', parentId: 'sub', expectedName: 'C.txt' },
+      { fileId: 'd', parentId: 'sub', expectedName: 'D.txt' },
+    ]);
+
+    expect(mismatches).toEqual([
+      { fileId: 'b', actualName: 'old-b.txt' },
+      { fileId: 'd', actualName: null },
+    ]);
+    expect(adapter.getAllFiles.mock.calls).toEqual([['root'], ['sub']]);
+  });
+
+  it('应该在目录列表失败时逐个查询，仍无法读取的文件视为通过', async () => {
+    const adapter = {
+      getAllFiles: vi.fn(async (): Promise<FileItem[]> => {
+        throw new Error('Network error');
+      }),
+      getFileInfo: vi.fn(async (fileId: string): Promise<FileItem> => {
+        if (fileId === 'b') {
+          throw new Error('Network error');
+        }
+        return createItem(fileId, 'stale.txt');
+      }),
+    };
+
+    const mismatches = await findRenameMismatches(adapter, [
+      { fileId: 'a', parentId: 'root', expectedName: 'A.txt' },
+      { fileId: 'b', parentId: 'root', expectedName: 'B.txt' },
+    ]);
+
+    expect(mismatches).toEqual([{ fileId: 'a', actualName: 'stale.txt' }]);
+  });
+});
+
+describe('BatchExecutor 执行后校验', () => {
+  async function setup(verifyAfterRename: boolean) {
+    const adapter = new MockAdapter();
+    const files = (await adapter.getAllFiles('root')).filter((file) => !file.isFolder).slice(0, 3);
+    const tasks: Task[] = files.map((file, index) => ({ file, newName: `renamed-${index}${file.ext}`, index }));
+    const renameFile = adapter.renameFile.bind(adapter);
+    // 第二个文件：平台报告成功但名称并未改变
+    vi.spyOn(adapter, 'renameFile').mockImplementation(async (fileId, newName) =>
+      fileId === files[1].id ? { success: true, newName } : renameFile(fileId, newName)
+    );
+    const getAllFiles = vi.spyOn(adapter, 'getAllFiles');
+    const progress: ProgressEvent[] = [];
+    const executor = new BatchExecutor(files, { type: 'prefix', params: { prefix: 'x' } }, adapter, {
+      requestInterval: 0,
+      tasks,
+      verifyAfterRename,
+      onProgress: (event) => progress.push(event),
+    });
+    return { executor, files, getAllFiles, progress };
+  }
+
+  it('应该把名称并未改变的成功结果改记为校验失败', async () => {
+    const { executor, files, getAllFiles, progress } = await setup(true);
+
+    const results = await executor.execute();
+
+    expect(getAllFiles).toHaveBeenCalledWith('root');
+    expect(results.success.map((item) => item.fileId)).toEqual([files[0].id, files[2].id]);
+    expect(results.failed).toMatchObject([
+      { fileId: files[1].id, error: `Name is still "${files[1].name}" after renaming`, verificationFailed: true, index: 1 },
+    ]);
+    expect(progress[progress.length - 1]).toMatchObject({
+      fileId: files[1].id,
+      status: 'failed',
+      verificationFailed: true,
+      success: 2,
+      failed: 1,
+      completed: 3,
+    });
+  });
+
+  it('默认不校验', async () => {
+    const { executor, getAllFiles } = await setup(false);
+
+    const results = await executor.execute();
+
+    expect(getAllFiles).not.toHaveBeenCalled();
+    expect(results.success).toHaveLength(3);
+  });
+});
@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { StorageManager } from '../../src/utils/storage';
+import {
+  RulePresetStore,
+  buildRulePresetFile,
+  parseRulePresetFile,
+  rulePresetStore,
+  validatePresetRule,
+} from '../../src/utils/rule-presets';
+import { ConfigPanel } from '../../src/content/components/config-panel';
+import type { RulePreset } from '../../src/types/preset';
+import { PRESET_STORAGE_KEYS, RULE_PRESET_FILE_FORMAT } from '../../src/types/preset';
+
+describe('RulePresetStore', () => {
+  let stored: Record<string, unknown>;
+
+  beforeEach(() => {
+    stored = {};
+    global.chrome = {
+      storage: {
+        local: {
+          get: vi.fn(async (key: string) => ({ [key]: stored[key] })),
+          set: vi.fn(async (items: Record<string, unknown>) => {
+            Object.assign(stored, items);
+          }),
+        },
+      },
+    } as any;
+  });
+
+  it('保存同名预设时应覆盖而不是新增', async () => {
+    const store = new RulePresetStore(new StorageManager());
+
+    const first = await store.save('Episodes', { type: 'prefix', params: { prefix: 'A' } });
+    const second = await store.save(' Episodes ', { type: 'prefix', params: { prefix: 'B' } });
+
+    const presets = await store.list();
+    expect(presets).toHaveLength(1);
+    expect(second.id).toBe(first.id);
+    expect(presets[0].rule.params.prefix).toBe('B');
+    expect(stored[PRESET_STORAGE_KEYS.LIBRARY]).toHaveLength(1);
+  });
+
+  it('应支持删除预设', async () => {
+    const store = new RulePresetStore(new StorageManager());
+    const preset = await store.save('Tmp', { type: 'suffix', params: { suffix: '_x' } });
+
+    await store.remove(preset.id);
+
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe('rule preset import / export', () => {
+  it('导出的文件应能原样导入', () => {
+    const file = buildRulePresetFile([
+      {
+        id: '1',
+        name: 'Chain',
+        rule: {
+          type: 'pipeline',
+          params: {
+            steps: [
+              { type: 'sanitize', params: { removeChars: '[]' }, enabled: true },
+              { type: 'prefix', params: { prefix: 'HD', separator: '_' }, enabled: false },
+            ],
+          },
+        },
+        createdAt: 0,
+        updatedAt: 0,
+      },
+    ]);
+
+    expect(file.format).toBe(RULE_PRESET_FILE_FORMAT);
+
+    const result = parseRulePresetFile(JSON.stringify(file));
+    expect(result.issues).toEqual([]);
+    expect(result.presets).toEqual([{ name: 'Chain', rule: file.presets[0].rule }]);
+  });
+
+  it('未知规则类型应给出明确错误并跳过该预设', () => {
+    const result = parseRulePresetFile(
+      JSON.stringify({
+        format: RULE_PRESET_FILE_FORMAT,
+        version: 1,
+        presets: [
+          { name: 'Bad', rule: { type: 'shout', params: {} } },
+          { name: 'Good', rule: { type: 'replace', params: { search: 'a', replace: 'b' } } },
+        ],
+      })
+    );
+
+    expect(result.presets.map((preset) => preset.name)).toEqual(['Good']);
+    expect(result.issues).toEqual([{ code: 'unknown_rule_type', presetName: 'Bad', detail: 'shout' }]);
+  });
+
+  it('应通过规则自身的 validate 校验参数，并标明规则链中的步骤', () => {
+    expect(validatePresetRule({ type: 'prefix', params: { prefix: '' } }, 'P')).toEqual([
+      { code: 'invalid_params', presetName: 'P', detail: 'prefix' },
+    ]);
+
+    expect(
+      validatePresetRule(
+        {
+          type: 'pipeline',
+          params: {
+            steps: [
+              { type: 'replace', params: { search: 'a', replace: 'b' } },
+              { type: 'numbering', params: { startNumber: -1, digits: 3 } },
+            ],
+          },
+        },
+        'Chain'
+      )
+    ).toEqual([{ code: 'invalid_params', presetName: 'Chain', detail: 'numbering', step: 2 }]);
+  });
+
+  it('非预设文件或更高版本应整体拒绝', () => {
+    expect(parseRulePresetFile('not json')).toEqual({ presets: [], issues: [{ code: 'invalid_file' }] });
+    expect(parseRulePresetFile(JSON.stringify({ presets: [] })).issues).toEqual([{ code: 'invalid_file' }]);
+    expect(
+      parseRulePresetFile(JSON.stringify({ format: RULE_PRESET_FILE_FORMAT, version: 99, presets: [] })).issues
+    ).toEqual([{ code: 'unsupported_version', detail: '99' }]);
+  });
+});
+
+describe('ConfigPanel presets', () => {
+  const preset: RulePreset = {
+    id: '1',
+    name: 'Prefix',
+    rule: { type: 'prefix', params: { prefix: 'HD', separator: '_' } },
+    createdAt: 0,
+    updatedAt: 0,
+  };
+
+  type PresetPanel = ConfigPanel & {
+    handlePresetSelect(id: string): void;
+    handlePresetDelete(): Promise<void>;
+    handlePresetImportFile(e: Event): Promise<void>;
+  };
+
+  async function createPanel(): Promise<PresetPanel> {
+    vi.spyOn(rulePresetStore, 'list').mockResolvedValue([preset]);
+    const panel = new ConfigPanel() as PresetPanel;
+    document.body.appendChild(panel);
+    await panel.updateComplete;
+    return panel;
+  }
+
+  function getMessage(panel: ConfigPanel) {
+    return panel.shadowRoot?.querySelector<HTMLElement>('[data-role="preset-message"]');
+  }
+
+  it('删除或导入时存储失败应显示错误信息', async () => {
+    vi.stubGlobal('confirm', () => true);
+    vi.spyOn(rulePresetStore, 'remove').mockRejectedValue(new Error('QUOTA_BYTES quota exceeded'));
+    vi.spyOn(rulePresetStore, 'importEntries').mockRejectedValue(new Error('QUOTA_BYTES quota exceeded'));
+    const panel = await createPanel();
+
+    await vi.waitFor(() => expect(rulePresetStore.list).toHaveBeenCalled());
+    panel.handlePresetSelect('1');
+    await panel.handlePresetDelete();
+    await panel.updateComplete;
+
+    expect(getMessage(panel)?.classList.contains('hint-text-error')).toBe(true);
+    expect(getMessage(panel)?.textContent).toContain('QUOTA_BYTES quota exceeded');
+
+    const text = JSON.stringify(buildRulePresetFile([preset]));
+    const input = { files: [{ text: async () => text }], value: 'presets.json' };
+    await panel.handlePresetImportFile({ target: input } as unknown as Event);
+    await panel.updateComplete;
+
+    expect(rulePresetStore.importEntries).toHaveBeenCalled();
+    expect(getMessage(panel)?.classList.contains('hint-text-error')).toBe(true);
+    expect(getMessage(panel)?.textContent).toContain('QUOTA_BYTES quota exceeded');
+
+    panel.remove();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+});
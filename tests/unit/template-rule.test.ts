@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { TemplateRule, findTemplateIssues } from '../../src/rules/template';
+import { RuleFactory } from '../../src/rules/rule-factory';
+import { FileItem } from '../../src/types/platform';
+
+const file: FileItem = {
+  id: 'f1',
+  name: 'Holiday Video.mp4',
+  ext: '.mp4',
+  parentId: '/我的资源/Trips',
+  size: 1.5 * 1024 * 1024,
+  mtime: new Date(2024, 2, 5, 9, 7, 3).getTime(),
+};
+
+describe('TemplateRule', () => {
+  it('should render name, index, total and ext tokens', () => {
+    const rule = new TemplateRule({ template: '{index:3}-of-{total} {name}{ext}' });
+    expect(rule.execute(file.name, 4, 12, file)).toBe('005-of-12 Holiday Video.mp4');
+  });
+
+  it('should render mtime and size tokens from FileItem', () => {
+    const rule = new TemplateRule({ template: '{mtime:YYYY-MM-DD_HH:mm} {size:MB}MB' });
+    expect(rule.execute(file.name, 0, 1, file)).toBe('2024-03-05_09:07 1.5MB.mp4');
+    expect(new TemplateRule({ template: '{mtime}_{size}' }).execute(file.name, 0, 1, file)).toBe(
+      `2024-03-05_${1.5 * 1024 * 1024}.mp4`
+    );
+  });
+
+  it('should support substring modifiers', () => {
+    expect(new TemplateRule({ template: '{name:0:7}' }).execute(file.name, 0, 1, file)).toBe('Holiday.mp4');
+    expect(new TemplateRule({ template: '{name:-5}' }).execute(file.name, 0, 1, file)).toBe('Video.mp4');
+    expect(new TemplateRule({ template: '{name}.{ext:1}' }).execute(file.name, 0, 1, file)).toBe(
+      'Holiday Video.mp4'
+    );
+  });
+
+  it('should resolve {parent} from parentName or a path-like parentId', () => {
+    const rule = new TemplateRule({ template: '{parent}_{index:2}' });
+    expect(rule.execute(file.name, 0, 1, file)).toBe('Trips_01.mp4');
+    expect(rule.execute(file.name, 0, 1, { ...file, parentId: 'abc', parentName: 'Photos' })).toBe('Photos_01.mp4');
+  });
+
+  it('should report unknown tokens and invalid modifiers', () => {
+    expect(findTemplateIssues('{name}_{episode}_{index:x}_{size:XB}')).toEqual([
+      { code: 'unknown_token', token: '{episode}' },
+      { code: 'invalid_modifier', token: '{index:x}' },
+      { code: 'invalid_modifier', token: '{size:XB}' },
+    ]);
+    expect(() => new TemplateRule({ template: '{episode}' })).toThrow('Invalid rule configuration');
+  });
+
+  it('should receive the FileItem through RuleFactory and pipelines', () => {
+    const rule = RuleFactory.create({
+      type: 'pipeline',
+      params: {
+        steps: [
+          { type: 'template', params: { template: '{mtime:YYYYMMDD}_{name}' } },
+          { type: 'case', params: { mode: 'kebab' } },
+        ],
+      },
+    });
+
+    expect(rule.execute(file.name, 0, 1, file)).toBe('20240305-holiday-video.mp4');
+  });
+});
@@ -0,0 +1,245 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { planRenamePhases } from '../../src/core/execution-plan';
+import { BatchExecutor } from '../../src/core/executor';
+import { checkAllConflicts } from '../../src/core/conflict-detector';
+import { CrashRecoveryManager } from '../../src/core/crash-recovery';
+import { FileItem, PlatformAdapter, RenameResult } from '../../src/types/platform';
+import { OperationState, Task } from '../../src/types/core';
+
+function createFile(id: string, name: string): FileItem {
+  const dot = name.lastIndexOf('.');
+  return { id, name, ext: dot > 0 ? name.slice(dot) : '', parentId: 'root', size: 1, mtime: 1 };
+}
+
+function createTasks(pairs: Array<[string, string]>): Task[] {
+  return pairs.map(([name, newName], index) => ({ file: createFile(String(index + 1), name), newName, index }));
+}
+
+/**
+ * 模拟目录：同目录下不允许重名
+ */
+class DirectoryAdapter implements PlatformAdapter {
+  readonly platform = 'quark' as const;
+  readonly names = new Map<string, string>();
+  readonly calls: Array<[string, string]> = [];
+  failingNames = new Set<string>();
+
+  constructor(files: FileItem[]) {
+    files.forEach((file) => this.names.set(file.id, file.name));
+  }
+
+  getCurrentDirectoryKey(): string {
+    return 'root';
+  }
+
+  async getSelectedFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async getAllFiles(): Promise<FileItem[]> {
+    return [];
+  }
+
+  async renameFile(fileId: string, newName: string): Promise<RenameResult> {
+    this.calls.push([fileId, newName]);
+    const taken = Array.from(this.names.entries()).some(([id, name]) => id !== fileId && name === newName);
+    if (taken || this.failingNames.has(newName)) {
+      return { success: false, error: new Error(`Name taken: ${newName}`) };
+    }
+    this.names.set(fileId, newName);
+    return { success: true, newName };
+  }
+
+  async checkNameConflict(fileName: string): Promise<boolean> {
+    return Array.from(this.names.values()).includes(fileName);
+  }
+
+  async getFileInfo(fileId: string): Promise<FileItem> {
+    return createFile(fileId, this.names.get(fileId) ?? '');
+  }
+
+  getConfig() {
+    return { platform: 'quark' as const, requestInterval: 0, maxConcurrent: 3, maxRetries: 0 };
+  }
+}
+
+function createExecutor(tasks: Task[], adapter: PlatformAdapter, onTempNameChange?: (id: string, temp: string | null) => void) {
+  return new BatchExecutor(
+    tasks.map((task) => task.file),
+    { type: 'prefix', params: { prefix: '' } },
+    adapter,
+    { requestInterval: 0, tasks, onTempNameChange }
+  );
+}
+
+describe('planRenamePhases', () => {
+  it('moves both files of a swap to temporary names', () => {
+    const { tempTasks } = planRenamePhases(createTasks([['a.txt', 'b.txt'], ['b.txt', 'a.txt']]), { token: 'tok' });
+
+    expect(tempTasks.map((task) => task.newName)).toEqual(['cdr-tmp-tok-0.txt', 'cdr-tmp-tok-1.txt']);
+  });
+
+  it('only moves files whose names are targets in a shifted sequence', () => {
+    const tasks = createTasks([
+      ['01.mp4', '02.mp4'],
+      ['02.mp4', '03.mp4'],
+      ['03.mp4', '04.mp4'],
+    ]);
+
+    expect(planRenamePhases(tasks).tempTasks.map((task) => task.file.id)).toEqual(['2', '3']);
+  });
+
+  it('returns no temporary tasks for independent renames', () => {
+    expect(planRenamePhases(createTasks([['a.txt', 'x.txt'], ['b.txt', 'y.txt']])).tempTasks).toEqual([]);
+  });
+});
+
+describe('BatchExecutor two-phase rename', () => {
+  it('completes a swap that direct renames would reject', async () => {
+    const tasks = createTasks([['a.txt', 'b.txt'], ['b.txt', 'a.txt']]);
+    const adapter = new DirectoryAdapter(tasks.map((task) => task.file));
+    const tempChanges: Array<[string, string | null]> = [];
+
+    const results = await createExecutor(tasks, adapter, (id, temp) => tempChanges.push([id, temp])).execute();
+
+    expect(results.failed).toEqual([]);
+    expect(results.success.map((item) => [item.original, item.renamed])).toEqual(
+      expect.arrayContaining([
+        ['a.txt', 'b.txt'],
+        ['b.txt', 'a.txt'],
+      ])
+    );
+    expect(adapter.names.get('1')).toBe('b.txt');
+    expect(adapter.names.get('2')).toBe('a.txt');
+    expect(tempChanges.filter(([, temp]) => temp === null)).toHaveLength(2);
+  });
+
+  it('completes a sequence shifted by one and a three-file cycle', async () => {
+    const tasks = createTasks([
+      ['01.mp4', '02.mp4'],
+      ['02.mp4', '03.mp4'],
+      ['03.mp4', '04.mp4'],
+      ['x.txt', 'y.txt'],
+      ['y.txt', 'z.txt'],
+      ['z.txt', 'x.txt'],
+    ]);
+    const adapter = new DirectoryAdapter(tasks.map((task) => task.file));
+
+    const results = await createExecutor(tasks, adapter).execute();
+
+    expect(results.failed).toEqual([]);
+    expect(Array.from(adapter.names.values()).sort()).toEqual(
+      ['02.mp4', '03.mp4', '04.mp4', 'x.txt', 'y.txt', 'z.txt'].sort()
+    );
+  });
+
+  it('fails dependents when a name cannot be vacated', async () => {
+    const tasks = createTasks([['a.txt', 'b.txt'], ['b.txt', 'c.txt']]);
+    const adapter = new DirectoryAdapter(tasks.map((task) => task.file));
+    const rename = adapter.renameFile.bind(adapter);
+    adapter.renameFile = async (fileId, newName) =>
+      newName.startsWith('cdr-tmp-') ? { success: false, error: new Error('denied') } : rename(fileId, newName);
+
+    const results = await createExecutor(tasks, adapter).execute();
+
+    expect(results.success.map((item) => item.fileId)).toEqual(['2']);
+    expect(results.failed.find((item) => item.fileId === '1')?.error).toContain('still taken');
+    expect(adapter.calls.filter(([fileId]) => fileId === '1')).toEqual([]);
+  });
+
+  it('keeps the temporary name and reports it when the original name is no longer free', async () => {
+    const tasks = createTasks([['a.txt', 'b.txt'], ['b.txt', 'a.txt']]);
+    const adapter = new DirectoryAdapter(tasks.map((task) => task.file));
+    adapter.failingNames = new Set(['a.txt']);
+
+    const results = await createExecutor(tasks, adapter).execute();
+
+    expect(adapter.names.get('1')).toBe('b.txt');
+    expect(adapter.names.get('2')).toMatch(/^cdr-tmp-/);
+    expect(results.failed[0].error).toContain('left as temporary name');
+  });
+});
+
+describe('conflict detection with vacated names', () => {
+  it('does not report a swap as an existing-name conflict', async () => {
+    const files = [createFile('1', 'a.txt'), createFile('2', 'b.txt')];
+    const adapter = new DirectoryAdapter(files);
+
+    const conflicts = await checkAllConflicts(files, ['b.txt', 'a.txt'], adapter);
+
+    expect(Array.from(conflicts.values()).every((result) => !result.hasConflict)).toBe(true);
+  });
+});
+
+describe('CrashRecoveryManager temporary names', () => {
+  let storageData: Record<string, unknown>;
+
+  beforeEach(() => {
+    storageData = {};
+    vi.stubGlobal('chrome', {
+      storage: {
+        local: {
+          set: vi.fn(async (items: Record<string, unknown>) => {
+            Object.assign(storageData, JSON.parse(JSON.stringify(items)));
+          }),
+          get: vi.fn(async (key: string) => ({ [key]: storageData[key] })),
+          remove: vi.fn(async (key: string) => {
+            delete storageData[key];
+          }),
+        },
+      },
+    });
+  });
+
+  it('records temporary names while a swap runs', async () => {
+    const recovery = new CrashRecoveryManager();
+    const tasks = createTasks([['a.txt', 'b.txt'], ['b.txt', 'a.txt']]);
+    const key = await recovery.saveOperationState({
+      platform: 'quark',
+      files: tasks.map((task) => task.file),
+      rule: { type: 'prefix', params: { prefix: '' } },
+      completed: [],
+      failed: [],
+      tasks,
+    });
+
+    void recovery.setTempName(key, '1', 'cdr-tmp-1.txt');
+    void recovery.setTempName(key, '2', 'cdr-tmp-2.txt');
+    void recovery.markAsCompleted(key, 0);
+    await recovery.setTempName(key, '1', null);
+
+    const state = storageData[key] as OperationState;
+    expect(state.tempNames).toEqual({ '2': 'cdr-tmp-2.txt' });
+    expect(state.completed).toEqual([0]);
+  });
+
+  it('rolls back an interrupted swap to the original names', async () => {
+    const recovery = new CrashRecoveryManager();
+    const tasks = createTasks([['a.txt', 'b.txt'], ['b.txt', 'a.txt']]);
+    const adapter = new DirectoryAdapter(tasks.map((task) => task.file));
+    // 中断时：文件 1 已改为 b.txt，文件 2 停留在临时名
+    adapter.names.set('2', 'cdr-tmp-2.txt');
+    adapter.names.set('1', 'b.txt');
+
+    const results = await recovery.rollbackOperation(
+      {
+        operationId: 'op-1',
+        timestamp: Date.now(),
+        platform: 'quark',
+        directoryKey: '0',
+        files: tasks.map((task) => task.file),
+        rule: { type: 'prefix', params: { prefix: '' } },
+        completed: [0],
+        failed: [],
+        tasks,
+        tempNames: { '2': 'cdr-tmp-2.txt' },
+      },
+      adapter
+    );
+
+    expect(results?.failed).toEqual([]);
+    expect(adapter.names.get('1')).toBe('a.txt');
+    expect(adapter.names.get('2')).toBe('b.txt');
+    expect(storageData['rename_operation_state:quark:0:op-1']).toBeUndefined();
+  });
+});
@@ -79,5 +79,12 @@ describe('Usage stats', () => {
     expect(mockChromeStorage.get).not.toHaveBeenCalled();
     expect(mockChromeStorage.set).not.toHaveBeenCalled();
   });
-});
 
+  it('should keep stats separate for each platform', async () => {
+    await recordUsageStatsDelta('123pan', { success: 1, failed: 0 });
+
+    expect(mockChromeStorage.set).toHaveBeenCalledWith({
+      [STORAGE_KEYS.USAGE_STATS_PREFIX + '123pan']: expect.objectContaining({ platform: '123pan', successCount: 1 }),
+    });
+  });
+});
@@ -9,10 +9,15 @@ export default defineConfig({
       input: {
         popup: 'src/popup/index.html',
         dialog: 'src/dialog/index.html',
+        webdav: 'src/webdav/index.html',
+        sandbox: 'src/sandbox/index.html',
         // ✅ 添加 page-script 作为显式入口点
         'page-script-aliyun': 'src/adapters/aliyun/page-script.ts',
         'page-script-baidu': 'src/adapters/baidu/page-script.ts',
         'page-script-quark': 'src/adapters/quark/page-script.ts',
+        'page-script-115': 'src/adapters/115/page-script.ts',
+        'page-script-123pan': 'src/adapters/123pan/page-script.ts',
+        'page-script-tianyi': 'src/adapters/tianyi/page-script.ts',
       },
       output: {
         entryFileNames: (chunkInfo) => {